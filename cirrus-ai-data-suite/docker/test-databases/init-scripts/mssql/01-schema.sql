@@ -0,0 +1,81 @@
+-- Clinic Database Schema (SQL Server)
+-- A smaller companion to the PostgreSQL medical database. Uses a non-default
+-- schema, cross-schema foreign keys and a view to exercise the SQL Server connector.
+
+IF DB_ID('clinic_records') IS NULL
+    CREATE DATABASE clinic_records;
+GO
+
+USE clinic_records;
+GO
+
+CREATE SCHEMA billing;
+GO
+
+-- Patients table
+CREATE TABLE dbo.patients (
+    patient_id INT IDENTITY(1,1) PRIMARY KEY,
+    medical_record_number VARCHAR(20) NOT NULL UNIQUE,
+    first_name NVARCHAR(100) NOT NULL,
+    last_name NVARCHAR(100) NOT NULL,
+    date_of_birth DATE NOT NULL,
+    ssn CHAR(11),
+    email NVARCHAR(255),
+    phone VARCHAR(20),
+    created_at DATETIME2 DEFAULT SYSUTCDATETIME()
+);
+
+-- Healthcare providers
+CREATE TABLE dbo.providers (
+    provider_id INT IDENTITY(1,1) PRIMARY KEY,
+    npi_number CHAR(10) NOT NULL UNIQUE,
+    first_name NVARCHAR(100) NOT NULL,
+    last_name NVARCHAR(100) NOT NULL,
+    specialty NVARCHAR(100)
+);
+
+-- Appointments
+CREATE TABLE dbo.appointments (
+    appointment_id INT IDENTITY(1,1) PRIMARY KEY,
+    patient_id INT NOT NULL REFERENCES dbo.patients(patient_id),
+    provider_id INT NOT NULL REFERENCES dbo.providers(provider_id),
+    scheduled_at DATETIME2 NOT NULL,
+    reason NVARCHAR(500),
+    status VARCHAR(20) DEFAULT 'scheduled'
+);
+
+CREATE INDEX ix_appointments_patient ON dbo.appointments(patient_id, scheduled_at);
+
+-- Insurance policies live in the billing schema
+CREATE TABLE billing.insurance_policies (
+    policy_id INT IDENTITY(1,1) PRIMARY KEY,
+    patient_id INT NOT NULL REFERENCES dbo.patients(patient_id),
+    provider_name NVARCHAR(200) NOT NULL,
+    policy_number VARCHAR(50) NOT NULL,
+    group_number VARCHAR(50)
+);
+
+-- Invoices
+CREATE TABLE billing.invoices (
+    invoice_id INT IDENTITY(1,1) PRIMARY KEY,
+    appointment_id INT NOT NULL REFERENCES dbo.appointments(appointment_id),
+    policy_id INT REFERENCES billing.insurance_policies(policy_id),
+    amount DECIMAL(10, 2) NOT NULL,
+    issued_at DATE NOT NULL,
+    paid BIT DEFAULT 0
+);
+GO
+
+-- Upcoming appointments with patient and provider names
+CREATE VIEW dbo.upcoming_appointments AS
+SELECT
+    a.appointment_id,
+    p.first_name + ' ' + p.last_name AS patient_name,
+    pr.last_name AS provider_last_name,
+    a.scheduled_at,
+    a.reason
+FROM dbo.appointments a
+JOIN dbo.patients p ON p.patient_id = a.patient_id
+JOIN dbo.providers pr ON pr.provider_id = a.provider_id
+WHERE a.status = 'scheduled';
+GO
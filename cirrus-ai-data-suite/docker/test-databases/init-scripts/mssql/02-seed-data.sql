@@ -0,0 +1,35 @@
+-- Clinic Database Seed Data (SQL Server)
+-- All records are fictional
+
+USE clinic_records;
+GO
+
+INSERT INTO dbo.patients (medical_record_number, first_name, last_name, date_of_birth, ssn, email, phone) VALUES
+('MRN-100001', N'Alice', N'Morgan', '1984-03-12', '123-45-6789', N'alice.morgan@example.com', '555-0101'),
+('MRN-100002', N'Ben', N'Okafor', '1975-11-02', '234-56-7890', N'ben.okafor@example.com', '555-0102'),
+('MRN-100003', N'Carla', N'Reyes', '1992-07-24', '345-67-8901', N'carla.reyes@example.com', '555-0103'),
+('MRN-100004', N'Daniel', N'Kim', '1968-01-30', '456-78-9012', N'daniel.kim@example.com', '555-0104'),
+('MRN-100005', N'Elena', N'Petrova', '2001-09-15', '567-89-0123', N'elena.petrova@example.com', '555-0105');
+
+INSERT INTO dbo.providers (npi_number, first_name, last_name, specialty) VALUES
+('1234567890', N'Grace', N'Holloway', N'Cardiology'),
+('2345678901', N'Samuel', N'Ito', N'Family Medicine'),
+('3456789012', N'Priya', N'Nair', N'Endocrinology');
+
+INSERT INTO dbo.appointments (patient_id, provider_id, scheduled_at, reason, status) VALUES
+(1, 1, '2024-05-02 09:00', N'Follow-up for hypertension', 'completed'),
+(2, 2, '2024-05-03 10:30', N'Annual physical', 'completed'),
+(3, 3, '2024-05-06 14:00', N'Type 2 diabetes management', 'completed'),
+(4, 1, '2030-01-10 11:00', N'Chest pain evaluation', 'scheduled'),
+(5, 2, '2030-01-12 08:30', N'Persistent cough', 'scheduled');
+
+INSERT INTO billing.insurance_policies (patient_id, provider_name, policy_number, group_number) VALUES
+(1, N'Blue Harbor Health', 'BHH-88412093', 'GRP-1001'),
+(2, N'Summit Mutual', 'SMU-55120987', 'GRP-2002'),
+(3, N'Blue Harbor Health', 'BHH-88419921', 'GRP-1001');
+
+INSERT INTO billing.invoices (appointment_id, policy_id, amount, issued_at, paid) VALUES
+(1, 1, 185.00, '2024-05-02', 1),
+(2, 2, 240.50, '2024-05-03', 1),
+(3, 3, 310.75, '2024-05-06', 0);
+GO
@@ -8,10 +8,14 @@ const nextConfig: NextConfig = {
     if (isServer) {
       config.externals.push(
         'react-native-sqlite-storage',
+        '@duckdb/node-api',
         '@sap/hana-client',
+        'mongodb',
+        'mssql',
         'mysql',
         'mysql2',
         'oracledb',
+        /^pdfjs-dist\//,
         'pg',
         'pg-native',
         'sqlite3',
@@ -66,7 +70,7 @@ const nextConfig: NextConfig = {
   
   // External packages for server components
   // NOTE: TypeORM needs to be external to avoid module resolution issues during build
-  serverExternalPackages: ['better-sqlite3', 'app-root-path', 'typeorm']
+  serverExternalPackages: ['better-sqlite3', '@duckdb/node-api', 'app-root-path', 'typeorm']
 };
 
 export default nextConfig;
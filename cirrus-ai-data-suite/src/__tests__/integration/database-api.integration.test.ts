@@ -494,6 +494,13 @@ describe('Database Connection API Integration Tests', () => {
     });
 
     test('should reject non-SELECT queries', async () => {
+      // Which queries are allowed depends on the connection's database type
+      mockRepository.findOne.mockResolvedValue({
+        id: '1',
+        type: 'postgresql',
+        status: 'active'
+      });
+
       await testApiHandler({
         appHandler: queryRoute,
         params: { id: '1' },
@@ -514,6 +521,13 @@ describe('Database Connection API Integration Tests', () => {
     });
 
     test('should reject queries with dangerous keywords', async () => {
+      // Which queries are allowed depends on the connection's database type
+      mockRepository.findOne.mockResolvedValue({
+        id: '1',
+        type: 'postgresql',
+        status: 'active'
+      });
+
       await testApiHandler({
         appHandler: queryRoute,
         params: { id: '1' },
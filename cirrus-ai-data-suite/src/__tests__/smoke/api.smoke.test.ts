@@ -44,7 +44,7 @@ describe('API Endpoints Smoke Tests', () => {
     });
 
     test('GET /api/health/db should check database connectivity', async () => {
-      const response = await fetch(`${baseUrl}/api/health/db`);
+      const response = await fetch(`${baseUrl}/api/health/db`, { headers: createAuthHeaders() });
       expect(response.status).toBe(200);
       
       const data = await response.json();
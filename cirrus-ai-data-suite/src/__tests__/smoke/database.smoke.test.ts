@@ -29,7 +29,7 @@ describe('Database Connectivity Smoke Tests', () => {
   });
   describe('Database Health', () => {
     test('Database should be accessible', async () => {
-      const response = await fetch(`${baseUrl}/api/health/db`);
+      const response = await fetch(`${baseUrl}/api/health/db`, { headers: createAuthHeaders() });
       expect(response.status).toBe(200);
       
       const data = await response.json();
@@ -46,7 +46,7 @@ describe('Database Connectivity Smoke Tests', () => {
     });
 
     test('Migrations should be up to date', async () => {
-      const response = await fetch(`${baseUrl}/api/health/db`);
+      const response = await fetch(`${baseUrl}/api/health/db`, { headers: createAuthHeaders() });
       const data = await response.json();
       
       if (data.migrations) {
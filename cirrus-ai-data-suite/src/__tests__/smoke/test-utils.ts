@@ -7,6 +7,8 @@ const api = axios.create({
   baseURL: BASE_URL,
   timeout: 30000,
   validateStatus: () => true, // Don't throw on any status code
+  // API routes require a session; pass the cirrus_session cookie value set by POST /api/auth/login
+  headers: process.env.SMOKE_TEST_TOKEN ? { Authorization: `Bearer ${process.env.SMOKE_TEST_TOKEN}` } : undefined,
 });
 
 export interface ApiResponse<T = any> {
@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { middleware, isPublicApiRoute } from '@/middleware';
+import {
+  internalRequestHeaders,
+  signSessionToken,
+  SESSION_COOKIE,
+  USER_ID_HEADER,
+  USERNAME_HEADER
+} from '@/utils/session';
+
+// The shared setup mocks next/server; these tests need real requests and responses
+jest.unmock('next/server');
+
+const user = { id: 'user-1', username: 'jane' };
+
+// NextResponse.next() encodes the rewritten request headers on the response
+const forwardedHeader = (response: Response, name: string) =>
+  response.headers.get(`x-middleware-request-${name}`);
+
+describe('API middleware', () => {
+  const env = process.env as Record<string, string | undefined>;
+
+  beforeAll(() => {
+    env.AUTH_SECRET = 'middleware-test-secret';
+  });
+
+  afterAll(() => {
+    delete env.AUTH_SECRET;
+  });
+
+  // The session status route answers for users that are still active
+  let inactiveUsers: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    inactiveUsers = [];
+    global.fetch = jest.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+      const token = new Headers(init?.headers).get('authorization')!.slice('Bearer '.length);
+      const userId = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString()).sub;
+      return inactiveUsers.includes(userId)
+        ? Response.json({ error: 'User not found or inactive' }, { status: 401 })
+        : Response.json({ active: true });
+    });
+  });
+
+  it('keeps login, health and inbound endpoints public', () => {
+    expect(isPublicApiRoute('/api/auth/login')).toBe(true);
+    expect(isPublicApiRoute('/api/health')).toBe(true);
+    expect(isPublicApiRoute('/api/inbound/abc123')).toBe(true);
+    expect(isPublicApiRoute('/api/pipelines/webhooks/token-1')).toBe(true);
+    expect(isPublicApiRoute('/api/pipelines/pipeline-1')).toBe(false);
+    expect(isPublicApiRoute('/api/auth/me')).toBe(false);
+    expect(isPublicApiRoute('/api/inbound-connections')).toBe(false);
+    expect(isPublicApiRoute('/api/healthcheck')).toBe(false);
+    expect(isPublicApiRoute('/api/health/db')).toBe(false);
+  });
+
+  it('rejects API calls without a valid session', async () => {
+    const missing = await middleware(new NextRequest('http://localhost/api/data-sources'));
+    const forged = await middleware(new NextRequest('http://localhost/api/data-sources', {
+      headers: { authorization: 'Bearer a.b.c' }
+    }));
+
+    expect(missing.status).toBe(401);
+    await expect(missing.json()).resolves.toEqual({ error: 'Authentication required' });
+    expect(forged.status).toBe(401);
+  });
+
+  it('forwards the verified user and drops spoofed identity headers', async () => {
+    const token = await signSessionToken(user);
+    const response = await middleware(new NextRequest('http://localhost/api/data-sources', {
+      headers: { cookie: `${SESSION_COOKIE}=${token}`, [USER_ID_HEADER]: 'admin' }
+    }));
+
+    expect(response.status).toBe(200);
+    expect(forwardedHeader(response, USER_ID_HEADER)).toBe('user-1');
+    expect(forwardedHeader(response, USERNAME_HEADER)).toBe('jane');
+  });
+
+  it('rejects sessions of users that were deactivated', async () => {
+    const token = await signSessionToken({ id: 'user-2', username: 'sam' });
+    const request = () => new NextRequest('http://localhost/api/data-sources', {
+      headers: { cookie: `${SESSION_COOKIE}=${token}` }
+    });
+
+    expect((await middleware(request())).status).toBe(200);
+    expect(global.fetch).toHaveBeenCalledWith(new URL('http://localhost/api/auth/session'), expect.anything());
+
+    // The answer is reused for a short while, then asked for again
+    inactiveUsers.push('user-2');
+    expect((await middleware(request())).status).toBe(200);
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 60 * 1000);
+    try {
+      const response = await middleware(request());
+      expect(response.status).toBe(401);
+    } finally {
+      jest.restoreAllMocks();
+    }
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets the server call its own routes with the internal request token', async () => {
+    const allowed = await middleware(new NextRequest('http://localhost/api/data-sources/ds-1/transform', {
+      headers: await internalRequestHeaders()
+    }));
+    const forged = await middleware(new NextRequest('http://localhost/api/data-sources/ds-1/transform', {
+      headers: { 'x-cirrus-internal-request': 'forged' }
+    }));
+
+    expect(allowed.status).toBe(200);
+    expect(forged.status).toBe(401);
+  });
+
+  it('strips identity headers on public routes', async () => {
+    const response = await middleware(new NextRequest('http://localhost/api/inbound/key-1', {
+      method: 'POST',
+      headers: { [USER_ID_HEADER]: 'admin', [USERNAME_HEADER]: 'admin' }
+    }));
+
+    expect(response.status).toBe(200);
+    expect(forwardedHeader(response, USER_ID_HEADER)).toBeNull();
+  });
+
+  it('lets cron calls through with the cron secret', async () => {
+    env.CRON_SECRET = 'cron-secret';
+    try {
+      const allowed = await middleware(new NextRequest('http://localhost/api/cron/pipeline-triggers', {
+        headers: { authorization: 'Bearer cron-secret' }
+      }));
+      const denied = await middleware(new NextRequest('http://localhost/api/cron/pipeline-triggers'));
+
+      expect(allowed.status).toBe(200);
+      expect(denied.status).toBe(401);
+    } finally {
+      delete env.CRON_SECRET;
+    }
+  });
+});
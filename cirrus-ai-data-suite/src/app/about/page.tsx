@@ -290,7 +290,7 @@ export default function AboutPage() {
                 </p>
                 <ul className="text-gray-600 text-sm space-y-1">
                   <li>• <strong>Schema Analysis:</strong> Automatic detection of data relationships and constraints</li>
-                  <li>• <strong>LLM Integration:</strong> Multi-provider support (Anthropic, OpenAI, Vertex AI) for intelligent data generation</li>
+                  <li>• <strong>LLM Integration:</strong> Multi-provider support (Anthropic, OpenAI, Vertex AI, local OpenAI-compatible models) for intelligent data generation</li>
                   <li>• <strong>Distribution Preservation:</strong> Maintaining statistical characteristics of original data</li>
                   <li>• <strong>Privacy Protection:</strong> Ensuring no direct correlation to source records</li>
                   <li>• <strong>Format Flexibility:</strong> JSON, CSV, and structured output generation</li>
@@ -292,9 +292,51 @@ export default function ApiDocsPage() {
               />
               <EndpointCard
                 method="GET"
-                path="/api/pipelines/{id}/execution/{executionId}"
+                path="/api/pipelines/{id}/executions"
+                description="List past pipeline executions, newest first"
+                response="Paginated executions with status and metrics (query: page, pageSize, status)"
+              />
+              <EndpointCard
+                method="GET"
+                path="/api/pipelines/{id}/executions/{executionId}"
                 description="Get pipeline execution status"
-                response="Execution progress, metrics, and current status"
+                response="Execution progress, logs, per-node metrics and output samples"
+              />
+              <EndpointCard
+                method="GET"
+                path="/api/pipelines/{id}/versions"
+                description="List saved versions of a pipeline, newest first"
+                response="Version numbers with author, timestamp and node/edge counts"
+              />
+              <EndpointCard
+                method="GET"
+                path="/api/pipelines/{id}/versions/{version}"
+                description="Get the full definition of a saved version"
+                response="Snapshot of nodes, edges, triggers and settings"
+              />
+              <EndpointCard
+                method="GET"
+                path="/api/pipelines/{id}/versions/diff"
+                description="Compare two versions (query: from, to)"
+                response="Nodes added, removed or reconfigured, edge changes and setting changes"
+              />
+              <EndpointCard
+                method="POST"
+                path="/api/pipelines/{id}/versions/{version}/restore"
+                description="Restore an older version; it is saved as a new version"
+                response="The restored pipeline"
+              />
+              <EndpointCard
+                method="POST"
+                path="/api/pipelines/webhooks/{token}"
+                description="Start a pipeline run from a webhook trigger (optional X-Webhook-Secret header)"
+                response="202 with the started execution ID"
+              />
+              <EndpointCard
+                method="GET"
+                path="/api/cron/pipeline-triggers"
+                description="Fire due schedule and file watch triggers; call every minute from a cron service"
+                response="Triggers that fired, were skipped or failed"
               />
               <EndpointCard
                 method="GET"
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { getDatabase } from '@/database/connection';
 import { DataSourceEntity } from '@/entities/DataSourceEntity';
 import { DataTransformationService } from '@/services/dataTransformationService';
+import { RecordStoreService } from '@/services/recordStoreService';
 import { TableMetadataService } from '@/services/tableMetadataService';
 import { KeywordGenerationService } from '@/services/keywordGenerationService';
 import { logger } from '@/utils/logger';
@@ -89,20 +90,9 @@ export async function POST() {
         
         logger.info(`Transformed ${catalog.totalRecords} records`);
         
-        // Save transformed data
-        const transformedJson = JSON.stringify(catalog);
-        logger.info(`Transformed data size: ${transformedJson.length} bytes`);
-        
-        // Check if it's too large (> 10MB)
-        if (transformedJson.length > 10 * 1024 * 1024) {
-          result.status = 'too_large';
-          result.error = `Transformed data too large: ${(transformedJson.length / 1024 / 1024).toFixed(2)}MB`;
-          results.push(result);
-          continue;
-        }
-        
+        // Save transformed records to the record store
+        await RecordStoreService.saveCatalog(dataSource.id, catalog);
         await repository.update(dataSource.id, {
-          transformedData: transformedJson,
           transformedAt: new Date(),
           recordCount: catalog.totalRecords
         });
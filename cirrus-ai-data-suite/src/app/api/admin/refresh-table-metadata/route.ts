@@ -44,8 +44,6 @@ export async function POST(request: NextRequest) {
       
       // Parse transformed data to extract fields
       if (dataSource.transformedData) {
-        const transformedData = JSON.parse(dataSource.transformedData);
-        
         for (const table of tables) {
           // Skip if columns already exist and this is a database import
           if (table.metadata?.columns && dataSource.type === 'database') {
@@ -74,18 +72,9 @@ export async function POST(request: NextRequest) {
           // If no columns from schema, extract from data
           if (!columns) {
             // Extract data for this table
-            let tableData = null;
+            const tableData = await TableMetadataService.sampleTableRecords(dataSource, table);
             
-            if (transformedData.records && table.tableName === 'Main') {
-              tableData = transformedData.records;
-            } else if (transformedData.sheets) {
-              const sheet = transformedData.sheets.find((s: { name: string; records?: unknown[] }) => s.name === table.tableName);
-              if (sheet) tableData = sheet.records;
-            } else if (transformedData.tables && transformedData.tables[table.tableName]) {
-              tableData = transformedData.tables[table.tableName].records;
-            }
-            
-            if (tableData && Array.isArray(tableData) && tableData.length > 0) {
+            if (tableData.length > 0) {
               const fields = extractFieldsFromData(tableData);
               columns = fields.map(field => ({
                 name: field.name,
@@ -163,22 +152,11 @@ export async function POST(request: NextRequest) {
           }
         } else if (ds.transformedData) {
           const tables = await TableMetadataService.getTablesForDataSource(ds.id);
-          const transformedData = JSON.parse(ds.transformedData);
-          
           for (const table of tables) {
             if (!table.metadata?.columns) {
-              let tableData = null;
-              
-              if (transformedData.records && table.tableName === 'Main') {
-                tableData = transformedData.records;
-              } else if (transformedData.sheets) {
-                const sheet = transformedData.sheets.find((s: { name: string; records?: unknown[] }) => s.name === table.tableName);
-                if (sheet) tableData = sheet.records;
-              } else if (transformedData.tables && transformedData.tables[table.tableName]) {
-                tableData = transformedData.tables[table.tableName].records;
-              }
+              const tableData = await TableMetadataService.sampleTableRecords(ds, table);
               
-              if (tableData && Array.isArray(tableData) && tableData.length > 0) {
+              if (tableData.length > 0) {
                 const fields = extractFieldsFromData(tableData);
                 const columns = fields.map(field => ({
                   name: field.name,
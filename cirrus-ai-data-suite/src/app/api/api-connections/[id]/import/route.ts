@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/database/connection';
 import { ApiConnectionEntity } from '@/entities/ApiConnectionEntity';
-import { createApiConnector } from '@/services/connectors/apiConnectorFactory';
+import { ApiConnectionService } from '@/services/apiConnectionService';
 import { DataSourceService } from '@/services/dataSourceService';
-import { ApiConnection } from '@/types/apiConnector';
 import { logger } from '@/utils/logger';
+import { internalRequestHeaders } from '@/utils/session';
 
 interface RouteParams {
   params: Promise<{
@@ -49,26 +49,8 @@ export async function POST(
     }
 
     // Convert entity to ApiConnection type
-    const connection: ApiConnection = {
-      id: entity.id,
-      name: entity.name,
-      endpoint: entity.endpoint,
-      method: entity.method,
-      authType: entity.auth_type,
-      authConfig: entity.auth_config ? JSON.parse(entity.auth_config) : undefined,
-      headers: entity.headers ? JSON.parse(entity.headers) : undefined,
-      requestBody: entity.request_body ? JSON.parse(entity.request_body) : undefined,
-      paginationConfig: entity.pagination_config ? JSON.parse(entity.pagination_config) : undefined,
-      rateLimit: entity.rate_limit,
-      timeout: entity.timeout,
-      retryCount: entity.retry_count,
-      refreshEnabled: entity.refresh_enabled,
-      refreshInterval: entity.refresh_interval,
-      responseMapping: entity.response_mapping ? JSON.parse(entity.response_mapping) : undefined,
-      status: entity.status,
-      createdAt: entity.createdAt,
-      updatedAt: entity.updatedAt
-    };
+
+    const connection = ApiConnectionService.toConnection(entity);
 
     if (connection.status !== 'active') {
       return NextResponse.json(
@@ -78,7 +60,7 @@ export async function POST(
     }
 
     // Create connector and fetch data
-    const connector = createApiConnector(connection);
+    const connector = ApiConnectionService.createConnector(connection);
     const startTime = Date.now();
     
     try {
@@ -91,8 +73,8 @@ export async function POST(
 
       let data: unknown[];
       
-      if (maxRecords && !connection.paginationConfig) {
-        // If no pagination config, just fetch once with limit in query params
+      if (maxRecords && !connection.paginationConfig && connection.apiType !== 'graphql') {
+        // If no pagination config, just fetch once with limit in query params; GraphQL pages are followed by pageInfo
         const result = await connector.fetchData({
           ...fetchParams,
           queryParams: { ...queryParams, limit: maxRecords }
@@ -153,9 +135,7 @@ export async function POST(
         
         const transformResponse = await fetch(transformUrl, {
           method: 'GET',
-          headers: {
-            'Content-Type': 'application/json'
-          }
+          headers: await internalRequestHeaders()
         });
         
         if (!transformResponse.ok) {
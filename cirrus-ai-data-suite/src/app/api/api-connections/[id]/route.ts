@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/database/connection';
 import { ApiConnectionEntity } from '@/entities/ApiConnectionEntity';
+import { ApiConnectionService } from '@/services/apiConnectionService';
 import { logger } from '@/utils/logger';
 
 interface RouteParams {
@@ -32,10 +33,11 @@ export async function GET(
     const response = {
       id: connection.id,
       name: connection.name,
+      apiType: connection.api_type,
       endpoint: connection.endpoint,
       method: connection.method,
       authType: connection.auth_type,
-      authConfig: connection.auth_config ? JSON.parse(connection.auth_config) : undefined,
+      authConfig: ApiConnectionService.decodeAuthConfig(connection.auth_config),
       headers: connection.headers ? JSON.parse(connection.headers) : {},
       requestBody: connection.request_body ? JSON.parse(connection.request_body) : undefined,
       paginationConfig: connection.pagination_config ? JSON.parse(connection.pagination_config) : undefined,
@@ -89,11 +91,12 @@ export async function PUT(
 
     // Update fields if provided
     if (body.name !== undefined) connection.name = body.name;
+    if (body.apiType !== undefined) connection.api_type = body.apiType;
     if (body.endpoint !== undefined) connection.endpoint = body.endpoint;
     if (body.method !== undefined) connection.method = body.method;
     if (body.authType !== undefined) connection.auth_type = body.authType;
     if (body.authConfig !== undefined) {
-      connection.auth_config = body.authConfig ? JSON.stringify(body.authConfig) : undefined;
+      connection.auth_config = ApiConnectionService.encodeAuthConfig(body.authConfig);
     }
     if (body.headers !== undefined) {
       connection.headers = body.headers ? JSON.stringify(body.headers) : undefined;
@@ -101,6 +104,16 @@ export async function PUT(
     if (body.requestBody !== undefined) {
       connection.request_body = body.requestBody ? JSON.stringify(body.requestBody) : undefined;
     }
+    if (body.apiType !== undefined || body.requestBody !== undefined) {
+      const invalid = ApiConnectionService.validateRequest(
+        connection.api_type,
+        connection.request_body ? JSON.parse(connection.request_body) : undefined
+      );
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+      }
+    }
+    if (connection.api_type === 'graphql') connection.method = 'POST';
     if (body.paginationConfig !== undefined) {
       connection.pagination_config = body.paginationConfig ? JSON.stringify(body.paginationConfig) : undefined;
     }
@@ -129,6 +142,7 @@ export async function PUT(
     return NextResponse.json({
       id: saved.id,
       name: saved.name,
+      apiType: saved.api_type,
       endpoint: saved.endpoint,
       method: saved.method,
       authType: saved.auth_type,
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GraphQLConnector } from '@/services/connectors/GraphQLConnector';
+import { ApiConnectionService } from '@/services/apiConnectionService';
+import { ApiConnection } from '@/types/apiConnector';
+import { logger } from '@/utils/logger';
+
+// POST /api/api-connections/introspect - Suggest response data paths for a GraphQL query from the schema
+export async function POST(request: NextRequest) {
+  try {
+    const { id, name, endpoint, authType = 'none', authConfig, headers, requestBody, paginationConfig, timeout = 30000 } = await request.json();
+
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Endpoint is required' }, { status: 400 });
+    }
+    const invalid = ApiConnectionService.validateRequest('graphql', requestBody);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const connection: ApiConnection = {
+      id: id || 'introspect',
+      name: name || 'GraphQL Connection',
+      apiType: 'graphql',
+      endpoint,
+      method: 'POST',
+      authType,
+      authConfig,
+      headers,
+      requestBody,
+      paginationConfig,
+      timeout,
+      status: 'inactive',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    // Tokens obtained for a saved connection are kept
+    const connector = id
+      ? ApiConnectionService.createConnector(connection) as GraphQLConnector
+      : new GraphQLConnector(connection);
+    const suggestions = await connector.suggestDataPaths();
+
+    return NextResponse.json({ suggestions });
+  } catch (error) {
+    logger.error('Error introspecting GraphQL schema:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Schema introspection failed' },
+      { status: 502 }
+    );
+  }
+}
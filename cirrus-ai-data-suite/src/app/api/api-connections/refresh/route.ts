@@ -1,10 +1,10 @@
 import { NextResponse } from 'next/server';
 import { getDatabase } from '@/database/connection';
 import { ApiConnectionEntity } from '@/entities/ApiConnectionEntity';
-import { createApiConnector } from '@/services/connectors/apiConnectorFactory';
+import { ApiConnectionService } from '@/services/apiConnectionService';
 import { DataSourceService } from '@/services/dataSourceService';
-import { ApiConnection } from '@/types/apiConnector';
 import { logger } from '@/utils/logger';
+import { internalRequestHeaders } from '@/utils/session';
 
 // GET /api/api-connections/refresh - Check and refresh API connections that are due
 export async function GET() {
@@ -28,29 +28,10 @@ export async function GET() {
     for (const entity of connectionsToRefresh) {
       try {
         // Convert entity to ApiConnection type
-        const connection: ApiConnection = {
-          id: entity.id,
-          name: entity.name,
-          endpoint: entity.endpoint,
-          method: entity.method,
-          authType: entity.auth_type,
-          authConfig: entity.auth_config ? JSON.parse(entity.auth_config) : undefined,
-          headers: entity.headers ? JSON.parse(entity.headers) : undefined,
-          requestBody: entity.request_body ? JSON.parse(entity.request_body) : undefined,
-          paginationConfig: entity.pagination_config ? JSON.parse(entity.pagination_config) : undefined,
-          rateLimit: entity.rate_limit,
-          timeout: entity.timeout,
-          retryCount: entity.retry_count,
-          refreshEnabled: entity.refresh_enabled,
-          refreshInterval: entity.refresh_interval,
-          responseMapping: entity.response_mapping ? JSON.parse(entity.response_mapping) : undefined,
-          status: entity.status,
-          createdAt: entity.createdAt,
-          updatedAt: entity.updatedAt
-        };
+        const connection = ApiConnectionService.toConnection(entity);
         
         // Create connector and fetch data
-        const connector = createApiConnector(connection);
+        const connector = ApiConnectionService.createConnector(connection);
         logger.info(`Refreshing API connection: ${connection.name}`);
         
         // Fetch all data
@@ -89,9 +70,7 @@ export async function GET() {
           
           const transformResponse = await fetch(transformUrl, {
             method: 'GET',
-            headers: {
-              'Content-Type': 'application/json'
-            }
+            headers: await internalRequestHeaders()
           });
           
           if (!transformResponse.ok) {
@@ -128,9 +107,7 @@ export async function GET() {
           
           await fetch(transformUrl, {
             method: 'GET',
-            headers: {
-              'Content-Type': 'application/json'
-            }
+            headers: await internalRequestHeaders()
           });
         }
         
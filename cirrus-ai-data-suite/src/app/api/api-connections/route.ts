@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/database/connection';
 import { ApiConnectionEntity } from '@/entities/ApiConnectionEntity';
+import { ApiConnectionService } from '@/services/apiConnectionService';
 import { logger } from '@/utils/logger';
 
 export async function GET() {
@@ -16,6 +17,7 @@ export async function GET() {
     const response = connections.map(entity => ({
       id: entity.id,
       name: entity.name,
+      apiType: entity.api_type,
       endpoint: entity.endpoint,
       method: entity.method,
       authType: entity.auth_type,
@@ -44,6 +46,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const {
       name,
+      apiType = 'rest',
       endpoint,
       method = 'GET',
       authType = 'none',
@@ -67,15 +70,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const invalid = ApiConnectionService.validateRequest(apiType, requestBody);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
     const database = await getDatabase();
     const repository = database.getRepository(ApiConnectionEntity);
 
     const connection = repository.create({
       name,
+      api_type: apiType,
       endpoint,
-      method,
+      // GraphQL queries are always posted
+      method: apiType === 'graphql' ? 'POST' : method,
       auth_type: authType,
-      auth_config: authConfig ? JSON.stringify(authConfig) : undefined,
+      auth_config: ApiConnectionService.encodeAuthConfig(authConfig),
       headers: headers ? JSON.stringify(headers) : undefined,
       request_body: requestBody ? JSON.stringify(requestBody) : undefined,
       pagination_config: paginationConfig ? JSON.stringify(paginationConfig) : undefined,
@@ -94,6 +104,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       id: saved.id,
       name: saved.name,
+      apiType: saved.api_type,
       endpoint: saved.endpoint,
       method: saved.method,
       authType: saved.auth_type,
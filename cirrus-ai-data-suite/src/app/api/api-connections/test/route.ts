@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createApiConnector } from '@/services/connectors/apiConnectorFactory';
+import { ApiConnectionService } from '@/services/apiConnectionService';
 import { ApiConnection } from '@/types/apiConnector';
 import { logger } from '@/utils/logger';
 import { getDatabase } from '@/database/connection';
@@ -11,6 +12,7 @@ export async function POST(request: NextRequest) {
     const {
       id,
       name,
+      apiType = 'rest',
       endpoint,
       method = 'GET',
       authType = 'none',
@@ -28,10 +30,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const invalid = ApiConnectionService.validateRequest(apiType, requestBody);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
     // Create a temporary connection object for testing
     const testConnection: ApiConnection = {
       id: id || 'test',
       name: name || 'Test Connection',
+      apiType,
       endpoint,
       method,
       authType,
@@ -45,8 +53,8 @@ export async function POST(request: NextRequest) {
       updatedAt: new Date()
     };
 
-    // Create connector and test
-    const connector = createApiConnector(testConnection);
+    // Create connector and test; tokens obtained for a saved connection are kept
+    const connector = id ? ApiConnectionService.createConnector(testConnection) : createApiConnector(testConnection);
     const result = await connector.testConnection();
 
     // If test successful and ID provided, update status in database
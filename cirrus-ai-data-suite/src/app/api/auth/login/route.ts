@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/services/authService';
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, signSessionToken } from '@/utils/session';
+import { logger } from '@/utils/logger';
+
+// POST /api/auth/login - Verify credentials and issue a session cookie
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { username, password } = body as { username?: string; password?: string };
+
+    if (!username || !password) {
+      return NextResponse.json(
+        { error: 'Username and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const user = await AuthService.authenticate(username, password);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401 }
+      );
+    }
+
+    const token = await signSessionToken({ id: user.id, username: user.username, displayName: user.displayName });
+    const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+
+    // The token only travels in the httpOnly cookie, out of reach of page scripts
+    const response = NextResponse.json({
+      user: { id: user.id, username: user.username, displayName: user.displayName },
+      expiresAt: expiresAt.toISOString()
+    });
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: SESSION_TTL_SECONDS
+    });
+
+    return response;
+  } catch (error) {
+    logger.error('Login failed:', error);
+    return NextResponse.json(
+      { error: 'Login failed' },
+      { status: 500 }
+    );
+  }
+}
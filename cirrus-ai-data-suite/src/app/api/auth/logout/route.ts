@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/utils/session';
+
+// POST /api/auth/logout - Clear the session cookie
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0
+  });
+  return response;
+}
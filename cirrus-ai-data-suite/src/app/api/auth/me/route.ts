@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/services/authService';
+import { PermissionService } from '@/services/permissionService';
+import { CurrentUser } from '@/types/auth';
+import { getRequestUser } from '@/utils/session';
+import { logger } from '@/utils/logger';
+
+// GET /api/auth/me - Get the signed-in user
+export async function GET(request: NextRequest) {
+  try {
+    const sessionUser = getRequestUser(request);
+    if (!sessionUser) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Sessions of deactivated or deleted users end here
+    const user = await AuthService.getUser(sessionUser.id);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found or inactive' },
+        { status: 401 }
+      );
+    }
+
+    const currentUser: CurrentUser = {
+      id: user.id,
+      username: user.username,
+      displayName: user.displayName,
+      role: user.role,
+      dataSourceRoles: await PermissionService.getDataSourceRoles(user.id)
+    };
+
+    return NextResponse.json({ user: currentUser });
+  } catch (error) {
+    logger.error('Failed to get current user:', error);
+    return NextResponse.json(
+      { error: 'Failed to get current user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/services/authService';
+import { getSessionToken, verifySessionToken } from '@/utils/session';
+import { logger } from '@/utils/logger';
+
+// GET /api/auth/session - Check that a session's user still exists and is active
+// Called by the middleware, which cannot reach the database itself; the token is verified here
+export async function GET(request: NextRequest) {
+  try {
+    const token = getSessionToken(request);
+    const sessionUser = token ? await verifySessionToken(token) : null;
+    if (!sessionUser) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const user = await AuthService.getUser(sessionUser.id);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found or inactive' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ active: true });
+  } catch (error) {
+    logger.error('Failed to check session:', error);
+    return NextResponse.json(
+      { error: 'Failed to check session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/services/authService';
+import { requirePermission } from '@/utils/authorization';
+import { getRequestUser } from '@/utils/session';
+import { logger } from '@/utils/logger';
+
+// PATCH /api/auth/users/[id] - Change a user's role, display name, status or password
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requirePermission(request, 'users:manage');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    // Stop admins from locking themselves out
+    if (getRequestUser(request)?.id === id && (body.active === false || (body.role !== undefined && body.role !== 'admin'))) {
+      return NextResponse.json(
+        { error: 'You cannot deactivate or demote your own account' },
+        { status: 400 }
+      );
+    }
+
+    const user = await AuthService.updateUser(id, {
+      displayName: body.displayName,
+      role: body.role,
+      active: body.active,
+      password: body.password
+    });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update user';
+    logger.error('Failed to update user:', error);
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
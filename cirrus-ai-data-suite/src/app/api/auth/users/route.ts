@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/services/authService';
+import { requirePermission } from '@/utils/authorization';
+import { logger } from '@/utils/logger';
+
+// GET /api/auth/users - List user accounts
+export async function GET(request: NextRequest) {
+  const denied = await requirePermission(request, 'users:manage');
+  if (denied) return denied;
+
+  try {
+    const users = await AuthService.listUsers();
+    return NextResponse.json({ users });
+  } catch (error) {
+    logger.error('Failed to list users:', error);
+    return NextResponse.json(
+      { error: 'Failed to list users' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/auth/users - Create a user account
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'users:manage');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const user = await AuthService.createUser({
+      username: body.username,
+      password: body.password,
+      displayName: body.displayName,
+      role: body.role
+    });
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create user';
+    logger.error('Failed to create user:', error);
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CatalogMappingService } from '@/services/catalogMappingService';
 import { DataSourceService } from '@/services/dataSourceService';
+import { RecordStoreService } from '@/services/recordStoreService';
 import { SourceFieldMapping } from '@/services/globalCatalogService';
 
 // GET /api/catalog/suggestions - Generate field mapping suggestions for a data source
@@ -52,7 +53,7 @@ export async function GET(request: NextRequest) {
     // Strategy 2: Extract from transformation data
     if (fieldsToAnalyze.length === 0 && dataSourceEntity?.transformedData) {
       try {
-        const transformedData = JSON.parse(dataSourceEntity.transformedData);
+        const transformedData = await RecordStoreService.loadCatalog(dataSourceEntity, { limit: 1 });
         if (transformedData?.records && Array.isArray(transformedData.records) && transformedData.records.length > 0) {
           const firstRecord = transformedData.records[0];
           if (typeof firstRecord === 'object' && firstRecord !== null) {
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudSourceService } from '@/services/cloudSourceService';
+import { requirePermission } from '@/utils/authorization';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// POST /api/cloud-sources/[id]/sync - Copy new and changed objects of a bucket or directory source
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const denied = await requirePermission(request, 'data_sources:write', id);
+  if (denied) return denied;
+
+  try {
+    const result = await CloudSourceService.syncDataSource(id);
+    return NextResponse.json(result, { status: result.skipped ? 409 : 200 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to sync cloud source';
+    console.error('Error syncing cloud source:', error);
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('not found') ? 404 : 500 }
+    );
+  }
+}
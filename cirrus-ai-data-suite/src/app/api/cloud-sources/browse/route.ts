@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudSourceService } from '@/services/cloudSourceService';
+import { requirePermission } from '@/utils/authorization';
+
+// Objects shown as the preview of what a source would import
+const MAX_PREVIEW_MATCHES = 100;
+
+// POST /api/cloud-sources/browse - List the folders and objects under a prefix and the objects the file pattern matches
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'data_sources:write');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    if (!body.configuration?.provider) {
+      return NextResponse.json(
+        { error: 'configuration.provider is required' },
+        { status: 400 }
+      );
+    }
+
+    const listing = await CloudSourceService.browse(body.configuration, body.prefix || '');
+    const matches = await CloudSourceService.listMatching(body.configuration);
+    return NextResponse.json({
+      ...listing,
+      matches: matches.slice(0, MAX_PREVIEW_MATCHES),
+      matchCount: matches.length
+    });
+  } catch (error) {
+    console.error('Error browsing cloud source:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to browse cloud source' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudSourceService } from '@/services/cloudSourceService';
+import { requirePermission } from '@/utils/authorization';
+import { isValidMarking } from '@/utils/classification';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// POST /api/cloud-sources - Create a bucket or directory data source and run its first sync
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'data_sources:write');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    if (!body.name || !body.configuration?.provider) {
+      return NextResponse.json(
+        { error: 'name and configuration.provider are required' },
+        { status: 400 }
+      );
+    }
+    if (!isValidMarking(body.classification)) {
+      return NextResponse.json(
+        { error: `Invalid classification marking: ${body.classification}` },
+        { status: 400 }
+      );
+    }
+
+    const created = await CloudSourceService.createCloudSource(body.name, body.configuration, body.classification);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error('Error creating cloud source:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create cloud source' },
+      { status: 400 }
+    );
+  }
+}
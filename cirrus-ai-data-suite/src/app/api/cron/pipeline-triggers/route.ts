@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PipelineTriggerService } from '@/services/pipelineTriggerService';
+import { logger } from '@/utils/logger';
+
+// Cron endpoint to fire scheduled and file watch pipeline triggers
+// This should be called every minute by an external cron service
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret if provided
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+    
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    logger.info('Cron job: Checking pipeline triggers');
+    
+    const results = await PipelineTriggerService.checkTriggers();
+    const fired = results.filter(result => result.status === 'fired').length;
+    
+    logger.info('Cron job completed:', {
+      fired,
+      timestamp: new Date().toISOString()
+    });
+    
+    return NextResponse.json({
+      success: true,
+      fired,
+      results,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error('Cron job failed:', error);
+    return NextResponse.json(
+      { 
+        error: 'Cron job failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
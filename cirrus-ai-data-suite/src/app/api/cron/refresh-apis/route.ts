@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/utils/logger';
+import { internalRequestHeaders } from '@/utils/session';
 
 // Simple cron endpoint to trigger API refreshes
 // This should be called periodically (e.g., every 5 minutes) by an external cron service
@@ -24,9 +25,8 @@ export async function GET(request: NextRequest) {
     
     const response = await fetch(refreshUrl, {
       method: 'GET',
-      headers: {
-        'Content-Type': 'application/json'
-      }
+      // Internal calls carry no session; the middleware admits them by their internal token
+      headers: await internalRequestHeaders()
     });
     
     if (!response.ok) {
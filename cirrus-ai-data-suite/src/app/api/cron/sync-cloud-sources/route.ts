@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CloudSourceService } from '@/services/cloudSourceService';
+import { logger } from '@/utils/logger';
+
+export const maxDuration = 60;
+
+// Cron endpoint to re-sync bucket and directory sources whose sync interval has passed
+// This should be called every few minutes by an external cron service
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret if provided
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+    
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    logger.info('Cron job: Syncing cloud sources');
+    
+    const results = await CloudSourceService.syncDueSources();
+    const synced = results.filter(result => result.status === 'synced').length;
+    
+    logger.info('Cron job completed:', {
+      synced,
+      timestamp: new Date().toISOString()
+    });
+    
+    return NextResponse.json({
+      success: true,
+      synced,
+      results,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error('Cron job failed:', error);
+    return NextResponse.json(
+      { 
+        error: 'Cron job failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
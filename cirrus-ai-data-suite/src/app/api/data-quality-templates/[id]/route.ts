@@ -3,6 +3,7 @@ import { withErrorHandler } from '@/utils/api-handler';
 import { successResponse, errorResponse } from '@/utils/api-response';
 import { getDatabase } from '@/database/connection';
 import { DataQualityTemplateEntity } from '@/entities/DataQualityTemplateEntity';
+import { getRequestActor } from '@/utils/session';
 
 /**
  * GET /api/data-quality-templates/[id]
@@ -89,7 +90,7 @@ export const PUT = withErrorHandler(async (request: NextRequest, context: any) =
       createdAt: existingTemplate.createdAt, // Preserve creation date
       createdBy: existingTemplate.createdBy, // Preserve creator
       version: existingTemplate.version + 1,
-      updatedBy: body.updatedBy || 'user'
+      updatedBy: getRequestActor(request, 'user')
     });
 
     const updatedTemplate = await repository.save(existingTemplate);
@@ -134,7 +135,7 @@ export const DELETE = withErrorHandler(async (request: NextRequest, context: any
 
     // Soft delete by marking as inactive
     template.isActive = false;
-    template.updatedBy = 'user';
+    template.updatedBy = getRequestActor(request, 'user');
     await repository.save(template);
     
     console.log('Data Quality Templates API: Deleted template successfully');
@@ -3,6 +3,7 @@ import { withErrorHandler } from '@/utils/api-handler';
 import { successResponse, errorResponse } from '@/utils/api-response';
 import { getDatabase } from '@/database/connection';
 import { DataQualityTemplateEntity } from '@/entities/DataQualityTemplateEntity';
+import { getRequestActor } from '@/utils/session';
 import { Repository } from 'typeorm';
 
 /**
@@ -200,7 +201,7 @@ export const POST = withErrorHandler(async (request: NextRequest) => {
       isActive: true,
       tags: body.tags || [],
       version: 1,
-      createdBy: body.createdBy || 'user'
+      createdBy: getRequestActor(request, 'user')
     });
 
     const savedTemplate = await repository.save(template);
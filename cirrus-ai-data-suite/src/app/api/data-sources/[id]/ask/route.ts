@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/database/connection';
 import { DataSourceEntity } from '@/entities/DataSourceEntity';
 import { llmService } from '@/services/llmService';
+import { RecordStoreService } from '@/services/recordStoreService';
 import { logger } from '@/utils/logger';
 
 interface RouteParams {
@@ -50,9 +51,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       let transformedSchema: any = null;
       
       if (dataSource.transformedData) {
-        const transformed = JSON.parse(dataSource.transformedData);
-        allRecords = transformed.data || transformed.records || [];
-        transformedSchema = transformed.schema;
+        // Only the records the answer can use are read
+        const transformed = await RecordStoreService.loadCatalog(dataSource, { limit: recordLimit });
+        allRecords = transformed?.records ?? [];
+        transformedSchema = transformed?.schema;
       } else if (dataSource.type === 'database' && dataSource.configuration) {
         // For database sources that haven't been transformed, check configuration
         let config = dataSource.configuration;
@@ -176,14 +178,14 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         
         // Extract schema information
         if (dataSource.transformedData) {
-          const transformed = JSON.parse(dataSource.transformedData);
-          if (transformed.schema && transformed.schema.fields) {
+          const transformed = await RecordStoreService.loadCatalog(dataSource, { limit: 0 });
+          if (transformed?.schema?.fields) {
             const fields = transformed.schema.fields.map((f: { name: string; type: string }) => 
               `${f.name} (${f.type})`
             ).join(', ');
             dataStructure = `Fields: ${fields}`;
           }
-          recordCount = transformed.totalRecords || recordCount;
+          recordCount = transformed?.totalRecords || recordCount;
         } else if (allRecords.length > 0 && allRecords[0]) {
           // For non-transformed data, extract field names from first record
           const fields = Object.keys(allRecords[0]).join(', ');
@@ -24,11 +24,16 @@ export async function GET(
     const outlierMethod = (searchParams.get('outlierMethod') || 'IQR') as 'IQR' | 'Z-Score' | 'Modified-Z-Score';
     const distributionBins = parseInt(searchParams.get('distributionBins') || '10');
 
+    // Internal API calls go through the auth middleware too, so pass the caller's session along
+    const forwardedHeaders: Record<string, string> = { 'Content-Type': 'application/json' };
+    const cookie = request.headers.get('cookie');
+    const authorization = request.headers.get('authorization');
+    if (cookie) forwardedHeaders.cookie = cookie;
+    if (authorization) forwardedHeaders.authorization = authorization;
+
     // First, check if data source exists and has transformed data
     const dataSourceCheckResponse = await fetch(`${request.nextUrl.origin}/api/data-sources/${id}`, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: forwardedHeaders,
     });
 
     if (!dataSourceCheckResponse.ok) {
@@ -45,9 +50,7 @@ export async function GET(
 
     // Fetch transformed data using the transform endpoint (skip pagination to get ALL records)
     const transformResponse = await fetch(`${request.nextUrl.origin}/api/data-sources/${id}/transform?skipPagination=true`, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: forwardedHeaders,
     });
 
     if (!transformResponse.ok) {
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PermissionService } from '@/services/permissionService';
+import { requirePermission } from '@/utils/authorization';
+import { getRequestActor } from '@/utils/session';
+
+// GET /api/data-sources/[id]/permissions - List the roles granted on a data source
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const denied = await requirePermission(request, 'data_sources:share', id);
+  if (denied) return denied;
+
+  try {
+    const permissions = await PermissionService.listGrants(id);
+    return NextResponse.json({ permissions });
+  } catch (error) {
+    console.error('Error listing data source permissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to list data source permissions' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/data-sources/[id]/permissions - Grant a user a role on a data source
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const denied = await requirePermission(request, 'data_sources:share', id);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    if (!body.userId || !body.role) {
+      return NextResponse.json(
+        { error: 'userId and role are required' },
+        { status: 400 }
+      );
+    }
+
+    const permission = await PermissionService.grant(id, body.userId, body.role, getRequestActor(request));
+    return NextResponse.json(permission);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to grant data source permission';
+    console.error('Error granting data source permission:', error);
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('not found') ? 404 : 400 }
+    );
+  }
+}
+
+// DELETE /api/data-sources/[id]/permissions?userId= - Revoke a user's role on a data source
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const denied = await requirePermission(request, 'data_sources:share', id);
+  if (denied) return denied;
+
+  try {
+    const userId = new URL(request.url).searchParams.get('userId');
+    if (!userId) {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 });
+    }
+
+    if (!(await PermissionService.revoke(id, userId))) {
+      return NextResponse.json({ error: 'Permission not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking data source permission:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke data source permission' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,9 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/database/connection';
 import { DataSourceEntity } from '@/entities/DataSourceEntity';
 import { ApiConnectionEntity } from '@/entities/ApiConnectionEntity';
-import { createApiConnector } from '@/services/connectors/apiConnectorFactory';
-import { ApiConnection } from '@/types/apiConnector';
+import { ApiConnectionService } from '@/services/apiConnectionService';
 import { logger } from '@/utils/logger';
+import { internalRequestHeaders } from '@/utils/session';
+import { requirePermission } from '@/utils/authorization';
 
 interface RouteParams {
   params: Promise<{
@@ -19,6 +20,8 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
+    const denied = await requirePermission(request, 'data_sources:write', id);
+    if (denied) return denied;
     
     const database = await getDatabase();
     const dataSourceRepository = database.getRepository(DataSourceEntity);
@@ -72,29 +75,11 @@ export async function POST(
     }
     
     // Convert entity to ApiConnection type
-    const connection: ApiConnection = {
-      id: apiEntity.id,
-      name: apiEntity.name,
-      endpoint: apiEntity.endpoint,
-      method: apiEntity.method,
-      authType: apiEntity.auth_type,
-      authConfig: apiEntity.auth_config ? JSON.parse(apiEntity.auth_config) : undefined,
-      headers: apiEntity.headers ? JSON.parse(apiEntity.headers) : undefined,
-      requestBody: apiEntity.request_body ? JSON.parse(apiEntity.request_body) : undefined,
-      paginationConfig: apiEntity.pagination_config ? JSON.parse(apiEntity.pagination_config) : undefined,
-      rateLimit: apiEntity.rate_limit,
-      timeout: apiEntity.timeout,
-      retryCount: apiEntity.retry_count,
-      refreshEnabled: apiEntity.refresh_enabled,
-      refreshInterval: apiEntity.refresh_interval,
-      responseMapping: apiEntity.response_mapping ? JSON.parse(apiEntity.response_mapping) : undefined,
-      status: apiEntity.status,
-      createdAt: apiEntity.createdAt,
-      updatedAt: apiEntity.updatedAt
-    };
+    
+    const connection = ApiConnectionService.toConnection(apiEntity);
     
     // Create connector and fetch fresh data
-    const connector = createApiConnector(connection);
+    const connector = ApiConnectionService.createConnector(connection);
     logger.info(`Refreshing data for source: ${dataSource.name}`);
     
     const data = await connector.fetchAllData({ limit: 1000 });
@@ -143,9 +128,7 @@ export async function POST(
       
       const transformResponse = await fetch(transformUrl, {
         method: 'GET',
-        headers: {
-          'Content-Type': 'application/json'
-        }
+        headers: await internalRequestHeaders()
       });
       
       if (!transformResponse.ok) {
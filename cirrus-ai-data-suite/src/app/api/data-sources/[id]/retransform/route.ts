@@ -1,9 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DataSourceService } from '@/services/dataSourceService';
-import { DataTransformationService } from '@/services/dataTransformationService';
-import { TableMetadataService } from '@/services/tableMetadataService';
-import { getDatabase } from '@/database/connection';
 import { logger } from '@/utils/logger';
+import { requirePermission } from '@/utils/authorization';
 
 interface RouteParams {
   params: Promise<{
@@ -17,6 +15,8 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
+    const denied = await requirePermission(request, 'data_sources:write', id);
+    if (denied) return denied;
     
     logger.info(`Re-transforming data source: ${id}`);
     
@@ -40,42 +40,9 @@ export async function POST(
       );
     }
     
-    // Transform the data
-    logger.info('Starting transformation...');
-    const catalog = await DataTransformationService.transformDataSource(
-      {
-        id: dataSource.id,
-        name: dataSource.name,
-        type: dataSource.type as 'filesystem' | 'json_transformed',
-        connectionStatus: 'connected',
-        configuration: config
-      },
-      { maxRecords: 0 } // No limit for transformation
-    );
-    
-    // Save the transformed data
-    const db = await getDatabase();
-    const repository = db.getRepository('DataSourceEntity');
-    
-    await repository.update(id, {
-      transformedData: JSON.stringify(catalog),
-      transformedAt: new Date(),
-      recordCount: catalog.totalRecords
-    });
-    
+    const catalog = await DataSourceService.retransform(id);
     logger.info(`Transformation complete. Total records: ${catalog.totalRecords}`);
     
-    // Update table metadata
-    try {
-      const detectedTables = await TableMetadataService.detectTablesInData(catalog);
-      if (detectedTables.length > 0) {
-        await TableMetadataService.createOrUpdateTables(id, detectedTables);
-        logger.info(`Updated ${detectedTables.length} tables`);
-      }
-    } catch (tableError) {
-      logger.error('Failed to update table metadata:', tableError);
-    }
-    
     return NextResponse.json({
       success: true,
       message: `Transformed ${catalog.totalRecords} records`,
@@ -90,4 +57,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DataSourceService } from '@/services/dataSourceService';
-import { DataSourceEntity } from '@/entities/DataSourceEntity';
+import { requirePermission } from '@/utils/authorization';
+import { isValidMarking } from '@/utils/classification';
 
 export async function GET(
   request: NextRequest,
@@ -33,18 +34,9 @@ export async function GET(
         originalData = [];
       }
 
-      // Parse transformed data from the entity
-      let transformedData: unknown[] = [];
-      try {
-        const dataSourceEntity = dataSource as DataSourceEntity;
-        if (dataSourceEntity.transformedData) {
-          transformedData = typeof dataSourceEntity.transformedData === 'string' 
-            ? JSON.parse(dataSourceEntity.transformedData) 
-            : (dataSourceEntity.transformedData || []);
-        }
-      } catch {
-        transformedData = [];
-      }
+      // Transformed records from the record store (or a legacy blob)
+      const catalog = await DataSourceService.getTransformedData(id);
+      const transformedData: unknown[] = catalog ? catalog.records.map(record => record.data) : [];
       
       switch (dataType) {
         case 'original':
@@ -79,7 +71,14 @@ export async function PUT(
 ) {
   try {
     const { id } = await params;
+    const denied = await requirePermission(request, 'data_sources:write', id);
+    if (denied) return denied;
+
     const body = await request.json();
+    if (!isValidMarking(body.classification)) {
+      return NextResponse.json({ error: `Invalid classification marking: ${body.classification}` }, { status: 400 });
+    }
+
     const dataSource = await DataSourceService.updateDataSource(id, body);
     if (!dataSource) {
       return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
@@ -97,6 +96,9 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
+    const denied = await requirePermission(request, 'data_sources:delete', id);
+    if (denied) return denied;
+
     const success = await DataSourceService.deleteDataSource(id);
     if (!success) {
       return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/database/connection';
 import { DataSourceEntity } from '@/entities/DataSourceEntity';
 import { llmService } from '@/services/llmService';
+import { RecordStoreService } from '@/services/recordStoreService';
 import { logger } from '@/utils/logger';
 
 interface RouteParams {
@@ -77,11 +78,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         
         try {
           if (dataSource.transformedData) {
-            const transformed = JSON.parse(dataSource.transformedData);
-            // Check for data in different possible locations
-            const records = transformed.data?.slice(0, 5) || 
-                          transformed.records?.slice(0, 5) || 
-                          [];
+            const transformed = await RecordStoreService.loadCatalog(dataSource, { limit: 5 });
+            const records = transformed?.records ?? [];
             sampleData = JSON.stringify(records, null, 2);
           }
           
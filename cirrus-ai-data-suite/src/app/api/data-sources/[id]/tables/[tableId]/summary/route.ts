@@ -79,18 +79,18 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         }
         
         // Check both transformedData and configuration for data
-        let dataToAnalyze = null;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        let tableRecords: any[] = [];
         
         if (dataSource?.transformedData) {
           try {
-            dataToAnalyze = JSON.parse(dataSource.transformedData);
+            // Sheet schemas were saved with the table when it was detected
+            tableRecords = await TableMetadataService.sampleTableRecords(dataSource, table, 5);
           } catch (e) {
             logger.error('Error parsing transformed data:', e);
           }
-        }
-        
-        // For database sources, check configuration
-        if (!dataToAnalyze && dataSource?.configuration) {
+        } else if (dataSource?.configuration) {
+          // For database sources, check configuration
           let parsedConfig = dataSource.configuration;
           if (typeof dataSource.configuration === 'string') {
             try {
@@ -101,45 +101,16 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           }
           
           if (parsedConfig && typeof parsedConfig === 'object' && 'data' in parsedConfig) {
-            dataToAnalyze = {
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              records: (parsedConfig as any).data,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const records: any[] = (parsedConfig as any).data;
+            tableRecords = table.tableType === 'nested'
               // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              totalRecords: (parsedConfig as any).data.length
-            };
+              ? records.slice(0, 5).flatMap((r: any) => (r.data || r)[table.tableName] || [])
+              : records.slice(0, 5);
           }
         }
         
-        if (dataToAnalyze) {
-          
-          // Extract table-specific data based on table type
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          let tableRecords: any[] = [];
-          
-          if (table.tableType === 'nested' && dataToAnalyze.records) {
-            // For nested tables, extract the nested array field
-            tableRecords = dataToAnalyze.records
-              .slice(0, 5)
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              .flatMap((r: any) => {
-                const recordData = r.data || r;
-                return recordData[table.tableName] || [];
-              });
-          } else if (dataToAnalyze.sheets && Array.isArray(dataToAnalyze.sheets)) {
-            // For sheet-based data
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const sheet = dataToAnalyze.sheets.find((s: any) => s.name === table.tableName);
-            if (sheet) {
-              tableRecords = sheet.records?.slice(0, 5) || [];
-              schemaInfo = sheet.schema ? JSON.stringify(sheet.schema, null, 2) : '';
-            }
-          } else if (dataToAnalyze.tables && dataToAnalyze.tables[table.tableName]) {
-            // For table-based data
-            const tableObj = dataToAnalyze.tables[table.tableName];
-            tableRecords = tableObj.records?.slice(0, 5) || [];
-            schemaInfo = tableObj.schema ? JSON.stringify(tableObj.schema, null, 2) : '';
-          }
-          
+        if (tableRecords.length > 0) {
           tableData = JSON.stringify(tableRecords, null, 2);
         }
         
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/database/connection';
 import { DataSourceEntity } from '@/entities/DataSourceEntity';
 import { TableMetadataService } from '@/services/tableMetadataService';
+import { RecordStoreService } from '@/services/recordStoreService';
 import { logger } from '@/utils/logger';
 
 interface RouteParams {
@@ -37,8 +38,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // Force re-detection of tables
     try {
-      const transformedData = JSON.parse(dataSource.transformedData);
-      const detectedTables = await TableMetadataService.detectTablesInData(transformedData);
+      const stored = await RecordStoreService.openRecords(dataSource);
+      const detectedTables = stored ? await TableMetadataService.detectStoredTables(stored) : [];
       
       logger.info(`Re-detecting tables for data source ${id}:`, {
         tableCount: detectedTables.length,
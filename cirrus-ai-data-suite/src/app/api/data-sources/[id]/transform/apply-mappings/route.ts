@@ -4,6 +4,8 @@ import { DataSourceEntity } from '@/entities/DataSourceEntity';
 import { FieldMappingEntity } from '@/entities/FieldMappingEntity';
 import { CatalogFieldEntity } from '@/entities/CatalogFieldEntity';
 import { GlobalCatalogService, CatalogField } from '@/services/globalCatalogService';
+import { RecordStoreService } from '@/services/recordStoreService';
+import { requirePermission } from '@/utils/authorization';
 
 interface TransformationResult {
   success: boolean;
@@ -24,6 +26,18 @@ interface TransformationResult {
   };
 }
 
+// Records in saved transformed data: a record store header, or a legacy field-mapped array
+function storedRecordCount(transformedData?: string): number {
+  try {
+    const header = RecordStoreService.parseHeader(transformedData);
+    if (header) return header.totalRecords;
+    const parsedData = JSON.parse(transformedData || '[]');
+    return Array.isArray(parsedData) ? parsedData.length : 0;
+  } catch {
+    return 0;
+  }
+}
+
 // POST /api/data-sources/[id]/transform/apply-mappings
 export async function POST(
   request: NextRequest,
@@ -31,6 +45,9 @@ export async function POST(
 ) {
   try {
     const { id } = await context.params;
+    const denied = await requirePermission(request, 'data_sources:write', id);
+    if (denied) return denied;
+
     const body = await request.json();
     const { 
       forceRetransform = false, 
@@ -58,14 +75,7 @@ export async function POST(
       dataSource.transformationAppliedAt;
 
     if (hasExistingTransformation && !forceRetransform) {
-      // Parse the record count from transformed data
-      let recordCount = 0;
-      try {
-        const parsedData = JSON.parse(dataSource.transformedData || '[]');
-        recordCount = Array.isArray(parsedData) ? parsedData.length : 0;
-      } catch {
-        recordCount = 0;
-      }
+      const recordCount = storedRecordCount(dataSource.transformedData);
 
       return NextResponse.json({
         message: 'Existing transformation detected',
@@ -118,10 +128,10 @@ export async function POST(
       else if (dataSource.transformedData && dataSource.transformedData.trim() !== '') {
         console.log('WARNING: Using existing transformed data, field mappings may not work correctly');
         isUsingTransformedData = true;
-        const parsedTransformed = JSON.parse(dataSource.transformedData);
+        const parsedTransformed = await RecordStoreService.loadCatalog(dataSource);
         
         // Check if this is a UnifiedDataCatalog format
-        if (parsedTransformed && typeof parsedTransformed === 'object' && 'records' in parsedTransformed) {
+        if (parsedTransformed) {
           // Extract data from UnifiedDataRecord format
           originalData = parsedTransformed.records.map((record: { data?: Record<string, unknown> }) => {
             // UnifiedDataRecord has the actual data in the 'data' property
@@ -133,7 +143,7 @@ export async function POST(
           });
           
           // If records were not stored (large dataset), we need to re-transform
-          if (originalData.length === 0 && parsedTransformed.metadata?.recordsNotStored) {
+          if (originalData.length === 0 && (parsedTransformed.metadata as { recordsNotStored?: boolean } | undefined)?.recordsNotStored) {
             console.log('Records not stored in database, re-transforming data source...');
             const { DataSourceService } = await import('@/services/dataSourceService');
             const { DataTransformationService } = await import('@/services/dataTransformationService');
@@ -148,9 +158,6 @@ export async function POST(
               });
             }
           }
-        } else if (Array.isArray(parsedTransformed)) {
-          // Direct array of transformed data
-          originalData = parsedTransformed;
         }
       }
       
@@ -425,9 +432,15 @@ export async function POST(
       console.error('Failed to detect tables:', tableError);
     }
     
-    // Save transformed data to the data source
+    // Save the mapped records to the record store and the catalog header to the data source
+    await RecordStoreService.saveCatalog(
+      id,
+      RecordStoreService.fromMappedRecords(
+        { id, name: dataSource.name, type: dataSource.type, recordCount: transformedData.length },
+        transformedData as Array<Record<string, unknown>>
+      )
+    );
     await dataSourceRepo.update(id, {
-      transformedData: JSON.stringify(transformedData),
       transformationStatus: validationErrors.length === 0 ? 'completed' : 'completed_with_errors',
       transformationAppliedAt: new Date(),
       transformationErrors: validationErrors.length > 0 ? JSON.stringify(validationErrors) : undefined,
@@ -478,7 +491,6 @@ export async function GET(
     
     // Parse configuration and transformed data
     let originalData: unknown[] = [];
-    let transformedData: unknown[] = [];
     
     try {
       const config = typeof dataSource.configuration === 'string' 
@@ -489,21 +501,13 @@ export async function GET(
       originalData = [];
     }
 
-    try {
-      transformedData = typeof dataSource.transformedData === 'string' 
-        ? JSON.parse(dataSource.transformedData) 
-        : (dataSource.transformedData || []);
-    } catch {
-      transformedData = [];
-    }
-
     return NextResponse.json({
       hasTransformedData: !!dataSource.transformedData,
       transformationStatus: dataSource.transformationStatus || 'not_started',
       transformationAppliedAt: dataSource.transformationAppliedAt,
       transformationErrors: dataSource.transformationErrors,
       mappingsCount,
-      recordCount: transformedData.length,
+      recordCount: storedRecordCount(dataSource.transformedData),
       originalRecordCount: originalData.length
     });
 
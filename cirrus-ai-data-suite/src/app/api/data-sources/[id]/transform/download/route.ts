@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DataSourceService } from '@/services/dataSourceService';
 import { DataTransformationService, type UnifiedDataCatalog } from '@/services/dataTransformationService';
+import { ClassificationService } from '@/services/classificationService';
+import { RecordStoreService } from '@/services/recordStoreService';
+import { DatasetExportService } from '@/services/datasetExportService';
 import { apiLogger } from '@/utils/logger';
 
 // GET /api/data-sources/[id]/transform/download - Download full transformed dataset
@@ -38,74 +41,37 @@ export async function GET(
     const db = await getDatabase();
     const repository = db.getRepository(DataSourceEntity);
     const entity = await repository.findOne({ where: { id } });
-    
-    let catalog: UnifiedDataCatalog;
-    
-    if (entity?.transformedData && entity.transformedData.trim() !== '') {
+    const marking = await ClassificationService.getDataSourceMarking(id);
+    const headers: Record<string, string> = marking ? { 'X-Classification': marking } : {};
+
+    // Stored records are streamed a segment at a time rather than assembled into one catalog
+    const header = RecordStoreService.parseHeader(entity?.transformedData);
+    if (header?.recordStore) {
+      apiLogger.log('=== Data Transformation Download API: Streaming stored records ===', {
+        catalogId: header.catalogId,
+        recordCount: header.totalRecords,
+        segments: header.recordStore.segmentCount
+      });
+      const stream = DatasetExportService.streamCatalog(header, RecordStoreService.iterateRecords(id, header.recordStore), marking);
+      return new NextResponse(stream, {
+        headers: { ...headers, 'Content-Type': 'application/json' }
+      });
+    }
+
+    let catalog: UnifiedDataCatalog | null = null;
+    if (entity) {
       try {
-        const parsedData = JSON.parse(entity.transformedData);
-        
-        // Check if this is original UnifiedDataCatalog format or field-mapped data
-        if (parsedData && typeof parsedData === 'object' && 'catalogId' in parsedData && 'schema' in parsedData && 'records' in parsedData) {
-          // This is original UnifiedDataCatalog format - use as is
-          apiLogger.debug('Using original UnifiedDataCatalog from transformedData for download');
-          catalog = parsedData as UnifiedDataCatalog;
-        } else if (Array.isArray(parsedData) && parsedData.length > 0) {
-          // This is field-mapped data (simple array) - convert to UnifiedDataCatalog format
-          apiLogger.debug('Converting field-mapped data to UnifiedDataCatalog format for download');
-          const transformedRecords = parsedData;
-          
-          // Use the recordCount from the data source entity if available
-          const originalRecordCount = entity.recordCount && entity.recordCount > 0 ? entity.recordCount : transformedRecords.length;
-          
-          // Convert field-mapped data to UnifiedDataCatalog format
-          const sampleRecord = transformedRecords[0];
-          const fields = Object.keys(sampleRecord).map(key => ({
-            name: key,
-            type: typeof sampleRecord[key] === 'number' ? 'number' : 
-                  typeof sampleRecord[key] === 'boolean' ? 'boolean' : 'string',
-            nullable: true,
-            examples: [sampleRecord[key]]
-          }));
-          
-          catalog = {
-            catalogId: `field_mapped_${id}_${Date.now()}`,
-            sourceId: id,
-            sourceName: dataSource.name,
-            createdAt: new Date().toISOString(),
-            totalRecords: originalRecordCount,
-            schema: { fields },
-            records: transformedRecords.map((record: Record<string, unknown>, index: number) => ({
-              id: `${id}_record_${index}`,
-              sourceId: id,
-              sourceName: dataSource.name,
-              sourceType: dataSource.type,
-              recordIndex: index,
-              data: record,
-              metadata: {
-                originalFormat: 'field_mapped',
-                extractedAt: new Date().toISOString(),
-                processingInfo: {
-                  method: 'field_mapping_transformation'
-                }
-              }
-            })),
-            summary: {
-              dataTypes: [...new Set(fields.map(f => f.type))],
-              recordCount: originalRecordCount,
-              fieldCount: fields.length,
-              sampleSize: transformedRecords.length
-            }
-          };
-        } else {
-          throw new Error('Invalid transformed data format');
+        catalog = await RecordStoreService.loadCatalog(entity);
+        const recordsNotStored = (catalog?.metadata as { recordsNotStored?: boolean } | undefined)?.recordsNotStored;
+        if (catalog && (catalog.records.length === 0 || recordsNotStored)) {
+          catalog = null;
         }
       } catch (error) {
         apiLogger.debug('Failed to parse transformed data, falling back to fresh transformation:', error);
-        catalog = await DataTransformationService.transformDataSource(dataSource, { maxRecords: 0 });
       }
-    } else {
-      // No transformed data found, transform the data source now
+    }
+    if (!catalog) {
+      // No usable transformed data found, transform the data source now
       apiLogger.debug('No pre-transformed data found, transforming now...');
       catalog = await DataTransformationService.transformDataSource(dataSource, { maxRecords: 0 });
     }
@@ -118,7 +84,10 @@ export async function GET(
     });
 
     // Return the complete catalog without truncation
-    return NextResponse.json(catalog);
+    if (!marking) {
+      return NextResponse.json(catalog);
+    }
+    return NextResponse.json({ classification: marking, ...catalog }, { headers });
   } catch (error) {
     apiLogger.error('=== Data Transformation Download API: Error ===', error);
     return NextResponse.json(
@@ -129,4 +98,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DataSourceService } from '@/services/dataSourceService';
-import { DataTransformationService } from '@/services/dataTransformationService';
+import { ClassificationService } from '@/services/classificationService';
+import type { UnifiedDataRecord } from '@/services/dataTransformationService';
+import { Pattern, PatternService } from '@/services/patternService';
+import { PseudonymizationService } from '@/services/pseudonymizationService';
+import { DatasetExportService } from '@/services/datasetExportService';
+import { mapLeaves } from '@/utils/recordLeaves';
 
-// POST /api/data-sources/[id]/transform/export - Export transformed data as JSON file
+// POST /api/data-sources/[id]/transform/export - Export transformed data as a JSON catalog or, with { format },
+// as the records alone in jsonl, jsonl.gz, csv, sql, parquet or arrow,
+// optionally pseudonymizing values matched by patterns: { pseudonymize: { method, patternIds } }
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -29,25 +36,96 @@ export async function POST(
       type: dataSource.type
     });
 
-    // Transform to unified JSON format (get all records, no limit)
-    const catalog = await DataTransformationService.transformDataSource(dataSource, { maxRecords: 0 });
-    
-    // Generate JSON export
-    const jsonExport = DataTransformationService.exportCatalogAsJSON(catalog);
-    
-    console.log('=== Data Transformation Export API: Export complete ===', {
+    const body = await request.json().catch(() => ({})) as {
+      format?: string;
+      pseudonymize?: { method?: string; patternIds?: string[] };
+    };
+    const format = body.format ?? 'json';
+    if (!DatasetExportService.isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of ${DatasetExportService.FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const pseudonymize = body.pseudonymize;
+    let patterns: Pattern[] = [];
+    if (pseudonymize) {
+      if (pseudonymize.method !== 'pseudonym' && pseudonymize.method !== 'fpe') {
+        return NextResponse.json({ error: 'pseudonymize.method must be pseudonym or fpe' }, { status: 400 });
+      }
+      if (!Array.isArray(pseudonymize.patternIds) || pseudonymize.patternIds.length === 0) {
+        return NextResponse.json({ error: 'pseudonymize.patternIds must list at least one pattern' }, { status: 400 });
+      }
+      if (!PseudonymizationService.isConfigured()) {
+        return NextResponse.json({ error: 'Pseudonymization key not configured. Set PSEUDONYMIZATION_KEY.' }, { status: 503 });
+      }
+
+      const patternIds = new Set(pseudonymize.patternIds);
+      patterns = (await PatternService.getAllPatterns()).filter(pattern => pattern.isActive && patternIds.has(pattern.id));
+      if (patterns.length === 0) {
+        return NextResponse.json({ error: 'pseudonymize.patternIds must name at least one active pattern' }, { status: 400 });
+      }
+    }
+
+    const stored = await DataSourceService.openRecords(id);
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Data source has no transformed records to export' },
+        { status: 400 }
+      );
+    }
+
+    const { catalog } = stored;
+    let batches: AsyncIterable<UnifiedDataRecord[]> = stored.batches();
+    if (pseudonymize) {
+      const method = pseudonymize.method as 'pseudonym' | 'fpe';
+      const style = { type: method, format: method === 'fpe' ? 'format-preserving' : '[{token}]' };
+      // Every string and number at any depth; values without a match keep their type
+      const redact = (value: unknown) => mapLeaves(value, '', leaf => {
+        const text = String(leaf);
+        const redacted = text ? PseudonymizationService.redactWithPatterns(text, patterns, style).text : text;
+        return redacted === text ? leaf : redacted;
+      });
+
+      // Schema examples are copies of record values, so they must not leak the originals
+      for (const field of catalog.schema.fields) {
+        field.examples = field.examples.map(redact);
+      }
+      batches = pseudonymizeBatches(batches, redact);
+    }
+
+    const marking = await ClassificationService.getDataSourceMarking(id);
+    let stream: ReadableStream<Uint8Array>;
+    let contentType = 'application/json';
+    let fileName = `${dataSource.name}-catalog-${Date.now()}.json`;
+
+    if (format === 'json') {
+      stream = DatasetExportService.streamCatalog(catalog, batches, marking);
+    } else {
+      const exported = DatasetExportService.streamRecords(recordData(batches), format, {
+        columns: DatasetExportService.columnsFromCatalog(catalog),
+        classification: marking,
+        tableName: dataSource.name
+      });
+      stream = exported.stream;
+      contentType = exported.contentType;
+      fileName = `${dataSource.name}-records-${Date.now()}.${exported.extension}`;
+    }
+
+    console.log('=== Data Transformation Export API: Streaming export ===', {
       catalogId: catalog.catalogId,
       recordCount: catalog.totalRecords,
-      exportSize: jsonExport.length
+      format
     });
-    
+
     // Return as downloadable file
-    return new NextResponse(jsonExport, {
+    return new NextResponse(stream, {
       status: 200,
       headers: {
-        'Content-Type': 'application/json',
-        'Content-Disposition': `attachment; filename="${dataSource.name}-catalog-${Date.now()}.json"`,
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
         'Cache-Control': 'no-cache, no-store, must-revalidate',
+        ...(marking && { 'X-Classification': marking }),
       },
     });
   } catch (error) {
@@ -60,4 +138,24 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+/**
+ * Records with pseudonyms in place of pattern matches. The vault is flushed before every batch is
+ * sent, so the tokens in it can always be reversed.
+ */
+async function* pseudonymizeBatches(
+  batches: AsyncIterable<UnifiedDataRecord[]>,
+  redact: (value: unknown) => unknown
+): AsyncGenerator<UnifiedDataRecord[]> {
+  for await (const batch of batches) {
+    const redacted = batch.map(record => ({ ...record, data: redact(record.data) as Record<string, unknown> }));
+    await PseudonymizationService.flushVault();
+    yield redacted;
+  }
+}
+
+async function* recordData(batches: AsyncIterable<UnifiedDataRecord[]>): AsyncGenerator<Array<Record<string, unknown>>> {
+  for await (const batch of batches) {
+    yield batch.map(record => record.data);
+  }
+}
@@ -3,6 +3,8 @@ import { DataSourceService } from '@/services/dataSourceService';
 import { DataTransformationService, UnifiedDataCatalog } from '@/services/dataTransformationService';
 import { apiLogger } from '@/utils/logger';
 import { cachedJsonResponse, CACHE_DURATIONS } from '@/utils/apiCache';
+import { RecordStoreService } from '@/services/recordStoreService';
+import { StreamingIngestionService } from '@/services/streaming/streamingIngestionService';
 
 // GET /api/data-sources/[id]/transform - Transform a data source to unified JSON format
 export async function GET(
@@ -30,16 +32,19 @@ export async function GET(
       skipPagination
     });
 
-    // Get the data source with full file content from external storage
-    const dataSource = await DataSourceService.getDataSourceById(id, true);
+    // Files that stream from storage are never loaded whole; other sources need their full file content
+    const storedSource = await DataSourceService.getDataSourceById(id);
     
-    if (!dataSource) {
+    if (!storedSource) {
       return NextResponse.json(
         { error: 'Data source not found' },
         { status: 404 }
       );
     }
 
+    const streamed = storedSource.type !== 'api' && StreamingIngestionService.canIngest(storedSource.configuration.files);
+    const dataSource = streamed ? storedSource : (await DataSourceService.getDataSourceById(id, true)) ?? storedSource;
+
     apiLogger.debug('Data source found:', {
       id: dataSource.id,
       name: dataSource.name,
@@ -54,7 +59,7 @@ export async function GET(
     ) ?? false;
 
     // Skip JSON-only processing for API data sources
-    if (hasOnlyJSONFiles && config.files && config.files.length > 0 && dataSource.type !== 'api') {
+    if (!streamed && hasOnlyJSONFiles && config.files && config.files.length > 0 && dataSource.type !== 'api') {
       apiLogger.debug('JSON-only data source detected, returning raw JSON data');
       
       // For JSON files, return the raw content without transformation
@@ -160,165 +165,90 @@ export async function GET(
       }
     }
 
-    // Check if we have field-mapped transformed data first
+    // Records come from the record store once the data source has been transformed
     const { getDatabase } = await import('@/database/connection');
     const { DataSourceEntity } = await import('@/entities/DataSourceEntity');
     const db = await getDatabase();
     const repository = db.getRepository(DataSourceEntity);
     const entity = await repository.findOne({ where: { id } });
-    
-    let catalog: UnifiedDataCatalog;
+
+    const startIndex = (page - 1) * pageSize;
+    const endIndex = startIndex + pageSize;
+    const pageOf = (records: UnifiedDataCatalog['records']) => (skipPagination ? records : records.slice(startIndex, endIndex));
+
+    // Holds only the requested page of records
+    let catalog: UnifiedDataCatalog | null = null;
     
     // For API sources, always do fresh transformation to ensure we get the latest data
     const shouldUseCachedData = dataSource.type !== 'api';
     
     if (shouldUseCachedData && entity?.transformedData && entity.transformedData.trim() !== '') {
       try {
-        const parsedData = JSON.parse(entity.transformedData);
-        
-        // Check if this is original UnifiedDataCatalog format or field-mapped data
-        if (parsedData && typeof parsedData === 'object' && 'catalogId' in parsedData && 'schema' in parsedData && 'records' in parsedData) {
-          // This is original UnifiedDataCatalog format
-          apiLogger.debug('Using original UnifiedDataCatalog from transformedData', {
-            totalRecords: parsedData.totalRecords,
-            recordsLength: parsedData.records?.length,
-            recordsNotStored: parsedData.metadata?.recordsNotStored
-          });
-          
-          // Check if records were not stored (to prevent memory issues)
-          if (parsedData.metadata?.recordsNotStored === true || parsedData.records.length === 0) {
-            apiLogger.debug('Records not stored in database, re-transforming data source');
-            // Re-transform the data source to get records
-            // For small datasets (< 1000 records), always load all records
-            // For larger datasets, load based on pagination
-            const isSmallDataset = parsedData.totalRecords < 1000 || parsedData.savedRecordCount < 1000;
-            const recordsToLoad = skipPagination ? 0 : (isSmallDataset ? 0 : Math.max(pageSize, page * pageSize));
-            
-            apiLogger.debug('Re-transforming with record limit:', {
-              skipPagination,
-              page,
-              pageSize,
-              recordsToLoad,
-              isSmallDataset,
-              totalRecords: parsedData.totalRecords || parsedData.savedRecordCount
-            });
-            
-            // For small datasets, don't limit records
-            const transformOptions = recordsToLoad > 0 ? { maxRecords: recordsToLoad } : {};
-            catalog = await DataTransformationService.transformDataSource(dataSource, transformOptions);
-            
-            // Preserve the saved metadata
-            if (parsedData.savedRecordCount) {
-              catalog.totalRecords = parsedData.savedRecordCount;
-            }
-            apiLogger.debug('Re-transformation complete:', {
-              returnedRecords: catalog.records.length,
-              totalRecords: catalog.totalRecords
-            });
-          } else {
-            catalog = parsedData as UnifiedDataCatalog;
-            
-            // Re-analyze schema if it's missing or has no fields
-            if (!catalog.schema || !catalog.schema.fields || catalog.schema.fields.length === 0) {
-              apiLogger.debug('Re-analyzing schema for saved catalog');
-              catalog.schema = DataTransformationService.analyzeSchema(catalog.records);
-              catalog.summary.fieldCount = catalog.schema.fields.length;
-            }
-          }
-        } else if (Array.isArray(parsedData) && parsedData.length > 0) {
-          // This is field-mapped data (simple array) - convert to UnifiedDataCatalog format
-          apiLogger.debug('Converting field-mapped data to UnifiedDataCatalog format', {
-            recordCount: parsedData.length,
-            hasTransformationAppliedAt: !!entity.transformationAppliedAt,
-            sampleFieldNames: Object.keys(parsedData[0] || {})
+        if (RecordStoreService.parseHeader(entity.transformedData)) {
+          catalog = await RecordStoreService.loadCatalog(entity, skipPagination ? {} : { offset: startIndex, limit: pageSize });
+          apiLogger.debug('Read page from record store', {
+            totalRecords: catalog?.totalRecords,
+            returnedRecords: catalog?.records.length
           });
-          const transformedRecords = parsedData;
-          // Get the original record count from the data source entity or fallback to current count
-          let originalRecordCount = transformedRecords.length;
-          
-          // Use the recordCount from the data source entity if available (most reliable)
-          if (entity.recordCount && entity.recordCount > 0) {
-            originalRecordCount = entity.recordCount;
-            apiLogger.debug('Using original record count from data source entity:', originalRecordCount);
-          } else {
-            apiLogger.debug('Using field-mapped record count as fallback:', originalRecordCount);
-          }
-          
-          // Convert field-mapped data to UnifiedDataCatalog format
-          // Properly analyze all records to get accurate schema
-          const fieldAnalysis = new Map<string, { types: Set<string>; examples: Set<unknown>; hasNull: boolean }>();
-          
-          transformedRecords.forEach(record => {
-            Object.entries(record).forEach(([key, value]) => {
-              if (!fieldAnalysis.has(key)) {
-                fieldAnalysis.set(key, { types: new Set(), examples: new Set(), hasNull: false });
-              }
-              const field = fieldAnalysis.get(key)!;
-              
-              if (value === null || value === undefined) {
-                field.hasNull = true;
-              } else {
-                field.types.add(typeof value);
-                if (field.examples.size < 3) {
-                  field.examples.add(value);
-                }
-              }
-            });
-          });
-          
-          const fields = Array.from(fieldAnalysis.entries()).map(([name, info]) => ({
-            name,
-            type: info.types.size === 1 ? Array.from(info.types)[0] : 'mixed',
-            nullable: info.hasNull,
-            examples: Array.from(info.examples).slice(0, 3)
-          }));
-          
-          catalog = {
-            catalogId: `field_mapped_${id}_${Date.now()}`,
-            sourceId: id,
-            sourceName: dataSource.name,
-            createdAt: new Date().toISOString(),
-            totalRecords: originalRecordCount,
-            schema: { fields },
-            records: transformedRecords.map((record, index) => ({
-              id: `${id}_record_${index}`,
-              sourceId: id,
-              sourceName: dataSource.name,
-              sourceType: dataSource.type,
-              recordIndex: index,
-              data: record,
-              metadata: {
-                originalFormat: 'field_mapped',
-                extractedAt: new Date().toISOString(),
-                processingInfo: {
-                  method: 'field_mapping_transformation'
-                }
-              }
-            })),
-            summary: {
-              dataTypes: [...new Set(fields.map(f => f.type))],
-              recordCount: originalRecordCount,
-              fieldCount: fields.length,
-              sampleSize: Math.min(transformedRecords.length, 10)
-            }
-          };
         } else {
-          throw new Error('Invalid transformed data format');
+          // Catalogs saved before the record store move into it on first read, unless their records were dropped
+          const stored = await RecordStoreService.loadCatalog(entity);
+          const recordsNotStored = (stored?.metadata as { recordsNotStored?: boolean } | undefined)?.recordsNotStored;
+          if (stored && stored.records.length > 0 && !recordsNotStored) {
+            apiLogger.debug('Moving saved catalog into the record store', { records: stored.records.length });
+            await RecordStoreService.saveCatalog(id, stored);
+            catalog = { ...stored, records: pageOf(stored.records) };
+          }
+        }
+
+        // Re-analyze schema if it's missing or has no fields
+        if (catalog && (!catalog.schema?.fields || catalog.schema.fields.length === 0)) {
+          apiLogger.debug('Re-analyzing schema for saved catalog');
+          catalog.schema = DataTransformationService.analyzeSchema(catalog.records);
+          catalog.summary.fieldCount = catalog.schema.fields.length;
         }
       } catch (error) {
-        apiLogger.debug('Failed to parse transformed data, falling back to fresh transformation:', error);
-        // For pagination, we need enough records to serve the requested page
-        // Load up to 1000 records to balance memory usage and functionality
-        const recordsToLoad = skipPagination ? 0 : Math.min(1000, page * pageSize + 100);
-        catalog = await DataTransformationService.transformDataSource(dataSource, { maxRecords: recordsToLoad });
+        apiLogger.debug('Failed to read stored records, falling back to fresh transformation:', error);
+        catalog = null;
+      }
+    }
+
+    if (!catalog && streamed) {
+      apiLogger.debug('No stored records found, streaming files into the record store...');
+      const header = await StreamingIngestionService.ingestDataSource(dataSource);
+      catalog = {
+        ...header,
+        records: await RecordStoreService.readRecords(id, header.recordStore!, skipPagination ? 0 : startIndex, skipPagination ? undefined : pageSize)
+      };
+    }
+
+    if (!catalog) {
+      // Transform every record once and keep them in the record store. API sources are fetched on
+      // every request, so they only load what the page needs unless all records were asked for.
+      apiLogger.debug('No stored records found, transforming now...');
+      const maxRecords = dataSource.type === 'api' && !skipPagination ? 1000 : 0;
+      const transformed = await DataTransformationService.transformDataSource(dataSource, { maxRecords });
+
+      if (transformed.totalRecords > 0 && transformed.records.length >= transformed.totalRecords) {
+        try {
+          await RecordStoreService.saveCatalog(id, transformed);
+
+          const updateFields: Record<string, unknown> = {
+            transformedAt: new Date(),
+            recordCount: transformed.totalRecords
+          };
+          // For API sources, update transformationAppliedAt to force React component re-render
+          if (dataSource.type === 'api') {
+            updateFields.transformationAppliedAt = new Date();
+          }
+          await repository.update(id, updateFields);
+        } catch (saveError) {
+          apiLogger.error('Failed to save transformed records:', saveError);
+          // Continue anyway - the transformation succeeded even if save failed
+        }
       }
-    } else {
-      // No transformed data found, transform the data source now
-      apiLogger.debug('No pre-transformed data found, transforming now...');
-      // Pass the data source with full content retrieved from external storage
-      // For new transformations, allow up to 1000 records for pagination support
-      const maxRecords = skipPagination ? 0 : 1000;
-      catalog = await DataTransformationService.transformDataSource(dataSource, { maxRecords });
+
+      catalog = { ...transformed, records: pageOf(transformed.records) };
     }
     
     apiLogger.log('=== Data Transformation API: Transformation complete ===', {
@@ -327,93 +257,10 @@ export async function GET(
       fieldCount: catalog.schema.fields.length
     });
 
-    // Save the catalog to the database for future use
-    // Save if this is the first transformation OR if it's an API source (always fresh)
-    apiLogger.debug('Checking if should save transformation', {
-      hasTransformedData: !!entity?.transformedData,
-      hasTransformationAppliedAt: !!entity?.transformationAppliedAt,
-      totalRecords: catalog.totalRecords,
-      isApiSource: dataSource.type === 'api'
-    });
-    
-    if ((!entity?.transformedData && !entity?.transformationAppliedAt && catalog.totalRecords > 0) || 
-        (dataSource.type === 'api' && catalog.totalRecords > 0)) {
-      try {
-        // For large datasets, save metadata only to prevent memory issues
-        const catalogToSave = catalog.totalRecords > 10000 ? {
-          ...catalog,
-          records: [], // Don't store records in database for large datasets
-          metadata: {
-            ...catalog.metadata,
-            recordsNotStored: true,
-            reason: 'Large dataset - records not stored to prevent memory issues'
-          },
-          savedRecordCount: catalog.totalRecords // Preserve the actual count
-        } : catalog;
-        
-        const transformedDataJson = JSON.stringify(catalogToSave);
-        const jsonSizeMB = Buffer.byteLength(transformedDataJson) / (1024 * 1024);
-        
-        apiLogger.info('DEBUG: Saving transformed data:', {
-          jsonSizeMB: jsonSizeMB.toFixed(2),
-          shouldTruncate: catalog.totalRecords > 10000,
-          actualRecordCount: catalog.totalRecords,
-          recordsArrayLength: catalogToSave.records?.length || 0,
-          recordsSaved: catalog.totalRecords > 10000 ? 0 : catalog.totalRecords,
-          catalogRecordsLength: catalog.records?.length || 0,
-          isFirstSave: !entity?.transformedData && !entity?.transformationAppliedAt
-        });
-        
-        const updateFields: Record<string, unknown> = {
-          transformedData: transformedDataJson,
-          transformedAt: new Date(),
-          recordCount: catalog.totalRecords
-        };
-        
-        // For API sources, update transformationAppliedAt to force React component re-render
-        if (dataSource.type === 'api') {
-          updateFields.transformationAppliedAt = new Date();
-        }
-        
-        await repository.update(id, updateFields);
-        
-        apiLogger.debug('Saved transformation catalog to database', {
-          sourceId: id,
-          recordsStored: catalog.totalRecords <= 10000,
-          totalRecords: catalog.totalRecords
-        });
-      } catch (saveError) {
-        apiLogger.error('Failed to save transformation catalog:', saveError);
-        // Continue without failing the request
-      }
-    }
-
-    // Apply pagination unless explicitly skipped
-    let paginatedRecords = catalog.records;
+    const paginatedRecords = catalog.records;
     let paginationMeta = {};
     
     if (!skipPagination) {
-      const startIndex = (page - 1) * pageSize;
-      const endIndex = startIndex + pageSize;
-      paginatedRecords = catalog.records.slice(startIndex, endIndex);
-      
-      apiLogger.debug('Pagination applied:', {
-        originalRecords: catalog.records.length,
-        paginatedRecords: paginatedRecords.length,
-        page,
-        pageSize,
-        startIndex,
-        endIndex
-      });
-      
-      // Log warning if we're returning too many records
-      if (paginatedRecords.length > pageSize) {
-        apiLogger.error('WARNING: Returning more records than requested', {
-          requested: pageSize,
-          returning: paginatedRecords.length
-        });
-      }
-      
       const totalPages = Math.ceil(catalog.totalRecords / pageSize);
       
       paginationMeta = {
@@ -427,58 +274,6 @@ export async function GET(
         endIndex: Math.min(endIndex, catalog.totalRecords)
       };
     }
-    
-    // Save the transformed data to the database for field mapping
-    // Only save if this is a fresh transformation (not already saved)
-    if (!entity?.transformedData || entity.transformedData.trim() === '') {
-      try {
-        apiLogger.debug('Saving transformed data to database for field mapping');
-        
-        // For large datasets, don't store records in the database to prevent memory issues
-        const shouldStoreRecords = catalog.totalRecords <= 10000;
-        
-        const catalogToSave = shouldStoreRecords ? catalog : {
-          ...catalog,
-          records: [], // Don't store records for large datasets
-          metadata: {
-            ...catalog.metadata,
-            recordsNotStored: true,
-            savedRecordCount: catalog.totalRecords
-          }
-        };
-        
-        const transformedDataJson2 = JSON.stringify(catalogToSave);
-        const jsonSizeMB2 = Buffer.byteLength(transformedDataJson2) / (1024 * 1024);
-        
-        apiLogger.info('DEBUG: Saving field-mapped data:', {
-          jsonSizeMB: jsonSizeMB2.toFixed(2),
-          shouldStoreRecords,
-          actualRecordCount: catalog.totalRecords,
-          recordsArrayLength: catalogToSave.records?.length || 0
-        });
-        
-        const updateFields2: Record<string, unknown> = {
-          transformedData: transformedDataJson2,
-          transformedAt: new Date(),
-          recordCount: catalog.totalRecords
-        };
-        
-        // For API sources, update transformationAppliedAt to force React component re-render
-        if (dataSource.type === 'api') {
-          updateFields2.transformationAppliedAt = new Date();
-        }
-        
-        await repository.update(id, updateFields2);
-        
-        apiLogger.debug('Transformed data saved successfully', {
-          recordsStored: shouldStoreRecords,
-          totalRecords: catalog.totalRecords
-        });
-      } catch (saveError) {
-        apiLogger.error('Failed to save transformed data:', saveError);
-        // Continue anyway - the transformation succeeded even if save failed
-      }
-    }
 
     const response = {
       ...catalog,
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DataSourceService } from '@/services/dataSourceService';
+import { ClassificationService } from '@/services/classificationService';
 import { DataTransformationService } from '@/services/dataTransformationService';
+import { requirePermission } from '@/utils/authorization';
 
 // POST /api/data-sources/[id]/transform/save - Save transformed data as a new data source
 export async function POST(
@@ -9,6 +11,9 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
+    const denied = await requirePermission(request, 'data_sources:write', id);
+    if (denied) return denied;
+
     const body = await request.json();
     const { name: newSourceName, includeMetadata = true } = body;
 
@@ -82,7 +87,9 @@ export async function POST(
       configuration: jsonConfiguration,
       metadata: newMetadata,
       recordCount: catalog.totalRecords,
-      tags: ['transformed', 'json', originalSource.type]
+      tags: ['transformed', 'json', originalSource.type],
+      // Derived data keeps the marking of everything it came from
+      classification: await ClassificationService.getDataSourceMarking(id)
     });
 
     console.log('=== Data Transformation Save API: New data source created ===', {
@@ -16,6 +16,11 @@ jest.mock('@/entities/CatalogFieldEntity', () => ({
   CatalogFieldEntity: class {}
 }));
 
+// Permission checks are covered in permissions.test.ts
+jest.mock('@/utils/authorization', () => ({
+  requirePermission: jest.fn().mockResolvedValue(null)
+}));
+
 jest.mock('@/services/globalCatalogService', () => ({
   GlobalCatalogService: {
     getCatalogField: jest.fn(),
@@ -102,6 +107,7 @@ describe('/api/data-sources/[id]/transform/apply-mappings', () => {
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const { getDatabase } = require('@/database/connection');
       const mockUpdate = jest.fn();
+      const mockInsertSegment = jest.fn();
       
       getDatabase.mockResolvedValue({
         getRepository: jest.fn((entity) => {
@@ -110,6 +116,11 @@ describe('/api/data-sources/[id]/transform/apply-mappings', () => {
               findOne: jest.fn().mockResolvedValue(mockDataSource),
               update: mockUpdate
             };
+          } else if (entity.name === 'RecordSegmentEntity') {
+            return {
+              insert: mockInsertSegment,
+              delete: jest.fn()
+            };
           } else if (entity.name === 'FieldMappingEntity') {
             return {
               find: jest.fn().mockResolvedValue(mockFieldMappings)
@@ -131,8 +142,15 @@ describe('/api/data-sources/[id]/transform/apply-mappings', () => {
       expect(data.transformedRecords).toBe(2);
       expect(data.statistics.mappedFields).toBe(2);
       expect(data.statistics.totalRecords).toBe(2);
+      expect(mockInsertSegment).toHaveBeenCalledWith(expect.objectContaining({
+        dataSourceId: 'source-1',
+        segmentIndex: 0,
+        recordCount: 2
+      }));
+      expect(mockUpdate).toHaveBeenCalledWith('source-1', {
+        transformedData: expect.stringMatching(/^\{"recordStore":/)
+      });
       expect(mockUpdate).toHaveBeenCalledWith('source-1', expect.objectContaining({
-        transformedData: expect.any(String),
         transformationStatus: 'completed'
       }));
     });
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { getDatabase } from '@/database/connection';
+import { AuthService } from '@/services/authService';
+import { DataSourceService } from '@/services/dataSourceService';
+import { USER_ID_HEADER, USERNAME_HEADER } from '@/utils/session';
+import { POST as saveTransform } from '../[id]/transform/save/route';
+import { POST as applyMappings } from '../[id]/transform/apply-mappings/route';
+import { POST as retransform } from '../[id]/retransform/route';
+import { POST as refresh } from '../[id]/refresh/route';
+import { POST as applyRefinements } from '../../patterns/feedback/refinements/route';
+
+jest.mock('@/database/connection', () => ({
+  getDatabase: jest.fn()
+}));
+
+jest.mock('@/services/authService', () => ({
+  AuthService: { getUser: jest.fn() }
+}));
+
+jest.mock('@/services/dataSourceService', () => ({
+  DataSourceService: { getDataSourceById: jest.fn(), updateDataSource: jest.fn() }
+}));
+
+describe('data source and pattern mutations', () => {
+  const params = Promise.resolve({ id: 'source-1' });
+  const request = (url: string) => new NextRequest(`http://localhost:3000${url}`, {
+    method: 'POST',
+    headers: { [USER_ID_HEADER]: 'user-1', [USERNAME_HEADER]: 'viewer' },
+    body: JSON.stringify({ patternId: 'pattern-1', refinements: [] })
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (AuthService.getUser as jest.Mock).mockResolvedValue({ id: 'user-1', username: 'viewer', role: 'viewer', active: true });
+    // No per-data-source grant raises the viewer's role
+    (getDatabase as jest.Mock).mockResolvedValue({
+      getRepository: jest.fn(() => ({ findOne: jest.fn().mockResolvedValue(null) }))
+    });
+  });
+
+  it('refuses viewers with 403 before touching the data source', async () => {
+    const responses = [
+      await saveTransform(request('/api/data-sources/source-1/transform/save'), { params }),
+      await applyMappings(request('/api/data-sources/source-1/transform/apply-mappings'), { params }),
+      await retransform(request('/api/data-sources/source-1/retransform'), { params }),
+      await refresh(request('/api/data-sources/source-1/refresh'), { params })
+    ];
+
+    for (const response of responses) {
+      expect(response.status).toBe(403);
+      await expect(response.json()).resolves.toEqual({
+        error: 'You do not have the data_sources:write permission on this data source'
+      });
+    }
+    expect(DataSourceService.getDataSourceById).not.toHaveBeenCalled();
+  });
+
+  it('refuses viewers with 403 when applying pattern refinements', async () => {
+    const response = await applyRefinements(request('/api/patterns/feedback/refinements'));
+
+    expect(response.status).toBe(403);
+    await expect(response.json()).resolves.toEqual({ error: 'You do not have the patterns:write permission' });
+  });
+
+  it('requires a session', async () => {
+    const anonymous = new NextRequest('http://localhost:3000/api/data-sources/source-1/retransform', { method: 'POST' });
+
+    expect((await retransform(anonymous, { params })).status).toBe(401);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { DataSourceService } from '@/services/dataSourceService';
+import { PatternService } from '@/services/patternService';
+import { PseudonymizationService } from '@/services/pseudonymizationService';
+import { POST } from '../[id]/transform/export/route';
+
+jest.unmock('next/server');
+
+jest.mock('@/services/dataSourceService', () => ({
+  DataSourceService: { getDataSourceById: jest.fn(), openRecords: jest.fn() }
+}));
+
+jest.mock('@/services/patternService', () => ({
+  PatternService: { getAllPatterns: jest.fn() }
+}));
+
+jest.mock('@/services/pseudonymizationService', () => ({
+  PseudonymizationService: { isConfigured: jest.fn(), redactWithPatterns: jest.fn(), flushVault: jest.fn() }
+}));
+
+jest.mock('@/services/classificationService', () => ({
+  ClassificationService: { getDataSourceMarking: jest.fn() }
+}));
+
+describe('POST /api/data-sources/[id]/transform/export', () => {
+  const params = Promise.resolve({ id: 'source-1' });
+  const request = (body: unknown) => new NextRequest('http://localhost:3000/api/data-sources/source-1/transform/export', {
+    method: 'POST',
+    body: JSON.stringify(body)
+  });
+  const record = (recordIndex: number, email: string) => ({ id: `r${recordIndex}`, recordIndex, data: { id: recordIndex, email } });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (DataSourceService.getDataSourceById as jest.Mock).mockResolvedValue({ id: 'source-1', name: 'Customers', type: 'json_transformed' });
+    (DataSourceService.openRecords as jest.Mock).mockResolvedValue({
+      catalog: {
+        catalogId: 'catalog-1',
+        totalRecords: 2,
+        schema: { fields: [{ name: 'id', type: 'number', examples: [0] }, { name: 'email', type: 'string', examples: ['ada@example.com'] }] },
+        records: []
+      },
+      batches: async function* () {
+        yield [record(0, 'ada@example.com')];
+        yield [record(1, 'grace@example.com')];
+      }
+    });
+    (PseudonymizationService.isConfigured as jest.Mock).mockReturnValue(true);
+    (PseudonymizationService.redactWithPatterns as jest.Mock).mockImplementation((text: string) => ({ text: text.replace(/\S+@\S+/, '[token]') }));
+    (PatternService.getAllPatterns as jest.Mock).mockResolvedValue([
+      { id: 'ssn', name: 'SSN', isActive: false },
+      { id: 'email', name: 'Email', isActive: true }
+    ]);
+  });
+
+  it('refuses to pseudonymize when no listed pattern is active instead of exporting the raw values', async () => {
+    const response = await POST(request({ pseudonymize: { method: 'pseudonym', patternIds: ['ssn', 'missing'] } }), { params });
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({ error: 'pseudonymize.patternIds must name at least one active pattern' });
+    expect(DataSourceService.openRecords).not.toHaveBeenCalled();
+  });
+
+  it('streams the stored records with pseudonyms in place of matches', async () => {
+    const response = await POST(request({ format: 'jsonl', pseudonymize: { method: 'pseudonym', patternIds: ['email'] } }), { params });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson');
+    expect((await response.text()).split('\n').map(line => JSON.parse(line))).toEqual([
+      { id: 0, email: '[token]' },
+      { id: 1, email: '[token]' }
+    ]);
+    expect(PseudonymizationService.flushVault).toHaveBeenCalledTimes(2);
+  });
+
+  it('pseudonymizes nested and numeric values', async () => {
+    (PseudonymizationService.redactWithPatterns as jest.Mock).mockImplementation((text: string) => ({
+      text: text.replace(/\S+@\S+|^\d{9}$/, '[token]')
+    }));
+    (DataSourceService.openRecords as jest.Mock).mockResolvedValue({
+      catalog: { catalogId: 'catalog-1', totalRecords: 1, schema: { fields: [] }, records: [] },
+      batches: async function* () {
+        yield [{ id: 'r0', recordIndex: 0, data: { id: 7, contact: { emails: ['ada@example.com'] }, ssn: 123456789 } }];
+      }
+    });
+
+    const response = await POST(request({ format: 'jsonl', pseudonymize: { method: 'pseudonym', patternIds: ['email'] } }), { params });
+
+    expect(JSON.parse(await response.text())).toEqual({ id: 7, contact: { emails: ['[token]'] }, ssn: '[token]' });
+  });
+
+  it('does not send a batch whose tokens could not be stored', async () => {
+    (PseudonymizationService.flushVault as jest.Mock).mockRejectedValueOnce(new Error('vault unavailable'));
+
+    const response = await POST(request({ format: 'jsonl', pseudonymize: { method: 'pseudonym', patternIds: ['email'] } }), { params });
+
+    const reader = response.body!.getReader();
+    const sent: string[] = [];
+    await expect((async () => {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        sent.push(Buffer.from(value).toString());
+      }
+    })()).rejects.toThrow('vault unavailable');
+    expect(sent.join('')).not.toContain('[token]');
+  });
+
+  it('exports the catalog as JSON without leaking schema examples', async () => {
+    const response = await POST(request({ pseudonymize: { method: 'pseudonym', patternIds: ['email'] } }), { params });
+    const catalog = await response.json();
+
+    expect(catalog.schema.fields[1].examples).toEqual(['[token]']);
+    expect(catalog.records.map((item: { data: unknown }) => item.data)).toEqual([{ id: 0, email: '[token]' }, { id: 1, email: '[token]' }]);
+  });
+});
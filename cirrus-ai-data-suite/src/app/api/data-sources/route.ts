@@ -3,6 +3,8 @@ import '@/lib/init-typeorm';
 import { NextRequest, NextResponse } from 'next/server';
 import { DataSourceService } from '@/services/dataSourceService';
 import { successResponse, errorResponse } from '@/utils/api-response';
+import { requirePermission } from '@/utils/authorization';
+import { isValidMarking } from '@/utils/classification';
 
 // Configure route segment to handle large payloads
 export const runtime = 'nodejs';
@@ -54,6 +56,9 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const denied = await requirePermission(request, 'data_sources:write');
+    if (denied) return denied;
+
     console.log('=== Data Sources API POST Request Start ===');
     console.log('Environment:', {
       NODE_ENV: process.env.NODE_ENV,
@@ -114,6 +119,13 @@ export async function POST(request: NextRequest) {
     };
     console.log('Data Sources API: Request body (summarized):', JSON.stringify(bodyForLog, null, 2));
     
+    if (!isValidMarking(body.classification)) {
+      return NextResponse.json(
+        { error: `Invalid classification marking: ${body.classification}` },
+        { status: 400 }
+      );
+    }
+
     console.log('=== Calling DataSourceService.createDataSource ===');
     const dataSource = await DataSourceService.createDataSource(body);
     console.log('=== Data Sources API: Successfully created data source ===', {
@@ -4,6 +4,7 @@ import { DatabaseConnectionEntity } from '@/entities/DatabaseConnectionEntity';
 import { DatabaseConnection } from '@/types/connector';
 import { DataSourceService } from '@/services/dataSourceService';
 import { createConnector } from '@/services/connectors/connectorFactory';
+import { validateReadOnlyQuery } from '@/services/connectors/queryValidation';
 import { getQueryTimeout } from '@/utils/getQueryTimeout';
 import { logger } from '@/utils/logger';
 
@@ -45,30 +46,6 @@ export async function POST(
       );
     }
 
-    // Basic SQL injection prevention - only allow SELECT queries
-    const normalizedQuery = query.trim().toUpperCase();
-    if (!normalizedQuery.startsWith('SELECT')) {
-      return NextResponse.json(
-        { error: 'Only SELECT queries are allowed' },
-        { status: 400 }
-      );
-    }
-
-    // Check for potentially dangerous keywords
-    const dangerousKeywords = [
-      'INSERT', 'UPDATE', 'DELETE', 'DROP', 'CREATE', 'ALTER', 'TRUNCATE',
-      'EXEC', 'EXECUTE', 'GRANT', 'REVOKE', '--', '/*', '*/', 'XP_', 'SP_'
-    ];
-    
-    for (const keyword of dangerousKeywords) {
-      if (normalizedQuery.includes(keyword)) {
-        return NextResponse.json(
-          { error: `Query contains forbidden keyword: ${keyword}` },
-          { status: 400 }
-        );
-      }
-    }
-
     // Get connection
     const entity = await repository.findOne({
       where: { id }
@@ -112,6 +89,15 @@ export async function POST(
       );
     }
 
+    // Only allow queries that read data
+    const validationError = validateReadOnlyQuery(query, connection.type);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
     // Create connector
     const connector = createConnector(connection);
     
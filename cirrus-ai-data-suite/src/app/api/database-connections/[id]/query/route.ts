@@ -3,6 +3,7 @@ import { getDatabase } from '@/database/connection';
 import { DatabaseConnectionEntity } from '@/entities/DatabaseConnectionEntity';
 import { DatabaseConnection } from '@/types/connector';
 import { createConnector } from '@/services/connectors/connectorFactory';
+import { validateReadOnlyQuery, applyPreviewLimit } from '@/services/connectors/queryValidation';
 import { getQueryTimeout } from '@/utils/getQueryTimeout';
 import { logger } from '@/utils/logger';
 
@@ -37,30 +38,6 @@ export async function POST(
       );
     }
 
-    // Basic SQL injection prevention - only allow SELECT queries
-    const normalizedQuery = query.trim().toUpperCase();
-    if (!normalizedQuery.startsWith('SELECT')) {
-      return NextResponse.json(
-        { error: 'Only SELECT queries are allowed' },
-        { status: 400 }
-      );
-    }
-
-    // Check for potentially dangerous keywords
-    const dangerousKeywords = [
-      'INSERT', 'UPDATE', 'DELETE', 'DROP', 'CREATE', 'ALTER', 'TRUNCATE',
-      'EXEC', 'EXECUTE', 'GRANT', 'REVOKE', '--', '/*', '*/', 'XP_', 'SP_'
-    ];
-    
-    for (const keyword of dangerousKeywords) {
-      if (normalizedQuery.includes(keyword)) {
-        return NextResponse.json(
-          { error: `Query contains forbidden keyword: ${keyword}` },
-          { status: 400 }
-        );
-      }
-    }
-
     // Get connection
     const entity = await repository.findOne({
       where: { id }
@@ -104,17 +81,23 @@ export async function POST(
       );
     }
 
+    // Only allow queries that read data
+    const validationError = validateReadOnlyQuery(query, connection.type);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
     // Create connector
     const connector = createConnector(connection);
     
     try {
       await connector.connect();
       
-      // Add LIMIT clause if preview mode and not already present
-      let finalQuery = query;
-      if (preview && !normalizedQuery.includes('LIMIT')) {
-        finalQuery = `${query.trim()} LIMIT 100`;
-      }
+      // Limit preview results unless the query already does
+      const finalQuery = preview ? applyPreviewLimit(query, connection.type) : query;
 
       // Execute query with timeout
       const timeout = getQueryTimeout();
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/database/connection';
 import { DatabaseConnectionEntity } from '@/entities/DatabaseConnectionEntity';
 import { DatabaseConnection } from '@/types/connector';
+import { StorageService } from '@/services/storage/storageService';
+import { removeCachedDatabaseFile } from '@/services/connectors/FileDatabaseConnector';
+import { isDatabaseFileType } from '@/utils/databaseFile';
 import { logger } from '@/utils/logger';
 
 interface RouteParams {
@@ -156,6 +159,19 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
     await repository.remove(entity);
 
+    // Uploaded database files are only reachable through their connection
+    if (isDatabaseFileType(entity.type)) {
+      const { storageKey } = entity.additionalOptions ? JSON.parse(entity.additionalOptions) : {};
+      try {
+        if (storageKey) {
+          await StorageService.getInstance().deleteFile(storageKey);
+        }
+        await removeCachedDatabaseFile(id);
+      } catch (error) {
+        logger.warn(`Failed to clean up database file for connection ${id}:`, error);
+      }
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     logger.error('Failed to delete database connection:', error);
@@ -4,6 +4,10 @@ import { DatabaseConnectionEntity } from '@/entities/DatabaseConnectionEntity';
 import { DatabaseConnection } from '@/types/connector';
 import { PostgreSQLConnector } from '@/services/connectors/PostgreSQLConnector';
 import { MySQLConnector } from '@/services/connectors/MySQLConnector';
+import { MSSQLConnector } from '@/services/connectors/MSSQLConnector';
+import { MongoDBConnector } from '@/services/connectors/MongoDBConnector';
+import { SQLiteConnector } from '@/services/connectors/SQLiteConnector';
+import { DuckDBConnector } from '@/services/connectors/DuckDBConnector';
 import { logger } from '@/utils/logger';
 
 interface RouteParams {
@@ -64,6 +68,18 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       case 'mysql':
         connector = new MySQLConnector(connectionConfig);
         break;
+      case 'mssql':
+        connector = new MSSQLConnector(connectionConfig);
+        break;
+      case 'mongodb':
+        connector = new MongoDBConnector(connectionConfig);
+        break;
+      case 'sqlite':
+        connector = new SQLiteConnector(connectionConfig);
+        break;
+      case 'duckdb':
+        connector = new DuckDBConnector(connectionConfig);
+        break;
       default:
         return NextResponse.json(
           { error: `Database type ${connectionConfig.type} not yet supported` },
@@ -3,6 +3,7 @@ import { getDatabase } from '@/database/connection';
 import { DatabaseConnectionEntity } from '@/entities/DatabaseConnectionEntity';
 import { DatabaseConnection } from '@/types/connector';
 import { logger } from '@/utils/logger';
+import { getRequestActor } from '@/utils/session';
 
 // GET /api/database-connections - List all connections
 export async function GET() {
@@ -76,7 +77,7 @@ export async function POST(request: NextRequest) {
       description: body.description,
       tags: body.tags ? JSON.stringify(body.tags) : undefined,
       status: 'inactive',
-      createdBy: body.createdBy || 'system',
+      createdBy: getRequestActor(request),
       refreshEnabled: body.refreshEnabled || false,
       refreshInterval: body.refreshInterval,
       nextRefreshAt: body.refreshEnabled && body.refreshInterval 
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PostgreSQLConnector } from '@/services/connectors/PostgreSQLConnector';
 import { MySQLConnector } from '@/services/connectors/MySQLConnector';
+import { MSSQLConnector } from '@/services/connectors/MSSQLConnector';
+import { MongoDBConnector } from '@/services/connectors/MongoDBConnector';
+import { SQLiteConnector } from '@/services/connectors/SQLiteConnector';
+import { DuckDBConnector } from '@/services/connectors/DuckDBConnector';
 import { DatabaseConnection } from '@/types/connector';
 import { logger } from '@/utils/logger';
 import { getDatabase } from '@/database/connection';
@@ -111,17 +115,17 @@ export async function POST(request: NextRequest) {
         connector = new MySQLConnector(connectionConfig);
         break;
       case 'mongodb':
-        // TODO: Implement MongoDB connector
-        return NextResponse.json(
-          { error: 'MongoDB connector not yet implemented' },
-          { status: 501 }
-        );
+        connector = new MongoDBConnector(connectionConfig);
+        break;
+      case 'sqlite':
+        connector = new SQLiteConnector(connectionConfig);
+        break;
+      case 'duckdb':
+        connector = new DuckDBConnector(connectionConfig);
+        break;
       case 'mssql':
-        // TODO: Implement SQL Server connector
-        return NextResponse.json(
-          { error: 'SQL Server connector not yet implemented' },
-          { status: 501 }
-        );
+        connector = new MSSQLConnector(connectionConfig);
+        break;
       case 'oracle':
         // TODO: Implement Oracle connector
         return NextResponse.json(
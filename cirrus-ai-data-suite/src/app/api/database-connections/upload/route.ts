@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { getDatabase } from '@/database/connection';
+import { DatabaseConnectionEntity } from '@/entities/DatabaseConnectionEntity';
+import { StreamingUploadService } from '@/services/streaming/streamingUploadService';
+import { createConnector } from '@/services/connectors/connectorFactory';
+import {
+  FileDatabaseOptions,
+  cachedDatabaseFilePath,
+  downloadDatabaseFile,
+  moveCachedDatabaseFiles,
+  readDatabaseFileHeader,
+  removeCachedDatabaseFile
+} from '@/services/connectors/FileDatabaseConnector';
+import { DATABASE_FILE_EXTENSIONS, detectDatabaseFileType } from '@/utils/databaseFile';
+import { DatabaseConnection } from '@/types/connector';
+import { logger } from '@/utils/logger';
+import { getRequestActor } from '@/utils/session';
+
+// POST /api/database-connections/upload - Create a connection from a database file sent through /api/streaming/upload
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.uploadId) {
+      return NextResponse.json(
+        { error: 'Missing uploadId' },
+        { status: 400 }
+      );
+    }
+
+    const session = await StreamingUploadService.getInstance().getSession(body.uploadId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Upload session not found' },
+        { status: 404 }
+      );
+    }
+    if (session.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Upload not completed' },
+        { status: 400 }
+      );
+    }
+
+    const extension = path.extname(session.fileName).toLowerCase();
+    if (!DATABASE_FILE_EXTENSIONS.includes(extension)) {
+      return NextResponse.json(
+        { error: `Unsupported database file extension: ${extension || '(none)'}. Expected one of ${DATABASE_FILE_EXTENSIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // The file is streamed to local disk, where the connector opens it once the connection exists
+    const storageKey = session.storageKey || `uploads/${session.uploadId}/${session.fileName}`;
+    const stagingId = `upload-${session.uploadId}`;
+    const stagingPath = cachedDatabaseFilePath(stagingId, session.fileName);
+    const fileSize = await downloadDatabaseFile(storageKey, stagingPath);
+
+    // The file header decides the type, since .db is used by both formats
+    const type = detectDatabaseFileType(await readDatabaseFileHeader(stagingPath));
+    if (!type) {
+      await removeCachedDatabaseFile(stagingId);
+      return NextResponse.json(
+        { error: `${session.fileName} is not a SQLite or DuckDB database file` },
+        { status: 400 }
+      );
+    }
+
+    const fileOptions: FileDatabaseOptions = {
+      storageKey,
+      fileName: session.fileName,
+      fileSize,
+      uploadId: session.uploadId
+    };
+
+    const database = await getDatabase();
+    const repository = database.getRepository(DatabaseConnectionEntity);
+    const entity = repository.create({
+      name: body.name || path.basename(session.fileName, extension),
+      type,
+      // File databases have no server; host and port are placeholders
+      host: 'file',
+      port: 0,
+      database: session.fileName,
+      username: '',
+      ssl: false,
+      additionalOptions: JSON.stringify(fileOptions),
+      description: body.description,
+      tags: body.tags ? JSON.stringify(body.tags) : undefined,
+      status: 'inactive',
+      createdBy: getRequestActor(request),
+      refreshEnabled: false
+    });
+    const savedEntity = await repository.save(entity);
+    await moveCachedDatabaseFiles(stagingId, savedEntity.id);
+
+    const connection: DatabaseConnection = {
+      id: savedEntity.id,
+      name: savedEntity.name,
+      type: savedEntity.type,
+      host: savedEntity.host,
+      port: savedEntity.port,
+      database: savedEntity.database,
+      username: savedEntity.username,
+      ssl: savedEntity.ssl,
+      additionalOptions: { ...fileOptions },
+      createdAt: savedEntity.createdAt,
+      updatedAt: savedEntity.updatedAt,
+      status: savedEntity.status
+    };
+
+    // Open the file once so a corrupt upload is rejected straight away
+    const result = await createConnector(connection).testConnection();
+    if (!result.success) {
+      await repository.remove(savedEntity);
+      await removeCachedDatabaseFile(connection.id);
+      return NextResponse.json(
+        { error: `Could not open ${session.fileName}: ${result.message}` },
+        { status: 400 }
+      );
+    }
+
+    const lastTestedAt = new Date();
+    await repository.update({ id: connection.id }, { status: 'active', lastTestedAt });
+
+    logger.info(`Registered ${type} database file ${session.fileName} as connection ${connection.id}`);
+    return NextResponse.json({ ...connection, status: 'active', lastTestedAt });
+  } catch (error) {
+    logger.error('Failed to create database file connection:', error);
+    return NextResponse.json(
+      { error: 'Failed to create database file connection' },
+      { status: 500 }
+    );
+  }
+}
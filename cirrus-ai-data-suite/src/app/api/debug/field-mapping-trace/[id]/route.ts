@@ -3,6 +3,7 @@ import { getDatabase } from '@/database/connection';
 import { DataSourceEntity } from '@/entities/DataSourceEntity';
 import { FieldMappingEntity } from '@/entities/FieldMappingEntity';
 import { CatalogFieldEntity } from '@/entities/CatalogFieldEntity';
+import { RecordStoreService } from '@/services/recordStoreService';
 
 // GET /api/debug/field-mapping-trace/[id] - Debug field mapping for a data source
 export async function GET(
@@ -38,12 +39,9 @@ export async function GET(
     
     if (dataSource.transformedData) {
       try {
-        const parsed = JSON.parse(dataSource.transformedData);
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          transformedFieldNames = Object.keys(parsed[0]);
-          sampleTransformedRecord = parsed[0];
-        } else if (parsed && parsed.records && Array.isArray(parsed.records) && parsed.records.length > 0) {
-          const firstRecord = parsed.records[0];
+        const catalog = await RecordStoreService.loadCatalog(dataSource, { limit: 1 });
+        const firstRecord = catalog?.records[0];
+        if (firstRecord) {
           const recordData = firstRecord.data || firstRecord;
           transformedFieldNames = Object.keys(recordData);
           sampleTransformedRecord = recordData;
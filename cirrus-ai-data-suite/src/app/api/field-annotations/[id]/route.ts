@@ -1,9 +1,10 @@
 // CRITICAL: Import TypeORM initialization first
 import '@/lib/init-typeorm';
 import { NextRequest } from 'next/server';
-import { FieldAnnotationService } from '@/services/fieldAnnotationService';
+import { FieldAnnotationData, FieldAnnotationService, parseFieldAnnotationUpdate } from '@/services/fieldAnnotationService';
 import { apiHandler, withValidation } from '@/utils/api-handler';
 import { successResponse, errorResponse } from '@/utils/api-response';
+import { getRequestActor } from '@/utils/session';
 
 // Configure route segment
 export const runtime = 'nodejs';
@@ -25,10 +26,10 @@ export const GET = apiHandler(
 );
 
 export const PUT = withValidation(
-  async (request: NextRequest, body: Record<string, unknown>, context?: unknown) => {
+  async (request: NextRequest, body: Partial<FieldAnnotationData>, context?: unknown) => {
     const ctx = context as { params: Promise<{ id: string }> };
     const { id } = await ctx.params;
-    const annotation = await FieldAnnotationService.updateById(id, body);
+    const annotation = await FieldAnnotationService.updateById(id, body, getRequestActor(request));
     
     if (!annotation) {
       return errorResponse(new Error('Field annotation not found'), 'Field annotation not found', 404);
@@ -36,11 +37,8 @@ export const PUT = withValidation(
     
     return successResponse(annotation, 'Field annotation updated successfully');
   },
-  (body: unknown): Record<string, unknown> | null => {
-    if (!body || typeof body !== 'object') return null;
-    // For updates, we don't require all fields
-    return body as Record<string, unknown>;
-  },
+  // For updates, we don't require all fields
+  parseFieldAnnotationUpdate,
   'Invalid field annotation data'
 );
 
@@ -1,19 +1,19 @@
 // CRITICAL: Import TypeORM initialization first
 import '@/lib/init-typeorm';
 import { NextRequest } from 'next/server';
-import { FieldAnnotationService } from '@/services/fieldAnnotationService';
+import { FieldAnnotationData, FieldAnnotationService, parseFieldAnnotationData } from '@/services/fieldAnnotationService';
 import { withValidation } from '@/utils/api-handler';
 import { successResponse } from '@/utils/api-response';
+import { getRequestActor } from '@/utils/session';
 
 // Configure route segment
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 export const POST = withValidation(
-  async (request: NextRequest, body: { annotations: Array<Record<string, unknown>> }) => {
+  async (request: NextRequest, body: { annotations: FieldAnnotationData[] }) => {
     const { annotations } = body;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const results = await FieldAnnotationService.bulkCreateOrUpdate(annotations as any);
+    const results = await FieldAnnotationService.bulkCreateOrUpdate(annotations, getRequestActor(request));
     
     return successResponse({
       success: true,
@@ -21,7 +21,7 @@ export const POST = withValidation(
       annotations: results
     }, 'Field annotations created/updated successfully', 201);
   },
-  (body: unknown): { annotations: Array<Record<string, unknown>> } | null => {
+  (body: unknown): { annotations: FieldAnnotationData[] } | null => {
     if (!body || typeof body !== 'object') return null;
     const obj = body as Record<string, unknown>;
     
@@ -30,13 +30,10 @@ export const POST = withValidation(
     }
     
     // Validate all annotations have required fields
-    for (const annotation of obj.annotations) {
-      if (!annotation || typeof annotation !== 'object') return null;
-      const ann = annotation as Record<string, unknown>;
-      if (!ann.dataSourceId || !ann.fieldPath || !ann.fieldName) return null;
-    }
+    const annotations = obj.annotations.map(parseFieldAnnotationData);
+    if (annotations.some(annotation => annotation === null)) return null;
     
-    return obj as { annotations: Array<Record<string, unknown>> };
+    return { annotations: annotations as FieldAnnotationData[] };
   },
   'annotations array is required with valid field annotations'
 );
\ No newline at end of file
@@ -3,6 +3,7 @@ import { successResponse, errorResponse } from '@/utils/api-response';
 import { apiHandler } from '@/utils/api-handler';
 import { FieldAnnotationService } from '@/services/fieldAnnotationService';
 import { DataSourceService } from '@/services/dataSourceService';
+import { getRequestActor } from '@/utils/session';
 
 // Common PII patterns and field names
 const PII_PATTERNS = {
@@ -134,11 +135,8 @@ export const POST = apiHandler(
         return errorResponse(new Error('Data source not found'), 'Data source not found', 404);
       }
       
-      // Parse transformed data
-      let transformedData = null;
-      if (dataSource.transformedData) {
-        transformedData = JSON.parse(dataSource.transformedData);
-      }
+      // Sample values come from the first records, so only those are read
+      const transformedData = await DataSourceService.getTransformedData(dataSourceId, { limit: 1000 });
       
       if (!transformedData || !transformedData.records || transformedData.records.length === 0) {
         return errorResponse(new Error('No data available for PII detection'), 'No data available for PII detection', 404);
@@ -147,8 +145,7 @@ export const POST = apiHandler(
       // Extract field information
       const fieldInfo: Map<string, { name: string; values: Set<string> }> = new Map();
       
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      transformedData.records.forEach((record: any) => {
+      transformedData.records.forEach(record => {
         const recordData = record.data || record;
         Object.entries(recordData).forEach(([key, value]) => {
           if (!fieldInfo.has(key)) {
@@ -182,13 +179,11 @@ export const POST = apiHandler(
             sensitivityLevel: getSensitivityLevel(isPII, piiType),
             description: isPII ? `Auto-detected as ${piiType || 'PII'}` : `Auto-classified as ${getSemanticType(field.name)}`,
             tags: isPII ? ['auto-detected', 'pii'] : ['auto-detected'],
-            exampleValues: sampleValues.slice(0, 5),
-            createdBy: 'system',
-            updatedBy: 'system'
+            exampleValues: sampleValues.slice(0, 5)
           };
           
           // Save the annotation
-          const savedAnnotation = await FieldAnnotationService.createOrUpdate(annotation);
+          const savedAnnotation = await FieldAnnotationService.createOrUpdate(annotation, getRequestActor(request));
           detectedAnnotations.push(savedAnnotation);
         }
       }
@@ -1,7 +1,7 @@
 // CRITICAL: Import TypeORM initialization first
 import '@/lib/init-typeorm';
 import { NextRequest } from 'next/server';
-import { FieldAnnotationService } from '@/services/fieldAnnotationService';
+import { FieldAnnotationService, FieldRelationshipData, parseFieldRelationshipData } from '@/services/fieldAnnotationService';
 import { apiHandler, withValidation } from '@/utils/api-handler';
 import { successResponse, errorResponse } from '@/utils/api-response';
 
@@ -29,21 +29,11 @@ export const GET = apiHandler(
 );
 
 export const POST = withValidation(
-  async (request: NextRequest, body: Record<string, unknown>) => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const relationship = await FieldAnnotationService.createRelationship(body as any);
+  async (request: NextRequest, body: FieldRelationshipData) => {
+    const relationship = await FieldAnnotationService.createRelationship(body);
     return successResponse(relationship, 'Field relationship created successfully', 201);
   },
-  (body: unknown): Record<string, unknown> | null => {
-    if (!body || typeof body !== 'object') return null;
-    const obj = body as Record<string, unknown>;
-    
-    if (!obj.sourceFieldId || !obj.targetFieldId || !obj.relationshipType) {
-      return null;
-    }
-    
-    return obj;
-  },
+  parseFieldRelationshipData,
   'Field relationship must include sourceFieldId, targetFieldId, and relationshipType'
 );
 
@@ -1,9 +1,10 @@
 // CRITICAL: Import TypeORM initialization first
 import '@/lib/init-typeorm';
 import { NextRequest } from 'next/server';
-import { FieldAnnotationService } from '@/services/fieldAnnotationService';
+import { FieldAnnotationData, FieldAnnotationService, parseFieldAnnotationData } from '@/services/fieldAnnotationService';
 import { apiHandler, withValidation } from '@/utils/api-handler';
 import { successResponse, errorResponse } from '@/utils/api-response';
+import { getRequestActor } from '@/utils/session';
 
 // Configure route segment
 export const runtime = 'nodejs';
@@ -36,42 +37,30 @@ export const GET = apiHandler(
 );
 
 export const POST = withValidation(
-  async (request: NextRequest, body: Record<string, unknown> | Array<Record<string, unknown>>) => {
+  async (request: NextRequest, body: FieldAnnotationData | FieldAnnotationData[]) => {
     // Support both single and bulk create/update
     if (Array.isArray(body)) {
       // Bulk create/update
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const annotations = await FieldAnnotationService.bulkCreateOrUpdate(body as any);
+      const annotations = await FieldAnnotationService.bulkCreateOrUpdate(body, getRequestActor(request));
       return successResponse(annotations, 'Field annotations created/updated successfully', 201);
     } else {
       // Single create/update
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const annotation = await FieldAnnotationService.createOrUpdate(body as any);
+      const annotation = await FieldAnnotationService.createOrUpdate(body, getRequestActor(request));
       return successResponse(annotation, 'Field annotation created/updated successfully', 201);
     }
   },
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  (body: unknown): any => {
+  (body: unknown): FieldAnnotationData | FieldAnnotationData[] | null => {
     if (!body) return null;
     
     // Handle both single and array inputs
     if (Array.isArray(body)) {
       // Validate each item in array
-      for (const item of body) {
-        if (!item || typeof item !== 'object') return null;
-        const obj = item as Record<string, unknown>;
-        if (!obj.dataSourceId || !obj.fieldPath || !obj.fieldName) return null;
-      }
-      return body as Record<string, unknown>[];
-    } else {
-      // Validate single object
-      if (typeof body !== 'object') return null;
-      const obj = body as Record<string, unknown>;
-      if (!obj.dataSourceId || !obj.fieldPath || !obj.fieldName) return null;
-      return obj;
+      const annotations = body.map(parseFieldAnnotationData);
+      return annotations.every(annotation => annotation !== null) ? annotations as FieldAnnotationData[] : null;
     }
+    return parseFieldAnnotationData(body);
   },
-  'Field annotation must include dataSourceId, fieldPath, and fieldName'
+  'Field annotation must include dataSourceId, fieldPath, fieldName and a valid classification marking if given'
 );
 
 export const DELETE = apiHandler(
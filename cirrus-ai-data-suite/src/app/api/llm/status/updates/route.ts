@@ -1,5 +1,5 @@
 import { NextRequest } from 'next/server';
-import { llmService } from '@/services/llmService';
+import { LLMGateway } from '@/services/llmGateway';
 import { createSSEResponse } from '@/services/sseService';
 
 export const dynamic = 'force-dynamic';
@@ -7,37 +7,7 @@ export const dynamic = 'force-dynamic';
 export async function GET(_request: NextRequest) {
   return createSSEResponse(async (send) => {
     // Function to get LLM status
-    const getLLMStatus = () => {
-      // Access the private config property
-      const service = llmService as unknown as { config: { provider: string; apiKey?: string; model?: string } };
-      const config = service.config;
-      
-      // Check if LLM is properly configured
-      const isConfigured = config.provider !== 'none' && !!config.apiKey;
-      
-      // Get provider display name
-      const providerNames: Record<string, string> = {
-        'anthropic': 'Anthropic Claude',
-        'openai': 'OpenAI GPT',
-        'vertex': 'Google Vertex AI',
-        'none': 'Not Configured'
-      };
-      
-      const providerName = providerNames[config.provider] || config.provider;
-      const modelInfo = config.model || 'Default';
-      
-      return {
-        configured: isConfigured,
-        provider: config.provider,
-        providerName,
-        model: modelInfo,
-        features: {
-          datasetEnhancement: isConfigured,
-          naturalLanguageAnalysis: isConfigured,
-          codeGeneration: isConfigured
-        }
-      };
-    };
+    const getLLMStatus = () => LLMGateway.getStatus();
 
     // Send initial status
     try {
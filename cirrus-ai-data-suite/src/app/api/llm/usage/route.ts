@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LLMGateway } from '@/services/llmGateway';
+import { requirePermission } from '@/utils/authorization';
+
+// GET /api/llm/usage - Token and cost totals per LLM feature since the server started
+export async function GET() {
+  const features = LLMGateway.getUsage();
+  return NextResponse.json({
+    features,
+    totals: {
+      requests: features.reduce((sum, usage) => sum + usage.requests, 0),
+      cacheHits: features.reduce((sum, usage) => sum + usage.cacheHits, 0),
+      totalTokens: features.reduce((sum, usage) => sum + usage.totalTokens, 0),
+      estimatedCost: features.reduce((sum, usage) => sum + usage.estimatedCost, 0)
+    },
+    cacheEntries: LLMGateway.getCacheSize(),
+    tasks: LLMGateway.getFeatureConfig()
+  });
+}
+
+// DELETE /api/llm/usage - Reset usage counters and clear the response cache
+export async function DELETE(request: NextRequest) {
+  const denied = await requirePermission(request, 'users:manage');
+  if (denied) return denied;
+
+  LLMGateway.resetUsage();
+  LLMGateway.clearCache();
+  return NextResponse.json({ success: true });
+}
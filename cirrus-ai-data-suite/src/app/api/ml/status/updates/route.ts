@@ -13,7 +13,9 @@ export async function GET(_request: NextRequest) {
         configured: status.configured,
         provider: status.provider,
         hasApiKey: status.hasApiKey,
-        message: status.message
+        message: status.message,
+        model: status.model,
+        entityTypes: status.entityTypes
       };
     };
 
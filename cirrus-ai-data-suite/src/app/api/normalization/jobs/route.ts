@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { withErrorHandler } from '@/utils/api-handler';
 import { successResponse, errorResponse } from '@/utils/api-response';
+import { getRequestActor } from '@/utils/session';
 
 /**
  * GET /api/normalization/jobs
@@ -124,7 +125,7 @@ export const POST = withErrorHandler(async (request: NextRequest) => {
       operationType: 'normalization' as const,
       templatesApplied: body.selectedTemplates || [],
       createdAt: new Date().toISOString(),
-      createdBy: body.createdBy || 'user'
+      createdBy: getRequestActor(request, 'user')
     };
     
     console.log('Normalization Jobs API: Created mock job:', mockJob.id);
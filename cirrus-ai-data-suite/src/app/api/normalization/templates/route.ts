@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { withErrorHandler } from '@/utils/api-handler';
 import { successResponse, errorResponse } from '@/utils/api-response';
+import { getRequestActor } from '@/utils/session';
 
 // Type definition for mock templates
 interface MockTemplate {
@@ -100,7 +101,7 @@ export const POST = withErrorHandler(async (request: NextRequest) => {
       isSystemTemplate: false,
       templateType: 'normalization' as const,
       createdAt: new Date().toISOString(),
-      createdBy: body.createdBy || 'user'
+      createdBy: getRequestActor(request, 'user')
     };
     
     console.log('Normalization Templates API: Created mock template:', mockTemplate.id);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PatternService } from '@/services/patternService';
+import { requirePermission } from '@/utils/authorization';
 
 export async function GET(
   request: NextRequest,
@@ -23,6 +24,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const denied = await requirePermission(request, 'patterns:write');
+    if (denied) return denied;
+
     const { id } = await params;
     const body = await request.json();
     const pattern = await PatternService.updatePattern(id, body);
@@ -41,6 +45,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const denied = await requirePermission(request, 'patterns:write');
+    if (denied) return denied;
+
     const { id } = await params;
     const success = await PatternService.deletePattern(id);
     if (!success) {
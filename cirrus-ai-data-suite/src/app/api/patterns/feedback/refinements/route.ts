@@ -5,6 +5,7 @@ import { PatternLearningService } from '@/services/patternLearningService';
 import { PatternEntity } from '@/entities/PatternEntity';
 import { PatternFeedback } from '@/entities/PatternFeedback';
 import { logger } from '@/utils/logger';
+import { requirePermission } from '@/utils/authorization';
 
 export async function GET(request: NextRequest) {
   try {
@@ -84,6 +85,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const denied = await requirePermission(request, 'patterns:write');
+    if (denied) return denied;
+
     const AppDataSource = await getDatabase();
     
     const { patternId, refinements } = await request.json();
@@ -2,6 +2,7 @@
 import { PatternService } from '@/services/patternService';
 import { apiHandler, withValidation } from '@/utils/api-handler';
 import { successResponse } from '@/utils/api-response';
+import { requirePermission } from '@/utils/authorization';
 
 export const GET = apiHandler(
   async () => {
@@ -13,6 +14,9 @@ export const GET = apiHandler(
 
 export const POST = withValidation(
   async (request, body) => {
+    const denied = await requirePermission(request, 'patterns:write');
+    if (denied) return denied;
+
     const pattern = await PatternService.createPattern(body as Parameters<typeof PatternService.createPattern>[0]);
     return successResponse(pattern, 'Pattern created successfully', 201);
   },
@@ -1,94 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDatabase } from '@/database/connection';
-import { PipelineEntity } from '@/entities/PipelineEntity';
-import { Pipeline, PipelineExecution } from '@/types/pipeline';
-import { registerExecution } from '@/services/pipelineExecutionService';
+import { getActiveExecution } from '@/services/pipelineExecutionService';
+import { PipelineExecutionEngine } from '@/services/pipelineExecutionEngine';
 
+// POST /api/pipelines/[id]/execute - Start a run of the saved pipeline
 export async function POST(
-  request: NextRequest,
+  _request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
   const params = await context.params;
-  
+
   try {
-    const pipeline: Pipeline = await request.json();
-    
-    const database = await getDatabase();
-    const pipelineRepository = database.getRepository(PipelineEntity);
-    
-    // Update pipeline status to running
-    await pipelineRepository.update(
-      { id: params.id },
-      { status: 'active', updatedAt: new Date() }
-    );
+    // Only saved definitions run; a definition in the request body is never trusted
+    const pipeline = await PipelineExecutionEngine.loadPipeline(params.id);
 
-    // Create mock execution for demo purposes
-    // In a real implementation, this would trigger actual pipeline execution
-    const execution: PipelineExecution = {
-      id: `exec_${Date.now()}`,
-      pipelineId: pipeline.id,
-      status: 'running',
-      startedAt: new Date(),
-      triggeredBy: 'manual',
-      logs: [
-        {
-          timestamp: new Date(),
-          level: 'info',
-          message: 'Pipeline execution started',
-          details: { nodeCount: pipeline.nodes.length }
-        },
-        {
-          timestamp: new Date(),
-          level: 'info',
-          message: 'Validating pipeline structure',
-          details: {}
-        }
-      ],
-      metrics: {
-        totalNodes: pipeline.nodes.length,
-        completedNodes: 0,
-        failedNodes: 0,
-        duration: 0,
-        dataProcessed: 0,
-        recordsProcessed: 0
-      }
-    };
+    if (!pipeline) {
+      return NextResponse.json(
+        { error: 'Pipeline not found' },
+        { status: 404 }
+      );
+    }
 
-    // Register execution for SSE updates
-    registerExecution(pipeline.id, execution);
+    if (pipeline.nodes.length === 0) {
+      return NextResponse.json(
+        { error: 'Pipeline has no nodes to execute' },
+        { status: 400 }
+      );
+    }
 
-    // Simulate some processing time
-    setTimeout(async () => {
-      try {
-        // Update to completed status after 5 seconds (demo)
-        await pipelineRepository.update(
-          { id: params.id },
-          { status: 'completed', updatedAt: new Date() }
-        );
-      } catch (error) {
-        console.error('Failed to update pipeline status after execution:', error);
-      }
-    }, 5000);
+    if (PipelineExecutionEngine.isRunning(params.id)) {
+      return NextResponse.json(
+        { error: 'Pipeline is already running', executionId: getActiveExecution(params.id)?.id },
+        { status: 409 }
+      );
+    }
 
-    return NextResponse.json(execution);
-  } catch (error) {
-    console.error('Failed to execute pipeline:', error);
-    
-    // Update pipeline status to error
     try {
-      const database = await getDatabase();
-      const pipelineRepository = database.getRepository(PipelineEntity);
-      await pipelineRepository.update(
-        { id: params.id },
-        { status: 'error', updatedAt: new Date() }
+      PipelineExecutionEngine.topologicalSort(pipeline.nodes, pipeline.edges || []);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid pipeline graph' },
+        { status: 400 }
       );
-    } catch (updateError) {
-      console.error('Failed to update pipeline status to error:', updateError);
     }
 
+    // Execution continues in the background; progress is streamed by execution/updates
+    const execution = PipelineExecutionEngine.start(
+      { ...pipeline, edges: pipeline.edges || [] },
+      'manual',
+      undefined,
+      pipeline.version
+    );
+
+    return NextResponse.json(execution);
+  } catch (error) {
+    console.error('Failed to execute pipeline:', error);
     return NextResponse.json(
       { error: 'Failed to execute pipeline' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -3,7 +3,7 @@ import { getDatabase } from '@/database/connection';
 import { PipelineEntity } from '@/entities/PipelineEntity';
 import { createSSEResponse } from '@/services/sseService';
 import { ExecutionLog } from '@/types/pipeline';
-import { getActiveExecution, removeExecution } from '@/services/pipelineExecutionService';
+import { getActiveExecution } from '@/services/pipelineExecutionService';
 
 export const dynamic = 'force-dynamic';
 
@@ -60,76 +60,76 @@ export async function GET(
       });
     }
 
-    // Simulate pipeline execution updates
-    let nodeIndex = 0;
-    const totalNodes = 5; // Mock number of nodes
-    
-    const interval = setInterval(async () => {
+    // Stream progress of the engine's active execution
+    let executionId: string | undefined;
+    let sentLogCount = 0;
+    let finished = false;
+
+    const interval = setInterval(() => {
       try {
-        // Check if there's an active execution
         const execution = getActiveExecution(pipelineId);
-        if (!execution || execution.status !== 'running') {
+        if (!execution) {
           return; // No active execution
         }
 
-        // Simulate node processing
-        if (nodeIndex < totalNodes) {
-          nodeIndex++;
-          
-          // Update execution progress
-          execution.metrics.completedNodes = nodeIndex;
-          execution.metrics.duration = Date.now() - execution.startedAt.getTime();
-          execution.metrics.dataProcessed = nodeIndex * 1024 * 1024; // Mock data size
-          execution.metrics.recordsProcessed = nodeIndex * 1000; // Mock record count
-          
-          // Add log entry
-          const logEntry: ExecutionLog = {
-            timestamp: new Date(),
-            level: 'info',
-            message: `Processing node ${nodeIndex} of ${totalNodes}`,
-            details: { 
-              nodeId: `node_${nodeIndex}`,
-              progress: (nodeIndex / totalNodes) * 100
-            }
-          };
-          execution.logs.push(logEntry);
+        // A new run started since the last poll
+        if (execution.id !== executionId) {
+          executionId = execution.id;
+          sentLogCount = 0;
+          finished = false;
+        }
+        if (finished) {
+          return;
+        }
+
+        const newLogs: ExecutionLog[] = execution.logs.slice(sentLogCount);
+        sentLogCount = execution.logs.length;
+
+        const { totalNodes, completedNodes, failedNodes } = execution.metrics;
+        const nodeMetrics = Object.values(execution.metrics.nodeMetrics || {});
+        const finishedNodes = nodeMetrics.filter(node => node.status !== 'pending' && node.status !== 'running').length;
+        const currentNode = nodeMetrics.find(node => node.status === 'running');
 
-          // Send progress update
+        if (newLogs.length > 0 || execution.status === 'running') {
           send({
             type: 'execution_progress',
             data: {
               executionId: execution.id,
-              progress: (nodeIndex / totalNodes) * 100,
-              metrics: execution.metrics,
-              currentNode: nodeIndex,
+              progress: totalNodes > 0 ? (finishedNodes / totalNodes) * 100 : 0,
+              metrics: {
+                ...execution.metrics,
+                duration: execution.completedAt
+                  ? execution.metrics.duration
+                  : Date.now() - new Date(execution.startedAt).getTime()
+              },
+              currentNode: currentNode?.nodeId,
+              completedNodes,
+              failedNodes,
               totalNodes,
-              log: logEntry
+              logs: newLogs
             },
             timestamp: new Date().toISOString()
           });
+        }
 
-          // Check if completed
-          if (nodeIndex === totalNodes) {
-            execution.status = 'completed';
-            execution.completedAt = new Date();
-            
-            // Update pipeline status in database
-            const database = await getDatabase();
-            const pipelineRepository = database.getRepository(PipelineEntity);
-            await pipelineRepository.update(
-              { id: pipelineId },
-              { status: 'completed', updatedAt: new Date() }
-            );
-
-            send({
-              type: 'execution_completed',
-              data: execution,
-              timestamp: new Date().toISOString()
-            });
-
-            // Remove from active executions
-            removeExecution(pipelineId);
-          }
+        if (execution.status === 'completed') {
+          finished = true;
+          send({
+            type: 'execution_completed',
+            data: execution,
+            timestamp: new Date().toISOString()
+          });
+        } else if (execution.status === 'failed' || execution.status === 'cancelled') {
+          finished = true;
+          send({
+            type: 'execution_error',
+            data: {
+              executionId: execution.id,
+              error: execution.error || 'Pipeline execution failed',
+              execution
+            },
+            timestamp: new Date().toISOString()
+          });
         }
       } catch (error) {
         console.error('Error during pipeline execution update:', error);
@@ -142,7 +142,7 @@ export async function GET(
           timestamp: new Date().toISOString()
         });
       }
-    }, 2000); // Update every 2 seconds
+    }, 1000); // Poll every second
 
     // Heartbeat to keep connection alive
     const heartbeat = setInterval(() => {
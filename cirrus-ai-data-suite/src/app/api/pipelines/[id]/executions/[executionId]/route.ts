@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveExecution } from '@/services/pipelineExecutionService';
+import { PipelineExecutionHistoryService } from '@/services/pipelineExecutionHistoryService';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; executionId: string }> }
+) {
+  try {
+    const params = await context.params;
+
+    // Prefer the live state of a run that is still in memory
+    const activeExecution = getActiveExecution(params.id);
+    if (activeExecution?.id === params.executionId) {
+      return NextResponse.json(activeExecution);
+    }
+
+    const execution = await PipelineExecutionHistoryService.getExecution(params.id, params.executionId);
+    if (!execution) {
+      return NextResponse.json(
+        { error: 'Execution not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(execution);
+  } catch (error) {
+    console.error('Failed to fetch pipeline execution:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pipeline execution' },
+      { status: 500 }
+    );
+  }
+}
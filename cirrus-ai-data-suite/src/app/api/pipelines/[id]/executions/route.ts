@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ExecutionStatus } from '@/types/pipeline';
+import { PipelineExecutionHistoryService } from '@/services/pipelineExecutionHistoryService';
+
+const EXECUTION_STATUSES: ExecutionStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const pageSize = parseInt(searchParams.get('pageSize') || '20', 10);
+    const status = searchParams.get('status') as ExecutionStatus | null;
+
+    if (status && !EXECUTION_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status filter: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await PipelineExecutionHistoryService.listExecutions(params.id, {
+      page: isNaN(page) ? 1 : page,
+      pageSize: isNaN(pageSize) ? 20 : pageSize,
+      status: status || undefined
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Failed to fetch pipeline executions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pipeline executions' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/database/connection';
 import { PipelineEntity } from '@/entities/PipelineEntity';
 import { Pipeline } from '@/types/pipeline';
+import { PipelineExecutionHistoryService } from '@/services/pipelineExecutionHistoryService';
+import { PipelineVersionService } from '@/services/pipelineVersionService';
 
 export async function GET(
   request: NextRequest,
@@ -67,6 +69,9 @@ export async function DELETE(
       );
     }
 
+    await PipelineExecutionHistoryService.deleteExecutionsForPipeline(params.id);
+    await PipelineVersionService.deleteVersionsForPipeline(params.id);
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Failed to delete pipeline:', error);
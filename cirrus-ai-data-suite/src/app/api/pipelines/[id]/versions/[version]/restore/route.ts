@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PipelineExecutionEngine } from '@/services/pipelineExecutionEngine';
+import { PipelineVersionService } from '@/services/pipelineVersionService';
+import { getRequestActor } from '@/utils/session';
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const params = await context.params;
+    const versionNumber = parseInt(params.version, 10);
+    if (isNaN(versionNumber)) {
+      return NextResponse.json(
+        { error: `Invalid version: ${params.version}` },
+        { status: 400 }
+      );
+    }
+
+    // Swapping the definition under a running pipeline would make its run unattributable
+    if (PipelineExecutionEngine.isRunning(params.id)) {
+      return NextResponse.json(
+        { error: 'Cannot restore a version while the pipeline is running' },
+        { status: 409 }
+      );
+    }
+
+    const pipeline = await PipelineVersionService.restoreVersion(params.id, versionNumber, getRequestActor(request, 'current-user'));
+    if (!pipeline) {
+      return NextResponse.json(
+        { error: 'Pipeline version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(pipeline);
+  } catch (error) {
+    console.error('Failed to restore pipeline version:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore pipeline version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PipelineVersionService } from '@/services/pipelineVersionService';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const params = await context.params;
+    const versionNumber = parseInt(params.version, 10);
+    if (isNaN(versionNumber)) {
+      return NextResponse.json(
+        { error: `Invalid version: ${params.version}` },
+        { status: 400 }
+      );
+    }
+
+    const version = await PipelineVersionService.getVersion(params.id, versionNumber);
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Pipeline version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(version);
+  } catch (error) {
+    console.error('Failed to fetch pipeline version:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pipeline version' },
+      { status: 500 }
+    );
+  }
+}
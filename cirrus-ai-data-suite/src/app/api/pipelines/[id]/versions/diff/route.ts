@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PipelineVersionService } from '@/services/pipelineVersionService';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const { searchParams } = new URL(request.url);
+    const from = parseInt(searchParams.get('from') || '', 10);
+    const to = parseInt(searchParams.get('to') || '', 10);
+
+    if (isNaN(from) || isNaN(to)) {
+      return NextResponse.json(
+        { error: 'Both from and to versions are required' },
+        { status: 400 }
+      );
+    }
+
+    const diff = await PipelineVersionService.diffVersions(params.id, from, to);
+    if (!diff) {
+      return NextResponse.json(
+        { error: 'Pipeline version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error('Failed to diff pipeline versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to diff pipeline versions' },
+      { status: 500 }
+    );
+  }
+}
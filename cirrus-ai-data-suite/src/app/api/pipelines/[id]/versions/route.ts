@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PipelineVersionService } from '@/services/pipelineVersionService';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params;
+    const versions = await PipelineVersionService.listVersions(params.id);
+    return NextResponse.json(versions);
+  } catch (error) {
+    console.error('Failed to fetch pipeline versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pipeline versions' },
+      { status: 500 }
+    );
+  }
+}
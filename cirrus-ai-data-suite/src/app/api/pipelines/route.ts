@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/database/connection';
 import { PipelineEntity } from '@/entities/PipelineEntity';
 import { Pipeline } from '@/types/pipeline';
+import { PipelineTriggerService } from '@/services/pipelineTriggerService';
+import { PipelineVersionService } from '@/services/pipelineVersionService';
+import { CronExpression } from '@/utils/cronExpression';
+import { getRequestActor } from '@/utils/session';
 
 export async function GET() {
   try {
@@ -42,6 +46,7 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const pipelineData: Pipeline = await request.json();
+    const actor = getRequestActor(request, 'current-user');
     
     console.log('Received pipeline data:', pipelineData);
     
@@ -56,6 +61,22 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Assign webhook tokens and validate trigger configuration
+    try {
+      pipelineData.triggers = PipelineTriggerService.prepareTriggers(pipelineData.triggers || []);
+      if (pipelineData.schedule?.enabled) {
+        CronExpression.parse(pipelineData.schedule.cron);
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { 
+          error: 'Invalid trigger configuration',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        },
+        { status: 400 }
+      );
+    }
+    
     const database = await getDatabase();
     console.log('Database connected, entity metadata count:', database.entityMetadatas.length);
     
@@ -92,7 +113,7 @@ export async function POST(request: NextRequest) {
         status: pipelineData.status || 'draft',
         createdAt: new Date(),
         updatedAt: new Date(),
-        createdBy: pipelineData.createdBy || 'current-user',
+        createdBy: actor,
         tags: JSON.stringify(pipelineData.tags || []),
         version: 1
       });
@@ -116,6 +137,9 @@ export async function POST(request: NextRequest) {
       version: savedEntity.version
     };
 
+    // Every save becomes an immutable version that runs can be pinned to
+    savedPipeline.version = (await PipelineVersionService.recordVersion(savedPipeline, actor)).version;
+
     return NextResponse.json(savedPipeline);
   } catch (error) {
     console.error('Failed to save pipeline:', error);
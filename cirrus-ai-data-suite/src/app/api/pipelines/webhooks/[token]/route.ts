@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PipelineTriggerService } from '@/services/pipelineTriggerService';
+import { logger } from '@/utils/logger';
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+// Payloads up to this size are recorded with the execution
+const MAX_RECORDED_PAYLOAD_LENGTH = 4096;
+
+// POST /api/pipelines/webhooks/[token] - Start a pipeline run from a webhook trigger
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+    
+    const match = await PipelineTriggerService.findWebhookTrigger(token);
+    if (!match) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+    
+    const { pipeline, trigger } = match;
+    
+    // Optional shared secret, like the API key check of inbound endpoints
+    if (!PipelineTriggerService.verifyWebhookSecret(trigger, request.headers.get('x-webhook-secret'))) {
+      return NextResponse.json(
+        { error: 'Invalid webhook secret' },
+        { status: 401 }
+      );
+    }
+    
+    if (pipeline.status === 'draft' || pipeline.status === 'paused') {
+      return NextResponse.json(
+        { error: `Pipeline is ${pipeline.status}` },
+        { status: 403 }
+      );
+    }
+    
+    const body = await request.text();
+    const result = PipelineTriggerService.fireTrigger(pipeline, trigger.id, 'webhook', {
+      contentType: request.headers.get('content-type') || undefined,
+      ...(body.length <= MAX_RECORDED_PAYLOAD_LENGTH ? { payload: body } : { payloadSize: body.length })
+    });
+    
+    if (result.status !== 'fired') {
+      return NextResponse.json(
+        { error: result.reason },
+        { status: 409 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        success: true,
+        pipelineId: pipeline.id,
+        executionId: result.executionId
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    logger.error('Pipeline webhook failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to trigger pipeline' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { withErrorHandler } from '@/utils/api-handler';
 import { successResponse, errorResponse } from '@/utils/api-response';
+import { getRequestActor } from '@/utils/session';
 
 // Type definition for mock rules
 interface MockRule {
@@ -72,7 +73,8 @@ export const PUT = withErrorHandler(async (request: NextRequest, context?: unkno
     const updatedRule = {
       ...allRules[ruleIndex],
       ...body,
-      updatedAt: new Date().toISOString()
+      updatedAt: new Date().toISOString(),
+      updatedBy: getRequestActor(request)
     };
     
     allRules[ruleIndex] = updatedRule;
@@ -3,6 +3,7 @@ import { NextRequest } from 'next/server';
 // import { CreateRuleRequest } from '@/types/qualityRules';
 import { withErrorHandler } from '@/utils/api-handler';
 import { successResponse, errorResponse } from '@/utils/api-response';
+import { getRequestActor } from '@/utils/session';
 
 // GET /api/quality-rules - Get all quality rules
 export const GET = withErrorHandler(async (request: NextRequest) => {
@@ -77,7 +78,7 @@ export const POST = withErrorHandler(async (request: NextRequest) => {
       ...ruleData,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
-      createdBy: body.createdBy || 'system',
+      createdBy: getRequestActor(request),
       executionCount: 0,
       violationCount: 0,
       successRate: 0,
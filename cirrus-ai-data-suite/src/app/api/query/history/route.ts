@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/utils/logger';
+import { getRequestUser } from '@/utils/session';
 
-// In-memory storage for query history (in production, this should be stored in database)
+// In-memory storage for query history per user (in production, this should be stored in database)
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const queryHistoryMap = new Map<string, any[]>();
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const userId = 'default-user'; // TODO: Replace with actual user ID when auth is implemented
+    const userId = getRequestUser(request)?.id || 'anonymous';
     const history = queryHistoryMap.get(userId) || [];
 
     return NextResponse.json({ history });
@@ -22,7 +23,7 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
-    const userId = 'default-user'; // TODO: Replace with actual user ID when auth is implemented
+    const userId = getRequestUser(request)?.id || 'anonymous';
     const body = await request.json();
     const { query, queryId, timestamp } = body;
 
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/utils/logger';
+import { getRequestUser } from '@/utils/session';
 
-// In-memory storage for saved queries (in production, this should be stored in database)
+// In-memory storage for saved queries per user (in production, this should be stored in database)
 const savedQueriesMap = new Map<string, Set<string>>();
 
 export async function POST(request: NextRequest) {
   try {
-    const userId = 'default-user'; // TODO: Replace with actual user ID when auth is implemented
+    const userId = getRequestUser(request)?.id || 'anonymous';
     const body = await request.json();
     const { queryId, action } = body;
 
@@ -45,9 +46,9 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const userId = 'default-user'; // TODO: Replace with actual user ID when auth is implemented
+    const userId = getRequestUser(request)?.id || 'anonymous';
     const savedQueries = savedQueriesMap.get(userId) || new Set<string>();
 
     return NextResponse.json({ savedQueries: Array.from(savedQueries) });
@@ -1,15 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { LLMGateway } from '@/services/llmGateway';
 
+// POST /api/redact - Redact text with the LLM configured for the redaction feature
 export async function POST(request: NextRequest) {
   try {
-    if (!process.env.ANTHROPIC_API_KEY) {
+    if (!LLMGateway.isConfigured('redaction')) {
       return NextResponse.json(
-        { error: 'ANTHROPIC_API_KEY environment variable is not set' },
+        { error: 'No LLM provider is configured for redaction' },
         { status: 500 }
       );
     }
@@ -23,24 +20,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const message = await anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 4000,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+    const response = await LLMGateway.complete({
+      feature: 'redaction',
+      prompt,
+      systemPrompt: 'You redact sensitive information from text exactly as instructed.',
+      maxTokens: 4000
     });
 
-    const responseText = message.content[0]?.type === 'text' ? message.content[0].text : '';
-
     return NextResponse.json({
-      redactedText: responseText.trim(),
+      redactedText: response.content.trim(),
     });
   } catch (error) {
-    console.error('Error calling Claude API:', error);
+    console.error('Error calling LLM for redaction:', error);
     
     if (error instanceof Error) {
       return NextResponse.json(
@@ -54,4 +45,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DocumentRedactionService } from '@/services/documentRedactionService';
+import { RedactionJobError } from '@/services/redactionJobService';
+import { getRequestActor } from '@/utils/session';
+
+// POST /api/redaction/documents/[id]/apply - Redact the accepted matches from the document
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const review = await DocumentRedactionService.apply(id, getRequestActor(request));
+    return NextResponse.json(review);
+  } catch (error) {
+    if (error instanceof RedactionJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error redacting document:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to redact document' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DocumentRedactionService } from '@/services/documentRedactionService';
+import { RedactionJobError } from '@/services/redactionJobService';
+
+// GET /api/redaction/documents/[id]/download - Download the redacted document
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const file = await DocumentRedactionService.getRedactedFile(id);
+
+    return new NextResponse(new Uint8Array(file.content), {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName.replace(/"/g, '')}"`,
+        'Content-Length': file.content.length.toString()
+      }
+    });
+  } catch (error) {
+    if (error instanceof RedactionJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error downloading redacted document:', error);
+    return NextResponse.json(
+      { error: 'Failed to download redacted document' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DocumentRedactionService } from '@/services/documentRedactionService';
+import { RedactionJobError } from '@/services/redactionJobService';
+import { getRequestActor } from '@/utils/session';
+import type { MatchDecision } from '@/types/redaction';
+
+// GET /api/redaction/documents/[id] - Get a document redaction with its matches
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const review = await DocumentRedactionService.getReview(id);
+    if (!review) {
+      return NextResponse.json({ error: 'Document redaction not found' }, { status: 404 });
+    }
+    return NextResponse.json(review);
+  } catch (error) {
+    console.error('Error fetching document redaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch document redaction' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/redaction/documents/[id] - Accept or reject matches
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json() as { decisions?: Record<string, MatchDecision>; all?: MatchDecision };
+    const review = await DocumentRedactionService.review(id, body.decisions ?? {}, body.all, getRequestActor(request));
+    return NextResponse.json(review);
+  } catch (error) {
+    if (error instanceof RedactionJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error updating document redaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to update document redaction' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/redaction/documents/[id] - Delete a document redaction and its stored files
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await DocumentRedactionService.deleteReview(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof RedactionJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error deleting document redaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete document redaction' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DocumentRedactionService } from '@/services/documentRedactionService';
+import { RedactionJobError } from '@/services/redactionJobService';
+import { getRequestActor } from '@/utils/session';
+import type { RedactionStyle } from '@/services/patternTestingService';
+
+// GET /api/redaction/documents - List document redactions
+export async function GET() {
+  try {
+    const reviews = await DocumentRedactionService.getAllReviews();
+    return NextResponse.json(reviews);
+  } catch (error) {
+    console.error('Error fetching document redactions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch document redactions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/redaction/documents - Upload a PDF or DOCX and find pattern matches for review
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const patternIds = JSON.parse((formData.get('patternIds') as string) || '[]') as string[];
+    const style = formData.get('style') ? JSON.parse(formData.get('style') as string) as RedactionStyle : undefined;
+
+    if (!file || !Array.isArray(patternIds) || patternIds.length === 0) {
+      return NextResponse.json(
+        { error: 'A file and at least one pattern id are required' },
+        { status: 400 }
+      );
+    }
+
+    const review = await DocumentRedactionService.createReview(
+      { name: file.name, bytes: new Uint8Array(await file.arrayBuffer()) },
+      patternIds,
+      style,
+      getRequestActor(request)
+    );
+    return NextResponse.json(review, { status: 201 });
+  } catch (error) {
+    if (error instanceof RedactionJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating document redaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to process document' },
+      { status: 500 }
+    );
+  }
+}
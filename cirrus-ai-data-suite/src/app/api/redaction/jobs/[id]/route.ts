@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RedactionJobService } from '@/services/redactionJobService';
+
+// GET /api/redaction/jobs/[id] - Get a redaction job with its report
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await RedactionJobService.getJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Redaction job not found' }, { status: 404 });
+    }
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Error fetching redaction job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch redaction job' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/redaction/jobs/[id] - Delete a redaction job; the redacted data source is kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await RedactionJobService.deleteJob(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting redaction job:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete redaction job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RedactionJobError, RedactionJobService } from '@/services/redactionJobService';
+import { requirePermission } from '@/utils/authorization';
+import { getRequestActor } from '@/utils/session';
+import type { CreateRedactionJobRequest } from '@/types/redaction';
+
+// GET /api/redaction/jobs - List bulk redaction jobs
+export async function GET() {
+  try {
+    const jobs = await RedactionJobService.getAllJobs();
+    return NextResponse.json(jobs);
+  } catch (error) {
+    console.error('Error fetching redaction jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch redaction jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/redaction/jobs - Redact a data source with saved patterns into a new data source
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as CreateRedactionJobRequest;
+
+    if (!body.dataSourceId || !Array.isArray(body.patternIds) || body.patternIds.length === 0) {
+      return NextResponse.json(
+        { error: 'dataSourceId and at least one pattern id are required' },
+        { status: 400 }
+      );
+    }
+
+    const denied = await requirePermission(request, 'data_sources:write', body.dataSourceId);
+    if (denied) {
+      return denied;
+    }
+
+    const job = await RedactionJobService.createJob(body, getRequestActor(request));
+    return NextResponse.json(job, { status: 202 });
+  } catch (error) {
+    if (error instanceof RedactionJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error creating redaction job:', error);
+    return NextResponse.json(
+      { error: 'Failed to create redaction job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { RedactionJobService } from '@/services/redactionJobService';
+import { createSSEResponse } from '@/services/sseService';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/redaction/jobs/updates - Server-Sent Events for redaction job progress
+export async function GET(request: NextRequest) {
+  return createSSEResponse(async (send) => {
+    const sendJobs = async () => {
+      try {
+        const jobs = await RedactionJobService.getAllJobs();
+        send({
+          type: 'redaction_jobs_update',
+          data: jobs,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        console.error('Error sending redaction jobs:', error);
+      }
+    };
+
+    await sendJobs();
+
+    // Poll every second so progress bars move smoothly
+    const interval = setInterval(sendJobs, 1000);
+
+    const heartbeat = setInterval(() => {
+      send({
+        type: 'heartbeat',
+        timestamp: new Date().toISOString()
+      });
+    }, 15000);
+
+    return new Promise((resolve) => {
+      request.signal.addEventListener('abort', () => {
+        clearInterval(interval);
+        clearInterval(heartbeat);
+        resolve();
+      });
+    });
+  });
+}
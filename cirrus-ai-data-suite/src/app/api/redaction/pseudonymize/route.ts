@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PseudonymizationService } from '@/services/pseudonymizationService';
+import type { RedactionStyle } from '@/services/patternTestingService';
+
+interface PseudonymizeRequest {
+  text?: string;
+  matches?: Array<{ startIndex: number; endIndex: number; value: string }>;
+  values?: string[];
+  style?: RedactionStyle;
+}
+
+// POST /api/redaction/pseudonymize - Replace matched spans or values with keyed, deterministic pseudonyms
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as PseudonymizeRequest;
+    const style = body.style;
+
+    if (!style || !PseudonymizationService.isPseudonymStyle(style)) {
+      return NextResponse.json({ error: 'style.type must be pseudonym or fpe' }, { status: 400 });
+    }
+    if (!PseudonymizationService.isConfigured()) {
+      return NextResponse.json(
+        { error: 'Pseudonymization key not configured. Set PSEUDONYMIZATION_KEY.' },
+        { status: 503 }
+      );
+    }
+
+    if (Array.isArray(body.values)) {
+      const values = body.values.map(value => PseudonymizationService.redact(
+        String(value),
+        [{ startIndex: 0, endIndex: String(value).length, value: String(value) }],
+        style
+      ));
+      await PseudonymizationService.flushVault();
+      return NextResponse.json({ values });
+    }
+
+    if (typeof body.text !== 'string' || !Array.isArray(body.matches)) {
+      return NextResponse.json({ error: 'Provide values, or text with matches' }, { status: 400 });
+    }
+
+    const text = body.text;
+    const invalid = body.matches.some(match =>
+      !Number.isInteger(match.startIndex) || !Number.isInteger(match.endIndex) ||
+      match.startIndex < 0 || match.endIndex > text.length || match.startIndex > match.endIndex
+    );
+    if (invalid) {
+      return NextResponse.json({ error: 'Matches must lie within the text' }, { status: 400 });
+    }
+
+    // Pseudonymize what is actually in the text rather than the reported value
+    const matches = body.matches.map(match => ({ ...match, value: text.substring(match.startIndex, match.endIndex) }));
+    const redactedText = PseudonymizationService.redact(text, matches, style);
+    await PseudonymizationService.flushVault();
+    return NextResponse.json({ redactedText });
+  } catch (error) {
+    console.error('Error pseudonymizing values:', error);
+    return NextResponse.json({ error: 'Failed to pseudonymize values' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PseudonymizationService, PseudonymizationMethod } from '@/services/pseudonymizationService';
+import { requirePermission } from '@/utils/authorization';
+import { getRequestActor } from '@/utils/session';
+import { logger } from '@/utils/logger';
+
+const MAX_VALUES = 1000;
+
+// POST /api/redaction/reidentify - Reverse pseudonyms or format-preserving ciphertext with the pseudonymization key
+export async function POST(request: NextRequest) {
+  const denied = await requirePermission(request, 'pseudonyms:reidentify');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json() as { values?: unknown; method?: unknown; key?: unknown };
+    const method = body.method as PseudonymizationMethod;
+
+    if (!Array.isArray(body.values) || body.values.length === 0 || body.values.some(value => typeof value !== 'string')) {
+      return NextResponse.json({ error: 'values must be a non-empty array of strings' }, { status: 400 });
+    }
+    if (body.values.length > MAX_VALUES) {
+      return NextResponse.json({ error: `At most ${MAX_VALUES} values can be re-identified per request` }, { status: 400 });
+    }
+    if (method !== 'pseudonym' && method !== 'fpe') {
+      return NextResponse.json({ error: 'method must be pseudonym or fpe' }, { status: 400 });
+    }
+    if (typeof body.key !== 'string' || !body.key) {
+      return NextResponse.json({ error: 'key is required' }, { status: 400 });
+    }
+
+    let results;
+    try {
+      results = await PseudonymizationService.reidentify(body.values as string[], method, body.key);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Invalid pseudonymization key') {
+        logger.warn(`Re-identification with an invalid key by ${getRequestActor(request)}`);
+        return NextResponse.json({ error: error.message }, { status: 403 });
+      }
+      throw error;
+    }
+
+    logger.info(`Re-identified ${results.filter(result => result.original !== null).length} of ${results.length} values (${method}) for ${getRequestActor(request)}`);
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error re-identifying values:', error);
+    return NextResponse.json({ error: 'Failed to re-identify values' }, { status: 500 });
+  }
+}
@@ -1,8 +1,61 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { RemediationJobService } from '@/services/remediationJobService';
+import { AuthService } from '@/services/authService';
+import { PermissionService } from '@/services/permissionService';
+import { requirePermission } from '@/utils/authorization';
+
+const remediationJobService = new RemediationJobService();
 
 export async function GET() {
   return NextResponse.json(
     { error: 'Not implemented' },
     { status: 501 }
   );
-}
\ No newline at end of file
+}
+
+// PATCH /api/remediation/[id] - Assign a remediation job to a reviewer
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const assignedTo: unknown = body.assignedTo;
+
+    if (assignedTo !== null && typeof assignedTo !== 'string') {
+      return NextResponse.json(
+        { error: 'assignedTo must be a username or null' },
+        { status: 400 }
+      );
+    }
+
+    const job = await remediationJobService.getJobById(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Remediation job not found' }, { status: 404 });
+    }
+
+    const denied = await requirePermission(request, 'remediation:create', job.dataSourceId);
+    if (denied) return denied;
+
+    // Only users who could approve the job's actions can be assigned to review it
+    if (assignedTo) {
+      const assignee = await AuthService.getUserByUsername(assignedTo);
+      if (!assignee || !(await PermissionService.userCan(assignee, 'remediation:approve', job.dataSourceId))) {
+        return NextResponse.json(
+          { error: `${assignedTo} cannot approve remediation actions on this data source` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updated = await remediationJobService.assignJob(id, assignedTo || null);
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error assigning remediation job:', error);
+    return NextResponse.json(
+      { error: 'Failed to assign remediation job' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest } from 'next/server';
 import { RemediationJobService } from '@/services/remediationJobService';
 import { withErrorHandler } from '@/utils/api-handler';
 import { successResponse, errorResponse } from '@/utils/api-response';
+import { getRequestActor } from '@/utils/session';
+import { requireRemediationReviewer } from '@/utils/authorization';
 
 const remediationJobService = new RemediationJobService();
 
@@ -17,8 +19,15 @@ export const POST = withErrorHandler(async (request: NextRequest, context?: unkn
   const { params } = context as RouteParams;
   const { id } = await params;
   
+  const job = (await remediationJobService.getJobsForActions([id])).get(id);
+  if (!job) {
+    return errorResponse(new Error('Remediation action not found'), 'Remediation action not found', 404);
+  }
+  const denied = await requireRemediationReviewer(request, job);
+  if (denied) return denied;
+
   try {
-    const action = await remediationJobService.applyAction(id);
+    const action = await remediationJobService.applyAction(id, getRequestActor(request));
     
     if (!action) {
       return errorResponse(new Error('Remediation action not found'), 'Remediation action not found', 404);
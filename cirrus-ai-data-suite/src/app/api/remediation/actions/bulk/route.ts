@@ -1,8 +1,58 @@
-import { NextResponse } from 'next/server';
-
-export async function GET() {
-  return NextResponse.json(
-    { error: 'Not implemented' },
-    { status: 501 }
-  );
-}
\ No newline at end of file
+import { NextRequest } from 'next/server';
+import { RemediationJobService } from '@/services/remediationJobService';
+import { RemediationActionService } from '@/services/remediationActionService';
+import { withErrorHandler } from '@/utils/api-handler';
+import { successResponse, errorResponse } from '@/utils/api-response';
+import { getRequestActor } from '@/utils/session';
+import { requireRemediationReviewer } from '@/utils/authorization';
+
+const remediationJobService = new RemediationJobService();
+const remediationActionService = new RemediationActionService();
+
+/**
+ * POST /api/remediation/actions/bulk
+ * Apply or reject several remediation actions at once
+ */
+export const POST = withErrorHandler(async (request: NextRequest) => {
+  const body = await request.json();
+  const { actionIds, operation, reason } = body as {
+    actionIds?: unknown;
+    operation?: string;
+    reason?: string;
+  };
+
+  if (!Array.isArray(actionIds) || actionIds.length === 0 || !actionIds.every(id => typeof id === 'string')) {
+    return errorResponse('Invalid request', 'actionIds must be a non-empty array of action IDs', 400);
+  }
+  if (operation !== 'apply' && operation !== 'reject') {
+    return errorResponse('Invalid request', 'operation must be "apply" or "reject"', 400);
+  }
+
+  // Every job touched by the batch must be reviewable by the caller
+  const jobs = await remediationJobService.getJobsForActions(actionIds);
+  const checkedJobs = new Set<string>();
+  for (const job of jobs.values()) {
+    if (checkedJobs.has(job.id)) continue;
+    checkedJobs.add(job.id);
+
+    const denied = await requireRemediationReviewer(request, job);
+    if (denied) return denied;
+  }
+
+  const bulkRequest = {
+    actionIds,
+    performedBy: getRequestActor(request),
+    reason
+  };
+
+  try {
+    const result = operation === 'apply'
+      ? await remediationActionService.bulkApplyActions(bulkRequest)
+      : await remediationActionService.bulkRejectActions(bulkRequest);
+
+    return successResponse(result, `Bulk ${operation} completed`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : `Failed to ${operation} remediation actions`;
+    return errorResponse(error, message, 400);
+  }
+}, 'Failed to process bulk remediation actions');
@@ -1,6 +1,8 @@
 import { NextRequest } from 'next/server';
 import { withErrorHandler } from '@/utils/api-handler';
 import { successResponse, errorResponse } from '@/utils/api-response';
+import { getRequestActor } from '@/utils/session';
+import { requirePermission } from '@/utils/authorization';
 import { RemediationJobService } from '@/services/remediationJobService';
 import { RemediationJobStatus } from '@/types/remediation';
 
@@ -45,7 +47,10 @@ export const POST = withErrorHandler(async (request: NextRequest) => {
       return errorResponse('Missing required fields', 'Invalid request', 400);
     }
 
-    const job = await jobService.createJob(body);
+    const denied = await requirePermission(request, 'remediation:create', body.dataSourceId);
+    if (denied) return denied;
+
+    const job = await jobService.createJob(body, getRequestActor(request));
     
     return successResponse(job, 'Remediation job created successfully');
   } catch (error) {
@@ -64,7 +64,14 @@ export async function POST(
 
       // Parse based on output format
       if (dataset.outputFormat === 'json') {
-        parsedData = JSON.parse(fileContent);
+        const parsed = JSON.parse(fileContent);
+        // Marked files wrap the records as { classification, records }
+        if (Array.isArray(parsed)) {
+          parsedData = parsed;
+        } else {
+          parsedData = parsed.records;
+          fileContent = JSON.stringify(parsedData, null, 2);
+        }
       } else {
         return NextResponse.json(
           { error: 'Only JSON format is currently supported for data source creation' },
@@ -106,7 +113,8 @@ export async function POST(
             primary: name === 'id'
           }))
         },
-        recordCount: parsedData.length
+        recordCount: parsedData.length,
+        classification: dataset.classification
       };
 
       // Create the data source using the service directly
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SyntheticDataService } from '@/services/syntheticDataService';
-import { readFile } from 'fs/promises';
+import { DatasetExportService } from '@/services/datasetExportService';
 
 // GET /api/synthetic/[id]/download - Download generated synthetic data file
 export async function GET(
@@ -18,56 +18,23 @@ export async function GET(
       );
     }
 
-    if (dataset.status !== 'completed' || !dataset.filePath) {
+    if (dataset.status !== 'completed') {
       return NextResponse.json(
         { error: 'Dataset not ready for download' },
         { status: 400 }
       );
     }
 
-    let fileContent: string;
-    
-    // Check if this is a virtual path (production environment)
-    if (dataset.filePath.startsWith('synthetic://')) {
-      // In production, content is stored in the database
-      if (!dataset.generatedContent) {
-        return NextResponse.json(
-          { error: 'Generated content not found in database' },
-          { status: 500 }
-        );
-      }
-      fileContent = dataset.generatedContent;
-    } else {
-      // In development, read from filesystem
-      try {
-        fileContent = await readFile(dataset.filePath, 'utf8');
-      } catch (fileError) {
-        console.error('Error reading generated file:', fileError);
-        return NextResponse.json(
-          { error: 'Generated file not found or corrupted' },
-          { status: 500 }
-        );
-      }
+    const fileContent = await SyntheticDataService.getGeneratedFile(dataset);
+    if (!fileContent) {
+      return NextResponse.json(
+        { error: 'Generated file not found or corrupted' },
+        { status: 500 }
+      );
     }
-    
+
     // Determine content type based on output format
-    let contentType = 'application/octet-stream';
-    let extension = 'txt';
-    
-    switch (dataset.outputFormat) {
-      case 'json':
-        contentType = 'application/json';
-        extension = 'json';
-        break;
-      case 'csv':
-        contentType = 'text/csv';
-        extension = 'csv';
-        break;
-      case 'sql':
-        contentType = 'text/sql';
-        extension = 'sql';
-        break;
-    }
+    const { contentType, extension } = DatasetExportService.describe(dataset.outputFormat);
 
     // Create filename with timestamp
     const timestamp = new Date().toISOString().split('T')[0];
@@ -79,7 +46,8 @@ export async function GET(
       headers: {
         'Content-Type': contentType,
         'Content-Disposition': `attachment; filename="${filename}"`,
-        'Content-Length': Buffer.byteLength(fileContent, 'utf8').toString(),
+        'Content-Length': fileContent.length.toString(),
+        ...(dataset.classification && { 'X-Classification': dataset.classification }),
       },
     });
   } catch (error) {
@@ -89,4 +57,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
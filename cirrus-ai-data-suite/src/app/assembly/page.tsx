@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import AppLayout from '@/components/AppLayout';
 import { useDialog } from '@/contexts/DialogContext';
+import type { ExportFormat } from '@/services/datasetExportService';
 import { 
   CircleStackIcon,
   FunnelIcon,
@@ -43,7 +44,7 @@ interface DataSet {
   description: string;
   sources: SelectedSource[];
   transformations: Transformation[];
-  outputFormat: 'json' | 'csv' | 'parquet' | 'sql';
+  outputFormat: ExportFormat;
   recordCount?: number;
   lastModified: Date;
   status: 'draft' | 'processing' | 'ready' | 'error';
@@ -64,6 +64,13 @@ jest.mock('@/contexts/DialogContext', () => ({
   })
 }));
 
+jest.mock('@/contexts/AuthContext', () => ({
+  __esModule: true,
+  useAuth: () => ({
+    can: () => true
+  })
+}));
+
 // Mock fetch
 global.fetch = jest.fn();
 
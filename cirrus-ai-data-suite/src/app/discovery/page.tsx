@@ -11,6 +11,7 @@ import { HelpButton } from '@/components/HelpSystem';
 import { getHelpContent } from '@/content/helpContent';
 import { DataSource } from '@/types/discovery';
 import { DialogProvider, useDialog } from '@/contexts/DialogContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { AskAIModal } from '@/components/dataSourceTable/AskAIModal';
 import { 
   ExclamationCircleIcon
@@ -18,6 +19,7 @@ import {
 
 function DataDiscoveryContent() {
   const dialog = useDialog();
+  const { can } = useAuth();
   const searchParams = useSearchParams();
   const sourceIdFromUrl = searchParams?.get('source') || null;
   const clustersFromUrl = searchParams?.get('clusters') || null;
@@ -29,6 +31,8 @@ function DataDiscoveryContent() {
   const [selectedSource, setSelectedSource] = useState<DataSource | null>(null);
   const [editingSource, setEditingSource] = useState<DataSource | null>(null);
   const [editSourceName, setEditSourceName] = useState('');
+  const [editSourceClassification, setEditSourceClassification] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
   const [analyzingSource, setAnalyzingSource] = useState<DataSource | null>(null);
   const [mappingSource, setMappingSource] = useState<DataSource | null>(null);
   const [profilingSource, setProfilingSource] = useState<DataSource | null>(null);
@@ -293,6 +297,13 @@ function DataDiscoveryContent() {
     }
   };
 
+  const closeEditModal = () => {
+    setEditingSource(null);
+    setEditSourceName('');
+    setEditSourceClassification('');
+    setEditError(null);
+  };
+
   const handleEditSave = async () => {
     if (!editingSource) return;
 
@@ -300,14 +311,15 @@ function DataDiscoveryContent() {
       const response = await fetch(`/api/data-sources/${editingSource.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: editSourceName })
+        body: JSON.stringify({ name: editSourceName, classification: editSourceClassification })
       });
 
       if (response.ok) {
         await loadDataSources();
-        setEditingSource(null);
-        setEditSourceName('');
+        closeEditModal();
       } else {
+        const { error } = await response.json().catch(() => ({ error: undefined }));
+        setEditError(error || 'Failed to update data source');
         console.error('Failed to update data source');
       }
     } catch (error) {
@@ -365,6 +377,7 @@ function DataDiscoveryContent() {
               onEdit={(source) => {
                 setEditingSource(source);
                 setEditSourceName(source.name);
+                setEditSourceClassification(source.classification || '');
               }}
               onDelete={deleteDataSource}
               onAnalyze={setAnalyzingSource}
@@ -382,16 +395,15 @@ function DataDiscoveryContent() {
               onAskAI={setAskAISource}
               refreshingSource={refreshingSource}
               initialExpandedRow={sourceIdFromUrl}
+              canEdit={(source) => can('data_sources:write', source.id)}
+              canDelete={(source) => can('data_sources:delete', source.id)}
             />
           </div>
 
 
-          {/* Edit Source Name Modal */}
+          {/* Edit Data Source Modal */}
           {editingSource && (
-            <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => {
-              setEditingSource(null);
-              setEditSourceName('');
-            }}>
+            <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50" onClick={closeEditModal}>
               <div className="bg-white rounded-lg border-2 border-gray-600 p-6 max-w-md w-full" onClick={(e) => e.stopPropagation()}>
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Edit Data Source</h3>
                 
@@ -405,12 +417,27 @@ function DataDiscoveryContent() {
                   />
                 </div>
 
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Classification Marking</label>
+                  <input
+                    type="text"
+                    value={editSourceClassification}
+                    onChange={(e) => setEditSourceClassification(e.target.value)}
+                    placeholder="e.g. SECRET//NOFORN (leave empty if unmarked)"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Data derived from this source carries this marking into transforms, synthetic data, exports and deployments.
+                  </p>
+                </div>
+
+                {editError && (
+                  <p className="mb-4 text-sm text-red-600">{editError}</p>
+                )}
+
                 <div className="flex gap-3">
                   <button
-                    onClick={() => {
-                      setEditingSource(null);
-                      setEditSourceName('');
-                    }}
+                    onClick={closeEditModal}
                     className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
                   >
                     Cancel
@@ -7,13 +7,17 @@ import {
   PlayIcon,
   PencilIcon,
   TrashIcon,
-  FolderIcon
+  FolderIcon,
+  ClockIcon,
+  RectangleStackIcon
 } from '@heroicons/react/24/outline';
 
 import AppLayout from '@/components/AppLayout';
 import PipelineBuilder from '@/components/PipelineBuilder';
 import PipelineNameEditor from '@/components/PipelineNameEditor';
 import CreatePipelineModal from '@/components/CreatePipelineModal';
+import PipelineRunHistory from '@/components/PipelineRunHistory';
+import PipelineVersionHistory from '@/components/PipelineVersionHistory';
 import { Pipeline, PipelineStatus } from '@/types/pipeline';
 import { PipelineService } from '@/services/pipelineService';
 import { HelpButton } from '@/components/HelpSystem';
@@ -31,6 +35,8 @@ export default function PipelinePage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [historyPipeline, setHistoryPipeline] = useState<Pipeline | null>(null);
+  const [versionsPipeline, setVersionsPipeline] = useState<Pipeline | null>(null);
 
   // Load pipelines on component mount
   useEffect(() => {
@@ -425,6 +431,24 @@ export default function PipelinePage() {
                         Run
                       </button>
                     )}
+
+                    <button
+                      onClick={() => setHistoryPipeline(pipeline)}
+                      className="flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md text-sm font-medium transition-colors"
+                      title="Run history"
+                    >
+                      <ClockIcon className="w-4 h-4" />
+                      History
+                    </button>
+
+                    <button
+                      onClick={() => setVersionsPipeline(pipeline)}
+                      className="flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md text-sm font-medium transition-colors"
+                      title="Versions"
+                    >
+                      <RectangleStackIcon className="w-4 h-4" />
+                      v{pipeline.version}
+                    </button>
                     
                     <button
                       onClick={() => handleDelete(pipeline.id)}
@@ -469,6 +493,28 @@ export default function PipelinePage() {
         onClose={() => setShowCreateModal(false)}
         onCreate={handleCreatePipeline}
       />
+
+      {/* Run History Modal */}
+      {historyPipeline && (
+        <PipelineRunHistory
+          pipeline={historyPipeline}
+          isOpen={true}
+          onClose={() => setHistoryPipeline(null)}
+        />
+      )}
+
+      {/* Versions Modal */}
+      {versionsPipeline && (
+        <PipelineVersionHistory
+          pipeline={versionsPipeline}
+          isOpen={true}
+          onClose={() => setVersionsPipeline(null)}
+          onRestored={(restored) => {
+            setPipelines(pipelines.map(p => p.id === restored.id ? restored : p));
+            setVersionsPipeline(restored);
+          }}
+        />
+      )}
     </AppLayout>
   );
 }
\ No newline at end of file
@@ -5,6 +5,7 @@ import AppLayout from '@/components/AppLayout';
 import { HelpButton, Tooltip } from '@/components/HelpSystem';
 import { getHelpContent } from '@/content/helpContent';
 import { useDialog } from '@/contexts/DialogContext';
+import { useAuth } from '@/contexts/AuthContext';
 import MLIndicator from '@/components/MLIndicator';
 import { 
   ShieldCheckIcon,
@@ -14,7 +15,8 @@ import {
   XMarkIcon,
   CircleStackIcon,
   CodeBracketIcon,
-  CloudIcon
+  CloudIcon,
+  DocumentMinusIcon
 } from '@heroicons/react/24/outline';
 
 import { Pattern } from '@/services/patternService';
@@ -25,6 +27,7 @@ import { ContextAwarePatternDetector } from '@/components/ContextAwarePatternDet
 import { patternTestingService, TestResult, RedactionStyle } from '@/services/patternTestingService';
 import { PatternLearningService } from '@/services/patternLearningService';
 import { ClusterPatternDisplay } from '@/components/ClusterPatternDisplay';
+import DocumentRedactionPanel from '@/components/DocumentRedactionPanel';
 
 interface AnnotationWrapperProps {
   dataSource: DataSource;
@@ -251,6 +254,9 @@ function AnnotationWrapper({ dataSource, patterns, onPatternsIdentified, onBack
 
 export default function PatternDefinition() {
   const dialog = useDialog();
+  const { can } = useAuth();
+  // Detection and annotation save patterns, so they are hidden along with editing
+  const canEditPatterns = can('patterns:write');
   const [patterns, setPatterns] = useState<Pattern[]>([]);
   const [selectedPattern, setSelectedPattern] = useState<Pattern | null>(null);
   const [showNewPattern, setShowNewPattern] = useState(false);
@@ -267,6 +273,7 @@ export default function PatternDefinition() {
   const [showContextDetector, setShowContextDetector] = useState(false);
   const [contextDetectorText, setContextDetectorText] = useState('');
   const [contextDetectorSource, setContextDetectorSource] = useState<string | null>(null);
+  const [showDocumentRedaction, setShowDocumentRedaction] = useState(false);
   const [newPattern, setNewPattern] = useState({
     name: '',
     type: 'PII' as Pattern['type'],
@@ -468,6 +475,25 @@ export default function PatternDefinition() {
         selectedRedactionStyle || undefined
       );
     }
+
+    // Keyed styles only get a masked preview locally; the server applies the key
+    if (result.matches.length > 0 && (result.redactionStyle.type === 'pseudonym' || result.redactionStyle.type === 'fpe')) {
+      try {
+        const response = await fetch('/api/redaction/pseudonymize', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ text: testText, matches: result.matches, style: result.redactionStyle })
+        });
+        const data = await response.json();
+        if (response.ok) {
+          result = { ...result, redactedText: data.redactedText };
+        } else {
+          console.error('Pseudonymization failed:', data.error);
+        }
+      } catch (error) {
+        console.error('Pseudonymization request failed:', error);
+      }
+    }
     
     setTestResults(result);
   };
@@ -805,6 +831,17 @@ export default function PatternDefinition() {
               <MLIndicator className="ml-2" />
             </div>
             <div className="flex gap-3">
+              <Tooltip text="Redact a PDF or Word document with saved patterns, reviewing each match first">
+                <button
+                  onClick={() => setShowDocumentRedaction(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors"
+                >
+                  <DocumentMinusIcon className="h-5 w-5" />
+                  Redact Document
+                </button>
+              </Tooltip>
+              {canEditPatterns && (
+              <>
               <Tooltip text="Use AI-powered analysis to automatically detect sensitive data patterns in your text">
                 <button
                   onClick={() => {
@@ -827,6 +864,8 @@ export default function PatternDefinition() {
                 New Pattern
               </button>
               </Tooltip>
+              </>
+              )}
             </div>
           </div>
 
@@ -879,12 +918,14 @@ export default function PatternDefinition() {
                     <div className="p-12 text-center">
                       <ShieldCheckIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                       <p className="text-gray-700 mb-4">No patterns defined yet</p>
-                      <button
-                        onClick={() => setShowNewPattern(true)}
-                        className="text-blue-600 hover:text-blue-800 text-sm font-medium"
-                      >
-                        Create your first pattern
-                      </button>
+                      {canEditPatterns && (
+                        <button
+                          onClick={() => setShowNewPattern(true)}
+                          className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                        >
+                          Create your first pattern
+                        </button>
+                      )}
                     </div>
                   ) : (
                     filteredPatterns.map(pattern => (
@@ -924,7 +965,8 @@ export default function PatternDefinition() {
                               e.stopPropagation();
                               togglePattern(pattern.id);
                             }}
-                            className={`px-3 py-1 text-xs rounded ${
+                            disabled={!canEditPatterns}
+                            className={`px-3 py-1 text-xs rounded disabled:cursor-default ${
                               pattern.isActive
                                 ? 'bg-green-100 text-green-700'
                                 : 'bg-gray-100 text-gray-700'
@@ -932,15 +974,17 @@ export default function PatternDefinition() {
                           >
                             {pattern.isActive ? 'Active' : 'Inactive'}
                           </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              deletePattern(pattern.id);
-                            }}
-                            className="p-1 text-red-600 hover:text-red-800"
-                          >
-                            <TrashIcon className="h-4 w-4" />
-                          </button>
+                          {canEditPatterns && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                deletePattern(pattern.id);
+                              }}
+                              className="p-1 text-red-600 hover:text-red-800"
+                            >
+                              <TrashIcon className="h-4 w-4" />
+                            </button>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -1213,6 +1257,7 @@ export default function PatternDefinition() {
                               `${dataSource.configuration.files?.length || 0} ${dataSource.type === 'json_transformed' ? 'transformed dataset' : 'file'}${dataSource.configuration.files?.length !== 1 ? 's' : ''} ${dataSource.type === 'json_transformed' ? 'available' : 'uploaded'}`
                             )}
                           </p>
+                          {canEditPatterns && (
                           <div className="flex gap-3 mt-3">
                             <button
                               onClick={() => startAnnotation(dataSource)}
@@ -1234,6 +1279,7 @@ export default function PatternDefinition() {
                               Smart Detection
                             </button>
                           </div>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -1383,6 +1429,33 @@ export default function PatternDefinition() {
             </div>
           )}
 
+          {/* Document Redaction Modal */}
+          {showDocumentRedaction && (
+            <div
+              className="fixed inset-0 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+              onClick={() => setShowDocumentRedaction(false)}
+            >
+              <div
+                className="bg-white rounded-lg border-2 border-gray-600 p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <div className="flex justify-between items-center mb-4">
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900">Redact Document</h2>
+                    <p className="text-sm text-gray-700 mt-1">Matched text is removed from the file, keeping its layout</p>
+                  </div>
+                  <button
+                    onClick={() => setShowDocumentRedaction(false)}
+                    className="text-gray-400 hover:text-gray-600"
+                  >
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+                <DocumentRedactionPanel patterns={patterns} />
+              </div>
+            </div>
+          )}
+
           {/* Context-Aware Pattern Detector Modal */}
           {showContextDetector && (
             <div 
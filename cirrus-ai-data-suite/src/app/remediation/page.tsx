@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import AppLayout from '@/components/AppLayout';
+import { useAuth } from '@/contexts/AuthContext';
 import TemplateCard from '@/components/dataQuality/TemplateCard';
 import TemplateFilter, { TemplateFilterOptions } from '@/components/dataQuality/TemplateFilter';
 import { 
@@ -35,6 +36,7 @@ interface RemediationJob {
   completedAt?: string;
   estimatedCompletion?: string;
   errorMessage?: string;
+  assignedTo?: string;
 }
 
 interface RemediationAction {
@@ -45,7 +47,7 @@ interface RemediationAction {
   fieldName: string;
   fixMethod: string;
   confidence: number;
-  status: 'pending' | 'applied' | 'rejected' | 'skipped';
+  status: 'pending' | 'applied' | 'rejected' | 'requires_review' | 'skipped';
   reviewedBy?: string;
   appliedAt?: string;
   rollbackData?: unknown;
@@ -72,6 +74,7 @@ interface DataQualityTemplate {
 }
 
 export default function RemediationPage() {
+  const { can, user } = useAuth();
   const [jobs, setJobs] = useState<RemediationJob[]>([]);
   const [selectedJob, setSelectedJob] = useState<RemediationJob | null>(null);
   const [actions, setActions] = useState<RemediationAction[]>([]);
@@ -197,6 +200,30 @@ export default function RemediationPage() {
     }
   };
 
+  const reviewAction = async (actionId: string, operation: 'apply' | 'reject') => {
+    try {
+      const response = await fetch(`/api/remediation/actions/${actionId}/${operation}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      if (response.ok && selectedJob) {
+        fetchActions(selectedJob.id);
+        fetchJobs();
+      }
+    } catch (error) {
+      console.error(`Failed to ${operation} action:`, error);
+    }
+  };
+
+  // Mirrors the API checks so users only see the controls they can use
+  const canCreateJobs = can('remediation:create') ||
+    Object.keys(user?.dataSourceRoles || {}).some(dataSourceId => can('remediation:create', dataSourceId));
+
+  const canReviewJob = (job: RemediationJob) =>
+    can('remediation:approve', job.dataSourceId) &&
+    (!job.assignedTo || job.assignedTo === user?.username || user?.role === 'admin');
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed': return <CheckCircleIcon className="h-5 w-5 text-green-600" />;
@@ -330,13 +357,15 @@ export default function RemediationPage() {
                   {jobs.filter(j => j.status === 'running').length} Running
                 </span>
               </div>
-              <button
-                onClick={() => setShowCreateJob(true)}
-                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
-              >
-                <PlusIcon className="h-4 w-4 mr-2" />
-                Create Job
-              </button>
+              {canCreateJobs && (
+                <button
+                  onClick={() => setShowCreateJob(true)}
+                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+                >
+                  <PlusIcon className="h-4 w-4 mr-2" />
+                  Create Job
+                </button>
+              )}
             </div>
 
             {jobs.length === 0 ? (
@@ -346,15 +375,17 @@ export default function RemediationPage() {
                 <p className="mt-1 text-sm text-gray-500">
                   Get started by creating your first remediation job to fix data quality issues.
                 </p>
-                <div className="mt-6">
-                  <button
-                    onClick={() => setShowCreateJob(true)}
-                    className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
-                  >
-                    <PlusIcon className="h-4 w-4 mr-2" />
-                    Create Job
-                  </button>
-                </div>
+                {canCreateJobs && (
+                  <div className="mt-6">
+                    <button
+                      onClick={() => setShowCreateJob(true)}
+                      className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+                    >
+                      <PlusIcon className="h-4 w-4 mr-2" />
+                      Create Job
+                    </button>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="bg-white shadow overflow-hidden sm:rounded-md">
@@ -374,7 +405,7 @@ export default function RemediationPage() {
                             <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(job.status)}`}>
                               {job.status}
                             </span>
-                            {job.status === 'pending' && (
+                            {job.status === 'pending' && can('remediation:create', job.dataSourceId) && (
                               <button
                                 onClick={() => startJob(job.id)}
                                 className="p-1 text-gray-400 hover:text-green-600"
@@ -383,7 +414,7 @@ export default function RemediationPage() {
                                 <PlayIcon className="h-4 w-4" />
                               </button>
                             )}
-                            {job.status === 'running' && (
+                            {job.status === 'running' && can('remediation:create', job.dataSourceId) && (
                               <button
                                 onClick={() => pauseJob(job.id)}
                                 className="p-1 text-gray-400 hover:text-yellow-600"
@@ -392,7 +423,7 @@ export default function RemediationPage() {
                                 <PauseIcon className="h-4 w-4" />
                               </button>
                             )}
-                            {(job.status === 'running' || job.status === 'paused') && (
+                            {(job.status === 'running' || job.status === 'paused') && can('remediation:create', job.dataSourceId) && (
                               <button
                                 onClick={() => cancelJob(job.id)}
                                 className="p-1 text-gray-400 hover:text-red-600"
@@ -453,6 +484,7 @@ export default function RemediationPage() {
               </h2>
               <p className="text-sm text-gray-500">
                 Review and manage individual remediation actions
+                {selectedJob.assignedTo && ` · Assigned to ${selectedJob.assignedTo}`}
               </p>
             </div>
 
@@ -502,6 +534,29 @@ export default function RemediationPage() {
                             <p className="text-sm text-gray-500">
                               Method: {action.fixMethod}
                             </p>
+                            {action.reviewedBy && (
+                              <p className="text-sm text-gray-500">
+                                Reviewed by: {action.reviewedBy}
+                              </p>
+                            )}
+                            {(action.status === 'pending' || action.status === 'requires_review') && canReviewJob(selectedJob) && (
+                              <div className="mt-2 flex justify-end space-x-2">
+                                <button
+                                  onClick={() => reviewAction(action.id, 'apply')}
+                                  className="inline-flex items-center px-3 py-1 rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700"
+                                >
+                                  <CheckCircleIcon className="h-4 w-4 mr-1" />
+                                  Apply
+                                </button>
+                                <button
+                                  onClick={() => reviewAction(action.id, 'reject')}
+                                  className="inline-flex items-center px-3 py-1 rounded-md text-sm font-medium text-red-700 bg-red-100 hover:bg-red-200"
+                                >
+                                  <XCircleIcon className="h-4 w-4 mr-1" />
+                                  Reject
+                                </button>
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -16,13 +16,16 @@ import {
   XCircle,
   Download,
   Eye,
-  Edit2
+  Edit2,
+  Sparkles
 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import ApiConnectionEditDialog from '@/components/ApiConnectionEditDialog';
+import type { GraphQLDataPathSuggestion, GraphQLRequest } from '@/types/apiConnector';
 interface ApiConnection {
   id: string;
   name: string;
+  apiType?: 'rest' | 'graphql';
   endpoint: string;
   method: string;
   authType: string;
@@ -86,16 +89,27 @@ function ApiIntegrationsContent() {
   const [apiConnections, setApiConnections] = useState<ApiConnection[]>([]);
   const [loading, setLoading] = useState(true);
   const [apiName, setApiName] = useState('');
+  const [apiType, setApiType] = useState<'rest' | 'graphql'>('rest');
   const [apiEndpoint, setApiEndpoint] = useState('');
   const [httpMethod, setHttpMethod] = useState('GET');
   const [headers, setHeaders] = useState<ApiHeader[]>([{ key: '', value: '' }]);
-  const [authType, setAuthType] = useState<'none' | 'api-key' | 'bearer' | 'basic'>('none');
+  const [authType, setAuthType] = useState<'none' | 'api-key' | 'bearer' | 'basic' | 'oauth2'>('none');
   const [apiKey, setApiKey] = useState('');
   const [bearerToken, setBearerToken] = useState('');
   const [basicUsername, setBasicUsername] = useState('');
   const [basicPassword, setBasicPassword] = useState('');
+  const [oauthTokenUrl, setOauthTokenUrl] = useState('');
+  const [oauthClientId, setOauthClientId] = useState('');
+  const [oauthClientSecret, setOauthClientSecret] = useState('');
+  const [oauthScope, setOauthScope] = useState('');
+  const [oauthRefreshToken, setOauthRefreshToken] = useState('');
   const [refreshInterval, setRefreshInterval] = useState(0);
   const [dataPath, setDataPath] = useState('');
+  const [graphqlQuery, setGraphqlQuery] = useState('');
+  const [graphqlVariables, setGraphqlVariables] = useState('');
+  const [pathSuggestions, setPathSuggestions] = useState<GraphQLDataPathSuggestion[] | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
+  const [suggestionError, setSuggestionError] = useState<string | null>(null);
   const [testing, setTesting] = useState(false);
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
   const [saving, setSaving] = useState(false);
@@ -196,8 +210,18 @@ function ApiIntegrationsContent() {
     setBearerToken('');
     setBasicUsername('');
     setBasicPassword('');
+    setOauthTokenUrl('');
+    setOauthClientId('');
+    setOauthClientSecret('');
+    setOauthScope('');
+    setOauthRefreshToken('');
     setRefreshInterval(0);
     setDataPath('');
+    setApiType('rest');
+    setGraphqlQuery('');
+    setGraphqlVariables('');
+    setPathSuggestions(null);
+    setSuggestionError(null);
     setTestResult(null);
   };
 
@@ -215,6 +239,85 @@ function ApiIntegrationsContent() {
     setHeaders(newHeaders);
   };
 
+  const buildAuthConfig = (): Record<string, string> | undefined => {
+    if (authType === 'api-key' && apiKey) {
+      return { apiKey };
+    } else if (authType === 'bearer' && bearerToken) {
+      return { token: bearerToken };
+    } else if (authType === 'basic' && basicUsername && basicPassword) {
+      return { username: basicUsername, password: basicPassword };
+    } else if (authType === 'oauth2' && oauthTokenUrl) {
+      // Tokens are requested by the server with the refresh-token grant, or client credentials without one
+      const authConfig: Record<string, string> = { tokenUrl: oauthTokenUrl, clientId: oauthClientId, clientSecret: oauthClientSecret };
+      if (oauthScope) authConfig.scope = oauthScope;
+      if (oauthRefreshToken) authConfig.refreshToken = oauthRefreshToken;
+      return authConfig;
+    }
+    return undefined;
+  };
+
+  // Variables are optional, but must be a JSON object when given
+  const graphqlVariablesValid = (() => {
+    if (!graphqlVariables.trim()) return true;
+    try {
+      const variables = JSON.parse(graphqlVariables);
+      return !!variables && typeof variables === 'object' && !Array.isArray(variables);
+    } catch {
+      return false;
+    }
+  })();
+
+  const buildRequestBody = (): GraphQLRequest | undefined => {
+    if (apiType !== 'graphql') return undefined;
+    return {
+      query: graphqlQuery,
+      variables: graphqlVariables.trim() ? JSON.parse(graphqlVariables) : undefined
+    };
+  };
+
+  const buildRequestHeaders = (): Record<string, string> => {
+    const requestHeaders: Record<string, string> = {};
+    headers.forEach(header => {
+      if (header.key && header.value) {
+        requestHeaders[header.key] = header.value;
+      }
+    });
+    return requestHeaders;
+  };
+
+  const suggestDataPaths = async () => {
+    setSuggesting(true);
+    setSuggestionError(null);
+    setPathSuggestions(null);
+
+    try {
+      const response = await fetch('/api/api-connections/introspect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          endpoint: apiEndpoint,
+          authType,
+          authConfig: buildAuthConfig(),
+          headers: buildRequestHeaders(),
+          requestBody: buildRequestBody()
+        })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Schema introspection failed');
+      }
+
+      setPathSuggestions(result.suggestions);
+      if (!dataPath && result.suggestions.length > 0) {
+        setDataPath(result.suggestions[0].dataPath);
+      }
+    } catch (error) {
+      setSuggestionError(error instanceof Error ? error.message : 'Schema introspection failed');
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
   const testConnection = async (connectionId?: string) => {
     setTesting(true);
     setTestResult(null);
@@ -238,38 +341,26 @@ function ApiIntegrationsContent() {
         
         testData = {
           id: connectionId,
+          apiType: connectionDetails.apiType,
           endpoint: connectionDetails.endpoint,
           method: connectionDetails.method,
           authType: connectionDetails.authType,
           authConfig: connectionDetails.authConfig,
           headers: connectionDetails.headers,
+          requestBody: connectionDetails.requestBody,
           timeout: connectionDetails.timeout || 30000,
           retryCount: connectionDetails.retryCount || 3
         };
       } else {
         // Testing new connection from form
-        const requestHeaders: Record<string, string> = {};
-        headers.forEach(header => {
-          if (header.key && header.value) {
-            requestHeaders[header.key] = header.value;
-          }
-        });
-
-        let authConfig = undefined;
-        if (authType === 'api-key' && apiKey) {
-          authConfig = { apiKey };
-        } else if (authType === 'bearer' && bearerToken) {
-          authConfig = { token: bearerToken };
-        } else if (authType === 'basic' && basicUsername && basicPassword) {
-          authConfig = { username: basicUsername, password: basicPassword };
-        }
-
         testData = {
+          apiType,
           endpoint: apiEndpoint,
           method: httpMethod,
           authType,
-          authConfig,
-          headers: requestHeaders,
+          authConfig: buildAuthConfig(),
+          headers: buildRequestHeaders(),
+          requestBody: buildRequestBody(),
           timeout: 30000,
           retryCount: 3
         };
@@ -305,34 +396,18 @@ function ApiIntegrationsContent() {
     setSaving(true);
 
     try {
-      // Build headers object
-      const requestHeaders: Record<string, string> = {};
-      headers.forEach(header => {
-        if (header.key && header.value) {
-          requestHeaders[header.key] = header.value;
-        }
-      });
-
-      // Build auth config
-      let authConfig = undefined;
-      if (authType === 'api-key' && apiKey) {
-        authConfig = { apiKey };
-      } else if (authType === 'bearer' && bearerToken) {
-        authConfig = { token: bearerToken };
-      } else if (authType === 'basic' && basicUsername && basicPassword) {
-        authConfig = { username: basicUsername, password: basicPassword };
-      }
-
       const response = await fetch('/api/api-connections', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           name: apiName,
+          apiType,
           endpoint: apiEndpoint,
           method: httpMethod,
           authType,
-          authConfig,
-          headers: requestHeaders,
+          authConfig: buildAuthConfig(),
+          headers: buildRequestHeaders(),
+          requestBody: buildRequestBody(),
           refreshEnabled: refreshInterval > 0,
           refreshInterval: refreshInterval > 0 ? refreshInterval : undefined,
           timeout: 30000,
@@ -674,7 +749,7 @@ function ApiIntegrationsContent() {
                 <div>
                   <h1 className="text-3xl font-bold text-gray-900">Create API Connection</h1>
                   <p className="text-gray-900 mt-1">
-                    Connect to a REST API to import data automatically
+                    Connect to a REST or GraphQL API to import data automatically
                   </p>
                 </div>
                 <HelpButton 
@@ -700,33 +775,93 @@ function ApiIntegrationsContent() {
               />
             </div>
 
+            {/* API Type */}
+            <div className="mb-6">
+              <label htmlFor="apiType" className="block text-sm font-medium text-gray-700 mb-2">
+                API Type
+              </label>
+              <select
+                id="apiType"
+                value={apiType}
+                onChange={(e) => {
+                  setApiType(e.target.value as 'rest' | 'graphql');
+                  setPathSuggestions(null);
+                  setSuggestionError(null);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="rest">REST</option>
+                <option value="graphql">GraphQL</option>
+              </select>
+            </div>
+
             {/* API Endpoint */}
             <div className="mb-6">
               <label htmlFor="apiEndpoint" className="block text-sm font-medium text-gray-700 mb-2">
                 API Endpoint <span className="text-red-500">*</span>
               </label>
               <div className="flex gap-2">
-                <select
-                  value={httpMethod}
-                  onChange={(e) => setHttpMethod(e.target.value)}
-                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                >
-                  <option value="GET">GET</option>
-                  <option value="POST">POST</option>
-                  <option value="PUT">PUT</option>
-                  <option value="PATCH">PATCH</option>
-                </select>
+                {apiType === 'rest' && (
+                  <select
+                    value={httpMethod}
+                    onChange={(e) => setHttpMethod(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="GET">GET</option>
+                    <option value="POST">POST</option>
+                    <option value="PUT">PUT</option>
+                    <option value="PATCH">PATCH</option>
+                  </select>
+                )}
                 <input
                   id="apiEndpoint"
                   type="url"
                   value={apiEndpoint}
                   onChange={(e) => setApiEndpoint(e.target.value)}
-                  placeholder="https://api.example.com/data"
+                  placeholder={apiType === 'graphql' ? 'https://api.example.com/graphql' : 'https://api.example.com/data'}
                   className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 />
               </div>
             </div>
 
+            {/* GraphQL Query */}
+            {apiType === 'graphql' && (
+              <div className="mb-6 space-y-3">
+                <div>
+                  <label htmlFor="graphqlQuery" className="block text-sm font-medium text-gray-700 mb-2">
+                    Query <span className="text-red-500">*</span>
+                  </label>
+                  <textarea
+                    id="graphqlQuery"
+                    value={graphqlQuery}
+                    onChange={(e) => setGraphqlQuery(e.target.value)}
+                    rows={8}
+                    placeholder={'query Customers($after: String) {\n  customers(first: 100, after: $after) {\n    nodes { id name }\n    pageInfo { endCursor hasNextPage }\n  }\n}'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="text-sm text-gray-600 mt-1">
+                    Select <code>pageInfo {'{ endCursor hasNextPage }'}</code> and declare an <code>$after</code> variable to import every page of a Relay connection.
+                  </p>
+                </div>
+                <div>
+                  <label htmlFor="graphqlVariables" className="block text-sm font-medium text-gray-700 mb-2">
+                    Variables (optional)
+                  </label>
+                  <textarea
+                    id="graphqlVariables"
+                    value={graphqlVariables}
+                    onChange={(e) => setGraphqlVariables(e.target.value)}
+                    rows={3}
+                    placeholder='{ "status": "ACTIVE" }'
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  {!graphqlVariablesValid && (
+                    <p className="text-sm text-red-600 mt-1">Variables must be a JSON object.</p>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Authentication */}
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -734,13 +869,14 @@ function ApiIntegrationsContent() {
               </label>
               <select
                 value={authType}
-                onChange={(e) => setAuthType(e.target.value as 'none' | 'api-key' | 'bearer' | 'basic')}
+                onChange={(e) => setAuthType(e.target.value as 'none' | 'api-key' | 'bearer' | 'basic' | 'oauth2')}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 mb-3"
               >
                 <option value="none">No Authentication</option>
                 <option value="api-key">API Key</option>
                 <option value="bearer">Bearer Token</option>
                 <option value="basic">Basic Auth</option>
+                <option value="oauth2">OAuth 2.0</option>
               </select>
 
               {authType === 'api-key' && (
@@ -781,6 +917,46 @@ function ApiIntegrationsContent() {
                   />
                 </div>
               )}
+
+              {authType === 'oauth2' && (
+                <div className="space-y-2">
+                  <input
+                    type="url"
+                    value={oauthTokenUrl}
+                    onChange={(e) => setOauthTokenUrl(e.target.value)}
+                    placeholder="Token URL, e.g. https://auth.example.com/oauth/token"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <input
+                    type="text"
+                    value={oauthClientId}
+                    onChange={(e) => setOauthClientId(e.target.value)}
+                    placeholder="Client ID"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <input
+                    type="password"
+                    value={oauthClientSecret}
+                    onChange={(e) => setOauthClientSecret(e.target.value)}
+                    placeholder="Client Secret"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <input
+                    type="text"
+                    value={oauthScope}
+                    onChange={(e) => setOauthScope(e.target.value)}
+                    placeholder="Scope (optional)"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <input
+                    type="password"
+                    value={oauthRefreshToken}
+                    onChange={(e) => setOauthRefreshToken(e.target.value)}
+                    placeholder="Refresh Token (optional; client credentials are used without one)"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              )}
             </div>
 
             {/* Headers */}
@@ -846,9 +1022,21 @@ function ApiIntegrationsContent() {
 
             {/* Response Mapping */}
             <div className="mb-6">
-              <label htmlFor="dataPath" className="block text-sm font-medium text-gray-700 mb-2">
-                Data Path (optional)
-              </label>
+              <div className="flex justify-between items-center mb-2">
+                <label htmlFor="dataPath" className="block text-sm font-medium text-gray-700">
+                  Data Path (optional)
+                </label>
+                {apiType === 'graphql' && (
+                  <button
+                    onClick={suggestDataPaths}
+                    disabled={!apiEndpoint || !graphqlQuery.trim() || !graphqlVariablesValid || suggesting}
+                    className="text-sm text-blue-600 hover:text-blue-700 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {suggesting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+                    Suggest from Schema
+                  </button>
+                )}
+              </div>
               <input
                 id="dataPath"
                 type="text"
@@ -860,6 +1048,30 @@ function ApiIntegrationsContent() {
               <p className="text-sm text-gray-600 mt-1">
                 JSON path to the data array in the API response. Use dot notation for nested objects (e.g., &quot;data.items&quot;). Leave empty if data is at the root level.
               </p>
+              {apiType === 'graphql' && suggestionError && (
+                <p className="text-sm text-red-600 mt-2">{suggestionError}</p>
+              )}
+              {apiType === 'graphql' && pathSuggestions && (
+                <div className="mt-2 space-y-1">
+                  {pathSuggestions.length === 0 ? (
+                    <p className="text-sm text-gray-600">The query does not select any lists of records.</p>
+                  ) : pathSuggestions.map(suggestion => (
+                    <button
+                      key={suggestion.dataPath}
+                      onClick={() => setDataPath(suggestion.dataPath)}
+                      className={`w-full text-left px-3 py-2 rounded-lg border text-sm ${
+                        dataPath === suggestion.dataPath ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <span className="font-mono text-gray-900">{suggestion.dataPath}</span>
+                      <span className="text-gray-600 ml-2">{suggestion.typeName} records</span>
+                      {suggestion.paginated && (
+                        <span className="ml-2 text-xs text-green-700">all pages</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Test Result */}
@@ -886,14 +1098,14 @@ function ApiIntegrationsContent() {
             <div className="flex gap-3">
               <button
                 onClick={() => testConnection()}
-                disabled={!apiEndpoint || testing}
+                disabled={!apiEndpoint || testing || (apiType === 'graphql' && (!graphqlQuery.trim() || !graphqlVariablesValid))}
                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {testing ? 'Testing...' : 'Test Connection'}
               </button>
               <button
                 onClick={saveApiConnection}
-                disabled={!apiName || !apiEndpoint || saving}
+                disabled={!apiName || !apiEndpoint || saving || (apiType === 'graphql' && (!graphqlQuery.trim() || !graphqlVariablesValid))}
                 className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {saving ? 'Saving...' : 'Save API Connection'}
@@ -915,7 +1127,7 @@ function ApiIntegrationsContent() {
               <div>
                 <h1 className="text-3xl font-bold text-gray-900">API Integrations</h1>
                 <p className="text-gray-900 mt-1">
-                  Connect to REST APIs for automated data import
+                  Connect to REST and GraphQL APIs for automated data import
                 </p>
               </div>
               <HelpButton 
@@ -961,7 +1173,11 @@ function ApiIntegrationsContent() {
                             Endpoint: <span className="text-gray-900 font-mono text-xs">{connection.endpoint}</span>
                           </p>
                           <p className="text-gray-900">
-                            Method: <span className="text-gray-900 font-medium">{connection.method}</span>
+                            {connection.apiType === 'graphql' ? (
+                              <>Type: <span className="text-gray-900 font-medium">GraphQL</span></>
+                            ) : (
+                              <>Method: <span className="text-gray-900 font-medium">{connection.method}</span></>
+                            )}
                           </p>
                           {connection.refreshEnabled && connection.refreshInterval && (
                             <p className="text-gray-900 flex items-center gap-1">
@@ -20,6 +20,7 @@ import {
   Code
 } from 'lucide-react';
 import { formatBytes } from '@/utils/format';
+import { describeConnectionLocation } from '@/utils/databaseFile';
 
 export default function DatabaseBrowserPage() {
   const params = useParams();
@@ -176,7 +177,7 @@ export default function DatabaseBrowserPage() {
               <div>
                 <h1 className="text-2xl font-bold text-gray-900">{connection.name}</h1>
                 <p className="text-gray-600">
-                  {connection.type.toUpperCase()} • {connection.host}:{connection.port}/{connection.database}
+                  {connection.type.toUpperCase()} • {describeConnectionLocation(connection)}
                 </p>
               </div>
             </div>
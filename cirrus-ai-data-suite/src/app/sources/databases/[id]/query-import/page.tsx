@@ -9,6 +9,12 @@ import AppLayout from '@/components/AppLayout';
 import { DatabaseConnection, DatabaseSchema } from '@/types/connector';
 import type { editor } from 'monaco-editor';
 
+// MongoDB connections take a JSON query instead of SQL
+const MONGO_QUERY_TEMPLATE = `{
+  "collection": "",
+  "filter": {}
+}`;
+
 interface QueryResult {
   columns: string[];
   rows: unknown[][];
@@ -146,6 +152,9 @@ export default function QueryImportPage() {
       if (!response.ok) throw new Error('Failed to fetch connection');
       const data = await response.json();
       setConnection(data);
+      if (data.type === 'mongodb') {
+        setQuery(MONGO_QUERY_TEMPLATE);
+      }
     } catch (err) {
       console.error('Error fetching connection:', err);
       setError('Failed to load database connection');
@@ -235,6 +244,8 @@ export default function QueryImportPage() {
     }
   };
 
+  const isMongo = connection?.type === 'mongodb';
+
   const handleEditorChange = useCallback((value: string | undefined) => {
     setQuery(value || '');
   }, []);
@@ -279,7 +290,7 @@ export default function QueryImportPage() {
           {/* Query Editor Section */}
           <div>
             <div className="flex items-center justify-between mb-3">
-              <h2 className="text-lg font-medium text-gray-900">SQL Query</h2>
+              <h2 className="text-lg font-medium text-gray-900">{isMongo ? 'MongoDB Query' : 'SQL Query'}</h2>
               <button
                 onClick={executeQuery}
                 disabled={isExecuting || !query.trim()}
@@ -294,6 +305,7 @@ export default function QueryImportPage() {
               <Editor
                 height="300px"
                 defaultLanguage="sql"
+                language={isMongo ? 'json' : 'sql'}
                 value={query}
                 onChange={handleEditorChange}
                 onMount={handleEditorDidMount}
@@ -313,7 +325,9 @@ export default function QueryImportPage() {
             </div>
             
             <p className="mt-2 text-sm text-gray-500">
-              Write a SELECT query to choose the data you want to import. Results will be limited to 100 rows for preview.
+              {isMongo
+                ? 'Write a JSON query with a "collection" and either a "filter" (with optional "projection", "sort" and "limit") or an aggregation "pipeline". Nested fields are returned as flattened columns. Results will be limited to 100 rows for preview.'
+                : 'Write a SELECT query to choose the data you want to import. Results will be limited to 100 rows for preview.'}
               {connection?.type === 'mysql' && (
                 <span className="block mt-1 text-xs">
                   MySQL: Use backticks for identifiers, e.g., {`SELECT \`column\` FROM \`table\``}
@@ -324,6 +338,26 @@ export default function QueryImportPage() {
                   PostgreSQL: Use double quotes for case-sensitive identifiers, e.g., {`SELECT "Column" FROM "Table"`}
                 </span>
               )}
+              {isMongo && (
+                <span className="block mt-1 text-xs">
+                  MongoDB: e.g., {`{ "collection": "orders", "pipeline": [{ "$match": { "status": "shipped" } }, { "$group": { "_id": "$customerId", "total": { "$sum": "$amount" } } }] }`}. Use Extended JSON for ObjectIds and dates, e.g., {`{ "$oid": "..." }`}
+                </span>
+              )}
+              {connection?.type === 'mssql' && (
+                <span className="block mt-1 text-xs">
+                  SQL Server: Use brackets for identifiers and schema-qualify tables outside dbo, e.g., {`SELECT TOP 10 [Column] FROM [Sales].[Table]`}
+                </span>
+              )}
+              {connection?.type === 'sqlite' && (
+                <span className="block mt-1 text-xs">
+                  SQLite: The uploaded file is read-only. Use double quotes for identifiers, e.g., {`SELECT "Column" FROM "Table"`}
+                </span>
+              )}
+              {connection?.type === 'duckdb' && (
+                <span className="block mt-1 text-xs">
+                  DuckDB: The uploaded file is read-only. Schema-qualify tables outside main, e.g., {`SELECT "Column" FROM analytics."Table"`}
+                </span>
+              )}
             </p>
           </div>
 
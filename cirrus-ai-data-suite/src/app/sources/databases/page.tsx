@@ -3,13 +3,16 @@
 import React, { useState, useEffect } from 'react';
 import { DatabaseConnection } from '@/types/connector';
 import { DatabaseConnectionForm } from '@/components/DatabaseConnectionForm';
+import { DatabaseFileUploadDialog } from '@/components/DatabaseFileUploadDialog';
 import Dialog from '@/components/Dialog';
 import AppLayout from '@/components/AppLayout';
 import { HelpButton } from '@/components/HelpSystem';
 import { getHelpContent } from '@/content/helpContent';
+import { describeConnectionLocation, isDatabaseFileType } from '@/utils/databaseFile';
 import { 
   Database, 
   Plus, 
+  Upload,
   Settings, 
   Trash2,
   ChevronRight,
@@ -23,6 +26,7 @@ export default function ConnectorsPage() {
   const [connections, setConnections] = useState<DatabaseConnection[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
+  const [showFileUpload, setShowFileUpload] = useState(false);
   const [editingConnection, setEditingConnection] = useState<DatabaseConnection | null>(null);
   const [deletingConnection, setDeletingConnection] = useState<DatabaseConnection | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -212,13 +216,22 @@ export default function ConnectorsPage() {
                 className="ml-2"
               />
             </div>
-            <button
-              onClick={() => setShowForm(true)}
-              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              <Plus className="h-5 w-5" />
-              New Connection
-            </button>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowFileUpload(true)}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Upload className="h-5 w-5" />
+                Upload Database File
+              </button>
+              <button
+                onClick={() => setShowForm(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Plus className="h-5 w-5" />
+                New Connection
+              </button>
+            </div>
           </div>
 
           {error && (
@@ -235,7 +248,7 @@ export default function ConnectorsPage() {
               <Database className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <p className="text-lg font-medium text-gray-900 mb-2">No database connections yet</p>
               <p className="text-gray-600 mb-6">
-                Create your first connection to start importing data
+                Create your first connection or upload a SQLite or DuckDB file to start importing data
               </p>
               <button
                 onClick={() => setShowForm(true)}
@@ -255,12 +268,14 @@ export default function ConnectorsPage() {
                   <div>
                     <h3 className="text-xl font-semibold text-gray-900">{connection.name}</h3>
                     <p className="text-gray-600 mt-1">
-                      {connection.type.toUpperCase()} • {connection.host}:{connection.port}/{connection.database}
+                      {connection.type.toUpperCase()} • {describeConnectionLocation(connection)}
                     </p>
                     <div className="mt-2 space-y-1 text-sm">
-                      <p className="text-gray-600">
-                        Username: <span className="text-gray-700">{connection.username}</span>
-                      </p>
+                      {!isDatabaseFileType(connection.type) && (
+                        <p className="text-gray-600">
+                          Username: <span className="text-gray-700">{connection.username}</span>
+                        </p>
+                      )}
                       {connection.lastTestedAt && (
                         <p className="text-gray-600">
                           Last tested: <span className="text-gray-700">
@@ -306,13 +321,16 @@ export default function ConnectorsPage() {
                 >
                   <ChevronRight className="h-4 w-4" />
                 </button>
-                <button
-                  onClick={() => setEditingConnection(connection)}
-                  className="text-gray-400 hover:text-blue-600 transition-colors"
-                  title="Edit connection"
-                >
-                  <Settings className="h-4 w-4" />
-                </button>
+                {/* Uploaded files have no connection settings to edit */}
+                {!isDatabaseFileType(connection.type) && (
+                  <button
+                    onClick={() => setEditingConnection(connection)}
+                    className="text-gray-400 hover:text-blue-600 transition-colors"
+                    title="Edit connection"
+                  >
+                    <Settings className="h-4 w-4" />
+                  </button>
+                )}
                 <button
                   onClick={() => setDeletingConnection(connection)}
                   className="text-gray-400 hover:text-red-600 transition-colors"
@@ -326,6 +344,16 @@ export default function ConnectorsPage() {
             </div>
           )}
 
+          {showFileUpload && (
+            <DatabaseFileUploadDialog
+              onCreated={async () => {
+                setShowFileUpload(false);
+                await loadConnections();
+              }}
+              onCancel={() => setShowFileUpload(false)}
+            />
+          )}
+
           {deletingConnection && (
             <Dialog
               isOpen={!!deletingConnection}
@@ -34,6 +34,7 @@ interface ProcessedFile {
   contentTruncated: boolean;
   originalContentLength: number;
   storageKey?: string;
+  contentEncoding?: 'base64'; // Excel and Parquet files are sent as base64
 }
 
 function FileUploadContent() {
@@ -259,7 +260,8 @@ function FileUploadContent() {
         content: file.content,
         contentTruncated: file.contentTruncated,
         originalContentLength: file.originalContentLength,
-        storageKey: file.storageKey
+        storageKey: file.storageKey,
+        contentEncoding: file.contentEncoding
       }));
 
       const newSourceData = {
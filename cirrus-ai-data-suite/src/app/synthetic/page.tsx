@@ -2,9 +2,10 @@
 
 import { useState, useEffect, useRef } from 'react';
 import AppLayout from '@/components/AppLayout';
-import { SyntheticDataConfig, SyntheticDataJob } from '@/types/synthetic';
+import { SyntheticDataConfig, SyntheticDataJob, GenerationConfig, SyntheticPrivacyReport } from '@/types/synthetic';
 import { DataSource } from '@/types/discovery';
 import DatasetEnhancementModal from '@/components/DatasetEnhancementModal';
+import SyntheticQualityReport from '@/components/SyntheticQualityReport';
 import { useToastActions } from '@/contexts/ToastContext';
 import { useDialog } from '@/contexts/DialogContext';
 import LLMIndicator from '@/components/LLMIndicator';
@@ -49,6 +50,7 @@ export default function SyntheticData() {
   const [newConfigSource, setNewConfigSource] = useState('');
   const [newConfigPrivacy, setNewConfigPrivacy] = useState<SyntheticDataConfig['privacyLevel']>('medium');
   const [newConfigRecordCount, setNewConfigRecordCount] = useState(10000);
+  const [newConfigOutputFormat, setNewConfigOutputFormat] = useState<SyntheticDataConfig['outputFormat']>('json');
   const [useTemplate, setUseTemplate] = useState(true);
   const [selectedTemplate, setSelectedTemplate] = useState('');
   const [downloadingJobId, setDownloadingJobId] = useState<string | null>(null);
@@ -70,6 +72,7 @@ export default function SyntheticData() {
   
   // Edit configuration state
   const [editingConfig, setEditingConfig] = useState<SyntheticDataConfig | null>(null);
+  const [reportConfig, setReportConfig] = useState<SyntheticDataConfig | null>(null);
   const [showEditConfig, setShowEditConfig] = useState(false);
 
   // Type definitions for schema conversion
@@ -243,13 +246,44 @@ export default function SyntheticData() {
     return { type: 'text', subtype: 'sentence' };
   };
 
-  const privacyLevels = [
-    { value: 'low', label: 'Low', description: 'Basic anonymization, suitable for internal use' },
-    { value: 'medium', label: 'Medium', description: 'GDPR compliant, k-anonymity applied' },
-    { value: 'high', label: 'High', description: 'HIPAA compliant, differential privacy' },
-    { value: 'maximum', label: 'Maximum', description: 'Intelligence grade, maximum privacy guarantees' }
+  // Each level maps to the guarantees enforced during generation; unset keys clear a previous level's settings
+  const privacyLevels: {
+    value: SyntheticDataConfig['privacyLevel'];
+    label: string;
+    description: string;
+    settings: Pick<GenerationConfig, 'kAnonymity' | 'lDiversity' | 'epsilonDifferentialPrivacy'>;
+  }[] = [
+    { value: 'low', label: 'Low', description: 'Basic anonymization, suitable for internal use', settings: { kAnonymity: undefined, lDiversity: undefined, epsilonDifferentialPrivacy: undefined } },
+    { value: 'medium', label: 'Medium', description: 'GDPR compliant, k-anonymity applied', settings: { kAnonymity: 5, lDiversity: undefined, epsilonDifferentialPrivacy: undefined } },
+    { value: 'high', label: 'High', description: 'HIPAA compliant, differential privacy', settings: { kAnonymity: 5, lDiversity: 2, epsilonDifferentialPrivacy: 1 } },
+    { value: 'maximum', label: 'Maximum', description: 'Intelligence grade, maximum privacy guarantees', settings: { kAnonymity: 10, lDiversity: 3, epsilonDifferentialPrivacy: 0.5 } }
   ];
 
+  const outputFormats: { value: SyntheticDataConfig['outputFormat']; label: string }[] = [
+    { value: 'json', label: 'JSON' },
+    { value: 'csv', label: 'CSV' },
+    { value: 'parquet', label: 'Parquet' },
+    { value: 'arrow', label: 'Arrow IPC' },
+    { value: 'sql', label: 'SQL' }
+  ];
+
+  const getPrivacySettings = (level: SyntheticDataConfig['privacyLevel']) =>
+    privacyLevels.find(option => option.value === level)?.settings || privacyLevels[0].settings;
+
+  const formatPrivacySettings = (settings: { kAnonymity?: number; lDiversity?: number; epsilon?: number }) =>
+    [
+      settings.kAnonymity !== undefined && `k=${settings.kAnonymity}`,
+      settings.lDiversity !== undefined && `l=${settings.lDiversity}`,
+      settings.epsilon !== undefined && `ε=${settings.epsilon}`
+    ].filter(Boolean).join(' · ');
+
+  const describePrivacyReport = (report: SyntheticPrivacyReport) =>
+    [
+      report.quasiIdentifiers.length > 0 && `Generalized: ${report.quasiIdentifiers.join(', ')}`,
+      report.suppressedRecords > 0 && `${report.suppressedRecords.toLocaleString()} records suppressed`,
+      ...report.warnings
+    ].filter(Boolean).join('\n');
+
   const fetchDataSources = async () => {
     try {
       const response = await fetch('/api/data-sources');
@@ -309,21 +343,33 @@ export default function SyntheticData() {
           dataType: string;
           recordCount: number;
           outputFormat?: string;
-        }) => ({
-          id: dataset.id,
-          name: dataset.name,
-          sourceDataset: `${dataset.dataType} template`,
-          outputFormat: dataset.outputFormat || 'json',
-          privacyLevel: 'medium' as const,
-          preserveStatistics: true,
-          preserveRelationships: true,
-          configuration: {
-            recordCount: dataset.recordCount,
-            transformationRules: [],
-            includeMetadata: true,
-            generateReport: true
+          parameters?: string;
+        }) => {
+          // The stored configuration keeps the seed and privacy settings across edits
+          let parameters: Record<string, unknown> = {};
+          try {
+            parameters = dataset.parameters ? JSON.parse(dataset.parameters) : {};
+          } catch {
+            parameters = {};
           }
-        }));
+
+          return {
+            id: dataset.id,
+            name: dataset.name,
+            sourceDataset: `${dataset.dataType} template`,
+            outputFormat: (parameters.outputFormat as SyntheticDataConfig['outputFormat']) || 'json',
+            privacyLevel: (parameters.privacyLevel as SyntheticDataConfig['privacyLevel']) || 'low',
+            preserveStatistics: true,
+            preserveRelationships: true,
+            configuration: {
+              ...parameters,
+              recordCount: dataset.recordCount,
+              transformationRules: [],
+              includeMetadata: true,
+              generateReport: true
+            }
+          };
+        });
         
         setConfigs(convertedConfigs);
       }
@@ -366,6 +412,7 @@ export default function SyntheticData() {
           endTime?: string;
           outputFile?: string;
           errorMessage?: string;
+          privacyReport?: SyntheticPrivacyReport;
         }) => ({
           id: job.id,
           configId: job.datasetId,
@@ -375,7 +422,8 @@ export default function SyntheticData() {
           startTime: new Date(job.startTime),
           endTime: job.endTime ? new Date(job.endTime) : undefined,
           outputFile: job.outputFile,
-          errorMessage: job.errorMessage
+          errorMessage: job.errorMessage,
+          privacyReport: job.privacyReport || undefined
         }));
         
         setJobs(convertedJobs);
@@ -438,6 +486,7 @@ export default function SyntheticData() {
               endTime?: string;
               outputFile?: string;
               errorMessage?: string;
+              privacyReport?: SyntheticPrivacyReport;
             }) => ({
               id: job.id,
               configId: job.datasetId,
@@ -447,7 +496,8 @@ export default function SyntheticData() {
               startTime: new Date(job.startTime),
               endTime: job.endTime ? new Date(job.endTime) : undefined,
               outputFile: job.outputFile,
-              errorMessage: job.errorMessage
+              errorMessage: job.errorMessage,
+              privacyReport: job.privacyReport || undefined
             }));
             
             // Only update if there are actual changes to prevent unnecessary re-renders
@@ -664,7 +714,8 @@ export default function SyntheticData() {
             startTime: new Date(result.job.startTime || result.job.createdAt),
             endTime: result.job.endTime ? new Date(result.job.endTime) : undefined,
             outputFile: result.job.outputFile,
-            errorMessage: result.job.errorMessage
+            errorMessage: result.job.errorMessage,
+            privacyReport: result.job.privacyReport || undefined
           };
           
           // Add the new job to the jobs state immediately
@@ -796,10 +847,12 @@ export default function SyntheticData() {
         dataType,
         recordCount: newConfigRecordCount,
         schema,
-        outputFormat: 'json' as const,
+        outputFormat: newConfigOutputFormat,
         configuration: {
           seed: Math.floor(Math.random() * 10000),
-          locale: 'en'
+          locale: 'en',
+          privacyLevel: newConfigPrivacy,
+          ...getPrivacySettings(newConfigPrivacy)
         },
         // Include source data ID for realistic generation when using a data source
         ...(newConfigSource && !useTemplate ? { sourceDataId: newConfigSource } : {})
@@ -833,6 +886,7 @@ export default function SyntheticData() {
         setSelectedTemplate('');
         setNewConfigPrivacy('medium');
         setNewConfigRecordCount(10000);
+        setNewConfigOutputFormat('json');
         
         toast.success(
           'Configuration Created',
@@ -896,6 +950,7 @@ export default function SyntheticData() {
     setNewConfigName(config.name);
     setNewConfigRecordCount(config.configuration.recordCount);
     setNewConfigPrivacy(config.privacyLevel);
+    setNewConfigOutputFormat(config.outputFormat);
     setShowEditConfig(true);
   };
 
@@ -906,10 +961,12 @@ export default function SyntheticData() {
       const updateData = {
         name: newConfigName,
         recordCount: newConfigRecordCount,
-        outputFormat: editingConfig.outputFormat,
+        outputFormat: newConfigOutputFormat,
         configuration: {
           ...editingConfig.configuration,
-          recordCount: newConfigRecordCount
+          recordCount: newConfigRecordCount,
+          privacyLevel: newConfigPrivacy,
+          ...getPrivacySettings(newConfigPrivacy)
         }
       };
 
@@ -928,6 +985,7 @@ export default function SyntheticData() {
         setEditingConfig(null);
         setNewConfigName('');
         setNewConfigRecordCount(10000);
+        setNewConfigOutputFormat('json');
         setNewConfigPrivacy('medium');
         
         toast.success('Configuration Updated', `Successfully updated "${newConfigName}".`);
@@ -1355,10 +1413,14 @@ export default function SyntheticData() {
                         Statistics Preserved
                       </span>
                     )}
-                    {config.configuration.kAnonymity && (
+                    {(config.configuration.kAnonymity || config.configuration.epsilonDifferentialPrivacy) && (
                       <span className="flex items-center gap-1 text-xs text-gray-600">
                         <ShieldCheckIcon className="h-4 w-4" />
-                        k={config.configuration.kAnonymity}
+                        {formatPrivacySettings({
+                          kAnonymity: config.configuration.kAnonymity,
+                          lDiversity: config.configuration.lDiversity,
+                          epsilon: config.configuration.epsilonDifferentialPrivacy
+                        })}
                       </span>
                     )}
                   </div>
@@ -1374,6 +1436,19 @@ export default function SyntheticData() {
                       <EyeIcon className="h-4 w-4" />
                       Preview
                     </button>
+                    {jobs.some(job => job.configId === config.id && job.status === 'completed') && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setReportConfig(config);
+                        }}
+                        className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                        title="Compare with the source data"
+                      >
+                        <ChartBarIcon className="h-4 w-4" />
+                        Report
+                      </button>
+                    )}
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -1414,6 +1489,7 @@ export default function SyntheticData() {
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Progress</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Records</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Privacy</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Started</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
                       </tr>
@@ -1446,6 +1522,23 @@ export default function SyntheticData() {
                           <td className="px-6 py-4 text-sm text-gray-900">
                             {job.recordsGenerated.toLocaleString()}
                           </td>
+                          <td className="px-6 py-4 text-sm text-gray-600">
+                            {job.privacyReport ? (
+                              <span
+                                className={`flex items-center gap-1 ${job.privacyReport.warnings.length > 0 ? 'text-yellow-700' : ''}`}
+                                title={describePrivacyReport(job.privacyReport) || undefined}
+                              >
+                                <ShieldCheckIcon className="h-4 w-4" />
+                                {formatPrivacySettings({
+                                  kAnonymity: job.privacyReport.achievedK,
+                                  lDiversity: job.privacyReport.achievedL,
+                                  epsilon: job.privacyReport.epsilonSpent
+                                }) || 'None'}
+                              </span>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </td>
                           <td className="px-6 py-4 text-sm text-gray-600">
                             {formatTime(job.startTime)}
                           </td>
@@ -1617,6 +1710,19 @@ export default function SyntheticData() {
                     />
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Output Format</label>
+                    <select
+                      value={newConfigOutputFormat}
+                      onChange={(e) => setNewConfigOutputFormat(e.target.value as SyntheticDataConfig['outputFormat'])}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {outputFormats.map((format) => (
+                        <option key={format.value} value={format.value}>{format.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-3">Privacy Level</label>
                     <div className="space-y-2">
@@ -1632,6 +1738,15 @@ export default function SyntheticData() {
                           <div>
                             <p className="font-medium text-gray-900">{level.label}</p>
                             <p className="text-sm text-gray-600">{level.description}</p>
+                            {level.value !== 'low' && (
+                              <p className="text-xs text-gray-500">
+                                {formatPrivacySettings({
+                                  kAnonymity: level.settings.kAnonymity,
+                                  lDiversity: level.settings.lDiversity,
+                                  epsilon: level.settings.epsilonDifferentialPrivacy
+                                })}
+                              </p>
+                            )}
                           </div>
                         </label>
                       ))}
@@ -1756,6 +1871,15 @@ export default function SyntheticData() {
                           <div>
                             <p className="font-medium text-gray-900">{level.label}</p>
                             <p className="text-sm text-gray-600">{level.description}</p>
+                            {level.value !== 'low' && (
+                              <p className="text-xs text-gray-500">
+                                {formatPrivacySettings({
+                                  kAnonymity: level.settings.kAnonymity,
+                                  lDiversity: level.settings.lDiversity,
+                                  epsilon: level.settings.epsilonDifferentialPrivacy
+                                })}
+                              </p>
+                            )}
                           </div>
                         </label>
                       ))}
@@ -1771,6 +1895,19 @@ export default function SyntheticData() {
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     />
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Output Format</label>
+                    <select
+                      value={newConfigOutputFormat}
+                      onChange={(e) => setNewConfigOutputFormat(e.target.value as SyntheticDataConfig['outputFormat'])}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {outputFormats.map((format) => (
+                        <option key={format.value} value={format.value}>{format.label}</option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
 
                 <div className="flex justify-end space-x-3 mt-6">
@@ -1793,6 +1930,15 @@ export default function SyntheticData() {
           )}
 
           {/* Preview Modal */}
+          {reportConfig && (
+            <SyntheticQualityReport
+              datasetId={reportConfig.id}
+              datasetName={reportConfig.name}
+              isOpen={!!reportConfig}
+              onClose={() => setReportConfig(null)}
+            />
+          )}
+
           {showPreviewModal && (
             <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50" onClick={() => setShowPreviewModal(false)}>
               <div className="bg-white rounded-lg border-2 border-gray-600 p-6 max-w-4xl w-full max-h-[80vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
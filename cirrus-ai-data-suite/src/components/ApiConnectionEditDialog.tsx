@@ -223,9 +223,16 @@ export default function ApiConnectionEditDialog({
                     <option value="apiKey">API Key</option>
                     <option value="bearer">Bearer Token</option>
                     <option value="basic">Basic Auth</option>
+                    <option value="oauth2">OAuth 2.0</option>
                   </select>
                 </div>
 
+                {formData.authType === 'oauth2' && (
+                  <p className="text-sm text-gray-600">
+                    The stored client credentials and tokens are kept. Tokens are renewed automatically before they expire.
+                  </p>
+                )}
+
                 {formData.authType === 'apiKey' && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700">
@@ -1,34 +1,9 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import type { ClassificationLevel, DisseminationControl } from '@/types/classification';
 
-export type ClassificationLevel = 
-  | 'UNCLASSIFIED'
-  | 'CUI'
-  | 'CONFIDENTIAL'
-  | 'SECRET'
-  | 'TOP SECRET'
-  | 'TOP SECRET//SCI';
-
-// Dissemination Control Markings per DoDM 5200.01
-export type DisseminationControl = 
-  | 'NOFORN'           // Not Releasable to Foreign Nationals
-  | 'REL TO USA'       // Releasable to USA only
-  | 'REL TO USA, FVEY' // Five Eyes
-  | 'REL TO USA, NATO' // NATO
-  | 'FOUO'             // For Official Use Only
-  | 'LES'              // Law Enforcement Sensitive
-  | 'ORCON'            // Originator Controlled
-  | 'PROPIN'           // Proprietary Information
-  | 'RELIDO'           // Releasable by Information Disclosure Official
-  | 'EXDIS'            // Exclusive Distribution
-  | 'NODIS'            // No Distribution
-  | 'CLOSE HOLD'       // Close Hold
-  | 'TK'               // Talent Keyhole
-  | 'HCS'              // HUMINT Control System
-  | 'SI'               // Special Intelligence
-  | 'GAMMA'            // GAMMA
-  | 'CNWDI';           // Critical Nuclear Weapon Design Information
+export type { ClassificationLevel, DisseminationControl } from '@/types/classification';
 
 interface ClassificationConfig {
   level: ClassificationLevel;
@@ -37,7 +12,7 @@ interface ClassificationConfig {
   borderColor: string;
 }
 
-const classificationConfigs: Record<ClassificationLevel, ClassificationConfig> = {
+export const classificationConfigs: Record<ClassificationLevel, ClassificationConfig> = {
   'UNCLASSIFIED': {
     level: 'UNCLASSIFIED',
     backgroundColor: 'bg-green-800', // Darker green for UNCLASSIFIED
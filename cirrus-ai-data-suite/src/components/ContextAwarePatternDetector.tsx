@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { HybridPatternService, HybridMatch, HybridDetectionResult } from '@/services/hybridPatternService';
-import { AlertCircle, CheckCircle, XCircle, Database, FileText, Network, Users } from 'lucide-react';
+import { AlertCircle, CheckCircle, XCircle, Cpu, Database, FileText, Network, Users } from 'lucide-react';
 import { ClusterPatternDetector } from './ClusterPatternDetector';
 import { SensitivePattern } from '@/types';
 
@@ -93,6 +93,7 @@ export function ContextAwarePatternDetector({ text, onPatternSelect }: Props) {
   };
 
   const getMethodIcon = (method: string) => {
+    if (method === 'ml-ner') return <Cpu className="w-4 h-4 text-indigo-600" />;
     return method === 'field-aware' ? 
       <Database className="w-4 h-4 text-blue-600" /> : 
       <FileText className="w-4 h-4 text-purple-600" />;
@@ -127,6 +128,12 @@ export function ContextAwarePatternDetector({ text, onPatternSelect }: Props) {
             <FileText className="w-4 h-4 text-purple-600" />
             <span className="text-blue-700">Context-Aware:</span> <span className="font-semibold text-gray-900">{stats.contextAware}</span>
           </div>
+          {stats.mlNer > 0 && (
+            <div className="flex items-center gap-1">
+              <Cpu className="w-4 h-4 text-indigo-600" />
+              <span className="text-blue-700">Local NER:</span> <span className="font-semibold text-gray-900">{stats.mlNer}</span>
+            </div>
+          )}
           {stats.relationships.totalRelationships > 0 && (
             <>
               <div className="flex items-center gap-1">
@@ -354,6 +361,12 @@ export function ContextAwarePatternDetector({ text, onPatternSelect }: Props) {
                       <span>Context-aware</span>
                     </div>
                   )}
+                  {patternMatches.some(m => m.method === 'ml-ner') && (
+                    <div className="flex items-center gap-1">
+                      <Cpu className="w-3 h-3 text-indigo-600" />
+                      <span>Local NER</span>
+                    </div>
+                  )}
                 </div>
                 <button
                   onClick={() => acceptPattern(pattern)}
@@ -16,6 +16,7 @@ import { DataSourceDetails } from './dataSourceTable/DataSourceDetails';
 import { EmptyState } from './dataSourceTable/EmptyState';
 import { LoadingState } from './dataSourceTable/LoadingState';
 import { SourceTypeIcon } from './dataSourceTable/SourceTypeIcon';
+import { ClassificationBadge } from './dataSourceTable/ClassificationBadge';
 
 export default function DataSourceTable({
   dataSources,
@@ -35,6 +36,8 @@ export default function DataSourceTable({
   onAskAI,
   refreshingSource,
   initialExpandedRow,
+  canEdit,
+  canDelete,
 }: DataSourceTableProps) {
   const {
     sortField,
@@ -180,6 +183,7 @@ export default function DataSourceTable({
                       <div>
                         <div className="flex items-center space-x-2">
                           <div className="text-sm font-medium text-gray-900">{source.name}</div>
+                          <ClassificationBadge marking={source.classification} />
                           {source.metadata && typeof source.metadata === 'object' && 'isEnhanced' in source.metadata && (source.metadata as { isEnhanced: boolean }).isEnhanced && (
                             <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
                               Enhanced
@@ -253,6 +257,8 @@ export default function DataSourceTable({
                       onRefresh={onRefresh}
                       onAskAI={onAskAI}
                       refreshing={refreshingSource === source.id}
+                      canEdit={canEdit ? canEdit(source) : true}
+                      canDelete={canDelete ? canDelete(source) : true}
                     />
                   </td>
                 </tr>
@@ -13,8 +13,8 @@ interface DatabaseConnectionFormProps {
 const DATABASE_TYPES: { value: DatabaseType; label: string; defaultPort: number; supported: boolean }[] = [
   { value: 'postgresql', label: 'PostgreSQL', defaultPort: 5432, supported: true },
   { value: 'mysql', label: 'MySQL', defaultPort: 3306, supported: true },
-  { value: 'mongodb', label: 'MongoDB', defaultPort: 27017, supported: false },
-  { value: 'mssql', label: 'SQL Server', defaultPort: 1433, supported: false },
+  { value: 'mongodb', label: 'MongoDB', defaultPort: 27017, supported: true },
+  { value: 'mssql', label: 'SQL Server', defaultPort: 1433, supported: true },
   { value: 'oracle', label: 'Oracle', defaultPort: 1521, supported: false },
   { value: 'db2', label: 'IBM DB2', defaultPort: 50000, supported: false },
   { value: 'snowflake', label: 'Snowflake', defaultPort: 443, supported: false },
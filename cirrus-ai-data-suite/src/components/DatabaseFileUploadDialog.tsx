@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, AlertCircle } from 'lucide-react';
+import EnhancedStreamingFileUpload from './EnhancedStreamingFileUpload';
+import { DatabaseConnection } from '@/types/connector';
+import { DATABASE_FILE_EXTENSIONS } from '@/utils/databaseFile';
+
+interface DatabaseFileUploadDialogProps {
+  onCreated: (connection: DatabaseConnection) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Database File Upload Dialog
+ * Uploads a SQLite or DuckDB file through the streaming upload and registers
+ * it as a database connection
+ */
+export function DatabaseFileUploadDialog({ onCreated, onCancel }: DatabaseFileUploadDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [registering, setRegistering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUploadComplete = async (
+    fileName: string,
+    storageKey: string,
+    fileSize: number,
+    mimeType: string,
+    uploadId: string
+  ) => {
+    setRegistering(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/database-connections/upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          uploadId,
+          name: name.trim() || undefined,
+          description: description.trim() || undefined
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to register database file');
+      }
+
+      onCreated(result);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to register database file');
+      console.error(`Failed to register database file ${fileName}:`, error);
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center">
+        <div
+          className="fixed inset-0 backdrop-blur-sm bg-gray-900/50 transition-opacity"
+          onClick={registering ? undefined : onCancel}
+        />
+
+        <div className="relative inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+          <div className="bg-white px-6 py-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">
+              Upload Database File
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+              SQLite (.sqlite, .sqlite3, .db) and DuckDB (.duckdb) files are opened read-only.
+              Their tables can then be browsed and imported like any other database.
+            </p>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Connection Name (optional)
+                </label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={registering}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Defaults to the file name"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Description (optional)
+                </label>
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  disabled={registering}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <EnhancedStreamingFileUpload
+                accept={{ 'application/octet-stream': DATABASE_FILE_EXTENSIONS }}
+                onUploadComplete={handleUploadComplete}
+                onError={setError}
+              />
+
+              {registering && (
+                <div className="flex items-center gap-2 text-sm text-blue-700">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Opening database file...
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                  <div className="flex items-start gap-2">
+                    <AlertCircle className="h-4 w-4 text-red-600 flex-shrink-0 mt-0.5" />
+                    <p className="text-sm text-red-700">{error}</p>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="mt-6 flex justify-end">
+              <button
+                onClick={onCancel}
+                disabled={registering}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  CheckIcon,
+  DocumentArrowUpIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+
+import { Pattern } from '@/services/patternService';
+import { RedactionStyle } from '@/services/patternTestingService';
+import type { DocumentLocation, DocumentRedaction, MatchDecision } from '@/types/redaction';
+
+interface DocumentRedactionPanelProps {
+  patterns: Pattern[];
+}
+
+const STYLES: Array<{ label: string; style: RedactionStyle }> = [
+  { label: 'Full ([REDACTED])', style: { type: 'full', format: '[REDACTED]' } },
+  { label: 'Mask (****)', style: { type: 'mask', format: '****' } },
+  { label: 'Token ([PII-1])', style: { type: 'token', format: '[PII-{index}]' } },
+  { label: 'Pseudonym ([PII-…])', style: { type: 'pseudonym', format: '[PII-{token}]' } }
+];
+
+const DECISION_COLORS: Record<MatchDecision, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  accepted: 'bg-red-100 text-red-800',
+  rejected: 'bg-green-100 text-green-800'
+};
+
+const describeLocation = (location: DocumentLocation) =>
+  'page' in location
+    ? `Page ${location.page}`
+    : `${location.part.replace(/^word\//, '').replace(/\.xml$/, '')} ¶${location.paragraph + 1}`;
+
+export default function DocumentRedactionPanel({ patterns }: DocumentRedactionPanelProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [patternIds, setPatternIds] = useState<string[]>([]);
+  const [styleIndex, setStyleIndex] = useState(0);
+  const [review, setReview] = useState<DocumentRedaction | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (url: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Request failed');
+      }
+      setReview(body);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const findMatches = () => {
+    if (!file) return;
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('patternIds', JSON.stringify(patternIds));
+    formData.append('style', JSON.stringify(STYLES[styleIndex].style));
+    return request('/api/redaction/documents', { method: 'POST', body: formData });
+  };
+
+  const decide = (decisions: Record<string, MatchDecision>, all?: MatchDecision) =>
+    request(`/api/redaction/documents/${review!.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decisions, all })
+    });
+
+  const apply = () => request(`/api/redaction/documents/${review!.id}/apply`, { method: 'POST' });
+
+  const togglePattern = (id: string) =>
+    setPatternIds(ids => (ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id]));
+
+  const reset = () => {
+    setReview(null);
+    setFile(null);
+    setError(null);
+  };
+
+  if (!review) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-900 mb-2">Document (PDF or DOCX)</label>
+          <input
+            type="file"
+            accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="block w-full text-sm text-gray-900 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-900 mb-2">Patterns</label>
+          <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto border border-gray-200 rounded-lg p-3">
+            {patterns.filter(pattern => pattern.isActive).map(pattern => (
+              <label key={pattern.id} className="flex items-center gap-2 text-sm text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={patternIds.includes(pattern.id)}
+                  onChange={() => togglePattern(pattern.id)}
+                />
+                {pattern.name}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-900 mb-2">Replacement in Word documents</label>
+          <select
+            value={styleIndex}
+            onChange={(e) => setStyleIndex(Number(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+          >
+            {STYLES.map((option, index) => (
+              <option key={option.label} value={index}>{option.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-600 mt-1">PDF matches are always removed and covered with a black box.</p>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          onClick={findMatches}
+          disabled={!file || patternIds.length === 0 || busy}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {busy ? <ArrowPathIcon className="h-5 w-5 animate-spin" /> : <DocumentArrowUpIcon className="h-5 w-5" />}
+          Find Matches
+        </button>
+      </div>
+    );
+  }
+
+  const pending = review.matches.filter(match => match.decision === 'pending').length;
+  const accepted = review.matches.filter(match => match.decision === 'accepted').length;
+  const redacted = review.status === 'redacted';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium text-gray-900">{review.fileName}</p>
+          <p className="text-sm text-gray-600">
+            {review.matches.length} matches · {accepted} accepted · {pending} pending
+          </p>
+        </div>
+        {!redacted && review.matches.length > 0 && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => decide({}, 'accepted')}
+              disabled={busy}
+              className="px-3 py-1 text-sm bg-red-50 text-red-700 rounded-lg hover:bg-red-100"
+            >
+              Accept all
+            </button>
+            <button
+              onClick={() => decide({}, 'rejected')}
+              disabled={busy}
+              className="px-3 py-1 text-sm bg-green-50 text-green-700 rounded-lg hover:bg-green-100"
+            >
+              Reject all
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="max-h-96 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {review.matches.length === 0 && (
+          <p className="p-4 text-sm text-gray-600">The selected patterns found nothing in this document.</p>
+        )}
+        {review.matches.map(match => {
+          const at = match.context.indexOf(match.value);
+          return (
+            <div key={match.id} className="p-3 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 text-xs text-gray-600">
+                  <span className="font-medium text-gray-900">{match.pattern}</span>
+                  <span>{describeLocation(match.location)}</span>
+                  <span className={`px-2 py-0.5 rounded-full ${DECISION_COLORS[match.decision]}`}>{match.decision}</span>
+                </div>
+                <p className="text-sm text-gray-700 mt-1 break-words">
+                  {at >= 0 ? (
+                    <>
+                      {match.context.slice(0, at)}
+                      <mark className="bg-yellow-200">{match.value}</mark>
+                      {match.context.slice(at + match.value.length)}
+                    </>
+                  ) : match.context}
+                </p>
+              </div>
+              {!redacted && (
+                <div className="flex gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => decide({ [match.id]: 'accepted' })}
+                    disabled={busy}
+                    title="Redact this match"
+                    className="p-1 text-red-600 hover:bg-red-50 rounded"
+                  >
+                    <CheckIcon className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => decide({ [match.id]: 'rejected' })}
+                    disabled={busy}
+                    title="Keep this text"
+                    className="p-1 text-green-600 hover:bg-green-50 rounded"
+                  >
+                    <XMarkIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-between">
+        <button onClick={reset} className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50">
+          Another Document
+        </button>
+        {redacted ? (
+          <a
+            href={`/api/redaction/documents/${review.id}/download`}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+          >
+            <ArrowDownTrayIcon className="h-5 w-5" />
+            Download Redacted Document
+          </a>
+        ) : (
+          <button
+            onClick={apply}
+            disabled={busy || pending > 0}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {busy && <ArrowPathIcon className="h-5 w-5 animate-spin" />}
+            Redact {accepted} Matches
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -31,7 +31,7 @@ interface UploadRef {
 interface EnhancedStreamingFileUploadProps {
   accept?: Record<string, string[]>;
   maxSize?: number;
-  onUploadComplete: (fileName: string, storageKey: string, fileSize: number, mimeType: string) => void;
+  onUploadComplete: (fileName: string, storageKey: string, fileSize: number, mimeType: string, uploadId: string) => void;
   onError?: (error: string) => void;
 }
 
@@ -41,7 +41,9 @@ export default function EnhancedStreamingFileUpload({
     'text/csv': ['.csv'],
     'application/json': ['.json'],
     'application/pdf': ['.pdf'],
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx']
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+    'application/vnd.apache.parquet': ['.parquet']
   },
   maxSize = 5 * 1024 * 1024 * 1024, // 5GB
   onUploadComplete,
@@ -302,7 +304,7 @@ export default function EnhancedStreamingFileUpload({
         return newMap;
       });
 
-      onUploadComplete(fileName, storageKey, file.size, file.type || 'application/octet-stream');
+      onUploadComplete(fileName, storageKey, file.size, file.type || 'application/octet-stream', uploadId);
       logger.info(`Upload completed: ${fileName} with storage key: ${storageKey}`);
 
     } catch (error) {
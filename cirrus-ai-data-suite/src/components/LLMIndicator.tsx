@@ -124,6 +124,12 @@ export default function LLMIndicator({
       dot: 'bg-blue-500',
       icon: '☁️'
     },
+    local: {
+      bg: 'bg-amber-100',
+      text: 'text-amber-800',
+      dot: 'bg-amber-500',
+      icon: '🖥️'
+    },
     default: {
       bg: 'bg-gray-100',
       text: 'text-gray-800',
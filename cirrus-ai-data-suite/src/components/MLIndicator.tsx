@@ -130,7 +130,7 @@ export default function MLIndicator({
       text: 'text-indigo-800',
       dot: 'bg-indigo-500',
       icon: '💻',
-      name: 'Local Model'
+      name: 'Local NER'
     },
     default: {
       bg: 'bg-gray-100',
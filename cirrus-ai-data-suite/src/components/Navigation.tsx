@@ -104,8 +104,7 @@ interface NavigationProps {
 
 export default function Navigation({ isCollapsed = false }: NavigationProps) {
   const pathname = usePathname();
-  const { logout } = useAuth();
-  const isDevelopment = process.env.NODE_ENV === 'development';
+  const { logout, user } = useAuth();
   
   // State to track which sections are collapsed - start with all collapsed
   const [collapsedSections, setCollapsedSections] = useState<Set<string>>(
@@ -221,7 +220,7 @@ export default function Navigation({ isCollapsed = false }: NavigationProps) {
       <NavigationFooter
         isCollapsed={isCollapsed}
         currentPath={pathname}
-        isDevelopment={isDevelopment}
+        username={user?.displayName || user?.username}
         onLogout={logout}
       />
     </nav>
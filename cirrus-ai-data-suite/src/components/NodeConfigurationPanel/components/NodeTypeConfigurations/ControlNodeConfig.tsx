@@ -0,0 +1,140 @@
+import React from 'react';
+import { NodeConfig } from '../../types';
+import { FormField } from '../shared/FormField';
+import { InfoBox } from '../shared/InfoBox';
+import { SelectField } from '../shared/SelectField';
+
+interface ControlNodeConfigProps {
+  templateName: string;
+  config: NodeConfig;
+  errors: Record<string, string>;
+  onChange: (updates: Partial<NodeConfig>) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export function ControlNodeConfig({
+  templateName,
+  config,
+  errors,
+  onChange
+}: ControlNodeConfigProps) {
+  if (templateName === 'Conditional Branch') {
+    const conditions = typeof config.conditions === 'string'
+      ? config.conditions
+      : JSON.stringify(config.conditions ?? { id: 'root', operator: 'AND', conditions: [] }, null, 2);
+
+    return (
+      <div className="space-y-4">
+        <FormField label="Conditions" required error={errors.conditions}>
+          <textarea
+            value={conditions}
+            onChange={(e) => onChange({ conditions: e.target.value })}
+            className={`${inputClassName} font-mono text-sm`}
+            rows={12}
+            placeholder={`{
+  "id": "root",
+  "operator": "AND",
+  "conditions": [
+    { "id": "c1", "field": "email", "operator": "is_not_empty" },
+    { "id": "c2", "field": "age", "operator": "greater_or_equal", "value": 18 }
+  ]
+}`}
+          />
+        </FormField>
+
+        <InfoBox
+          type="info"
+          message="Conditions use the same format as data quality rules and can nest groups. Records that match go to the True output; all others go to the False output."
+        />
+      </div>
+    );
+  }
+
+  if (templateName === 'Data Merger') {
+    const strategy = String(config.mergeStrategy || 'union');
+    const joinKeys = Array.isArray(config.joinKeys) ? config.joinKeys.join(', ') : String(config.joinKeys || '');
+    const rightJoinKeys = Array.isArray(config.rightJoinKeys)
+      ? config.rightJoinKeys.join(', ')
+      : String(config.rightJoinKeys || '');
+
+    return (
+      <div className="space-y-4">
+        <FormField label="Merge Strategy" error={errors.mergeStrategy}>
+          <SelectField
+            value={strategy}
+            onChange={(value) => onChange({ mergeStrategy: value })}
+            options={[
+              { value: 'union', label: 'Union (append records)' },
+              { value: 'inner_join', label: 'Inner Join' },
+              { value: 'left_join', label: 'Left Join' },
+              { value: 'full_join', label: 'Full Outer Join' }
+            ]}
+          />
+        </FormField>
+
+        {strategy === 'union' ? (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={config.alignSchema !== false}
+              onChange={(e) => onChange({ alignSchema: e.target.checked })}
+            />
+            Align schemas (fill missing fields with null)
+          </label>
+        ) : (
+          <>
+            <FormField label="Join Keys" required error={errors.joinKeys}>
+              <input
+                type="text"
+                value={joinKeys}
+                onChange={(e) => onChange({ joinKeys: e.target.value })}
+                className={inputClassName}
+                placeholder="customer_id, region"
+              />
+            </FormField>
+
+            <FormField label="Right Join Keys" error={errors.rightJoinKeys}>
+              <input
+                type="text"
+                value={rightJoinKeys}
+                onChange={(e) => onChange({ rightJoinKeys: e.target.value })}
+                className={inputClassName}
+                placeholder="Leave empty when the key names match"
+              />
+            </FormField>
+
+            <FormField label="Conflict Suffix" error={errors.conflictSuffix}>
+              <input
+                type="text"
+                value={String(config.conflictSuffix ?? '_right')}
+                onChange={(e) => onChange({ conflictSuffix: e.target.value })}
+                className={inputClassName}
+              />
+            </FormField>
+
+            <InfoBox
+              type="info"
+              message="Input 1 is the left side of the join and Input 2 the right. Right-side fields that clash with left-side fields get the conflict suffix."
+            />
+          </>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={Boolean(config.deduplication)}
+            onChange={(e) => onChange({ deduplication: e.target.checked })}
+          />
+          Remove duplicate records
+        </label>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-sm text-gray-500">
+      No configuration available for this node type.
+    </div>
+  );
+}
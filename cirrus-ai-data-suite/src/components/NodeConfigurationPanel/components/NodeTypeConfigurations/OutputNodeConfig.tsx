@@ -17,8 +17,11 @@ export function OutputNodeConfig({
 }: OutputNodeConfigProps) {
   const outputFormats = [
     { value: 'json', label: 'JSON' },
+    { value: 'jsonl', label: 'JSON Lines' },
+    { value: 'jsonl.gz', label: 'JSON Lines (gzip)' },
     { value: 'csv', label: 'CSV' },
     { value: 'parquet', label: 'Parquet' },
+    { value: 'arrow', label: 'Arrow IPC' },
     { value: 'excel', label: 'Excel' },
     { value: 'database', label: 'Database' },
     { value: 's3', label: 'Amazon S3' },
@@ -26,6 +29,10 @@ export function OutputNodeConfig({
     { value: 'gcs', label: 'Google Cloud Storage' }
   ];
 
+  const fileFormats = ['json', 'jsonl', 'jsonl.gz', 'csv', 'parquet', 'arrow', 'excel'];
+  // Parquet, Arrow and gzipped JSON Lines files are compressed already
+  const compressibleFormats = ['json', 'jsonl', 'csv', 'excel'];
+
   const compressionTypes = [
     { value: 'none', label: 'None' },
     { value: 'gzip', label: 'Gzip' },
@@ -43,7 +50,7 @@ export function OutputNodeConfig({
         />
       </FormField>
 
-      {(config.format === 'json' || config.format === 'csv' || config.format === 'excel') && (
+      {fileFormats.includes(String(config.format || 'json')) && (
         <>
           <FormField label="File Path" error={errors.destination}>
             <input
@@ -55,13 +62,15 @@ export function OutputNodeConfig({
             />
           </FormField>
 
-          <FormField label="Compression">
-            <SelectField
-              value={String(config.compression || 'none')}
-              onChange={(value) => onChange({ compression: value })}
-              options={compressionTypes}
-            />
-          </FormField>
+          {compressibleFormats.includes(String(config.format || 'json')) && (
+            <FormField label="Compression">
+              <SelectField
+                value={String(config.compression || 'none')}
+                onChange={(value) => onChange({ compression: value })}
+                options={compressionTypes}
+              />
+            </FormField>
+          )}
         </>
       )}
 
@@ -24,6 +24,8 @@ export function PrivacyNodeConfig({
     { value: 'mask', label: 'Mask (Partial hiding)' },
     { value: 'encrypt', label: 'Encrypt' },
     { value: 'tokenize', label: 'Tokenize' },
+    { value: 'pseudonymize', label: 'Pseudonymize (consistent keyed tokens)' },
+    { value: 'fpe', label: 'Format-preserving encryption' },
     { value: 'remove', label: 'Remove Field' }
   ];
 
@@ -92,6 +94,12 @@ export function PrivacyNodeConfig({
         </FormField>
       )}
 
+      {(config.action === 'pseudonymize' || config.action === 'fpe') && (
+        <InfoBox
+          message="Values are replaced deterministically with the server's PSEUDONYMIZATION_KEY, so the same value gets the same replacement in every dataset and joins keep working. Admins can reverse them with the re-identification API."
+        />
+      )}
+
       {config.action === 'encrypt' && (
         <>
           <FormField label="Encryption Key" error={errors.encryptionKey}>
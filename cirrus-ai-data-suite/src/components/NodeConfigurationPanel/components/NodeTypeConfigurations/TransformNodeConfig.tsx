@@ -101,7 +101,7 @@ record.age > 18 && record.status === 'active'`}
 
           <InfoBox 
             type="info"
-            message="Write a JavaScript expression that returns true for records to keep."
+            message="Write an expression that is true for records to keep. Refer to fields as record.field and use comparisons, && || !, arithmetic, includes/startsWith/endsWith/toLowerCase/toUpperCase/trim, Number(), String() and Math.abs/round/floor/ceil/min/max."
           />
         </>
       )}
@@ -1,4 +1,5 @@
 export { SourceNodeConfig } from './SourceNodeConfig';
 export { TransformNodeConfig } from './TransformNodeConfig';
 export { PrivacyNodeConfig } from './PrivacyNodeConfig';
-export { OutputNodeConfig } from './OutputNodeConfig';
\ No newline at end of file
+export { OutputNodeConfig } from './OutputNodeConfig';
+export { ControlNodeConfig } from './ControlNodeConfig';
\ No newline at end of file
@@ -2,6 +2,7 @@ import React from 'react';
 import { ConfigurationPanelProps } from './types/configuration.types';
 import { useNodeConfiguration } from './hooks/useNodeConfiguration';
 import { useConfigurationResources } from './hooks/useConfigurationResources';
+import { getConfigurationType } from './utils';
 import { ConfigurationModal } from './components/ConfigurationModal';
 import { ResourceLoader } from './components/ResourceLoader';
 import { ValidationErrors } from './components/ValidationErrors';
@@ -9,7 +10,8 @@ import {
   SourceNodeConfig,
   TransformNodeConfig,
   PrivacyNodeConfig,
-  OutputNodeConfig
+  OutputNodeConfig,
+  ControlNodeConfig
 } from './components/NodeTypeConfigurations';
 
 export function NodeConfigurationPanel({
@@ -30,7 +32,7 @@ export function NodeConfigurationPanel({
   const renderNodeConfiguration = () => {
     if (!node) return null;
 
-    switch (node.data.nodeType || 'custom') {
+    switch (getConfigurationType(node)) {
       case 'source':
         return (
           <SourceNodeConfig
@@ -73,6 +75,16 @@ export function NodeConfigurationPanel({
           />
         );
 
+      case 'control':
+        return (
+          <ControlNodeConfig
+            templateName={String(node.data.metadata?.templateName || node.data.label)}
+            config={config}
+            errors={validation.errors}
+            onChange={updateConfig}
+          />
+        );
+
       default:
         return (
           <div className="text-sm text-gray-500">
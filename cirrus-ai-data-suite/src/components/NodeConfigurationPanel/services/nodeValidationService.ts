@@ -1,5 +1,6 @@
 import { PipelineNode } from '@/types/pipeline';
 import { ValidationState, NodeConfig } from '../types/configuration.types';
+import { getConfigurationType } from '../utils';
 
 export const nodeValidationService = {
   validate(node: PipelineNode | null, config: NodeConfig): ValidationState {
@@ -10,7 +11,7 @@ export const nodeValidationService = {
     const errors: Record<string, string> = {};
     let isValid = true;
 
-    switch (node.data.nodeType || 'custom') {
+    switch (getConfigurationType(node)) {
       case 'source':
         const sourceErrors = this.validateSourceNode(node, config);
         Object.assign(errors, sourceErrors);
@@ -35,6 +36,12 @@ export const nodeValidationService = {
         isValid = Object.keys(outputErrors).length === 0;
         break;
 
+      case 'control':
+        const controlErrors = this.validateControlNode(node, config);
+        Object.assign(errors, controlErrors);
+        isValid = Object.keys(controlErrors).length === 0;
+        break;
+
       default:
         isValid = true;
     }
@@ -156,6 +163,38 @@ export const nodeValidationService = {
     return errors;
   },
 
+  validateControlNode(node: PipelineNode, config: NodeConfig): Record<string, string> {
+    const errors: Record<string, string> = {};
+    const templateName = String(node.data.metadata?.templateName || node.data.label);
+
+    if (templateName === 'Conditional Branch') {
+      let conditions: unknown = config.conditions;
+      if (typeof conditions === 'string') {
+        try {
+          conditions = JSON.parse(conditions);
+        } catch {
+          errors.conditions = 'Conditions must be valid JSON';
+          return errors;
+        }
+      }
+      const list = Array.isArray(conditions)
+        ? conditions
+        : (conditions as { conditions?: unknown } | null)?.conditions;
+      if ((!Array.isArray(list) || list.length === 0) && !config.condition) {
+        errors.conditions = 'At least one condition is required';
+      }
+    }
+
+    if (templateName === 'Data Merger' && config.mergeStrategy && config.mergeStrategy !== 'union') {
+      const joinKeys = Array.isArray(config.joinKeys) ? config.joinKeys : String(config.joinKeys || '').trim();
+      if (joinKeys.length === 0) {
+        errors.joinKeys = 'Join keys are required for joins';
+      }
+    }
+
+    return errors;
+  },
+
   validateOutputNode(node: PipelineNode, config: NodeConfig): Record<string, string> {
     const errors: Record<string, string> = {};
 
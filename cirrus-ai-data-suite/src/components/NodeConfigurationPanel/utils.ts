@@ -1,4 +1,15 @@
+import { PipelineNode } from '@/types/pipeline';
 import { NodeConfig } from './types';
+import { FilterExpression } from '@/utils/filterExpression';
+
+/**
+ * Get the configuration form type for a node. Control nodes are recognised by
+ * their node type because templates don't set data.nodeType.
+ */
+export function getConfigurationType(node: PipelineNode): string {
+  if (node.data.nodeType) return node.data.nodeType;
+  return node.type === 'control' ? 'control' : 'custom';
+}
 
 export function validateNodeConfig(nodeType: string, config: NodeConfig): Record<string, string> {
   const errors: Record<string, string> = {};
@@ -47,6 +58,12 @@ export function validateNodeConfig(nodeType: string, config: NodeConfig): Record
       } else if (config.transformType === 'filter') {
         if (!config.filterExpression) {
           errors.filterExpression = 'Filter expression is required';
+        } else {
+          try {
+            FilterExpression.parse(String(config.filterExpression));
+          } catch (error) {
+            errors.filterExpression = error instanceof Error ? error.message : 'Invalid filter expression';
+          }
         }
       } else if (config.transformType === 'aggregate') {
         if (!config.groupBy) {
@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { PipelineDiff, PipelineEdge, PipelineFieldChange, PipelineNodeChange } from '@/types/pipeline';
+
+interface PipelineDiffViewProps {
+  diff: PipelineDiff;
+  // Labels for node ids, used to describe edges whose nodes were removed or renamed
+  nodeLabels?: Record<string, string>;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+function FieldChanges({ changes }: { changes: PipelineFieldChange[] }) {
+  return (
+    <table className="w-full text-xs mt-1">
+      <tbody>
+        {changes.map(change => (
+          <tr key={change.path} className="border-t border-gray-100 align-top">
+            <td className="py-1 pr-3 font-mono text-gray-700 whitespace-nowrap">{change.path}</td>
+            <td className="py-1 pr-3 text-red-700 line-through break-all">{formatValue(change.before)}</td>
+            <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function NodeName({ node }: { node: PipelineNodeChange }) {
+  return (
+    <>
+      <span className="font-medium">{node.label}</span>
+      {node.templateName && node.templateName !== node.label && (
+        <span className="text-gray-500"> ({node.templateName})</span>
+      )}
+    </>
+  );
+}
+
+export default function PipelineDiffView({ diff, nodeLabels = {} }: PipelineDiffViewProps) {
+  const describeEdge = (edge: PipelineEdge) => {
+    const source = nodeLabels[edge.source] || edge.source;
+    const target = nodeLabels[edge.target] || edge.target;
+    return `${source}${edge.sourceHandle ? ` [${edge.sourceHandle}]` : ''} → ${target}${edge.targetHandle ? ` [${edge.targetHandle}]` : ''}`;
+  };
+
+  if (!diff.hasChanges) {
+    return <p className="text-sm text-gray-500">No changes between these versions</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {diff.settings.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-900">Pipeline settings</h4>
+          <FieldChanges changes={diff.settings} />
+        </div>
+      )}
+
+      {(diff.nodes.added.length > 0 || diff.nodes.removed.length > 0 || diff.nodes.modified.length > 0) && (
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-1">Nodes</h4>
+          <ul className="space-y-2">
+            {diff.nodes.added.map(node => (
+              <li key={`added-${node.nodeId}`} className="text-green-800">
+                <span className="inline-block w-5 font-mono">+</span>
+                <NodeName node={node} />
+              </li>
+            ))}
+            {diff.nodes.removed.map(node => (
+              <li key={`removed-${node.nodeId}`} className="text-red-800">
+                <span className="inline-block w-5 font-mono">−</span>
+                <NodeName node={node} />
+              </li>
+            ))}
+            {diff.nodes.modified.map(node => (
+              <li key={`modified-${node.nodeId}`} className="text-yellow-800">
+                <span className="inline-block w-5 font-mono">~</span>
+                <NodeName node={node} />
+                <div className="ml-5">
+                  <FieldChanges changes={node.changes} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(diff.edges.added.length > 0 || diff.edges.removed.length > 0) && (
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-1">Connections</h4>
+          <ul className="space-y-1">
+            {diff.edges.added.map(edge => (
+              <li key={`added-${edge.id}`} className="text-green-800">
+                <span className="inline-block w-5 font-mono">+</span>
+                {describeEdge(edge)}
+              </li>
+            ))}
+            {diff.edges.removed.map(edge => (
+              <li key={`removed-${edge.id}`} className="text-red-800">
+                <span className="inline-block w-5 font-mono">−</span>
+                {describeEdge(edge)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,419 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  XMarkIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+  ClockIcon,
+  ArrowPathIcon,
+  MinusCircleIcon
+} from '@heroicons/react/24/outline';
+
+import {
+  Pipeline,
+  PipelineDiff,
+  PipelineExecution,
+  PipelineExecutionPage,
+  NodeExecutionMetrics,
+  NodeExecutionStatus,
+  ExecutionStatus
+} from '@/types/pipeline';
+import { PipelineService } from '@/services/pipelineService';
+import PipelineDiffView from './PipelineDiffView';
+
+interface PipelineRunHistoryProps {
+  pipeline: Pipeline;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+const RUN_STATUS_COLORS: Record<ExecutionStatus, string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  running: 'bg-green-100 text-green-800',
+  completed: 'bg-blue-100 text-blue-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-yellow-100 text-yellow-800'
+};
+
+const NODE_STATUS_BARS: Record<NodeExecutionStatus, string> = {
+  pending: 'bg-gray-200',
+  running: 'bg-green-400',
+  completed: 'bg-blue-500',
+  failed: 'bg-red-500',
+  skipped: 'bg-gray-300'
+};
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+function NodeStatusIcon({ status }: { status: NodeExecutionStatus }) {
+  switch (status) {
+    case 'completed':
+      return <CheckCircleIcon className="w-4 h-4 text-blue-600" />;
+    case 'failed':
+      return <XCircleIcon className="w-4 h-4 text-red-600" />;
+    case 'running':
+      return <ArrowPathIcon className="w-4 h-4 text-green-600 animate-spin" />;
+    case 'skipped':
+      return <MinusCircleIcon className="w-4 h-4 text-gray-400" />;
+    default:
+      return <ClockIcon className="w-4 h-4 text-gray-400" />;
+  }
+}
+
+export default function PipelineRunHistory({ pipeline, isOpen, onClose }: PipelineRunHistoryProps) {
+  const [history, setHistory] = useState<PipelineExecutionPage | null>(null);
+  const [page, setPage] = useState(1);
+  const [selectedRun, setSelectedRun] = useState<PipelineExecution | null>(null);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [versionChange, setVersionChange] = useState<{ previousVersion: number; diff: PipelineDiff } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async (pageToLoad: number) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const result = await PipelineService.getExecutionHistory(pipeline.id, pageToLoad, PAGE_SIZE);
+      setHistory(result);
+    } catch (loadError) {
+      console.error('Failed to load run history:', loadError);
+      setError('Failed to load run history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pipeline.id]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedRun(null);
+      setSelectedNodeId(null);
+      loadHistory(page);
+    }
+  }, [isOpen, page, loadHistory]);
+
+  const handleSelectRun = async (run: PipelineExecution) => {
+    try {
+      setError(null);
+      const fullRun = await PipelineService.getExecution(pipeline.id, run.id);
+      setSelectedRun(fullRun);
+      setSelectedNodeId(null);
+      setVersionChange(null);
+
+      // Show what changed in the pipeline since the run before this one
+      const runs = history?.executions || [];
+      const previousRun = runs[runs.findIndex(candidate => candidate.id === run.id) + 1];
+      if (fullRun.pipelineVersion && previousRun?.pipelineVersion && previousRun.pipelineVersion !== fullRun.pipelineVersion) {
+        const diff = await PipelineService.getVersionDiff(pipeline.id, previousRun.pipelineVersion, fullRun.pipelineVersion);
+        setVersionChange({ previousVersion: previousRun.pipelineVersion, diff });
+      }
+    } catch (loadError) {
+      console.error('Failed to load run:', loadError);
+      setError('Failed to load run details');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  // Timeline: nodes in the order they ran, followed by nodes that never started
+  const nodeTimeline: NodeExecutionMetrics[] = selectedRun
+    ? Object.values(selectedRun.metrics.nodeMetrics || {}).sort((a, b) => {
+        if (!a.startedAt) return b.startedAt ? 1 : 0;
+        if (!b.startedAt) return -1;
+        return new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime();
+      })
+    : [];
+  const longestNode = Math.max(1, ...nodeTimeline.map(node => node.duration));
+  const selectedNode = nodeTimeline.find(node => node.nodeId === selectedNodeId);
+  const selectedSamples = selectedRun && selectedNodeId ? selectedRun.outputSamples?.[selectedNodeId] || [] : [];
+  const selectedNodeLogs = selectedRun && selectedNodeId
+    ? selectedRun.logs.filter(log => log.nodeId === selectedNodeId)
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black bg-opacity-50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl max-w-6xl w-full mx-4 h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Run History</h2>
+            <p className="text-sm text-gray-600 mt-1">{pipeline.name}</p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => loadHistory(page)}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              title="Refresh"
+            >
+              <ArrowPathIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        <div className="flex-1 flex min-h-0">
+          {/* Run list */}
+          <div className="w-80 border-r border-gray-200 flex flex-col">
+            <div className="flex-1 overflow-y-auto">
+              {isLoading && !history ? (
+                <div className="text-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                </div>
+              ) : history && history.executions.length > 0 ? (
+                history.executions.map(run => (
+                  <button
+                    key={run.id}
+                    onClick={() => handleSelectRun(run)}
+                    className={`w-full text-left px-4 py-3 border-b border-gray-100 hover:bg-gray-50 ${
+                      selectedRun?.id === run.id ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-900">
+                        {run.startedAt.toLocaleString()}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${RUN_STATUS_COLORS[run.status]}`}>
+                        {run.status}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>{run.triggeredBy}</span>
+                      <span>{run.pipelineVersion ? `v${run.pipelineVersion}` : 'unsaved'}</span>
+                      <span>{run.metrics.recordsProcessed.toLocaleString()} records</span>
+                      <span>{formatDuration(run.metrics.duration)}</span>
+                    </div>
+                  </button>
+                ))
+              ) : (
+                <p className="text-sm text-gray-500 text-center py-12">No runs yet</p>
+              )}
+            </div>
+
+            {history && history.pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between px-4 py-2 border-t border-gray-200 text-sm">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={!history.pagination.hasPreviousPage}
+                  className="text-blue-600 hover:text-blue-800 disabled:text-gray-300"
+                >
+                  Newer
+                </button>
+                <span className="text-gray-500">
+                  {history.pagination.page} / {history.pagination.totalPages}
+                </span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={!history.pagination.hasNextPage}
+                  className="text-blue-600 hover:text-blue-800 disabled:text-gray-300"
+                >
+                  Older
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Run details */}
+          <div className="flex-1 overflow-y-auto p-6">
+            {!selectedRun ? (
+              <p className="text-sm text-gray-500 text-center py-12">Select a run to inspect it</p>
+            ) : (
+              <div className="space-y-6">
+                <div className="grid grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-500">Duration</p>
+                    <p className="font-medium text-gray-900">{formatDuration(selectedRun.metrics.duration)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Records</p>
+                    <p className="font-medium text-gray-900">{selectedRun.metrics.recordsProcessed.toLocaleString()}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Data</p>
+                    <p className="font-medium text-gray-900">{formatBytes(selectedRun.metrics.dataProcessed)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Nodes</p>
+                    <p className="font-medium text-gray-900">
+                      {selectedRun.metrics.completedNodes} / {selectedRun.metrics.totalNodes}
+                      {selectedRun.metrics.failedNodes > 0 && (
+                        <span className="text-red-600"> ({selectedRun.metrics.failedNodes} failed)</span>
+                      )}
+                    </p>
+                  </div>
+                </div>
+
+                {selectedRun.error && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+                    {selectedRun.error}
+                  </div>
+                )}
+
+                <div className="text-sm text-gray-700">
+                  {selectedRun.pipelineVersion
+                    ? <>Ran pipeline version <span className="font-medium">{selectedRun.pipelineVersion}</span></>
+                    : 'Ran unsaved changes from the builder'}
+                </div>
+
+                {versionChange && (
+                  <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4">
+                    <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                      Changed since the previous run (version {versionChange.previousVersion})
+                    </h3>
+                    <PipelineDiffView
+                      diff={versionChange.diff}
+                      nodeLabels={Object.fromEntries(pipeline.nodes.map(node => [node.id, node.data.label]))}
+                    />
+                  </div>
+                )}
+
+                {/* Node timeline */}
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">Timeline</h3>
+                  <div className="space-y-1">
+                    {nodeTimeline.map(node => (
+                      <button
+                        key={node.nodeId}
+                        onClick={() => setSelectedNodeId(node.nodeId)}
+                        className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-left hover:bg-gray-50 ${
+                          selectedNodeId === node.nodeId ? 'bg-blue-50 ring-1 ring-blue-200' : ''
+                        }`}
+                      >
+                        <NodeStatusIcon status={node.status} />
+                        <span className="w-48 truncate text-sm text-gray-900">{node.label}</span>
+                        <div className="flex-1 h-2 bg-gray-100 rounded">
+                          <div
+                            className={`h-2 rounded ${NODE_STATUS_BARS[node.status]}`}
+                            style={{ width: `${Math.max(2, (node.duration / longestNode) * 100)}%` }}
+                          />
+                        </div>
+                        <span className="w-28 text-right text-xs text-gray-500">
+                          {node.recordsIn.toLocaleString()} → {node.recordsOut.toLocaleString()}
+                        </span>
+                        <span className="w-16 text-right text-xs text-gray-500">{formatDuration(node.duration)}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Node output */}
+                {selectedNode && (
+                  <div className="space-y-4">
+                    <h3 className="text-sm font-semibold text-gray-900">
+                      {selectedNode.label}
+                      <span className="ml-2 font-normal text-gray-500">
+                        {formatBytes(selectedNode.bytesIn)} in, {formatBytes(selectedNode.bytesOut)} out
+                      </span>
+                    </h3>
+
+                    {selectedNode.error && (
+                      <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+                        {selectedNode.error}
+                      </div>
+                    )}
+
+                    {selectedSamples.length === 0 && !selectedNode.error && (
+                      <p className="text-sm text-gray-500">This node produced no output</p>
+                    )}
+
+                    {selectedSamples.map(sample => {
+                      const columns = Array.from(new Set(sample.records.flatMap(record => Object.keys(record))));
+                      return (
+                        <div key={sample.port}>
+                          <p className="text-xs font-medium text-gray-700 mb-1">
+                            Port <span className="font-mono">{sample.port}</span>: {sample.recordCount.toLocaleString()} records
+                            {sample.recordCount > sample.records.length && ` (showing first ${sample.records.length})`}
+                          </p>
+                          {sample.records.length > 0 && (
+                            <div className="overflow-x-auto border border-gray-200 rounded-md">
+                              <table className="min-w-full text-xs">
+                                <thead className="bg-gray-50">
+                                  <tr>
+                                    {columns.map(column => (
+                                      <th key={column} className="px-2 py-1 text-left font-medium text-gray-700">{column}</th>
+                                    ))}
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {sample.records.map((record, index) => (
+                                    <tr key={index} className="border-t border-gray-100">
+                                      {columns.map(column => (
+                                        <td key={column} className="px-2 py-1 text-gray-900 max-w-xs truncate">
+                                          {formatCell(record[column])}
+                                        </td>
+                                      ))}
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          )}
+                          {sample.report && (
+                            <pre className="mt-2 max-h-64 overflow-auto bg-gray-50 border border-gray-200 rounded-md p-2 text-xs text-gray-800">
+                              {JSON.stringify(sample.report, null, 2)}
+                            </pre>
+                          )}
+                        </div>
+                      );
+                    })}
+
+                    {selectedNodeLogs.length > 0 && (
+                      <div>
+                        <p className="text-xs font-medium text-gray-700 mb-1">Logs</p>
+                        <ul className="text-xs font-mono space-y-0.5">
+                          {selectedNodeLogs.map((log, index) => (
+                            <li
+                              key={index}
+                              className={log.level === 'error' ? 'text-red-700' : log.level === 'warn' ? 'text-yellow-700' : 'text-gray-700'}
+                            >
+                              {new Date(log.timestamp).toLocaleTimeString()} {log.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
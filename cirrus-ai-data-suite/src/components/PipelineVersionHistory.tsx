@@ -0,0 +1,239 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { XMarkIcon, ArrowPathIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+
+import { Pipeline, PipelineDiff, PipelineVersionSummary } from '@/types/pipeline';
+import { PipelineService } from '@/services/pipelineService';
+import { useDialog } from '@/contexts/DialogContext';
+import PipelineDiffView from './PipelineDiffView';
+
+interface PipelineVersionHistoryProps {
+  pipeline: Pipeline;
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: (pipeline: Pipeline) => void;
+}
+
+export default function PipelineVersionHistory({ pipeline, isOpen, onClose, onRestored }: PipelineVersionHistoryProps) {
+  const dialog = useDialog();
+  const [versions, setVersions] = useState<PipelineVersionSummary[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [diff, setDiff] = useState<PipelineDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setVersions(await PipelineService.getVersions(pipeline.id));
+    } catch (loadError) {
+      console.error('Failed to load versions:', loadError);
+      setError('Failed to load versions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pipeline.id]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedVersion(null);
+      setDiff(null);
+      loadVersions();
+    }
+  }, [isOpen, loadVersions]);
+
+  // By default a version is compared with the one before it
+  const handleSelectVersion = (version: number) => {
+    const index = versions.findIndex(candidate => candidate.version === version);
+    setSelectedVersion(version);
+    setCompareTo(versions[index + 1]?.version ?? null);
+  };
+
+  useEffect(() => {
+    if (selectedVersion === null || compareTo === null) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    setDiff(null);
+    PipelineService.getVersionDiff(pipeline.id, compareTo, selectedVersion)
+      .then(result => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch(diffError => {
+        console.error('Failed to compare versions:', diffError);
+        if (!cancelled) setError('Failed to compare versions');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pipeline.id, selectedVersion, compareTo]);
+
+  const handleRestore = async (version: number) => {
+    const confirmed = await dialog.showConfirm({
+      title: 'Restore Version',
+      message: `Restore version ${version}? It will be saved as a new version; no history is lost.`,
+      type: 'warning',
+      confirmText: 'Restore',
+      cancelText: 'Cancel'
+    });
+    if (!confirmed) return;
+
+    try {
+      setIsRestoring(true);
+      setError(null);
+      const restored = await PipelineService.restoreVersion(pipeline.id, version);
+      onRestored(restored);
+      await loadVersions();
+      setSelectedVersion(restored.version);
+      setCompareTo(version);
+    } catch (restoreError) {
+      console.error('Failed to restore version:', restoreError);
+      setError(restoreError instanceof Error ? restoreError.message : 'Failed to restore version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const nodeLabels = Object.fromEntries(pipeline.nodes.map(node => [node.id, node.data.label]));
+  const currentVersion = versions[0]?.version;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black bg-opacity-50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-lg shadow-xl max-w-5xl w-full mx-4 h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Versions</h2>
+            <p className="text-sm text-gray-600 mt-1">{pipeline.name}</p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={loadVersions}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              title="Refresh"
+            >
+              <ArrowPathIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        <div className="flex-1 flex min-h-0">
+          {/* Version list */}
+          <div className="w-72 border-r border-gray-200 overflow-y-auto">
+            {isLoading && versions.length === 0 ? (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              </div>
+            ) : versions.length > 0 ? (
+              versions.map(version => (
+                <button
+                  key={version.version}
+                  onClick={() => handleSelectVersion(version.version)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 hover:bg-gray-50 ${
+                    selectedVersion === version.version ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">Version {version.version}</span>
+                    {version.version === currentVersion && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">current</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {version.createdAt.toLocaleString()} by {version.createdBy}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {version.nodeCount} nodes, {version.edgeCount} connections
+                    {version.restoredFrom !== undefined && ` · restored from v${version.restoredFrom}`}
+                  </div>
+                </button>
+              ))
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-12">No saved versions</p>
+            )}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 overflow-y-auto p-6">
+            {selectedVersion === null ? (
+              <p className="text-sm text-gray-500 text-center py-12">Select a version to see what changed</p>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-sm text-gray-700">
+                    <span>Changes in version {selectedVersion} since</span>
+                    <select
+                      value={compareTo ?? ''}
+                      onChange={(e) => setCompareTo(e.target.value ? Number(e.target.value) : null)}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="">—</option>
+                      {versions
+                        .filter(version => version.version !== selectedVersion)
+                        .map(version => (
+                          <option key={version.version} value={version.version}>Version {version.version}</option>
+                        ))}
+                    </select>
+                  </div>
+
+                  {selectedVersion !== currentVersion && (
+                    <button
+                      onClick={() => handleRestore(selectedVersion)}
+                      disabled={isRestoring}
+                      className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-md text-sm font-medium transition-colors"
+                    >
+                      <ArrowUturnLeftIcon className="w-4 h-4" />
+                      Restore this version
+                    </button>
+                  )}
+                </div>
+
+                {compareTo === null ? (
+                  <p className="text-sm text-gray-500">
+                    {versions[versions.length - 1]?.version === selectedVersion
+                      ? 'This is the first saved version'
+                      : 'Choose a version to compare with'}
+                  </p>
+                ) : diff ? (
+                  <PipelineDiffView diff={diff} nodeLabels={nodeLabels} />
+                ) : (
+                  <div className="text-center py-8">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  XMarkIcon,
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+
+import { DataQualityMetrics, FieldMetric } from '@/types/synthetic';
+
+interface SyntheticQualityReportProps {
+  datasetId: string;
+  datasetName: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Higher is better for utility scores and worse for risk scores
+const scoreColor = (value: number, isRisk: boolean) => {
+  const good = isRisk ? value <= 0.05 : value >= 0.8;
+  const fair = isRisk ? value <= 0.1 : value >= 0.6;
+  if (good) return 'text-green-700';
+  return fair ? 'text-yellow-700' : 'text-red-700';
+};
+
+const formatPValue = (metric: FieldMetric) => {
+  const pValue = metric.fieldType === 'numeric' ? metric.kolmogorovSmirnovTest : metric.chiSquareTest;
+  if (pValue === undefined) return '-';
+  return pValue < 0.0001 ? '<0.0001' : pValue.toFixed(4);
+};
+
+function DistributionComparison({ metric }: { metric: FieldMetric }) {
+  const buckets = Array.from(new Set([
+    ...Object.keys(metric.originalDistribution),
+    ...Object.keys(metric.syntheticDistribution)
+  ]));
+
+  return (
+    <div className="space-y-1">
+      {buckets.map(bucket => {
+        const original = Number(metric.originalDistribution[bucket] || 0);
+        const synthetic = Number(metric.syntheticDistribution[bucket] || 0);
+        return (
+          <div key={bucket} className="grid grid-cols-12 gap-2 items-center text-xs">
+            <span className="col-span-3 truncate text-gray-700" title={bucket}>{bucket}</span>
+            <div className="col-span-9 space-y-0.5">
+              <div className="flex items-center gap-2">
+                <div className="h-2 bg-gray-500 rounded" style={{ width: `${original * 80}%` }} />
+                <span className="text-gray-500">{formatPercent(original)}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="h-2 bg-blue-500 rounded" style={{ width: `${synthetic * 80}%` }} />
+                <span className="text-blue-700">{formatPercent(synthetic)}</span>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Synthetic Quality Report
+ * Shows how closely a synthetic dataset follows its source data and how close
+ * its records come to real ones
+ */
+export default function SyntheticQualityReport({ datasetId, datasetName, isOpen, onClose }: SyntheticQualityReportProps) {
+  const [report, setReport] = useState<DataQualityMetrics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedField, setSelectedField] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadReport = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setSelectedField(null);
+        const response = await fetch(`/api/synthetic/${datasetId}`);
+        if (!response.ok) {
+          throw new Error('Failed to load dataset');
+        }
+        const dataset = await response.json();
+        setReport(dataset.qualityReport || null);
+      } catch (loadError) {
+        console.error('Failed to load quality report:', loadError);
+        setError('Failed to load quality report');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [isOpen, datasetId]);
+
+  const downloadReport = () => {
+    if (!report) return;
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${datasetName.replace(/[^a-zA-Z0-9]/g, '_')}_quality_report.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!isOpen) return null;
+
+  // Largest correlation changes first
+  const correlationPairs = report
+    ? report.correlationDrift.fields.flatMap((field, i) =>
+        report.correlationDrift.fields.slice(i + 1).map((other, offset) => {
+          const j = i + 1 + offset;
+          const original = report.correlationDrift.original[i][j];
+          const synthetic = report.correlationDrift.synthetic[i][j];
+          return { pair: `${field} / ${other}`, original, synthetic, drift: Math.abs(synthetic - original) };
+        })
+      ).sort((a, b) => b.drift - a.drift).slice(0, 10)
+    : [];
+
+  const summary = report ? [
+    { label: 'Statistical Similarity', value: report.metrics.statisticalSimilarity, isRisk: false },
+    { label: 'Attribute Correlation', value: report.metrics.attributeCorrelation, isRisk: false },
+    { label: 'Data Utility', value: report.metrics.dataUtility, isRisk: false },
+    { label: 'Privacy Risk', value: report.metrics.privacyRisk, isRisk: true },
+    { label: 'Re-identification Risk', value: report.metrics.reIdentificationRisk, isRisk: true }
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white rounded-lg border-2 border-gray-600 p-6 max-w-5xl w-full max-h-[85vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Fidelity &amp; Privacy Report</h3>
+            <p className="text-sm text-gray-600">{datasetName}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {report && (
+              <button
+                onClick={downloadReport}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded hover:bg-gray-50"
+              >
+                <ArrowDownTrayIcon className="h-4 w-4" />
+                Download JSON
+              </button>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <ArrowPathIcon className="h-6 w-6 animate-spin text-blue-600" />
+            <span className="ml-3 text-gray-600">Loading report...</span>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>
+        ) : !report ? (
+          <div className="bg-gray-50 rounded-lg p-6 text-center text-sm text-gray-600">
+            No report yet. Reports are built when a dataset created from a data source is generated.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-xs text-gray-500">
+              {report.syntheticRecordCount.toLocaleString()} synthetic records compared with {report.sourceRecordCount.toLocaleString()} source records
+              on {new Date(report.generatedAt).toLocaleString()}
+            </p>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {summary.map(item => (
+                <div key={item.label} className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500">{item.label}</p>
+                  <p className={`text-xl font-semibold ${scoreColor(item.value, item.isRisk)}`}>{formatPercent(item.value)}</p>
+                </div>
+              ))}
+            </div>
+
+            {report.warnings.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                <div className="flex items-start gap-2">
+                  <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600 flex-shrink-0" />
+                  <ul className="text-sm text-yellow-800 space-y-1">
+                    {report.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                  </ul>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Distance to Closest Record</h4>
+              <p className="text-xs text-gray-500 mb-2">
+                Synthetic records should be no closer to the source data than unseen real records are.
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div className="bg-gray-50 rounded p-3">
+                  <p className="text-xs text-gray-500">Synthetic median</p>
+                  <p className="font-medium">{report.distanceToClosestRecord.syntheticMedian.toFixed(4)}</p>
+                </div>
+                <div className="bg-gray-50 rounded p-3">
+                  <p className="text-xs text-gray-500">Holdout median</p>
+                  <p className="font-medium">{report.distanceToClosestRecord.holdoutMedian.toFixed(4)}</p>
+                </div>
+                <div className="bg-gray-50 rounded p-3">
+                  <p className="text-xs text-gray-500">Closer than holdout 5th percentile</p>
+                  <p className="font-medium">
+                    {report.distanceToClosestRecord.closerThanHoldout.toLocaleString()} of {report.distanceToClosestRecord.sampleSize.toLocaleString()}
+                  </p>
+                </div>
+                <div className="bg-gray-50 rounded p-3">
+                  <p className="text-xs text-gray-500">Exact copies of source records</p>
+                  <p className="font-medium">{report.distanceToClosestRecord.exactMatches.toLocaleString()}</p>
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Field Distributions</h4>
+              <table className="w-full text-sm border border-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Distance</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">p-value</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Dependency Drift</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {report.fieldLevelMetrics.map(metric => (
+                    <React.Fragment key={metric.fieldName}>
+                      <tr
+                        className="hover:bg-gray-50 cursor-pointer"
+                        onClick={() => setSelectedField(selectedField === metric.fieldName ? null : metric.fieldName)}
+                      >
+                        <td className="px-3 py-2 font-medium text-gray-900">{metric.fieldName}</td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {metric.fieldType === 'numeric' ? 'Numeric (KS)' : 'Categorical (TVD, χ²)'}
+                        </td>
+                        <td className={`px-3 py-2 ${scoreColor(metric.distance, true)}`}>{metric.distance.toFixed(4)}</td>
+                        <td className="px-3 py-2 text-gray-600">{formatPValue(metric)}</td>
+                        <td className="px-3 py-2 text-gray-600">{metric.mutualInformation.toFixed(4)}</td>
+                      </tr>
+                      {selectedField === metric.fieldName && (
+                        <tr>
+                          <td colSpan={5} className="px-3 py-3 bg-gray-50">
+                            <p className="text-xs text-gray-500 mb-2">
+                              <span className="inline-block w-2 h-2 bg-gray-500 rounded mr-1" />Source
+                              <span className="inline-block w-2 h-2 bg-blue-500 rounded ml-3 mr-1" />Synthetic
+                            </p>
+                            <DistributionComparison metric={metric} />
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {correlationPairs.length > 0 && (
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2">Correlation Drift</h4>
+                <p className="text-xs text-gray-500 mb-2">
+                  Pearson correlation between numeric fields; mean drift {report.correlationDrift.meanAbsoluteDrift.toFixed(4)},
+                  largest {report.correlationDrift.maxAbsoluteDrift.toFixed(4)}
+                </p>
+                <table className="w-full text-sm border border-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Fields</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Synthetic</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Drift</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {correlationPairs.map(pair => (
+                      <tr key={pair.pair}>
+                        <td className="px-3 py-2 text-gray-900">{pair.pair}</td>
+                        <td className="px-3 py-2 text-gray-600">{pair.original.toFixed(3)}</td>
+                        <td className="px-3 py-2 text-gray-600">{pair.synthetic.toFixed(3)}</td>
+                        <td className={`px-3 py-2 ${scoreColor(pair.drift / 2, true)}`}>{pair.drift.toFixed(3)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
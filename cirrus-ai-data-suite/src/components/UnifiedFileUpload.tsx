@@ -21,6 +21,7 @@ interface ProcessedFile {
   contentTruncated: boolean;
   originalContentLength: number;
   storageKey?: string;
+  contentEncoding?: 'base64'; // Excel and Parquet files are sent as base64
 }
 
 interface UnifiedFileUploadProps {
@@ -42,6 +43,8 @@ export default function UnifiedFileUpload({
     'application/json': ['.json'],
     'application/pdf': ['.pdf'],
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+    'application/vnd.apache.parquet': ['.parquet'],
   }
 }: UnifiedFileUploadProps) {
   const useEnhancedUpload = process.env.NEXT_PUBLIC_USE_ENHANCED_UPLOAD === 'true';
@@ -51,6 +54,15 @@ export default function UnifiedFileUpload({
   const [streamingFiles, setStreamingFiles] = useState<Map<string, string>>(new Map()); // filename -> storageKey
   const [processing, setProcessing] = useState(false);
 
+  const readAsBase64 = async (file: File): Promise<string> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  };
+
   const extractTextFromPdf = async (file: File): Promise<string> => {
     const pdfjs = await import('pdfjs-dist');
     
@@ -153,9 +165,13 @@ ${largeFiles.map(f => `• ${f.name} (${(f.size / 1024 / 1024).toFixed(1)}MB)`).
       const processedFiles = await Promise.all(
         uploadedFiles.map(async (file) => {
           let text: string;
+          // Workbooks and Parquet files are binary; the backend parses them from storage
+          const binary = /\.(xlsx|parquet)$/i.test(file.name);
           
           if (file.type === 'application/pdf') {
             text = await extractTextFromPdf(file);
+          } else if (binary) {
+            text = await readAsBase64(file);
           } else {
             text = await file.text();
           }
@@ -167,7 +183,8 @@ ${largeFiles.map(f => `• ${f.name} (${(f.size / 1024 / 1024).toFixed(1)}MB)`).
             size: file.size,
             content: text, // Full content - backend will store in external storage
             contentTruncated: false,
-            originalContentLength: text.length,
+            originalContentLength: binary ? file.size : text.length,
+            ...(binary && { contentEncoding: 'base64' as const })
           };
         })
       );
@@ -270,7 +287,7 @@ ${largeFiles.map(f => `• ${f.name} (${(f.size / 1024 / 1024).toFixed(1)}MB)`).
                   <span className="font-medium">Click to upload multiple files</span> or drag and drop
                 </p>
                 <p className="text-xs text-gray-500 mt-1">
-                  TXT, CSV, JSON, PDF, DOCX • Regular upload up to {formatBytes(maxRegularFileSize)}
+                  TXT, CSV, JSON, PDF, DOCX, XLSX, Parquet • Regular upload up to {formatBytes(maxRegularFileSize)}
                 </p>
                 <button
                   onClick={(e) => {
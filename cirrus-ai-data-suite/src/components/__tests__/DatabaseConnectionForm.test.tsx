@@ -35,8 +35,10 @@ describe('DatabaseConnectionForm', () => {
       expect(options).toHaveLength(9);
       expect(options[0]).toHaveTextContent('PostgreSQL');
       expect(options[1]).toHaveTextContent('MySQL');
-      expect(options[2]).toHaveTextContent('MongoDB (Coming Soon)');
-      expect(options[3]).toHaveTextContent('SQL Server (Coming Soon)');
+      expect(options[2]).toHaveTextContent('MongoDB');
+      expect(options[2]).not.toHaveTextContent('Coming Soon');
+      expect(options[3]).toHaveTextContent('SQL Server');
+      expect(options[3]).not.toHaveTextContent('Coming Soon');
       expect(options[4]).toHaveTextContent('Oracle (Coming Soon)');
       expect(options[5]).toHaveTextContent('IBM DB2 (Coming Soon)');
       expect(options[6]).toHaveTextContent('Snowflake (Coming Soon)');
@@ -55,14 +57,14 @@ describe('DatabaseConnectionForm', () => {
       const select = screen.getByLabelText(/Database Type/i);
       const options = select.querySelectorAll('option');
 
-      // PostgreSQL and MySQL should be enabled
-      expect(options[0]).not.toBeDisabled();
-      expect(options[1]).not.toBeDisabled();
-
-      // All others should be disabled
-      for (let i = 2; i < options.length; i++) {
-        expect(options[i]).toBeDisabled();
-      }
+      const supported = ['postgresql', 'mysql', 'mongodb', 'mssql'];
+      options.forEach(option => {
+        if (supported.includes(option.value)) {
+          expect(option).not.toBeDisabled();
+        } else {
+          expect(option).toBeDisabled();
+        }
+      });
     });
 
     test('should have gray text for disabled options', () => {
@@ -77,9 +79,11 @@ describe('DatabaseConnectionForm', () => {
       const options = select.querySelectorAll('option');
 
       // Check disabled options have gray text class
-      for (let i = 2; i < options.length; i++) {
-        expect(options[i]).toHaveClass('text-gray-400');
-      }
+      options.forEach(option => {
+        if (option.disabled) {
+          expect(option).toHaveClass('text-gray-400');
+        }
+      });
     });
 
     test('should default to PostgreSQL if no connection provided', () => {
@@ -97,7 +101,7 @@ describe('DatabaseConnectionForm', () => {
     test('should default to supported type if unsupported type provided', () => {
       render(
         <DatabaseConnectionForm
-          connection={{ type: 'mongodb' as DatabaseType }}
+          connection={{ type: 'oracle' as DatabaseType }}
           onSubmit={mockOnSubmit}
           onCancel={mockOnCancel}
         />
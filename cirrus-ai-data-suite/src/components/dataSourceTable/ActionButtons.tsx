@@ -23,6 +23,8 @@ interface ActionButtonsProps {
   onRefresh?: (source: DataSource) => void;
   onAskAI?: (source: DataSource) => void;
   refreshing?: boolean;
+  canEdit?: boolean;
+  canDelete?: boolean;
 }
 
 export function ActionButtons({
@@ -36,6 +38,8 @@ export function ActionButtons({
   onRefresh,
   onAskAI,
   refreshing,
+  canEdit = true,
+  canDelete = true,
 }: ActionButtonsProps) {
   const handleClick = (e: React.MouseEvent, action: () => void) => {
     e.stopPropagation();
@@ -92,7 +96,7 @@ export function ActionButtons({
           </button>
         </Tooltip>
       )}
-      {source.type === 'api' && onRefresh && (
+      {source.type === 'api' && onRefresh && canEdit && (
         <Tooltip text="Refresh data from API">
           <button
             onClick={(e) => handleClick(e, () => onRefresh(source))}
@@ -103,22 +107,26 @@ export function ActionButtons({
           </button>
         </Tooltip>
       )}
-      <Tooltip text="Edit data source name">
-        <button
-          onClick={(e) => handleClick(e, () => onEdit(source))}
-          className="text-gray-400 hover:text-blue-600 transition-colors"
-        >
-          <PencilIcon className="h-4 w-4" />
-        </button>
-      </Tooltip>
-      <Tooltip text="Delete this data source permanently">
-        <button
-          onClick={(e) => handleClick(e, () => onDelete(source.id))}
-          className="text-gray-400 hover:text-red-600 transition-colors"
-        >
-          <TrashIcon className="h-4 w-4" />
-        </button>
-      </Tooltip>
+      {canEdit && (
+        <Tooltip text="Edit data source name">
+          <button
+            onClick={(e) => handleClick(e, () => onEdit(source))}
+            className="text-gray-400 hover:text-blue-600 transition-colors"
+          >
+            <PencilIcon className="h-4 w-4" />
+          </button>
+        </Tooltip>
+      )}
+      {canDelete && (
+        <Tooltip text="Delete this data source permanently">
+          <button
+            onClick={(e) => handleClick(e, () => onDelete(source.id))}
+            className="text-gray-400 hover:text-red-600 transition-colors"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </Tooltip>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+import React from 'react';
+import { classificationConfigs } from '@/components/ClassificationBanner';
+import { parseMarking } from '@/utils/classification';
+
+interface ClassificationBadgeProps {
+  marking?: string | null;
+}
+
+export function ClassificationBadge({ marking }: ClassificationBadgeProps) {
+  if (!marking) return null;
+
+  let level;
+  try {
+    level = parseMarking(marking).level;
+  } catch {
+    return null;
+  }
+  const config = classificationConfigs[level];
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold ${config.backgroundColor} ${config.textColor}`}
+      title="Classification marking"
+    >
+      {marking}
+    </span>
+  );
+}
@@ -11,14 +11,14 @@ import {
 interface NavigationFooterProps {
   isCollapsed: boolean;
   currentPath: string | null;
-  isDevelopment: boolean;
+  username?: string;
   onLogout: () => void;
 }
 
 export default function NavigationFooter({
   isCollapsed,
   currentPath,
-  isDevelopment,
+  username,
   onLogout
 }: NavigationFooterProps) {
   const footerLinks = [
@@ -45,16 +45,18 @@ export default function NavigationFooter({
         </Link>
       ))}
       
-      {!isDevelopment && (
-        <button
-          onClick={onLogout}
-          className={`flex ${isCollapsed ? 'justify-center' : 'gap-x-3'} items-center text-gray-400 hover:text-white text-sm w-full rounded-md p-2 transition-colors hover:bg-gray-800`}
-          title={isCollapsed ? "Sign Out" : undefined}
-        >
-          <ArrowRightOnRectangleIcon className={`${isCollapsed ? 'h-5 w-5' : 'h-4 w-4'}`} />
-          {!isCollapsed && "Sign Out"}
-        </button>
-      )}
+      <button
+        onClick={onLogout}
+        className={`flex ${isCollapsed ? 'justify-center' : 'gap-x-3'} items-center text-gray-400 hover:text-white text-sm w-full rounded-md p-2 transition-colors hover:bg-gray-800`}
+        title={isCollapsed ? (username ? `Sign Out ${username}` : 'Sign Out') : undefined}
+      >
+        <ArrowRightOnRectangleIcon className={`${isCollapsed ? 'h-5 w-5' : 'h-4 w-4'}`} />
+        {!isCollapsed && (
+          <span className="truncate">
+            Sign Out{username && <span className="text-gray-500"> ({username})</span>}
+          </span>
+        )}
+      </button>
       
       <div className={`mt-6 pt-4 border-t border-gray-800 ${isCollapsed ? 'text-center' : ''}`}>
         <p className="text-xs text-gray-500">
@@ -373,6 +373,33 @@ export const helpContent = {
           'Some complex data relationships may not be perfectly preserved'
         ]
       },
+      {
+        heading: 'Privacy Levels',
+        content: 'The privacy level decides which guarantees are enforced during generation. Medium applies k-anonymity (k=5); High adds l-diversity (l=2) and differential privacy (ε=1); Maximum uses k=10, l=3 and ε=0.5.',
+        tips: [
+          'Quasi-identifiers such as age, ZIP code, dates and city are generalized into ranges until every group of matching records has at least k members',
+          'Records that still stand out after generalization are suppressed, up to 5% of the dataset',
+          'With differential privacy, noise is added to the source statistics and raw sample values are no longer copied into the output',
+          'The Privacy column of the jobs table shows the k, l and ε actually achieved; hover it to see warnings'
+        ],
+        warnings: [
+          'Generalized quasi-identifiers are written as ranges such as "30-39" or "941**" instead of exact values',
+          'Set min and max constraints on numeric fields so their ranges are not taken from the source data'
+        ]
+      },
+      {
+        heading: 'Fidelity & Privacy Report',
+        content: 'Datasets created from a data source are compared with that source after every generation. Open the report with the "Report" button on the configuration card, or read it from /api/synthetic/[id] as qualityReport.',
+        tips: [
+          'Distance is the Kolmogorov-Smirnov statistic for numeric fields and total variation distance for categorical fields; 0 means identical',
+          'Correlation drift compares Pearson correlations between numeric fields in the source and synthetic data',
+          'Distance to closest record checks that synthetic rows are no closer to real rows than held-out real rows are; much closer rows suggest memorization',
+          'Download the report as JSON to share it with a privacy review'
+        ],
+        warnings: [
+          'Identifier-like fields and fields generalized by k-anonymity are left out of the comparison'
+        ]
+      },
       {
         heading: 'Generation Templates',
         content: 'Use pre-built templates for common data types or create custom templates for your specific needs.',
@@ -724,8 +751,8 @@ export const helpContent = {
         steps: [
           'Sequential Processing: Connect nodes in series for step-by-step processing',
           'Parallel Processing: Split data flows to process multiple branches simultaneously',
-          'Conditional Logic: Use Conditional Branch nodes to route data based on criteria',
-          'Data Merging: Combine multiple data streams with Data Merger nodes',
+          'Conditional Logic: Use Conditional Branch nodes to route each record to the True or False output using quality-rule style condition groups',
+          'Data Merging: Union streams with schema alignment, or inner/left/full join them on key fields with Data Merger nodes',
           'Error Handling: Design fallback paths for robust pipeline execution'
         ],
         warnings: [
@@ -756,7 +783,7 @@ export const helpContent = {
         content: 'Pipelines can be triggered by external ML systems via REST API for seamless AIOps workflows.',
         steps: [
           'API Endpoints: External systems can execute pipelines via /api/pipelines/{id}/execute',
-          'Status Monitoring: Check execution progress via /api/pipelines/{id}/execution/{executionId}',
+          'Status Monitoring: Check execution progress via /api/pipelines/{id}/executions/{executionId}',
           'Data Lineage: Retrieve complete data lineage via /api/pipelines/{id}/lineage',
           'Webhook Integration: Receive notifications when pipeline execution completes',
           'Context Passing: External systems can pass job context and requirements'
@@ -772,7 +799,7 @@ export const helpContent = {
         heading: 'Advanced Features',
         content: 'Leverage advanced pipeline features for enterprise-grade data preparation workflows.',
         steps: [
-          'Version Control: Track pipeline changes and maintain deployment history',
+          'Version Control: Every save creates a version; compare versions, see what changed between runs, and restore an older version from the Versions button',
           'Environment Deployment: Deploy pipelines to development, staging, and production',
           'Quality Gates: Implement data quality checks before downstream processing',
           'Compliance Tracking: Maintain audit trails and data lineage for regulatory requirements',
@@ -807,7 +834,7 @@ export const helpContent = {
     sections: [
       {
         heading: 'Overview',
-        content: 'Connect to relational databases like PostgreSQL and MySQL to import structured data. Browse schemas, preview tables, and import data with automatic transformation to JSON format.',
+        content: 'Connect to databases like PostgreSQL, MySQL, SQL Server and MongoDB, or upload SQLite and DuckDB files, to import structured data. Browse schemas, preview tables, and import data with automatic transformation to JSON format.',
         tips: [
           'Test your connection before saving to ensure credentials are correct',
           'Use read-only database users for added security',
@@ -830,7 +857,8 @@ export const helpContent = {
         tips: [
           'Use environment-specific connection names like "prod-db" or "staging-db"',
           'Store credentials securely - they are encrypted at rest',
-          'Default ports: PostgreSQL (5432), MySQL (3306)'
+          'Default ports: PostgreSQL (5432), MySQL (3306)',
+          'Have a .sqlite, .db or .duckdb file? Use "Upload Database File" instead - no server needed'
         ]
       },
       {
@@ -912,7 +940,7 @@ export const helpContent = {
     sections: [
       {
         heading: 'Overview',
-        content: 'Connect to REST APIs to import data from web services, SaaS platforms, and external systems. Supports various authentication methods, pagination, and data transformation.',
+        content: 'Connect to REST or GraphQL APIs to import data from web services, SaaS platforms, and external systems. Supports various authentication methods, pagination, and data transformation.',
         tips: [
           'Start with simple public APIs to understand the workflow',
           'Use JSONPath to extract specific data from complex responses',
@@ -1,13 +1,17 @@
 'use client';
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import type { CurrentUser, Permission } from '@/types/auth';
+import { hasPermission } from '@/utils/permissions';
 
 interface AuthContextType {
   isAuthenticated: boolean;
+  user: CurrentUser | null;
   login: (username: string, password: string) => Promise<boolean>;
   logout: () => void;
   loading: boolean;
   error: string | null;
+  can: (permission: Permission, dataSourceId?: string) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -25,87 +29,47 @@ interface AuthProviderProps {
 }
 
 export function AuthProvider({ children }: AuthProviderProps) {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [user, setUser] = useState<CurrentUser | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [initializing, setInitializing] = useState(true);
 
-  // Check if we're in development mode
-  // In client-side, we can check if we're on localhost or if NODE_ENV is development
-  const isDevelopment = typeof window !== 'undefined' ? 
-    (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1' || process.env.NODE_ENV === 'development') :
-    process.env.NODE_ENV === 'development';
-
-  useEffect(() => {
-    // In development, automatically authenticate
-    // Check multiple conditions to ensure we're in development
-    const isLocalhost = typeof window !== 'undefined' && 
-      (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1');
-    const isDevPort = typeof window !== 'undefined' && 
-      (window.location.port === '3000' || window.location.port === '3001');
-    const isDevEnv = process.env.NODE_ENV === 'development';
-    
-    if (isDevelopment || isLocalhost || isDevPort || isDevEnv) {
-      console.log('Development mode detected, auto-authenticating...');
-      setIsAuthenticated(true);
-      setInitializing(false);
-      return;
+  // The session lives in an httpOnly cookie, so ask the server who we are and what we may do
+  const loadCurrentUser = useCallback(async (): Promise<CurrentUser | null> => {
+    const response = await fetch('/api/auth/me');
+    if (!response.ok) {
+      return null;
     }
+    const data = await response.json();
+    return data.user;
+  }, []);
 
-    // In production, check for existing session
-    const checkAuth = () => {
-      const authToken = localStorage.getItem('cirrus_auth_token');
-      const authExpiry = localStorage.getItem('cirrus_auth_expiry');
-      
-      if (authToken && authExpiry) {
-        const expiryDate = new Date(authExpiry);
-        if (expiryDate > new Date()) {
-          setIsAuthenticated(true);
-        } else {
-          // Token expired, clear storage
-          localStorage.removeItem('cirrus_auth_token');
-          localStorage.removeItem('cirrus_auth_expiry');
-        }
-      }
-      setInitializing(false);
-    };
-
-    checkAuth();
-  }, [isDevelopment]);
+  useEffect(() => {
+    loadCurrentUser()
+      .then(setUser)
+      .catch(err => console.error('Failed to check session:', err))
+      .finally(() => setInitializing(false));
+  }, [loadCurrentUser]);
 
   const login = async (username: string, password: string): Promise<boolean> => {
-    // Check if we're in development mode
-    const isLocalhost = typeof window !== 'undefined' && 
-      (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1');
-    const isDevPort = typeof window !== 'undefined' && 
-      (window.location.port === '3000' || window.location.port === '3001');
-    const isDevEnv = process.env.NODE_ENV === 'development';
-    
-    if (isDevelopment || isLocalhost || isDevPort || isDevEnv) {
-      setIsAuthenticated(true);
-      return true;
-    }
-
     setLoading(true);
     setError(null);
 
     try {
-      // Simple credential check for demo purposes
-      if (username === 'cirrus' && password === 'cldata') {
-        // Create a session token (simple timestamp-based for demo)
-        const token = btoa(`${username}:${Date.now()}`);
-        const expiry = new Date();
-        expiry.setHours(expiry.getHours() + 24); // 24 hour session
-
-        localStorage.setItem('cirrus_auth_token', token);
-        localStorage.setItem('cirrus_auth_expiry', expiry.toISOString());
-        
-        setIsAuthenticated(true);
-        return true;
-      } else {
-        setError('Invalid username or password');
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setError(response.status === 401 ? 'Invalid username or password' : data.error || 'An error occurred during login');
         return false;
       }
+
+      setUser(await loadCurrentUser());
+      return true;
     } catch {
       setError('An error occurred during login');
       return false;
@@ -114,13 +78,23 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('cirrus_auth_token');
-    localStorage.removeItem('cirrus_auth_expiry');
-    setIsAuthenticated(false);
+  const logout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (err) {
+      console.error('Failed to log out:', err);
+    }
+    setUser(null);
     setError(null);
   };
 
+  const can = useCallback((permission: Permission, dataSourceId?: string) => {
+    if (!user) {
+      return false;
+    }
+    return hasPermission(user.role, permission, dataSourceId ? user.dataSourceRoles[dataSourceId] : undefined);
+  }, [user]);
+
   // Show loading spinner during initialization
   if (initializing) {
     return (
@@ -134,8 +108,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
   }
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout, loading, error }}>
+    <AuthContext.Provider value={{ isAuthenticated: user !== null, user, login, logout, loading, error, can }}>
       {children}
     </AuthContext.Provider>
   );
-}
\ No newline at end of file
+}
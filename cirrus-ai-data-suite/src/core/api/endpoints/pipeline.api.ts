@@ -1,5 +1,13 @@
 import { apiClient } from '../client';
-import { Pipeline, PipelineExecution, PipelineNode } from '@/types/pipeline';
+import {
+  Pipeline,
+  PipelineDiff,
+  PipelineExecution,
+  PipelineExecutionPage,
+  PipelineNode,
+  PipelineVersion,
+  PipelineVersionSummary
+} from '@/types/pipeline';
 import { ApiResponse } from '@/core/types/api.types';
 
 export interface CreatePipelineRequest {
@@ -78,7 +86,36 @@ export class PipelineAPI {
 
   // Get pipeline execution status
   async getExecutionStatus(pipelineId: string, executionId: string): Promise<PipelineExecution> {
-    return apiClient.get<PipelineExecution>(`/pipelines/${pipelineId}/execution/${executionId}`);
+    return apiClient.get<PipelineExecution>(`/pipelines/${pipelineId}/executions/${executionId}`);
+  }
+
+  // Get a page of a pipeline's past executions
+  async getExecutions(pipelineId: string, page = 1, pageSize = 20): Promise<PipelineExecutionPage> {
+    return apiClient.get<PipelineExecutionPage>(`/pipelines/${pipelineId}/executions`, {
+      params: { page, pageSize }
+    });
+  }
+
+  // Get a pipeline's saved versions, newest first
+  async getVersions(pipelineId: string): Promise<PipelineVersionSummary[]> {
+    return apiClient.get<PipelineVersionSummary[]>(`/pipelines/${pipelineId}/versions`);
+  }
+
+  // Get the full definition of a saved version
+  async getVersion(pipelineId: string, version: number): Promise<PipelineVersion> {
+    return apiClient.get<PipelineVersion>(`/pipelines/${pipelineId}/versions/${version}`);
+  }
+
+  // Compare two saved versions
+  async diffVersions(pipelineId: string, fromVersion: number, toVersion: number): Promise<PipelineDiff> {
+    return apiClient.get<PipelineDiff>(`/pipelines/${pipelineId}/versions/diff`, {
+      params: { from: fromVersion, to: toVersion }
+    });
+  }
+
+  // Restore a saved version as the pipeline's new current version
+  async restoreVersion(pipelineId: string, version: number): Promise<Pipeline> {
+    return apiClient.post<Pipeline>(`/pipelines/${pipelineId}/versions/${version}/restore`);
   }
 
   // Get pipeline status (simpler status endpoint)
@@ -12,7 +12,7 @@ export interface CreateSyntheticDatasetRequest {
   dataType: string;
   recordCount: number;
   schema: Record<string, unknown>;
-  outputFormat: 'json' | 'csv' | 'parquet';
+  outputFormat: SyntheticDataConfig['outputFormat'];
   configuration?: {
     seed?: number;
     locale?: string;
@@ -23,7 +23,7 @@ export interface CreateSyntheticDatasetRequest {
 export interface UpdateSyntheticDatasetRequest {
   name?: string;
   recordCount?: number;
-  outputFormat?: 'json' | 'csv' | 'parquet';
+  outputFormat?: SyntheticDataConfig['outputFormat'];
   configuration?: Record<string, unknown>;
 }
 
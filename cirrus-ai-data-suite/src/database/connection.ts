@@ -30,6 +30,19 @@ import { AddTableLevelSummaries054 } from '../database/migrations/054_add_table_
 import { AddFieldAnnotations055 } from '../database/migrations/055_add_field_annotations';
 import { AddKeywordsToDataSources1736619000000 } from '../migrations/055_add_keywords_to_data_sources';
 import { AddDataQualityTables1736500000000 } from './migrations/060_add_data_quality_tables';
+import { AddPipelineExecutions1750000061000 } from './migrations/061_add_pipeline_executions';
+import { AddPipelineTriggerStates1750000062000 } from './migrations/062_add_pipeline_trigger_states';
+import { AddPipelineVersions1750000063000 } from './migrations/063_add_pipeline_versions';
+import { AddSyntheticPrivacyReport1750000064000 } from './migrations/064_add_synthetic_privacy_report';
+import { AddSyntheticQualityReport1750000065000 } from './migrations/065_add_synthetic_quality_report';
+import { AddUsers1750000066000 } from './migrations/066_add_users';
+import { AddRolesAndDataSourcePermissions1750000067000 } from './migrations/067_add_roles_and_data_source_permissions';
+import { AddClassificationMarkings1750000068000 } from './migrations/068_add_classification_markings';
+import { AddPseudonymTokens1750000069000 } from './migrations/069_add_pseudonym_tokens';
+import { AddRedactionJobs1750000070000 } from './migrations/070_add_redaction_jobs';
+import { AddDocumentRedactions1750000071000 } from './migrations/071_add_document_redactions';
+import { AddRecordSegments1750000072000 } from './migrations/072_add_record_segments';
+import { AddApiConnectionType1750000073000 } from './migrations/073_add_api_connection_type';
 
 // Define global type for TypeORM persistence
 declare global {
@@ -97,6 +110,15 @@ import { RemediationActionEntity } from '@/entities/RemediationActionEntity';
 import { RemediationHistoryEntity } from '@/entities/RemediationHistoryEntity';
 import { FixTemplateEntity } from '@/entities/FixTemplateEntity';
 import { DataQualityTemplateEntity } from '@/entities/DataQualityTemplateEntity';
+import { PipelineExecutionEntity } from '@/entities/PipelineExecutionEntity';
+import { PipelineTriggerStateEntity } from '@/entities/PipelineTriggerStateEntity';
+import { PipelineVersionEntity } from '@/entities/PipelineVersionEntity';
+import { UserEntity } from '@/entities/UserEntity';
+import { DataSourcePermissionEntity } from '@/entities/DataSourcePermissionEntity';
+import { PseudonymTokenEntity } from '@/entities/PseudonymTokenEntity';
+import { RedactionJobEntity } from '@/entities/RedactionJobEntity';
+import { DocumentRedactionEntity } from '@/entities/DocumentRedactionEntity';
+import { RecordSegmentEntity } from '@/entities/RecordSegmentEntity';
 
 // Initialize entities if not in browser
 if (typeof window === 'undefined') {
@@ -127,7 +149,16 @@ if (typeof window === 'undefined') {
     RemediationActionEntity,
     RemediationHistoryEntity,
     FixTemplateEntity,
-    DataQualityTemplateEntity
+    DataQualityTemplateEntity,
+    PipelineExecutionEntity,
+    PipelineTriggerStateEntity,
+    PipelineVersionEntity,
+    UserEntity,
+    DataSourcePermissionEntity,
+    PseudonymTokenEntity,
+    RedactionJobEntity,
+    DocumentRedactionEntity,
+    RecordSegmentEntity
   ];
   
   // Populate entity class map
@@ -306,7 +337,16 @@ export const initializeDatabase = async () => {
           'RemediationActionEntity': 'remediation_actions',
           'RemediationHistoryEntity': 'remediation_history',
           'FixTemplateEntity': 'fix_templates',
-          'DataQualityTemplateEntity': 'data_quality_templates'
+          'DataQualityTemplateEntity': 'data_quality_templates',
+          'PipelineExecutionEntity': 'pipeline_executions',
+          'PipelineTriggerStateEntity': 'pipeline_trigger_states',
+          'PipelineVersionEntity': 'pipeline_versions',
+          'UserEntity': 'users',
+          'DataSourcePermissionEntity': 'data_source_permissions',
+          'PseudonymTokenEntity': 'pseudonym_tokens',
+          'RedactionJobEntity': 'redaction_jobs',
+          'DocumentRedactionEntity': 'document_redactions',
+          'RecordSegmentEntity': 'data_source_record_segments'
         };
         
         entities.forEach((entity) => {
@@ -590,6 +630,162 @@ export const initializeDatabase = async () => {
         }
       );
       
+      // Add pipeline execution history
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '061_add_pipeline_executions',
+        async () => {
+          const migration = new AddPipelineExecutions1750000061000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
+      // Add pipeline trigger state tracking
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '062_add_pipeline_trigger_states',
+        async () => {
+          const migration = new AddPipelineTriggerStates1750000062000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
+      // Add pipeline version snapshots and pin executions to versions
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '063_add_pipeline_versions',
+        async () => {
+          const migration = new AddPipelineVersions1750000063000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
+      // Record the privacy guarantees achieved by synthetic generation jobs
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '064_add_synthetic_privacy_report',
+        async () => {
+          const migration = new AddSyntheticPrivacyReport1750000064000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
+      // Store the fidelity and privacy report of synthetic datasets
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '065_add_synthetic_quality_report',
+        async () => {
+          const migration = new AddSyntheticQualityReport1750000065000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
+      // Create the users table for server-side authentication
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '066_add_users',
+        async () => {
+          const migration = new AddUsers1750000066000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
+      // Add user roles and per-data-source role grants
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '067_add_roles_and_data_source_permissions',
+        async () => {
+          const migration = new AddRolesAndDataSourcePermissions1750000067000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
+      // Add classification markings to data sources, field annotations and synthetic datasets
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '068_add_classification_markings',
+        async () => {
+          const migration = new AddClassificationMarkings1750000068000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
+      // Add the vault used to re-identify deterministic pseudonyms
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '069_add_pseudonym_tokens',
+        async () => {
+          const migration = new AddPseudonymTokens1750000069000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
+      // Add bulk redaction jobs
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '070_add_redaction_jobs',
+        async () => {
+          const migration = new AddRedactionJobs1750000070000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
+      // Add PDF and Word document redaction reviews
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '071_add_document_redactions',
+        async () => {
+          const migration = new AddDocumentRedactions1750000071000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
+      // Add chunked record store for transformed records
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '072_add_record_segments',
+        async () => {
+          const migration = new AddRecordSegments1750000072000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
+      // Add API type so GraphQL connections can be told apart from REST ones
+      await MigrationTracker.checkAndRunMigration(
+        dataSource,
+        '073_add_api_connection_type',
+        async () => {
+          const migration = new AddApiConnectionType1750000073000();
+          const queryRunner = dataSource.createQueryRunner();
+          await migration.up(queryRunner);
+          await queryRunner.release();
+        }
+      );
+      
       isInitialized = true;
       if (isDevelopment) {
         global.typeormInitialized = true;
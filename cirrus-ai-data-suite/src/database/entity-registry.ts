@@ -21,6 +21,15 @@ import { RemediationActionEntity } from '@/entities/RemediationActionEntity';
 import { RemediationHistoryEntity } from '@/entities/RemediationHistoryEntity';
 import { FixTemplateEntity } from '@/entities/FixTemplateEntity';
 import { DataQualityTemplateEntity } from '@/entities/DataQualityTemplateEntity';
+import { PipelineExecutionEntity } from '@/entities/PipelineExecutionEntity';
+import { PipelineTriggerStateEntity } from '@/entities/PipelineTriggerStateEntity';
+import { PipelineVersionEntity } from '@/entities/PipelineVersionEntity';
+import { UserEntity } from '@/entities/UserEntity';
+import { DataSourcePermissionEntity } from '@/entities/DataSourcePermissionEntity';
+import { PseudonymTokenEntity } from '@/entities/PseudonymTokenEntity';
+import { RedactionJobEntity } from '@/entities/RedactionJobEntity';
+import { DocumentRedactionEntity } from '@/entities/DocumentRedactionEntity';
+import { RecordSegmentEntity } from '@/entities/RecordSegmentEntity';
 
 // Map of entity classes to their table names
 const ENTITY_REGISTRY = new Map<string, { entity: EntityTarget<ObjectLiteral>, tableName: string }>([
@@ -45,7 +54,16 @@ const ENTITY_REGISTRY = new Map<string, { entity: EntityTarget<ObjectLiteral>, t
   ['RemediationActionEntity', { entity: RemediationActionEntity, tableName: 'remediation_actions' }],
   ['RemediationHistoryEntity', { entity: RemediationHistoryEntity, tableName: 'remediation_history' }],
   ['FixTemplateEntity', { entity: FixTemplateEntity, tableName: 'fix_templates' }],
-  ['DataQualityTemplateEntity', { entity: DataQualityTemplateEntity, tableName: 'data_quality_templates' }]
+  ['DataQualityTemplateEntity', { entity: DataQualityTemplateEntity, tableName: 'data_quality_templates' }],
+  ['PipelineExecutionEntity', { entity: PipelineExecutionEntity, tableName: 'pipeline_executions' }],
+  ['PipelineTriggerStateEntity', { entity: PipelineTriggerStateEntity, tableName: 'pipeline_trigger_states' }],
+  ['PipelineVersionEntity', { entity: PipelineVersionEntity, tableName: 'pipeline_versions' }],
+  ['UserEntity', { entity: UserEntity, tableName: 'users' }],
+  ['DataSourcePermissionEntity', { entity: DataSourcePermissionEntity, tableName: 'data_source_permissions' }],
+  ['PseudonymTokenEntity', { entity: PseudonymTokenEntity, tableName: 'pseudonym_tokens' }],
+  ['RedactionJobEntity', { entity: RedactionJobEntity, tableName: 'redaction_jobs' }],
+  ['DocumentRedactionEntity', { entity: DocumentRedactionEntity, tableName: 'document_redactions' }],
+  ['RecordSegmentEntity', { entity: RecordSegmentEntity, tableName: 'data_source_record_segments' }]
 ]);
 
 /**
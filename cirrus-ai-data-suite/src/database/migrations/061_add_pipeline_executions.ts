@@ -0,0 +1,31 @@
+import { QueryRunner } from 'typeorm';
+
+export class AddPipelineExecutions1750000061000 {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS pipeline_executions (
+        id VARCHAR(255) PRIMARY KEY,
+        pipeline_id VARCHAR(255) NOT NULL,
+        status VARCHAR(50) DEFAULT 'queued',
+        triggered_by VARCHAR(50) DEFAULT 'manual',
+        started_at TIMESTAMP NOT NULL,
+        completed_at TIMESTAMP,
+        duration_ms INTEGER DEFAULT 0,
+        records_processed INTEGER DEFAULT 0,
+        logs TEXT,
+        metrics TEXT,
+        output_samples TEXT,
+        error TEXT
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_pipeline_executions_pipeline_started
+      ON pipeline_executions (pipeline_id, started_at DESC)
+    `);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS pipeline_executions`);
+  }
+}
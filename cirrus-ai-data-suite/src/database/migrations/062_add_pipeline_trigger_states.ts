@@ -0,0 +1,26 @@
+import { QueryRunner } from 'typeorm';
+
+export class AddPipelineTriggerStates1750000062000 {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS pipeline_trigger_states (
+        id VARCHAR(512) PRIMARY KEY,
+        pipeline_id VARCHAR(255) NOT NULL,
+        trigger_id VARCHAR(255) NOT NULL,
+        trigger_type VARCHAR(50) NOT NULL,
+        last_checked_at TIMESTAMP NOT NULL,
+        last_fired_at TIMESTAMP,
+        last_execution_id VARCHAR(255)
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_pipeline_trigger_states_pipeline
+      ON pipeline_trigger_states (pipeline_id)
+    `);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS pipeline_trigger_states`);
+  }
+}
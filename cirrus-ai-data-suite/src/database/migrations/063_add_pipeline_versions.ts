@@ -0,0 +1,46 @@
+import { QueryRunner } from 'typeorm';
+
+export class AddPipelineVersions1750000063000 {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS pipeline_versions (
+        id VARCHAR(512) PRIMARY KEY,
+        pipeline_id VARCHAR(255) NOT NULL,
+        version INTEGER NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        nodes TEXT NOT NULL,
+        edges TEXT NOT NULL,
+        triggers TEXT,
+        schedule TEXT,
+        tags TEXT,
+        created_by VARCHAR(255) NOT NULL,
+        restored_from INTEGER,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_pipeline_versions_pipeline_version
+      ON pipeline_versions (pipeline_id, version)
+    `);
+
+    // Snapshot the current definition of existing pipelines as their current version
+    await queryRunner.query(`
+      INSERT INTO pipeline_versions (id, pipeline_id, version, name, description, nodes, edges, triggers, schedule, tags, created_by, created_at)
+      SELECT id || ':v' || version, id, version, name, description, COALESCE(nodes, '[]'), COALESCE(edges, '[]'),
+             triggers, schedule, tags, created_by, updated_at
+      FROM pipeline
+      ON CONFLICT (id) DO NOTHING
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE pipeline_executions ADD COLUMN IF NOT EXISTS pipeline_version INTEGER
+    `);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE pipeline_executions DROP COLUMN IF EXISTS pipeline_version`);
+    await queryRunner.query(`DROP TABLE IF EXISTS pipeline_versions`);
+  }
+}
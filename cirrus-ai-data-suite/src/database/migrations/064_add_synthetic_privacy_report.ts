@@ -0,0 +1,13 @@
+import { QueryRunner } from 'typeorm';
+
+export class AddSyntheticPrivacyReport1750000064000 {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE synthetic_data_jobs ADD COLUMN IF NOT EXISTS privacy_report JSONB
+    `);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE synthetic_data_jobs DROP COLUMN IF EXISTS privacy_report`);
+  }
+}
@@ -0,0 +1,13 @@
+import { QueryRunner } from 'typeorm';
+
+export class AddSyntheticQualityReport1750000065000 {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE synthetic_datasets ADD COLUMN IF NOT EXISTS quality_report JSONB
+    `);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE synthetic_datasets DROP COLUMN IF EXISTS quality_report`);
+  }
+}
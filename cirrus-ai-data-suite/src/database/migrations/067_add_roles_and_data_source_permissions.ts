@@ -0,0 +1,38 @@
+import { QueryRunner } from 'typeorm';
+
+export class AddRolesAndDataSourcePermissions1750000067000 {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(50) NOT NULL DEFAULT 'viewer'
+    `);
+
+    // Accounts created before roles existed had full access
+    await queryRunner.query(`UPDATE users SET role = 'admin'`);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS data_source_permissions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        data_source_id UUID NOT NULL REFERENCES data_source_entity(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role VARCHAR(50) NOT NULL,
+        granted_by VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_data_source_permissions_source_user
+      ON data_source_permissions (data_source_id, user_id)
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX IF NOT EXISTS idx_data_source_permissions_user
+      ON data_source_permissions (user_id)
+    `);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS data_source_permissions`);
+    await queryRunner.query(`ALTER TABLE users DROP COLUMN IF EXISTS role`);
+  }
+}
@@ -0,0 +1,24 @@
+import { QueryRunner } from 'typeorm';
+
+export class AddClassificationMarkings1750000068000 {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    // Banner-form markings such as SECRET//NOFORN; NULL means unmarked
+    await queryRunner.query(`
+      ALTER TABLE data_source_entity ADD COLUMN IF NOT EXISTS classification VARCHAR(255)
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE field_annotations ADD COLUMN IF NOT EXISTS classification VARCHAR(255)
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE synthetic_datasets ADD COLUMN IF NOT EXISTS classification VARCHAR(255)
+    `);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE synthetic_datasets DROP COLUMN IF EXISTS classification`);
+    await queryRunner.query(`ALTER TABLE field_annotations DROP COLUMN IF EXISTS classification`);
+    await queryRunner.query(`ALTER TABLE data_source_entity DROP COLUMN IF EXISTS classification`);
+  }
+}
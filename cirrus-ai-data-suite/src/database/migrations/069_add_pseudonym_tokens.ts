@@ -0,0 +1,18 @@
+import { QueryRunner } from 'typeorm';
+
+export class AddPseudonymTokens1750000069000 {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    // Pseudonyms are deterministic, so each token is stored once however many times it is produced
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS pseudonym_tokens (
+        token VARCHAR(64) PRIMARY KEY,
+        encrypted_value TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS pseudonym_tokens`);
+  }
+}
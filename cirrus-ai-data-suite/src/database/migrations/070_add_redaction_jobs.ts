@@ -0,0 +1,31 @@
+import { QueryRunner } from 'typeorm';
+
+export class AddRedactionJobs1750000070000 {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS redaction_jobs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        data_source_id VARCHAR(255) NOT NULL,
+        output_data_source_id VARCHAR(255),
+        pattern_ids JSONB NOT NULL DEFAULT '[]',
+        options JSONB NOT NULL DEFAULT '{}',
+        status VARCHAR(50) NOT NULL DEFAULT 'pending',
+        progress INTEGER NOT NULL DEFAULT 0,
+        records_processed INTEGER NOT NULL DEFAULT 0,
+        total_records INTEGER NOT NULL DEFAULT 0,
+        report JSONB,
+        error_message TEXT,
+        created_by VARCHAR(255),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS idx_redaction_jobs_data_source ON redaction_jobs(data_source_id)`);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS redaction_jobs`);
+  }
+}
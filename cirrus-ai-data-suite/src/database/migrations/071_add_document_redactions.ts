@@ -0,0 +1,29 @@
+import { QueryRunner } from 'typeorm';
+
+export class AddDocumentRedactions1750000071000 {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS document_redactions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        file_name VARCHAR(500) NOT NULL,
+        document_type VARCHAR(20) NOT NULL,
+        file_size INTEGER NOT NULL DEFAULT 0,
+        storage_key VARCHAR(1000),
+        redacted_storage_key VARCHAR(1000),
+        pattern_ids JSONB NOT NULL DEFAULT '[]',
+        style JSONB NOT NULL DEFAULT '{}',
+        matches JSONB NOT NULL DEFAULT '[]',
+        status VARCHAR(50) NOT NULL DEFAULT 'review',
+        created_by VARCHAR(255),
+        reviewed_by VARCHAR(255),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        redacted_at TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS document_redactions`);
+  }
+}
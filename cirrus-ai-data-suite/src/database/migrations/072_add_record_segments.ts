@@ -0,0 +1,26 @@
+import { QueryRunner } from 'typeorm';
+
+export class AddRecordSegments1750000072000 {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS data_source_record_segments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        data_source_id VARCHAR(255) NOT NULL,
+        store_version VARCHAR(64) NOT NULL,
+        segment_index INTEGER NOT NULL,
+        record_count INTEGER NOT NULL,
+        content TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_record_segments_source_version_index
+      ON data_source_record_segments(data_source_id, store_version, segment_index)
+    `);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS data_source_record_segments`);
+  }
+}
@@ -0,0 +1,14 @@
+import { QueryRunner } from 'typeorm';
+
+export class AddApiConnectionType1750000073000 {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    // Existing connections are REST APIs
+    await queryRunner.query(`
+      ALTER TABLE api_connections ADD COLUMN IF NOT EXISTS api_type VARCHAR(20) NOT NULL DEFAULT 'rest'
+    `);
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE api_connections DROP COLUMN IF EXISTS api_type`);
+  }
+}
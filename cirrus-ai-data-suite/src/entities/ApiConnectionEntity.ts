@@ -1,5 +1,6 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
 
+export type ApiType = 'rest' | 'graphql' | 'soap' | 'webhook';
 export type ApiAuthType = 'none' | 'api-key' | 'bearer' | 'basic' | 'oauth2';
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 export type ApiConnectionStatus = 'active' | 'inactive' | 'error';
@@ -15,6 +16,9 @@ export class ApiConnectionEntity {
   @Column({ type: 'text' })
   endpoint!: string;
 
+  @Column({ type: 'varchar', length: 20, default: 'rest' })
+  api_type!: ApiType;
+
   @Column({ type: 'varchar', length: 10, default: 'GET' })
   method!: HttpMethod;
 
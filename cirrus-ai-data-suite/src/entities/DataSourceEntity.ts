@@ -80,6 +80,9 @@ export class DataSourceEntity {
   @Column({ nullable: true, name: 'keywords_generated_at' })
   keywordsGeneratedAt?: Date; // When keywords were generated
 
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  classification?: string | null; // Classification marking in banner form, e.g. SECRET//NOFORN
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt!: Date;
 
@@ -0,0 +1,25 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import type { DataSourceRole } from '@/types/auth';
+
+@Entity('data_source_permissions')
+@Index(['dataSourceId', 'userId'], { unique: true })
+@Index(['userId'])
+export class DataSourcePermissionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'data_source_id', type: 'uuid' })
+  dataSourceId!: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @Column({ name: 'role', type: 'varchar', length: 50 })
+  role!: DataSourceRole;
+
+  @Column({ name: 'granted_by', type: 'varchar', length: 255 })
+  grantedBy!: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
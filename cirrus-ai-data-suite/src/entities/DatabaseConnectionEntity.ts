@@ -9,7 +9,7 @@ export class DatabaseConnectionEntity {
   name!: string;
 
   @Column({ name: 'type', type: 'varchar' })
-  type!: 'postgresql' | 'mysql' | 'mongodb' | 'mssql' | 'oracle' | 'db2' | 'snowflake' | 'redshift' | 'bigquery';
+  type!: 'postgresql' | 'mysql' | 'mongodb' | 'mssql' | 'sqlite' | 'duckdb' | 'oracle' | 'db2' | 'snowflake' | 'redshift' | 'bigquery';
 
   @Column({ name: 'host', type: 'varchar' })
   host!: string;
@@ -0,0 +1,56 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import type { RedactionStyle } from '@/services/patternTestingService';
+import type { DocumentRedactionMatch, DocumentRedactionStatus, RedactableDocumentType } from '@/types/redaction';
+
+/**
+ * A PDF or Word document under redaction review.
+ * Matches are found with saved patterns and stay pending until a reviewer accepts or rejects them;
+ * the original and redacted files are kept in storage.
+ */
+@Entity('document_redactions')
+export class DocumentRedactionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'file_name', type: 'varchar', length: 500 })
+  fileName!: string;
+
+  @Column({ name: 'document_type', type: 'varchar', length: 20 })
+  documentType!: RedactableDocumentType;
+
+  @Column({ name: 'file_size', type: 'integer', default: 0 })
+  fileSize!: number;
+
+  @Column({ name: 'storage_key', type: 'varchar', length: 1000, nullable: true })
+  storageKey?: string;
+
+  @Column({ name: 'redacted_storage_key', type: 'varchar', length: 1000, nullable: true })
+  redactedStorageKey?: string;
+
+  @Column({ name: 'pattern_ids', type: 'jsonb' })
+  patternIds!: string[];
+
+  @Column({ name: 'style', type: 'jsonb' })
+  style!: RedactionStyle;
+
+  @Column({ name: 'matches', type: 'jsonb' })
+  matches!: DocumentRedactionMatch[];
+
+  @Column({ name: 'status', type: 'varchar', length: 50, default: 'review' })
+  status!: DocumentRedactionStatus;
+
+  @Column({ name: 'created_by', type: 'varchar', length: 255, nullable: true })
+  createdBy?: string;
+
+  @Column({ name: 'reviewed_by', type: 'varchar', length: 255, nullable: true })
+  reviewedBy?: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @Column({ name: 'redacted_at', type: 'timestamp', nullable: true })
+  redactedAt?: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -40,6 +40,9 @@ export class FieldAnnotationEntity {
   @Column({ name: 'sensitivity_level', nullable: true })
   sensitivityLevel?: string; // 'public', 'internal', 'confidential', 'restricted'
 
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  classification?: string | null; // Classification marking in banner form, e.g. SECRET//NOFORN
+
   @Column({ type: 'simple-array', nullable: true })
   tags?: string[];
 
@@ -0,0 +1,44 @@
+import { Entity, PrimaryColumn, Column, Index } from 'typeorm';
+
+@Entity('pipeline_executions')
+@Index(['pipelineId', 'startedAt'])
+export class PipelineExecutionEntity {
+  @PrimaryColumn('varchar')
+  id!: string;
+
+  @Column({ name: 'pipeline_id', type: 'varchar' })
+  pipelineId!: string;
+
+  @Column({ name: 'status', type: 'varchar', default: 'queued' })
+  status!: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+  @Column({ name: 'triggered_by', type: 'varchar', default: 'manual' })
+  triggeredBy!: string;
+
+  @Column({ name: 'pipeline_version', type: 'integer', nullable: true })
+  pipelineVersion?: number;
+
+  @Column({ name: 'started_at', type: 'timestamp' })
+  startedAt!: Date;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt?: Date;
+
+  @Column({ name: 'duration_ms', type: 'integer', default: 0 })
+  durationMs!: number;
+
+  @Column({ name: 'records_processed', type: 'integer', default: 0 })
+  recordsProcessed!: number;
+
+  @Column({ name: 'logs', type: 'text', nullable: true })
+  logs?: string; // JSON string of ExecutionLog[]
+
+  @Column({ name: 'metrics', type: 'text', nullable: true })
+  metrics?: string; // JSON string of ExecutionMetrics, including per-node metrics
+
+  @Column({ name: 'output_samples', type: 'text', nullable: true })
+  outputSamples?: string; // JSON string of Record<nodeId, NodeOutputSample[]>
+
+  @Column({ name: 'error', type: 'text', nullable: true })
+  error?: string;
+}
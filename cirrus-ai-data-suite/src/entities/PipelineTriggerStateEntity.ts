@@ -0,0 +1,26 @@
+import { Entity, PrimaryColumn, Column, Index } from 'typeorm';
+
+@Entity('pipeline_trigger_states')
+@Index(['pipelineId'])
+export class PipelineTriggerStateEntity {
+  @PrimaryColumn('varchar')
+  id!: string; // `${pipelineId}:${triggerId}`
+
+  @Column({ name: 'pipeline_id', type: 'varchar' })
+  pipelineId!: string;
+
+  @Column({ name: 'trigger_id', type: 'varchar' })
+  triggerId!: string;
+
+  @Column({ name: 'trigger_type', type: 'varchar' })
+  triggerType!: string;
+
+  @Column({ name: 'last_checked_at', type: 'timestamp' })
+  lastCheckedAt!: Date;
+
+  @Column({ name: 'last_fired_at', type: 'timestamp', nullable: true })
+  lastFiredAt?: Date;
+
+  @Column({ name: 'last_execution_id', type: 'varchar', nullable: true })
+  lastExecutionId?: string;
+}
@@ -0,0 +1,44 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+@Entity('pipeline_versions')
+@Index(['pipelineId', 'version'], { unique: true })
+export class PipelineVersionEntity {
+  @PrimaryColumn('varchar')
+  id!: string; // `${pipelineId}:v${version}`
+
+  @Column({ name: 'pipeline_id', type: 'varchar' })
+  pipelineId!: string;
+
+  @Column({ name: 'version', type: 'integer' })
+  version!: number;
+
+  @Column({ name: 'name', type: 'varchar' })
+  name!: string;
+
+  @Column({ name: 'description', type: 'text', nullable: true })
+  description?: string;
+
+  @Column({ name: 'nodes', type: 'text' })
+  nodes!: string; // JSON string of PipelineNode[]
+
+  @Column({ name: 'edges', type: 'text' })
+  edges!: string; // JSON string of PipelineEdge[]
+
+  @Column({ name: 'triggers', type: 'text', nullable: true })
+  triggers?: string; // JSON string of PipelineTrigger[]
+
+  @Column({ name: 'schedule', type: 'text', nullable: true })
+  schedule?: string; // JSON string of PipelineSchedule
+
+  @Column({ name: 'tags', type: 'text', nullable: true })
+  tags?: string; // JSON string of string[]
+
+  @Column({ name: 'created_by', type: 'varchar' })
+  createdBy!: string;
+
+  @Column({ name: 'restored_from', type: 'integer', nullable: true })
+  restoredFrom?: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
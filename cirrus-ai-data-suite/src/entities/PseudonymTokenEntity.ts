@@ -0,0 +1,18 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from 'typeorm';
+
+/**
+ * Vault entry that lets an authorized caller reverse a deterministic pseudonym.
+ * The original value is encrypted with a key derived from the pseudonymization key,
+ * so the vault alone does not reveal it.
+ */
+@Entity('pseudonym_tokens')
+export class PseudonymTokenEntity {
+  @PrimaryColumn({ name: 'token', type: 'varchar', length: 64 })
+  token!: string;
+
+  @Column({ name: 'encrypted_value', type: 'text' })
+  encryptedValue!: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
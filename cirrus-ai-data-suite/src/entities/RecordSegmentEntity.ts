@@ -0,0 +1,31 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * One fixed-size slice of a data source's transformed records, stored as JSONL.
+ * Every rewrite of a source's records gets a new store version, so readers never
+ * mix segments from two writes.
+ */
+@Entity('data_source_record_segments')
+@Index(['dataSourceId', 'storeVersion', 'segmentIndex'], { unique: true })
+export class RecordSegmentEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'data_source_id', type: 'varchar', length: 255 })
+  dataSourceId!: string;
+
+  @Column({ name: 'store_version', type: 'varchar', length: 64 })
+  storeVersion!: string;
+
+  @Column({ name: 'segment_index', type: 'integer' })
+  segmentIndex!: number;
+
+  @Column({ name: 'record_count', type: 'integer' })
+  recordCount!: number;
+
+  @Column({ name: 'content', type: 'text' })
+  content!: string; // One UnifiedDataRecord per line
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
@@ -0,0 +1,54 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import type { RedactionJobOptions, RedactionJobStatus, RedactionReport } from '@/types/redaction';
+
+/**
+ * Bulk redaction of a data source with a set of patterns.
+ * The redacted records are written to a new data source; the report counts what was replaced.
+ */
+@Entity('redaction_jobs')
+export class RedactionJobEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'data_source_id', type: 'varchar', length: 255 })
+  dataSourceId!: string;
+
+  @Column({ name: 'output_data_source_id', type: 'varchar', length: 255, nullable: true })
+  outputDataSourceId?: string;
+
+  @Column({ name: 'pattern_ids', type: 'jsonb' })
+  patternIds!: string[];
+
+  @Column({ name: 'options', type: 'jsonb' })
+  options!: RedactionJobOptions;
+
+  @Column({ name: 'status', type: 'varchar', length: 50, default: 'pending' })
+  status!: RedactionJobStatus;
+
+  @Column({ name: 'progress', type: 'integer', default: 0 })
+  progress!: number;
+
+  @Column({ name: 'records_processed', type: 'integer', default: 0 })
+  recordsProcessed!: number;
+
+  @Column({ name: 'total_records', type: 'integer', default: 0 })
+  totalRecords!: number;
+
+  @Column({ name: 'report', type: 'jsonb', nullable: true })
+  report?: RedactionReport;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage?: string;
+
+  @Column({ name: 'created_by', type: 'varchar', length: 255, nullable: true })
+  createdBy?: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt?: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -1,5 +1,6 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
 import { SyntheticDataset } from './SyntheticDataset';
+import type { SyntheticPrivacyReport } from '@/types/synthetic';
 
 @Entity('synthetic_data_jobs')
 export class SyntheticDataJob {
@@ -28,6 +29,9 @@ export class SyntheticDataJob {
   @Column({ name: 'error_message', type: 'text', nullable: true })
   errorMessage?: string;
 
+  @Column({ name: 'privacy_report', type: 'jsonb', nullable: true })
+  privacyReport?: SyntheticPrivacyReport;
+
   @CreateDateColumn({ name: 'start_time' })
   startTime!: Date;
 
@@ -1,4 +1,6 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import type { DataQualityMetrics } from '@/types/synthetic';
+import { DatasetExportService, type ExportFormat } from '@/services/datasetExportService';
 
 @Entity('synthetic_datasets')
 export class SyntheticDataset {
@@ -52,6 +54,12 @@ export class SyntheticDataset {
   @Column({ type: 'integer', nullable: true, name: 'generated_content_size' })
   generatedContentSize?: number; // Size of generated content in bytes
 
+  @Column({ name: 'quality_report', type: 'jsonb', nullable: true })
+  qualityReport?: DataQualityMetrics; // Fidelity and privacy comparison with the source data
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  classification?: string | null; // Marking inherited from the source data at generation time
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt!: Date;
 
@@ -70,8 +78,9 @@ export class SyntheticDataset {
     return undefined;
   }
 
-  get outputFormat(): 'json' | 'csv' | 'sql' {
-    return 'json'; // Default value
+  get outputFormat(): ExportFormat {
+    const format = this.configuration?.outputFormat;
+    return DatasetExportService.isExportFormat(format) ? format : 'json';
   }
 
   get filePath(): string | undefined {
@@ -0,0 +1,33 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import type { UserRole } from '@/types/auth';
+
+@Entity('users')
+@Index(['username'], { unique: true })
+export class UserEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'username', type: 'varchar', length: 255 })
+  username!: string;
+
+  @Column({ name: 'display_name', type: 'varchar', length: 255, nullable: true })
+  displayName?: string;
+
+  @Column({ name: 'password_hash', type: 'varchar', length: 255 })
+  passwordHash!: string; // scrypt:<salt>:<hash>
+
+  @Column({ name: 'role', type: 'varchar', length: 50, default: 'viewer' })
+  role!: UserRole;
+
+  @Column({ name: 'active', type: 'boolean', default: true })
+  active!: boolean;
+
+  @Column({ name: 'last_login_at', type: 'timestamp', nullable: true })
+  lastLoginAt?: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
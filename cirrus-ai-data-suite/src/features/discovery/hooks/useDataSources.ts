@@ -50,7 +50,8 @@ export function useDataSources() {
             content: file.content,
             contentTruncated: file.contentTruncated,
             originalContentLength: file.originalContentLength,
-            storageKey: file.storageKey
+            storageKey: file.storageKey,
+            contentEncoding: file.contentEncoding
           }))
         }
       });
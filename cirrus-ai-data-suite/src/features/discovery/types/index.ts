@@ -6,6 +6,7 @@ export interface ProcessedFile {
   contentTruncated: boolean;
   originalContentLength: number;
   storageKey?: string;
+  contentEncoding?: 'base64'; // Excel and Parquet files are sent as base64
 }
 
 export interface TransformProgress {
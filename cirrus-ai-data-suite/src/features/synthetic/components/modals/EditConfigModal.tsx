@@ -33,7 +33,7 @@ export function EditConfigModal({ isOpen, onClose, config }: EditConfigModalProp
       const updateData = {
         name: formData.name,
         recordCount: formData.recordCount,
-        outputFormat: config.outputFormat === 'sql' ? 'json' : config.outputFormat as 'json' | 'csv' | 'parquet',
+        outputFormat: config.outputFormat,
         configuration: {
           ...config.configuration,
           recordCount: formData.recordCount
@@ -34,6 +34,15 @@ export async function preloadEntities() {
     import('@/entities/RemediationHistoryEntity'),
     import('@/entities/FixTemplateEntity'),
     import('@/entities/DataQualityTemplateEntity'),
+    import('@/entities/PipelineExecutionEntity'),
+    import('@/entities/PipelineTriggerStateEntity'),
+    import('@/entities/PipelineVersionEntity'),
+    import('@/entities/UserEntity'),
+    import('@/entities/DataSourcePermissionEntity'),
+    import('@/entities/PseudonymTokenEntity'),
+    import('@/entities/RedactionJobEntity'),
+    import('@/entities/DocumentRedactionEntity'),
+    import('@/entities/RecordSegmentEntity'),
   ]);
 
   // Extract entities by their specific export names
@@ -64,6 +73,15 @@ export async function preloadEntities() {
     moduleImports[22].RemediationHistoryEntity,
     moduleImports[23].FixTemplateEntity,
     moduleImports[24].DataQualityTemplateEntity,
+    moduleImports[25].PipelineExecutionEntity,
+    moduleImports[26].PipelineTriggerStateEntity,
+    moduleImports[27].PipelineVersionEntity,
+    moduleImports[28].UserEntity,
+    moduleImports[29].DataSourcePermissionEntity,
+    moduleImports[30].PseudonymTokenEntity,
+    moduleImports[31].RedactionJobEntity,
+    moduleImports[32].DocumentRedactionEntity,
+    moduleImports[33].RecordSegmentEntity,
   ];
 
   return entities;
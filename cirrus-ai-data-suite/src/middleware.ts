@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSessionToken,
+  isInternalRequest,
+  verifySessionToken,
+  USER_ID_HEADER,
+  USERNAME_HEADER,
+  USER_DISPLAY_NAME_HEADER
+} from '@/utils/session';
+
+// Checks whether a session's user is still active; it verifies the token itself
+const SESSION_STATUS_ROUTE = '/api/auth/session';
+// API routes reachable without a session
+const PUBLIC_API_ROUTES = ['/api/auth/login', '/api/auth/logout', SESSION_STATUS_ROUTE, '/api/health'];
+// Prefixes with their own authentication (inbound API keys, webhook tokens and secrets)
+const PUBLIC_API_PREFIXES = ['/api/inbound/', '/api/pipelines/webhooks/'];
+// Cron endpoints accept the CRON_SECRET bearer token instead of a session
+const CRON_PREFIX = '/api/cron/';
+// How long a user stays known as active before the middleware asks again
+const ACTIVE_CHECK_INTERVAL_MS = 30 * 1000;
+
+// When each user was last confirmed active, so deactivated users are locked out within the interval
+const activeUsers = new Map<string, number>();
+
+export function isPublicApiRoute(pathname: string): boolean {
+  const path = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+  return PUBLIC_API_ROUTES.includes(path) || PUBLIC_API_PREFIXES.some(prefix => path.startsWith(prefix));
+}
+
+/**
+ * Ask the session status route whether a user is still active. The middleware runs in the
+ * Edge runtime and cannot query the database directly.
+ */
+async function isUserActive(request: NextRequest, token: string, userId: string): Promise<boolean> {
+  const checkedAt = activeUsers.get(userId);
+  if (checkedAt !== undefined && Date.now() - checkedAt < ACTIVE_CHECK_INTERVAL_MS) {
+    return true;
+  }
+
+  const response = await fetch(new URL(SESSION_STATUS_ROUTE, request.url), {
+    headers: { authorization: `Bearer ${token}` }
+  });
+  if (response.status === 401) {
+    activeUsers.delete(userId);
+    return false;
+  }
+  if (!response.ok) {
+    throw new Error(`Session status check returned ${response.status}`);
+  }
+
+  activeUsers.set(userId, Date.now());
+  return true;
+}
+
+/**
+ * Reject unauthenticated API calls and forward the verified user to route handlers
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  // Never trust identity headers sent by the client
+  const headers = new Headers(request.headers);
+  headers.delete(USER_ID_HEADER);
+  headers.delete(USERNAME_HEADER);
+  headers.delete(USER_DISPLAY_NAME_HEADER);
+
+  if (isPublicApiRoute(pathname)) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  // Requests the server makes to its own routes, such as transforms triggered by a refresh
+  if (await isInternalRequest(request)) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (pathname.startsWith(CRON_PREFIX) && cronSecret && request.headers.get('authorization') === `Bearer ${cronSecret}`) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const token = getSessionToken(request);
+  let user = null;
+  try {
+    user = token ? await verifySessionToken(token) : null;
+  } catch (error) {
+    console.error('Failed to verify session:', error);
+    return NextResponse.json(
+      { error: 'Authentication is not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  // Sessions of deactivated or deleted users end here
+  let active = false;
+  try {
+    active = await isUserActive(request, token!, user.id);
+  } catch (error) {
+    console.error('Failed to check session status:', error);
+    return NextResponse.json(
+      { error: 'Could not verify session' },
+      { status: 503 }
+    );
+  }
+  if (!active) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  headers.set(USER_ID_HEADER, user.id);
+  headers.set(USERNAME_HEADER, encodeURIComponent(user.username));
+  if (user.displayName) {
+    headers.set(USER_DISPLAY_NAME_HEADER, encodeURIComponent(user.displayName));
+  }
+
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: '/api/:path*'
+};
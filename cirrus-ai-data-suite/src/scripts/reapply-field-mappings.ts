@@ -6,6 +6,7 @@
 
 import { getDatabase } from '../database/connection';
 import { DataSourceEntity } from '../entities/DataSourceEntity';
+import { RecordStoreService } from '../services/recordStoreService';
 
 async function reapplyFieldMappings(dataSourceId: string) {
   console.log(`Re-applying field mappings for data source: ${dataSourceId}`);
@@ -58,8 +59,8 @@ async function reapplyFieldMappings(dataSourceId: string) {
     // Verify the update
     const updatedDataSource = await dataSourceRepo.findOne({ where: { id: dataSourceId } });
     if (updatedDataSource?.transformedData) {
-      const transformedRecords = JSON.parse(updatedDataSource.transformedData);
-      console.log(`\nVerified: ${transformedRecords.length} records in transformed data`);
+      const stored = await RecordStoreService.loadCatalog(updatedDataSource, { limit: 0 });
+      console.log(`\nVerified: ${stored?.totalRecords ?? 0} records in transformed data`);
     }
     
     console.log('\nField mappings successfully re-applied!');
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import { AuthService } from '../authService';
+import { getDatabase } from '@/database/connection';
+import type { UserEntity } from '@/entities/UserEntity';
+
+jest.mock('@/database/connection', () => ({
+  getDatabase: jest.fn()
+}));
+
+jest.mock('@/entities/UserEntity', () => ({
+  UserEntity: class {}
+}));
+
+// In-memory users table
+const createRepository = () => {
+  const users: UserEntity[] = [];
+  const matches = (user: UserEntity, where: Partial<UserEntity>) =>
+    Object.entries(where).every(([key, value]) => user[key as keyof UserEntity] === value);
+
+  return {
+    users,
+    count: jest.fn(async () => users.length),
+    findOne: jest.fn(async ({ where }: { where: Partial<UserEntity> }) => users.find(user => matches(user, where)) || null),
+    create: jest.fn((data: Partial<UserEntity>) => ({ ...data }) as UserEntity),
+    save: jest.fn(async (user: UserEntity) => {
+      if (!user.id) {
+        Object.assign(user, { id: `user-${users.length + 1}`, createdAt: new Date(), updatedAt: new Date() });
+        users.push(user);
+      }
+      return user;
+    })
+  };
+};
+
+describe('AuthService', () => {
+  const env = process.env as Record<string, string | undefined>;
+  let repository: ReturnType<typeof createRepository>;
+
+  beforeEach(() => {
+    repository = createRepository();
+    (getDatabase as jest.Mock).mockResolvedValue({ getRepository: () => repository });
+  });
+
+  afterEach(() => {
+    delete env.AUTH_ADMIN_USERNAME;
+    delete env.AUTH_ADMIN_PASSWORD;
+  });
+
+  it('hashes passwords with a random salt', async () => {
+    const first = await AuthService.hashPassword('correct horse');
+    const second = await AuthService.hashPassword('correct horse');
+
+    expect(first).toMatch(/^scrypt:[0-9a-f]{32}:[0-9a-f]{128}$/);
+    expect(first).not.toBe(second);
+    await expect(AuthService.verifyPassword('correct horse', first)).resolves.toBe(true);
+    await expect(AuthService.verifyPassword('wrong horse', first)).resolves.toBe(false);
+    await expect(AuthService.verifyPassword('correct horse', 'plaintext')).resolves.toBe(false);
+  });
+
+  it('authenticates users by password', async () => {
+    await AuthService.createUser({ username: 'jane', password: 'secret-1', displayName: 'Jane' });
+
+    const user = await AuthService.authenticate('jane', 'secret-1');
+
+    expect(user).toEqual(expect.objectContaining({ username: 'jane', displayName: 'Jane' }));
+    expect(user).not.toHaveProperty('passwordHash');
+    expect(repository.users[0].lastLoginAt).toBeInstanceOf(Date);
+    await expect(AuthService.authenticate('jane', 'secret-2')).resolves.toBeNull();
+    await expect(AuthService.authenticate('john', 'secret-1')).resolves.toBeNull();
+  });
+
+  it('rejects inactive users', async () => {
+    await AuthService.createUser({ username: 'jane', password: 'secret-1' });
+    repository.users[0].active = false;
+
+    await expect(AuthService.authenticate('jane', 'secret-1')).resolves.toBeNull();
+    await expect(AuthService.getUser(repository.users[0].id)).resolves.toBeNull();
+  });
+
+  it('validates new users', async () => {
+    await AuthService.createUser({ username: 'jane', password: 'secret-1' });
+
+    await expect(AuthService.createUser({ username: ' ', password: 'secret-1' })).rejects.toThrow('Username is required');
+    await expect(AuthService.createUser({ username: 'john', password: '123' })).rejects.toThrow('at least 6 characters');
+    await expect(AuthService.createUser({ username: 'jane', password: 'secret-2' })).rejects.toThrow('already exists');
+  });
+
+  it('gives new users the viewer role unless one is chosen', async () => {
+    const viewer = await AuthService.createUser({ username: 'jane', password: 'secret-1' });
+    const steward = await AuthService.createUser({ username: 'john', password: 'secret-1', role: 'data_steward' });
+
+    expect(viewer.role).toBe('viewer');
+    expect(steward.role).toBe('data_steward');
+    await expect(
+      AuthService.createUser({ username: 'jim', password: 'secret-1', role: 'owner' as never })
+    ).rejects.toThrow('Invalid role');
+  });
+
+  it('updates roles, status and passwords', async () => {
+    const user = await AuthService.createUser({ username: 'jane', password: 'secret-1' });
+
+    const updated = await AuthService.updateUser(user.id, { role: 'analyst', password: 'secret-2' });
+
+    expect(updated?.role).toBe('analyst');
+    await expect(AuthService.authenticate('jane', 'secret-2')).resolves.toEqual(expect.objectContaining({ role: 'analyst' }));
+    await expect(AuthService.updateUser(user.id, { role: 'owner' as never })).rejects.toThrow('Invalid role');
+    await expect(AuthService.updateUser('missing', { active: false })).resolves.toBeNull();
+  });
+
+  it('creates the first account from the configured admin credentials', async () => {
+    env.AUTH_ADMIN_USERNAME = 'admin';
+    env.AUTH_ADMIN_PASSWORD = 'admin-password';
+
+    await expect(AuthService.authenticate('admin', 'admin-password')).resolves.toEqual(
+      expect.objectContaining({ username: 'admin', role: 'admin' })
+    );
+    expect(repository.users).toHaveLength(1);
+
+    // Only while the table is empty
+    await AuthService.ensureInitialUser();
+    expect(repository.users).toHaveLength(1);
+  });
+
+  it('does not create a default account in production', async () => {
+    const nodeEnv = env.NODE_ENV;
+    env.NODE_ENV = 'production';
+
+    try {
+      await expect(AuthService.authenticate('cirrus', 'cldata')).resolves.toBeNull();
+      expect(repository.users).toHaveLength(0);
+    } finally {
+      env.NODE_ENV = nodeEnv;
+    }
+  });
+});
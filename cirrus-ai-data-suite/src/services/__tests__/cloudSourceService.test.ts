@@ -0,0 +1,170 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, mkdir, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { CloudSourceService, CloudSourceConfig } from '../cloudSourceService';
+import { DataSourceService } from '../dataSourceService';
+import { StorageService } from '../storage/storageService';
+import { S3Provider } from '../storage/s3Provider';
+import { getRepository } from '@/database/repository-helper';
+import { encryptCredential } from '@/utils/credentialEncryption';
+import type { DataSource } from '@/types/discovery';
+import type { UnifiedDataCatalog } from '../dataTransformationService';
+
+jest.mock('@/database/repository-helper', () => ({
+  getRepository: jest.fn(),
+  withRepository: jest.fn()
+}));
+
+jest.mock('../storage/s3Provider', () => ({
+  S3Provider: jest.fn()
+}));
+
+jest.mock('../storage/storageService', () => ({
+  StorageService: {
+    getInstance: jest.fn(),
+    generateKey: jest.fn((prefix: string, name: string) => `${prefix}/${name}`),
+    getContentType: jest.fn(() => 'text/csv')
+  }
+}));
+
+async function read(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString();
+}
+
+describe('CloudSourceService', () => {
+  let root: string;
+  let stored: Record<string, string>;
+  let dataSource: DataSource;
+  const update = jest.fn();
+
+  const config = (): CloudSourceConfig => ({ provider: 'local', path: 'exports', prefix: 'daily', filePattern: '*.csv' });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    root = await mkdtemp(path.join(tmpdir(), 'cloud-source-'));
+    process.env.LOCAL_SOURCE_ROOTS = root;
+    await mkdir(path.join(root, 'exports/daily/2024'), { recursive: true });
+    await writeFile(path.join(root, 'exports/daily/a.csv'), 'id\n1\n');
+    await writeFile(path.join(root, 'exports/daily/2024/b.csv'), 'id\n2\n');
+    await writeFile(path.join(root, 'exports/daily/notes.txt'), 'skip');
+
+    stored = {};
+    dataSource = { id: 'ds-1', name: 'Exports', type: 'filesystem', connectionStatus: 'connected', configuration: config() };
+    (StorageService.getInstance as jest.Mock).mockReturnValue({
+      uploadFileStream: jest.fn(async (key: string, stream: Readable) => {
+        stored[key] = await read(stream);
+      }),
+      deleteFiles: jest.fn(async (keys: string[]) => keys.forEach(key => delete stored[key]))
+    });
+    (getRepository as jest.Mock).mockResolvedValue({
+      update,
+      findOne: async () => ({ ...dataSource, configuration: JSON.stringify(dataSource.configuration) })
+    });
+    // Each update is read back by the next sync
+    update.mockImplementation(async (_id, changes: { configuration?: string }) => {
+      if (changes.configuration) dataSource = { ...dataSource, configuration: JSON.parse(changes.configuration) };
+    });
+    jest.spyOn(DataSourceService, 'getDataSourceById').mockImplementation(async () => dataSource);
+    jest.spyOn(DataSourceService, 'withStoredContent').mockImplementation(async file => ({ ...file, content: stored[file.storageKey!] }));
+    jest.spyOn(DataSourceService, 'retransform').mockResolvedValue({ totalRecords: 2 } as UnifiedDataCatalog);
+  });
+
+  afterEach(async () => {
+    delete process.env.LOCAL_SOURCE_ROOTS;
+    delete process.env.S3_ENDPOINT_ALLOWLIST;
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('browses one folder level and matches file patterns at any depth', async () => {
+    const listing = await CloudSourceService.browse(config(), 'daily');
+
+    expect(listing.prefix).toBe('daily/');
+    expect(listing.folders).toEqual(['daily/2024/']);
+    expect(listing.objects.map(object => object.key)).toEqual(['daily/a.csv', 'daily/notes.txt']);
+    expect((await CloudSourceService.listMatching(config())).map(object => object.key)).toEqual(['daily/2024/b.csv', 'daily/a.csv']);
+    expect((await CloudSourceService.listMatching({ ...config(), filePattern: '20??/*.{csv,txt}' })).map(object => object.key))
+      .toEqual(['daily/2024/b.csv']);
+  });
+
+  it('only reads directories under LOCAL_SOURCE_ROOTS', async () => {
+    await expect(CloudSourceService.browse({ provider: 'local', path: tmpdir() })).rejects.toThrow('not under a directory listed in LOCAL_SOURCE_ROOTS');
+    await expect(CloudSourceService.browse(config(), 'daily/../..')).rejects.toThrow('Prefixes cannot contain ".." segments');
+
+    delete process.env.LOCAL_SOURCE_ROOTS;
+    await expect(CloudSourceService.browse(config())).rejects.toThrow('Directory sources are disabled');
+  });
+
+  it('decrypts stored S3 keys and only connects to allowed endpoints', async () => {
+    const s3: CloudSourceConfig = {
+      provider: 's3',
+      bucket: 'exports',
+      accessKeyId: encryptCredential('AKIAEXAMPLE'),
+      secretAccessKey: encryptCredential('example-secret')
+    };
+
+    await CloudSourceService.createProvider({ ...s3, endpoint: 'https://s3.eu-west-1.amazonaws.com/' });
+    expect(S3Provider).toHaveBeenCalledWith({
+      bucket: 'exports',
+      region: 'us-east-1',
+      accessKeyId: 'AKIAEXAMPLE',
+      secretAccessKey: 'example-secret',
+      endpoint: 'https://s3.eu-west-1.amazonaws.com'
+    });
+
+    for (const endpoint of ['http://169.254.169.254', 'http://s3.amazonaws.com', 'https://s3.amazonaws.com.example.org', 'http://minio.internal:9000']) {
+      await expect(CloudSourceService.createProvider({ ...s3, endpoint })).rejects.toThrow('is not allowed');
+    }
+
+    process.env.S3_ENDPOINT_ALLOWLIST = 'https://storage.example.org, http://minio.internal:9000';
+    await CloudSourceService.createProvider({ ...s3, endpoint: 'http://minio.internal:9000' });
+    expect(S3Provider).toHaveBeenLastCalledWith(expect.objectContaining({ endpoint: 'http://minio.internal:9000' }));
+  });
+
+  it('copies only new and changed objects and drops removed ones', async () => {
+    expect(await CloudSourceService.syncDataSource('ds-1')).toEqual({ added: 2, updated: 0, removed: 0, unchanged: 0, recordCount: 2 });
+    expect(stored).toEqual({ 'datasource/ds-1/2024/b.csv': 'id\n2\n', 'datasource/ds-1/a.csv': 'id\n1\n' });
+    expect(dataSource.configuration.files!.map(file => [file.name, file.content])).toEqual([['2024/b.csv', 'id\n2\n'], ['a.csv', 'id\n1\n']]);
+    expect(update).toHaveBeenCalledWith('ds-1', expect.objectContaining({
+      storageKeys: JSON.stringify(['datasource/ds-1/2024/b.csv', 'datasource/ds-1/a.csv'])
+    }));
+
+    // Unchanged objects are not copied or transformed again
+    dataSource.transformedAt = new Date();
+    expect(await CloudSourceService.syncDataSource('ds-1')).toEqual({ added: 0, updated: 0, removed: 0, unchanged: 2 });
+    expect(DataSourceService.retransform).toHaveBeenCalledTimes(1);
+
+    await writeFile(path.join(root, 'exports/daily/a.csv'), 'id\n1\n3\n');
+    await utimes(path.join(root, 'exports/daily/a.csv'), new Date(), new Date(Date.now() + 60000));
+    await rm(path.join(root, 'exports/daily/2024/b.csv'));
+
+    expect(await CloudSourceService.syncDataSource('ds-1')).toEqual({ added: 0, updated: 1, removed: 1, unchanged: 0, recordCount: 2 });
+    expect(stored).toEqual({ 'datasource/ds-1/a.csv': 'id\n1\n3\n' });
+    expect(Object.keys(dataSource.configuration.syncedObjects!)).toEqual(['daily/a.csv']);
+  });
+
+  it('records failed syncs and syncs sources whose interval has passed', async () => {
+    dataSource.configuration = { ...dataSource.configuration, path: 'missing', autoSync: true, syncInterval: 30 };
+    jest.spyOn(DataSourceService, 'getAllDataSources').mockImplementation(async () => [dataSource]);
+
+    const [report] = await CloudSourceService.syncDueSources();
+    expect(report).toMatchObject({ dataSourceId: 'ds-1', status: 'error', error: 'Directory not found: missing' });
+    expect(dataSource.configuration.syncError).toBe('Directory not found: missing');
+
+    // Not due again until the interval has passed
+    expect(await CloudSourceService.syncDueSources(new Date(Date.now() + 10 * 60000))).toEqual([]);
+
+    dataSource.configuration = { ...dataSource.configuration, path: 'exports' };
+    const [retried] = await CloudSourceService.syncDueSources(new Date(Date.now() + 31 * 60000));
+    expect(retried).toMatchObject({ status: 'synced', result: { added: 2 } });
+    expect(dataSource.configuration.syncError).toBeUndefined();
+  });
+});
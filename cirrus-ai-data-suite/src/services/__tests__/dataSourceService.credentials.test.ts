@@ -0,0 +1,61 @@
+/**
+ * @jest-environment node
+ */
+import { DataSourceService, MASKED_CREDENTIAL } from '../dataSourceService';
+import { getDatabase } from '@/database/connection';
+import { decryptCredential } from '@/utils/credentialEncryption';
+
+jest.mock('@/database/connection', () => ({
+  getDatabase: jest.fn()
+}));
+
+describe('DataSourceService credentials', () => {
+  let entity: Record<string, unknown>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    entity = {
+      id: 'ds-1',
+      name: 'Exports',
+      type: 's3',
+      connectionStatus: 'connected',
+      configuration: JSON.stringify({ provider: 's3', bucket: 'exports', files: [] })
+    };
+    (getDatabase as jest.Mock).mockResolvedValue({
+      getRepository: () => ({
+        findOne: async () => entity,
+        save: async (saved: Record<string, unknown>) => saved
+      })
+    });
+  });
+
+  it('stores S3 keys encrypted and never returns them', async () => {
+    const updated = await DataSourceService.updateDataSource('ds-1', {
+      configuration: { provider: 's3', bucket: 'exports', accessKeyId: 'AKIAEXAMPLE', secretAccessKey: 'example-secret' }
+    });
+
+    const stored = JSON.parse(entity.configuration as string);
+    expect(stored.secretAccessKey).not.toContain('example-secret');
+    expect(decryptCredential(stored.secretAccessKey)).toBe('example-secret');
+    expect(decryptCredential(stored.accessKeyId)).toBe('AKIAEXAMPLE');
+    expect(updated!.configuration).toMatchObject({ accessKeyId: MASKED_CREDENTIAL, secretAccessKey: MASKED_CREDENTIAL });
+
+    const fetched = await DataSourceService.getDataSourceById('ds-1');
+    expect(JSON.stringify(fetched)).not.toContain(stored.secretAccessKey);
+    expect(fetched!.configuration).toMatchObject({ bucket: 'exports', secretAccessKey: MASKED_CREDENTIAL });
+  });
+
+  it('keeps the stored keys when a client saves the masked configuration back', async () => {
+    await DataSourceService.updateDataSource('ds-1', {
+      configuration: { provider: 's3', bucket: 'exports', accessKeyId: 'AKIAEXAMPLE', secretAccessKey: 'example-secret' }
+    });
+    const fetched = await DataSourceService.getDataSourceById('ds-1');
+
+    await DataSourceService.updateDataSource('ds-1', { configuration: { ...fetched!.configuration, prefix: 'daily' } });
+
+    const stored = JSON.parse(entity.configuration as string);
+    expect(stored.prefix).toBe('daily');
+    expect(decryptCredential(stored.secretAccessKey)).toBe('example-secret');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * @jest-environment node
+ */
+import { gunzipSync } from 'zlib';
+import { tableFromIPC } from 'apache-arrow';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import { DatasetExportService, ExportColumn } from '../datasetExportService';
+
+jest.mock('hyparquet-writer', () => ({
+  parquetWriteBuffer: jest.fn(() => new Uint8Array([80, 65, 82, 49]).buffer)
+}));
+
+const records = [
+  { id: 1, name: 'Ann, Jr.', score: 1.5, active: true, joined: '2024-03-01T10:00:00.000Z', tags: ['a'] },
+  { id: 2, name: null, score: 2, active: null, joined: new Date('2024-03-02T00:00:00Z'), tags: { x: 1 }, note: 'late' }
+];
+const columns: ExportColumn[] = [
+  { name: 'id', type: 'number' },
+  { name: 'name', type: 'string' },
+  { name: 'score', type: 'number' },
+  { name: 'active', type: 'boolean' },
+  { name: 'joined', type: 'timestamp' },
+  { name: 'tags', type: 'object' }
+];
+
+describe('DatasetExportService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('writes text formats in schema column order with the marking in the header', async () => {
+    const csv = await DatasetExportService.exportRecords(records, 'csv', { columns, classification: 'CUI' });
+    expect(csv).toMatchObject({ contentType: 'text/csv', extension: 'csv', binary: false });
+    expect(csv.content).toBe([
+      '# CLASSIFICATION: CUI',
+      'id,name,score,active,joined,tags,note',
+      '1,"Ann, Jr.",1.5,true,2024-03-01T10:00:00.000Z,"[""a""]",',
+      '2,,2,,2024-03-02T00:00:00.000Z,"{""x"":1}",late'
+    ].join('\n'));
+
+    const sql = await DatasetExportService.exportRecords(records.slice(0, 1), 'sql', { tableName: 'Staff List' });
+    expect(sql.content).toBe(
+      'INSERT INTO staff_list (id, name, score, active, joined, tags) VALUES (1, \'Ann, Jr.\', 1.5, TRUE, \'2024-03-01T10:00:00.000Z\', \'["a"]\');'
+    );
+
+    const jsonl = await DatasetExportService.exportRecords(records.slice(0, 1), 'jsonl.gz', { classification: 'CUI' });
+    expect(jsonl).toMatchObject({ contentType: 'application/gzip', extension: 'jsonl.gz', binary: true });
+    expect(gunzipSync(jsonl.content as Buffer).toString().split('\n').map(line => JSON.parse(line))).toEqual([
+      { classification: 'CUI' },
+      { id: 1, name: 'Ann, Jr.', score: 1.5, active: true, joined: '2024-03-01T10:00:00.000Z', tags: ['a'] }
+    ]);
+  });
+
+  it('writes Parquet columns typed from the catalog with the marking as key/value metadata', async () => {
+    const parquet = await DatasetExportService.exportRecords(records, 'parquet', { columns, classification: 'CUI' });
+
+    expect(parquet).toMatchObject({ contentType: 'application/vnd.apache.parquet', extension: 'parquet', binary: true });
+    expect(parquet.content).toEqual(Buffer.from('PAR1'));
+    const options = (parquetWriteBuffer as jest.Mock).mock.calls[0][0];
+    expect(options.kvMetadata).toEqual([{ key: 'classification', value: 'CUI' }]);
+    expect(options.columnData.map((column: { name: string; type: string }) => [column.name, column.type])).toEqual([
+      ['id', 'INT64'],
+      ['name', 'STRING'],
+      ['score', 'DOUBLE'],
+      ['active', 'BOOLEAN'],
+      ['joined', 'TIMESTAMP'],
+      ['tags', 'JSON'],
+      ['note', 'STRING']
+    ]);
+    expect(options.columnData[0].data).toEqual([BigInt(1), BigInt(2)]);
+    expect(options.columnData[4].data).toEqual([new Date('2024-03-01T10:00:00Z'), new Date('2024-03-02T00:00:00Z')]);
+  });
+
+  it('falls back to text for columns whose values do not fit the catalog type', async () => {
+    await DatasetExportService.exportRecords(
+      [{ when: '2024-03-01', count: '9007199254740993' }, { when: 'soon', count: 4 }],
+      'parquet',
+      { columns: [{ name: 'when', type: 'date' }, { name: 'count', type: 'integer' }] }
+    );
+
+    const [when, count] = (parquetWriteBuffer as jest.Mock).mock.calls[0][0].columnData;
+    expect(when).toMatchObject({ type: 'STRING', data: ['2024-03-01', 'soon'] });
+    expect(count).toMatchObject({ type: 'INT64', data: [BigInt('9007199254740993'), BigInt(4)] });
+  });
+
+  it('writes Arrow IPC files with inferred column types', async () => {
+    const arrow = await DatasetExportService.exportRecords(records, 'arrow', { classification: 'CUI' });
+    const table = tableFromIPC(arrow.content as Buffer);
+
+    expect(table.schema.metadata.get('classification')).toBe('CUI');
+    expect(table.schema.fields.map(field => `${field.name}:${field.type}`)).toEqual([
+      'id:Int64', 'name:Utf8', 'score:Float64', 'active:Bool', 'joined:Utf8', 'tags:Utf8', 'note:Utf8'
+    ]);
+    expect(table.schema.fields[5].metadata.get('ARROW:extension:name')).toBe('arrow.json');
+    expect(table.toArray().map(row => row.toJSON())).toEqual([
+      { id: BigInt(1), name: 'Ann, Jr.', score: 1.5, active: true, joined: '2024-03-01T10:00:00.000Z', tags: '["a"]', note: null },
+      { id: BigInt(2), name: null, score: 2, active: null, joined: '2024-03-02T00:00:00.000Z', tags: '{"x":1}', note: 'late' }
+    ]);
+  });
+
+  describe('streaming', () => {
+    async function* batchesOf<T>(...batches: T[][]) {
+      yield* batches;
+    }
+    const read = async (stream: ReadableStream<Uint8Array>) => Buffer.from(await new Response(stream).arrayBuffer());
+
+    it('writes text formats a batch at a time like the whole-file export', async () => {
+      // Columns come from the schema and the first batch
+      const csv = DatasetExportService.streamRecords(batchesOf(records.slice(1), [], records.slice(0, 1)), 'csv', { columns, classification: 'CUI' });
+      const whole = await DatasetExportService.exportRecords([records[1], records[0]], 'csv', { columns, classification: 'CUI' });
+      expect(csv).toMatchObject({ contentType: 'text/csv', extension: 'csv' });
+      expect((await read(csv.stream)).toString()).toBe(whole.content);
+
+      const jsonl = DatasetExportService.streamRecords(batchesOf(records.slice(0, 1), records.slice(0, 1)), 'jsonl.gz', { classification: 'CUI' });
+      expect(gunzipSync(await read(jsonl.stream)).toString().split('\n').map(line => JSON.parse(line))).toEqual([
+        { classification: 'CUI' },
+        { id: 1, name: 'Ann, Jr.', score: 1.5, active: true, joined: '2024-03-01T10:00:00.000Z', tags: ['a'] },
+        { id: 1, name: 'Ann, Jr.', score: 1.5, active: true, joined: '2024-03-01T10:00:00.000Z', tags: ['a'] }
+      ]);
+
+      const empty = DatasetExportService.streamRecords(batchesOf(), 'csv', { columns: columns.slice(0, 2) });
+      expect((await read(empty.stream)).toString()).toBe('id,name');
+    });
+
+    it('collects batches for columnar formats', async () => {
+      const arrow = DatasetExportService.streamRecords(batchesOf(records.slice(0, 1), records.slice(1)), 'arrow');
+      expect(tableFromIPC(await read(arrow.stream)).numRows).toBe(2);
+    });
+
+    it('writes a marked catalog with its records', async () => {
+      const catalog = {
+        catalogId: 'catalog-1',
+        sourceId: 'source-1',
+        sourceName: 'Staff',
+        createdAt: '2024-03-01T00:00:00.000Z',
+        totalRecords: 2,
+        schema: { fields: [] },
+        records: [],
+        summary: { dataTypes: [], recordCount: 2, fieldCount: 0, sampleSize: 0 },
+        recordStore: { version: 'v1', segmentSize: 1, segmentCount: 2, totalRecords: 2 }
+      };
+      const record = (recordIndex: number) => ({
+        id: `r${recordIndex}`, sourceId: 'source-1', sourceName: 'Staff', sourceType: 'csv', recordIndex,
+        data: { id: recordIndex }, metadata: { originalFormat: 'csv', extractedAt: '2024-03-01T00:00:00.000Z' }
+      });
+
+      const parsed = JSON.parse((await read(DatasetExportService.streamCatalog(catalog, batchesOf([record(0)], [record(1)]), 'CUI'))).toString());
+
+      expect(Object.keys(parsed)[0]).toBe('classification');
+      expect(parsed).not.toHaveProperty('recordStore');
+      expect(parsed.records.map((item: { data: unknown }) => item.data)).toEqual([{ id: 0 }, { id: 1 }]);
+    });
+  });
+});
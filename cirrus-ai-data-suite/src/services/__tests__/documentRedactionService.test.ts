@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+import JSZip from 'jszip';
+import { DocumentRedactionService } from '../documentRedactionService';
+import { RedactionJobError } from '../redactionJobService';
+import { getDatabase } from '@/database/connection';
+import { StorageService } from '../storage/storageService';
+import { PatternService, Pattern } from '../patternService';
+import { extractDocxText } from '@/utils/docxRedaction';
+import type { DocumentRedactionEntity } from '@/entities/DocumentRedactionEntity';
+
+jest.mock('@/database/connection', () => ({
+  getDatabase: jest.fn()
+}));
+jest.mock('../storage/storageService', () => ({
+  StorageService: { getInstance: jest.fn() }
+}));
+jest.mock('../patternService');
+
+const ssn: Pattern = {
+  id: 'ssn',
+  name: 'SSN',
+  type: 'PII',
+  category: 'Personal',
+  regex: '\\b\\d{3}-\\d{2}-\\d{4}\\b',
+  examples: [],
+  description: '',
+  color: 'bg-red-100 text-red-800',
+  isActive: true,
+  createdAt: new Date(0)
+};
+
+async function buildDocx(paragraphs: string[][]): Promise<Uint8Array> {
+  const body = paragraphs
+    .map(runs => `<w:p>${runs.map(text => `<w:r><w:t xml:space="preserve">${text}</w:t></w:r>`).join('')}</w:p>`)
+    .join('');
+  const zip = new JSZip();
+  zip.file('word/document.xml', `<?xml version="1.0"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`);
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+describe('DocumentRedactionService', () => {
+  const files = new Map<string, Buffer>();
+  let saved: DocumentRedactionEntity | null = null;
+
+  beforeEach(() => {
+    files.clear();
+    saved = null;
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    (getDatabase as jest.Mock).mockResolvedValue({
+      getRepository: () => ({
+        create: (values: object) => values,
+        save: async (values: DocumentRedactionEntity) => {
+          saved = { ...values, id: 'doc-1' };
+          return saved;
+        },
+        findOne: async () => (saved ? { ...saved, matches: saved.matches.map(match => ({ ...match })) } : null),
+        delete: async () => { saved = null; }
+      })
+    });
+    (StorageService.getInstance as jest.Mock).mockReturnValue({
+      uploadFile: async (key: string, content: Buffer) => { files.set(key, content); return { key }; },
+      getFile: async (key: string) => files.get(key),
+      deleteFiles: async (keys: string[]) => keys.forEach(key => files.delete(key))
+    });
+    (PatternService.getPatternById as jest.Mock).mockImplementation(async (id: string) => (id === 'ssn' ? ssn : null));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('finds matches for review and redacts only the accepted ones', async () => {
+    const docx = await buildDocx([['Patient ', '123-45', '-6789'], ['Reference 987-65-4321 is a test number']]);
+
+    const review = await DocumentRedactionService.createReview({ name: 'notes.docx', bytes: docx }, ['ssn'], undefined, 'alice');
+    expect(review).toMatchObject({ documentType: 'docx', status: 'review', createdBy: 'alice', storageKey: 'document-redactions/doc-1/original-notes.docx' });
+    expect(review.matches).toEqual([
+      expect.objectContaining({ id: 'm1', pattern: 'SSN', value: '123-45-6789', location: { part: 'word/document.xml', paragraph: 0 }, decision: 'pending' }),
+      expect.objectContaining({ id: 'm2', value: '987-65-4321', location: { part: 'word/document.xml', paragraph: 1 }, context: 'Reference 987-65-4321 is a test number' })
+    ]);
+
+    await expect(DocumentRedactionService.apply('doc-1')).rejects.toEqual(new RedactionJobError('2 matches still need a decision'));
+
+    await DocumentRedactionService.review('doc-1', { m2: 'rejected' }, 'accepted', 'bob');
+    const redacted = await DocumentRedactionService.apply('doc-1', 'bob');
+    expect(redacted).toMatchObject({ status: 'redacted', reviewedBy: 'bob', redactedStorageKey: 'document-redactions/doc-1/redacted-notes.docx' });
+
+    const file = await DocumentRedactionService.getRedactedFile('doc-1');
+    expect(file.fileName).toBe('redacted-notes.docx');
+    expect((await extractDocxText(new Uint8Array(file.content))).map(paragraph => paragraph.text)).toEqual([
+      'Patient [REDACTED]',
+      'Reference 987-65-4321 is a test number'
+    ]);
+  });
+
+  it('rejects files that are not PDF or Word documents', async () => {
+    await expect(DocumentRedactionService.createReview({ name: 'notes.txt', bytes: Buffer.from('123-45-6789') }, ['ssn']))
+      .rejects.toEqual(new RedactionJobError('Only PDF and DOCX documents can be redacted'));
+  });
+
+  it('does not accept decisions after the document was redacted', async () => {
+    const docx = await buildDocx([['SSN 123-45-6789']]);
+    await DocumentRedactionService.createReview({ name: 'a.docx', bytes: docx }, ['ssn']);
+    await DocumentRedactionService.review('doc-1', {}, 'accepted');
+    await DocumentRedactionService.apply('doc-1');
+
+    await expect(DocumentRedactionService.review('doc-1', { m1: 'rejected' }))
+      .rejects.toEqual(new RedactionJobError('This document has already been redacted'));
+  });
+});
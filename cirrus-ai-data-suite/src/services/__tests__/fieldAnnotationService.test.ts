@@ -0,0 +1,27 @@
+import { parseFieldAnnotationData, parseFieldAnnotationUpdate, parseFieldRelationshipData } from '../fieldAnnotationService';
+
+jest.mock('@/database/connection');
+
+describe('field annotation request bodies', () => {
+  const annotation = { dataSourceId: 'ds-1', fieldPath: 'customer.email', fieldName: 'email' };
+
+  it('keeps known fields and drops ids and audit columns', () => {
+    expect(parseFieldAnnotationData({ ...annotation, isPII: true, tags: ['pii'], id: 'other', createdBy: 'admin' })).toEqual({
+      ...annotation,
+      isPII: true,
+      tags: ['pii']
+    });
+    expect(parseFieldAnnotationUpdate({ description: 'Email', fieldPath: 'moved', updatedBy: 'admin' })).toEqual({ description: 'Email' });
+    expect(parseFieldRelationshipData({ sourceFieldId: 'a', targetFieldId: 'b', relationshipType: 'foreign_key', confidence: 0.9 }))
+      .toEqual({ sourceFieldId: 'a', targetFieldId: 'b', relationshipType: 'foreign_key', confidence: 0.9 });
+  });
+
+  it('rejects missing required fields, wrong types and invalid markings', () => {
+    expect(parseFieldAnnotationData({ dataSourceId: 'ds-1', fieldPath: 'email' })).toBeNull();
+    expect(parseFieldAnnotationData({ ...annotation, isPII: 'yes' })).toBeNull();
+    expect(parseFieldAnnotationData({ ...annotation, tags: [1] })).toBeNull();
+    expect(parseFieldAnnotationUpdate({ classification: 'NOT A MARKING' })).toBeNull();
+    expect(parseFieldAnnotationUpdate([annotation])).toBeNull();
+    expect(parseFieldRelationshipData({ sourceFieldId: 'a', targetFieldId: 'b' })).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+import type { LLMGateway as LLMGatewayType } from '../llmGateway';
+
+const completion = (content: string, usage?: Record<string, number>) => ({
+  ok: true,
+  status: 200,
+  json: async () => ({ model: 'llama3', choices: [{ message: { content } }], usage })
+});
+
+const failure = (status: number, message: string) => ({
+  ok: false,
+  status,
+  statusText: message,
+  json: async () => ({ error: { message } })
+});
+
+describe('LLMGateway', () => {
+  const originalEnv = process.env;
+  let LLMGateway: typeof LLMGatewayType;
+
+  beforeEach(async () => {
+    process.env = {
+      ...originalEnv,
+      ANTHROPIC_API_KEY: '',
+      OPENAI_API_KEY: '',
+      VERTEX_PROJECT_ID: '',
+      LLM_PROVIDER: 'local',
+      LLM_LOCAL_BASE_URL: 'http://localhost:11434/v1/',
+      LLM_MODEL_KEYWORD_GENERATION: 'qwen2'
+    };
+    global.fetch = jest.fn();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    // The default LLMService is created from the environment on import
+    jest.resetModules();
+    ({ LLMGateway } = await import('../llmGateway'));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('sends requests to a local OpenAI-compatible endpoint with the task model', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(completion('{"keywords":[]}', { prompt_tokens: 12, completion_tokens: 4 }));
+
+    const response = await LLMGateway.complete({ feature: 'keyword_generation', prompt: 'Describe', systemPrompt: 'JSON only' });
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'qwen2',
+      messages: [{ role: 'system', content: 'JSON only' }, { role: 'user', content: 'Describe' }]
+    });
+    expect(response).toMatchObject({ content: '{"keywords":[]}', provider: 'local', cached: false, cost: 0 });
+    expect(LLMGateway.getUsage()).toEqual([expect.objectContaining({
+      feature: 'keyword_generation',
+      provider: 'local',
+      model: 'qwen2',
+      requests: 1,
+      promptTokens: 12,
+      completionTokens: 4,
+      totalTokens: 16
+    })]);
+  });
+
+  it('estimates usage when the local server does not report it', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(completion('12345678'));
+
+    const response = await LLMGateway.complete({ feature: 'query_answer', prompt: 'abcd', systemPrompt: 'efgh' });
+
+    expect(response.usage).toEqual({ promptTokens: 2, completionTokens: 2, totalTokens: 4 });
+  });
+
+  it('answers repeated prompts from the cache', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(completion('summary'));
+
+    await LLMGateway.complete({ feature: 'query_answer', prompt: 'Summarize' });
+    const cached = await LLMGateway.complete({ feature: 'query_answer', prompt: 'Summarize' });
+    await LLMGateway.complete({ feature: 'query_answer', prompt: 'Summarize', cache: false });
+
+    expect(cached).toMatchObject({ content: 'summary', cached: true });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(LLMGateway.getUsage()[0]).toMatchObject({ requests: 3, cacheHits: 1 });
+  });
+
+  it('retries retryable provider errors', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(failure(503, 'Service Unavailable'))
+      .mockResolvedValueOnce(completion('ok'));
+
+    const response = await LLMGateway.complete({ feature: 'redaction', prompt: 'Redact' });
+
+    expect(response.content).toBe('ok');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry client errors and counts the failure', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue(failure(400, 'Bad request'));
+
+    await expect(LLMGateway.complete({ feature: 'redaction', prompt: 'Redact' })).rejects.toThrow('Local LLM API error (400): Bad request');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(LLMGateway.getUsage()[0]).toMatchObject({ requests: 1, failures: 1 });
+  });
+
+  it('reports the feature as unconfigured without a provider', async () => {
+    process.env.LLM_PROVIDER = '';
+    process.env.LLM_LOCAL_BASE_URL = '';
+    jest.resetModules();
+    ({ LLMGateway } = await import('../llmGateway'));
+
+    expect(LLMGateway.isConfigured('keyword_generation')).toBe(false);
+    expect(LLMGateway.getStatus()).toMatchObject({ configured: false, provider: 'none' });
+  });
+
+  it('prices hosted models by the longest matching model prefix', () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 };
+
+    expect(LLMGateway.estimateCost('openai', 'gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(0.75);
+    expect(LLMGateway.estimateCost('anthropic', 'claude-3-haiku-20240307', usage)).toBeCloseTo(1.5);
+    expect(LLMGateway.estimateCost('local', 'gpt-4o', usage)).toBe(0);
+  });
+});
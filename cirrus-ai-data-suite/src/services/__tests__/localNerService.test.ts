@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import { LocalNerService } from '../localNerService';
+import { MLPatternService } from '../mlPatternService';
+import { HybridPatternService } from '../hybridPatternService';
+
+const entities = (service: LocalNerService, text: string) =>
+  service.recognize(text).map(entity => [entity.type, entity.text]);
+
+describe('LocalNerService', () => {
+  const service = new LocalNerService();
+
+  it('finds people, organizations and locations in free text', () => {
+    const text = 'Dr. Alice Moreau met John Smith from Acme Holdings Inc. in Chicago, Illinois.';
+
+    expect(entities(service, text)).toEqual([
+      ['PERSON', 'Dr. Alice Moreau'],
+      ['PERSON', 'John Smith'],
+      ['ORGANIZATION', 'Acme Holdings Inc.'],
+      ['LOCATION', 'Chicago'],
+      ['LOCATION', 'Illinois']
+    ]);
+  });
+
+  it('finds names introduced by cue words', () => {
+    expect(entities(service, 'Patient: Zora Okonkwo was admitted')).toEqual([['PERSON', 'Zora Okonkwo']]);
+  });
+
+  it('finds dates, times, money and contact details', () => {
+    const text = 'On March 3, 2024 at 10:30 AM, call 555-123-4567 or email j.doe@example.com about the $1,250.00 refund.';
+
+    expect(entities(service, text)).toEqual([
+      ['DATE', 'March 3, 2024'],
+      ['TIME', '10:30 AM'],
+      ['PHONE', '555-123-4567'],
+      ['EMAIL', 'j.doe@example.com'],
+      ['MONEY', '$1,250.00']
+    ]);
+  });
+
+  it('validates SSNs and card numbers', () => {
+    expect(entities(service, 'SSN 123-45-6789, bad 000-12-3456')).toEqual([['SSN', '123-45-6789']]);
+    expect(entities(service, 'Card 4111 1111 1111 1111, not 4111 1111 1111 1112')).toEqual([['CREDIT_CARD', '4111 1111 1111 1111']]);
+  });
+
+  it('finds street addresses', () => {
+    expect(entities(service, 'Ship to 42 Elm Street, Springfield, IL 62704 today')).toEqual([
+      ['ADDRESS', '42 Elm Street, Springfield, IL 62704']
+    ]);
+  });
+
+  it('does not treat capitalized words after a first name as a surname when they are places', () => {
+    expect(entities(service, 'Grace Hospital is in Boston')).toEqual([
+      ['ORGANIZATION', 'Grace Hospital'],
+      ['LOCATION', 'Boston']
+    ]);
+  });
+
+  it('accepts extra gazetteer entries', () => {
+    const custom = new LocalNerService({ firstNames: ['Zephyrine'], locations: ['Fort Meade'], organizations: ['Cirrus'] });
+
+    expect(entities(custom, 'Zephyrine Quill joined Cirrus at Fort Meade')).toEqual([
+      ['PERSON', 'Zephyrine Quill'],
+      ['ORGANIZATION', 'Cirrus'],
+      ['LOCATION', 'Fort Meade']
+    ]);
+  });
+});
+
+describe('local ML provider', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns MLMatch entities without network access', async () => {
+    global.fetch = jest.fn();
+    const ml = new MLPatternService({ enabled: true, provider: 'local' });
+
+    const matches = await ml.detectEntities('Contact Mary Johnson in Denver');
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(matches).toEqual([
+      expect.objectContaining({ value: 'Mary Johnson', label: 'Person Name', startIndex: 8, endIndex: 20, method: 'ml-ner' }),
+      expect.objectContaining({ value: 'Denver', label: 'Location', method: 'ml-ner' })
+    ]);
+  });
+
+  it('reports the local recognizer in its status', () => {
+    const status = new MLPatternService({ enabled: true, provider: 'local' }).getConfigStatus();
+
+    expect(status).toMatchObject({ configured: true, provider: 'local', model: 'rules-gazetteer-v1' });
+    expect(status.entityTypes).toContain('PERSON');
+  });
+
+  it('adds entities the hybrid patterns miss', () => {
+    const result = new HybridPatternService().detectPatternsWithRelationships(
+      'Yesterday Robert Chen from Globex Corporation emailed robert.chen@example.com'
+    );
+
+    expect(result.matches).toEqual(expect.arrayContaining([
+      expect.objectContaining({ patternName: 'Organization', value: 'Globex Corporation', method: 'ml-ner' }),
+      expect.objectContaining({ patternName: 'Email Address', method: 'context-aware' })
+    ]));
+    expect(result.matches.filter(match => match.value.includes('robert.chen@'))).toHaveLength(1);
+    expect(result.stats.mlNer).toBeGreaterThan(0);
+
+    const withoutNer = new HybridPatternService({ useLocalNer: false }).detectPatterns('Globex Corporation');
+    expect(withoutNer.some(match => match.method === 'ml-ner')).toBe(false);
+  });
+});
@@ -0,0 +1,454 @@
+import { PipelineExecutionEngine } from '../pipelineExecutionEngine';
+import { DataSourceService } from '../dataSourceService';
+import { ClassificationService } from '../classificationService';
+import { StorageService } from '../storage/storageService';
+import { PatternService } from '../patternService';
+import { getDatabase } from '@/database/connection';
+import { createConnector } from '../connectors/connectorFactory';
+import { getActiveExecution, removeExecution } from '../pipelineExecutionService';
+import { Pipeline, PipelineEdge, PipelineNode } from '@/types/pipeline';
+import { highWaterMark } from '@/utils/classification';
+
+jest.mock('@/database/connection');
+jest.mock('../dataSourceService');
+jest.mock('../connectors/connectorFactory', () => ({ createConnector: jest.fn() }));
+jest.mock('mongodb', () => ({ MongoClient: jest.fn() }));
+jest.mock('../classificationService');
+jest.mock('../storage/storageService');
+
+const createNode = (
+  id: string,
+  templateName: string,
+  config: Record<string, unknown> = {},
+  inputs: string[] = ['input'],
+  outputs: string[] = ['output']
+): PipelineNode => ({
+  id,
+  type: 'transform',
+  position: { x: 0, y: 0 },
+  data: {
+    label: templateName,
+    category: 'test',
+    icon: '',
+    color: '',
+    config,
+    inputs: inputs.map(input => ({ id: input, name: input, type: 'json', required: true })),
+    outputs: outputs.map(output => ({ id: output, name: output, type: 'json' })),
+    metadata: { templateName }
+  }
+});
+
+const createEdge = (source: string, target: string, sourceHandle?: string, targetHandle?: string): PipelineEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  sourceHandle,
+  targetHandle
+});
+
+const createPipeline = (nodes: PipelineNode[], edges: PipelineEdge[]): Pipeline => ({
+  id: 'pipeline_test',
+  name: 'Test Pipeline',
+  description: '',
+  nodes,
+  edges,
+  triggers: [],
+  status: 'draft',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  createdBy: 'test',
+  tags: [],
+  version: 1
+});
+
+// Stored records as DataSourceService.openRecords returns them, in two batches
+function storedRecords(sourceName: string, records: Array<Record<string, unknown>>) {
+  return {
+    catalog: { sourceName, totalRecords: records.length },
+    batches: async function* () {
+      yield records.slice(0, 1).map(data => ({ data }));
+      yield records.slice(1).map(data => ({ data }));
+    }
+  };
+}
+
+describe('PipelineExecutionEngine', () => {
+  const sourceRecords = [
+    { name: 'Alice', age: 34, city: 'Boston' },
+    { name: 'Bob', age: 19, city: 'Denver' },
+    { name: 'Carol', age: 52, city: 'Boston' }
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDatabase as jest.Mock).mockResolvedValue({
+      getRepository: jest.fn().mockReturnValue({
+        update: jest.fn().mockResolvedValue({}),
+        save: jest.fn().mockResolvedValue({})
+      })
+    });
+    (DataSourceService.openRecords as jest.Mock).mockResolvedValue(storedRecords('people.csv', sourceRecords));
+    removeExecution('pipeline_test');
+  });
+
+  describe('topologicalSort', () => {
+    it('should order nodes after their upstream nodes', () => {
+      const nodes = [createNode('c', 'Data Filter'), createNode('a', 'File Upload'), createNode('b', 'Field Mapper')];
+      const sorted = PipelineExecutionEngine.topologicalSort(nodes, [createEdge('a', 'b'), createEdge('b', 'c')]);
+
+      expect(sorted.map(node => node.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should throw on circular dependencies', () => {
+      const nodes = [createNode('a', 'Data Filter'), createNode('b', 'Field Mapper')];
+
+      expect(() => PipelineExecutionEngine.topologicalSort(nodes, [createEdge('a', 'b'), createEdge('b', 'a')]))
+        .toThrow('circular');
+    });
+  });
+
+  describe('execute', () => {
+    it('should pass records through the graph and record metrics', async () => {
+      const pipeline = createPipeline(
+        [
+          createNode('source', 'File Upload', { dataSourceId: 'ds_1' }, [], ['data']),
+          createNode('filter', 'Data Filter', {
+            conditions: [{ id: 'c1', field: 'age', operator: 'greater_than', value: 21 }],
+            operator: 'AND'
+          }),
+          createNode('mapper', 'Field Mapper', { mappings: JSON.stringify({ fullName: 'name' }) })
+        ],
+        [createEdge('source', 'filter'), createEdge('filter', 'mapper')]
+      );
+
+      const execution = await PipelineExecutionEngine.execute(pipeline);
+
+      expect(execution.status).toBe('completed');
+      expect(execution.metrics.completedNodes).toBe(3);
+      expect(execution.metrics.recordsProcessed).toBe(3);
+      expect(execution.metrics.dataProcessed).toBeGreaterThan(0);
+      expect(execution.metrics.nodeMetrics?.filter).toMatchObject({ status: 'completed', recordsIn: 3, recordsOut: 2 });
+      expect(execution.metrics.nodeMetrics?.mapper.recordsOut).toBe(2);
+      expect(execution.logs.some(log => log.nodeId === 'filter')).toBe(true);
+      expect(execution.outputSamples?.filter).toEqual([
+        { port: 'output', recordCount: 2, records: [sourceRecords[0], sourceRecords[2]], report: undefined }
+      ]);
+      expect(getActiveExecution('pipeline_test')).toBe(execution);
+    });
+
+    it('should route records through conditional branch ports', async () => {
+      const pipeline = createPipeline(
+        [
+          createNode('source', 'File Upload', { dataSourceId: 'ds_1' }, [], ['data']),
+          createNode('branch', 'Conditional Branch', { condition: 'city', operator: 'equals', value: 'Boston' }, ['input'], ['true', 'false']),
+          createNode('boston', 'Data Merger', {}, ['input1', 'input2']),
+          createNode('others', 'Data Merger', {}, ['input1', 'input2'])
+        ],
+        [createEdge('source', 'branch'), createEdge('branch', 'boston', 'true'), createEdge('branch', 'others', 'false')]
+      );
+
+      const execution = await PipelineExecutionEngine.execute(pipeline);
+
+      expect(execution.metrics.nodeMetrics?.boston.recordsOut).toBe(2);
+      expect(execution.metrics.nodeMetrics?.others.recordsOut).toBe(1);
+    });
+
+    it('should route records using a condition group', async () => {
+      const pipeline = createPipeline(
+        [
+          createNode('source', 'File Upload', { dataSourceId: 'ds_1' }, [], ['data']),
+          createNode('branch', 'Conditional Branch', {
+            conditions: {
+              id: 'root',
+              operator: 'OR',
+              conditions: [
+                { id: 'c1', field: 'age', operator: 'less_than', value: 21 },
+                {
+                  id: 'g1',
+                  operator: 'AND',
+                  conditions: [
+                    { id: 'c2', field: 'city', operator: 'equals', value: 'Boston' },
+                    { id: 'c3', field: 'age', operator: 'greater_than', value: 50 }
+                  ]
+                }
+              ]
+            }
+          }, ['input'], ['true', 'false']),
+          createNode('matched', 'Data Merger', {}, ['input1', 'input2']),
+          createNode('unmatched', 'Data Merger', {}, ['input1', 'input2'])
+        ],
+        [createEdge('source', 'branch'), createEdge('branch', 'matched', 'true'), createEdge('branch', 'unmatched', 'false')]
+      );
+
+      const execution = await PipelineExecutionEngine.execute(pipeline);
+
+      expect(execution.outputSamples?.matched[0].records.map(record => record.name)).toEqual(['Bob', 'Carol']);
+      expect(execution.outputSamples?.unmatched[0].records.map(record => record.name)).toEqual(['Alice']);
+    });
+
+    it('should split records, transform one branch and recombine them with schema alignment', async () => {
+      const pipeline = createPipeline(
+        [
+          createNode('source', 'File Upload', { dataSourceId: 'ds_1' }, [], ['data']),
+          createNode('branch', 'Conditional Branch', {
+            conditions: JSON.stringify([{ id: 'c1', field: 'city', operator: 'equals', value: 'Boston' }])
+          }, ['input'], ['true', 'false']),
+          createNode('mapper', 'Field Mapper', { mappings: JSON.stringify({ person: 'name' }) }),
+          createNode('merge', 'Data Merger', { mergeStrategy: 'union' }, ['input1', 'input2'])
+        ],
+        [
+          createEdge('source', 'branch'),
+          createEdge('branch', 'mapper', 'true'),
+          { ...createEdge('mapper', 'merge', 'output', 'input1'), id: 'mapper-merge' },
+          { ...createEdge('branch', 'merge', 'false', 'input2'), id: 'branch-merge' }
+        ]
+      );
+
+      const execution = await PipelineExecutionEngine.execute(pipeline);
+      const merged = execution.outputSamples?.merge[0].records || [];
+
+      expect(execution.status).toBe('completed');
+      expect(merged).toHaveLength(3);
+      expect(merged.every(record => Object.keys(record).sort().join() === 'age,city,name,person')).toBe(true);
+      expect(merged[2]).toMatchObject({ name: 'Bob', person: null });
+    });
+
+    describe('keyed joins', () => {
+      const orders = [
+        { customer: 'Alice', total: 10 },
+        { customer: 'Alice', total: 25 },
+        { customer: 'Dave', total: 5 }
+      ];
+
+      const runJoin = async (config: Record<string, unknown>) => {
+        (DataSourceService.openRecords as jest.Mock).mockImplementation(async (id: string) =>
+          storedRecords(id, id === 'orders' ? orders : sourceRecords)
+        );
+        const pipeline = createPipeline(
+          [
+            createNode('people', 'File Upload', { dataSourceId: 'people' }, [], ['data']),
+            createNode('orders', 'File Upload', { dataSourceId: 'orders' }, [], ['data']),
+            createNode('join', 'Data Merger', config, ['input1', 'input2'])
+          ],
+          [createEdge('people', 'join', 'data', 'input1'), createEdge('orders', 'join', 'data', 'input2')]
+        );
+        return PipelineExecutionEngine.execute(pipeline);
+      };
+
+      it('should inner join on differently named keys', async () => {
+        const execution = await runJoin({ mergeStrategy: 'inner_join', joinKeys: 'name', rightJoinKeys: 'customer' });
+
+        expect(execution.outputSamples?.join[0].records).toEqual([
+          { name: 'Alice', age: 34, city: 'Boston', customer: 'Alice', total: 10 },
+          { name: 'Alice', age: 34, city: 'Boston', customer: 'Alice', total: 25 }
+        ]);
+      });
+
+      it('should keep unmatched left records in a left join', async () => {
+        const execution = await runJoin({ mergeStrategy: 'left_join', joinKeys: ['name'], rightJoinKeys: ['customer'] });
+        const records = execution.outputSamples?.join[0].records || [];
+
+        expect(records).toHaveLength(4);
+        expect(records.find(record => record.name === 'Bob')).toMatchObject({ customer: null, total: null });
+      });
+
+      it('should keep unmatched records from both sides in a full join', async () => {
+        const execution = await runJoin({ mergeStrategy: 'full_join', joinKeys: 'name', rightJoinKeys: 'customer' });
+        const records = execution.outputSamples?.join[0].records || [];
+
+        expect(records).toHaveLength(5);
+        expect(records[4]).toEqual({ name: 'Dave', age: null, city: null, customer: 'Dave', total: 5 });
+      });
+
+      it('should suffix conflicting right-side fields', async () => {
+        (DataSourceService.openRecords as jest.Mock).mockResolvedValue(storedRecords('people.csv', [{ name: 'Alice', city: 'Boston' }]));
+        const pipeline = createPipeline(
+          [
+            createNode('left', 'File Upload', { dataSourceId: 'ds_1' }, [], ['data']),
+            createNode('right', 'File Upload', { dataSourceId: 'ds_1' }, [], ['data']),
+            createNode('join', 'Data Merger', { mergeStrategy: 'inner_join', joinKeys: 'name' }, ['input1', 'input2'])
+          ],
+          [createEdge('left', 'join', 'data', 'input1'), createEdge('right', 'join', 'data', 'input2')]
+        );
+
+        const execution = await PipelineExecutionEngine.execute(pipeline);
+
+        expect(execution.outputSamples?.join[0].records).toEqual([{ name: 'Alice', city: 'Boston', city_right: 'Boston' }]);
+      });
+
+      it('should fail joins without join keys', async () => {
+        const execution = await runJoin({ mergeStrategy: 'inner_join' });
+
+        expect(execution.status).toBe('failed');
+        expect(execution.metrics.nodeMetrics?.join.error).toContain('join key');
+      });
+    });
+
+    describe('database queries', () => {
+      const connector = {
+        connect: jest.fn(),
+        disconnect: jest.fn(),
+        executeQuery: jest.fn().mockResolvedValue({ columns: ['id', 'name'], rows: [[1, 'Alice']] })
+      };
+
+      const runQuery = (type: string, config: Record<string, unknown>) => {
+        (getDatabase as jest.Mock).mockResolvedValue({
+          getRepository: jest.fn().mockReturnValue({
+            update: jest.fn().mockResolvedValue({}),
+            save: jest.fn().mockResolvedValue({}),
+            findOne: jest.fn().mockResolvedValue({ id: 'conn_1', name: 'Test', type })
+          })
+        });
+        (createConnector as jest.Mock).mockReturnValue(connector);
+        return PipelineExecutionEngine.execute(
+          createPipeline([createNode('query', 'Database Query', { connectionId: 'conn_1', ...config }, [], ['data'])], [])
+        );
+      };
+
+      it('should read a validated table', async () => {
+        const execution = await runQuery('postgresql', { table: 'public.users' });
+
+        expect(execution.status).toBe('completed');
+        expect(connector.executeQuery).toHaveBeenCalledWith('SELECT * FROM public.users');
+        expect(execution.outputSamples?.query[0].records).toEqual([{ id: 1, name: 'Alice' }]);
+      });
+
+      it('should query a MongoDB table as a collection', async () => {
+        const execution = await runQuery('mongodb', { table: 'users' });
+
+        expect(execution.status).toBe('completed');
+        expect(connector.executeQuery).toHaveBeenCalledWith('{"collection":"users"}');
+      });
+
+      it.each([
+        [{ table: 'users; DROP TABLE users' }, 'Invalid table name'],
+        [{ query: 'SELECT * FROM users; SELECT * FROM secrets' }, 'single statement'],
+        [{ query: 'SELECT * INTO backup FROM users' }, 'forbidden keyword: INTO']
+      ])('should reject %j', async (config, message) => {
+        const execution = await runQuery('postgresql', config);
+
+        expect(execution.status).toBe('failed');
+        expect(execution.metrics.nodeMetrics?.query.error).toContain(message);
+        expect(connector.executeQuery).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('classification markings', () => {
+      const uploadFile = jest.fn();
+      const markings: Record<string, string> = { ds_secret: 'SECRET//NOFORN', ds_cui: 'CUI//FOUO' };
+
+      beforeEach(() => {
+        (StorageService.getInstance as jest.Mock).mockReturnValue({ uploadFile });
+        (ClassificationService.getDataSourceMarking as jest.Mock).mockImplementation(async (id: string) => markings[id]);
+        (ClassificationService.getCombinedMarking as jest.Mock).mockImplementation(async (ids: string[]) =>
+          highWaterMark(ids.map(id => markings[id]))
+        );
+        process.env.DEPLOYMENT_ENVIRONMENTS = JSON.stringify([
+          { id: 'env_secret', name: 'Secret enclave', securityLevel: 'secret', audience: 'USA', accreditedControls: ['FOUO'] },
+          { id: 'env_partner', name: 'Partner cloud', securityLevel: 'secret', audience: 'FVEY', accreditedControls: ['FOUO'] },
+          { id: 'env_open', name: 'Open cloud', securityLevel: 'unclassified', audience: 'USA', accreditedControls: ['FOUO'] }
+        ]);
+      });
+
+      afterEach(() => {
+        delete process.env.DEPLOYMENT_ENVIRONMENTS;
+      });
+
+      const runDeploy = (environmentId: string, config: Record<string, unknown> = {}) => PipelineExecutionEngine.execute(createPipeline(
+        [
+          createNode('secret', 'File Upload', { dataSourceId: 'ds_secret' }, [], ['data']),
+          createNode('cui', 'File Upload', { dataSourceId: 'ds_cui' }, [], ['data']),
+          createNode('merge', 'Data Merger', {}, ['input1', 'input2']),
+          createNode('mapper', 'Field Mapper', { mappings: JSON.stringify({ fullName: 'name' }) }),
+          createNode('deploy', 'Environment Deploy', { environmentId, qualityGates: [], ...config }, ['input'], [])
+        ],
+        [
+          createEdge('secret', 'merge', 'data', 'input1'),
+          createEdge('cui', 'merge', 'data', 'input2'),
+          createEdge('merge', 'mapper'),
+          createEdge('mapper', 'deploy')
+        ]
+      ));
+
+      it('should carry the high-water mark of the inputs into deployed files', async () => {
+        const execution = await runDeploy('env_secret');
+
+        expect(execution.status).toBe('completed');
+        const [, content, options] = uploadFile.mock.calls[0];
+        expect(JSON.parse(content).classification).toBe('SECRET//NOFORN//FOUO');
+        expect(options.metadata.classification).toBe('SECRET//NOFORN//FOUO');
+      });
+
+      it('should block deployment to an environment below the marking whatever the node config claims', async () => {
+        const execution = await runDeploy('env_open', { securityLevel: 'top-secret' });
+
+        expect(execution.status).toBe('failed');
+        expect(execution.metrics.nodeMetrics?.deploy.error).toContain('cannot be deployed to an environment at security level unclassified');
+        expect(uploadFile).not.toHaveBeenCalled();
+      });
+
+      it('should enforce dissemination controls and refuse unknown environments', async () => {
+        const partner = await runDeploy('env_partner');
+        expect(partner.status).toBe('failed');
+        expect(partner.metrics.nodeMetrics?.deploy.error).toContain('open to FVEY partners');
+
+        const unknown = await runDeploy('env_other');
+        expect(unknown.metrics.nodeMetrics?.deploy.error).toContain('env_other is not a configured deployment environment');
+        expect(uploadFile).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should redact nested and numeric values in redactor nodes', async () => {
+      (DataSourceService.openRecords as jest.Mock).mockResolvedValue(storedRecords('patients.json', [
+        { name: 'Ada', contact: { email: 'ada@example.com', phones: ['555-12-3456'] }, ssn: 123456789 },
+        { name: 'Bob', contact: { email: 'none' }, visits: [{ note: 'ssn 987-65-4321 on file' }] }
+      ]));
+      const pipeline = createPipeline(
+        [
+          createNode('source', 'File Upload', { dataSourceId: 'ds_1' }, [], ['data']),
+          createNode('redact', 'Data Redactor', { patternIds: 'ssn,email,digits', action: 'redact' })
+        ],
+        [createEdge('source', 'redact')]
+      );
+      // Nine-digit numbers are SSNs without their dashes
+      jest.spyOn(PatternService, 'getAllPatterns').mockResolvedValue([{
+        id: 'digits', name: 'SSN digits', type: 'PII', category: 'Government ID', regex: '^\\d{9}$',
+        examples: [], description: '', color: '', isActive: true, createdAt: new Date(0)
+      }]);
+
+      const execution = await PipelineExecutionEngine.execute(pipeline);
+
+      expect(execution.status).toBe('completed');
+      const [output] = execution.outputSamples!.redact;
+      expect(JSON.stringify(output.records)).not.toMatch(/ada@example|555-12-3456|987-65-4321|123456789/);
+      expect(output.records[0]).toMatchObject({ name: 'Ada', contact: { email: expect.any(String), phones: [expect.any(String)] } });
+      expect(output.records[1]).toMatchObject({ contact: { email: 'none' } });
+    });
+
+    it('should fail the run and skip downstream nodes when a node fails', async () => {
+      const pipeline = createPipeline(
+        [
+          createNode('source', 'File Upload', {}, [], ['data']),
+          createNode('filter', 'Data Filter')
+        ],
+        [createEdge('source', 'filter')]
+      );
+
+      const execution = await PipelineExecutionEngine.execute(pipeline);
+
+      expect(execution.status).toBe('failed');
+      expect(execution.error).toContain('No data source selected');
+      expect(execution.metrics.failedNodes).toBe(1);
+      expect(execution.metrics.nodeMetrics?.filter.status).toBe('skipped');
+    });
+
+    it('should fail nodes with unsupported templates', async () => {
+      const pipeline = createPipeline([createNode('unknown', 'Quantum Transformer')], []);
+
+      const execution = await PipelineExecutionEngine.execute(pipeline);
+
+      expect(execution.status).toBe('failed');
+      expect(execution.metrics.nodeMetrics?.unknown.error).toContain('not supported');
+    });
+  });
+});
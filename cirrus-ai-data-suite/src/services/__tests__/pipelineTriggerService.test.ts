@@ -0,0 +1,24 @@
+/**
+ * @jest-environment node
+ */
+import { PipelineTriggerService } from '../pipelineTriggerService';
+import { PipelineTrigger } from '@/types/pipeline';
+
+describe('PipelineTriggerService', () => {
+  const webhook = (config: Record<string, unknown>): PipelineTrigger => ({
+    id: 'trigger_1',
+    type: 'webhook',
+    enabled: true,
+    config: { token: 'token', ...config }
+  });
+
+  it('should verify webhook secrets', () => {
+    const trigger = webhook({ secret: 's3cret' });
+
+    expect(PipelineTriggerService.verifyWebhookSecret(trigger, 's3cret')).toBe(true);
+    expect(PipelineTriggerService.verifyWebhookSecret(trigger, 's3cre')).toBe(false);
+    expect(PipelineTriggerService.verifyWebhookSecret(trigger, 's3cret-and-more')).toBe(false);
+    expect(PipelineTriggerService.verifyWebhookSecret(trigger, null)).toBe(false);
+    expect(PipelineTriggerService.verifyWebhookSecret(webhook({}), null)).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+import { PipelineVersionService } from '../pipelineVersionService';
+import { getDatabase } from '@/database/connection';
+import { PipelineEntity } from '@/entities/PipelineEntity';
+import { PipelineVersionEntity } from '@/entities/PipelineVersionEntity';
+import { Pipeline, PipelineNode } from '@/types/pipeline';
+
+jest.mock('@/database/connection');
+jest.mock('../connectors/connectorFactory', () => ({ createConnector: jest.fn() }));
+jest.mock('mongodb', () => ({ MongoClient: jest.fn() }));
+
+const createNode = (id: string, config: Record<string, unknown> = {}): PipelineNode => ({
+  id,
+  type: 'transform',
+  position: { x: 0, y: 0 },
+  data: { label: id, category: 'test', icon: '', color: '', config, inputs: [], outputs: [] }
+});
+
+const pipeline: Pipeline = {
+  id: 'pipeline_test',
+  name: 'Test Pipeline',
+  description: '',
+  nodes: [createNode('source'), createNode('filter', { operator: 'AND' })],
+  edges: [{ id: 'e1', source: 'source', target: 'filter' }],
+  triggers: [],
+  status: 'active',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  createdBy: 'test',
+  tags: [],
+  version: 2
+};
+
+describe('PipelineVersionService', () => {
+  let versionRows: Record<string, unknown>[];
+  let pipelineRow: Record<string, unknown>;
+  let pipelineRepository: { findOne: jest.Mock; save: jest.Mock; update: jest.Mock };
+  let versionRepository: { findOne: jest.Mock; insert: jest.Mock; maximum: jest.Mock; find: jest.Mock; delete: jest.Mock };
+
+  beforeEach(() => {
+    versionRows = [];
+    pipelineRow = {
+      ...pipeline,
+      nodes: JSON.stringify(pipeline.nodes),
+      edges: JSON.stringify(pipeline.edges),
+      triggers: '[]',
+      tags: '[]'
+    };
+
+    versionRepository = {
+      insert: jest.fn(async (row: Record<string, unknown>) => {
+        if (versionRows.some(existing => existing.id === row.id)) {
+          throw Object.assign(new Error('duplicate key value violates unique constraint'), { code: '23505' });
+        }
+        versionRows.push({ ...row, createdAt: new Date() });
+      }),
+      maximum: jest.fn(async () => Math.max(0, ...versionRows.map(row => row.version as number))),
+      findOne: jest.fn(async ({ where }: { where: { pipelineId: string; version: number } }) =>
+        versionRows.find(row => row.pipelineId === where.pipelineId && row.version === where.version) || null
+      ),
+      find: jest.fn(async () => [...versionRows].reverse()),
+      delete: jest.fn()
+    };
+    pipelineRepository = {
+      findOne: jest.fn(async () => pipelineRow),
+      save: jest.fn(async (row: Record<string, unknown>) => row),
+      update: jest.fn()
+    };
+
+    (getDatabase as jest.Mock).mockResolvedValue({
+      getRepository: jest.fn((entity: unknown) =>
+        entity === PipelineVersionEntity ? versionRepository : entity === PipelineEntity ? pipelineRepository : null
+      )
+    });
+  });
+
+  it('should snapshot a pipeline under its version number', async () => {
+    const version = await PipelineVersionService.recordVersion(pipeline);
+
+    expect(versionRepository.insert).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'pipeline_test:v2',
+      version: 2,
+      nodes: JSON.stringify(pipeline.nodes)
+    }));
+    expect(version.nodes).toEqual(pipeline.nodes);
+    expect(version.restoredFrom).toBeUndefined();
+  });
+
+  it('should never overwrite a snapshot when concurrent saves compute the same version', async () => {
+    await PipelineVersionService.recordVersion(pipeline);
+    const concurrent = await PipelineVersionService.recordVersion({ ...pipeline, name: 'Concurrent edit' });
+
+    expect(concurrent.version).toBe(3);
+    expect(versionRows.map(row => [row.id, row.name])).toEqual([
+      ['pipeline_test:v2', 'Test Pipeline'],
+      ['pipeline_test:v3', 'Concurrent edit']
+    ]);
+    expect(pipelineRepository.update).toHaveBeenCalledWith({ id: 'pipeline_test', version: 2 }, { version: 3 });
+  });
+
+  it('should resolve a definition to its saved version only when unchanged', async () => {
+    await PipelineVersionService.recordVersion(pipeline);
+
+    const moved = { ...pipeline, nodes: pipeline.nodes.map(node => ({ ...node, position: { x: 50, y: 50 } })) };
+    const edited = { ...pipeline, nodes: [pipeline.nodes[0], createNode('filter', { operator: 'OR' })] };
+
+    expect(await PipelineVersionService.resolveVersion(moved)).toBe(2);
+    expect(await PipelineVersionService.resolveVersion(edited)).toBeNull();
+    expect(await PipelineVersionService.resolveVersion({ ...pipeline, version: 5 })).toBeNull();
+  });
+
+  it('should restore an older version as a new version', async () => {
+    await PipelineVersionService.recordVersion({ ...pipeline, version: 1, name: 'Original', nodes: [createNode('source')], edges: [] });
+    await PipelineVersionService.recordVersion(pipeline);
+
+    const restored = await PipelineVersionService.restoreVersion('pipeline_test', 1);
+
+    expect(restored).toMatchObject({ name: 'Original', version: 3 });
+    expect(restored?.nodes.map(node => node.id)).toEqual(['source']);
+    expect(versionRows[2]).toMatchObject({ id: 'pipeline_test:v3', version: 3, restoredFrom: 1 });
+
+    const diff = await PipelineVersionService.diffVersions('pipeline_test', 2, 3);
+    expect(diff?.nodes.removed.map(node => node.nodeId)).toEqual(['filter']);
+    expect(diff?.edges.removed).toHaveLength(1);
+  });
+
+  it('should return null when restoring a missing version', async () => {
+    expect(await PipelineVersionService.restoreVersion('pipeline_test', 9)).toBeNull();
+    expect(pipelineRepository.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import { PseudonymizationService } from '../pseudonymizationService';
+import { getDatabase } from '@/database/connection';
+import type { Pattern } from '../patternService';
+
+jest.mock('@/database/connection', () => ({
+  getDatabase: jest.fn()
+}));
+
+jest.mock('typeorm', () => ({
+  Entity: () => () => {},
+  PrimaryColumn: () => () => {},
+  Column: () => () => {},
+  CreateDateColumn: () => () => {},
+  In: (value: unknown[]) => ({ value })
+}));
+
+const ssnPattern: Pattern = {
+  id: 'ssn',
+  name: 'Social Security Number',
+  type: 'PII',
+  category: 'Personal',
+  regex: '\\b\\d{3}-\\d{2}-\\d{4}\\b',
+  description: 'US SSN',
+  examples: [],
+  color: 'bg-red-100 text-red-800',
+  isActive: true,
+  createdAt: new Date(0)
+};
+
+describe('PseudonymizationService', () => {
+  const originalEnv = process.env;
+  const vault = new Map<string, string>();
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, PSEUDONYMIZATION_KEY: 'test-key' };
+    vault.clear();
+
+    const queryBuilder = {
+      insert: () => queryBuilder,
+      values: (entries: Array<{ token: string; encryptedValue: string }>) => {
+        entries.forEach(entry => { if (!vault.has(entry.token)) vault.set(entry.token, entry.encryptedValue); });
+        return queryBuilder;
+      },
+      orIgnore: () => queryBuilder,
+      execute: async () => ({})
+    };
+    (getDatabase as jest.Mock).mockResolvedValue({
+      getRepository: () => ({
+        createQueryBuilder: () => queryBuilder,
+        find: async ({ where }: { where: { token: { value: string[] } } }) =>
+          where.token.value.filter(token => vault.has(token)).map(token => ({ token, encryptedValue: vault.get(token) }))
+      })
+    });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('gives the same pseudonym for the same value and key', () => {
+    const first = PseudonymizationService.pseudonymize('123-45-6789', '[PII-{token}]');
+
+    expect(first).toMatch(/^\[PII-[0-9a-f]{16}\]$/);
+    expect(PseudonymizationService.pseudonymize(' 123-45-6789 ', '[PII-{token}]')).toBe(first);
+    expect(PseudonymizationService.pseudonymize('123-45-6789', '[PII-{token}]', 'other-key')).not.toBe(first);
+  });
+
+  it('keeps the shape of structured values with format-preserving encryption', () => {
+    const ssn = PseudonymizationService.encryptPreservingFormat('123-45-6789');
+    const card = PseudonymizationService.encryptPreservingFormat('4111 1111 1111 1111');
+    const name = PseudonymizationService.encryptPreservingFormat('Jane Smith');
+
+    expect(ssn).toMatch(/^\d{3}-\d{2}-\d{4}$/);
+    expect(ssn).not.toBe('123-45-6789');
+    expect(card).toMatch(/^\d{4} \d{4} \d{4} \d{4}$/);
+    expect(name).toMatch(/^[A-Z][a-z]{3} [A-Z][a-z]{4}$/);
+    expect(PseudonymizationService.encryptPreservingFormat('123-45-6789')).toBe(ssn);
+    expect(PseudonymizationService.decryptPreservingFormat(ssn)).toBe('123-45-6789');
+  });
+
+  it('replaces pattern matches consistently across datasets', () => {
+    const style = { type: 'fpe' as const, format: 'format-preserving' };
+    const first = PseudonymizationService.redactWithPatterns('SSN 123-45-6789 on file', [ssnPattern], style);
+    const second = PseudonymizationService.redactWithPatterns('123-45-6789', [ssnPattern], style);
+
+    expect(first.matchCount).toBe(1);
+    expect(first.text).toBe(`SSN ${second.text} on file`);
+  });
+
+  it('re-identifies pseudonyms from the vault and format-preserving values with the key', async () => {
+    const token = PseudonymizationService.pseudonymize('Jane Smith', '[PII-{token}]');
+    const ssn = PseudonymizationService.encryptPreservingFormat('123-45-6789');
+    await PseudonymizationService.flushVault();
+
+    expect(await PseudonymizationService.reidentify([token, '[PII-0000000000000000]'], 'pseudonym', 'test-key')).toEqual([
+      { value: token, original: 'Jane Smith' },
+      { value: '[PII-0000000000000000]', original: null }
+    ]);
+    expect(await PseudonymizationService.reidentify([ssn], 'fpe', 'test-key')).toEqual([{ value: ssn, original: '123-45-6789' }]);
+  });
+
+  it('rejects a key that does not match the configured one', async () => {
+    await expect(PseudonymizationService.reidentify(['x'], 'fpe', 'wrong-key')).rejects.toThrow('Invalid pseudonymization key');
+  });
+
+  it('requires a key', () => {
+    delete process.env.PSEUDONYMIZATION_KEY;
+
+    expect(PseudonymizationService.isConfigured()).toBe(false);
+    expect(() => PseudonymizationService.pseudonymize('value')).toThrow('PSEUDONYMIZATION_KEY');
+  });
+});
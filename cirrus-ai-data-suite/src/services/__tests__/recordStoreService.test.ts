@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ */
+import { RecordStoreService } from '../recordStoreService';
+import { getDatabase } from '@/database/connection';
+import { RecordSegmentEntity } from '@/entities/RecordSegmentEntity';
+import type { UnifiedDataCatalog, UnifiedDataRecord } from '../dataTransformationService';
+
+jest.mock('@/database/connection', () => ({
+  getDatabase: jest.fn()
+}));
+
+type Segment = Pick<RecordSegmentEntity, 'dataSourceId' | 'storeVersion' | 'segmentIndex' | 'recordCount' | 'content'>;
+
+const record = (index: number): UnifiedDataRecord => ({
+  id: `ds-1_record_${index}`,
+  sourceId: 'ds-1',
+  sourceName: 'Orders',
+  sourceType: 'filesystem',
+  recordIndex: index,
+  data: { orderId: index, total: index * 10 },
+  metadata: { originalFormat: 'csv', extractedAt: '2024-01-01T00:00:00.000Z' }
+});
+
+const catalog = (count: number): UnifiedDataCatalog => ({
+  catalogId: 'catalog-1',
+  sourceId: 'ds-1',
+  sourceName: 'Orders',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  totalRecords: count,
+  schema: { fields: [{ name: 'orderId', type: 'number', nullable: false, examples: [0] }] },
+  records: Array.from({ length: count }, (_, i) => record(i)),
+  summary: { dataTypes: ['number'], recordCount: count, fieldCount: 1, sampleSize: 10 }
+});
+
+describe('RecordStoreService', () => {
+  let segments: Segment[];
+  let segmentQueries: Array<Array<Partial<Segment>>>;
+  let transformedData: string | undefined;
+
+  const matches = (segment: Segment, where: Partial<Segment>) =>
+    Object.entries(where).every(([key, value]) => segment[key as keyof Segment] === value);
+
+  beforeEach(() => {
+    segments = [];
+    segmentQueries = [];
+    transformedData = undefined;
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const segmentRepository = {
+      insert: async (segment: Segment) => { segments.push(segment); },
+      find: async ({ where }: { where: Array<Partial<Segment>> }) => {
+        segmentQueries.push(where);
+        return segments.filter(segment => where.some(condition => matches(segment, condition)));
+      },
+      delete: async (where: Partial<Segment>) => {
+        segments = segments.filter(segment => !matches(segment, where));
+      }
+    };
+    const dataSourceRepository = {
+      findOne: async () => ({ id: 'ds-1', transformedData }),
+      update: async (_id: string, values: { transformedData: string }) => { transformedData = values.transformedData; }
+    };
+    (getDatabase as jest.Mock).mockResolvedValue({
+      getRepository: (entity: unknown) => (entity === RecordSegmentEntity ? segmentRepository : dataSourceRepository)
+    });
+  });
+
+  it('splits records into fixed-size segments', async () => {
+    const info = await RecordStoreService.writeRecords('ds-1', catalog(12).records, 5);
+
+    expect(info).toMatchObject({ segmentSize: 5, segmentCount: 3, totalRecords: 12 });
+    expect(segments.map(segment => segment.recordCount)).toEqual([5, 5, 2]);
+    expect(segments.every(segment => segment.storeVersion === info.version)).toBe(true);
+  });
+
+  it('reads a page across a segment boundary from only the segments it falls in', async () => {
+    const store = await RecordStoreService.writeRecords('ds-1', catalog(20).records, 5);
+
+    const page = await RecordStoreService.readRecords('ds-1', store, 8, 4);
+
+    expect(page.map(r => r.recordIndex)).toEqual([8, 9, 10, 11]);
+    expect(segmentQueries[0].map(condition => condition.segmentIndex)).toEqual([1, 2]);
+  });
+
+  it('saves a header in place of the records and removes the version it replaces', async () => {
+    const first = await RecordStoreService.saveCatalog('ds-1', catalog(7));
+    const firstVersion = RecordStoreService.parseHeader(first)!.recordStore!.version;
+
+    const header = await RecordStoreService.saveCatalog('ds-1', catalog(3));
+    const parsed = RecordStoreService.parseHeader(header)!;
+
+    expect(transformedData).toBe(header);
+    expect(parsed.records).toEqual([]);
+    expect(parsed.totalRecords).toBe(3);
+    expect(segments.some(segment => segment.storeVersion === firstVersion)).toBe(false);
+
+    const loaded = await RecordStoreService.loadCatalog({ id: 'ds-1', name: 'Orders', type: 'filesystem', transformedData: header }, { offset: 1, limit: 5 });
+    expect(loaded!.records.map(r => r.recordIndex)).toEqual([1, 2]);
+  });
+
+  it('loads legacy inline catalogs and field-mapped arrays without touching the store', async () => {
+    const source = { id: 'ds-1', name: 'Orders', type: 'filesystem' };
+
+    const inline = await RecordStoreService.loadCatalog({ ...source, transformedData: JSON.stringify(catalog(4)) }, { offset: 2 });
+    expect(inline!.records.map(r => r.recordIndex)).toEqual([2, 3]);
+
+    const mapped = await RecordStoreService.loadCatalog({ ...source, transformedData: JSON.stringify([{ order_id: 1 }, { order_id: null }]) });
+    expect(mapped!.totalRecords).toBe(2);
+    expect(mapped!.records[1].data).toEqual({ order_id: null });
+    expect(mapped!.schema.fields).toEqual([{ name: 'order_id', type: 'number', nullable: true, examples: [1] }]);
+
+    expect(segmentQueries).toHaveLength(0);
+  });
+
+  it('opens the header with an iterator that reads one segment at a time, whichever way records were saved', async () => {
+    const source = { id: 'ds-1', name: 'Orders', type: 'filesystem' };
+    const store = await RecordStoreService.writeRecords('ds-1', catalog(12).records, 5);
+    const stored = await RecordStoreService.openRecords({ ...source, transformedData: RecordStoreService.createHeader(catalog(12), store) });
+
+    expect(stored!.catalog).toMatchObject({ totalRecords: 12, records: [] });
+    expect(segmentQueries).toHaveLength(0);
+    const sizes: number[] = [];
+    for await (const batch of stored!.batches()) {
+      sizes.push(batch.length);
+      expect(segmentQueries).toHaveLength(sizes.length);
+    }
+    expect(sizes).toEqual([5, 5, 2]);
+    expect(await RecordStoreService.collectData(stored!)).toEqual(catalog(12).records.map(r => r.data));
+
+    const inline = await RecordStoreService.openRecords({ ...source, transformedData: JSON.stringify(catalog(3)) });
+    expect(inline!.catalog.records).toEqual([]);
+    expect((await RecordStoreService.collectData(inline!)).map(data => data.orderId)).toEqual([0, 1, 2]);
+
+    expect(await RecordStoreService.openRecords(source)).toBeNull();
+  });
+});
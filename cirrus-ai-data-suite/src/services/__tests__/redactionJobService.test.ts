@@ -0,0 +1,209 @@
+/**
+ * @jest-environment node
+ */
+import { RedactionJobError, RedactionJobService } from '../redactionJobService';
+import { getDatabase } from '@/database/connection';
+import { DataSourceService } from '../dataSourceService';
+import { RecordStoreService } from '../recordStoreService';
+import type { UnifiedDataRecord } from '../dataTransformationService';
+import { PatternService, Pattern } from '../patternService';
+import { ClassificationService } from '../classificationService';
+import { LLMGateway } from '../llmGateway';
+
+jest.mock('@/database/connection', () => ({
+  getDatabase: jest.fn()
+}));
+jest.mock('../dataSourceService');
+jest.mock('../recordStoreService');
+jest.mock('../patternService');
+jest.mock('../classificationService');
+jest.mock('../llmGateway');
+
+const pattern = (overrides: Partial<Pattern>): Pattern => ({
+  id: 'pattern',
+  name: 'Pattern',
+  type: 'PII',
+  category: 'Personal',
+  examples: [],
+  description: '',
+  color: 'bg-red-100 text-red-800',
+  isActive: true,
+  createdAt: new Date(0),
+  ...overrides
+});
+
+const ssn = pattern({ id: 'ssn', name: 'SSN', regex: '\\b\\d{3}-\\d{2}-\\d{4}\\b' });
+const email = pattern({ id: 'email', name: 'Email', regex: '[\\w.]+@[\\w.]+\\.\\w+' });
+const mrn = pattern({ id: 'mrn', name: 'MRN', examples: ['48213-07', '90017-22'], contextKeywords: ['medical record'] });
+
+const full = { type: 'full' as const, format: '[REDACTED]' };
+
+describe('RedactionJobService', () => {
+  describe('redactRecord', () => {
+    it('replaces regex matches and counts them per field and pattern', () => {
+      const patterns = RedactionJobService.compilePatterns([ssn, email]);
+      const result = RedactionJobService.redactRecord(
+        {
+          name: 'Ann Lee',
+          ssn: '123-45-6789',
+          contact: { email: 'ann@example.com', notes: 'backup ann.lee@example.org, SSN 987-65-4321' },
+          visits: 3
+        },
+        patterns,
+        RedactionJobService.createReplacer(full)
+      );
+
+      expect(result.data).toEqual({
+        name: 'Ann Lee',
+        ssn: '[REDACTED]',
+        contact: { email: '[REDACTED]', notes: 'backup [REDACTED], SSN [REDACTED]' },
+        visits: 3
+      });
+      expect(result.redactions).toEqual([
+        { field: 'ssn', pattern: 'SSN', count: 1 },
+        { field: 'contact.email', pattern: 'Email', count: 1 },
+        { field: 'contact.notes', pattern: 'SSN', count: 1 },
+        { field: 'contact.notes', pattern: 'Email', count: 1 }
+      ]);
+    });
+
+    it('only trusts values learned from examples near a context keyword', () => {
+      const patterns = RedactionJobService.compilePatterns([mrn]);
+      const replace = RedactionJobService.createReplacer(full);
+
+      expect(RedactionJobService.redactRecord({ note: 'Medical record 55555-01 reviewed' }, patterns, replace).data)
+        .toEqual({ note: 'Medical record [REDACTED] reviewed' });
+      expect(RedactionJobService.redactRecord({ note: 'Part 55555-01 shipped' }, patterns, replace).data)
+        .toEqual({ note: 'Part 55555-01 shipped' });
+      // The examples themselves are always redacted
+      expect(RedactionJobService.redactRecord({ note: 'Part 48213-07 shipped' }, patterns, replace).data)
+        .toEqual({ note: 'Part [REDACTED] shipped' });
+    });
+
+    it('numbers token replacements across records', () => {
+      const patterns = RedactionJobService.compilePatterns([ssn]);
+      const replace = RedactionJobService.createReplacer({ type: 'token', format: '[SSN-{index}]' });
+
+      expect(RedactionJobService.redactRecord({ ssn: '123-45-6789' }, patterns, replace).data).toEqual({ ssn: '[SSN-1]' });
+      expect(RedactionJobService.redactRecord({ ssn: '987-65-4321' }, patterns, replace).data).toEqual({ ssn: '[SSN-2]' });
+    });
+  });
+
+  describe('createJob', () => {
+    const updates: Array<Record<string, unknown>> = [];
+    const written: UnifiedDataRecord[] = [];
+
+    const waitForJob = async () => {
+      for (let i = 0; i < 50 && !updates.some(update => update.status === 'completed' || update.status === 'failed'); i++) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      return Object.assign({}, ...updates);
+    };
+
+    beforeEach(() => {
+      updates.length = 0;
+      jest.clearAllMocks();
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      (getDatabase as jest.Mock).mockResolvedValue({
+        getRepository: () => ({
+          create: (values: object) => values,
+          save: async (values: object) => ({ id: 'job-1', ...values }),
+          update: async (_id: string, values: Record<string, unknown>) => { updates.push(values); }
+        })
+      });
+      (DataSourceService.getDataSourceById as jest.Mock).mockResolvedValue({ id: 'ds-1', name: 'Patients', type: 'filesystem' });
+      (DataSourceService.createDataSource as jest.Mock).mockImplementation(async (source: object) => ({ id: 'ds-2', ...source }));
+      (PatternService.getPatternById as jest.Mock).mockImplementation(async (id: string) => [ssn, email].find(p => p.id === id) ?? null);
+      (ClassificationService.getDataSourceMarking as jest.Mock).mockResolvedValue(undefined);
+      (DataSourceService.openRecords as jest.Mock).mockResolvedValue({
+        catalog: { totalRecords: 3 },
+        batches: async function* () {
+          yield [
+            { id: 'r1', recordIndex: 0, data: { ssn: '123-45-6789', email: 'a@example.com' } },
+            { id: 'r2', recordIndex: 1, data: { ssn: 'n/a', email: 'b@example.com' } }
+          ];
+          yield [{ id: 'r3', recordIndex: 2, data: { ssn: '', email: '' } }];
+        }
+      });
+      written.length = 0;
+      (RecordStoreService.writeRecords as jest.Mock).mockImplementation(async (_id: string, records: AsyncIterable<UnifiedDataRecord>) => {
+        for await (const record of records) {
+          written.push(record);
+        }
+        return { version: 'v1', segmentSize: 5000, segmentCount: 1, totalRecords: written.length };
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('redacts every record into a new data source and reports the counts', async () => {
+      const job = await RedactionJobService.createJob({ dataSourceId: 'ds-1', patternIds: ['ssn', 'email'] }, 'alice');
+      expect(job).toMatchObject({ id: 'job-1', status: 'pending', createdBy: 'alice', options: { outputName: 'Patients (redacted)' } });
+
+      const finished = await waitForJob();
+      expect(finished).toMatchObject({ status: 'completed', progress: 100, recordsProcessed: 3, outputDataSourceId: 'ds-2' });
+      expect(finished.report).toEqual({
+        totalRecords: 3,
+        recordsRedacted: 2,
+        totalRedactions: 3,
+        byField: { ssn: 1, email: 2 },
+        byPattern: { SSN: 1, Email: 2 },
+        byFieldAndPattern: { ssn: { SSN: 1 }, email: { Email: 2 } }
+      });
+
+      const output = (DataSourceService.createDataSource as jest.Mock).mock.calls[0][0];
+      expect(output).toMatchObject({ name: 'Patients (redacted)', type: 'json_transformed', configuration: { files: [] } });
+      expect(RecordStoreService.writeRecords).toHaveBeenCalledWith('ds-2', expect.anything());
+      expect(written.map(record => record.data)).toEqual([
+        { ssn: '[REDACTED]', email: '[REDACTED]' },
+        { ssn: 'n/a', email: '[REDACTED]' },
+        { ssn: '', email: '' }
+      ]);
+      expect(JSON.stringify(written)).not.toContain('123-45-6789');
+
+      const [, catalog, recordStore] = (RecordStoreService.commitRecords as jest.Mock).mock.calls[0];
+      expect(recordStore).toMatchObject({ version: 'v1', totalRecords: 3 });
+      expect(catalog).toMatchObject({ sourceId: 'ds-2', totalRecords: 3, records: [] });
+      expect(catalog.schema.fields.map((field: { name: string }) => field.name)).toEqual(['ssn', 'email']);
+      expect(JSON.stringify(catalog)).not.toContain('a@example.com');
+      expect(DataSourceService.updateDataSource).toHaveBeenCalledWith('ds-2', expect.objectContaining({
+        recordCount: 3,
+        metadata: expect.objectContaining({ transformation: expect.objectContaining({ redactionJobId: 'job-1', report: finished.report }) })
+      }));
+    });
+
+    it('removes the output data source when the job fails', async () => {
+      (RecordStoreService.writeRecords as jest.Mock).mockRejectedValue(new Error('disk full'));
+
+      await RedactionJobService.createJob({ dataSourceId: 'ds-1', patternIds: ['ssn'] });
+      const finished = await waitForJob();
+
+      expect(finished).toMatchObject({ status: 'failed', errorMessage: 'disk full' });
+      expect(DataSourceService.deleteDataSource).toHaveBeenCalledWith('ds-2');
+      expect(RecordStoreService.commitRecords).not.toHaveBeenCalled();
+    });
+
+    it('lets the LLM redact what the patterns missed', async () => {
+      (LLMGateway.isConfigured as jest.Mock).mockReturnValue(true);
+      (LLMGateway.complete as jest.Mock).mockResolvedValue({ content: '["n/a"]' });
+
+      await RedactionJobService.createJob({ dataSourceId: 'ds-1', patternIds: ['ssn'], llmPass: true });
+      const finished = await waitForJob();
+
+      expect(finished.report.byPattern).toEqual({ SSN: 1, 'LLM review': 1 });
+      expect(finished.report.llm).toEqual({ recordsReviewed: 2, redactions: 1, failures: 0 });
+      expect(LLMGateway.complete).toHaveBeenCalledWith(expect.objectContaining({ feature: 'redaction' }));
+      // The LLM only sees values the patterns already redacted
+      expect((LLMGateway.complete as jest.Mock).mock.calls[0][0].prompt).not.toContain('123-45-6789');
+    });
+
+    it('rejects unknown patterns before starting', async () => {
+      await expect(RedactionJobService.createJob({ dataSourceId: 'ds-1', patternIds: ['ssn', 'missing'] }))
+        .rejects.toEqual(new RedactionJobError('Patterns not found: missing'));
+      expect(DataSourceService.openRecords).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @jest-environment node
+ */
+import { Readable } from 'stream';
+import JSZip from 'jszip';
+import { StreamingIngestionService } from '../streaming/streamingIngestionService';
+import { RecordStoreService } from '../recordStoreService';
+import { StorageService } from '../storage/storageService';
+import { TableMetadataService } from '../tableMetadataService';
+import type { UnifiedDataCatalog, UnifiedDataRecord } from '../dataTransformationService';
+
+jest.mock('@/database/connection', () => ({
+  getDatabase: jest.fn()
+}));
+
+jest.mock('../storage/storageService', () => ({
+  StorageService: { getInstance: jest.fn() }
+}));
+
+const source = { id: 'ds-1', name: 'Uploads', type: 'filesystem' as const };
+
+describe('StreamingIngestionService', () => {
+  let files: Record<string, Buffer[]>;
+  let written: UnifiedDataRecord[];
+  let committed: UnifiedDataCatalog | undefined;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    files = {};
+    written = [];
+    committed = undefined;
+
+    (StorageService.getInstance as jest.Mock).mockReturnValue({
+      getFileStream: async (key: string) => Readable.from(files[key]),
+      getFile: async (key: string) => Buffer.concat(files[key])
+    });
+    jest.spyOn(RecordStoreService, 'writeRecords').mockImplementation(async (_id, records) => {
+      for await (const record of records) written.push(record);
+      return { version: 'v1', segmentSize: 5000, segmentCount: 1, totalRecords: written.length };
+    });
+    jest.spyOn(RecordStoreService, 'commitRecords').mockImplementation(async (_id, catalog, recordStore) => {
+      committed = catalog;
+      return RecordStoreService.createHeader(catalog, recordStore);
+    });
+  });
+
+  it('detects formats from the extension or MIME type', () => {
+    expect(StreamingIngestionService.detectFormat({ name: 'people.tsv' })).toBe('csv');
+    expect(StreamingIngestionService.detectFormat({ name: 'events.ndjson' })).toBe('jsonl');
+    expect(StreamingIngestionService.detectFormat({ name: 'export', type: 'application/json' })).toBe('json');
+    expect(StreamingIngestionService.canIngest([{ name: 'report.pdf', storageKey: 'k' }])).toBe(false);
+    expect(StreamingIngestionService.canIngest([{ name: 'data.csv' }])).toBe(false);
+  });
+
+  it('streams CSV rows split across chunks into records with statistics', async () => {
+    files.people = [
+      Buffer.from('name;note;age\nAnn;"first\nsecond'),
+      Buffer.from('";34\nBo;x\nCy;"a; b";'),
+      Buffer.from('')
+    ];
+
+    const header = RecordStoreService.parseHeader(
+      await StreamingIngestionService.ingest(source, [{ name: 'people.csv', storageKey: 'people' }])
+    );
+
+    expect(written.map(record => record.data)).toEqual([
+      { name: 'Ann', note: 'first\nsecond', age: 34 },
+      { name: 'Cy', note: 'a; b', age: null }
+    ]);
+    expect(written.map(record => record.id)).toEqual(['ds-1_people.csv_row_1', 'ds-1_people.csv_row_3']);
+    expect(header).toMatchObject({ totalRecords: 2, recordStore: { version: 'v1' } });
+    expect(committed!.schema.fields.map(field => [field.name, field.type, field.nullable])).toEqual([
+      ['name', 'string', false],
+      ['note', 'string', false],
+      ['age', 'number', true]
+    ]);
+    expect(committed!.statistics!.find(field => field.name === 'age')).toMatchObject({ nullCount: 1, min: 34, max: 34 });
+  });
+
+  it('numbers records across JSON array and JSON Lines files in a declared encoding', async () => {
+    files.array = [Buffer.from('[{"city": "Köln"}, {"ci'), Buffer.from('ty": "Oslo"}]')];
+    files.lines = [Buffer.from('{"city":"Mal', 'latin1'), Buffer.from('mö"}\n7\n', 'latin1')];
+
+    await StreamingIngestionService.ingest(source, [
+      { name: 'a.json', storageKey: 'array' },
+      { name: 'b.jsonl', storageKey: 'lines', encoding: 'iso-8859-1' }
+    ]);
+
+    expect(written.map(record => [record.recordIndex, record.data])).toEqual([
+      [0, { city: 'Köln' }],
+      [1, { city: 'Oslo' }],
+      [2, { city: 'Malmö' }],
+      [3, { value: 7 }]
+    ]);
+    expect(committed!.summary.dataTypes).toEqual(['json', 'jsonl']);
+  });
+
+  it('records each worksheet as a sheet of the catalog', async () => {
+    const zip = new JSZip();
+    zip.file('xl/workbook.xml', '<workbook><sheets><sheet name="Staff" r:id="rId1"/><sheet name="Sites" r:id="rId2"/></sheets></workbook>');
+    zip.file('xl/_rels/workbook.xml.rels', '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="worksheets/sheet2.xml"/></Relationships>');
+    const sheet = (rows: string[][]) => `<worksheet><sheetData>${rows.map(cells =>
+      `<row>${cells.map(cell => (/^\d+$/.test(cell) ? `<c><v>${cell}</v></c>` : `<c t="inlineStr"><is><t>${cell}</t></is></c>`)).join('')}</row>`
+    ).join('')}</sheetData></worksheet>`;
+    zip.file('xl/worksheets/sheet1.xml', sheet([['name', 'age'], ['Ann', '34'], ['Bo', '51']]));
+    zip.file('xl/worksheets/sheet2.xml', sheet([['site'], ['Oslo']]));
+    files.book = [Buffer.from(await zip.generateAsync({ type: 'uint8array' }))];
+
+    const header = RecordStoreService.parseHeader(
+      await StreamingIngestionService.ingest(source, [{ name: 'staff.xlsx', storageKey: 'book' }])
+    );
+
+    expect(written.map(record => [record.id, record.metadata.table, record.data])).toEqual([
+      ['ds-1_staff.xlsx_Staff_row_1', 'Staff', { name: 'Ann', age: 34 }],
+      ['ds-1_staff.xlsx_Staff_row_2', 'Staff', { name: 'Bo', age: 51 }],
+      ['ds-1_staff.xlsx_Sites_row_1', 'Sites', { site: 'Oslo' }]
+    ]);
+    expect(header!.sheets).toMatchObject([
+      { name: 'Staff', type: 'sheet', recordStart: 0, recordCount: 2, columns: [{ name: 'name', type: 'string' }, { name: 'age', type: 'number' }] },
+      { name: 'Sites', type: 'sheet', recordStart: 2, recordCount: 1, schema: { fields: [{ name: 'site', type: 'string', nullable: false }] } }
+    ]);
+    expect(await TableMetadataService.detectTablesInData(header)).toMatchObject([
+      { tableName: 'Staff', tableType: 'sheet', recordCount: 2, metadata: { recordStart: 0, columns: [{ name: 'name' }, { name: 'age', type: 'number' }] } },
+      { tableName: 'Sites', tableType: 'sheet', recordCount: 1, metadata: { recordStart: 2 } }
+    ]);
+  });
+
+  it('names the file that failed to parse', async () => {
+    files.broken = [Buffer.from('[{"a": 1}, {"a": ')];
+
+    await expect(
+      StreamingIngestionService.ingest(source, [{ name: 'broken.json', storageKey: 'broken' }])
+    ).rejects.toThrow('Failed to read broken.json: JSON array is not closed');
+    expect(RecordStoreService.commitRecords).not.toHaveBeenCalled();
+  });
+
+  it('previews whole lines from the start of a file', async () => {
+    files.big = [Buffer.from('id,name\n1,Ann\n'), Buffer.from('2,Bo\n3,Cy\n')];
+
+    expect(await StreamingIngestionService.readPreview('big', 19)).toEqual({ content: 'id,name\n1,Ann\n2,Bo', truncated: true });
+    expect(await StreamingIngestionService.readPreview('big', 100)).toEqual({ content: 'id,name\n1,Ann\n2,Bo\n3,Cy\n', truncated: false });
+  });
+});
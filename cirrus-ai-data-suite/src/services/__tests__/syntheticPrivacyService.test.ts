@@ -0,0 +1,212 @@
+import { SyntheticPrivacyService } from '../syntheticPrivacyService';
+import type { DataSchema } from '../syntheticDataService';
+
+const schema: DataSchema = {
+  age: { type: 'number', constraints: { min: 18, max: 90 } },
+  zip_code: { type: 'address', subtype: 'zipCode' },
+  diagnosis: { type: 'text' },
+  name: { type: 'name' }
+};
+
+const createRecords = (count: number): Record<string, unknown>[] =>
+  Array.from({ length: count }, (_, index) => ({
+    age: 18 + ((index * 7) % 70),
+    zip_code: String(94100 + ((index * 13) % 90)),
+    diagnosis: ['Asthma', 'Diabetes', 'Flu', 'Hypertension'][index % 4],
+    name: `Person ${index}`
+  }));
+
+const groupSizes = (records: Record<string, unknown>[], fields: string[]) => {
+  const groups = new Map<string, Record<string, unknown>[]>();
+  for (const record of records) {
+    const key = JSON.stringify(fields.map(field => record[field]));
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+  return Array.from(groups.values());
+};
+
+describe('SyntheticPrivacyService', () => {
+  describe('resolveSettings', () => {
+    it('returns null when no privacy settings are configured', () => {
+      expect(SyntheticPrivacyService.resolveSettings({ seed: 42 }, 100)).toBeNull();
+      expect(SyntheticPrivacyService.resolveSettings(undefined, 100)).toBeNull();
+    });
+
+    it('applies defaults for delta, mechanism and suppression', () => {
+      const settings = SyntheticPrivacyService.resolveSettings({ kAnonymity: 5, epsilonDifferentialPrivacy: 1 }, 100);
+
+      expect(settings).toEqual(expect.objectContaining({
+        kAnonymity: 5,
+        epsilon: 1,
+        delta: 1e-5,
+        noiseMechanism: 'laplace',
+        maxSuppressionRate: 0.05
+      }));
+    });
+
+    it('rejects invalid settings', () => {
+      expect(() => SyntheticPrivacyService.resolveSettings({ kAnonymity: 0 }, 100)).toThrow('k-anonymity');
+      expect(() => SyntheticPrivacyService.resolveSettings({ epsilonDifferentialPrivacy: -1 }, 100)).toThrow('epsilon');
+      expect(() => SyntheticPrivacyService.resolveSettings({ kAnonymity: 10 }, 5)).toThrow('at least 10 records');
+    });
+  });
+
+  describe('enforceAnonymity', () => {
+    it('generalizes quasi-identifiers until every class has k records', () => {
+      const settings = SyntheticPrivacyService.resolveSettings({ kAnonymity: 5 }, 200)!;
+      const report = SyntheticPrivacyService.createReport(settings);
+
+      const records = SyntheticPrivacyService.enforceAnonymity(createRecords(200), schema, settings, report);
+
+      expect(report.quasiIdentifiers).toEqual(['age', 'zip_code']);
+      expect(report.sensitiveFields).toEqual(['diagnosis']);
+      expect(report.achievedK).toBeGreaterThanOrEqual(5);
+      expect(report.suppressedRecords).toBeLessThanOrEqual(10);
+      expect(records).toHaveLength(200 - report.suppressedRecords);
+      for (const group of groupSizes(records, ['age', 'zip_code'])) {
+        expect(group.length).toBeGreaterThanOrEqual(5);
+      }
+      // Direct identifiers and sensitive values are left alone
+      expect(records[0].name).toMatch(/^Person /);
+      expect(['Asthma', 'Diabetes', 'Flu', 'Hypertension']).toContain(records[0].diagnosis);
+    });
+
+    it('enforces l distinct sensitive values per class', () => {
+      const settings = SyntheticPrivacyService.resolveSettings({ kAnonymity: 2, lDiversity: 3 }, 200)!;
+      const report = SyntheticPrivacyService.createReport(settings);
+
+      const records = SyntheticPrivacyService.enforceAnonymity(createRecords(200), schema, settings, report);
+
+      expect(report.achievedL).toBeGreaterThanOrEqual(3);
+      for (const group of groupSizes(records, ['age', 'zip_code'])) {
+        expect(new Set(group.map(record => record.diagnosis)).size).toBeGreaterThanOrEqual(3);
+      }
+    });
+
+    it('caps l at the number of distinct sensitive values with a warning', () => {
+      const settings = SyntheticPrivacyService.resolveSettings({ lDiversity: 6, sensitiveFields: ['diagnosis'] }, 50)!;
+      const report = SyntheticPrivacyService.createReport(settings);
+
+      const records = SyntheticPrivacyService.enforceAnonymity(createRecords(50), schema, settings, report);
+
+      expect(records.length).toBeGreaterThan(0);
+      expect(report.achievedL).toBeLessThanOrEqual(4);
+      expect(report.warnings).toEqual(expect.arrayContaining([expect.stringContaining('capped at 4')]));
+    });
+
+    it('uses configured quasi-identifiers', () => {
+      const settings = SyntheticPrivacyService.resolveSettings({ kAnonymity: 3, quasiIdentifiers: ['zip_code'] }, 100)!;
+      const report = SyntheticPrivacyService.createReport(settings);
+
+      const records = SyntheticPrivacyService.enforceAnonymity(createRecords(100), schema, settings, report);
+
+      expect(report.quasiIdentifiers).toEqual(['zip_code']);
+      expect(report.generalizationLevels).toEqual({ zip_code: expect.any(Number) });
+      expect(typeof records[0].age).toBe('number');
+    });
+  });
+
+  describe('generalizeValue', () => {
+    it('buckets numbers, truncates dates and masks codes', () => {
+      const records = [{ age: 18 }, { age: 90 }];
+      const ageHierarchy = SyntheticPrivacyService.buildHierarchy('age', schema.age, records);
+      const dateHierarchy = SyntheticPrivacyService.buildHierarchy('dob', { type: 'date' }, []);
+      const zipHierarchy = SyntheticPrivacyService.buildHierarchy('zip_code', schema.zip_code, [{ zip_code: '94107' }]);
+
+      expect(SyntheticPrivacyService.generalizeValue(34, ageHierarchy, 1)).toBe('30-34');
+      expect(SyntheticPrivacyService.generalizeValue(34, ageHierarchy, 2)).toBe('30-39');
+      expect(SyntheticPrivacyService.generalizeValue(34, ageHierarchy, ageHierarchy.maxLevel)).toBe('*');
+      expect(SyntheticPrivacyService.generalizeValue('1984-06-15', dateHierarchy, 1)).toBe('1984-06');
+      expect(SyntheticPrivacyService.generalizeValue('1984-06-15', dateHierarchy, 2)).toBe('1984');
+      expect(SyntheticPrivacyService.generalizeValue('1984-06-15', dateHierarchy, 3)).toBe('1980s');
+      expect(SyntheticPrivacyService.generalizeValue('94107', zipHierarchy, 2)).toBe('941**');
+    });
+  });
+
+  describe('buildHierarchy', () => {
+    it('handles more values than a call can take as arguments', () => {
+      const records = Array.from({ length: 500_000 }, (_, index) => ({ age: index % 1000, zip_code: String(10000 + index % 90000) }));
+
+      expect(SyntheticPrivacyService.buildHierarchy('age', schema.age, records)).toMatchObject({ kind: 'number', bucketWidth: 50 });
+      expect(SyntheticPrivacyService.buildHierarchy('zip_code', schema.zip_code, records)).toMatchObject({ kind: 'code', maxLevel: 5 });
+    });
+  });
+
+  describe('privatizeSchema', () => {
+    const sourceSchema: DataSchema = {
+      status: {
+        type: 'text',
+        sourceAnalysis: {
+          valueCount: 1000,
+          sampleValues: ['active', 'inactive'],
+          valueDistribution: { active: 700, inactive: 299, banned: 1 }
+        }
+      },
+      balance: {
+        type: 'number',
+        constraints: { min: 0, max: 1000 },
+        sourceAnalysis: {
+          valueCount: 1000,
+          sampleValues: [120, 480],
+          numericStats: { min: 3, max: 998, mean: 500, median: 480, stdDev: 200 }
+        }
+      },
+      email: {
+        type: 'email',
+        sourceAnalysis: { sampleValues: ['jane@example.com'], stringPatterns: { averageLength: 16, commonPrefixes: [], commonSuffixes: [] } }
+      }
+    };
+
+    it('replaces statistics with noisy ones and drops raw samples', () => {
+      const settings = SyntheticPrivacyService.resolveSettings({ epsilonDifferentialPrivacy: 1 }, 100)!;
+      const report = SyntheticPrivacyService.createReport(settings);
+
+      const privatized = SyntheticPrivacyService.privatizeSchema(sourceSchema, settings, report);
+
+      const distribution = privatized.status.sourceAnalysis!.valueDistribution!;
+      expect(Object.keys(distribution)).toEqual(expect.arrayContaining(['active', 'inactive']));
+      // A single record's category stays below the release threshold
+      expect(distribution.banned).toBeUndefined();
+
+      const stats = privatized.balance.sourceAnalysis!.numericStats!;
+      expect(stats.min).toBe(0);
+      expect(stats.max).toBe(1000);
+      expect(stats.mean).toBeGreaterThanOrEqual(0);
+      expect(stats.mean).toBeLessThanOrEqual(1000);
+
+      for (const field of Object.values(privatized)) {
+        expect(field.sourceAnalysis?.sampleValues).toBeUndefined();
+        expect(field.sourceAnalysis?.stringPatterns).toBeUndefined();
+      }
+
+      expect(report.epsilonSpent).toBe(1);
+      expect(report.delta).toBe(1e-5);
+      expect(report.noiseMechanism).toBe('laplace');
+      expect(report.warnings).toEqual(expect.arrayContaining([expect.stringContaining('email')]));
+      // The original schema is left untouched
+      expect(sourceSchema.status.sourceAnalysis!.sampleValues).toHaveLength(2);
+    });
+
+    it('warns when numeric bounds come from the source data', () => {
+      const settings = SyntheticPrivacyService.resolveSettings({ epsilonDifferentialPrivacy: 2, noiseMechanism: 'gaussian' }, 100)!;
+      const report = SyntheticPrivacyService.createReport(settings);
+      const unbounded: DataSchema = { balance: { ...sourceSchema.balance, constraints: undefined } };
+
+      SyntheticPrivacyService.privatizeSchema(unbounded, settings, report);
+
+      expect(report.noiseMechanism).toBe('gaussian');
+      expect(report.warnings).toEqual([expect.stringContaining('come from the source data')]);
+    });
+  });
+
+  describe('noise', () => {
+    it('is centred on zero with the Laplace scale', () => {
+      const samples = Array.from({ length: 4000 }, () => SyntheticPrivacyService.noise(1, 1, 1e-5, 'laplace'));
+      const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+      const meanAbsolute = samples.reduce((sum, value) => sum + Math.abs(value), 0) / samples.length;
+
+      expect(Math.abs(mean)).toBeLessThan(0.15);
+      expect(meanAbsolute).toBeCloseTo(1, 0);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { SyntheticQualityService } from '../syntheticQualityService';
+import { DataSourceService } from '../dataSourceService';
+
+jest.mock('../dataSourceService', () => ({
+  DataSourceService: { getTransformedData: jest.fn() }
+}));
+
+const plans = ['basic', 'pro', 'enterprise'];
+
+// Deterministic value in [0, 1) for a record index and seed
+const noise = (index: number, seed: number) => {
+  const value = Math.sin(index * 12.9898 + seed * 78.233) * 43758.5453;
+  return value - Math.floor(value);
+};
+
+const createSource = (count: number, seed = 1): Record<string, unknown>[] =>
+  Array.from({ length: count }, (_, index) => {
+    const age = 20 + noise(index, seed) * 50;
+    return {
+      id: `customer-${seed}-${index}`,
+      age,
+      // Income follows age so the pair is strongly correlated
+      income: age * 1000 + noise(index, seed + 100) * 1000,
+      plan: plans[Math.floor(noise(index, seed + 200) * 3)]
+    };
+  });
+
+const createIndependent = (count: number): Record<string, unknown>[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `synthetic-${index}`,
+    age: 20 + ((index * 17) % 50),
+    income: 20000 + ((index * 7919) % 50000),
+    plan: plans[(index * 5) % 3]
+  }));
+
+describe('SyntheticQualityService', () => {
+  it('scores a faithful, non-copying dataset as similar and low risk', () => {
+    const source = createSource(2000);
+    // Drawn from the same process, so synthetic rows are no closer to source rows than real rows are
+    const synthetic = createSource(1000, 2);
+
+    const report = SyntheticQualityService.compare(source, synthetic);
+
+    expect(report.sourceRecordCount).toBe(2000);
+    expect(report.syntheticRecordCount).toBe(1000);
+    expect(report.fieldLevelMetrics.map(metric => metric.fieldName)).toEqual(['age', 'income', 'plan']);
+    expect(report.metrics.statisticalSimilarity).toBeGreaterThan(0.9);
+    expect(report.metrics.attributeCorrelation).toBeGreaterThan(0.95);
+    expect(report.distanceToClosestRecord.exactMatches).toBe(0);
+    expect(report.metrics.reIdentificationRisk).toBe(0);
+    expect(report.metrics.privacyRisk).toBeLessThan(0.1);
+    expect(report.warnings).toEqual([expect.stringContaining('id look like identifiers')]);
+  });
+
+  it('flags copied source records', () => {
+    const source = createSource(600);
+    const synthetic = source.slice(0, 300).map((record, index) => ({ ...record, id: `synthetic-${index}` }));
+
+    const report = SyntheticQualityService.compare(source, synthetic);
+
+    expect(report.distanceToClosestRecord.exactMatches).toBe(300);
+    expect(report.metrics.reIdentificationRisk).toBe(1);
+    expect(report.metrics.privacyRisk).toBeGreaterThan(0.5);
+    expect(report.warnings).toEqual(expect.arrayContaining([
+      expect.stringContaining('300 synthetic records duplicate a source record'),
+      expect.stringContaining('memorizing rows')
+    ]));
+  });
+
+  it('measures distribution distance per field', () => {
+    const source = createSource(500);
+    const synthetic = source.map(record => ({ ...record, age: Number(record.age) + 40, plan: 'basic' }));
+
+    const report = SyntheticQualityService.compare(source, synthetic);
+    const age = report.fieldLevelMetrics.find(metric => metric.fieldName === 'age')!;
+    const plan = report.fieldLevelMetrics.find(metric => metric.fieldName === 'plan')!;
+
+    expect(age.fieldType).toBe('numeric');
+    expect(age.distance).toBeGreaterThan(0.7);
+    expect(age.kolmogorovSmirnovTest).toBeLessThan(0.001);
+    expect(plan.fieldType).toBe('categorical');
+    expect(plan.distance).toBeCloseTo(2 / 3, 1);
+    expect(plan.chiSquareTest).toBeLessThan(0.001);
+    expect(plan.syntheticDistribution).toEqual({ basic: 1 });
+  });
+
+  it('reports correlation drift between numeric fields', () => {
+    const report = SyntheticQualityService.compare(createSource(500), createIndependent(500));
+
+    expect(report.correlationDrift.fields).toEqual(['age', 'income']);
+    expect(report.correlationDrift.original[0][1]).toBeGreaterThan(0.9);
+    expect(Math.abs(report.correlationDrift.synthetic[0][1])).toBeLessThan(0.3);
+    expect(report.correlationDrift.maxAbsoluteDrift).toBeGreaterThan(0.6);
+    expect(report.metrics.attributeCorrelation).toBeLessThan(0.7);
+  });
+
+  it('skips numeric fields that were generalized in the synthetic data', () => {
+    const source = createSource(200);
+    const synthetic = source.map(record => ({ ...record, age: '20-29' }));
+
+    const report = SyntheticQualityService.compare(source, synthetic);
+
+    expect(report.fieldLevelMetrics.map(metric => metric.fieldName)).not.toContain('age');
+    expect(report.warnings).toEqual(expect.arrayContaining([expect.stringContaining('age are numeric in the source but generalized')]));
+  });
+
+  it('loads the source records of the data source', async () => {
+    (DataSourceService.getTransformedData as jest.Mock).mockResolvedValue({
+      records: createSource(100).map(data => ({ data }))
+    });
+
+    const report = await SyntheticQualityService.evaluate('source-1', 'dataset-1', createIndependent(100), 'job-1');
+
+    expect(DataSourceService.getTransformedData).toHaveBeenCalledWith('source-1');
+    expect(report).toEqual(expect.objectContaining({
+      originalDataset: 'source-1',
+      syntheticDataset: 'dataset-1',
+      jobId: 'job-1'
+    }));
+  });
+
+  it('returns null when the source has no records', async () => {
+    (DataSourceService.getTransformedData as jest.Mock).mockResolvedValue(null);
+
+    await expect(SyntheticQualityService.evaluate('missing', 'dataset-1', [])).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { TableMetadataService } from '../tableMetadataService';
+import type { UnifiedDataCatalog, UnifiedDataRecord } from '../dataTransformationService';
+
+jest.mock('@/database/connection', () => ({
+  getDatabase: jest.fn()
+}));
+
+const header = {
+  catalogId: 'catalog-1',
+  sourceId: 'ds-1',
+  sourceName: 'Patients',
+  totalRecords: 3,
+  schema: { fields: [{ name: 'id', type: 'number', nullable: false, examples: [1] }] },
+  records: []
+} as unknown as UnifiedDataCatalog;
+
+const stored = (...batches: Array<Array<Record<string, unknown>>>) => ({
+  catalog: header,
+  batches: async function* () {
+    for (const batch of batches) {
+      yield batch.map(data => ({ data }) as UnifiedDataRecord);
+    }
+  }
+});
+
+describe('TableMetadataService.detectStoredTables', () => {
+  it('counts nested tables over every batch', async () => {
+    const tables = await TableMetadataService.detectStoredTables(stored(
+      [{ id: 1, visits: [{ date: '2024-01-01', doctor: 'Ada' }] }],
+      [{ id: 2, visits: [{ date: '2024-02-01', doctor: 'Grace' }, { date: '2024-03-01', doctor: 'Ada' }] }, { id: 3 }]
+    ));
+
+    expect(tables).toEqual([expect.objectContaining({ tableName: 'visits', tableType: 'nested', recordCount: 3 })]);
+    expect(tables[0].metadata.columns.map((column: { name: string }) => column.name)).toEqual(['date', 'doctor']);
+  });
+
+  it('stops after the first batch of a flat table and takes its columns from the schema', async () => {
+    const later = jest.fn();
+    const tables = await TableMetadataService.detectStoredTables({
+      catalog: header,
+      batches: async function* () {
+        yield [{ data: { id: 1 } } as unknown as UnifiedDataRecord];
+        later();
+        yield [{ data: { id: 2 } } as unknown as UnifiedDataRecord];
+      }
+    });
+
+    expect(tables).toEqual([expect.objectContaining({ tableName: 'Main', tableType: 'single', recordCount: 3 })]);
+    expect(tables[0].metadata.columns).toEqual([{ name: 'id', type: 'number', isPII: false }]);
+    expect(later).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import { getDatabase } from '@/database/connection';
+import { ApiConnectionEntity } from '@/entities/ApiConnectionEntity';
+import { ApiAuthConfig, ApiConnection, ApiType, IApiConnector } from '@/types/apiConnector';
+import { decryptCredential, encryptCredential } from '@/utils/credentialEncryption';
+import { createApiConnector, isApiTypeSupported } from './connectors/apiConnectorFactory';
+
+/**
+ * API Connection Service
+ * Converts stored API connections to connector configurations. Auth configurations are stored
+ * encrypted, and OAuth2 tokens obtained by a connector are saved back to the connection.
+ */
+export class ApiConnectionService {
+  static encodeAuthConfig(authConfig?: ApiAuthConfig | null): string | undefined {
+    return authConfig ? encryptCredential(JSON.stringify(authConfig)) : undefined;
+  }
+
+  static decodeAuthConfig(value?: string | null): ApiAuthConfig | undefined {
+    return value ? JSON.parse(decryptCredential(value)) : undefined;
+  }
+
+  static toConnection(entity: ApiConnectionEntity): ApiConnection {
+    return {
+      id: entity.id,
+      name: entity.name,
+      apiType: entity.api_type,
+      endpoint: entity.endpoint,
+      method: entity.method,
+      authType: entity.auth_type,
+      authConfig: this.decodeAuthConfig(entity.auth_config),
+      headers: entity.headers ? JSON.parse(entity.headers) : undefined,
+      requestBody: entity.request_body ? JSON.parse(entity.request_body) : undefined,
+      paginationConfig: entity.pagination_config ? JSON.parse(entity.pagination_config) : undefined,
+      rateLimit: entity.rate_limit,
+      timeout: entity.timeout,
+      retryCount: entity.retry_count,
+      refreshEnabled: entity.refresh_enabled,
+      refreshInterval: entity.refresh_interval,
+      responseMapping: entity.response_mapping ? JSON.parse(entity.response_mapping) : undefined,
+      status: entity.status,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt
+    };
+  }
+
+  /**
+   * Create a connector whose refreshed OAuth2 tokens are saved to the stored connection,
+   * so scheduled refreshes keep working without anyone signing in again
+   */
+  static createConnector(connection: ApiConnection): IApiConnector {
+    return createApiConnector(connection, connection.apiType, {
+      onTokenRefresh: authConfig => this.saveAuthConfig(connection.id, authConfig)
+    });
+  }
+
+  /**
+   * Check the API type of a connection and that GraphQL connections have a query.
+   * Returns the problem, or undefined when the request can be used.
+   */
+  static validateRequest(apiType: ApiType, requestBody?: unknown): string | undefined {
+    if (!isApiTypeSupported(apiType)) {
+      return `Unsupported API type: ${apiType}`;
+    }
+    const query = (requestBody as { query?: unknown } | undefined)?.query;
+    if (apiType === 'graphql' && (typeof query !== 'string' || !query.trim())) {
+      return 'GraphQL connections need a query';
+    }
+    return undefined;
+  }
+
+  static async saveAuthConfig(id: string, authConfig: ApiAuthConfig): Promise<void> {
+    const database = await getDatabase();
+    await database.getRepository(ApiConnectionEntity).update({ id }, { auth_config: this.encodeAuthConfig(authConfig) });
+  }
+}
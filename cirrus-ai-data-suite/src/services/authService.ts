@@ -0,0 +1,219 @@
+/**
+ * Auth Service
+ * Stores users with scrypt password hashes and authenticates logins
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { getDatabase } from '@/database/connection';
+import { UserEntity } from '@/entities/UserEntity';
+import { User, UserRole } from '@/types/auth';
+import { isUserRole } from '@/utils/permissions';
+import { logger } from '@/utils/logger';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const MIN_PASSWORD_LENGTH = 6;
+
+// Used to bootstrap the first account outside production when no admin credentials are configured
+const DEVELOPMENT_ADMIN = { username: 'cirrus', password: 'cldata' };
+
+export class AuthService {
+  /**
+   * Hash a password as scrypt:<salt>:<hash>
+   */
+  static async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+  }
+
+  /**
+   * Check a password against a stored hash in constant time
+   */
+  static async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [algorithm, saltHex, hashHex] = passwordHash.split(':');
+    if (algorithm !== 'scrypt' || !saltHex || !hashHex) {
+      return false;
+    }
+
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Authenticate a username and password, returning the user on success
+   */
+  static async authenticate(username: string, password: string): Promise<User | null> {
+    const database = await getDatabase();
+    const repository = database.getRepository(UserEntity);
+
+    await this.ensureInitialUser();
+
+    const entity = await repository.findOne({ where: { username: username.trim() } });
+    if (!entity || !entity.active) {
+      // Hash anyway so unknown usernames take as long as wrong passwords
+      await this.hashPassword(password);
+      return null;
+    }
+
+    if (!(await this.verifyPassword(password, entity.passwordHash))) {
+      return null;
+    }
+
+    entity.lastLoginAt = new Date();
+    await repository.save(entity);
+
+    return this.entityToUser(entity);
+  }
+
+  /**
+   * Create a user
+   */
+  static async createUser(data: {
+    username: string;
+    password: string;
+    displayName?: string;
+    role?: UserRole;
+  }): Promise<User> {
+    const username = data.username?.trim();
+    if (!username) {
+      throw new Error('Username is required');
+    }
+    this.validatePassword(data.password);
+    if (data.role !== undefined && !isUserRole(data.role)) {
+      throw new Error(`Invalid role: ${data.role}`);
+    }
+
+    const database = await getDatabase();
+    const repository = database.getRepository(UserEntity);
+
+    if (await repository.findOne({ where: { username } })) {
+      throw new Error(`User ${username} already exists`);
+    }
+
+    const entity = repository.create({
+      username,
+      displayName: data.displayName,
+      passwordHash: await this.hashPassword(data.password),
+      role: data.role || 'viewer',
+      active: true
+    });
+
+    return this.entityToUser(await repository.save(entity));
+  }
+
+  /**
+   * Update a user's profile, role, status or password
+   */
+  static async updateUser(
+    id: string,
+    data: { displayName?: string; role?: UserRole; active?: boolean; password?: string }
+  ): Promise<User | null> {
+    const database = await getDatabase();
+    const repository = database.getRepository(UserEntity);
+
+    const entity = await repository.findOne({ where: { id } });
+    if (!entity) {
+      return null;
+    }
+
+    if (data.role !== undefined) {
+      if (!isUserRole(data.role)) {
+        throw new Error(`Invalid role: ${data.role}`);
+      }
+      entity.role = data.role;
+    }
+    if (data.displayName !== undefined) {
+      entity.displayName = data.displayName;
+    }
+    if (data.active !== undefined) {
+      entity.active = data.active;
+    }
+    if (data.password !== undefined) {
+      this.validatePassword(data.password);
+      entity.passwordHash = await this.hashPassword(data.password);
+    }
+
+    return this.entityToUser(await repository.save(entity));
+  }
+
+  /**
+   * List all users
+   */
+  static async listUsers(): Promise<User[]> {
+    const database = await getDatabase();
+    const entities = await database.getRepository(UserEntity).find({ order: { username: 'ASC' } });
+    return entities.map(entity => this.entityToUser(entity));
+  }
+
+  /**
+   * Get an active user by ID
+   */
+  static async getUser(id: string): Promise<User | null> {
+    const database = await getDatabase();
+    const entity = await database.getRepository(UserEntity).findOne({ where: { id } });
+    return entity && entity.active ? this.entityToUser(entity) : null;
+  }
+
+  /**
+   * Get an active user by username
+   */
+  static async getUserByUsername(username: string): Promise<User | null> {
+    const database = await getDatabase();
+    const entity = await database.getRepository(UserEntity).findOne({ where: { username: username.trim() } });
+    return entity && entity.active ? this.entityToUser(entity) : null;
+  }
+
+  /**
+   * Create the first account from AUTH_ADMIN_USERNAME/AUTH_ADMIN_PASSWORD when there are no users yet
+   */
+  static async ensureInitialUser(): Promise<void> {
+    const database = await getDatabase();
+    if (await database.getRepository(UserEntity).count() > 0) {
+      return;
+    }
+
+    let username = process.env.AUTH_ADMIN_USERNAME;
+    let password = process.env.AUTH_ADMIN_PASSWORD;
+
+    if (!username || !password) {
+      if (process.env.NODE_ENV === 'production') {
+        logger.error('No users exist. Set AUTH_ADMIN_USERNAME and AUTH_ADMIN_PASSWORD to create the first account.');
+        return;
+      }
+      logger.warn(`No users exist, creating development account "${DEVELOPMENT_ADMIN.username}"`);
+      ({ username, password } = DEVELOPMENT_ADMIN);
+    }
+
+    try {
+      await this.createUser({ username, password, displayName: 'Administrator', role: 'admin' });
+      logger.info(`Created initial user ${username}`);
+    } catch (error) {
+      // A concurrent login may have created it first
+      logger.warn('Failed to create initial user:', error);
+    }
+  }
+
+  private static validatePassword(password: string): void {
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+  }
+
+  private static entityToUser(entity: UserEntity): User {
+    return {
+      id: entity.id,
+      username: entity.username,
+      displayName: entity.displayName,
+      role: entity.role,
+      active: entity.active,
+      lastLoginAt: entity.lastLoginAt,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt
+    };
+  }
+}
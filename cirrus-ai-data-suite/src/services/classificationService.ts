@@ -0,0 +1,51 @@
+/**
+ * Classification Service
+ * Resolves the marking that data derived from a data source must carry
+ */
+
+import { getDatabase } from '@/database/connection';
+import { DataSourceEntity } from '@/entities/DataSourceEntity';
+import { FieldAnnotationEntity } from '@/entities/FieldAnnotationEntity';
+import { DeploymentCheck } from '@/types/classification';
+import { DeploymentEnvironmentPolicy, checkDeployment, highWaterMark } from '@/utils/classification';
+
+export class ClassificationService {
+  /**
+   * The high-water mark of a data source's own marking and the markings of its annotated fields.
+   * Returns undefined when neither is marked.
+   */
+  static async getDataSourceMarking(dataSourceId: string): Promise<string | undefined> {
+    const database = await getDatabase();
+    const dataSource = await database.getRepository(DataSourceEntity).findOne({
+      where: { id: dataSourceId },
+      select: ['id', 'classification']
+    });
+    const annotations = await database.getRepository(FieldAnnotationEntity).find({
+      where: { dataSourceId },
+      select: ['id', 'classification']
+    });
+
+    return highWaterMark([
+      dataSource?.classification,
+      ...annotations.map(annotation => annotation.classification)
+    ]);
+  }
+
+  /**
+   * The high-water mark of several data sources, for data combined from all of them
+   */
+  static async getCombinedMarking(dataSourceIds: string[]): Promise<string | undefined> {
+    const markings = await Promise.all(dataSourceIds.map(id => this.getDataSourceMarking(id)));
+    return highWaterMark(markings);
+  }
+
+  /**
+   * Check whether a data source's data may be deployed to an environment
+   */
+  static async checkDataSourceDeployment(
+    dataSourceId: string,
+    environment: DeploymentEnvironmentPolicy | undefined
+  ): Promise<DeploymentCheck> {
+    return checkDeployment(await this.getDataSourceMarking(dataSourceId), environment);
+  }
+}
@@ -0,0 +1,427 @@
+/**
+ * Cloud Source Service
+ * Imports the matching objects of an S3-compatible bucket or a mounted directory as one data source
+ * and keeps it in sync, copying only new and changed objects
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getRepository } from '@/database/repository-helper';
+import { DataSourceEntity } from '@/entities/DataSourceEntity';
+import { DataSource, DataSourceConfig, FileData, SyncedObject } from '@/types/discovery';
+import { DataSourceService } from './dataSourceService';
+import { LocalStorageProvider } from './storage/localStorageProvider';
+import { S3Provider } from './storage/s3Provider';
+import { StorageListItem, StorageProvider } from './storage/storageInterface';
+import { StorageService } from './storage/storageService';
+import { decryptCredential } from '@/utils/credentialEncryption';
+import { logger } from '@/utils/logger';
+
+export type CloudProvider = 's3' | 'local';
+
+export type CloudSourceConfig = Pick<
+  DataSourceConfig,
+  'bucket' | 'region' | 'endpoint' | 'accessKeyId' | 'secretAccessKey' | 'path' | 'prefix' | 'filePattern'
+> & { provider: CloudProvider };
+
+export interface CloudObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+  version: string;
+}
+
+export interface CloudListing {
+  prefix: string;
+  folders: string[]; // Prefixes of the folders directly under the prefix, ending in '/'
+  objects: CloudObject[]; // Objects directly under the prefix
+  truncated: boolean;
+}
+
+export interface CloudSyncResult {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  recordCount?: number;
+  skipped?: boolean; // Another sync of the source was still running
+}
+
+export interface CloudSyncReport {
+  dataSourceId: string;
+  name: string;
+  status: 'synced' | 'skipped' | 'error';
+  result?: CloudSyncResult;
+  error?: string;
+}
+
+const MAX_LISTED_ENTRIES = 1000;
+const DEFAULT_SYNC_INTERVAL_MINUTES = 60;
+// Hosts of Amazon S3 endpoints, including FIPS, dual-stack and China regions
+const AWS_S3_HOST = /^(?:[a-z0-9-]+\.)*s3(?:[.-][a-z0-9-]+)*\.amazonaws\.com(?:\.cn)?$/;
+
+// Sources being synced by this process
+const runningSyncs = new Set<string>();
+
+export class CloudSourceService {
+  static isCloudSource(dataSource: Pick<DataSource, 'configuration'>): boolean {
+    const provider = dataSource.configuration?.provider;
+    return provider === 's3' || provider === 'local';
+  }
+
+  /**
+   * Data source type of a cloud source: buckets are 's3' sources, directories 'filesystem' sources
+   */
+  static dataSourceType(provider: CloudProvider): DataSource['type'] {
+    return provider === 's3' ? 's3' : 'filesystem';
+  }
+
+  /**
+   * Provider reading the bucket or directory of a source. Stored keys are decrypted; endpoints must
+   * be https Amazon S3 hosts or listed in S3_ENDPOINT_ALLOWLIST, and directories must lie under one
+   * of the roots listed in LOCAL_SOURCE_ROOTS.
+   */
+  static async createProvider(config: CloudSourceConfig): Promise<StorageProvider> {
+    switch (config.provider) {
+      case 's3':
+        if (!config.bucket || !config.accessKeyId || !config.secretAccessKey) {
+          throw new Error('S3 sources require a bucket, access key ID and secret access key');
+        }
+        return new S3Provider({
+          bucket: config.bucket,
+          region: config.region || 'us-east-1',
+          accessKeyId: decryptCredential(config.accessKeyId),
+          secretAccessKey: decryptCredential(config.secretAccessKey),
+          endpoint: config.endpoint ? this.resolveEndpoint(config.endpoint) : undefined
+        });
+      case 'local':
+        return new LocalStorageProvider(await this.resolveDirectory(config.path));
+      default:
+        throw new Error(`Unsupported cloud provider: ${String((config as { provider?: unknown }).provider)}`);
+    }
+  }
+
+  /**
+   * Folders and objects directly under a prefix
+   */
+  static async browse(config: CloudSourceConfig, prefix = ''): Promise<CloudListing> {
+    const folderPrefix = this.normalizePrefix(prefix, true);
+    const provider = await this.createProvider(config);
+    const folders = new Set<string>();
+    const objects: CloudObject[] = [];
+
+    for (const item of await provider.list(folderPrefix || undefined)) {
+      if (!item.key.startsWith(folderPrefix)) continue;
+      const rest = item.key.slice(folderPrefix.length);
+      const slash = rest.indexOf('/');
+      if (slash >= 0) {
+        folders.add(`${folderPrefix}${rest.slice(0, slash + 1)}`);
+      } else if (rest) {
+        objects.push(this.toObject(item));
+      }
+    }
+
+    const sortedFolders = Array.from(folders).sort();
+    objects.sort((a, b) => a.key.localeCompare(b.key));
+    return {
+      prefix: folderPrefix,
+      folders: sortedFolders.slice(0, MAX_LISTED_ENTRIES),
+      objects: objects.slice(0, Math.max(0, MAX_LISTED_ENTRIES - sortedFolders.length)),
+      truncated: sortedFolders.length + objects.length > MAX_LISTED_ENTRIES
+    };
+  }
+
+  /**
+   * Objects under the source prefix whose path relative to the prefix matches the file pattern
+   */
+  static async listMatching(config: CloudSourceConfig): Promise<CloudObject[]> {
+    const prefix = this.normalizePrefix(config.prefix);
+    const provider = await this.createProvider(config);
+    const pattern = config.filePattern?.trim() ? this.globToRegExp(config.filePattern.trim()) : null;
+
+    return (await provider.list(prefix || undefined))
+      .filter(item => item.key.startsWith(prefix) && !item.key.endsWith('/'))
+      .filter(item => !pattern || this.matchesPattern(this.relativeName(item.key, prefix), config.filePattern!.trim(), pattern))
+      .map(item => this.toObject(item))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Create a data source for a bucket or directory and run its first sync
+   */
+  static async createCloudSource(
+    name: string,
+    config: CloudSourceConfig & Pick<DataSourceConfig, 'autoSync' | 'syncInterval'>,
+    classification?: string | null
+  ): Promise<{ dataSource: DataSource; sync?: CloudSyncResult; error?: string }> {
+    // Fails early on missing credentials or directories outside the allowed roots
+    await this.createProvider(config);
+
+    const created = await DataSourceService.createDataSource({
+      name,
+      type: this.dataSourceType(config.provider),
+      connectionStatus: 'connecting',
+      classification,
+      configuration: { ...config, prefix: this.normalizePrefix(config.prefix), files: [] }
+    });
+
+    try {
+      const sync = await this.syncDataSource(created.id);
+      return { dataSource: (await DataSourceService.getDataSourceById(created.id)) || created, sync };
+    } catch (error) {
+      return {
+        dataSource: (await DataSourceService.getDataSourceById(created.id)) || created,
+        error: error instanceof Error ? error.message : 'Sync failed'
+      };
+    }
+  }
+
+  /**
+   * Copy new and changed objects into storage, drop removed ones and re-transform the source when
+   * anything changed. Objects are compared by ETag, or by modification time and size.
+   */
+  static async syncDataSource(id: string): Promise<CloudSyncResult> {
+    if (runningSyncs.has(id)) {
+      return { added: 0, updated: 0, removed: 0, unchanged: 0, skipped: true };
+    }
+
+    runningSyncs.add(id);
+    try {
+      return await this.runSync(id);
+    } finally {
+      runningSyncs.delete(id);
+    }
+  }
+
+  /**
+   * Sync every cloud source with automatic sync enabled whose interval has passed
+   */
+  static async syncDueSources(now: Date = new Date()): Promise<CloudSyncReport[]> {
+    const reports: CloudSyncReport[] = [];
+
+    for (const dataSource of await DataSourceService.getAllDataSources()) {
+      if (!this.isCloudSource(dataSource) || !this.isDue(dataSource.configuration, now)) continue;
+
+      try {
+        const result = await this.syncDataSource(dataSource.id);
+        reports.push({ dataSourceId: dataSource.id, name: dataSource.name, status: result.skipped ? 'skipped' : 'synced', result });
+      } catch (error) {
+        reports.push({
+          dataSourceId: dataSource.id,
+          name: dataSource.name,
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Sync failed'
+        });
+      }
+    }
+
+    return reports;
+  }
+
+  private static async runSync(id: string): Promise<CloudSyncResult> {
+    // The entity rather than getDataSourceById, which masks the stored keys
+    const repository = await getRepository(DataSourceEntity);
+    const dataSource = await repository.findOne({ where: { id } });
+    if (!dataSource) {
+      throw new Error('Data source not found');
+    }
+    const config = JSON.parse(dataSource.configuration) as DataSourceConfig;
+    if (!this.isCloudSource({ configuration: config })) {
+      throw new Error('Data source is not a bucket or directory source');
+    }
+
+    const syncedAt = new Date().toISOString();
+
+    try {
+      const source = config as CloudSourceConfig;
+      const provider = await this.createProvider(source);
+      const prefix = this.normalizePrefix(source.prefix);
+      const objects = await this.listMatching(source);
+      const storage = StorageService.getInstance();
+
+      const previous = config.syncedObjects || {};
+      const previousFiles = new Map<string, FileData>((config.files || []).filter(file => file.storageKey).map(file => [file.storageKey!, file]));
+      const syncedObjects: Record<string, SyncedObject> = {};
+      const files: FileData[] = [];
+      const result: CloudSyncResult = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+
+      for (const object of objects) {
+        const name = this.relativeName(object.key, prefix);
+        const known = previous[object.key];
+        const existing = known && previousFiles.get(known.storageKey);
+
+        if (known && existing && known.version === object.version) {
+          syncedObjects[object.key] = known;
+          files.push(existing);
+          result.unchanged++;
+          continue;
+        }
+
+        // Changed objects overwrite their earlier copy
+        const storageKey = known?.storageKey || StorageService.generateKey(`datasource/${id}`, name);
+        const contentType = StorageService.getContentType(name);
+        await storage.uploadFileStream(storageKey, await provider.getStream!(object.key), { contentType });
+
+        syncedObjects[object.key] = { version: object.version, storageKey, size: object.size };
+        files.push(await DataSourceService.withStoredContent({ name, type: contentType, size: object.size, storageKey }) as FileData);
+        if (known) result.updated++;
+        else result.added++;
+      }
+
+      const removedKeys = Object.keys(previous)
+        .filter(key => !syncedObjects[key])
+        .map(key => previous[key].storageKey);
+      if (removedKeys.length > 0) {
+        await storage.deleteFiles(removedKeys);
+        result.removed = removedKeys.length;
+      }
+
+      const changed = result.added + result.updated + result.removed > 0;
+      await repository.update(id, {
+        configuration: JSON.stringify({ ...config, files, syncedObjects, lastSyncAt: syncedAt, syncError: undefined }),
+        storageKeys: JSON.stringify(files.map(file => file.storageKey)),
+        ...(files.length === 0 && changed ? { recordCount: 0 } : {})
+      });
+
+      if (files.length > 0 && (changed || !dataSource.transformedAt)) {
+        const catalog = await DataSourceService.retransform(id);
+        result.recordCount = catalog.totalRecords;
+      }
+
+      logger.info(`Synced data source ${id}:`, result);
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Sync failed';
+      logger.error(`Failed to sync data source ${id}:`, error);
+      await repository.update(id, {
+        configuration: JSON.stringify({ ...config, lastSyncAt: syncedAt, syncError: message })
+      });
+      throw error;
+    }
+  }
+
+  private static isDue(config: DataSourceConfig, now: Date): boolean {
+    if (!config.autoSync) return false;
+    if (!config.lastSyncAt) return true;
+    const intervalMinutes = Number(config.syncInterval) || DEFAULT_SYNC_INTERVAL_MINUTES;
+    return now.getTime() - new Date(config.lastSyncAt).getTime() >= intervalMinutes * 60 * 1000;
+  }
+
+  /**
+   * Origin of an S3-compatible endpoint, which must be an https Amazon S3 host or an origin listed in
+   * S3_ENDPOINT_ALLOWLIST, so that sources cannot make the server call internal addresses
+   */
+  private static resolveEndpoint(endpoint: string): string {
+    let url: URL;
+    try {
+      url = new URL(endpoint.trim());
+    } catch {
+      throw new Error(`Invalid S3 endpoint: ${endpoint}`);
+    }
+
+    const allowed = (process.env.S3_ENDPOINT_ALLOWLIST || '')
+      .split(',')
+      .map(origin => origin.trim())
+      .filter(Boolean)
+      .map(origin => URL.canParse(origin) ? new URL(origin).origin : origin);
+    if (allowed.includes(url.origin)) {
+      return url.origin;
+    }
+    if (url.protocol === 'https:' && !url.port && AWS_S3_HOST.test(url.hostname)) {
+      return url.origin;
+    }
+    throw new Error(`S3 endpoint ${url.origin} is not allowed. Use an https Amazon S3 endpoint or add it to S3_ENDPOINT_ALLOWLIST.`);
+  }
+
+  private static async resolveDirectory(directory?: string): Promise<string> {
+    const roots = (process.env.LOCAL_SOURCE_ROOTS || '')
+      .split(',')
+      .map(root => root.trim())
+      .filter(Boolean)
+      .map(root => path.resolve(root));
+    if (roots.length === 0) {
+      throw new Error('Directory sources are disabled. Set LOCAL_SOURCE_ROOTS to the directories they may read.');
+    }
+    if (!directory) {
+      throw new Error('Directory sources require a path');
+    }
+
+    // Relative paths are taken from the first root
+    const resolved = path.resolve(roots[0], directory);
+    let real: string;
+    try {
+      real = await fs.realpath(resolved);
+    } catch {
+      throw new Error(`Directory not found: ${directory}`);
+    }
+    const realRoots = await Promise.all(roots.map(root => fs.realpath(root).catch(() => root)));
+    if (!realRoots.some(root => real === root || real.startsWith(`${root}${path.sep}`))) {
+      throw new Error(`${directory} is not under a directory listed in LOCAL_SOURCE_ROOTS`);
+    }
+    return real;
+  }
+
+  /**
+   * Prefix without a leading slash, rejecting parent folder segments
+   */
+  private static normalizePrefix(prefix = '', asFolder = false): string {
+    const normalized = prefix.trim().replace(/\\/g, '/').replace(/^\/+/, '');
+    if (normalized.split('/').includes('..')) {
+      throw new Error('Prefixes cannot contain ".." segments');
+    }
+    return asFolder && normalized && !normalized.endsWith('/') ? `${normalized}/` : normalized;
+  }
+
+  private static relativeName(key: string, prefix: string): string {
+    const relative = key.slice(prefix.length);
+    // A prefix that ends mid-name ('exports/2024-') leaves the rest of the name
+    return relative.replace(/^\/+/, '') || key.split('/').pop() || key;
+  }
+
+  private static toObject(item: StorageListItem): CloudObject {
+    const lastModified = new Date(item.lastModified);
+    return {
+      key: item.key,
+      size: item.size,
+      lastModified,
+      version: item.etag || `${lastModified.getTime()}:${item.size}`
+    };
+  }
+
+  /**
+   * Patterns with a '/' match the whole relative path; others match the file name at any depth
+   */
+  private static matchesPattern(name: string, glob: string, pattern: RegExp): boolean {
+    return pattern.test(glob.includes('/') ? name : name.split('/').pop() || name);
+  }
+
+  /**
+   * Convert a glob to a regular expression: '*' and '?' stay within a folder, '**' crosses folders
+   * and '{a,b}' matches either alternative
+   */
+  private static globToRegExp(glob: string): RegExp {
+    const escape = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    let source = '';
+
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === '*' && glob[i + 1] === '*') {
+        // '**/' also matches no folder at all
+        source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+        i += glob[i + 2] === '/' ? 2 : 1;
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '{' && glob.indexOf('}', i) > i) {
+        const end = glob.indexOf('}', i);
+        source += `(?:${glob.slice(i + 1, end).split(',').map(escape).join('|')})`;
+        i = end;
+      } else {
+        source += escape(char);
+      }
+    }
+
+    return new RegExp(`^${source}$`, 'i');
+  }
+}
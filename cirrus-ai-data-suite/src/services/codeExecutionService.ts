@@ -1,5 +1,6 @@
 import { DataQuery, QueryResult, QueryMetadata } from '@/types/dataAnalysis';
 import { DataSourceService } from './dataSourceService';
+import { RecordStoreService } from './recordStoreService';
 import { logger } from '@/utils/logger';
 
 // Dynamic import for Node.js modules to prevent client-side bundling
@@ -215,58 +216,10 @@ export class CodeExecutionService {
         // Get transformed data
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         let records: any[] = [];
-        if (dataSource.transformedData) {
-          const transformed = JSON.parse(dataSource.transformedData);
-          
-          logger.info(`Loading data for source ${dataSource.name}:`, {
-            hasTransformedData: true,
-            isArray: Array.isArray(transformed),
-            hasRecords: !!transformed.records,
-            recordsLength: transformed.records ? transformed.records.length : 0,
-            hasData: !!transformed.data,
-            dataLength: transformed.data ? transformed.data.length : 0,
-            transformedKeys: Object.keys(transformed).slice(0, 10),
-            savedRecordCount: transformed.savedRecordCount
-          });
-          
-          // Extract records
-          if (Array.isArray(transformed)) {
-            records = transformed;
-          } else if (transformed.records && Array.isArray(transformed.records)) {
-            // Handle UnifiedDataCatalog structure
-            logger.info(`Found ${transformed.records.length} records in UnifiedDataCatalog structure`);
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            records = transformed.records.map((r: any) => {
-              // Log the first record structure to debug
-              if (transformed.records.indexOf(r) === 0) {
-                logger.info('First record structure:', {
-                  hasData: !!r.data,
-                  recordKeys: Object.keys(r).slice(0, 10),
-                  dataKeys: r.data ? Object.keys(r.data).slice(0, 10) : []
-                });
-              }
-              return r.data || r;
-            });
-            
-            // Check if savedRecordCount indicates data was truncated
-            if (transformed.savedRecordCount && records.length === 0 && transformed.totalRecords > 0) {
-              logger.warn(`Data appears to be truncated. savedRecordCount: ${transformed.savedRecordCount}, totalRecords: ${transformed.totalRecords}`);
-              // For now, we can't re-transform here, but we should handle this case
-              // TODO: Implement re-transformation for truncated data
-            }
-          } else if (transformed.data && Array.isArray(transformed.data)) {
-            records = transformed.data;
-          } else if (typeof transformed === 'object') {
-            // Check if the transformed data has any array properties that might be the records
-            const possibleRecordKeys = Object.keys(transformed).filter(key => 
-              Array.isArray(transformed[key]) && transformed[key].length > 0
-            );
-            if (possibleRecordKeys.length > 0) {
-              // Use the first array property as records
-              records = transformed[possibleRecordKeys[0]];
-              logger.info(`Found records in property: ${possibleRecordKeys[0]}`);
-            }
-          }
+        const stored = await RecordStoreService.openRecords(dataSource);
+        if (stored) {
+          records = await RecordStoreService.collectData(stored);
+          logger.info(`Loaded ${records.length} records for source ${dataSource.name}`);
         } else {
           logger.warn(`No transformed data for source ${dataSource.name}`);
         }
@@ -1,5 +1,6 @@
 import { 
   IApiConnector, 
+  ApiAuthConfig,
   ApiConnection, 
   ApiQueryResult, 
   ApiTestResult,
@@ -10,11 +11,20 @@ import {
 import { logger } from '@/utils/logger';
 import { fetchWithRetry } from '@/utils/retryUtils';
 
+type OAuthTokens = Pick<ApiAuthConfig, 'accessToken' | 'refreshToken' | 'expiresAt'>;
+
+// OAuth2 access tokens are renewed this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// OAuth2 tokens by connection, shared by the connectors created for each request
+const tokenCache = new Map<string, OAuthTokens>();
+
 export abstract class BaseApiConnector implements IApiConnector {
   protected connection: ApiConnection;
   protected options: ApiConnectorOptions;
   protected isConnected: boolean = false;
   protected rateLimitTracker: { count: number; resetTime: number } = { count: 0, resetTime: 0 };
+  private tokenRequest?: Promise<void>;
 
   constructor(connection: ApiConnection, options: ApiConnectorOptions = {}) {
     this.connection = connection;
@@ -110,7 +120,9 @@ export abstract class BaseApiConnector implements IApiConnector {
     return allData;
   }
 
-  protected async makeRequest(params: FetchParams): Promise<Response> {
+  protected async makeRequest(params: FetchParams, isRetry = false): Promise<Response> {
+    await this.ensureAccessToken();
+
     const url = this.buildUrl(params);
     const headers = this.buildHeaders(params);
     const body = this.buildRequestBody(params);
@@ -123,10 +135,125 @@ export abstract class BaseApiConnector implements IApiConnector {
       ...(timeout && { signal: AbortSignal.timeout(timeout) })
     };
 
-    return fetchWithRetry(url, requestOptions, {
-      maxRetries: params.maxRetries ?? this.options.maxRetries,
-      initialDelay: this.options.retryDelay
+    try {
+      return await fetchWithRetry(url, requestOptions, {
+        maxRetries: params.maxRetries ?? this.options.maxRetries,
+        initialDelay: this.options.retryDelay
+      });
+    } catch (error) {
+      // Access tokens can be revoked or expire early; fetch a new one and try once more
+      if (!isRetry && this.canRequestToken() && error instanceof Error && /^HTTP 401\b/.test(error.message)) {
+        logger.info(`Access token of ${this.connection.name} was rejected, requesting a new one`);
+        await this.ensureAccessToken(true);
+        return this.makeRequest(params, true);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Make sure an OAuth2 connection holds an access token that is not about to expire, requesting
+   * one from the token URL when needed
+   */
+  protected async ensureAccessToken(forceRefresh = false): Promise<void> {
+    if (this.connection.authType !== 'oauth2') return;
+
+    const authConfig = this.connection.authConfig || {};
+    const cached = tokenCache.get(this.tokenCacheKey());
+    if (!forceRefresh && cached?.accessToken !== authConfig.accessToken && this.isTokenUsable(cached)) {
+      this.connection.authConfig = { ...authConfig, ...cached };
+      return;
+    }
+    if (!forceRefresh && authConfig.accessToken && this.isTokenUsable(authConfig)) return;
+    if (!this.canRequestToken()) {
+      if (authConfig.accessToken) return;
+      throw new Error('OAuth2 connections need a token URL and either a refresh token or a client ID and secret');
+    }
+
+    // Concurrent requests share one token request
+    if (!this.tokenRequest) {
+      this.tokenRequest = this.requestToken().finally(() => {
+        this.tokenRequest = undefined;
+      });
+    }
+    await this.tokenRequest;
+  }
+
+  private canRequestToken(): boolean {
+    const authConfig = this.connection.authConfig;
+    return this.connection.authType === 'oauth2' && !!authConfig?.tokenUrl &&
+      (!!authConfig.refreshToken || (!!authConfig.clientId && !!authConfig.clientSecret));
+  }
+
+  private isTokenUsable(tokens?: OAuthTokens): boolean {
+    if (!tokens?.accessToken) return false;
+    // Tokens without an expiry are used until the API rejects them
+    return !tokens.expiresAt || new Date(tokens.expiresAt).getTime() - TOKEN_EXPIRY_MARGIN_MS > Date.now();
+  }
+
+  private tokenCacheKey(): string {
+    const authConfig = this.connection.authConfig || {};
+    return `${this.connection.id}|${authConfig.tokenUrl}|${authConfig.clientId}`;
+  }
+
+  /**
+   * Request an access token with the refresh-token grant, or the client-credentials grant when
+   * the connection has no refresh token
+   */
+  private async requestToken(): Promise<void> {
+    const authConfig = this.connection.authConfig!;
+    const form = new URLSearchParams();
+    if (authConfig.refreshToken) {
+      form.set('grant_type', 'refresh_token');
+      form.set('refresh_token', authConfig.refreshToken);
+    } else {
+      form.set('grant_type', 'client_credentials');
+    }
+    if (authConfig.scope) {
+      form.set('scope', authConfig.scope);
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+      'User-Agent': this.options.userAgent!
+    };
+    if (authConfig.clientId && authConfig.clientSecret && authConfig.clientAuthMethod !== 'body') {
+      const credentials = `${encodeURIComponent(authConfig.clientId)}:${encodeURIComponent(authConfig.clientSecret)}`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else if (authConfig.clientId) {
+      form.set('client_id', authConfig.clientId);
+      if (authConfig.clientSecret) form.set('client_secret', authConfig.clientSecret);
+    }
+
+    const timeout = this.connection.timeout ?? this.options.timeout;
+    const response = await fetch(authConfig.tokenUrl!, {
+      method: 'POST',
+      headers,
+      body: form.toString(),
+      ...(timeout && { signal: AbortSignal.timeout(timeout) })
     });
+    const body = await response.json().catch(() => ({})) as Record<string, unknown>;
+    if (!response.ok || typeof body.access_token !== 'string') {
+      const reason = body.error_description || body.error || response.statusText;
+      throw new Error(`OAuth2 token request failed: ${response.status} ${reason}`);
+    }
+
+    const tokens: OAuthTokens = {
+      accessToken: body.access_token,
+      // Servers may rotate the refresh token
+      refreshToken: typeof body.refresh_token === 'string' ? body.refresh_token : authConfig.refreshToken,
+      expiresAt: body.expires_in ? new Date(Date.now() + Number(body.expires_in) * 1000).toISOString() : undefined
+    };
+    this.connection.authConfig = { ...authConfig, ...tokens };
+    tokenCache.set(this.tokenCacheKey(), tokens);
+    logger.info(`Obtained an access token for ${this.connection.name} with the ${form.get('grant_type')} grant`);
+
+    try {
+      await this.options.onTokenRefresh?.(this.connection.authConfig);
+    } catch (error) {
+      logger.error(`Failed to save the new tokens of ${this.connection.name}:`, error);
+    }
   }
 
   protected buildUrl(params: FetchParams): string {
@@ -0,0 +1,227 @@
+import { DuckDBInstance, DuckDBConnection, DuckDBValue } from '@duckdb/node-api';
+import { FileDatabaseConnector, toPlainFileValue } from './FileDatabaseConnector';
+import {
+  DatabaseSchema,
+  TableInfo,
+  ViewInfo,
+  ColumnInfo,
+  QueryResult,
+  ForeignKeyInfo,
+  IndexInfo
+} from '@/types/connector';
+import { logger } from '@/utils/logger';
+
+const DEFAULT_SCHEMA = 'main';
+
+export class DuckDBConnector extends FileDatabaseConnector {
+  private instance: DuckDBInstance | null = null;
+  private duckdb: DuckDBConnection | null = null;
+
+  async connect(): Promise<void> {
+    try {
+      const filePath = await this.resolveDatabaseFile();
+      // Queries are user-entered, so functions such as read_csv() must not reach other files
+      this.instance = await DuckDBInstance.create(filePath, {
+        access_mode: 'READ_ONLY',
+        enable_external_access: 'false',
+        lock_configuration: 'true'
+      });
+      this.duckdb = await this.instance.connect();
+      this.isConnected = true;
+
+      logger.info(`Opened DuckDB database file: ${this.connection.database}`);
+    } catch (error) {
+      this.close();
+      throw this.handleError(error, 'DuckDB connection');
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.instance) {
+      this.close();
+      logger.info(`Closed DuckDB database file: ${this.connection.database}`);
+    }
+  }
+
+  async executeQuery(query: string, params?: unknown[]): Promise<QueryResult> {
+    this.validateConnection();
+
+    try {
+      const startTime = Date.now();
+      const reader = await this.duckdb!.runAndReadAll(
+        this.normalizeQuery(query),
+        params && params.length > 0 ? params as DuckDBValue[] : undefined
+      );
+      const rows = reader.getRowsJS().map(row => row.map(toPlainFileValue));
+
+      return {
+        columns: reader.columnNames(),
+        rows,
+        rowCount: rows.length,
+        executionTime: Date.now() - startTime
+      };
+    } catch (error) {
+      throw this.handleError(error, 'Query execution');
+    }
+  }
+
+  async getDatabaseSchema(): Promise<DatabaseSchema> {
+    this.validateConnection();
+
+    try {
+      // One connection runs one statement at a time, so these run in sequence
+      const tableRows = await this.select(`
+        SELECT schema_name, table_name
+        FROM duckdb_tables()
+        WHERE NOT internal AND NOT temporary AND database_name = current_database()
+        ORDER BY schema_name, table_name
+      `);
+      const viewRows = await this.select(`
+        SELECT schema_name, view_name, sql
+        FROM duckdb_views()
+        WHERE NOT internal AND NOT temporary AND database_name = current_database()
+        ORDER BY schema_name, view_name
+      `);
+      const columnsByObject = await this.getColumns();
+      const constraints = await this.select(`
+        SELECT schema_name, table_name, constraint_type, constraint_name,
+               constraint_column_names, referenced_table, referenced_column_names
+        FROM duckdb_constraints()
+        WHERE constraint_type IN ('PRIMARY KEY', 'UNIQUE', 'FOREIGN KEY')
+          AND database_name = current_database()
+      `);
+      const indexRows = await this.select(`
+        SELECT schema_name, table_name, index_name, is_unique, is_primary, expressions
+        FROM duckdb_indexes()
+        WHERE database_name = current_database()
+      `);
+
+      const tables: TableInfo[] = [];
+      for (const [schema, table] of tableRows as [string, string][]) {
+        const key = `${schema}.${table}`;
+        const tableConstraints = constraints.filter(row => `${row[0]}.${row[1]}` === key);
+        const primaryKey = (tableConstraints.find(row => row[2] === 'PRIMARY KEY')?.[4] as string[] | undefined) || [];
+
+        const foreignKeys: ForeignKeyInfo[] = tableConstraints
+          .filter(row => row[2] === 'FOREIGN KEY')
+          .flatMap(row => (row[4] as string[]).map((columnName, position) => ({
+            columnName,
+            // Foreign keys cannot cross schemas in DuckDB
+            referencedTable: this.getTableName(schema, row[5] as string),
+            referencedColumn: (row[6] as string[])[position],
+            constraintName: row[3] as string
+          })));
+
+        const indexes: IndexInfo[] = [
+          ...tableConstraints
+            .filter(row => row[2] === 'PRIMARY KEY' || row[2] === 'UNIQUE')
+            .map(row => ({
+              name: row[3] as string,
+              columns: row[4] as string[],
+              isUnique: true,
+              isPrimary: row[2] === 'PRIMARY KEY'
+            })),
+          ...indexRows
+            .filter(row => `${row[0]}.${row[1]}` === key)
+            .map(row => ({
+              name: row[2] as string,
+              // Expressions are listed as "[col_a, col_b]"
+              columns: String(row[5]).replace(/^\[|\]$/g, '').split(',').map(column => column.trim()).filter(Boolean),
+              isUnique: !!row[3],
+              isPrimary: !!row[4]
+            }))
+        ];
+
+        const columns = (columnsByObject.get(key) || []).map(column => ({
+          ...column,
+          isPrimaryKey: primaryKey.includes(column.name),
+          isForeignKey: foreignKeys.some(fk => fk.columnName === column.name)
+        }));
+
+        const name = this.getTableName(schema, table);
+        tables.push({
+          name,
+          schema,
+          columns,
+          rowCount: await this.getTableCount(name),
+          primaryKey,
+          foreignKeys,
+          indexes
+        });
+      }
+
+      const views: ViewInfo[] = (viewRows as [string, string, string | null][]).map(([schema, view, sql]) => ({
+        name: this.getTableName(schema, view),
+        schema,
+        definition: sql || undefined,
+        columns: columnsByObject.get(`${schema}.${view}`) || []
+      }));
+
+      return { tables, views };
+    } catch (error) {
+      throw this.handleError(error, 'Schema discovery');
+    }
+  }
+
+  private async getColumns(): Promise<Map<string, ColumnInfo[]>> {
+    const rows = await this.select(`
+      SELECT table_schema, table_name, column_name, data_type, is_nullable,
+             column_default, character_maximum_length, numeric_precision, numeric_scale
+      FROM information_schema.columns
+      WHERE table_catalog = current_database()
+      ORDER BY table_schema, table_name, ordinal_position
+    `);
+
+    const columns = new Map<string, ColumnInfo[]>();
+    for (const row of rows) {
+      const key = `${row[0]}.${row[1]}`;
+      const list = columns.get(key) || [];
+      list.push({
+        name: row[2] as string,
+        dataType: String(row[3]).toLowerCase(),
+        nullable: row[4] === 'YES',
+        defaultValue: row[5] ?? undefined,
+        maxLength: (row[6] as number | null) ?? undefined,
+        precision: (row[7] as number | null) ?? undefined,
+        scale: (row[8] as number | null) ?? undefined
+      });
+      columns.set(key, list);
+    }
+    return columns;
+  }
+
+  private async select(query: string): Promise<unknown[][]> {
+    const reader = await this.duckdb!.runAndReadAll(query);
+    return reader.getRowsJS().map(row => row.map(toPlainFileValue));
+  }
+
+  private getTableName(schema: string, table: string): string {
+    return schema === DEFAULT_SCHEMA ? table : `${schema}.${table}`;
+  }
+
+  /**
+   * Callers quote schema-qualified names as one identifier ("schema.table");
+   * DuckDB needs each part quoted separately
+   */
+  private normalizeQuery(query: string): string {
+    return query.replace(/('(?:[^']|'')*')|"((?:[^"]|"")+)"/g, (match, literal, quoted) => {
+      if (literal || !quoted.includes('.')) return match;
+      return this.escapeIdentifier(quoted.replace(/""/g, '"'));
+    });
+  }
+
+  protected escapeIdentifier(identifier: string): string {
+    return identifier
+      .split('.')
+      .map(part => `"${part.replace(/"/g, '""')}"`)
+      .join('.');
+  }
+
+  private close(): void {
+    this.duckdb?.closeSync();
+    this.instance?.closeSync();
+    this.duckdb = null;
+    this.instance = null;
+    this.isConnected = false;
+  }
+}
@@ -0,0 +1,132 @@
+import { createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { BaseDatabaseConnector } from './BaseDatabaseConnector';
+import { StorageService } from '@/services/storage/storageService';
+import { logger } from '@/utils/logger';
+
+export interface FileDatabaseOptions {
+  storageKey: string;
+  fileName: string;
+  fileSize?: number;
+  uploadId?: string;
+}
+
+// Uploaded files are kept in object storage; the drivers need a local path
+const CACHE_ROOT = path.join(os.tmpdir(), 'cirrus-database-files');
+
+/**
+ * Remove the local copy of a connection's database file
+ */
+export async function removeCachedDatabaseFile(connectionId: string): Promise<void> {
+  await fs.rm(path.join(CACHE_ROOT, connectionId), { recursive: true, force: true });
+}
+
+/**
+ * Local path of a connection's database file
+ */
+export function cachedDatabaseFilePath(connectionId: string, fileName: string): string {
+  return path.join(CACHE_ROOT, connectionId, path.basename(fileName));
+}
+
+/**
+ * Stream a database file from storage to a local path and return its size.
+ * The file is written under a temporary name first so a concurrent open never sees a partial file.
+ */
+export async function downloadDatabaseFile(storageKey: string, localPath: string): Promise<number> {
+  await fs.mkdir(path.dirname(localPath), { recursive: true });
+  const tempPath = `${localPath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await pipeline(await StorageService.getInstance().getFileStream(storageKey), createWriteStream(tempPath));
+    await fs.rename(tempPath, localPath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+  return (await fs.stat(localPath)).size;
+}
+
+/**
+ * First bytes of a local database file, enough to tell SQLite from DuckDB
+ */
+export async function readDatabaseFileHeader(localPath: string, length: number = 16): Promise<Buffer> {
+  const handle = await fs.open(localPath, 'r');
+  try {
+    const header = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(header, 0, length, 0);
+    return header.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Hand the local files cached under one id (such as an upload) to a connection
+ */
+export async function moveCachedDatabaseFiles(fromId: string, connectionId: string): Promise<void> {
+  await removeCachedDatabaseFile(connectionId);
+  await fs.rename(path.join(CACHE_ROOT, fromId), path.join(CACHE_ROOT, connectionId));
+}
+
+/**
+ * File Database Connector
+ * Base for databases that live in an uploaded file rather than on a server.
+ * The file is streamed from storage to a local cache and opened from there, and
+ * is always opened read-only.
+ */
+export abstract class FileDatabaseConnector extends BaseDatabaseConnector {
+  protected getFileOptions(): FileDatabaseOptions {
+    const options = (this.connection.additionalOptions || {}) as Partial<FileDatabaseOptions>;
+    if (!options.storageKey) {
+      throw new Error('Database file connection has no uploaded file');
+    }
+    return {
+      storageKey: options.storageKey,
+      fileName: options.fileName || path.basename(options.storageKey),
+      fileSize: options.fileSize,
+      uploadId: options.uploadId
+    };
+  }
+
+  /**
+   * Local path of the database file, streaming it from storage unless a
+   * copy of the same size is already cached
+   */
+  protected async resolveDatabaseFile(): Promise<string> {
+    const { storageKey, fileName, fileSize } = this.getFileOptions();
+    const localPath = cachedDatabaseFilePath(this.connection.id, fileName);
+
+    const cached = await fs.stat(localPath).catch(() => null);
+    if (cached && (fileSize === undefined || cached.size === fileSize)) {
+      return localPath;
+    }
+
+    await downloadDatabaseFile(storageKey, localPath);
+    logger.info(`Cached database file ${storageKey} at ${localPath}`);
+    return localPath;
+  }
+
+  protected escapeIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+}
+
+/**
+ * Values are converted to plain JSON values so imported rows can be stored
+ */
+export function toPlainFileValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+      ? Number(value)
+      : value.toString();
+  }
+  if (Buffer.isBuffer(value)) return value.toString('base64');
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+  if (Array.isArray(value)) return value.map(toPlainFileValue);
+  if (value instanceof Date) return value;
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, toPlainFileValue(child)]));
+  }
+  return value;
+}
@@ -0,0 +1,262 @@
+import {
+  DocumentNode,
+  GraphQLNamedType,
+  GraphQLSchema,
+  IntrospectionQuery,
+  Kind,
+  OperationDefinitionNode,
+  SelectionNode,
+  TypeInfo,
+  buildClientSchema,
+  getIntrospectionQuery,
+  getNamedType,
+  getNullableType,
+  isCompositeType,
+  isListType,
+  isObjectType,
+  parse,
+  validate,
+  visit,
+  visitWithTypeInfo
+} from 'graphql';
+import { BaseApiConnector } from './BaseApiConnector';
+import {
+  ApiConnection,
+  ApiConnectorOptions,
+  ApiQueryResult,
+  FetchParams,
+  GraphQLDataPathSuggestion,
+  GraphQLRequest
+} from '@/types/apiConnector';
+import { logger } from '@/utils/logger';
+
+interface GraphQLResponse {
+  data?: Record<string, unknown> | null;
+  errors?: Array<{ message: string }>;
+}
+
+// A Relay connection: { edges { node }, nodes, pageInfo { endCursor hasNextPage } }
+interface RelayConnection {
+  edges?: Array<{ node?: unknown }>;
+  nodes?: unknown[];
+  pageInfo?: { endCursor?: string | null; hasNextPage?: boolean };
+}
+
+interface ResolvedRecords {
+  records: unknown[];
+  connection?: RelayConnection;
+}
+
+function isRelayConnection(value: unknown): value is RelayConnection {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const candidate = value as RelayConnection;
+  return Array.isArray(candidate.nodes) || Array.isArray(candidate.edges);
+}
+
+function connectionRecords(connection: RelayConnection): unknown[] {
+  return connection.nodes ?? connection.edges!.map(edge => edge?.node ?? edge);
+}
+
+function responseKey(selection: SelectionNode): string | undefined {
+  return selection.kind === Kind.FIELD ? (selection.alias ?? selection.name).value : undefined;
+}
+
+export class GraphQLConnector extends BaseApiConnector {
+  private document?: DocumentNode;
+  private operation?: OperationDefinitionNode;
+
+  constructor(connection: ApiConnection, options?: ApiConnectorOptions) {
+    // GraphQL queries are always posted
+    super({ ...connection, method: 'POST' }, options);
+    logger.info(`Initializing GraphQL API connector for ${connection.name}`);
+  }
+
+  /**
+   * Suggest response data paths for the query from the introspected schema: every list the query
+   * selects outside other lists, with Relay connections whose pages the query can follow first
+   */
+  async suggestDataPaths(): Promise<GraphQLDataPathSuggestion[]> {
+    const schema = await this.introspectSchema();
+    const operation = this.getOperation();
+
+    const errors = validate(schema, this.document!);
+    if (errors.length > 0) {
+      throw new Error(`The query does not match the schema: ${errors.map(error => error.message).join('; ')}`);
+    }
+
+    const typeInfo = new TypeInfo(schema);
+    const suggestions: GraphQLDataPathSuggestion[] = [];
+    const path: string[] = [];
+    const lists: boolean[] = [];
+
+    visit(operation, visitWithTypeInfo(typeInfo, {
+      Field: {
+        enter: (node, _key, parent) => {
+          const type = typeInfo.getType();
+          const isList = !!type && isListType(getNullableType(type));
+          path.push((node.alias ?? node.name).value);
+
+          if (type && isList && !lists.includes(true) && isCompositeType(getNamedType(type))) {
+            const siblings = Array.isArray(parent) ? parent as SelectionNode[] : [];
+            suggestions.push({
+              dataPath: ['data', ...path].join('.'),
+              typeName: this.recordTypeName(node.name.value, getNamedType(type)),
+              paginated: ['edges', 'nodes'].includes(node.name.value) && this.selectsPageInfo(siblings) && this.declaresCursorVariable()
+            });
+          }
+          lists.push(isList);
+        },
+        leave: () => {
+          path.pop();
+          lists.pop();
+        }
+      }
+    }));
+
+    return suggestions.sort((a, b) =>
+      Number(b.paginated) - Number(a.paginated) || a.dataPath.split('.').length - b.dataPath.split('.').length
+    );
+  }
+
+  protected buildRequestBody(params: FetchParams): string | undefined {
+    const request = (params.body ?? this.connection.requestBody) as GraphQLRequest | undefined;
+    if (!request?.query) {
+      throw new Error('GraphQL connections need a query');
+    }
+
+    const variables = params.cursor
+      ? { ...request.variables, [this.cursorVariable()]: params.cursor }
+      : request.variables;
+    return JSON.stringify({ ...request, variables });
+  }
+
+  protected addPaginationParams(): void {
+    // Page cursors are passed as query variables, not URL parameters
+  }
+
+  protected parseResponse(response: unknown): ApiQueryResult {
+    const { data, errors } = response as GraphQLResponse;
+    if (errors?.length) {
+      const messages = errors.map(error => error.message).join('; ');
+      if (!data) {
+        throw new Error(`GraphQL request failed: ${messages}`);
+      }
+      logger.warn(`GraphQL query of ${this.connection.name} returned partial data: ${messages}`);
+    }
+
+    const dataPath = this.connection.responseMapping?.dataPath || this.connection.responseMapping?.recordsPath;
+    const { records, connection } = dataPath ? this.resolveDataPath(response, dataPath) : this.findRecords(data);
+
+    const pageInfo = connection?.pageInfo;
+    if (!pageInfo?.hasNextPage || !pageInfo.endCursor) {
+      return { data: records, hasMore: false };
+    }
+    if (!this.declaresCursorVariable()) {
+      logger.warn(`${this.connection.name} has more pages, but its query does not declare $${this.cursorVariable()} to follow them`);
+      return { data: records, hasMore: false };
+    }
+    return { data: records, hasMore: true, nextCursor: pageInfo.endCursor };
+  }
+
+  protected getNextPageParams(currentParams: FetchParams, result: ApiQueryResult): FetchParams {
+    return { ...currentParams, cursor: result.nextCursor };
+  }
+
+  protected extractSampleData(data: unknown): unknown {
+    return this.parseResponse(data).data.slice(0, 3);
+  }
+
+  private async introspectSchema(): Promise<GraphQLSchema> {
+    await this.checkRateLimit();
+    const response = await this.makeRequest({ body: { query: getIntrospectionQuery() } });
+    const result = await response.json() as GraphQLResponse;
+    if (!result.data) {
+      const reason = result.errors?.map(error => error.message).join('; ') || 'no schema returned';
+      throw new Error(`Schema introspection failed: ${reason}`);
+    }
+    return buildClientSchema(result.data as unknown as IntrospectionQuery);
+  }
+
+  /**
+   * Records at a configured data path. The path may point at a Relay connection, its nodes, or its
+   * edges, whose nodes become the records.
+   */
+  private resolveDataPath(response: unknown, dataPath: string): ResolvedRecords {
+    const value = this.extractData(response, dataPath);
+    if (isRelayConnection(value)) {
+      return { records: connectionRecords(value), connection: value };
+    }
+
+    const segments = dataPath.split('.');
+    const parent = this.extractData(response, segments.slice(0, -1).join('.'));
+    const connection = isRelayConnection(parent) ? parent : undefined;
+    if (!Array.isArray(value)) {
+      return { records: [], connection };
+    }
+    const records = segments[segments.length - 1] === 'edges'
+      ? (value as RelayConnection['edges'])!.map(edge => edge?.node ?? edge)
+      : value;
+    return { records, connection };
+  }
+
+  /**
+   * Records of a query without a data path: the first Relay connection or list in the response
+   */
+  private findRecords(value: unknown): ResolvedRecords {
+    if (isRelayConnection(value)) {
+      return { records: connectionRecords(value), connection: value };
+    }
+    if (Array.isArray(value)) {
+      return { records: value };
+    }
+    if (value && typeof value === 'object') {
+      for (const child of Object.values(value)) {
+        const found = this.findRecords(child);
+        if (found.records.length > 0 || found.connection) return found;
+      }
+    }
+    return { records: [] };
+  }
+
+  private getOperation(): OperationDefinitionNode {
+    if (this.operation) return this.operation;
+
+    const request = this.connection.requestBody as GraphQLRequest | undefined;
+    try {
+      this.document = parse(request?.query ?? '');
+    } catch (error) {
+      throw new Error(`Invalid GraphQL query: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const operation = this.document.definitions.find((definition): definition is OperationDefinitionNode =>
+      definition.kind === Kind.OPERATION_DEFINITION &&
+      (!request?.operationName || definition.name?.value === request.operationName)
+    );
+    if (!operation) {
+      throw new Error(`The query has no operation${request?.operationName ? ` named ${request.operationName}` : ''}`);
+    }
+    this.operation = operation;
+    return operation;
+  }
+
+  private cursorVariable(): string {
+    return this.connection.paginationConfig?.cursorParam || 'after';
+  }
+
+  private declaresCursorVariable(): boolean {
+    const variable = this.cursorVariable();
+    return !!this.getOperation().variableDefinitions?.some(definition => definition.variable.name.value === variable);
+  }
+
+  private selectsPageInfo(selections: readonly SelectionNode[]): boolean {
+    const pageInfo = selections.find(selection => responseKey(selection) === 'pageInfo');
+    const fields = pageInfo?.kind === Kind.FIELD ? pageInfo.selectionSet?.selections.map(responseKey) ?? [] : [];
+    return fields.includes('endCursor') && fields.includes('hasNextPage');
+  }
+
+  private recordTypeName(fieldName: string, type: GraphQLNamedType): string {
+    // Edges wrap the records in their node field
+    const node = fieldName === 'edges' && isObjectType(type) ? type.getFields().node : undefined;
+    return node ? getNamedType(node.type).name : type.name;
+  }
+}
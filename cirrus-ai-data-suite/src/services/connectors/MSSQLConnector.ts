@@ -0,0 +1,347 @@
+import { ConnectionPool, config as MSSQLConfig, IOptions } from 'mssql';
+import { BaseDatabaseConnector } from './BaseDatabaseConnector';
+import {
+  DatabaseSchema,
+  TableInfo,
+  ViewInfo,
+  ColumnInfo,
+  QueryResult,
+  ForeignKeyInfo,
+  IndexInfo
+} from '@/types/connector';
+import { logger } from '@/utils/logger';
+
+// Tables in the default schema are referred to by bare name, others as schema.table
+const DEFAULT_SCHEMA = 'dbo';
+
+interface ColumnRow {
+  TABLE_SCHEMA: string;
+  TABLE_NAME: string;
+  COLUMN_NAME: string;
+  DATA_TYPE: string;
+  IS_NULLABLE: string;
+  COLUMN_DEFAULT: string | null;
+  CHARACTER_MAXIMUM_LENGTH: number | null;
+  NUMERIC_PRECISION: number | null;
+  NUMERIC_SCALE: number | null;
+}
+
+export class MSSQLConnector extends BaseDatabaseConnector {
+  private pool: ConnectionPool | null = null;
+
+  async connect(): Promise<void> {
+    try {
+      // Ensure password is either a non-empty string or undefined
+      const password = this.connection.password && this.connection.password.trim() !== ''
+        ? this.connection.password
+        : undefined;
+
+      const { options: additionalOptions, ...additionalConfig } = (this.connection.additionalOptions || {}) as {
+        options?: IOptions;
+      } & Partial<MSSQLConfig>;
+
+      const config: MSSQLConfig = {
+        server: this.connection.host,
+        port: this.connection.port,
+        database: this.connection.database,
+        user: this.connection.username,
+        password,
+        connectionTimeout: this.options.timeout,
+        requestTimeout: this.options.timeout,
+        pool: { max: this.options.poolSize },
+        options: {
+          encrypt: !!this.connection.ssl,
+          // Self-signed certificates are the norm for on-premise SQL Server
+          trustServerCertificate: true,
+          ...additionalOptions
+        },
+        ...additionalConfig
+      };
+
+      this.pool = await new ConnectionPool(config).connect();
+      this.isConnected = true;
+
+      logger.info(`Connected to SQL Server database: ${this.connection.database}`);
+    } catch (error) {
+      throw this.handleError(error, 'SQL Server connection');
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.pool) {
+      await this.pool.close();
+      this.pool = null;
+      this.isConnected = false;
+      logger.info(`Disconnected from SQL Server database: ${this.connection.database}`);
+    }
+  }
+
+  async executeQuery(query: string, params?: unknown[]): Promise<QueryResult> {
+    this.validateConnection();
+
+    try {
+      const request = this.pool!.request();
+      (params || []).forEach((value, index) => {
+        request.input(`p${index + 1}`, value);
+      });
+
+      const startTime = Date.now();
+      const result = await request.query(this.normalizeQuery(query));
+      const executionTime = Date.now() - startTime;
+
+      // Handle different result types
+      if (result.recordset) {
+        const columns = Object.values(result.recordset.columns)
+          .sort((a, b) => a.index - b.index)
+          .map(column => column.name);
+        return {
+          columns,
+          rows: result.recordset.map(row => columns.map(column => (row as Record<string, unknown>)[column])),
+          rowCount: result.recordset.length,
+          executionTime
+        };
+      }
+
+      // For non-SELECT queries (INSERT, UPDATE, DELETE)
+      return {
+        columns: [],
+        rows: [],
+        rowCount: result.rowsAffected.reduce((sum, count) => sum + count, 0),
+        executionTime
+      };
+    } catch (error) {
+      throw this.handleError(error, 'Query execution');
+    }
+  }
+
+  async getDatabaseSchema(): Promise<DatabaseSchema> {
+    this.validateConnection();
+
+    try {
+      const objectsResult = await this.pool!.request().query(`
+        SELECT
+          s.name AS schema_name,
+          o.name AS object_name,
+          o.type AS object_type,
+          m.definition,
+          (SELECT SUM(p.rows) FROM sys.partitions p WHERE p.object_id = o.object_id AND p.index_id IN (0, 1)) AS row_count,
+          (SELECT SUM(a.total_pages) * 8192 FROM sys.partitions p
+             JOIN sys.allocation_units a ON a.container_id = p.partition_id
+             WHERE p.object_id = o.object_id) AS size_bytes
+        FROM sys.objects o
+        JOIN sys.schemas s ON s.schema_id = o.schema_id
+        LEFT JOIN sys.sql_modules m ON m.object_id = o.object_id
+        WHERE o.type IN ('U', 'V') AND o.is_ms_shipped = 0
+        ORDER BY s.name, o.name
+      `);
+
+      const [columnsByObject, primaryKeys, foreignKeys, indexes] = await Promise.all([
+        this.getColumns(),
+        this.getPrimaryKeys(),
+        this.getForeignKeys(),
+        this.getIndexes()
+      ]);
+
+      const tables: TableInfo[] = [];
+      const views: ViewInfo[] = [];
+
+      for (const object of objectsResult.recordset) {
+        const key = `${object.schema_name}.${object.object_name}`;
+        const primaryKey = primaryKeys.get(key) || [];
+        const tableForeignKeys = foreignKeys.get(key) || [];
+        const columns = (columnsByObject.get(key) || []).map(column => ({
+          ...column,
+          isPrimaryKey: primaryKey.includes(column.name),
+          isForeignKey: tableForeignKeys.some(fk => fk.columnName === column.name)
+        }));
+
+        if (object.object_type.trim() === 'V') {
+          views.push({
+            name: this.getTableName(object.schema_name, object.object_name),
+            schema: object.schema_name,
+            definition: object.definition || undefined,
+            columns
+          });
+          continue;
+        }
+
+        tables.push({
+          name: this.getTableName(object.schema_name, object.object_name),
+          schema: object.schema_name,
+          columns,
+          rowCount: Number(object.row_count) || 0,
+          sizeInBytes: Number(object.size_bytes) || 0,
+          primaryKey,
+          foreignKeys: tableForeignKeys,
+          indexes: indexes.get(key) || []
+        });
+      }
+
+      return { tables, views };
+    } catch (error) {
+      throw this.handleError(error, 'Schema discovery');
+    }
+  }
+
+  private async getColumns(): Promise<Map<string, ColumnInfo[]>> {
+    const result = await this.pool!.request().query<ColumnRow>(`
+      SELECT
+        TABLE_SCHEMA,
+        TABLE_NAME,
+        COLUMN_NAME,
+        DATA_TYPE,
+        IS_NULLABLE,
+        COLUMN_DEFAULT,
+        CHARACTER_MAXIMUM_LENGTH,
+        NUMERIC_PRECISION,
+        NUMERIC_SCALE
+      FROM INFORMATION_SCHEMA.COLUMNS
+      ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION
+    `);
+
+    const columns = new Map<string, ColumnInfo[]>();
+    for (const col of result.recordset) {
+      const key = `${col.TABLE_SCHEMA}.${col.TABLE_NAME}`;
+      const list = columns.get(key) || [];
+      list.push({
+        name: col.COLUMN_NAME,
+        dataType: col.DATA_TYPE,
+        nullable: col.IS_NULLABLE === 'YES',
+        defaultValue: col.COLUMN_DEFAULT ?? undefined,
+        // -1 means (max)
+        maxLength: col.CHARACTER_MAXIMUM_LENGTH ?? undefined,
+        precision: col.NUMERIC_PRECISION ?? undefined,
+        scale: col.NUMERIC_SCALE ?? undefined
+      });
+      columns.set(key, list);
+    }
+    return columns;
+  }
+
+  private async getPrimaryKeys(): Promise<Map<string, string[]>> {
+    const result = await this.pool!.request().query(`
+      SELECT
+        SCHEMA_NAME(t.schema_id) AS schema_name,
+        t.name AS table_name,
+        c.name AS column_name
+      FROM sys.indexes i
+      JOIN sys.tables t ON t.object_id = i.object_id
+      JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+      JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+      WHERE i.is_primary_key = 1
+      ORDER BY schema_name, table_name, ic.key_ordinal
+    `);
+
+    const primaryKeys = new Map<string, string[]>();
+    for (const row of result.recordset) {
+      const key = `${row.schema_name}.${row.table_name}`;
+      primaryKeys.set(key, [...(primaryKeys.get(key) || []), row.column_name]);
+    }
+    return primaryKeys;
+  }
+
+  private async getForeignKeys(): Promise<Map<string, ForeignKeyInfo[]>> {
+    const result = await this.pool!.request().query(`
+      SELECT
+        SCHEMA_NAME(pt.schema_id) AS schema_name,
+        pt.name AS table_name,
+        pc.name AS column_name,
+        SCHEMA_NAME(rt.schema_id) AS referenced_schema,
+        rt.name AS referenced_table,
+        rc.name AS referenced_column,
+        fk.name AS constraint_name
+      FROM sys.foreign_keys fk
+      JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+      JOIN sys.tables pt ON pt.object_id = fkc.parent_object_id
+      JOIN sys.columns pc ON pc.object_id = fkc.parent_object_id AND pc.column_id = fkc.parent_column_id
+      JOIN sys.tables rt ON rt.object_id = fkc.referenced_object_id
+      JOIN sys.columns rc ON rc.object_id = fkc.referenced_object_id AND rc.column_id = fkc.referenced_column_id
+    `);
+
+    const foreignKeys = new Map<string, ForeignKeyInfo[]>();
+    for (const fk of result.recordset) {
+      const key = `${fk.schema_name}.${fk.table_name}`;
+      foreignKeys.set(key, [...(foreignKeys.get(key) || []), {
+        columnName: fk.column_name,
+        referencedTable: this.getTableName(fk.referenced_schema, fk.referenced_table),
+        referencedColumn: fk.referenced_column,
+        constraintName: fk.constraint_name
+      }]);
+    }
+    return foreignKeys;
+  }
+
+  private async getIndexes(): Promise<Map<string, IndexInfo[]>> {
+    const result = await this.pool!.request().query(`
+      SELECT
+        SCHEMA_NAME(t.schema_id) AS schema_name,
+        t.name AS table_name,
+        i.name AS index_name,
+        i.is_unique,
+        i.is_primary_key,
+        c.name AS column_name
+      FROM sys.indexes i
+      JOIN sys.tables t ON t.object_id = i.object_id
+      JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+      JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+      WHERE i.name IS NOT NULL AND ic.is_included_column = 0
+      ORDER BY schema_name, table_name, index_name, ic.key_ordinal
+    `);
+
+    const indexes = new Map<string, IndexInfo[]>();
+    for (const row of result.recordset) {
+      const key = `${row.schema_name}.${row.table_name}`;
+      const list = indexes.get(key) || [];
+      let index = list.find(candidate => candidate.name === row.index_name);
+      if (!index) {
+        index = { name: row.index_name, columns: [], isUnique: row.is_unique, isPrimary: row.is_primary_key };
+        list.push(index);
+      }
+      index.columns.push(row.column_name);
+      indexes.set(key, list);
+    }
+    return indexes;
+  }
+
+  private getTableName(schema: string, table: string): string {
+    return schema === DEFAULT_SCHEMA ? table : `${schema}.${table}`;
+  }
+
+  /**
+   * Shared callers write portable SQL: $1 or ? placeholders, "quoted" identifiers
+   * and a trailing LIMIT. Translate those to T-SQL.
+   */
+  private normalizeQuery(query: string): string {
+    let placeholderIndex = 0;
+    // Only rewrite outside string literals
+    let normalized = query.replace(/('(?:[^']|'')*')|"((?:[^"]|"")+)"|\$(\d+)|\?/g, (match, literal, quoted, position) => {
+      if (literal) return literal;
+      if (quoted) return this.escapeIdentifier(quoted.replace(/""/g, '"'));
+      if (position) return `@p${position}`;
+      placeholderIndex += 1;
+      return `@p${placeholderIndex}`;
+    });
+
+    const limit = normalized.match(/\s+LIMIT\s+(\d+)(?:\s+OFFSET\s+(\d+))?\s*;?\s*$/i);
+    if (limit) {
+      normalized = normalized.slice(0, limit.index);
+      const hasOrderBy = /\bORDER\s+BY\b[^)]*$/i.test(normalized);
+      normalized += `${hasOrderBy ? '' : ' ORDER BY (SELECT NULL)'} OFFSET ${limit[2] || 0} ROWS FETCH NEXT ${limit[1]} ROWS ONLY`;
+    }
+
+    return normalized;
+  }
+
+  protected buildSelectQuery(tableName: string, limit: number, offset: number): string {
+    // OFFSET/FETCH requires an ORDER BY; SELECT NULL keeps the table's natural order
+    return `SELECT * FROM ${this.escapeIdentifier(tableName)} ORDER BY (SELECT NULL) OFFSET ${offset} ROWS FETCH NEXT ${limit} ROWS ONLY`;
+  }
+
+  protected escapeIdentifier(identifier: string): string {
+    // SQL Server uses brackets; schema-qualified names are escaped part by part
+    return identifier
+      .split('.')
+      .map(part => `[${part.replace(/]/g, ']]')}]`)
+      .join('.');
+  }
+}
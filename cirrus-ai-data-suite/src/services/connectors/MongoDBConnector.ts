@@ -0,0 +1,365 @@
+import { MongoClient, MongoClientOptions, Db, Document, BSON } from 'mongodb';
+import { BaseDatabaseConnector } from './BaseDatabaseConnector';
+import {
+  DatabaseSchema,
+  TableInfo,
+  ViewInfo,
+  ColumnInfo,
+  QueryResult,
+  IndexInfo,
+  MongoQuery
+} from '@/types/connector';
+import { flattenDocument, flattenDocuments, isPlainObject } from '@/utils/documentFlattener';
+import { logger } from '@/utils/logger';
+
+// Documents sampled per collection to infer its columns
+const SCHEMA_SAMPLE_SIZE = 100;
+
+// Stages and operators that write data or run server-side JavaScript
+const FORBIDDEN_OPERATORS = ['$out', '$merge', '$function', '$accumulator', '$where'];
+
+/**
+ * Parse and validate a JSON query. Throws if the query is malformed or could
+ * modify data.
+ */
+export function parseMongoQuery(query: string): MongoQuery {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(query);
+  } catch (error) {
+    throw new Error(`Query must be valid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new Error('Query must be a JSON object with a "collection" and a "filter" or "pipeline"');
+  }
+
+  const spec = parsed as Partial<MongoQuery>;
+  if (typeof spec.collection !== 'string' || spec.collection.trim() === '') {
+    throw new Error('Query must name a "collection"');
+  }
+  if (spec.collection.startsWith('system.')) {
+    throw new Error('System collections cannot be queried');
+  }
+  if (spec.pipeline !== undefined && (!Array.isArray(spec.pipeline) || !spec.pipeline.every(isPlainObject))) {
+    throw new Error('"pipeline" must be an array of stage objects');
+  }
+  if (spec.pipeline !== undefined && (spec.filter !== undefined || spec.projection !== undefined || spec.sort !== undefined)) {
+    throw new Error('Use either "pipeline" or "filter"/"projection"/"sort", not both');
+  }
+  for (const key of ['filter', 'projection', 'sort'] as const) {
+    if (spec[key] !== undefined && !isPlainObject(spec[key])) {
+      throw new Error(`"${key}" must be an object`);
+    }
+  }
+  for (const key of ['skip', 'limit'] as const) {
+    if (spec[key] !== undefined && (!Number.isInteger(spec[key]) || spec[key]! < 0)) {
+      throw new Error(`"${key}" must be a non-negative integer`);
+    }
+  }
+
+  const operator = findForbiddenOperator(parsed);
+  if (operator) {
+    throw new Error(`Query contains forbidden operator: ${operator}`);
+  }
+
+  return spec as MongoQuery;
+}
+
+function findForbiddenOperator(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findForbiddenOperator(item);
+      if (found) return found;
+    }
+  } else if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      if (FORBIDDEN_OPERATORS.includes(key)) return key;
+      const found = findForbiddenOperator(child);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Type name of a flattened value, using MongoDB's type aliases
+ */
+function getValueType(value: unknown): string {
+  if (value instanceof Date) return 'date';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'double';
+  if (typeof value === 'boolean') return 'bool';
+  if (typeof value === 'bigint') return 'long';
+  if (typeof value === 'object' && value !== null && '_bsontype' in value) {
+    const bsonType = String((value as { _bsontype: string })._bsontype);
+    return {
+      ObjectId: 'objectId',
+      ObjectID: 'objectId',
+      Decimal128: 'decimal',
+      Long: 'long',
+      Int32: 'int',
+      Double: 'double',
+      Binary: 'binData',
+      Timestamp: 'timestamp',
+      BSONRegExp: 'regex'
+    }[bsonType] || bsonType.toLowerCase();
+  }
+  return typeof value;
+}
+
+/**
+ * BSON values are converted to plain JSON values so imported data can be
+ * stored and shown like rows from a relational database
+ */
+function toPlainValue(value: unknown): unknown {
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value !== 'object' || value === null || !('_bsontype' in value)) return value;
+
+  const bsonValue = value as { _bsontype: string; toHexString?: () => string; toNumber?: () => number; toString: (encoding?: string) => string };
+  switch (bsonValue._bsontype) {
+    case 'ObjectId':
+    case 'ObjectID':
+      return bsonValue.toHexString ? bsonValue.toHexString() : bsonValue.toString();
+    case 'Long':
+      return bsonValue.toNumber ? bsonValue.toNumber() : Number(bsonValue.toString());
+    case 'Int32':
+    case 'Double':
+      return Number(bsonValue.toString());
+    case 'Binary':
+      return bsonValue.toString('base64');
+    default:
+      return bsonValue.toString();
+  }
+}
+
+export class MongoDBConnector extends BaseDatabaseConnector {
+  private mongoClient: MongoClient | null = null;
+  private db: Db | null = null;
+
+  async connect(): Promise<void> {
+    try {
+      const { connectionString, ...additionalOptions } = (this.connection.additionalOptions || {}) as {
+        connectionString?: string;
+      } & MongoClientOptions;
+
+      const options: MongoClientOptions = {
+        tls: !!this.connection.ssl,
+        maxPoolSize: this.options.poolSize,
+        connectTimeoutMS: this.options.timeout,
+        serverSelectionTimeoutMS: this.options.timeout,
+        ...additionalOptions
+      };
+
+      // A connection string (e.g. mongodb+srv:// for Atlas) takes precedence over host and port
+      this.mongoClient = new MongoClient(connectionString || this.buildConnectionString(), options);
+      await this.mongoClient.connect();
+
+      this.db = this.mongoClient.db(this.connection.database);
+      await this.db.command({ ping: 1 });
+      this.isConnected = true;
+
+      logger.info(`Connected to MongoDB database: ${this.connection.database}`);
+    } catch (error) {
+      if (this.mongoClient) {
+        await this.mongoClient.close().catch(() => undefined);
+        this.mongoClient = null;
+        this.db = null;
+      }
+      throw this.handleError(error, 'MongoDB connection');
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.mongoClient) {
+      await this.mongoClient.close();
+      this.mongoClient = null;
+      this.db = null;
+      this.isConnected = false;
+      logger.info(`Disconnected from MongoDB database: ${this.connection.database}`);
+    }
+  }
+
+  async testConnection(): Promise<{ success: boolean; message?: string }> {
+    // connect() already pings the server; there is no SQL to run
+    try {
+      await this.connect();
+      await this.disconnect();
+      return { success: true, message: 'Connection successful' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Connection test failed for ${this.connection.type}:`, error);
+      return { success: false, message };
+    }
+  }
+
+  /**
+   * Run a JSON query (see MongoQuery) in place of SQL. Results are flattened
+   * into columns, so nested fields come back as `address.city` or `tags[0]`.
+   */
+  async executeQuery(query: string): Promise<QueryResult> {
+    this.validateConnection();
+
+    try {
+      const spec = parseMongoQuery(query);
+      const collection = this.db!.collection(spec.collection);
+
+      const startTime = Date.now();
+      let documents: Document[];
+      if (spec.pipeline) {
+        const pipeline = BSON.EJSON.deserialize(spec.pipeline, { relaxed: true }) as Document[];
+        if (spec.skip) pipeline.push({ $skip: spec.skip });
+        if (spec.limit) pipeline.push({ $limit: spec.limit });
+        documents = await collection.aggregate(pipeline, { maxTimeMS: this.options.timeout }).toArray();
+      } else {
+        // Extended JSON lets filters use values such as { "$oid": "..." } and { "$date": "..." }
+        const filter = BSON.EJSON.deserialize(spec.filter || {}, { relaxed: true });
+        documents = await collection.find(filter, {
+          projection: spec.projection,
+          sort: spec.sort,
+          skip: spec.skip,
+          limit: spec.limit,
+          maxTimeMS: this.options.timeout
+        }).toArray();
+      }
+
+      return {
+        ...this.documentsToQueryResult(documents),
+        executionTime: Date.now() - startTime
+      };
+    } catch (error) {
+      throw this.handleError(error, 'Query execution');
+    }
+  }
+
+  async getTableData(tableName: string, limit: number = 100, offset: number = 0): Promise<QueryResult> {
+    this.validateConnection();
+
+    try {
+      const documents = await this.db!.collection(tableName)
+        .find({}, { skip: offset, limit, maxTimeMS: this.options.timeout })
+        .toArray();
+      return this.documentsToQueryResult(documents);
+    } catch (error) {
+      throw this.handleError(error, 'Table data retrieval');
+    }
+  }
+
+  async getTableCount(tableName: string): Promise<number> {
+    this.validateConnection();
+
+    try {
+      return await this.db!.collection(tableName).countDocuments({}, { maxTimeMS: this.options.timeout });
+    } catch (error) {
+      throw this.handleError(error, 'Row count');
+    }
+  }
+
+  async getDatabaseSchema(): Promise<DatabaseSchema> {
+    this.validateConnection();
+
+    try {
+      const collections = await this.db!.listCollections({}, { nameOnly: false }).toArray();
+      const tables: TableInfo[] = [];
+      const views: ViewInfo[] = [];
+
+      for (const info of collections) {
+        if (info.name.startsWith('system.')) continue;
+
+        const collection = this.db!.collection(info.name);
+        // Collections have no fixed schema; infer columns from a random sample
+        const sample = await collection
+          .aggregate([{ $sample: { size: SCHEMA_SAMPLE_SIZE } }], { maxTimeMS: this.options.timeout })
+          .toArray();
+        const columns = this.inferColumns(sample);
+
+        if (info.type === 'view') {
+          const options = (info.options || {}) as { viewOn?: string; pipeline?: Document[] };
+          views.push({
+            name: info.name,
+            definition: JSON.stringify({ viewOn: options.viewOn, pipeline: options.pipeline || [] }),
+            columns
+          });
+          continue;
+        }
+
+        const indexes: IndexInfo[] = (await collection.indexes()).map(index => ({
+          name: index.name || Object.keys(index.key).join('_'),
+          columns: Object.keys(index.key),
+          isUnique: !!index.unique || index.name === '_id_',
+          isPrimary: index.name === '_id_'
+        }));
+
+        tables.push({
+          name: info.name,
+          columns,
+          rowCount: await collection.estimatedDocumentCount({ maxTimeMS: this.options.timeout }),
+          primaryKey: ['_id'],
+          foreignKeys: [],
+          indexes
+        });
+      }
+
+      return { tables, views };
+    } catch (error) {
+      throw this.handleError(error, 'Schema discovery');
+    }
+  }
+
+  /**
+   * Build the column list for a collection from sampled documents. A field is
+   * nullable when it is null or missing in any sampled document.
+   */
+  private inferColumns(documents: Document[]): ColumnInfo[] {
+    const fields = new Map<string, { types: Set<string>; present: number; nulls: number }>();
+
+    for (const document of documents) {
+      for (const [path, value] of Object.entries(flattenDocument(document))) {
+        const field = fields.get(path) || { types: new Set<string>(), present: 0, nulls: 0 };
+        field.present++;
+        if (value === null) {
+          field.nulls++;
+        } else {
+          field.types.add(getValueType(value));
+        }
+        fields.set(path, field);
+      }
+    }
+
+    return Array.from(fields.entries()).map(([name, field]) => {
+      const types = Array.from(field.types);
+      let dataType = types.length === 1 ? types[0] : 'mixed';
+      if (types.length === 2 && types.includes('int') && types.includes('double')) {
+        dataType = 'double';
+      } else if (types.length === 0) {
+        dataType = 'null';
+      }
+
+      return {
+        name,
+        dataType,
+        nullable: field.nulls > 0 || field.present < documents.length,
+        isPrimaryKey: name === '_id',
+        isForeignKey: false
+      };
+    });
+  }
+
+  private documentsToQueryResult(documents: Document[]): QueryResult {
+    const { columns, rows } = flattenDocuments(documents);
+    return {
+      columns,
+      rows: rows.map(row => row.map(toPlainValue)),
+      rowCount: rows.length
+    };
+  }
+
+  private buildConnectionString(): string {
+    const password = this.connection.password && this.connection.password.trim() !== ''
+      ? this.connection.password
+      : undefined;
+    const credentials = this.connection.username
+      ? `${encodeURIComponent(this.connection.username)}${password ? `:${encodeURIComponent(password)}` : ''}@`
+      : '';
+    return `mongodb://${credentials}${this.connection.host}:${this.connection.port}/${encodeURIComponent(this.connection.database)}`;
+  }
+}
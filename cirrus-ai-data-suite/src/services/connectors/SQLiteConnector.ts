@@ -0,0 +1,219 @@
+import Database from 'better-sqlite3';
+import { FileDatabaseConnector, toPlainFileValue } from './FileDatabaseConnector';
+import {
+  DatabaseSchema,
+  TableInfo,
+  ViewInfo,
+  ColumnInfo,
+  QueryResult,
+  ForeignKeyInfo,
+  IndexInfo
+} from '@/types/connector';
+import { logger } from '@/utils/logger';
+
+interface TableInfoRow {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+interface ForeignKeyRow {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  to: string | null;
+}
+
+interface IndexListRow {
+  name: string;
+  unique: number;
+  origin: 'c' | 'u' | 'pk';
+}
+
+export class SQLiteConnector extends FileDatabaseConnector {
+  private db: Database.Database | null = null;
+
+  async connect(): Promise<void> {
+    try {
+      const filePath = await this.resolveDatabaseFile();
+      this.db = new Database(filePath, {
+        readonly: true,
+        fileMustExist: true,
+        timeout: this.options.timeout
+      });
+      // Reading the schema fails early when the file is not a SQLite database
+      this.db.prepare('SELECT COUNT(*) FROM sqlite_master').get();
+      this.isConnected = true;
+
+      logger.info(`Opened SQLite database file: ${this.connection.database}`);
+    } catch (error) {
+      if (this.db) {
+        this.db.close();
+        this.db = null;
+      }
+      throw this.handleError(error, 'SQLite connection');
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+      this.isConnected = false;
+      logger.info(`Closed SQLite database file: ${this.connection.database}`);
+    }
+  }
+
+  async executeQuery(query: string, params?: unknown[]): Promise<QueryResult> {
+    this.validateConnection();
+
+    try {
+      const startTime = Date.now();
+      const bound = this.bindPositionalParams(query, params);
+      const statement = this.db!.prepare(bound.query);
+
+      if (!statement.reader) {
+        const info = statement.run(...bound.params);
+        return { columns: [], rows: [], rowCount: info.changes, executionTime: Date.now() - startTime };
+      }
+
+      const columns = statement.columns().map(column => column.name);
+      const rows = (statement.raw(true).all(...bound.params) as unknown[][])
+        .map(row => row.map(toPlainFileValue));
+
+      return {
+        columns,
+        rows,
+        rowCount: rows.length,
+        executionTime: Date.now() - startTime
+      };
+    } catch (error) {
+      throw this.handleError(error, 'Query execution');
+    }
+  }
+
+  async getDatabaseSchema(): Promise<DatabaseSchema> {
+    this.validateConnection();
+
+    try {
+      const objects = this.db!.prepare(`
+        SELECT name, type, sql
+        FROM sqlite_master
+        WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+        ORDER BY name
+      `).all() as { name: string; type: 'table' | 'view'; sql: string | null }[];
+
+      const tables: TableInfo[] = [];
+      const views: ViewInfo[] = [];
+
+      for (const object of objects) {
+        const columnRows = this.pragma<TableInfoRow>('table_info', object.name);
+        const primaryKey = columnRows
+          .filter(column => column.pk > 0)
+          .sort((a, b) => a.pk - b.pk)
+          .map(column => column.name);
+
+        if (object.type === 'view') {
+          views.push({
+            name: object.name,
+            definition: object.sql || undefined,
+            columns: columnRows.map(column => this.toColumnInfo(column, [], []))
+          });
+          continue;
+        }
+
+        const foreignKeys = this.getForeignKeys(object.name);
+        const columns = columnRows.map(column => this.toColumnInfo(column, primaryKey, foreignKeys));
+
+        tables.push({
+          name: object.name,
+          columns,
+          rowCount: await this.getTableCount(object.name),
+          primaryKey,
+          foreignKeys,
+          indexes: this.getIndexes(object.name, primaryKey)
+        });
+      }
+
+      return { tables, views };
+    } catch (error) {
+      throw this.handleError(error, 'Schema discovery');
+    }
+  }
+
+  private toColumnInfo(column: TableInfoRow, primaryKey: string[], foreignKeys: ForeignKeyInfo[]): ColumnInfo {
+    // Declared types such as VARCHAR(50) or DECIMAL(10,2) carry their size
+    const size = column.type.match(/\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)/);
+    const isPrimaryKey = primaryKey.includes(column.name);
+    return {
+      name: column.name,
+      // Columns without a declared type accept any value
+      dataType: column.type ? column.type.replace(/\s*\(.*\)$/, '').toLowerCase() : 'any',
+      nullable: column.notnull === 0 && !isPrimaryKey,
+      defaultValue: column.dflt_value ?? undefined,
+      isPrimaryKey,
+      isForeignKey: foreignKeys.some(fk => fk.columnName === column.name),
+      maxLength: size && !size[2] ? Number(size[1]) : undefined,
+      precision: size && size[2] ? Number(size[1]) : undefined,
+      scale: size && size[2] ? Number(size[2]) : undefined
+    };
+  }
+
+  private getForeignKeys(tableName: string): ForeignKeyInfo[] {
+    return this.pragma<ForeignKeyRow>('foreign_key_list', tableName).map(fk => ({
+      columnName: fk.from,
+      referencedTable: fk.table,
+      // A missing target column means the referenced table's primary key
+      referencedColumn: fk.to ?? this.getPrimaryKeyColumns(fk.table)[fk.seq] ?? 'rowid',
+      constraintName: `fk_${tableName}_${fk.id}`
+    }));
+  }
+
+  private getPrimaryKeyColumns(tableName: string): string[] {
+    return this.pragma<TableInfoRow>('table_info', tableName)
+      .filter(column => column.pk > 0)
+      .sort((a, b) => a.pk - b.pk)
+      .map(column => column.name);
+  }
+
+  private getIndexes(tableName: string, primaryKey: string[]): IndexInfo[] {
+    const indexes: IndexInfo[] = this.pragma<IndexListRow>('index_list', tableName).map(index => ({
+      name: index.name,
+      columns: this.pragma<{ name: string | null }>('index_info', index.name)
+        .map(column => column.name)
+        .filter((name): name is string => name !== null),
+      isUnique: index.unique === 1,
+      isPrimary: index.origin === 'pk'
+    }));
+
+    // INTEGER PRIMARY KEY columns alias the rowid and have no index of their own
+    if (primaryKey.length > 0 && !indexes.some(index => index.isPrimary)) {
+      indexes.unshift({ name: `pk_${tableName}`, columns: primaryKey, isUnique: true, isPrimary: true });
+    }
+    return indexes;
+  }
+
+  private pragma<T>(name: string, argument: string): T[] {
+    return this.db!.prepare(`PRAGMA ${name}(${this.escapeIdentifier(argument)})`).all() as T[];
+  }
+
+  /**
+   * Callers write Postgres-style `$1` placeholders; SQLite binds them as `?`
+   */
+  private bindPositionalParams(query: string, params: unknown[] = []): { query: string; params: unknown[] } {
+    const ordered: unknown[] = [];
+    let hasPositional = false;
+    // Only rewrite outside string literals and quoted identifiers
+    const rewritten = query.replace(/('(?:[^']|'')*')|("(?:[^"]|"")*")|\$(\d+)/g, (match, literal, quoted, position) => {
+      if (literal || quoted) return match;
+      hasPositional = true;
+      ordered.push(params[Number(position) - 1]);
+      return '?';
+    });
+    return hasPositional ? { query: rewritten, params: ordered } : { query, params };
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { buildSchema, graphql } from 'graphql';
+import { GraphQLConnector } from '../GraphQLConnector';
+import { createApiConnector } from '../apiConnectorFactory';
+import { ApiConnection, GraphQLRequest } from '@/types/apiConnector';
+
+const schema = buildSchema(`
+  type Order { id: ID! total: Float! }
+  type Customer { id: ID! name: String! orders: [Order!]! }
+  type CustomerEdge { cursor: String! node: Customer! }
+  type PageInfo { endCursor: String hasNextPage: Boolean! }
+  type CustomerConnection { edges: [CustomerEdge!]! nodes: [Customer!]! pageInfo: PageInfo! }
+  type Region { code: String! }
+  type Query {
+    customers(first: Int!, after: String): CustomerConnection!
+    regions: [Region!]!
+    broken: String!
+  }
+`);
+
+const customers = ['Ada', 'Grace', 'Edsger', 'Barbara', 'Donald'].map((name, index) => ({
+  id: String(index + 1),
+  name,
+  orders: [{ id: `o${index}`, total: 10 * index }]
+}));
+
+const rootValue = {
+  customers: ({ first, after }: { first: number; after?: string }) => {
+    const start = after ? Number(after.replace('cursor-', '')) + 1 : 0;
+    const page = customers.slice(start, start + first);
+    return {
+      nodes: page,
+      edges: page.map((node, index) => ({ cursor: `cursor-${start + index}`, node })),
+      pageInfo: { endCursor: page.length ? `cursor-${start + page.length - 1}` : null, hasNextPage: start + first < customers.length }
+    };
+  },
+  regions: () => [{ code: 'EU' }, { code: 'US' }],
+  broken: () => {
+    throw new Error('Resolver exploded');
+  }
+};
+
+// jest.setup.js replaces fetch with a mock, so the connector's requests reach the stub server over http
+function httpFetch(url: string | URL | Request, init?: RequestInit): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const request = http.request(String(url), { method: init?.method, headers: init?.headers as Record<string, string> }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', chunk => chunks.push(chunk));
+      response.on('end', () => resolve(new Response(Buffer.concat(chunks), {
+        status: response.statusCode,
+        headers: { 'Content-Type': response.headers['content-type'] || 'application/json' }
+      })));
+    });
+    request.on('error', reject);
+    request.end(init?.body as string | undefined);
+  });
+}
+
+describe('GraphQLConnector', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let requests: GraphQLRequest[];
+
+  const connection = (requestBody: GraphQLRequest, dataPath?: string): ApiConnection => ({
+    id: 'graphql',
+    name: 'Customers',
+    apiType: 'graphql',
+    endpoint,
+    method: 'GET',
+    authType: 'none',
+    requestBody,
+    responseMapping: dataPath ? { dataPath } : undefined,
+    status: 'active',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  const pagedQuery = `
+    query Customers($first: Int!, $after: String) {
+      customers(first: $first, after: $after) {
+        nodes { id name orders { id } }
+        pageInfo { endCursor hasNextPage }
+      }
+      regions { code }
+    }
+  `;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', async () => {
+        const request = JSON.parse(body) as GraphQLRequest;
+        requests.push(request);
+        const result = await graphql({ schema, rootValue, source: request.query, variableValues: request.variables });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(result));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    global.fetch = jest.fn(httpFetch);
+    requests = [];
+  });
+
+  it('is created for GraphQL connections and follows Relay pages through the cursor variable', async () => {
+    const connector = createApiConnector(connection({ query: pagedQuery, variables: { first: 2 } }));
+    expect(connector).toBeInstanceOf(GraphQLConnector);
+
+    const records = await connector.fetchAllData();
+
+    expect((records as Array<{ name: string }>).map(record => record.name)).toEqual(['Ada', 'Grace', 'Edsger', 'Barbara', 'Donald']);
+    expect(requests.map(request => request.variables)).toEqual([
+      { first: 2 },
+      { first: 2, after: 'cursor-1' },
+      { first: 2, after: 'cursor-3' }
+    ]);
+    expect((global.fetch as jest.Mock).mock.calls[0][1].method).toBe('POST');
+  });
+
+  it('reads records from edges and does not loop when the query cannot ask for the next page', async () => {
+    const query = '{ customers(first: 2) { edges { node { name } } pageInfo { endCursor hasNextPage } } }';
+    const connector = new GraphQLConnector(connection({ query }, 'data.customers.edges'));
+
+    expect(await connector.fetchAllData()).toEqual([{ name: 'Ada' }, { name: 'Grace' }]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('suggests data paths from schema introspection', async () => {
+    const connector = new GraphQLConnector(connection({ query: pagedQuery, variables: { first: 2 } }));
+
+    expect(await connector.suggestDataPaths()).toEqual([
+      { dataPath: 'data.customers.nodes', typeName: 'Customer', paginated: true },
+      { dataPath: 'data.regions', typeName: 'Region', paginated: false }
+    ]);
+
+    const edges = new GraphQLConnector(connection({ query: '{ list: customers(first: 1) { edges { node { id } } } }' }));
+    expect(await edges.suggestDataPaths()).toEqual([{ dataPath: 'data.list.edges', typeName: 'Customer', paginated: false }]);
+
+    const invalid = new GraphQLConnector(connection({ query: '{ customers(first: 1) { email } }' }));
+    await expect(invalid.suggestDataPaths()).rejects.toThrow('The query does not match the schema: Cannot query field "email"');
+  });
+
+  it('reports GraphQL errors as failed connection tests', async () => {
+    const result = await new GraphQLConnector(connection({ query: '{ broken }' })).testConnection();
+    expect(result).toMatchObject({ success: false, error: 'GraphQL request failed: Resolver exploded' });
+
+    const sample = await new GraphQLConnector(connection({ query: pagedQuery, variables: { first: 5 } })).testConnection();
+    expect(sample).toMatchObject({ success: true, sampleData: [{ id: '1', name: 'Ada', orders: [{ id: 'o0' }] }, expect.anything(), expect.anything()] });
+  });
+});
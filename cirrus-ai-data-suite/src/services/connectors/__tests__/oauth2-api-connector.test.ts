@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+import { RestApiConnector } from '../RestApiConnector';
+import { ApiAuthConfig, ApiConnection } from '@/types/apiConnector';
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json' }
+});
+
+function oauthConnection(id: string, authConfig: ApiAuthConfig): ApiConnection {
+  return {
+    id,
+    name: 'Vendor API',
+    endpoint: 'https://api.example.com/items',
+    method: 'GET',
+    authType: 'oauth2',
+    authConfig: { tokenUrl: 'https://auth.example.com/token', clientId: 'client', clientSecret: 's3cret', ...authConfig },
+    status: 'active',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+}
+
+describe('OAuth2 API connections', () => {
+  const fetchMock = jest.fn();
+  const calls = () => fetchMock.mock.calls.map(([url, init]) => ({
+    url: String(url),
+    authorization: (init?.headers as Record<string, string>)?.Authorization,
+    body: typeof init?.body === 'string' ? init.body : undefined
+  }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    global.fetch = fetchMock;
+  });
+
+  it('requests a client-credentials token once and reuses it until it is about to expire', async () => {
+    const onTokenRefresh = jest.fn();
+    fetchMock
+      .mockResolvedValueOnce(json({ access_token: 'token-1', expires_in: 3600 }))
+      .mockResolvedValueOnce(json([{ id: 1 }]))
+      .mockResolvedValueOnce(json([{ id: 2 }]));
+
+    const connector = new RestApiConnector(oauthConnection('cc', { scope: 'read' }), { onTokenRefresh });
+    expect((await connector.fetchData()).data).toEqual([{ id: 1 }]);
+    // A second connector for the same connection uses the cached token
+    expect((await new RestApiConnector(oauthConnection('cc', { scope: 'read' })).fetchData()).data).toEqual([{ id: 2 }]);
+
+    const [token, first, second] = calls();
+    expect(token).toEqual({
+      url: 'https://auth.example.com/token',
+      authorization: `Basic ${Buffer.from('client:s3cret').toString('base64')}`,
+      body: 'grant_type=client_credentials&scope=read'
+    });
+    expect(first.authorization).toBe('Bearer token-1');
+    expect(second.authorization).toBe('Bearer token-1');
+    expect(onTokenRefresh).toHaveBeenCalledWith(expect.objectContaining({ accessToken: 'token-1', clientSecret: 's3cret' }));
+    expect(new Date(onTokenRefresh.mock.calls[0][0].expiresAt).getTime()).toBeGreaterThan(Date.now() + 3500 * 1000);
+  });
+
+  it('renews expiring tokens with the refresh-token grant and keeps rotated refresh tokens', async () => {
+    const onTokenRefresh = jest.fn();
+    fetchMock
+      .mockResolvedValueOnce(json({ access_token: 'fresh', refresh_token: 'rotated', expires_in: 600 }))
+      .mockResolvedValueOnce(json({ items: [] }));
+
+    const connector = new RestApiConnector(oauthConnection('refresh', {
+      clientAuthMethod: 'body',
+      accessToken: 'stale',
+      refreshToken: 'original',
+      expiresAt: new Date(Date.now() + 30 * 1000).toISOString()
+    }), { onTokenRefresh });
+    await connector.fetchData();
+
+    const [token, request] = calls();
+    expect(token.authorization).toBeUndefined();
+    expect(token.body).toBe('grant_type=refresh_token&refresh_token=original&client_id=client&client_secret=s3cret');
+    expect(request.authorization).toBe('Bearer fresh');
+    expect(onTokenRefresh).toHaveBeenCalledWith(expect.objectContaining({ accessToken: 'fresh', refreshToken: 'rotated' }));
+  });
+
+  it('requests a new token and retries once when the API rejects the token', async () => {
+    fetchMock
+      .mockResolvedValueOnce(json({ error: 'invalid_token' }, 401))
+      .mockResolvedValueOnce(json({ access_token: 'replacement' }))
+      .mockResolvedValueOnce(json([{ id: 3 }]))
+      .mockResolvedValueOnce(json({ error: 'invalid_token' }, 401))
+      .mockResolvedValueOnce(json({ access_token: 'also-rejected' }))
+      .mockResolvedValueOnce(json({ error: 'invalid_token' }, 401));
+
+    const connector = new RestApiConnector(oauthConnection('revoked', { accessToken: 'revoked' }), { maxRetries: 0 });
+    expect((await connector.fetchData()).data).toEqual([{ id: 3 }]);
+    expect(calls().map(call => call.authorization?.split(' ')[1])).toEqual(['revoked', expect.any(String), 'replacement']);
+
+    await expect(connector.fetchData()).rejects.toThrow('HTTP 401');
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+
+  it('reports token endpoint errors', async () => {
+    fetchMock.mockResolvedValueOnce(json({ error: 'invalid_client', error_description: 'Unknown client' }, 401));
+
+    const result = await new RestApiConnector(oauthConnection('bad-client', {})).testConnection();
+    expect(result).toMatchObject({ success: false, error: 'OAuth2 token request failed: 401 Unknown client' });
+  });
+});
@@ -1,18 +1,22 @@
-import { ApiConnection, IApiConnector } from '@/types/apiConnector';
+import { ApiConnection, ApiConnectorOptions, ApiType, IApiConnector } from '@/types/apiConnector';
 import { RestApiConnector } from './RestApiConnector';
+import { GraphQLConnector } from './GraphQLConnector';
 // Import other API connector types as they are implemented
-// import { GraphQLConnector } from './GraphQLConnector';
 // import { SOAPConnector } from './SOAPConnector';
 
-export type ApiType = 'rest' | 'graphql' | 'soap' | 'webhook';
+export type { ApiType };
 
-export function createApiConnector(connection: ApiConnection, apiType: ApiType = 'rest'): IApiConnector {
+export function createApiConnector(
+  connection: ApiConnection,
+  apiType: ApiType = connection.apiType || 'rest',
+  options?: ApiConnectorOptions
+): IApiConnector {
   switch (apiType) {
     case 'rest':
-      return new RestApiConnector(connection);
+      return new RestApiConnector(connection, options);
     
     case 'graphql':
-      throw new Error('GraphQL connector not yet implemented');
+      return new GraphQLConnector(connection, options);
     
     case 'soap':
       throw new Error('SOAP connector not yet implemented');
@@ -26,7 +30,7 @@ export function createApiConnector(connection: ApiConnection, apiType: ApiType =
 }
 
 export function getSupportedApiTypes(): ApiType[] {
-  return ['rest']; // Add more as they are implemented
+  return ['rest', 'graphql']; // Add more as they are implemented
 }
 
 export function isApiTypeSupported(type: ApiType): boolean {
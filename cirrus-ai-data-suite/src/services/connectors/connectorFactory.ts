@@ -1,9 +1,11 @@
 import { DatabaseConnection, IDatabaseConnector, DatabaseType } from '@/types/connector';
 import { PostgreSQLConnector } from './PostgreSQLConnector';
 import { MySQLConnector } from './MySQLConnector';
+import { MSSQLConnector } from './MSSQLConnector';
+import { MongoDBConnector } from './MongoDBConnector';
+import { SQLiteConnector } from './SQLiteConnector';
+import { DuckDBConnector } from './DuckDBConnector';
 // Import other connectors as they are implemented
-// import { MongoDBConnector } from './MongoDBConnector';
-// import { MSSQLConnector } from './MSSQLConnector';
 // import { OracleConnector } from './OracleConnector';
 // import { DB2Connector } from './DB2Connector';
 
@@ -16,10 +18,16 @@ export function createConnector(connection: DatabaseConnection): IDatabaseConnec
       return new MySQLConnector(connection);
     
     case 'mongodb':
-      throw new Error('MongoDB connector not yet implemented');
+      return new MongoDBConnector(connection);
     
     case 'mssql':
-      throw new Error('SQL Server connector not yet implemented');
+      return new MSSQLConnector(connection);
+    
+    case 'sqlite':
+      return new SQLiteConnector(connection);
+    
+    case 'duckdb':
+      return new DuckDBConnector(connection);
     
     case 'oracle':
       throw new Error('Oracle connector not yet implemented');
@@ -42,7 +50,7 @@ export function createConnector(connection: DatabaseConnection): IDatabaseConnec
 }
 
 export function getSupportedDatabases(): DatabaseType[] {
-  return ['postgresql', 'mysql']; // Add more as they are implemented
+  return ['postgresql', 'mysql', 'mssql', 'mongodb', 'sqlite', 'duckdb']; // Add more as they are implemented
 }
 
 export function isDatabaseSupported(type: DatabaseType): boolean {
@@ -0,0 +1,66 @@
+import { DatabaseType } from '@/types/connector';
+import { parseMongoQuery } from './MongoDBConnector';
+
+const PREVIEW_LIMIT = 100;
+
+// Keywords that could modify data or run procedures
+const DANGEROUS_SQL_KEYWORDS = [
+  'INSERT', 'UPDATE', 'DELETE', 'DROP', 'CREATE', 'ALTER', 'TRUNCATE',
+  'EXEC', 'EXECUTE', 'GRANT', 'REVOKE', '--', '/*', '*/', 'XP_', 'SP_'
+];
+
+/**
+ * Check that a user-entered query only reads data. Returns an error message,
+ * or null if the query is allowed.
+ */
+export function validateReadOnlyQuery(query: string, type: DatabaseType): string | null {
+  if (type === 'mongodb') {
+    try {
+      parseMongoQuery(query);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid query';
+    }
+  }
+
+  // Basic SQL injection prevention - only allow SELECT queries
+  const normalizedQuery = query.trim().toUpperCase();
+  if (!normalizedQuery.startsWith('SELECT')) {
+    return 'Only SELECT queries are allowed';
+  }
+
+  for (const keyword of DANGEROUS_SQL_KEYWORDS) {
+    if (normalizedQuery.includes(keyword)) {
+      return `Query contains forbidden keyword: ${keyword}`;
+    }
+  }
+
+  // A second statement, or SELECT ... INTO, could write data
+  if (/;\s*\S/.test(normalizedQuery)) {
+    return 'Only a single statement is allowed';
+  }
+  if (/\bINTO\b/.test(normalizedQuery)) {
+    return 'Query contains forbidden keyword: INTO';
+  }
+
+  return null;
+}
+
+/**
+ * Limit a query to the preview row count unless it already limits itself
+ */
+export function applyPreviewLimit(query: string, type: DatabaseType): string {
+  if (type === 'mongodb') {
+    const spec = parseMongoQuery(query);
+    if (spec.limit !== undefined && spec.limit > 0 && spec.limit <= PREVIEW_LIMIT) {
+      return query;
+    }
+    return JSON.stringify({ ...spec, limit: PREVIEW_LIMIT });
+  }
+
+  // SQL Server limits rows with TOP or OFFSET/FETCH
+  if (/\b(LIMIT|TOP|FETCH)\b/.test(query.toUpperCase())) {
+    return query;
+  }
+  return `${query.trim()} LIMIT ${PREVIEW_LIMIT}`;
+}
@@ -8,6 +8,7 @@ import {
   ComparisonOperator
 } from '@/types/dataAnalysis';
 import { DataSourceService } from './dataSourceService';
+import { RecordStoreService } from './recordStoreService';
 import { CodeExecutionService } from './codeExecutionService';
 import { logger } from '@/utils/logger';
 
@@ -176,8 +177,9 @@ export class DataAnalysisService {
 
         // Get transformed data if available
         let sourceData = null;
-        if (dataSource.transformedData) {
-          sourceData = JSON.parse(dataSource.transformedData);
+        const stored = await RecordStoreService.openRecords(dataSource);
+        if (stored) {
+          sourceData = await RecordStoreService.collectData(stored);
         } else if (dataSource.type === 'json_transformed' && dataSource.configuration) {
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           const config = dataSource.configuration as any;
@@ -252,8 +254,9 @@ export class DataAnalysisService {
 
       // Get transformed data if available
       let sourceData = null;
-      if (dataSource.transformedData) {
-        sourceData = JSON.parse(dataSource.transformedData);
+      const stored = await RecordStoreService.openRecords(dataSource);
+      if (stored) {
+        sourceData = await RecordStoreService.collectData(stored);
       } else if (dataSource.type === 'json_transformed' && dataSource.configuration) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const config = dataSource.configuration as any;
@@ -382,8 +385,9 @@ export class DataAnalysisService {
 
       // Get transformed data
       let sourceData = null;
-      if (dataSource.transformedData) {
-        sourceData = JSON.parse(dataSource.transformedData);
+      const stored = await RecordStoreService.openRecords(dataSource);
+      if (stored) {
+        sourceData = await RecordStoreService.collectData(stored);
       } else if (dataSource.type === 'database' && dataSource.configuration) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const config = dataSource.configuration as any;
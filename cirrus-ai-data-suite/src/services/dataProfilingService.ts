@@ -579,7 +579,7 @@ class DataProfilingService {
   /**
    * Calculate Pearson correlation coefficient
    */
-  private pearsonCorrelation(x: number[], y: number[]): number {
+  pearsonCorrelation(x: number[], y: number[]): number {
     const n = Math.min(x.length, y.length);
     if (n < 2) return 0;
     
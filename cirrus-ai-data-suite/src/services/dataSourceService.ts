@@ -1,23 +1,64 @@
 import { getDatabase } from '@/database/connection';
 import { DataSourceEntity } from '@/entities/DataSourceEntity';
 import { getRepository, withRepository } from '@/database/repository-helper';
-import { DataSource } from '@/types/discovery';
+import { DataSource, DataSourceConfig } from '@/types/discovery';
+import { normalizeMarking } from '@/utils/classification';
+import { encryptCredential, isEncryptedCredential } from '@/utils/credentialEncryption';
+import { detectTabularFormat } from '@/utils/tabularReaders';
 import { DataTransformationService, UnifiedDataCatalog } from './dataTransformationService';
+import { RecordStoreService, StoredRecords } from './recordStoreService';
 import { StorageService } from './storage/storageService';
+import { IngestionFile, StreamingIngestionService } from './streaming/streamingIngestionService';
 import * as fs from 'fs/promises';
 
+// Bytes of a streamed file kept in the data source configuration as its preview
+const PREVIEW_BYTES = 500000;
+
+// Configuration fields holding secrets: encrypted in the database and masked in returned data sources
+const SECRET_CONFIG_FIELDS = ['accessKeyId', 'secretAccessKey'] as const;
+export const MASKED_CREDENTIAL = '********';
+
 export class DataSourceService {
+  /**
+   * Configuration as stored, with secret fields encrypted. A masked value, as sent back by a client
+   * editing a data source, keeps the stored secret.
+   */
+  static sealConfiguration<T extends DataSourceConfig>(configuration: T, stored?: DataSourceConfig): T {
+    const sealed = { ...configuration };
+    for (const field of SECRET_CONFIG_FIELDS) {
+      const value = sealed[field];
+      if (value === MASKED_CREDENTIAL) {
+        sealed[field] = stored?.[field];
+      } else if (typeof value === 'string' && value && !isEncryptedCredential(value)) {
+        sealed[field] = encryptCredential(value);
+      }
+    }
+    return sealed;
+  }
+
+  /**
+   * Stored configuration JSON as returned to callers, with secret fields masked
+   */
+  private static parseConfiguration(json: string): DataSourceConfig {
+    const configuration = JSON.parse(json) as DataSourceConfig;
+    for (const field of SECRET_CONFIG_FIELDS) {
+      if (configuration[field]) configuration[field] = MASKED_CREDENTIAL;
+    }
+    return configuration;
+  }
+
   /**
    * Store files in external storage and return storage keys
    */
-  private static async storeFiles(files: Array<{ name: string; content?: string }>, dataSourceId: string): Promise<string[]> {
+  private static async storeFiles(files: Array<{ name: string; content?: string; contentEncoding?: unknown }>, dataSourceId: string): Promise<string[]> {
     const storage = StorageService.getInstance();
     const storageKeys: string[] = [];
 
     for (const file of files) {
       if (file.content) {
         const key = StorageService.generateKey(`datasource/${dataSourceId}`, file.name);
-        await storage.uploadFile(key, file.content, {
+        const content = file.contentEncoding === 'base64' ? Buffer.from(file.content, 'base64') : file.content;
+        await storage.uploadFile(key, content, {
           contentType: StorageService.getContentType(file.name),
           metadata: {
             originalName: file.name,
@@ -41,7 +82,8 @@ export class DataSourceService {
 
     for (const key of storageKeys) {
       try {
-        const content = await storage.getFileAsString(key);
+        // Excel and Parquet files have no text content; they are read from storage when transformed
+        const content = detectTabularFormat(key) ? '' : await storage.getFileAsString(key);
         // Extract original name from metadata if possible, otherwise use key
         const fileName = key.split('/').pop() || key;
         files.push({
@@ -57,6 +99,92 @@ export class DataSourceService {
     return files;
   }
 
+  /**
+   * Fill in the content a data source configuration keeps for a file already in storage:
+   * none for binary files, a preview for streamable files and the whole text otherwise
+   */
+  static async withStoredContent<T extends { name: string; storageKey?: string; [key: string]: unknown }>(file: T): Promise<T> {
+    console.log(`=== Retrieving content for file ${file.name} from storage key ${file.storageKey} ===`);
+    try {
+      // Binary files have no text to keep; they are read from storage when transformed
+      if (StreamingIngestionService.isBinary(file)) {
+        return {
+          ...file,
+          content: '',
+          contentTruncated: true,
+          originalContentLength: typeof file.size === 'number' ? file.size : 0
+        };
+      }
+      // Streamable files can be any size; only their start is kept as a preview
+      if (StreamingIngestionService.detectFormat(file)) {
+        const preview = await StreamingIngestionService.readPreview(file.storageKey!, PREVIEW_BYTES, file.encoding as string | undefined);
+        return {
+          ...file,
+          content: preview.content,
+          contentTruncated: preview.truncated,
+          originalContentLength: typeof file.size === 'number' ? file.size : preview.content.length
+        };
+      }
+      const content = await StorageService.getInstance().getFile(file.storageKey!);
+      console.log(`=== Successfully retrieved ${content.length} bytes for ${file.name} ===`);
+      return {
+        ...file,
+        content: content.toString('utf-8'),
+        size: content.length,
+        originalContentLength: content.length
+      };
+    } catch (e) {
+      console.error(`Failed to retrieve content for ${file.name} from ${file.storageKey}:`, e);
+      // Keep the file with empty content if retrieval fails
+      return {
+        ...file,
+        content: '',
+        contentTruncated: true,
+        originalContentLength: 0
+      };
+    }
+  }
+
+  /**
+   * Transform a data source's files into the record store again and refresh its tables.
+   * Streamable files are ingested from storage; other files are transformed from their stored content.
+   */
+  static async retransform(id: string): Promise<UnifiedDataCatalog> {
+    const dataSource = await this.getDataSourceById(id);
+    if (!dataSource) {
+      throw new Error('Data source not found');
+    }
+
+    let catalog: UnifiedDataCatalog;
+    if (StreamingIngestionService.canIngest(dataSource.configuration.files)) {
+      // CSV and JSON files stream from storage; table detection looks at the first records
+      const header = await StreamingIngestionService.ingestDataSource(dataSource);
+      catalog = { ...header, records: await RecordStoreService.readRecords(id, header.recordStore!, 0, 1000) };
+    } else {
+      catalog = await DataTransformationService.transformDataSource(dataSource, { maxRecords: 0 }); // No limit for transformation
+
+      // Save the records to the record store and the catalog header to the data source
+      await RecordStoreService.saveCatalog(id, catalog);
+      const repository = await getRepository(DataSourceEntity);
+      await repository.update(id, {
+        transformedAt: new Date(),
+        recordCount: catalog.totalRecords
+      });
+    }
+
+    try {
+      const { TableMetadataService } = await import('./tableMetadataService');
+      const detectedTables = await TableMetadataService.detectTablesInData(catalog);
+      if (detectedTables.length > 0) {
+        await TableMetadataService.createOrUpdateTables(id, detectedTables);
+      }
+    } catch (tableError) {
+      console.error('Failed to update table metadata:', tableError);
+    }
+
+    return catalog;
+  }
+
   static async createDataSource(dataSource: Omit<DataSource, 'id' | 'lastSync'>): Promise<DataSource> {
     try {
       console.log('=== DataSourceService.createDataSource START ===');
@@ -82,7 +210,7 @@ export class DataSourceService {
       entity.path = (dataSource.configuration as Record<string, unknown>)?.host as string || (dataSource.configuration as Record<string, unknown>)?.path as string;
       
       // Handle file storage using external storage service
-      const config = { ...(dataSource.configuration || {}) } as Record<string, unknown>;
+      const config = this.sealConfiguration({ ...(dataSource.configuration || {}) }) as Record<string, unknown>;
       let storageKeys: string[] = [];
       const storage = StorageService.getInstance();
       
@@ -90,6 +218,7 @@ export class DataSourceService {
       entity.configuration = JSON.stringify(config);
       entity.metadata = dataSource.metadata ? JSON.stringify(dataSource.metadata) : undefined;
       entity.recordCount = dataSource.recordCount || 0;
+      entity.classification = normalizeMarking(dataSource.classification);
       entity.storageProvider = storage.getProviderName();
       
       console.log('=== Saving Initial Entity to Database ===');
@@ -118,26 +247,7 @@ export class DataSourceService {
             for (let i = 0; i < files.length; i++) {
               const file = files[i];
               if (file.storageKey && (!file.content || file.content === '')) {
-                console.log(`=== Retrieving content for file ${file.name} from storage key ${file.storageKey} ===`);
-                try {
-                  const content = await storage.getFile(file.storageKey);
-                  files[i] = {
-                    ...file,
-                    content: content.toString('utf-8'),
-                    size: content.length,
-                    originalContentLength: content.length
-                  };
-                  console.log(`=== Successfully retrieved ${content.length} bytes for ${file.name} ===`);
-                } catch (e) {
-                  console.error(`Failed to retrieve content for ${file.name} from ${file.storageKey}:`, e);
-                  // Keep the file with empty content if retrieval fails
-                  files[i] = {
-                    ...file,
-                    content: '',
-                    contentTruncated: true,
-                    originalContentLength: 0
-                  };
-                }
+                files[i] = await this.withStoredContent(file);
               }
             }
             // Use existing storage keys
@@ -165,13 +275,18 @@ export class DataSourceService {
           const hasExternalDB = process.env.DATABASE_URL || process.env.TURSO_DATABASE_URL;
           const maxContentSize = (isVercel && !hasExternalDB) ? 100000 : 500000;
           
-          config.files = files.map((file, index) => ({
+          // Inline binary content is only needed to store the file
+          const storedFiles = files.map(file => file.contentEncoding === 'base64'
+            ? { ...file, content: '', contentEncoding: undefined, contentTruncated: true, originalContentLength: file.size }
+            : file);
+
+          config.files = storedFiles.map((file, index) => ({
             ...file,
             content: file.content && typeof file.content === 'string' && file.content.length > maxContentSize ? 
               file.content.substring(0, maxContentSize) + '\n\n... [Content truncated for database storage. Full content available in external storage.] ...' : 
               file.content,
-            contentTruncated: file.content && typeof file.content === 'string' && file.content.length > maxContentSize,
-            originalContentLength: file.content ? file.content.length : undefined,
+            contentTruncated: file.contentTruncated === true || (file.content && typeof file.content === 'string' && file.content.length > maxContentSize),
+            originalContentLength: file.contentTruncated === true ? file.originalContentLength : (file.content ? file.content.length : undefined),
             storageKey: storageKeys[index],
             storedInExternal: true
           }));
@@ -212,7 +327,7 @@ export class DataSourceService {
         name: saved.name,
         type: saved.type as DataSource['type'],
         connectionStatus: saved.connectionStatus as DataSource['connectionStatus'],
-        configuration: JSON.parse(saved.configuration),
+        configuration: this.parseConfiguration(saved.configuration),
         metadata: saved.metadata && saved.metadata.trim() ? JSON.parse(saved.metadata) : undefined,
         recordCount: saved.recordCount || 0,
         lastSync: saved.lastSync,
@@ -224,51 +339,63 @@ export class DataSourceService {
         summaryVersion: saved.summaryVersion,
         // Keywords
         aiKeywords: saved.aiKeywords ? JSON.parse(saved.aiKeywords) : undefined,
-        keywordsGeneratedAt: saved.keywordsGeneratedAt
+        keywordsGeneratedAt: saved.keywordsGeneratedAt,
+        classification: saved.classification
       };
 
       // Automatic transformation to JSON
       if (saved.type === 'filesystem' || saved.type === 'json_transformed') {
         console.log('=== Starting automatic JSON transformation ===');
         try {
-          // File content is now stored in external storage, we need to retrieve it for transformation
           const transformationConfig = JSON.parse(saved.configuration) as Record<string, unknown>;
-          
-          if (saved.storageKeys) {
-            console.log('=== Retrieving files from external storage for transformation ===');
-            try {
-              const storageKeys = JSON.parse(saved.storageKeys) as string[];
-              const retrievedFiles = await this.retrieveFiles(storageKeys);
+          const files = transformationConfig.files as IngestionFile[] | undefined;
+          let catalog: UnifiedDataCatalog;
+
+          if (StreamingIngestionService.canIngest(files)) {
+            // CSV and JSON files stream from storage straight into the record store
+            console.log('=== Streaming files into the record store ===');
+            saved.transformedData = await StreamingIngestionService.ingest(result, files);
+            const header = RecordStoreService.parseHeader(saved.transformedData)!;
+            // Table detection looks at the first records
+            catalog = { ...header, records: await RecordStoreService.readRecords(saved.id, header.recordStore!, 0, 1000) };
+          } else {
+            // File content is now stored in external storage, we need to retrieve it for transformation
+            if (saved.storageKeys) {
+              console.log('=== Retrieving files from external storage for transformation ===');
+              try {
+                const storageKeys = JSON.parse(saved.storageKeys) as string[];
+                const retrievedFiles = await this.retrieveFiles(storageKeys);
               
-              // Reconstruct file content for transformation
-              if (transformationConfig.files && Array.isArray(transformationConfig.files)) {
-                transformationConfig.files = (transformationConfig.files as Array<{ name: string; storageKey?: string; [key: string]: unknown }>).map(configFile => {
-                  const retrievedFile = retrievedFiles.find(f => f.storageKey === configFile.storageKey);
-                  return {
-                    ...configFile,
-                    content: retrievedFile?.content || ''
-                  };
-                });
-              }
+                // Reconstruct file content for transformation
+                if (transformationConfig.files && Array.isArray(transformationConfig.files)) {
+                  transformationConfig.files = (transformationConfig.files as Array<{ name: string; storageKey?: string; [key: string]: unknown }>).map(configFile => {
+                    const retrievedFile = retrievedFiles.find(f => f.storageKey === configFile.storageKey);
+                    return {
+                      ...configFile,
+                      content: retrievedFile?.content || ''
+                    };
+                  });
+                }
               
-              console.log(`=== Retrieved ${retrievedFiles.length} files for transformation ===`);
-            } catch (retrievalError) {
-              console.error('=== Failed to retrieve files for transformation ===', retrievalError);
-              console.log('=== Proceeding with transformation using available data ===');
+                console.log(`=== Retrieved ${retrievedFiles.length} files for transformation ===`);
+              } catch (retrievalError) {
+                console.error('=== Failed to retrieve files for transformation ===', retrievalError);
+                console.log('=== Proceeding with transformation using available data ===');
+              }
             }
-          }
           
-          // Update result configuration with file content for transformation
-          const resultWithFiles = {
-            ...result,
-            configuration: transformationConfig
-          };
-
-          // Transform to JSON (works with in-memory data, get all records)
-          const catalog = await DataTransformationService.transformDataSource(resultWithFiles, { maxRecords: 0 });
+            // Update result configuration with file content for transformation
+            const resultWithFiles = {
+              ...result,
+              configuration: transformationConfig
+            };
+
+            // Transform to JSON (works with in-memory data, get all records)
+            catalog = await DataTransformationService.transformDataSource(resultWithFiles, { maxRecords: 0 });
           
-          // Store transformed data in database
-          saved.transformedData = JSON.stringify(catalog);
+            // Store the records in the record store and the catalog header on the data source
+            saved.transformedData = await RecordStoreService.saveCatalog(saved.id, catalog);
+          }
           saved.transformedAt = new Date();
           saved.recordCount = catalog.totalRecords; // Update with actual record count from transformation
           
@@ -365,7 +492,7 @@ export class DataSourceService {
       console.log(`DataSourceService.getAllDataSources: Found ${entities.length} data sources`);
 
       return entities.map(entity => {
-        const configuration = JSON.parse(entity.configuration);
+        const configuration = this.parseConfiguration(entity.configuration);
         return {
           id: entity.id,
           name: entity.name,
@@ -388,7 +515,8 @@ export class DataSourceService {
           summaryVersion: entity.summaryVersion,
           // Keywords
           aiKeywords: entity.aiKeywords,
-          keywordsGeneratedAt: entity.keywordsGeneratedAt
+          keywordsGeneratedAt: entity.keywordsGeneratedAt,
+          classification: entity.classification
         };
       });
     } catch (error) {
@@ -416,7 +544,7 @@ export class DataSourceService {
 
     if (!entity) return null;
 
-    const configuration = JSON.parse(entity.configuration);
+    const configuration = this.parseConfiguration(entity.configuration);
 
     // Populate file content from external storage if requested
     if (includeFileContent && entity.storageKeys) {
@@ -425,7 +553,7 @@ export class DataSourceService {
         const retrievedFiles = await this.retrieveFiles(storageKeys);
         
         if (configuration.files && Array.isArray(configuration.files)) {
-          configuration.files = (configuration.files as Array<{ name: string; storageKey?: string; [key: string]: unknown }>).map(configFile => {
+          configuration.files = configuration.files.map(configFile => {
             const retrievedFile = retrievedFiles.find(f => f.storageKey === configFile.storageKey);
             return {
               ...configFile,
@@ -461,7 +589,8 @@ export class DataSourceService {
       summaryVersion: entity.summaryVersion,
       // Keywords
       aiKeywords: entity.aiKeywords,
-      keywordsGeneratedAt: entity.keywordsGeneratedAt
+      keywordsGeneratedAt: entity.keywordsGeneratedAt,
+      classification: entity.classification
     };
   }
 
@@ -474,12 +603,13 @@ export class DataSourceService {
 
     if (updates.name) entity.name = updates.name;
     if (updates.configuration) {
-      entity.configuration = JSON.stringify(updates.configuration);
+      entity.configuration = JSON.stringify(this.sealConfiguration(updates.configuration, JSON.parse(entity.configuration)));
       entity.path = (updates.configuration as Record<string, unknown>)?.host as string || (updates.configuration as Record<string, unknown>)?.path as string;
     }
     if (updates.metadata) entity.metadata = JSON.stringify(updates.metadata);
     if (updates.recordCount !== undefined) entity.recordCount = updates.recordCount;
     if (updates.transformedData !== undefined) entity.transformedData = updates.transformedData;
+    if (updates.classification !== undefined) entity.classification = normalizeMarking(updates.classification);
 
     const saved = await repository.save(entity);
 
@@ -488,7 +618,7 @@ export class DataSourceService {
       name: saved.name,
       type: saved.type as DataSource['type'],
       connectionStatus: saved.connectionStatus as DataSource['connectionStatus'],
-      configuration: JSON.parse(saved.configuration),
+      configuration: this.parseConfiguration(saved.configuration),
       metadata: saved.metadata && saved.metadata.trim() ? JSON.parse(saved.metadata) : undefined,
       recordCount: saved.recordCount || 0,
       lastSync: saved.lastSync,
@@ -499,7 +629,8 @@ export class DataSourceService {
       userSummary: saved.userSummary,
       summaryGeneratedAt: saved.summaryGeneratedAt,
       summaryUpdatedAt: saved.summaryUpdatedAt,
-      summaryVersion: saved.summaryVersion
+      summaryVersion: saved.summaryVersion,
+      classification: saved.classification
     };
   }
 
@@ -530,13 +661,22 @@ export class DataSourceService {
       }
     }
     
+    try {
+      await RecordStoreService.deleteRecords(id);
+    } catch (error) {
+      console.error('Failed to delete stored records:', error);
+    }
+
     const deleteResult = await repository.delete(id);
     
     console.log(`DataSourceService.deleteDataSource: Delete result for ${id}:`, deleteResult);
     return (deleteResult.affected ?? 0) > 0;
   }
 
-  static async getTransformedData(id: string): Promise<UnifiedDataCatalog | null> {
+  static async getTransformedData(
+    id: string,
+    options: { offset?: number; limit?: number } = {}
+  ): Promise<UnifiedDataCatalog | null> {
     const db = await getDatabase();
     
     const repository = db.getRepository(DataSourceEntity);
@@ -545,13 +685,27 @@ export class DataSourceService {
     if (!entity || !entity.transformedData) return null;
 
     try {
-      return JSON.parse(entity.transformedData);
+      return await RecordStoreService.loadCatalog(entity, options);
     } catch (error) {
       console.error('Failed to parse transformed data:', error);
       return null;
     }
   }
 
+  /**
+   * The data source's catalog header and an iterator over its stored records. A data source that was
+   * never transformed is transformed into the record store first.
+   */
+  static async openRecords(id: string): Promise<StoredRecords | null> {
+    const repository = await getRepository(DataSourceEntity);
+    let entity = await repository.findOne({ where: { id } });
+    if (entity && !entity.transformedData) {
+      await this.retransform(id);
+      entity = await repository.findOne({ where: { id } });
+    }
+    return entity ? RecordStoreService.openRecords(entity) : null;
+  }
+
   static async hasTransformedData(id: string): Promise<boolean> {
     const db = await getDatabase();
     
@@ -5,6 +5,9 @@
 
 import { DataSource } from '@/types/discovery';
 import { logger } from '@/utils/logger';
+import type { FieldStatistics } from '@/utils/fieldStatistics';
+import { TabularColumn, TabularFormat, detectTabularFormat, readTables } from '@/utils/tabularReaders';
+import { StorageService } from '@/services/storage/storageService';
 
 export interface FieldMappedRecord {
   catalogData: Record<string, unknown>;
@@ -44,9 +47,28 @@ export interface UnifiedDataRecord {
       confidence?: number;
       warnings?: string[];
     };
+    table?: string; // Worksheet or Parquet row group the record came from
   };
 }
 
+// Where a catalog's records live when they are kept in the chunked record store
+export interface RecordStoreInfo {
+  version: string;
+  segmentSize: number;
+  segmentCount: number;
+  totalRecords: number;
+}
+
+// A worksheet or Parquet row group, holding records [recordStart, recordStart + recordCount)
+export interface CatalogSheet {
+  name: string;
+  type: 'sheet' | 'row_group';
+  recordStart: number;
+  recordCount: number;
+  columns: TabularColumn[];
+  schema?: UnifiedDataCatalog['schema'];
+}
+
 export interface UnifiedDataCatalog {
   catalogId: string;
   sourceId: string;
@@ -79,6 +101,9 @@ export interface UnifiedDataCatalog {
     unmappedFields: string[];
     validationErrors: Array<{ field: string; errors: string[] }>;
   };
+  recordStore?: RecordStoreInfo; // Present on saved headers; records is then empty
+  statistics?: FieldStatistics[]; // Gathered over every record by streaming ingestion
+  sheets?: CatalogSheet[]; // Tables of Excel and Parquet sources
 }
 
 export class DataTransformationService {
@@ -104,7 +129,7 @@ export class DataTransformationService {
     const records: UnifiedDataRecord[] = [];
     let totalRecords = 0;
 
-    if ((dataSource.type === 'filesystem' || dataSource.type === 'json_transformed') && dataSource.configuration.files) {
+    if ((dataSource.type === 'filesystem' || dataSource.type === 'json_transformed' || dataSource.type === 's3') && dataSource.configuration.files) {
       logger.debug(`=== Processing ${dataSource.configuration.files.length} files ===`);
       
       for (const file of dataSource.configuration.files) {
@@ -181,12 +206,25 @@ export class DataTransformationService {
               name: file.name,
               type: file.type,
               size: file.size,
-              content: file.content
+              content: file.content,
+              storageKey: file.storageKey
             }, dataSource);
             logger.debug(`Transformed ${fileRecords.length} records from ${file.name}`);
             records.push(...fileRecords);
             totalRecords += fileRecords.length;
           }
+        } else if (file.storageKey && detectTabularFormat(file.name, file.type)) {
+          // Excel and Parquet files have no text content; they are read from storage
+          const fileRecords = await this.transformFile({
+            name: file.name,
+            type: file.type,
+            size: file.size,
+            content: '',
+            storageKey: file.storageKey
+          }, dataSource);
+          logger.debug(`Transformed ${fileRecords.length} records from ${file.name}`);
+          records.push(...fileRecords);
+          totalRecords += fileRecords.length;
         } else {
           logger.warn(`Skipping file ${file.name} - no content available`);
         }
@@ -248,7 +286,7 @@ export class DataTransformationService {
    * Transform a file into unified records
    */
   private static async transformFile(
-    file: { name: string; type: string; size: number; content: string },
+    file: { name: string; type: string; size: number; content: string; storageKey?: string },
     dataSource: DataSource
   ): Promise<UnifiedDataRecord[]> {
     logger.debug('=== Transforming file ===', {
@@ -257,7 +295,10 @@ export class DataTransformationService {
       fileSize: file.size
     });
 
-    if (file.type === 'text/csv') {
+    const tabularFormat = detectTabularFormat(file.name, file.type);
+    if (tabularFormat) {
+      return this.transformTabular(file, tabularFormat, dataSource);
+    } else if (file.type === 'text/csv') {
       return this.transformCSV(file, dataSource);
     } else if (file.type === 'application/json') {
       return this.transformJSON(file, dataSource);
@@ -268,6 +309,57 @@ export class DataTransformationService {
     }
   }
 
+  /**
+   * Convert each worksheet or Parquet row group row to a record, reading the file from storage.
+   * Record ids and tables match those of streaming ingestion.
+   */
+  private static async transformTabular(
+    file: { name: string; type: string; size: number; storageKey?: string },
+    format: TabularFormat,
+    dataSource: DataSource
+  ): Promise<UnifiedDataRecord[]> {
+    if (!file.storageKey) {
+      logger.warn(`Skipping ${format} file ${file.name} - it is not in storage`);
+      return [];
+    }
+
+    const bytes = await StorageService.getInstance().getFile(file.storageKey);
+    const prefixTables = (dataSource.configuration.files?.length ?? 0) > 1;
+    const records: UnifiedDataRecord[] = [];
+    let row = 0;
+
+    for await (const table of readTables(bytes, format)) {
+      const tableName = prefixTables ? `${file.name} - ${table.name}` : table.name;
+      let tableRow = 0;
+      for await (const data of table.rows) {
+        records.push({
+          id: `${dataSource.id}_${file.name}_${format === 'xlsx' ? `${table.name}_row_${++tableRow}` : `record_${row++}`}`,
+          sourceId: dataSource.id,
+          sourceName: dataSource.name,
+          sourceType: dataSource.type,
+          recordIndex: records.length,
+          data,
+          metadata: {
+            originalFormat: format,
+            extractedAt: new Date().toISOString(),
+            fileInfo: {
+              name: file.name,
+              size: file.size,
+              type: file.type
+            },
+            processingInfo: {
+              method: format === 'xlsx' ? 'xlsx_worksheet' : 'parquet_row_group',
+              confidence: 1.0
+            },
+            table: tableName
+          }
+        });
+      }
+    }
+
+    return records;
+  }
+
   /**
    * Convert CSV to JSON using headers as object properties
    */
@@ -354,7 +446,7 @@ export class DataTransformationService {
   /**
    * Parse CSV value to appropriate type
    */
-  private static parseCSVValue(value: string): unknown {
+  static parseCSVValue(value: string): unknown {
     if (!value || value === '') return null;
     
     // Try to parse as number
@@ -3,7 +3,7 @@
  * Uses LLM analysis to suggest missing fields for existing datasets and generates consistent data
  */
 
-import { llmService } from './llmService';
+import { LLMGateway } from './llmGateway';
 
 export interface MissingFieldSuggestion {
   fieldName: string;
@@ -165,7 +165,8 @@ The analysis should be dynamic and adapt to ANY type of dataset in ANY language.
     
     try {
       // Use the LLM service for truly dynamic analysis
-      const response = await llmService.analyze({
+      const response = await LLMGateway.complete({
+        feature: 'dataset_enhancement',
         prompt,
         systemPrompt: 'You are an expert data analyst specializing in dataset structure analysis, data quality assessment, and global data standards. You can analyze datasets in any language and identify culturally-appropriate missing fields.',
         temperature: 0.3, // Lower temperature for more consistent analysis
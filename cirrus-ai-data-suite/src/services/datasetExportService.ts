@@ -0,0 +1,375 @@
+import { gzipSync } from 'zlib';
+import { markFileContent } from '@/utils/classification';
+import { logger } from '@/utils/logger';
+import type { UnifiedDataCatalog, UnifiedDataRecord } from './dataTransformationService';
+
+export type ExportFormat = 'json' | 'jsonl' | 'jsonl.gz' | 'csv' | 'sql' | 'parquet' | 'arrow';
+
+// Catalog field type of an exported column (string, number, integer, boolean, timestamp, date, object, array, json, mixed)
+export interface ExportColumn {
+  name: string;
+  type: string;
+}
+
+export interface ExportOptions {
+  columns?: ExportColumn[]; // Column order and types, usually from the catalog schema; inferred from the records otherwise
+  classification?: string | null;
+  prettyPrint?: boolean; // JSON only
+  delimiter?: string; // CSV only, default ','
+  includeHeaders?: boolean; // CSV only, default true
+  tableName?: string; // SQL only, default 'export'
+}
+
+export interface ExportedFile {
+  content: string | Buffer;
+  contentType: string;
+  extension: string;
+  binary: boolean;
+}
+
+export interface StreamedFile {
+  stream: ReadableStream<Uint8Array>;
+  contentType: string;
+  extension: string;
+  binary: boolean;
+}
+
+type ExportRecord = Record<string, unknown>;
+
+// Physical type a column is written as
+type ColumnKind = 'string' | 'double' | 'int64' | 'boolean' | 'timestamp' | 'json';
+
+interface ResolvedColumn {
+  name: string;
+  kind: ColumnKind;
+  values: unknown[]; // Converted for the kind: bigint for int64, Date for timestamp
+}
+
+const FORMATS: Record<ExportFormat, { contentType: string; extension: string; binary: boolean }> = {
+  json: { contentType: 'application/json', extension: 'json', binary: false },
+  jsonl: { contentType: 'application/x-ndjson', extension: 'jsonl', binary: false },
+  'jsonl.gz': { contentType: 'application/gzip', extension: 'jsonl.gz', binary: true },
+  csv: { contentType: 'text/csv', extension: 'csv', binary: false },
+  sql: { contentType: 'text/sql', extension: 'sql', binary: false },
+  parquet: { contentType: 'application/vnd.apache.parquet', extension: 'parquet', binary: true },
+  arrow: { contentType: 'application/vnd.apache.arrow.file', extension: 'arrow', binary: true }
+};
+
+/**
+ * Dataset Export Service
+ * Writes records as JSON, JSONL, gzip-compressed JSONL, CSV, SQL, Parquet or Arrow IPC files
+ * for the transform export, synthetic downloads and the pipeline File Export node.
+ */
+export class DatasetExportService {
+  static readonly FORMATS = Object.keys(FORMATS) as ExportFormat[];
+
+  static isExportFormat(format: unknown): format is ExportFormat {
+    return typeof format === 'string' && format in FORMATS;
+  }
+
+  static describe(format: ExportFormat): { contentType: string; extension: string; binary: boolean } {
+    return FORMATS[format];
+  }
+
+  /**
+   * Columns of a catalog, in schema order
+   */
+  static columnsFromCatalog(catalog: Pick<UnifiedDataCatalog, 'schema'>): ExportColumn[] {
+    return catalog.schema.fields.map(field => ({ name: field.name, type: field.type }));
+  }
+
+  /**
+   * Write records in the given format. The classification marking goes in the file header of
+   * text formats, in the key/value metadata of Parquet files and in the schema metadata of Arrow files.
+   */
+  static async exportRecords(records: ExportRecord[], format: ExportFormat, options: ExportOptions = {}): Promise<ExportedFile> {
+    const { classification } = options;
+    let content: string | Buffer;
+
+    switch (format) {
+      case 'json':
+        content = markFileContent(JSON.stringify(records, null, options.prettyPrint ? 2 : undefined), 'json', classification);
+        break;
+      case 'jsonl':
+        content = markFileContent(this.toJSONL(records), 'jsonl', classification);
+        break;
+      case 'jsonl.gz':
+        content = gzipSync(markFileContent(this.toJSONL(records), 'jsonl', classification));
+        break;
+      case 'csv':
+        content = markFileContent(this.toCSV(records, this.columnNames(records, options.columns), options), 'csv', classification);
+        break;
+      case 'sql':
+        content = markFileContent(this.toSQL(records, this.columnNames(records, options.columns), options.tableName), 'sql', classification);
+        break;
+      case 'parquet':
+        content = await this.toParquet(this.resolveColumns(records, options.columns), classification);
+        break;
+      case 'arrow':
+        content = await this.toArrow(this.resolveColumns(records, options.columns), classification);
+        break;
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+
+    return { content, ...FORMATS[format] };
+  }
+
+  /**
+   * Write batches of records as they are read. Text formats are written a batch at a time, so CSV and
+   * SQL columns come from options.columns and the first batch. Parquet and Arrow files are columnar,
+   * so their batches are collected and written once the last one has arrived.
+   */
+  static streamRecords(batches: AsyncIterable<ExportRecord[]>, format: ExportFormat, options: ExportOptions = {}): StreamedFile {
+    const stream = this.toStream(this.exportChunks(batches, format, options));
+    return {
+      stream: format === 'jsonl.gz' ? stream.pipeThrough(new CompressionStream('gzip')) : stream,
+      ...FORMATS[format]
+    };
+  }
+
+  /**
+   * A catalog as JSON with its records written a batch at a time. The marking becomes a leading
+   * "classification" property, as in other JSON exports.
+   */
+  static streamCatalog(
+    catalog: UnifiedDataCatalog,
+    batches: AsyncIterable<UnifiedDataRecord[]>,
+    classification?: string | null
+  ): ReadableStream<Uint8Array> {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { records, recordStore, ...header } = catalog;
+    const opening = JSON.stringify(classification ? { classification, ...header } : header);
+
+    return this.toStream((async function* () {
+      yield `${opening.slice(0, -1)},"records":[`;
+      let first = true;
+      for await (const batch of batches) {
+        if (batch.length === 0) continue;
+        yield `${first ? '' : ','}${batch.map(record => JSON.stringify(record)).join(',')}`;
+        first = false;
+      }
+      yield ']}';
+    })());
+  }
+
+  private static async *exportChunks(
+    batches: AsyncIterable<ExportRecord[]>,
+    format: ExportFormat,
+    options: ExportOptions
+  ): AsyncGenerator<string | Uint8Array> {
+    const { classification } = options;
+
+    if (format === 'parquet' || format === 'arrow') {
+      const records: ExportRecord[] = [];
+      for await (const batch of batches) {
+        for (const record of batch) records.push(record);
+      }
+      yield (await this.exportRecords(records, format, options)).content as Buffer;
+      return;
+    }
+
+    if (format === 'json') {
+      yield classification ? `{"classification":${JSON.stringify(classification)},"records":[` : '[';
+      let first = true;
+      for await (const batch of batches) {
+        if (batch.length === 0) continue;
+        yield `${first ? '' : ','}${batch.map(record => JSON.stringify(record)).join(',')}`;
+        first = false;
+      }
+      yield classification ? ']}' : ']';
+      return;
+    }
+
+    const textFormat = format === 'jsonl.gz' ? 'jsonl' : format;
+    const includeHeaders = format === 'csv' && options.includeHeaders !== false;
+    let headers: string[] | undefined;
+    for await (const batch of batches) {
+      if (batch.length === 0) continue;
+      const first = !headers;
+      headers ??= this.columnNames(batch, options.columns);
+      const text = format === 'csv'
+        ? this.toCSV(batch, headers, { ...options, includeHeaders: first && includeHeaders })
+        : format === 'sql' ? this.toSQL(batch, headers, options.tableName) : this.toJSONL(batch);
+      yield first ? markFileContent(text, textFormat, classification) : `\n${text}`;
+    }
+    if (!headers) {
+      const empty = includeHeaders ? this.columnNames([], options.columns).join(options.delimiter || ',') : '';
+      yield markFileContent(empty, textFormat, classification);
+    }
+  }
+
+  private static toStream(chunks: AsyncGenerator<string | Uint8Array>): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    return new ReadableStream({
+      async pull(controller) {
+        try {
+          const next = await chunks.next();
+          if (next.done) {
+            controller.close();
+            return;
+          }
+          controller.enqueue(typeof next.value === 'string' ? encoder.encode(next.value) : next.value);
+        } catch (error) {
+          logger.error('Streaming export failed:', error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      }
+    });
+  }
+
+  private static toJSONL(records: ExportRecord[]): string {
+    return records.map(record => JSON.stringify(record)).join('\n');
+  }
+
+  private static toCSV(records: ExportRecord[], headers: string[], options: ExportOptions): string {
+    const delimiter = options.delimiter || ',';
+    const escape = (value: unknown): string => {
+      if (value === null || value === undefined) return '';
+      const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return text.includes(delimiter) || text.includes('"') || text.includes('\n')
+        ? `"${text.replace(/"/g, '""')}"`
+        : text;
+    };
+    const rows = records.map(record => headers.map(header => escape(record[header])).join(delimiter));
+    return (options.includeHeaders !== false ? [headers.join(delimiter), ...rows] : rows).join('\n');
+  }
+
+  private static toSQL(records: ExportRecord[], headers: string[], tableName = 'export'): string {
+    const table = tableName.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+    const literal = (value: unknown): string => {
+      if (value === null || value === undefined) return 'NULL';
+      if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+      if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+      const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return `'${text.replace(/'/g, "''")}'`;
+    };
+    return records
+      .map(record => `INSERT INTO ${table} (${headers.join(', ')}) VALUES (${headers.map(header => literal(record[header])).join(', ')});`)
+      .join('\n');
+  }
+
+  private static async toParquet(columns: ResolvedColumn[], classification: string | null | undefined): Promise<Buffer> {
+    // hyparquet-writer is ESM-only, so it is loaded on first use
+    const { parquetWriteBuffer } = await import('hyparquet-writer');
+    const types = { string: 'STRING', double: 'DOUBLE', int64: 'INT64', boolean: 'BOOLEAN', timestamp: 'TIMESTAMP', json: 'JSON' } as const;
+
+    const buffer = parquetWriteBuffer({
+      columnData: columns.map(column => ({ name: column.name, data: column.values, type: types[column.kind], nullable: true })),
+      kvMetadata: classification ? [{ key: 'classification', value: classification }] : undefined
+    });
+    return Buffer.from(buffer);
+  }
+
+  private static async toArrow(columns: ResolvedColumn[], classification: string | null | undefined): Promise<Buffer> {
+    const arrow = await import('apache-arrow');
+    const typeOf = (kind: ColumnKind) => {
+      switch (kind) {
+        case 'double': return new arrow.Float64();
+        case 'int64': return new arrow.Int64();
+        case 'boolean': return new arrow.Bool();
+        case 'timestamp': return new arrow.TimestampMillisecond();
+        default: return new arrow.Utf8();
+      }
+    };
+
+    const table = new arrow.Table(Object.fromEntries(columns.map(column => [
+      column.name,
+      arrow.vectorFromArray(
+        column.kind === 'timestamp' ? column.values.map(value => (value as Date | null)?.getTime() ?? null)
+          : column.kind === 'json' ? column.values.map(value => (value === null ? null : JSON.stringify(value)))
+          : column.values,
+        typeOf(column.kind)
+      )
+    ])));
+    // Arrow has no JSON type; the canonical extension name marks JSON text columns
+    const fields = table.schema.fields.map(field => {
+      const json = columns.find(column => column.name === field.name)?.kind === 'json';
+      return new arrow.Field(field.name, field.type, true, json ? new Map([['ARROW:extension:name', 'arrow.json']]) : undefined);
+    });
+    const metadata = new Map(classification ? [['classification', classification]] : []);
+    return Buffer.from(arrow.tableToIPC(new arrow.Table(new arrow.Schema(fields, metadata), table.batches), 'file'));
+  }
+
+  private static columnNames(records: ExportRecord[], columns: ExportColumn[] = []): string[] {
+    const names = new Set(columns.map(column => column.name));
+    for (const record of records) {
+      for (const key of Object.keys(record)) names.add(key);
+    }
+    return Array.from(names);
+  }
+
+  /**
+   * Pick a physical type for each column from its catalog type, falling back to text when a value does not fit
+   */
+  private static resolveColumns(records: ExportRecord[], columns: ExportColumn[] = []): ResolvedColumn[] {
+    const declared = new Map(columns.map(column => [column.name, column.type]));
+
+    return this.columnNames(records, columns).map(name => {
+      const raw = records.map(record => record[name] ?? null);
+      const type = declared.get(name) ?? this.inferType(raw);
+      const kind = this.kindOf(type, raw);
+      const converted = raw.map(value => (value === null ? null : this.convert(value, kind)));
+
+      if (converted.some(value => value === undefined)) {
+        return { name, kind: 'string' as const, values: raw.map(value => (value === null ? null : this.toText(value))) };
+      }
+      return { name, kind, values: converted };
+    });
+  }
+
+  private static inferType(values: unknown[]): string {
+    const types = new Set(values
+      .filter(value => value !== null)
+      .map(value => (value instanceof Date ? 'timestamp' : typeof value)));
+    return types.size === 1 ? Array.from(types)[0] : 'mixed';
+  }
+
+  private static kindOf(type: string, values: unknown[]): ColumnKind {
+    switch (type) {
+      case 'boolean': return 'boolean';
+      case 'integer': case 'bigint': return 'int64';
+      case 'timestamp': case 'date': return 'timestamp';
+      case 'object': case 'array': case 'json': return 'json';
+      case 'number':
+        // Counts and identifiers stay integers when every value is whole
+        return values.every(value => value === null || Number.isSafeInteger(value)) && values.some(value => value !== null)
+          ? 'int64'
+          : 'double';
+      default: return 'string';
+    }
+  }
+
+  /**
+   * Convert a value to a column kind, or undefined when it does not fit
+   */
+  private static convert(value: unknown, kind: ColumnKind): unknown {
+    switch (kind) {
+      case 'boolean':
+        return typeof value === 'boolean' ? value : undefined;
+      case 'double':
+        return typeof value === 'number' ? value : undefined;
+      case 'int64':
+        if (typeof value === 'bigint') return value;
+        if (typeof value === 'number') return Number.isSafeInteger(value) ? BigInt(value) : undefined;
+        // Readers return integers beyond the safe range as strings
+        return typeof value === 'string' && /^-?\d+$/.test(value) ? BigInt(value) : undefined;
+      case 'timestamp': {
+        const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : undefined;
+        return date && !isNaN(date.getTime()) ? date : undefined;
+      }
+      case 'json':
+        return value;
+      default:
+        return this.toText(value);
+    }
+  }
+
+  private static toText(value: unknown): string {
+    if (value instanceof Date) return value.toISOString();
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Document Redaction Service
+ * Redacts PDF and Word documents in place of their original layout. Saved patterns find candidate
+ * spans, a reviewer accepts or rejects each one, and only accepted spans are removed: PDFs lose the
+ * glyphs under a black box, Word documents get the redaction style's replacement in the same run.
+ */
+
+import { getDatabase } from '@/database/connection';
+import { DocumentRedactionEntity } from '@/entities/DocumentRedactionEntity';
+import { StorageService } from './storage/storageService';
+import { PatternService, Pattern } from './patternService';
+import { RedactionJobError, RedactionJobService } from './redactionJobService';
+import { PseudonymizationService } from './pseudonymizationService';
+import type { RedactionStyle } from './patternTestingService';
+import { extractPdfText, redactPdf } from '@/utils/pdfRedaction';
+import { extractDocxText, redactDocx } from '@/utils/docxRedaction';
+import { logger } from '@/utils/logger';
+import type { DocumentLocation, DocumentRedactionMatch, MatchDecision, RedactableDocumentType } from '@/types/redaction';
+
+interface TextSegment {
+  location: DocumentLocation;
+  text: string;
+}
+
+const CONTEXT_CHARS = 40;
+const DEFAULT_STYLE: RedactionStyle = { type: 'full', format: '[REDACTED]' };
+const CONTENT_TYPES: Record<RedactableDocumentType, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+export class DocumentRedactionService {
+  /**
+   * Recognize a PDF by its header and a Word document by its zip signature and extension
+   */
+  static detectDocumentType(fileName: string, bytes: Uint8Array): RedactableDocumentType | null {
+    const header = Buffer.from(bytes.subarray(0, 5)).toString('latin1');
+    if (header === '%PDF-') return 'pdf';
+    if (header.startsWith('PK') && fileName.toLowerCase().endsWith('.docx')) return 'docx';
+    return null;
+  }
+
+  /**
+   * Find pattern matches in an uploaded document and save it for review
+   */
+  static async createReview(
+    file: { name: string; bytes: Uint8Array },
+    patternIds: string[],
+    style: RedactionStyle = DEFAULT_STYLE,
+    createdBy?: string
+  ): Promise<DocumentRedactionEntity> {
+    const documentType = this.detectDocumentType(file.name, file.bytes);
+    if (!documentType) {
+      throw new RedactionJobError('Only PDF and DOCX documents can be redacted');
+    }
+    if (patternIds.length === 0) {
+      throw new RedactionJobError('At least one pattern is required');
+    }
+    if (documentType === 'docx' && PseudonymizationService.isPseudonymStyle(style) && !PseudonymizationService.isConfigured()) {
+      throw new RedactionJobError('Pseudonymization key not configured. Set PSEUDONYMIZATION_KEY.', 503);
+    }
+
+    const patterns = await Promise.all(patternIds.map(id => PatternService.getPatternById(id)));
+    const missing = patternIds.filter((_, i) => !patterns[i]);
+    if (missing.length > 0) {
+      throw new RedactionJobError(`Patterns not found: ${missing.join(', ')}`);
+    }
+
+    const matches = await this.findMatches(documentType, file.bytes, patterns as Pattern[]);
+
+    const db = await getDatabase();
+    const repository = db.getRepository(DocumentRedactionEntity);
+    const review = await repository.save(repository.create({
+      fileName: file.name,
+      documentType,
+      fileSize: file.bytes.length,
+      patternIds,
+      style,
+      matches,
+      status: 'review',
+      createdBy
+    }));
+
+    const upload = await StorageService.getInstance().uploadFile(
+      `document-redactions/${review.id}/original-${file.name}`,
+      Buffer.from(file.bytes),
+      { contentType: CONTENT_TYPES[documentType] }
+    );
+    review.storageKey = upload.key;
+    return repository.save(review);
+  }
+
+  static async getAllReviews(): Promise<DocumentRedactionEntity[]> {
+    const db = await getDatabase();
+    return db.getRepository(DocumentRedactionEntity).find({ order: { createdAt: 'DESC' } });
+  }
+
+  static async getReview(id: string): Promise<DocumentRedactionEntity | null> {
+    const db = await getDatabase();
+    return db.getRepository(DocumentRedactionEntity).findOne({ where: { id } });
+  }
+
+  /**
+   * Record reviewer decisions. `all` applies to every match not named in `decisions`.
+   */
+  static async review(
+    id: string,
+    decisions: Record<string, MatchDecision>,
+    all?: MatchDecision,
+    reviewedBy?: string
+  ): Promise<DocumentRedactionEntity> {
+    const review = await this.requireReview(id);
+    if (review.status === 'redacted') {
+      throw new RedactionJobError('This document has already been redacted');
+    }
+
+    const unknown = Object.keys(decisions).filter(matchId => !review.matches.some(match => match.id === matchId));
+    if (unknown.length > 0) {
+      throw new RedactionJobError(`Unknown matches: ${unknown.join(', ')}`);
+    }
+
+    review.matches = review.matches.map(match => ({
+      ...match,
+      decision: decisions[match.id] ?? all ?? match.decision
+    }));
+    review.reviewedBy = reviewedBy;
+
+    const db = await getDatabase();
+    return db.getRepository(DocumentRedactionEntity).save(review);
+  }
+
+  /**
+   * Produce the redacted document from the accepted matches. Every match must have been reviewed,
+   * and the result is checked so a span that was not removed fails the redaction instead of shipping.
+   */
+  static async apply(id: string, reviewedBy?: string): Promise<DocumentRedactionEntity> {
+    const review = await this.requireReview(id);
+    const pending = review.matches.filter(match => match.decision === 'pending').length;
+    if (pending > 0) {
+      throw new RedactionJobError(`${pending} matches still need a decision`);
+    }
+
+    const storage = StorageService.getInstance();
+    const original = new Uint8Array(await storage.getFile(review.storageKey!));
+    const accepted = review.matches.filter(match => match.decision === 'accepted');
+
+    const redacted = review.documentType === 'pdf'
+      ? await this.redactPdfDocument(original, accepted)
+      : await this.redactWordDocument(original, accepted, review.style);
+
+    const upload = await storage.uploadFile(
+      `document-redactions/${review.id}/redacted-${review.fileName}`,
+      Buffer.from(redacted),
+      { contentType: CONTENT_TYPES[review.documentType] }
+    );
+
+    review.redactedStorageKey = upload.key;
+    review.status = 'redacted';
+    review.redactedAt = new Date();
+    review.reviewedBy = reviewedBy ?? review.reviewedBy;
+
+    const db = await getDatabase();
+    const saved = await db.getRepository(DocumentRedactionEntity).save(review);
+    logger.info(`Redacted ${accepted.length} of ${review.matches.length} matches in ${review.fileName}`);
+    return saved;
+  }
+
+  static async getRedactedFile(id: string): Promise<{ fileName: string; contentType: string; content: Buffer }> {
+    const review = await this.requireReview(id);
+    if (!review.redactedStorageKey) {
+      throw new RedactionJobError('This document has not been redacted yet');
+    }
+    return {
+      fileName: `redacted-${review.fileName}`,
+      contentType: CONTENT_TYPES[review.documentType],
+      content: await StorageService.getInstance().getFile(review.redactedStorageKey)
+    };
+  }
+
+  static async deleteReview(id: string): Promise<void> {
+    const review = await this.requireReview(id);
+    const keys = [review.storageKey, review.redactedStorageKey].filter((key): key is string => !!key);
+    await StorageService.getInstance().deleteFiles(keys);
+
+    const db = await getDatabase();
+    await db.getRepository(DocumentRedactionEntity).delete(id);
+  }
+
+  private static async requireReview(id: string): Promise<DocumentRedactionEntity> {
+    const review = await this.getReview(id);
+    if (!review) {
+      throw new RedactionJobError('Document redaction not found', 404);
+    }
+    return review;
+  }
+
+  private static async findMatches(
+    documentType: RedactableDocumentType,
+    bytes: Uint8Array,
+    patterns: Pattern[]
+  ): Promise<DocumentRedactionMatch[]> {
+    const compiled = RedactionJobService.compilePatterns(patterns);
+    const pdfPages = documentType === 'pdf' ? await extractPdfText(bytes) : null;
+    const segments: TextSegment[] = pdfPages
+      ? pdfPages.map(page => ({ location: { page: page.page }, text: page.text }))
+      : (await extractDocxText(bytes)).map(paragraph => ({
+        location: { part: paragraph.part, paragraph: paragraph.index },
+        text: paragraph.text
+      }));
+    const matches: DocumentRedactionMatch[] = [];
+
+    for (const segment of segments) {
+      for (const span of RedactionJobService.findMatches(segment.text, '', compiled)) {
+        const match: DocumentRedactionMatch = {
+          id: `m${matches.length + 1}`,
+          pattern: span.pattern,
+          value: segment.text.slice(span.start, span.end),
+          location: segment.location,
+          start: span.start,
+          end: span.end,
+          context: segment.text.slice(Math.max(0, span.start - CONTEXT_CHARS), span.end + CONTEXT_CHARS),
+          decision: 'pending'
+        };
+
+        if (pdfPages && 'page' in segment.location) {
+          const page = pdfPages[segment.location.page - 1];
+          match.boxes = page.chars.slice(span.start, span.end)
+            .filter((source): source is [number, number] => !!source)
+            .map(([run, glyph]) => page.runs[run].glyphs[glyph].box);
+        }
+        matches.push(match);
+      }
+    }
+
+    return matches;
+  }
+
+  private static async redactPdfDocument(bytes: Uint8Array, accepted: DocumentRedactionMatch[]): Promise<Uint8Array> {
+    const pages = await extractPdfText(bytes);
+    const areas = accepted.flatMap(match => ('page' in match.location ? [{ page: match.location.page, start: match.start, end: match.end }] : []));
+    const result = await redactPdf(bytes, pages, areas);
+
+    const after = await extractPdfText(result.bytes);
+    this.verify(accepted, segment => {
+      const page = 'page' in segment ? segment.page : 0;
+      return [pages[page - 1]?.text ?? '', after[page - 1]?.text ?? ''];
+    });
+    return result.bytes;
+  }
+
+  private static async redactWordDocument(
+    bytes: Uint8Array,
+    accepted: DocumentRedactionMatch[],
+    style: RedactionStyle
+  ): Promise<Uint8Array> {
+    const replace = RedactionJobService.createReplacer(style);
+    const areas = accepted.flatMap(match => ('part' in match.location
+      ? [{ part: match.location.part, paragraph: match.location.paragraph, start: match.start, end: match.end, replacement: replace(match.value, match.pattern) }]
+      : []));
+    const result = await redactDocx(bytes, areas);
+    if (PseudonymizationService.isPseudonymStyle(style)) {
+      await PseudonymizationService.flushVault();
+    }
+
+    const before = await extractDocxText(bytes);
+    const after = await extractDocxText(result);
+    const partText = (paragraphs: typeof before, part: string) =>
+      paragraphs.filter(paragraph => paragraph.part === part).map(paragraph => paragraph.text).join('\n');
+    this.verify(accepted, location => {
+      const part = 'part' in location ? location.part : '';
+      return [partText(before, part), partText(after, part)];
+    });
+    return result;
+  }
+
+  /**
+   * Each accepted value must occur fewer times after redaction, by the number of accepted matches
+   * for it in the same page or part
+   */
+  private static verify(accepted: DocumentRedactionMatch[], texts: (location: DocumentLocation) => [string, string]): void {
+    const groups = new Map<string, { location: DocumentLocation; value: string; count: number }>();
+    for (const match of accepted) {
+      const key = JSON.stringify(['page' in match.location ? match.location.page : match.location.part, match.value]);
+      const group = groups.get(key) ?? { location: match.location, value: match.value, count: 0 };
+      group.count++;
+      groups.set(key, group);
+    }
+
+    const occurrences = (text: string, value: string) => text.split(value).length - 1;
+    for (const { location, value, count } of groups.values()) {
+      const [before, after] = texts(location);
+      if (occurrences(after, value) > occurrences(before, value) - count) {
+        throw new Error(`Redaction could not remove every accepted match of "${value.slice(0, 3)}…"; the document was not saved`);
+      }
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Environment Service
+ * Deployment targets and their accreditation. Administrators configure them in DEPLOYMENT_ENVIRONMENTS,
+ * a JSON list of { id, name, securityLevel, audience, accreditedControls }; pipelines only name the
+ * target, so they cannot claim a higher accreditation than it has.
+ */
+
+import { Environment, EnvironmentAudience } from '@/types/environments';
+import { DISSEMINATION_CONTROLS, ENVIRONMENT_MAX_LEVEL } from '@/utils/classification';
+import { logger } from '@/utils/logger';
+
+export type DeploymentEnvironment = Pick<Environment, 'id' | 'name' | 'securityLevel' | 'audience' | 'accreditedControls'>;
+
+const AUDIENCES: EnvironmentAudience[] = ['USA', 'FVEY', 'NATO'];
+
+export class EnvironmentService {
+  /**
+   * Configured deployment environments. Entries with an unknown security level, audience or control are skipped.
+   */
+  static getDeploymentEnvironments(): DeploymentEnvironment[] {
+    const value = process.env.DEPLOYMENT_ENVIRONMENTS;
+    if (!value) return [];
+
+    let entries: unknown;
+    try {
+      entries = JSON.parse(value);
+    } catch {
+      logger.warn('Ignoring invalid JSON in DEPLOYMENT_ENVIRONMENTS');
+      return [];
+    }
+    if (!Array.isArray(entries)) {
+      logger.warn('DEPLOYMENT_ENVIRONMENTS must be a JSON list');
+      return [];
+    }
+
+    return entries.filter((entry): entry is DeploymentEnvironment => {
+      const valid = this.isValidEnvironment(entry);
+      if (!valid) {
+        logger.warn('Skipping invalid deployment environment:', entry);
+      }
+      return valid;
+    });
+  }
+
+  static getDeploymentEnvironment(id: string): DeploymentEnvironment | undefined {
+    return this.getDeploymentEnvironments().find(environment => environment.id === id);
+  }
+
+  private static isValidEnvironment(entry: unknown): boolean {
+    if (!entry || typeof entry !== 'object') return false;
+    const environment = entry as Partial<Record<keyof DeploymentEnvironment, unknown>>;
+    const controls = environment.accreditedControls;
+    return typeof environment.id === 'string' && environment.id !== '' &&
+      typeof environment.name === 'string' &&
+      typeof environment.securityLevel === 'string' && environment.securityLevel in ENVIRONMENT_MAX_LEVEL &&
+      (environment.audience === undefined || AUDIENCES.includes(environment.audience as EnvironmentAudience)) &&
+      (controls === undefined || (Array.isArray(controls) && controls.every(control => (DISSEMINATION_CONTROLS as unknown[]).includes(control))));
+  }
+}
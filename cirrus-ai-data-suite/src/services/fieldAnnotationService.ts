@@ -2,6 +2,7 @@ import { getDatabase } from '@/database/connection';
 import { FieldAnnotationEntity } from '@/entities/FieldAnnotationEntity';
 import { FieldRelationshipEntity } from '@/entities/FieldRelationshipEntity';
 import { logger } from '@/utils/logger';
+import { isValidMarking, normalizeMarking } from '@/utils/classification';
 
 export interface FieldAnnotationData {
   dataSourceId: string;
@@ -14,6 +15,7 @@ export interface FieldAnnotationData {
   isPII?: boolean;
   piiType?: string;
   sensitivityLevel?: string;
+  classification?: string | null;
   tags?: string[];
   isNullable?: boolean;
   isUnique?: boolean;
@@ -31,8 +33,96 @@ export interface FieldRelationshipData {
   metadata?: Record<string, unknown>;
 }
 
+type FieldKind = 'string' | 'boolean' | 'number' | 'strings' | 'object' | 'marking';
+
+const ANNOTATION_FIELDS: Record<keyof FieldAnnotationData, FieldKind> = {
+  dataSourceId: 'string',
+  fieldPath: 'string',
+  fieldName: 'string',
+  semanticType: 'string',
+  description: 'string',
+  businessContext: 'string',
+  dataType: 'string',
+  isPII: 'boolean',
+  piiType: 'string',
+  sensitivityLevel: 'string',
+  classification: 'marking',
+  tags: 'strings',
+  isNullable: 'boolean',
+  isUnique: 'boolean',
+  exampleValues: 'strings',
+  metadata: 'object'
+};
+
+const RELATIONSHIP_FIELDS: Record<keyof FieldRelationshipData, FieldKind> = {
+  sourceFieldId: 'string',
+  targetFieldId: 'string',
+  relationshipType: 'string',
+  description: 'string',
+  confidence: 'number',
+  isVerified: 'boolean',
+  metadata: 'object'
+};
+
+function hasKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'strings':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'marking':
+      return isValidMarking(value);
+    default:
+      return typeof value === kind;
+  }
+}
+
+/**
+ * Copy the known fields of a request body, or return null when one has the wrong type.
+ * Anything else in the body (ids, audit columns) is dropped.
+ */
+function pickFields<T>(body: unknown, fields: Record<keyof T, FieldKind>, required: Array<keyof T>): Partial<T> | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return null;
+  const source = body as Record<string, unknown>;
+  const picked: Partial<T> = {};
+
+  for (const [key, kind] of Object.entries(fields) as Array<[keyof T & string, FieldKind]>) {
+    const value = source[key];
+    if (value === undefined) continue;
+    if (!hasKind(value, kind)) return null;
+    picked[key] = value as T[keyof T & string];
+  }
+  return required.every(key => picked[key]) ? picked : null;
+}
+
+/**
+ * Annotation to create or update from a request body, or null when it is invalid
+ */
+export function parseFieldAnnotationData(body: unknown): FieldAnnotationData | null {
+  return pickFields<FieldAnnotationData>(body, ANNOTATION_FIELDS, ['dataSourceId', 'fieldPath', 'fieldName']) as FieldAnnotationData | null;
+}
+
+/**
+ * Changes to an existing annotation from a request body, or null when they are invalid.
+ * The data source and field path identify the annotation and cannot be changed.
+ */
+export function parseFieldAnnotationUpdate(body: unknown): Partial<FieldAnnotationData> | null {
+  const update = pickFields<FieldAnnotationData>(body, ANNOTATION_FIELDS, []);
+  if (!update) return null;
+  delete update.dataSourceId;
+  delete update.fieldPath;
+  return update;
+}
+
+/**
+ * Relationship to create from a request body, or null when it is invalid
+ */
+export function parseFieldRelationshipData(body: unknown): FieldRelationshipData | null {
+  return pickFields<FieldRelationshipData>(body, RELATIONSHIP_FIELDS, ['sourceFieldId', 'targetFieldId', 'relationshipType']) as FieldRelationshipData | null;
+}
+
 export class FieldAnnotationService {
-  static async createOrUpdate(data: FieldAnnotationData): Promise<FieldAnnotationEntity> {
+  static async createOrUpdate(data: FieldAnnotationData, performedBy?: string): Promise<FieldAnnotationEntity> {
     const database = await getDatabase();
     const repository = database.getRepository(FieldAnnotationEntity);
 
@@ -45,14 +135,16 @@ export class FieldAnnotationService {
         }
       });
 
+      const values = this.normalizeClassification(data);
       if (annotation) {
         // Update existing annotation
-        Object.assign(annotation, data);
+        Object.assign(annotation, values);
       } else {
         // Create new annotation
-        annotation = repository.create(data);
+        annotation = repository.create(values);
       }
 
+      this.recordAuthor(annotation, performedBy);
       return await repository.save(annotation);
     } catch (error) {
       logger.error('Error creating/updating field annotation:', error);
@@ -60,7 +152,7 @@ export class FieldAnnotationService {
     }
   }
 
-  static async bulkCreateOrUpdate(annotations: FieldAnnotationData[]): Promise<FieldAnnotationEntity[]> {
+  static async bulkCreateOrUpdate(annotations: FieldAnnotationData[], performedBy?: string): Promise<FieldAnnotationEntity[]> {
     const database = await getDatabase();
     const repository = database.getRepository(FieldAnnotationEntity);
 
@@ -91,12 +183,10 @@ export class FieldAnnotationService {
           const key = `${data.dataSourceId}:${data.fieldPath}`;
           const existing = existingMap.get(key);
 
-          if (existing) {
-            Object.assign(existing, data);
-            toSave.push(existing);
-          } else {
-            toSave.push(repository.create(data));
-          }
+          const values = this.normalizeClassification(data);
+          const annotation = existing ? Object.assign(existing, values) : repository.create(values);
+          this.recordAuthor(annotation, performedBy);
+          toSave.push(annotation);
         }
 
         const saved = await repository.save(toSave);
@@ -138,7 +228,7 @@ export class FieldAnnotationService {
     });
   }
 
-  static async updateById(id: string, data: Partial<FieldAnnotationData>): Promise<FieldAnnotationEntity | null> {
+  static async updateById(id: string, data: Partial<FieldAnnotationData>, performedBy?: string): Promise<FieldAnnotationEntity | null> {
     const database = await getDatabase();
     const repository = database.getRepository(FieldAnnotationEntity);
 
@@ -150,10 +240,34 @@ export class FieldAnnotationService {
       return null;
     }
 
-    Object.assign(annotation, data);
+    Object.assign(annotation, this.normalizeClassification(data));
+    this.recordAuthor(annotation, performedBy);
     return await repository.save(annotation);
   }
 
+  /**
+   * Validate a classification marking and write it in canonical form
+   */
+  private static normalizeClassification<T extends Partial<FieldAnnotationData>>(data: T): T {
+    if (data.classification === undefined) {
+      return data;
+    }
+    return { ...data, classification: normalizeMarking(data.classification) };
+  }
+
+  /**
+   * Stamp the user making a change; new annotations also get their creator
+   */
+  private static recordAuthor(annotation: FieldAnnotationEntity, performedBy?: string): void {
+    if (!performedBy) {
+      return;
+    }
+    if (!annotation.id) {
+      annotation.createdBy = performedBy;
+    }
+    annotation.updatedBy = performedBy;
+  }
+
   static async searchAnnotations(query: string): Promise<FieldAnnotationEntity[]> {
     const database = await getDatabase();
     const repository = database.getRepository(FieldAnnotationEntity);
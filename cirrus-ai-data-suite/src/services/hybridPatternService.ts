@@ -1,6 +1,8 @@
 import { ContextAwarePatternService, ContextMatch } from './contextAwarePatternService';
 import { FieldAwarePatternService } from './fieldAwarePatternService';
 import { RelationshipDetectionService, RelationshipMatch } from './relationshipDetectionService';
+import { LocalNerService } from './localNerService';
+import type { MLEntity } from './mlPatternService';
 
 export interface HybridMatch {
   patternName: string;
@@ -9,12 +11,28 @@ export interface HybridMatch {
   confidence: number;
   startIndex: number;
   endIndex: number;
-  method: 'field-aware' | 'context-aware';
+  method: 'field-aware' | 'context-aware' | 'ml-ner';
   reason: string;
   fieldName?: string; // Only for field-aware matches
-  context?: string;   // Only for context-aware matches
+  context?: string;   // Only for context-aware and ml-ner matches
 }
 
+// Pattern name and category reported for each entity type found by the local recognizer
+const NER_PATTERNS: Record<MLEntity['type'], { patternName: string; category: string }> = {
+  PERSON: { patternName: 'Person Name', category: 'PII' },
+  ORGANIZATION: { patternName: 'Organization', category: 'PII' },
+  LOCATION: { patternName: 'Location', category: 'PII' },
+  ADDRESS: { patternName: 'Address', category: 'PII' },
+  DATE: { patternName: 'Date', category: 'PII' },
+  TIME: { patternName: 'Time', category: 'PII' },
+  EMAIL: { patternName: 'Email Address', category: 'PII' },
+  PHONE: { patternName: 'Phone Number', category: 'PII' },
+  SSN: { patternName: 'Social Security Number', category: 'PII' },
+  CREDIT_CARD: { patternName: 'Credit Card Number', category: 'Financial' },
+  MONEY: { patternName: 'Monetary Amount', category: 'Financial' },
+  OTHER: { patternName: 'Other', category: 'PII' }
+};
+
 export interface HybridDetectionResult {
   matches: HybridMatch[];
   relationships: RelationshipMatch[];
@@ -22,6 +40,7 @@ export interface HybridDetectionResult {
     total: number;
     fieldAware: number;
     contextAware: number;
+    mlNer: number;
     averageConfidence: number;
     byCategory: Record<string, number>;
     relationships: {
@@ -38,20 +57,25 @@ export class HybridPatternService {
   private contextService = new ContextAwarePatternService();
   private fieldService = new FieldAwarePatternService();
   private relationshipService = new RelationshipDetectionService();
+  private nerService: LocalNerService | null;
+
+  constructor(options: { useLocalNer?: boolean } = {}) {
+    this.nerService = options.useLocalNer === false ? null : new LocalNerService();
+  }
 
   /**
    * Detect patterns using hybrid approach:
    * - Field-aware detection for structured data (key: value format)
    * - Context-aware detection for unstructured text
+   * - Local entity recognition for names, organizations and places the patterns miss
    */
   detectPatterns(content: string): HybridMatch[] {
     const isStructuredData = this.isStructuredData(content);
-    
-    if (isStructuredData) {
-      return this.detectStructuredPatterns(content);
-    } else {
-      return this.detectUnstructuredPatterns(content);
-    }
+    const matches = isStructuredData
+      ? this.detectStructuredPatterns(content)
+      : this.detectUnstructuredPatterns(content);
+
+    return [...matches, ...this.detectEntities(content, matches)];
   }
 
   /**
@@ -144,6 +168,28 @@ export class HybridPatternService {
     }));
   }
 
+  /**
+   * Use the in-process entity recognizer, keeping only entities no pattern already covers
+   */
+  private detectEntities(content: string, existing: HybridMatch[]): HybridMatch[] {
+    if (!this.nerService) {
+      return [];
+    }
+
+    return this.nerService.recognize(content)
+      .filter(entity => !existing.some(match => entity.start < match.endIndex && match.startIndex < entity.end))
+      .map(entity => ({
+        ...NER_PATTERNS[entity.type],
+        value: entity.text,
+        confidence: entity.confidence,
+        startIndex: entity.start,
+        endIndex: entity.end,
+        method: 'ml-ner' as const,
+        reason: `local entity recognition: ${entity.label}`,
+        context: `${content.substring(Math.max(0, entity.start - 30), entity.start)}...${content.substring(entity.end, entity.end + 30)}`
+      }));
+  }
+
   /**
    * Generate human-readable reason for context-aware matches
    */
@@ -217,11 +263,13 @@ export class HybridPatternService {
     total: number;
     fieldAware: number;
     contextAware: number;
+    mlNer: number;
     averageConfidence: number;
     byCategory: Record<string, number>;
   } {
     const fieldAware = matches.filter(m => m.method === 'field-aware').length;
     const contextAware = matches.filter(m => m.method === 'context-aware').length;
+    const mlNer = matches.filter(m => m.method === 'ml-ner').length;
     
     const byCategory: Record<string, number> = {};
     matches.forEach(match => {
@@ -236,6 +284,7 @@ export class HybridPatternService {
       total: matches.length,
       fieldAware,
       contextAware,
+      mlNer,
       averageConfidence: Math.round(avgConfidence * 100) / 100,
       byCategory
     };
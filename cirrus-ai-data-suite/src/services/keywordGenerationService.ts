@@ -1,4 +1,6 @@
 import { DataSourceService } from './dataSourceService';
+import { LLMGateway } from './llmGateway';
+import { RecordStoreService } from './recordStoreService';
 import { logger } from '@/utils/logger';
 import { getDatabase } from '@/database/connection';
 import { DataSourceEntity } from '@/entities/DataSourceEntity';
@@ -100,8 +102,8 @@ export class KeywordGenerationService {
     // Sample data if available
     if (dataSource.transformedData) {
       try {
-        const transformedData = JSON.parse(dataSource.transformedData);
-        if (transformedData.records && transformedData.records.length > 0) {
+        const transformedData = await RecordStoreService.loadCatalog(dataSource, { limit: 3 });
+        if (transformedData && transformedData.records.length > 0) {
           // Extract first few records
           const sampleRecords = transformedData.records.slice(0, 3);
           contextParts.push('\nSample data:');
@@ -178,68 +180,19 @@ Respond with JSON only:
     const userPrompt = `Analyze this data source and generate keywords:\n\n${context}`;
 
     try {
-      // Check for API key
-      if (!process.env.OPENAI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
+      if (!LLMGateway.isConfigured('keyword_generation')) {
         // Generate mock keywords based on data source name
         return this.generateMockKeywords(context);
       }
 
-      // Call appropriate LLM API
-      if (process.env.OPENAI_API_KEY) {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
-          },
-          body: JSON.stringify({
-            model: 'gpt-4',
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt }
-            ],
-            temperature: 0.3,
-            max_tokens: 500
-          })
-        });
-
-        if (!response.ok) {
-          throw new Error(`OpenAI API error: ${response.statusText}`);
-        }
-
-        const data = await response.json();
-        const result = JSON.parse(data.choices[0].message.content);
-        return result as KeywordAnalysis;
-      }
-
-      if (process.env.ANTHROPIC_API_KEY) {
-        const response = await fetch('https://api.anthropic.com/v1/messages', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': process.env.ANTHROPIC_API_KEY,
-            'anthropic-version': '2023-06-01'
-          },
-          body: JSON.stringify({
-            model: 'claude-3-haiku-20240307', // Use smaller model for keyword generation
-            max_tokens: 500,
-            temperature: 0.3,
-            messages: [
-              { role: 'user', content: `${systemPrompt}\n\n${userPrompt}` }
-            ]
-          })
-        });
-
-        if (!response.ok) {
-          throw new Error(`Anthropic API error: ${response.statusText}`);
-        }
-
-        const data = await response.json();
-        const result = JSON.parse(data.content[0].text);
-        return result as KeywordAnalysis;
-      }
-
-      return this.generateMockKeywords(context);
+      const response = await LLMGateway.complete({
+        feature: 'keyword_generation',
+        systemPrompt,
+        prompt: userPrompt,
+        temperature: 0.3,
+        maxTokens: 500
+      });
+      return JSON.parse(response.content) as KeywordAnalysis;
     } catch (error) {
       logger.error('Failed to call LLM for keyword generation:', error);
       return this.generateMockKeywords(context);
@@ -0,0 +1,320 @@
+/**
+ * LLM Gateway
+ * Single entry point for every LLM call in the application. Built on LLMService, it adds
+ * per-task provider and model selection, retry with backoff, response caching keyed by
+ * prompt hash, and token and cost accounting per feature.
+ */
+
+import { createHash } from 'crypto';
+import {
+  LLMAnalysisRequest,
+  LLMAnalysisResponse,
+  LLMProvider,
+  LLMService,
+  LLM_PROVIDER_NAMES,
+  llmService
+} from './llmService';
+import { withRetry } from '@/utils/retryUtils';
+import { logger } from '@/utils/logger';
+
+export type LLMFeature =
+  | 'redaction'
+  | 'keyword_generation'
+  | 'query_answer'
+  | 'query_generation'
+  | 'dataset_enhancement';
+
+export const LLM_FEATURES: LLMFeature[] = [
+  'redaction',
+  'keyword_generation',
+  'query_answer',
+  'query_generation',
+  'dataset_enhancement'
+];
+
+export interface LLMGatewayRequest extends LLMAnalysisRequest {
+  feature: LLMFeature;
+  cache?: boolean; // Defaults to true
+}
+
+export interface LLMGatewayResponse extends LLMAnalysisResponse {
+  cached: boolean;
+  cost: number; // Estimated USD
+}
+
+export interface LLMFeatureUsage {
+  feature: LLMFeature;
+  provider: LLMProvider;
+  model: string;
+  requests: number;
+  cacheHits: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
+export interface LLMTaskConfig {
+  feature: LLMFeature;
+  provider: LLMProvider;
+  providerName: string;
+  model: string;
+  configured: boolean;
+}
+
+export interface LLMStatus {
+  configured: boolean;
+  provider: LLMProvider;
+  providerName: string;
+  model: string;
+  features: {
+    datasetEnhancement: boolean;
+    naturalLanguageAnalysis: boolean;
+    codeGeneration: boolean;
+  };
+  tasks: LLMTaskConfig[];
+}
+
+interface CacheEntry {
+  response: LLMAnalysisResponse;
+  expiresAt: number;
+}
+
+// USD per million tokens, matched by model name prefix (longest prefix wins)
+const DEFAULT_PRICING: Record<string, { input: number; output: number }> = {
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gemini-pro': { input: 0.5, output: 1.5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 }
+};
+
+const DEFAULT_CACHE_TTL_SECONDS = 3600;
+const DEFAULT_CACHE_MAX_ENTRIES = 500;
+const DEFAULT_MAX_RETRIES = 3;
+
+export class LLMGateway {
+  private static services = new Map<LLMProvider, LLMService>();
+  private static cache = new Map<string, CacheEntry>();
+  private static usage = new Map<LLMFeature, LLMFeatureUsage>();
+
+  /**
+   * Send a prompt for a feature, using that feature's provider and model
+   */
+  static async complete(request: LLMGatewayRequest): Promise<LLMGatewayResponse> {
+    const { feature, cache = true, ...analysisRequest } = request;
+    const service = this.getService(feature);
+    const model = analysisRequest.model || this.getModel(feature, service);
+    const usage = this.getFeatureUsage(feature, service.getProvider(), model);
+    usage.requests++;
+
+    const cacheKey = this.getCacheKey(service.getProvider(), model, analysisRequest);
+    const ttl = this.getCacheTtlMs();
+    if (cache && ttl > 0) {
+      const entry = this.cache.get(cacheKey);
+      if (entry && entry.expiresAt > Date.now()) {
+        usage.cacheHits++;
+        return { ...entry.response, cached: true, cost: 0 };
+      }
+      this.cache.delete(cacheKey);
+    }
+
+    const result = await withRetry(() => service.analyze({ ...analysisRequest, model }), {
+      maxRetries: this.getMaxRetries(),
+      initialDelay: 1000,
+      maxDelay: 30000,
+      onRetry: (error, attempt, delay) => {
+        logger.warn(`LLM ${feature} retry attempt ${attempt} after ${Math.round(delay)}ms. Error: ${error.message}`);
+      }
+    });
+
+    if (!result.success || !result.data) {
+      usage.failures++;
+      throw result.error || new Error(`LLM request for ${feature} failed`);
+    }
+
+    const response = result.data;
+    const cost = this.estimateCost(response.provider as LLMProvider, response.model || model, response.usage);
+    usage.promptTokens += response.usage?.promptTokens || 0;
+    usage.completionTokens += response.usage?.completionTokens || 0;
+    usage.totalTokens += response.usage?.totalTokens || 0;
+    usage.estimatedCost += cost;
+
+    if (cache && ttl > 0) {
+      this.storeInCache(cacheKey, response, ttl);
+    }
+
+    return { ...response, cached: false, cost };
+  }
+
+  /**
+   * Whether a feature has a usable provider; callers fall back to their offline behaviour when not
+   */
+  static isConfigured(feature: LLMFeature): boolean {
+    return this.getService(feature).isConfigured();
+  }
+
+  /**
+   * Provider and model each feature will use
+   */
+  static getFeatureConfig(): LLMTaskConfig[] {
+    return LLM_FEATURES.map(feature => {
+      const service = this.getService(feature);
+      return {
+        feature,
+        provider: service.getProvider(),
+        providerName: LLM_PROVIDER_NAMES[service.getProvider()],
+        model: this.getModel(feature, service),
+        configured: service.isConfigured()
+      };
+    });
+  }
+
+  /**
+   * Default provider plus the per-task configuration, as shown by the LLM indicator
+   */
+  static getStatus(): LLMStatus {
+    return {
+      configured: llmService.isConfigured(),
+      provider: llmService.getProvider(),
+      providerName: LLM_PROVIDER_NAMES[llmService.getProvider()],
+      model: llmService.getModel(),
+      features: {
+        datasetEnhancement: this.isConfigured('dataset_enhancement'),
+        naturalLanguageAnalysis: this.isConfigured('query_answer'),
+        codeGeneration: this.isConfigured('query_generation')
+      },
+      tasks: this.getFeatureConfig()
+    };
+  }
+
+  /**
+   * Token and cost totals per feature since the server started
+   */
+  static getUsage(): LLMFeatureUsage[] {
+    return Array.from(this.usage.values()).map(usage => ({ ...usage }));
+  }
+
+  static getCacheSize(): number {
+    return this.cache.size;
+  }
+
+  static resetUsage(): void {
+    this.usage.clear();
+  }
+
+  static clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Estimated USD cost of a response. Local models are free; LLM_PRICING (JSON of
+   * model prefix to { input, output } per million tokens) overrides the built-in prices.
+   */
+  static estimateCost(provider: LLMProvider, model: string, usage: LLMAnalysisResponse['usage']): number {
+    if (!usage || provider === 'local') return 0;
+
+    const pricing = { ...DEFAULT_PRICING, ...this.parseJsonEnv<typeof DEFAULT_PRICING>('LLM_PRICING', {}) };
+    const prefix = Object.keys(pricing)
+      .filter(candidate => model.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!prefix) return 0;
+
+    return (usage.promptTokens * pricing[prefix].input + usage.completionTokens * pricing[prefix].output) / 1_000_000;
+  }
+
+  /**
+   * LLM_PROVIDER_<FEATURE> picks a provider for one feature, otherwise the default provider is used
+   */
+  private static getService(feature: LLMFeature): LLMService {
+    const provider = process.env[`LLM_PROVIDER_${feature.toUpperCase()}`] as LLMProvider | undefined;
+    if (!provider || !(provider in LLM_PROVIDER_NAMES) || provider === llmService.getProvider()) {
+      return llmService;
+    }
+
+    let service = this.services.get(provider);
+    if (!service) {
+      service = new LLMService({ provider });
+      this.services.set(provider, service);
+    }
+    return service;
+  }
+
+  /**
+   * LLM_MODEL_<FEATURE> picks a model for one feature, otherwise the provider's model is used
+   */
+  private static getModel(feature: LLMFeature, service: LLMService): string {
+    return process.env[`LLM_MODEL_${feature.toUpperCase()}`] || service.getModel();
+  }
+
+  private static getFeatureUsage(feature: LLMFeature, provider: LLMProvider, model: string): LLMFeatureUsage {
+    let usage = this.usage.get(feature);
+    if (!usage) {
+      usage = {
+        feature,
+        provider,
+        model,
+        requests: 0,
+        cacheHits: 0,
+        failures: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        estimatedCost: 0
+      };
+      this.usage.set(feature, usage);
+    }
+    usage.provider = provider;
+    usage.model = model;
+    return usage;
+  }
+
+  // Only the hash is kept, so prompts containing sensitive data are not held in memory as keys
+  private static getCacheKey(provider: LLMProvider, model: string, request: LLMAnalysisRequest): string {
+    return createHash('sha256')
+      .update(JSON.stringify([provider, model, request.systemPrompt, request.prompt, request.temperature, request.maxTokens]))
+      .digest('hex');
+  }
+
+  private static storeInCache(key: string, response: LLMAnalysisResponse, ttlMs: number): void {
+    const maxEntries = Number(process.env.LLM_CACHE_MAX_ENTRIES) || DEFAULT_CACHE_MAX_ENTRIES;
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    while (this.cache.size >= maxEntries) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) break;
+      this.cache.delete(oldest);
+    }
+    this.cache.set(key, { response, expiresAt: Date.now() + ttlMs });
+  }
+
+  private static getCacheTtlMs(): number {
+    const configured = process.env.LLM_CACHE_TTL_SECONDS;
+    const seconds = configured === undefined || configured === '' ? DEFAULT_CACHE_TTL_SECONDS : Number(configured);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+  }
+
+  private static getMaxRetries(): number {
+    const configured = process.env.LLM_MAX_RETRIES ? Number(process.env.LLM_MAX_RETRIES) : NaN;
+    return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_MAX_RETRIES;
+  }
+
+  private static parseJsonEnv<T>(name: string, fallback: T): T {
+    const value = process.env[name];
+    if (!value) return fallback;
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      logger.warn(`Ignoring invalid JSON in ${name}`);
+      return fallback;
+    }
+  }
+}
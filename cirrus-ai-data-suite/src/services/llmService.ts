@@ -1,14 +1,20 @@
 /**
  * LLM Service for intelligent dataset analysis and enhancement
- * Supports multiple LLM providers for true dynamic analysis
+ * Supports multiple LLM providers for true dynamic analysis.
+ * Application code should call LLMGateway, which adds per-task models, retries, caching and usage accounting.
  */
 
+export type LLMProvider = 'anthropic' | 'openai' | 'vertex' | 'local' | 'none';
+
 export interface LLMConfig {
-  provider: 'anthropic' | 'openai' | 'vertex' | 'none';
+  provider: LLMProvider;
   apiKey?: string;
   model?: string;
   temperature?: number;
   maxTokens?: number;
+  baseUrl?: string; // OpenAI-compatible endpoint for the local provider, e.g. http://localhost:11434/v1
+  projectId?: string; // Vertex AI project
+  location?: string; // Vertex AI region
 }
 
 export interface LLMAnalysisRequest {
@@ -16,6 +22,7 @@ export interface LLMAnalysisRequest {
   systemPrompt?: string;
   temperature?: number;
   maxTokens?: number;
+  model?: string; // Overrides the configured model for this request
 }
 
 export interface LLMAnalysisResponse {
@@ -29,12 +36,32 @@ export interface LLMAnalysisResponse {
   provider: string;
 }
 
+export const LLM_PROVIDER_NAMES: Record<LLMProvider, string> = {
+  anthropic: 'Anthropic Claude',
+  openai: 'OpenAI GPT',
+  vertex: 'Google Vertex AI',
+  local: 'Local Model',
+  none: 'Not Configured'
+};
+
+const DEFAULT_SYSTEM_PROMPT = 'You are an expert data analyst specializing in dataset structure analysis.';
+
+/**
+ * Error returned by a provider API. The status code is part of the message so retry policies can match on it.
+ */
+export class LLMProviderError extends Error {
+  constructor(provider: string, public readonly status: number, detail: string) {
+    super(`${provider} API error (${status}): ${detail}`);
+    this.name = 'LLMProviderError';
+  }
+}
+
 export class LLMService {
   private config: LLMConfig;
-  
+
   constructor(config?: Partial<LLMConfig>) {
     const isServer = typeof window === 'undefined';
-    
+
     if (!isServer) {
       this.config = {
         provider: 'none',
@@ -42,33 +69,49 @@ export class LLMService {
       };
     } else {
       // Server-side: use environment variables
-      const detectedProvider = this.detectProvider();
+      const provider = config?.provider || this.detectProvider();
       this.config = {
-        provider: detectedProvider,
-        apiKey: process.env.ANTHROPIC_API_KEY || process.env.OPENAI_API_KEY || process.env.VERTEX_API_KEY,
-        model: process.env.LLM_MODEL || this.getDefaultModelForProvider(detectedProvider),
+        provider,
+        apiKey: this.getApiKeyForProvider(provider),
+        model: (provider === this.detectProvider() && process.env.LLM_MODEL) || this.getDefaultModelForProvider(provider),
         temperature: 0.7,
         maxTokens: 2000,
+        baseUrl: process.env.LLM_LOCAL_BASE_URL,
+        projectId: process.env.VERTEX_PROJECT_ID,
+        location: process.env.VERTEX_LOCATION || 'us-central1',
         ...config
       };
     }
-    
+
     console.log('[LLMService] Initialized with provider:', this.config.provider);
   }
-  
-  private detectProvider(): LLMConfig['provider'] {
+
+  private detectProvider(): LLMProvider {
+    const explicit = process.env.LLM_PROVIDER as LLMProvider | undefined;
+    if (explicit && explicit in LLM_PROVIDER_NAMES) return explicit;
     if (process.env.ANTHROPIC_API_KEY) return 'anthropic';
     if (process.env.OPENAI_API_KEY) return 'openai';
     if (process.env.VERTEX_PROJECT_ID) return 'vertex';
+    if (process.env.LLM_LOCAL_BASE_URL) return 'local';
     return 'none';
   }
-  
-  private getDefaultModel(): string {
-    const provider = this.config?.provider || 'none';
-    return this.getDefaultModelForProvider(provider);
+
+  private getApiKeyForProvider(provider: LLMProvider): string | undefined {
+    switch (provider) {
+      case 'anthropic':
+        return process.env.ANTHROPIC_API_KEY;
+      case 'openai':
+        return process.env.OPENAI_API_KEY;
+      case 'vertex':
+        return process.env.VERTEX_ACCESS_TOKEN || process.env.VERTEX_API_KEY;
+      case 'local':
+        return process.env.LLM_LOCAL_API_KEY;
+      default:
+        return undefined;
+    }
   }
-  
-  private getDefaultModelForProvider(provider: LLMConfig['provider']): string {
+
+  private getDefaultModelForProvider(provider: LLMProvider): string {
     switch (provider) {
       case 'anthropic':
         return 'claude-3-haiku-20240307'; // Fast and cost-effective
@@ -76,11 +119,37 @@ export class LLMService {
         return 'gpt-4-turbo-preview';
       case 'vertex':
         return 'gemini-pro';
+      case 'local':
+        return process.env.LLM_LOCAL_MODEL || 'llama3';
       default:
         return 'none';
     }
   }
-  
+
+  getProvider(): LLMProvider {
+    return this.config.provider;
+  }
+
+  getModel(): string {
+    return this.config.model || this.getDefaultModelForProvider(this.config.provider);
+  }
+
+  /**
+   * Whether requests can be sent. Local endpoints do not need an API key.
+   */
+  isConfigured(): boolean {
+    switch (this.config.provider) {
+      case 'none':
+        return false;
+      case 'local':
+        return !!this.config.baseUrl;
+      case 'vertex':
+        return !!this.config.apiKey && !!this.config.projectId;
+      default:
+        return !!this.config.apiKey;
+    }
+  }
+
   async analyze(request: LLMAnalysisRequest): Promise<LLMAnalysisResponse> {
     switch (this.config.provider) {
       case 'anthropic':
@@ -88,17 +157,19 @@ export class LLMService {
       case 'openai':
         return this.analyzeWithOpenAI(request);
       case 'vertex':
-        return this.analyzeWithVertex(/* request */);
+        return this.analyzeWithVertex(request);
+      case 'local':
+        return this.analyzeWithLocal(request);
       default:
-        throw new Error('No LLM provider configured. Please set ANTHROPIC_API_KEY, OPENAI_API_KEY, or configure Vertex AI to use dataset enhancement features.');
+        throw new Error('No LLM provider configured. Please set ANTHROPIC_API_KEY, OPENAI_API_KEY, LLM_LOCAL_BASE_URL, or configure Vertex AI to use LLM features.');
     }
   }
-  
+
   private async analyzeWithAnthropic(request: LLMAnalysisRequest): Promise<LLMAnalysisResponse> {
     if (!this.config.apiKey) {
       throw new Error('Anthropic API key not configured');
     }
-    
+
     try {
       const response = await fetch('https://api.anthropic.com/v1/messages', {
         method: 'POST',
@@ -108,10 +179,10 @@ export class LLMService {
           'anthropic-version': '2023-06-01'
         },
         body: JSON.stringify({
-          model: this.config.model || 'claude-3-haiku-20240307',
-          max_tokens: request.maxTokens || this.config.maxTokens,
-          temperature: request.temperature || this.config.temperature,
-          system: request.systemPrompt || 'You are an expert data analyst specializing in dataset structure analysis.',
+          model: request.model || this.getModel(),
+          max_tokens: request.maxTokens ?? this.config.maxTokens,
+          temperature: request.temperature ?? this.config.temperature,
+          system: request.systemPrompt || DEFAULT_SYSTEM_PROMPT,
           messages: [
             {
               role: 'user',
@@ -120,14 +191,13 @@ export class LLMService {
           ]
         })
       });
-      
+
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(`Anthropic API error: ${error.error?.message || 'Unknown error'}`);
+        throw new LLMProviderError('Anthropic', response.status, await this.readErrorMessage(response));
       }
-      
+
       const data = await response.json();
-      
+
       return {
         content: data.content[0].text,
         usage: {
@@ -143,65 +213,156 @@ export class LLMService {
       throw error;
     }
   }
-  
+
   private async analyzeWithOpenAI(request: LLMAnalysisRequest): Promise<LLMAnalysisResponse> {
     if (!this.config.apiKey) {
       throw new Error('OpenAI API key not configured');
     }
-    
+
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      return await this.chatCompletion('https://api.openai.com/v1', 'openai', request);
+    } catch (error) {
+      console.error('OpenAI API error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Any OpenAI-compatible server (llama.cpp, Ollama, vLLM, LM Studio) reachable without the public internet
+   */
+  private async analyzeWithLocal(request: LLMAnalysisRequest): Promise<LLMAnalysisResponse> {
+    if (!this.config.baseUrl) {
+      throw new Error('Local LLM endpoint not configured. Set LLM_LOCAL_BASE_URL, e.g. http://localhost:11434/v1');
+    }
+
+    try {
+      return await this.chatCompletion(this.config.baseUrl.replace(/\/+$/, ''), 'local', request);
+    } catch (error) {
+      console.error('Local LLM error:', error);
+      throw error;
+    }
+  }
+
+  private async chatCompletion(
+    baseUrl: string,
+    provider: 'openai' | 'local',
+    request: LLMAnalysisRequest
+  ): Promise<LLMAnalysisResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model || this.getModel(),
+        messages: [
+          {
+            role: 'system',
+            content: request.systemPrompt || DEFAULT_SYSTEM_PROMPT
+          },
+          {
+            role: 'user',
+            content: request.prompt
+          }
+        ],
+        temperature: request.temperature ?? this.config.temperature,
+        max_tokens: request.maxTokens ?? this.config.maxTokens
+      })
+    });
+
+    if (!response.ok) {
+      throw new LLMProviderError(provider === 'openai' ? 'OpenAI' : 'Local LLM', response.status, await this.readErrorMessage(response));
+    }
+
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content ?? '';
+
+    return {
+      content,
+      // Some local servers omit usage, so fall back to an estimate
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens,
+            completionTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens ?? data.usage.prompt_tokens + data.usage.completion_tokens
+          }
+        : this.estimateUsage(`${request.systemPrompt || DEFAULT_SYSTEM_PROMPT}${request.prompt}`, content),
+      model: data.model || request.model || this.getModel(),
+      provider
+    };
+  }
+
+  private async analyzeWithVertex(request: LLMAnalysisRequest): Promise<LLMAnalysisResponse> {
+    if (!this.config.apiKey || !this.config.projectId) {
+      throw new Error('Vertex AI not configured. Set VERTEX_PROJECT_ID and VERTEX_ACCESS_TOKEN');
+    }
+
+    const model = request.model || this.getModel();
+    const location = this.config.location || 'us-central1';
+    const url = `https://${location}-aiplatform.googleapis.com/v1/projects/${this.config.projectId}` +
+      `/locations/${location}/publishers/google/models/${model}:generateContent`;
+
+    try {
+      const response = await fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${this.config.apiKey}`
         },
         body: JSON.stringify({
-          model: this.config.model || 'gpt-4-turbo-preview',
-          messages: [
-            {
-              role: 'system',
-              content: request.systemPrompt || 'You are an expert data analyst specializing in dataset structure analysis.'
-            },
-            {
-              role: 'user',
-              content: request.prompt
-            }
-          ],
-          temperature: request.temperature || this.config.temperature,
-          max_tokens: request.maxTokens || this.config.maxTokens
+          systemInstruction: { parts: [{ text: request.systemPrompt || DEFAULT_SYSTEM_PROMPT }] },
+          contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+          generationConfig: {
+            temperature: request.temperature ?? this.config.temperature,
+            maxOutputTokens: request.maxTokens ?? this.config.maxTokens
+          }
         })
       });
-      
+
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(`OpenAI API error: ${error.error?.message || 'Unknown error'}`);
+        throw new LLMProviderError('Vertex AI', response.status, await this.readErrorMessage(response));
       }
-      
+
       const data = await response.json();
-      
+      const parts: Array<{ text?: string }> = data.candidates?.[0]?.content?.parts || [];
+      const usage = data.usageMetadata || {};
+
       return {
-        content: data.choices[0].message.content,
+        content: parts.map(part => part.text || '').join(''),
         usage: {
-          promptTokens: data.usage.prompt_tokens,
-          completionTokens: data.usage.completion_tokens,
-          totalTokens: data.usage.total_tokens
+          promptTokens: usage.promptTokenCount || 0,
+          completionTokens: usage.candidatesTokenCount || 0,
+          totalTokens: usage.totalTokenCount || (usage.promptTokenCount || 0) + (usage.candidatesTokenCount || 0)
         },
-        model: data.model,
-        provider: 'openai'
+        model,
+        provider: 'vertex'
       };
     } catch (error) {
-      console.error('OpenAI API error:', error);
+      console.error('Vertex AI error:', error);
       throw error;
     }
   }
-  
-  private async analyzeWithVertex(/* request: LLMAnalysisRequest */): Promise<LLMAnalysisResponse> {
-    // Vertex AI implementation would go here
-    throw new Error('Vertex AI integration not implemented yet');
+
+  private async readErrorMessage(response: Response): Promise<string> {
+    try {
+      const error = await response.json();
+      return error.error?.message || error.message || response.statusText || 'Unknown error';
+    } catch {
+      return response.statusText || 'Unknown error';
+    }
+  }
+
+  // Roughly four characters per token for English text
+  private estimateUsage(prompt: string, completion: string): NonNullable<LLMAnalysisResponse['usage']> {
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(completion.length / 4);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
   }
-  
+
 }
 
 // Singleton instance for easy access
-export const llmService = new LLMService();
\ No newline at end of file
+export const llmService = new LLMService();
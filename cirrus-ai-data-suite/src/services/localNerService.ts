@@ -0,0 +1,260 @@
+/**
+ * Local NER Service
+ * In-process entity recognizer built from rules and gazetteers. It runs on CPU in the server or
+ * the browser without any network access, so text never leaves the deployment to be classified.
+ */
+
+import type { MLEntity } from './mlPatternService';
+
+export interface LocalNerGazetteer {
+  firstNames: string[];
+  surnames: string[];
+  locations: string[];
+  organizations: string[];
+}
+
+interface Candidate extends MLEntity {
+  priority: number; // Breaks confidence ties in favour of more specific rules
+}
+
+export const LOCAL_NER_MODEL = 'rules-gazetteer-v1';
+
+export const LOCAL_NER_ENTITY_TYPES: MLEntity['type'][] = [
+  'PERSON', 'ORGANIZATION', 'LOCATION', 'ADDRESS', 'DATE', 'TIME', 'MONEY', 'EMAIL', 'PHONE', 'SSN', 'CREDIT_CARD'
+];
+
+const FIRST_NAMES = [
+  'James', 'John', 'Robert', 'Michael', 'William', 'David', 'Richard', 'Joseph', 'Thomas', 'Charles',
+  'Christopher', 'Daniel', 'Matthew', 'Anthony', 'Mark', 'Donald', 'Steven', 'Paul', 'Andrew', 'Joshua',
+  'Kenneth', 'Kevin', 'Brian', 'George', 'Timothy', 'Ronald', 'Edward', 'Jason', 'Jeffrey', 'Ryan',
+  'Jacob', 'Gary', 'Nicholas', 'Eric', 'Jonathan', 'Stephen', 'Larry', 'Justin', 'Scott', 'Brandon',
+  'Benjamin', 'Samuel', 'Gregory', 'Alexander', 'Frank', 'Patrick', 'Raymond', 'Jack', 'Dennis', 'Jerry',
+  'Tyler', 'Aaron', 'Jose', 'Adam', 'Nathan', 'Henry', 'Peter', 'Zachary', 'Kyle', 'Carlos',
+  'Mary', 'Patricia', 'Jennifer', 'Linda', 'Elizabeth', 'Barbara', 'Susan', 'Jessica', 'Sarah', 'Karen',
+  'Lisa', 'Nancy', 'Betty', 'Margaret', 'Sandra', 'Ashley', 'Kimberly', 'Emily', 'Donna', 'Michelle',
+  'Carol', 'Amanda', 'Dorothy', 'Melissa', 'Deborah', 'Stephanie', 'Rebecca', 'Sharon', 'Laura', 'Cynthia',
+  'Kathleen', 'Amy', 'Angela', 'Shirley', 'Anna', 'Brenda', 'Pamela', 'Emma', 'Nicole', 'Helen',
+  'Samantha', 'Katherine', 'Christine', 'Debra', 'Rachel', 'Carolyn', 'Janet', 'Catherine', 'Maria', 'Heather',
+  'Diane', 'Julie', 'Olivia', 'Sophia', 'Alice', 'Bob', 'Carla', 'Diana', 'Grace', 'Hannah',
+  'Isabella', 'Julia', 'Lauren', 'Megan', 'Natalie', 'Victoria', 'Wei', 'Mohammed', 'Ahmed', 'Priya',
+  'Raj', 'Juan', 'Luis', 'Ana', 'Sofia', 'Hiroshi', 'Yuki', 'Olga', 'Ivan', 'Fatima'
+];
+
+const SURNAMES = [
+  'Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez',
+  'Hernandez', 'Lopez', 'Gonzalez', 'Wilson', 'Anderson', 'Thomas', 'Taylor', 'Moore', 'Jackson', 'Martin',
+  'Lee', 'Perez', 'Thompson', 'White', 'Harris', 'Sanchez', 'Clark', 'Ramirez', 'Lewis', 'Robinson',
+  'Walker', 'Young', 'Allen', 'King', 'Wright', 'Scott', 'Torres', 'Nguyen', 'Hill', 'Flores',
+  'Green', 'Adams', 'Nelson', 'Baker', 'Hall', 'Rivera', 'Campbell', 'Mitchell', 'Carter', 'Roberts',
+  'Chen', 'Wang', 'Kim', 'Patel', 'Singh', 'Khan', 'Ali', 'Tanaka', 'Ivanov', 'Muller'
+];
+
+const LOCATIONS = [
+  // US states
+  'Alabama', 'Alaska', 'Arizona', 'Arkansas', 'California', 'Colorado', 'Connecticut', 'Delaware', 'Florida', 'Georgia',
+  'Hawaii', 'Idaho', 'Illinois', 'Indiana', 'Iowa', 'Kansas', 'Kentucky', 'Louisiana', 'Maine', 'Maryland',
+  'Massachusetts', 'Michigan', 'Minnesota', 'Mississippi', 'Missouri', 'Montana', 'Nebraska', 'Nevada', 'New Hampshire', 'New Jersey',
+  'New Mexico', 'New York', 'North Carolina', 'North Dakota', 'Ohio', 'Oklahoma', 'Oregon', 'Pennsylvania', 'Rhode Island', 'South Carolina',
+  'South Dakota', 'Tennessee', 'Texas', 'Utah', 'Vermont', 'Virginia', 'Washington', 'West Virginia', 'Wisconsin', 'Wyoming',
+  // Countries
+  'United States', 'Canada', 'Mexico', 'Brazil', 'Argentina', 'United Kingdom', 'England', 'Scotland', 'Ireland', 'France',
+  'Germany', 'Spain', 'Portugal', 'Italy', 'Netherlands', 'Belgium', 'Switzerland', 'Austria', 'Sweden', 'Norway',
+  'Denmark', 'Finland', 'Poland', 'Ukraine', 'Russia', 'Turkey', 'Israel', 'Egypt', 'Nigeria', 'Kenya',
+  'South Africa', 'India', 'Pakistan', 'China', 'Japan', 'South Korea', 'North Korea', 'Vietnam', 'Thailand', 'Indonesia',
+  'Philippines', 'Australia', 'New Zealand', 'Iran', 'Iraq', 'Saudi Arabia', 'Afghanistan', 'Syria',
+  // Cities
+  'Los Angeles', 'Chicago', 'Houston', 'Phoenix', 'Philadelphia', 'San Antonio', 'San Diego', 'Dallas', 'San Jose', 'Austin',
+  'San Francisco', 'Seattle', 'Denver', 'Boston', 'Detroit', 'Nashville', 'Portland', 'Las Vegas', 'Baltimore', 'Atlanta',
+  'Miami', 'Minneapolis', 'New Orleans', 'Pittsburgh', 'Arlington', 'Alexandria', 'London', 'Paris', 'Berlin', 'Madrid',
+  'Rome', 'Amsterdam', 'Brussels', 'Vienna', 'Stockholm', 'Moscow', 'Beijing', 'Shanghai', 'Tokyo', 'Seoul',
+  'Mumbai', 'Delhi', 'Sydney', 'Toronto', 'Vancouver', 'Montreal', 'Dubai', 'Singapore', 'Hong Kong', 'Mexico City'
+];
+
+const ORGANIZATIONS = [
+  'FBI', 'CIA', 'NSA', 'NASA', 'IRS', 'DHS', 'DoD', 'NATO', 'United Nations', 'World Bank',
+  'Google', 'Microsoft', 'Amazon', 'Apple', 'Meta', 'IBM', 'Oracle', 'Intel', 'Cisco', 'Salesforce',
+  'Walmart', 'Pfizer', 'Boeing', 'Lockheed Martin', 'Raytheon', 'Deloitte', 'Accenture', 'JPMorgan Chase', 'Goldman Sachs', 'Wells Fargo'
+];
+
+const ORGANIZATION_SUFFIXES = [
+  'Inc', 'LLC', 'Ltd', 'Corp', 'Corporation', 'Company', 'Co', 'Group', 'Bank', 'University', 'College',
+  'Hospital', 'Clinic', 'Foundation', 'Institute', 'Agency', 'Associates', 'Partners', 'Holdings',
+  'Technologies', 'Systems', 'Solutions', 'Labs', 'Industries', 'Enterprises'
+];
+
+const STREET_SUFFIXES = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Circle|Cir|Highway|Hwy';
+
+// Capitalized words that start sentences or headings and are never part of a name
+const NON_NAME_WORDS = new Set([
+  'The', 'This', 'That', 'These', 'Those', 'And', 'But', 'For', 'From', 'With', 'Without', 'Dear', 'Hello', 'Hi',
+  'Street', 'Avenue', 'Road', 'Lane', 'Drive', 'Inc', 'LLC', 'Corp', 'Company', 'Bank', 'University', 'Hospital',
+  'Name', 'Patient', 'Customer', 'Employee', 'Contact', 'Email', 'Phone', 'Address', 'Date', 'Account', 'Record',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'
+]);
+
+const MONTHS = 'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?';
+
+export class LocalNerService {
+  private firstNames: Set<string>;
+  private surnames: Set<string>;
+  private locationPattern: RegExp;
+  private organizationPattern: RegExp;
+
+  constructor(gazetteer: Partial<LocalNerGazetteer> = {}) {
+    this.firstNames = new Set([...FIRST_NAMES, ...(gazetteer.firstNames || [])]);
+    this.surnames = new Set([...SURNAMES, ...(gazetteer.surnames || [])]);
+    this.locationPattern = this.buildGazetteerPattern([...LOCATIONS, ...(gazetteer.locations || [])]);
+    this.organizationPattern = this.buildGazetteerPattern([...ORGANIZATIONS, ...(gazetteer.organizations || [])]);
+  }
+
+  /**
+   * Find entities in text. Overlapping candidates are resolved in favour of the more confident one.
+   */
+  recognize(text: string): MLEntity[] {
+    if (!text) return [];
+
+    const candidates: Candidate[] = [
+      ...this.collect(text, /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, 'EMAIL', 0.98, 'email format', 9),
+      ...this.collect(text, /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g, 'SSN', 0.95, 'SSN format', 9),
+      ...this.collect(text, /\b\d(?:[ -]?\d){12,18}\b/g, 'CREDIT_CARD', 0.95, 'passes Luhn check', 8,
+        value => this.passesLuhn(value.replace(/\D/g, ''))),
+      ...this.collect(text, /(?:\+?1[-.\s]?)?(?:\(\d{3}\)\s?|\b\d{3}[-.\s])\d{3}[-.\s]\d{4}\b/g, 'PHONE', 0.9, 'phone number format', 7),
+      ...this.collect(text, /[$€£]\s?\d[\d,]*(?:\.\d{1,2})?(?:\s?(?:million|billion|thousand|[MBK])\b)?|\b\d[\d,]*(?:\.\d{1,2})?\s?(?:USD|EUR|GBP|dollars)\b/g,
+        'MONEY', 0.9, 'currency amount', 6),
+      ...this.collectDates(text),
+      ...this.collect(text, /\b(?:[01]?\d|2[0-3]):[0-5]\d(?::[0-5]\d)?(?:\s?[AaPp]\.?[Mm]\.?)?(?!\d)|\b(?:1[0-2]|0?[1-9])\s?[AaPp]\.?[Mm]\.?(?![A-Za-z])/g,
+        'TIME', 0.85, 'time of day', 4),
+      ...this.collect(text, new RegExp(
+        `\\b\\d{1,6}\\s+(?:[NSEW]\\.?\\s+)?(?:[A-Z][a-z]+\\s+){1,4}(?:${STREET_SUFFIXES})\\b\\.?` +
+        '(?:,?\\s+(?:Apt|Suite|Ste|Unit)\\.?\\s*#?\\w+)?' +
+        '(?:,\\s+[A-Z][a-z]+(?:\\s[A-Z][a-z]+)*,\\s+[A-Z]{2}\\s+\\d{5}(?:-\\d{4})?)?', 'g'),
+        'ADDRESS', 0.88, 'street address', 7),
+      ...this.collect(text, this.organizationPattern, 'ORGANIZATION', 0.9, 'organization gazetteer', 5),
+      ...this.collect(text, new RegExp(
+        `\\b(?:[A-Z][A-Za-z&'-]*\\s+){1,4}(?:${ORGANIZATION_SUFFIXES.join('|')})\\b\\.?` +
+        '|\\b(?:University|Bank|Department|Institute|College) of(?:\\s+[A-Z][a-z]+){1,3}', 'g'),
+        'ORGANIZATION', 0.85, 'organization suffix', 5, value => !NON_NAME_WORDS.has(value.split(/\s+/)[0])),
+      ...this.collect(text, this.locationPattern, 'LOCATION', 0.85, 'location gazetteer', 3),
+      ...this.collectPeople(text)
+    ];
+
+    return this.resolveOverlaps(candidates).map(({ text: value, label, confidence, start, end, type }) => ({
+      text: value, label, confidence, start, end, type
+    }));
+  }
+
+  private collect(
+    text: string,
+    pattern: RegExp,
+    type: MLEntity['type'],
+    confidence: number,
+    label: string,
+    priority: number,
+    validate?: (value: string) => boolean
+  ): Candidate[] {
+    const candidates: Candidate[] = [];
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      const value = match[0].trim();
+      if (validate && !validate(value)) continue;
+      const start = match.index + match[0].indexOf(value);
+      candidates.push({ text: value, label, confidence, start, end: start + value.length, type, priority });
+    }
+    return candidates;
+  }
+
+  private collectDates(text: string): Candidate[] {
+    return [
+      ...this.collect(text, /\b\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01])\b/g, 'DATE', 0.92, 'ISO date', 6),
+      ...this.collect(text, /\b(?:0?[1-9]|1[0-2])[/.-](?:0?[1-9]|[12]\d|3[01])[/.-](?:\d{4}|\d{2})\b/g, 'DATE', 0.88, 'numeric date', 6),
+      ...this.collect(text, new RegExp(`\\b(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?\\b`, 'g'), 'DATE', 0.9, 'written date', 6),
+      ...this.collect(text, new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTHS})\\.?,?\\s+\\d{4}\\b`, 'g'), 'DATE', 0.9, 'written date', 6)
+    ];
+  }
+
+  private collectPeople(text: string): Candidate[] {
+    const name = "[A-Z][a-z]+(?:['-][A-Z]?[a-z]+)?";
+    const candidates: Candidate[] = [
+      // Honorific followed by a name
+      ...this.collect(text, new RegExp(
+        `\\b(?:Mr|Mrs|Ms|Miss|Dr|Prof|Sir|Rev|Capt|Sgt|Lt|Col|Gen)\\.?\\s+${name}(?:\\s+[A-Z]\\.)?(?:\\s+${name}){0,2}`, 'g'),
+        'PERSON', 0.92, 'honorific and name', 8),
+      // Name introduced by a cue word, e.g. "Patient: Jane Doe"
+      ...this.collect(text, new RegExp(
+        `(?<=\\b(?:[Nn]ame|[Pp]atient|[Ee]mployee|[Cc]ustomer|[Cc]ontact|[Ss]igned by|[Aa]ttn|[Dd]ear|[Aa]pproved by|[Ss]ubmitted by)\\s*[:,]?\\s+)` +
+        `${name}(?:\\s+[A-Z]\\.)?(?:\\s+${name}){1,2}`, 'g'),
+        'PERSON', 0.86, 'name after cue word', 7, value => !value.split(/\s+/).some(word => NON_NAME_WORDS.has(word)))
+    ];
+
+    // Known first name followed by a capitalized surname
+    const fullName = new RegExp(`\\b(${name})(?:\\s+[A-Z]\\.)?\\s+(${name})\\b`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = fullName.exec(text)) !== null) {
+      const [value, first, last] = match;
+      if (!this.firstNames.has(first) || NON_NAME_WORDS.has(last) || this.isKnownPlaceOrOrganization(last)) {
+        // Retry from the second word so "Meeting with John Smith" still finds "John Smith"
+        fullName.lastIndex = match.index + first.length;
+        continue;
+      }
+      candidates.push({
+        text: value,
+        label: this.surnames.has(last) ? 'first name and surname gazetteer' : 'first name gazetteer',
+        confidence: this.surnames.has(last) ? 0.93 : 0.88,
+        start: match.index,
+        end: match.index + value.length,
+        type: 'PERSON',
+        priority: 8
+      });
+    }
+
+    return candidates;
+  }
+
+  private resolveOverlaps(candidates: Candidate[]): Candidate[] {
+    const ranked = [...candidates].sort((a, b) =>
+      b.confidence - a.confidence || b.priority - a.priority || (b.end - b.start) - (a.end - a.start)
+    );
+    const accepted: Candidate[] = [];
+    for (const candidate of ranked) {
+      if (!accepted.some(other => candidate.start < other.end && other.start < candidate.end)) {
+        accepted.push(candidate);
+      }
+    }
+    return accepted.sort((a, b) => a.start - b.start);
+  }
+
+  private isKnownPlaceOrOrganization(word: string): boolean {
+    this.locationPattern.lastIndex = 0;
+    this.organizationPattern.lastIndex = 0;
+    return this.locationPattern.test(word) || this.organizationPattern.test(word) || ORGANIZATION_SUFFIXES.includes(word);
+  }
+
+  private buildGazetteerPattern(entries: string[]): RegExp {
+    // Longest entries first so "New York" wins over "York"
+    const alternatives = [...new Set(entries)]
+      .sort((a, b) => b.length - a.length)
+      .map(entry => entry.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+    return new RegExp(`\\b(?:${alternatives.join('|')})\\b`, 'g');
+  }
+
+  private passesLuhn(digits: string): boolean {
+    if (digits.length < 13 || digits.length > 19) return false;
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = Number(digits[digits.length - 1 - i]);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+}
+
+export const localNerService = new LocalNerService();
@@ -1,3 +1,5 @@
+import { LocalNerService, LOCAL_NER_ENTITY_TYPES, LOCAL_NER_MODEL } from './localNerService';
+
 export interface MLMatch {
   value: string;
   label: string;
@@ -27,6 +29,7 @@ export interface MLServiceConfig {
 
 export class MLPatternService {
   private config: MLServiceConfig;
+  private localNer: LocalNerService | null = null;
   
   constructor(config?: Partial<MLServiceConfig>) {
     // Initialize with environment variables and defaults
@@ -45,7 +48,8 @@ export class MLPatternService {
       // Server-side: use environment variables
       this.config = {
         enabled: process.env.ML_DETECTION_ENABLED !== 'false',
-        provider: (process.env.ML_PROVIDER as MLServiceConfig['provider']) || 'none',
+        // The local recognizer needs no credentials, so it is the default when no cloud provider is chosen
+        provider: (process.env.ML_PROVIDER as MLServiceConfig['provider']) || 'local',
         apiKey: process.env.ML_API_KEY || process.env.GOOGLE_CLOUD_API_KEY || process.env.ANTHROPIC_API_KEY,
         endpoint: process.env.ML_ENDPOINT,
         ...config
@@ -83,7 +87,7 @@ export class MLPatternService {
       case 'azure':
         return this.detectWithAzureCognitive();
       case 'local':
-        return this.detectWithLocalModel();
+        return this.detectWithLocalModel(text);
       default:
         throw new Error('ML pattern detection requires a configured provider. Please set up Google Cloud, Vertex AI, AWS Comprehend, Azure Cognitive Services, or a local ML model.');
     }
@@ -322,9 +326,23 @@ export class MLPatternService {
     }
   }
 
-  private async detectWithLocalModel(): Promise<MLMatch[]> {
-    // Implementation would use a local spaCy/transformers service
-    throw new Error('Local ML model not configured. Please set up model service.');
+  /**
+   * In-process rule and gazetteer recognizer; the text never leaves this process
+   */
+  private async detectWithLocalModel(text: string): Promise<MLMatch[]> {
+    if (!this.localNer) {
+      this.localNer = new LocalNerService();
+    }
+
+    return this.localNer.recognize(text).map(entity => ({
+      value: entity.text,
+      label: this.mapEntityTypeToLabel(entity.type),
+      confidence: entity.confidence,
+      startIndex: entity.start,
+      endIndex: entity.end,
+      method: 'ml-ner',
+      context: this.extractContext(text, entity.start, entity.end)
+    }));
   }
 
 
@@ -347,7 +365,7 @@ export class MLPatternService {
       case 'azure':
         return !!(this.config.apiKey || process.env.AZURE_API_KEY);
       case 'local':
-        return !!(this.config.endpoint || process.env.ML_ENDPOINT);
+        return true;
       default:
         return false;
     }
@@ -358,6 +376,8 @@ export class MLPatternService {
     provider: string; 
     hasApiKey: boolean; 
     message: string;
+    model?: string;
+    entityTypes?: string[];
   } {
     const hasApiKey = !!this.config.apiKey;
     const configured = this.isConfigured();
@@ -379,21 +399,22 @@ export class MLPatternService {
         case 'azure':
           message = 'Azure API key not found. Set AZURE_API_KEY or ML_API_KEY environment variable.';
           break;
-        case 'local':
-          message = 'Local ML endpoint not configured. Set ML_ENDPOINT environment variable.';
-          break;
         default:
           message = 'Unknown ML provider configuration.';
       }
+    } else if (this.config.provider === 'local') {
+      message = `ML detection ready with local recognizer (${LOCAL_NER_MODEL}); text stays on this server`;
     } else {
       message = `ML detection ready with ${this.config.provider} provider`;
     }
 
+    const isLocal = this.config.provider === 'local';
     return {
       configured,
       provider: this.config.provider,
       hasApiKey,
-      message
+      message,
+      ...(isLocal && { model: LOCAL_NER_MODEL, entityTypes: LOCAL_NER_ENTITY_TYPES })
     };
   }
 }
@@ -1,6 +1,6 @@
 import { Pattern } from './patternService';
 import { contextAwarePatternService } from './contextAwarePatternService';
-import { mlPatternService, MLMatch } from './mlPatternService';
+import { mlPatternService, MLMatch, MLPatternService } from './mlPatternService';
 
 export interface TestMatch {
   value: string;
@@ -26,11 +26,14 @@ export interface TestResult {
 }
 
 export interface RedactionStyle {
-  type: 'full' | 'partial' | 'token' | 'mask';
+  // pseudonym and fpe are keyed and deterministic; they are applied on the server by PseudonymizationService
+  type: 'full' | 'partial' | 'token' | 'mask' | 'pseudonym' | 'fpe';
   format: string;
 }
 
 export class PatternTestingService {
+  private localMLService: MLPatternService | null = null;
+
   public learnPatternFromExamples(examples: string[]): string | null {
     return this.learnPatternFromExamplesInternal(examples);
   }
@@ -95,27 +98,34 @@ export class PatternTestingService {
       { type: 'full', format: '[REDACTED]' },
       { type: 'partial', format: 'XXX-XX-####' }, // For SSN
       { type: 'token', format: '[PII-{index}]' },
+      { type: 'pseudonym', format: '[PII-{token}]' },
+      { type: 'fpe', format: 'format-preserving' },
       { type: 'mask', format: '****' }
     ],
     'FINANCIAL': [
       { type: 'full', format: '[REDACTED-FINANCIAL]' },
       { type: 'partial', format: '****-****-****-####' }, // For credit cards
       { type: 'token', format: '[FIN-{index}]' },
+      { type: 'pseudonym', format: '[FIN-{token}]' },
+      { type: 'fpe', format: 'format-preserving' },
       { type: 'mask', format: '################' }
     ],
     'MEDICAL': [
       { type: 'full', format: '[REDACTED-MEDICAL]' },
       { type: 'token', format: '[MED-{index}]' },
+      { type: 'pseudonym', format: '[MED-{token}]' },
       { type: 'mask', format: '[MEDICAL-INFO]' }
     ],
     'CLASSIFICATION': [
       { type: 'full', format: '[CLASSIFIED]' },
       { type: 'token', format: '[CLASS-{index}]' },
+      { type: 'pseudonym', format: '[CLASS-{token}]' },
       { type: 'mask', format: '[REDACTED-GOV]' }
     ],
     'CUSTOM': [
       { type: 'full', format: '[REDACTED]' },
       { type: 'token', format: '[CUSTOM-{index}]' },
+      { type: 'pseudonym', format: '[CUSTOM-{token}]' },
       { type: 'mask', format: '****' }
     ]
   };
@@ -500,9 +510,11 @@ export class PatternTestingService {
             mlMatches = data.matches || [];
           } else {
             console.error('ML detection API error:', await response.text());
+            mlMatches = await this.detectEntitiesLocally(text);
           }
         } catch (error) {
           console.error('ML detection request failed:', error);
+          mlMatches = await this.detectEntitiesLocally(text);
         }
       } else {
         // Server-side: use service directly
@@ -528,6 +540,16 @@ export class PatternTestingService {
     }
   }
   
+  /**
+   * Run the local recognizer in the browser when the server cannot be reached or its provider fails
+   */
+  private async detectEntitiesLocally(text: string): Promise<MLMatch[]> {
+    if (!this.localMLService) {
+      this.localMLService = new MLPatternService({ enabled: true, provider: 'local' });
+    }
+    return this.localMLService.detectEntities(text);
+  }
+  
   private async findIntelligentAddressMatches(text: string, examples: string[]): Promise<TestMatch[]> {
     
     const matches: TestMatch[] = [];
@@ -838,15 +860,9 @@ export class PatternTestingService {
     let tokenIndex = 1;
     
     for (const match of sortedMatches) {
-      let replacement = style.format;
-      
-      if (style.type === 'partial') {
-        replacement = this.applyPartialRedaction(match.value, style.format);
-      } else if (style.type === 'token') {
-        replacement = style.format.replace('{index}', tokenIndex.toString());
+      const replacement = this.formatReplacement(match.value, style, tokenIndex);
+      if (style.type === 'token') {
         tokenIndex++;
-      } else if (style.type === 'mask') {
-        replacement = this.applyMaskRedaction(match.value, style.format);
       }
       
       redactedText = redactedText.substring(0, match.startIndex) + 
@@ -856,6 +872,25 @@ export class PatternTestingService {
     
     return redactedText;
   }
+
+  /**
+   * Replacement text for one matched value; tokenIndex fills {index} in token styles
+   */
+  public formatReplacement(value: string, style: RedactionStyle, tokenIndex: number = 1): string {
+    if (style.type === 'partial') {
+      return this.applyPartialRedaction(value, style.format);
+    } else if (style.type === 'token') {
+      return style.format.replace('{index}', tokenIndex.toString());
+    } else if (style.type === 'mask') {
+      return this.applyMaskRedaction(value, style.format);
+    } else if (style.type === 'pseudonym') {
+      // Preview only; the keyed token is computed on the server
+      return style.format.replace('{token}', '*'.repeat(16));
+    } else if (style.type === 'fpe') {
+      return value.replace(/[A-Za-z0-9]/g, '*');
+    }
+    return style.format;
+  }
   
   private applyPartialRedaction(value: string, format: string): string {
     // Handle specific partial redaction formats
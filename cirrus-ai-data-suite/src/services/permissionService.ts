@@ -0,0 +1,124 @@
+/**
+ * Permission Service
+ * Resolves what a user may do from their global role and their per-data-source grants
+ */
+
+import { getDatabase } from '@/database/connection';
+import { DataSourcePermissionEntity } from '@/entities/DataSourcePermissionEntity';
+import { DataSourceEntity } from '@/entities/DataSourceEntity';
+import { UserEntity } from '@/entities/UserEntity';
+import { DataSourcePermission, DataSourceRole, Permission, User } from '@/types/auth';
+import { hasPermission, isDataSourceRole } from '@/utils/permissions';
+import { AuthService } from './authService';
+
+export class PermissionService {
+  /**
+   * Check whether a user has a permission, on a data source when one is given
+   */
+  static async can(userId: string, permission: Permission, dataSourceId?: string): Promise<boolean> {
+    const user = await AuthService.getUser(userId);
+    return user ? this.userCan(user, permission, dataSourceId) : false;
+  }
+
+  /**
+   * Check a permission for an already loaded user
+   */
+  static async userCan(user: User, permission: Permission, dataSourceId?: string): Promise<boolean> {
+    if (!user.active) {
+      return false;
+    }
+    const dataSourceRole = dataSourceId ? await this.getDataSourceRole(user.id, dataSourceId) : undefined;
+    return hasPermission(user.role, permission, dataSourceRole);
+  }
+
+  /**
+   * Get the role a user was granted on a data source, if any
+   */
+  static async getDataSourceRole(userId: string, dataSourceId: string): Promise<DataSourceRole | undefined> {
+    const database = await getDatabase();
+    const grant = await database.getRepository(DataSourcePermissionEntity).findOne({
+      where: { userId, dataSourceId }
+    });
+    return grant?.role;
+  }
+
+  /**
+   * Get all of a user's data source grants keyed by data source ID
+   */
+  static async getDataSourceRoles(userId: string): Promise<Record<string, DataSourceRole>> {
+    const database = await getDatabase();
+    const grants = await database.getRepository(DataSourcePermissionEntity).find({ where: { userId } });
+    return Object.fromEntries(grants.map(grant => [grant.dataSourceId, grant.role]));
+  }
+
+  /**
+   * List the grants on a data source
+   */
+  static async listGrants(dataSourceId: string): Promise<DataSourcePermission[]> {
+    const database = await getDatabase();
+    const grants = await database.getRepository(DataSourcePermissionEntity).find({
+      where: { dataSourceId },
+      order: { createdAt: 'ASC' }
+    });
+    if (grants.length === 0) {
+      return [];
+    }
+
+    const users = await database.getRepository(UserEntity).find();
+    const usernames = new Map(users.map(user => [user.id, user.username]));
+    return grants.map(grant => this.entityToPermission(grant, usernames.get(grant.userId)));
+  }
+
+  /**
+   * Grant a user a role on a data source, replacing any earlier grant
+   */
+  static async grant(
+    dataSourceId: string,
+    userId: string,
+    role: DataSourceRole,
+    grantedBy: string
+  ): Promise<DataSourcePermission> {
+    if (!isDataSourceRole(role)) {
+      throw new Error(`Invalid data source role: ${role}`);
+    }
+
+    const database = await getDatabase();
+    const user = await database.getRepository(UserEntity).findOne({ where: { id: userId } });
+    if (!user) {
+      throw new Error(`User ${userId} not found`);
+    }
+    const dataSource = await database.getRepository(DataSourceEntity).findOne({ where: { id: dataSourceId } });
+    if (!dataSource) {
+      throw new Error(`Data source ${dataSourceId} not found`);
+    }
+
+    const repository = database.getRepository(DataSourcePermissionEntity);
+    const existing = await repository.findOne({ where: { dataSourceId, userId } });
+    const grant = existing || repository.create({ dataSourceId, userId });
+    grant.role = role;
+    grant.grantedBy = grantedBy;
+
+    return this.entityToPermission(await repository.save(grant), user.username);
+  }
+
+  /**
+   * Remove a user's grant on a data source
+   */
+  static async revoke(dataSourceId: string, userId: string): Promise<boolean> {
+    const database = await getDatabase();
+    const result = await database.getRepository(DataSourcePermissionEntity).delete({ dataSourceId, userId });
+    return (result.affected ?? 0) > 0;
+  }
+
+  private static entityToPermission(entity: DataSourcePermissionEntity, username?: string): DataSourcePermission {
+    return {
+      id: entity.id,
+      dataSourceId: entity.dataSourceId,
+      userId: entity.userId,
+      username,
+      role: entity.role,
+      grantedBy: entity.grantedBy,
+      createdAt: entity.createdAt
+    };
+  }
+}
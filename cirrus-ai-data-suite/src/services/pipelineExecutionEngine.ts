@@ -0,0 +1,406 @@
+/**
+ * Pipeline Execution Engine
+ * Runs a pipeline's nodes in topological order, passing records along edges
+ */
+
+import { getDatabase } from '@/database/connection';
+import { PipelineEntity } from '@/entities/PipelineEntity';
+import {
+  Pipeline,
+  PipelineEdge,
+  PipelineExecution,
+  PipelineNode,
+  PipelineStatus,
+  ExecutionLog,
+  NodeExecutionMetrics,
+  NodeOutputSample,
+  TriggerType
+} from '@/types/pipeline';
+import { PipelineNodeExecutors, PortData, NodeOutputs } from './pipelineNodeExecutors';
+import { registerExecution, removeExecution, getActiveExecution } from './pipelineExecutionService';
+import { PipelineExecutionHistoryService } from './pipelineExecutionHistoryService';
+import { logger } from '@/utils/logger';
+import { highWaterMark } from '@/utils/classification';
+
+// Keep finished executions available to SSE clients for a while
+const COMPLETED_EXECUTION_TTL_MS = 5 * 60 * 1000;
+
+// Number of records kept per output port for run inspection
+const OUTPUT_SAMPLE_SIZE = 10;
+
+export class PipelineExecutionEngine {
+  /**
+   * Order nodes so that every node comes after all of its upstream nodes.
+   * Throws if the graph contains a cycle.
+   */
+  static topologicalSort(nodes: PipelineNode[], edges: PipelineEdge[]): PipelineNode[] {
+    const nodeMap = new Map(nodes.map(node => [node.id, node]));
+    const inDegree = new Map(nodes.map(node => [node.id, 0]));
+    const adjacency = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+
+    for (const edge of edges) {
+      if (!nodeMap.has(edge.source) || !nodeMap.has(edge.target)) continue;
+      adjacency.get(edge.source)!.push(edge.target);
+      inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1);
+    }
+
+    // Preserve the pipeline's node order among nodes that are ready at the same time
+    const queue = nodes.filter(node => inDegree.get(node.id) === 0).map(node => node.id);
+    const sorted: PipelineNode[] = [];
+
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      sorted.push(nodeMap.get(nodeId)!);
+      for (const targetId of adjacency.get(nodeId)!) {
+        const degree = inDegree.get(targetId)! - 1;
+        inDegree.set(targetId, degree);
+        if (degree === 0) {
+          queue.push(targetId);
+        }
+      }
+    }
+
+    if (sorted.length !== nodes.length) {
+      throw new Error('Pipeline contains circular dependencies');
+    }
+    return sorted;
+  }
+
+  /**
+   * Load a saved pipeline definition
+   */
+  static async loadPipeline(pipelineId: string): Promise<Pipeline | null> {
+    const database = await getDatabase();
+    const entity = await database.getRepository(PipelineEntity).findOne({ where: { id: pipelineId } });
+    return entity ? this.entityToPipeline(entity) : null;
+  }
+
+  /**
+   * Convert a stored pipeline row to a Pipeline
+   */
+  static entityToPipeline(entity: PipelineEntity): Pipeline {
+    return {
+      id: entity.id,
+      name: entity.name,
+      description: entity.description || '',
+      nodes: entity.nodes ? JSON.parse(entity.nodes) : [],
+      edges: entity.edges ? JSON.parse(entity.edges) : [],
+      triggers: entity.triggers ? JSON.parse(entity.triggers) : [],
+      schedule: entity.schedule ? JSON.parse(entity.schedule) : undefined,
+      status: entity.status,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+      createdBy: entity.createdBy,
+      tags: entity.tags ? JSON.parse(entity.tags) : [],
+      version: entity.version
+    };
+  }
+
+  /**
+   * Create a queued execution record for a pipeline, pinned to the saved version
+   * it runs (null when running unsaved changes)
+   */
+  static createExecution(
+    pipeline: Pipeline,
+    triggeredBy: TriggerType,
+    pipelineVersion: number | null = pipeline.version
+  ): PipelineExecution {
+    const nodeMetrics: Record<string, NodeExecutionMetrics> = {};
+    for (const node of pipeline.nodes) {
+      nodeMetrics[node.id] = {
+        nodeId: node.id,
+        label: node.data.label,
+        status: 'pending',
+        duration: 0,
+        recordsIn: 0,
+        recordsOut: 0,
+        bytesIn: 0,
+        bytesOut: 0
+      };
+    }
+
+    return {
+      id: `exec_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      pipelineId: pipeline.id,
+      status: 'queued',
+      startedAt: new Date(),
+      triggeredBy,
+      pipelineVersion: pipelineVersion ?? undefined,
+      logs: [],
+      metrics: {
+        totalNodes: pipeline.nodes.length,
+        completedNodes: 0,
+        failedNodes: 0,
+        duration: 0,
+        dataProcessed: 0,
+        recordsProcessed: 0,
+        nodeMetrics
+      },
+      outputSamples: {}
+    };
+  }
+
+  /**
+   * Start a pipeline run in the background and return the execution immediately.
+   * Progress can be followed through the active execution registry.
+   */
+  static start(
+    pipeline: Pipeline,
+    triggeredBy: TriggerType = 'manual',
+    triggerDetails?: Record<string, unknown>,
+    pipelineVersion: number | null = pipeline.version
+  ): PipelineExecution {
+    const execution = this.createExecution(pipeline, triggeredBy, pipelineVersion);
+    registerExecution(pipeline.id, execution);
+
+    this.run(pipeline, execution, triggerDetails).catch(error => {
+      logger.error(`Pipeline ${pipeline.id} execution ${execution.id} crashed:`, error);
+    });
+
+    return execution;
+  }
+
+  /**
+   * Run a pipeline to completion
+   */
+  static async execute(
+    pipeline: Pipeline,
+    triggeredBy: TriggerType = 'manual',
+    triggerDetails?: Record<string, unknown>,
+    pipelineVersion: number | null = pipeline.version
+  ): Promise<PipelineExecution> {
+    const execution = this.createExecution(pipeline, triggeredBy, pipelineVersion);
+    registerExecution(pipeline.id, execution);
+    await this.run(pipeline, execution, triggerDetails);
+    return execution;
+  }
+
+  /**
+   * Check whether a pipeline has a run in progress
+   */
+  static isRunning(pipelineId: string): boolean {
+    const execution = getActiveExecution(pipelineId);
+    return !!execution && (execution.status === 'queued' || execution.status === 'running');
+  }
+
+  private static async run(
+    pipeline: Pipeline,
+    execution: PipelineExecution,
+    triggerDetails?: Record<string, unknown>
+  ): Promise<void> {
+    const startTime = Date.now();
+    const outputs = new Map<string, NodeOutputs>();
+    const blockedNodes = new Set<string>();
+    const nodeMetrics = execution.metrics.nodeMetrics!;
+
+    execution.status = 'running';
+    this.addLog(execution, 'info', 'Pipeline execution started', {
+      nodeCount: pipeline.nodes.length,
+      triggeredBy: execution.triggeredBy,
+      pipelineVersion: execution.pipelineVersion ?? 'unsaved',
+      ...(triggerDetails ? { trigger: triggerDetails } : {})
+    });
+    await this.updatePipelineStatus(pipeline.id, 'active');
+    await this.persist(execution);
+
+    try {
+      const orderedNodes = this.topologicalSort(pipeline.nodes, pipeline.edges);
+
+      for (const node of orderedNodes) {
+        const metrics = nodeMetrics[node.id];
+        const upstreamEdges = pipeline.edges.filter(edge => edge.target === node.id);
+
+        // Skip nodes that depend on a failed or skipped node
+        if (upstreamEdges.some(edge => blockedNodes.has(edge.source))) {
+          metrics.status = 'skipped';
+          blockedNodes.add(node.id);
+          this.addLog(execution, 'warn', `Skipping ${node.data.label}: upstream node did not complete`, undefined, node.id);
+          continue;
+        }
+
+        const executor = PipelineNodeExecutors.getExecutor(node);
+        if (!executor) {
+          this.failNode(execution, node, `Node type "${PipelineNodeExecutors.getTemplateName(node)}" is not supported`);
+          blockedNodes.add(node.id);
+          continue;
+        }
+
+        const inputs = this.collectInputs(node, upstreamEdges, pipeline.nodes, outputs);
+        const inputRecords = Object.values(inputs).flatMap(port => port.records);
+        metrics.status = 'running';
+        metrics.startedAt = new Date();
+        metrics.recordsIn = inputRecords.length;
+        metrics.bytesIn = this.estimateBytes(inputRecords);
+        this.addLog(execution, 'info', `Executing ${node.data.label}`, { recordsIn: metrics.recordsIn }, node.id);
+
+        try {
+          const nodeOutputs = await executor({
+            pipeline,
+            execution,
+            node,
+            config: node.data.config || {},
+            inputs,
+            log: (level, message, details) => this.addLog(execution, level, message, details, node.id)
+          });
+          this.propagateClassification(inputs, nodeOutputs);
+          outputs.set(node.id, nodeOutputs);
+
+          const outputRecords = Object.values(nodeOutputs).flatMap(port => port.records);
+          metrics.status = 'completed';
+          metrics.completedAt = new Date();
+          metrics.duration = metrics.completedAt.getTime() - metrics.startedAt.getTime();
+          metrics.recordsOut = outputRecords.length;
+          metrics.bytesOut = this.estimateBytes(outputRecords);
+          execution.metrics.completedNodes++;
+          execution.outputSamples![node.id] = this.sampleOutputs(nodeOutputs);
+
+          // Source nodes define how much data the run processed
+          if (upstreamEdges.length === 0) {
+            execution.metrics.recordsProcessed += metrics.recordsOut;
+            execution.metrics.dataProcessed += metrics.bytesOut;
+          }
+        } catch (error) {
+          this.failNode(execution, node, error instanceof Error ? error.message : String(error));
+          blockedNodes.add(node.id);
+        }
+
+        await this.persist(execution);
+      }
+
+      execution.status = execution.metrics.failedNodes > 0 ? 'failed' : 'completed';
+      if (execution.status === 'failed') {
+        const failed = Object.values(nodeMetrics).filter(metrics => metrics.status === 'failed');
+        execution.error = failed.map(metrics => `${metrics.label}: ${metrics.error}`).join('; ');
+      }
+    } catch (error) {
+      execution.status = 'failed';
+      execution.error = error instanceof Error ? error.message : String(error);
+    }
+
+    execution.completedAt = new Date();
+    execution.metrics.duration = Date.now() - startTime;
+
+    if (execution.status === 'completed') {
+      this.addLog(execution, 'info', 'Pipeline execution completed', {
+        duration: execution.metrics.duration,
+        recordsProcessed: execution.metrics.recordsProcessed
+      });
+    } else {
+      this.addLog(execution, 'error', 'Pipeline execution failed', { error: execution.error });
+    }
+
+    await this.updatePipelineStatus(pipeline.id, execution.status === 'completed' ? 'completed' : 'error');
+    await this.persist(execution);
+
+    setTimeout(() => removeExecution(pipeline.id), COMPLETED_EXECUTION_TTL_MS).unref?.();
+  }
+
+  /**
+   * Gather upstream outputs into this node's input ports.
+   * Edges without handles connect the first output port to the first input port.
+   */
+  private static collectInputs(
+    node: PipelineNode,
+    upstreamEdges: PipelineEdge[],
+    nodes: PipelineNode[],
+    outputs: Map<string, NodeOutputs>
+  ): Record<string, PortData> {
+    const inputs: Record<string, PortData> = {};
+
+    for (const edge of upstreamEdges) {
+      const sourceNode = nodes.find(candidate => candidate.id === edge.source);
+      const sourceOutputs = outputs.get(edge.source) || {};
+      const sourcePort = edge.sourceHandle || sourceNode?.data.outputs[0]?.id || Object.keys(sourceOutputs)[0];
+      const targetPort = edge.targetHandle || node.data.inputs[0]?.id || 'input';
+      const data = sourcePort ? sourceOutputs[sourcePort] : undefined;
+      if (!data) continue;
+
+      const existing = inputs[targetPort];
+      inputs[targetPort] = existing
+        ? {
+            records: existing.records.concat(data.records),
+            report: existing.report || data.report,
+            classification: highWaterMark([existing.classification, data.classification])
+          }
+        : { records: data.records, report: data.report, classification: data.classification };
+    }
+
+    return inputs;
+  }
+
+  /**
+   * Every output carries at least the marking of everything the node read (high-water mark),
+   * so executors only need to mark the data they load themselves.
+   */
+  private static propagateClassification(inputs: Record<string, PortData>, outputs: NodeOutputs): void {
+    const inputMarking = highWaterMark(Object.values(inputs).map(port => port.classification));
+    for (const port of Object.values(outputs)) {
+      const marking = highWaterMark([port.classification, inputMarking]);
+      if (marking) {
+        port.classification = marking;
+      }
+    }
+  }
+
+  private static sampleOutputs(outputs: NodeOutputs): NodeOutputSample[] {
+    return Object.entries(outputs).map(([port, data]) => ({
+      port,
+      recordCount: data.records.length,
+      records: data.records.slice(0, OUTPUT_SAMPLE_SIZE),
+      report: data.report
+    }));
+  }
+
+  private static failNode(execution: PipelineExecution, node: PipelineNode, message: string): void {
+    const metrics = execution.metrics.nodeMetrics![node.id];
+    metrics.status = 'failed';
+    metrics.error = message;
+    metrics.completedAt = new Date();
+    if (metrics.startedAt) {
+      metrics.duration = metrics.completedAt.getTime() - metrics.startedAt.getTime();
+    }
+    execution.metrics.failedNodes++;
+    this.addLog(execution, 'error', `${node.data.label} failed: ${message}`, undefined, node.id);
+  }
+
+  private static addLog(
+    execution: PipelineExecution,
+    level: ExecutionLog['level'],
+    message: string,
+    details?: Record<string, unknown>,
+    nodeId?: string
+  ): void {
+    execution.logs.push({ timestamp: new Date(), level, nodeId, message, details });
+  }
+
+  private static estimateBytes(records: unknown[]): number {
+    try {
+      return Buffer.byteLength(JSON.stringify(records));
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Store the execution in the run history. Failures are logged but never stop the run.
+   */
+  private static async persist(execution: PipelineExecution): Promise<void> {
+    try {
+      await PipelineExecutionHistoryService.saveExecution(execution);
+    } catch (error) {
+      logger.error(`Failed to save execution ${execution.id} to history:`, error);
+    }
+  }
+
+  private static async updatePipelineStatus(pipelineId: string, status: PipelineStatus): Promise<void> {
+    try {
+      const database = await getDatabase();
+      await database.getRepository(PipelineEntity).update(
+        { id: pipelineId },
+        { status, updatedAt: new Date() }
+      );
+    } catch (error) {
+      logger.error(`Failed to update pipeline ${pipelineId} status to ${status}:`, error);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Pipeline Execution History Service
+ * Persists pipeline runs with their logs, metrics and per-node output samples
+ */
+
+import { getDatabase } from '@/database/connection';
+import { PipelineExecutionEntity } from '@/entities/PipelineExecutionEntity';
+import { ExecutionStatus, PipelineExecution, PipelineExecutionPage, TriggerType } from '@/types/pipeline';
+
+export interface ExecutionHistoryQuery {
+  page?: number;
+  pageSize?: number;
+  status?: ExecutionStatus;
+}
+
+const MAX_PAGE_SIZE = 100;
+
+export class PipelineExecutionHistoryService {
+  /**
+   * Insert or update a stored execution
+   */
+  static async saveExecution(execution: PipelineExecution): Promise<void> {
+    const database = await getDatabase();
+    const repository = database.getRepository(PipelineExecutionEntity);
+
+    await repository.save({
+      id: execution.id,
+      pipelineId: execution.pipelineId,
+      status: execution.status,
+      triggeredBy: execution.triggeredBy,
+      pipelineVersion: execution.pipelineVersion,
+      startedAt: execution.startedAt,
+      completedAt: execution.completedAt,
+      durationMs: execution.metrics.duration,
+      recordsProcessed: execution.metrics.recordsProcessed,
+      logs: JSON.stringify(execution.logs),
+      metrics: JSON.stringify(execution.metrics),
+      outputSamples: execution.outputSamples ? JSON.stringify(execution.outputSamples) : undefined,
+      error: execution.error
+    });
+  }
+
+  /**
+   * List a pipeline's runs, newest first. Logs and output samples are omitted;
+   * use getExecution for the full record.
+   */
+  static async listExecutions(pipelineId: string, query: ExecutionHistoryQuery = {}): Promise<PipelineExecutionPage> {
+    const page = Math.max(1, query.page || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, query.pageSize || 20));
+
+    const database = await getDatabase();
+    const repository = database.getRepository(PipelineExecutionEntity);
+    const [entities, totalRecords] = await repository.findAndCount({
+      where: query.status ? { pipelineId, status: query.status } : { pipelineId },
+      order: { startedAt: 'DESC' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      select: ['id', 'pipelineId', 'status', 'triggeredBy', 'pipelineVersion', 'startedAt', 'completedAt', 'durationMs', 'recordsProcessed', 'metrics', 'error']
+    });
+
+    const totalPages = Math.ceil(totalRecords / pageSize);
+    return {
+      executions: entities.map(entity => this.entityToExecution(entity)),
+      pagination: {
+        page,
+        pageSize,
+        totalPages,
+        totalRecords,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1
+      }
+    };
+  }
+
+  /**
+   * Get a single run with its logs and output samples
+   */
+  static async getExecution(pipelineId: string, executionId: string): Promise<PipelineExecution | null> {
+    const database = await getDatabase();
+    const repository = database.getRepository(PipelineExecutionEntity);
+    const entity = await repository.findOne({ where: { id: executionId, pipelineId } });
+    return entity ? this.entityToExecution(entity) : null;
+  }
+
+  /**
+   * Delete all stored runs of a pipeline
+   */
+  static async deleteExecutionsForPipeline(pipelineId: string): Promise<void> {
+    const database = await getDatabase();
+    await database.getRepository(PipelineExecutionEntity).delete({ pipelineId });
+  }
+
+  private static entityToExecution(entity: PipelineExecutionEntity): PipelineExecution {
+    const metrics = entity.metrics ? JSON.parse(entity.metrics) : {
+      totalNodes: 0,
+      completedNodes: 0,
+      failedNodes: 0,
+      duration: entity.durationMs,
+      dataProcessed: 0,
+      recordsProcessed: entity.recordsProcessed
+    };
+
+    return {
+      id: entity.id,
+      pipelineId: entity.pipelineId,
+      status: entity.status,
+      triggeredBy: entity.triggeredBy as TriggerType,
+      pipelineVersion: entity.pipelineVersion ?? undefined,
+      startedAt: entity.startedAt,
+      completedAt: entity.completedAt || undefined,
+      logs: entity.logs ? JSON.parse(entity.logs) : [],
+      metrics,
+      outputSamples: entity.outputSamples ? JSON.parse(entity.outputSamples) : undefined,
+      error: entity.error || undefined
+    };
+  }
+}
@@ -0,0 +1,1209 @@
+/**
+ * Pipeline Node Executors
+ * Server-side implementations of the node templates defined in pipelineNodeTemplates.ts
+ */
+
+import { gzipSync } from 'zlib';
+import { Pipeline, PipelineExecution, PipelineNode, ExecutionLog } from '@/types/pipeline';
+import { DatabaseConnection } from '@/types/connector';
+import { ConditionGroup, RuleCondition } from '@/types/qualityRules';
+import { getDatabase } from '@/database/connection';
+import { DatabaseConnectionEntity } from '@/entities/DatabaseConnectionEntity';
+import { createConnector } from './connectors/connectorFactory';
+import { validateReadOnlyQuery } from './connectors/queryValidation';
+import { DataSourceService } from './dataSourceService';
+import { DataTransformationService, UnifiedDataCatalog } from './dataTransformationService';
+import { RecordStoreService } from './recordStoreService';
+import { CatalogMappingService } from './catalogMappingService';
+import { PatternService, Pattern } from './patternService';
+import { patternTestingService, RedactionStyle } from './patternTestingService';
+import { PseudonymizationService } from './pseudonymizationService';
+import { SyntheticDataService } from './syntheticDataService';
+import { dataProfilingService } from './dataProfilingService';
+import { qualityRulesService } from './qualityRulesService';
+import { StorageService } from './storage/storageService';
+import { ClassificationService } from './classificationService';
+import { EnvironmentService } from './environmentService';
+import { DatasetExportService } from './datasetExportService';
+import { evaluateConditionGroup } from '@/utils/conditionEvaluator';
+import { FilterExpression } from '@/utils/filterExpression';
+import { mapLeaves } from '@/utils/recordLeaves';
+import { checkDeployment, highWaterMark, markFileContent } from '@/utils/classification';
+
+export type PipelineRecord = Record<string, unknown>;
+
+/**
+ * Data flowing through a single node port
+ */
+export interface PortData {
+  records: PipelineRecord[];
+  report?: Record<string, unknown>;
+  // Classification marking of the data, e.g. "SECRET//NOFORN"; absent when unmarked
+  classification?: string;
+}
+
+export type NodeOutputs = Record<string, PortData>;
+
+export interface NodeExecutionContext {
+  pipeline: Pipeline;
+  execution: PipelineExecution;
+  node: PipelineNode;
+  config: Record<string, unknown>;
+  inputs: Record<string, PortData>;
+  log: (level: ExecutionLog['level'], message: string, details?: Record<string, unknown>) => void;
+}
+
+export type NodeExecutor = (context: NodeExecutionContext) => Promise<NodeOutputs>;
+
+// Fallback patterns referenced by name in the PII Detector default config
+const BUILT_IN_PATTERNS: Record<string, Omit<Pattern, 'createdAt'>> = {
+  ssn: {
+    id: 'ssn', name: 'Social Security Number', type: 'PII', category: 'Government ID',
+    regex: '\\b\\d{3}-\\d{2}-\\d{4}\\b', examples: [], description: 'US SSN', color: '', isActive: true
+  },
+  email: {
+    id: 'email', name: 'Email Address', type: 'PII', category: 'Contact',
+    regex: '\\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}\\b', examples: [], description: 'Email address', color: '', isActive: true
+  },
+  phone: {
+    id: 'phone', name: 'Phone Number', type: 'PII', category: 'Contact',
+    regex: '\\b(?:\\+?1[-.\\s]?)?\\(?\\d{3}\\)?[-.\\s]?\\d{3}[-.\\s]?\\d{4}\\b', examples: [], description: 'Phone number', color: '', isActive: true
+  },
+  credit_card: {
+    id: 'credit_card', name: 'Credit Card Number', type: 'FINANCIAL', category: 'Payment',
+    regex: '\\b(?:\\d{4}[-\\s]?){3}\\d{4}\\b', examples: [], description: 'Credit card number', color: '', isActive: true
+  }
+};
+
+const CONFIDENCE_LEVELS: Record<string, number> = {
+  high: 0.9,
+  medium: 0.7,
+  low: 0.5,
+  all: 0
+};
+
+type JoinType = 'inner' | 'left' | 'full';
+
+// Data Merger strategies that join input1 (left) with input2 (right)
+const JOIN_TYPES: Record<string, JoinType> = {
+  inner_join: 'inner',
+  left_join: 'left',
+  full_join: 'full'
+};
+
+export class PipelineNodeExecutors {
+  private static readonly EXECUTORS: Record<string, NodeExecutor> = {
+    // Sources
+    'File Upload': (context) => PipelineNodeExecutors.executeFileUpload(context),
+    'Database Query': (context) => PipelineNodeExecutors.executeDatabaseQuery(context),
+    'REST API': (context) => PipelineNodeExecutors.executeRestApi(context),
+    // Transforms
+    'Data Format Converter': (context) => PipelineNodeExecutors.executeFormatConverter(context),
+    'Data Filter': (context) => PipelineNodeExecutors.executeFilter(context),
+    'Field Mapper': (context) => PipelineNodeExecutors.executeFieldMapper(context),
+    'Data Aggregator': (context) => PipelineNodeExecutors.executeAggregator(context),
+    // Analysis
+    'Data Profiler': (context) => PipelineNodeExecutors.executeProfiler(context),
+    'Data Validator': (context) => PipelineNodeExecutors.executeValidator(context),
+    // Privacy
+    'PII Detector': (context) => PipelineNodeExecutors.executePIIDetector(context),
+    'Data Redactor': (context) => PipelineNodeExecutors.executeRedactor(context),
+    'Synthetic Generator': (context) => PipelineNodeExecutors.executeSyntheticGenerator(context),
+    // Outputs
+    'File Export': (context) => PipelineNodeExecutors.executeFileExport(context),
+    'Database Writer': (context) => PipelineNodeExecutors.executeDatabaseWriter(context),
+    'API Publisher': (context) => PipelineNodeExecutors.executeApiPublisher(context),
+    'Environment Deploy': (context) => PipelineNodeExecutors.executeEnvironmentDeploy(context),
+    'ML Training Data': (context) => PipelineNodeExecutors.executeMLTrainingData(context),
+    // Control flow
+    'Conditional Branch': (context) => PipelineNodeExecutors.executeConditionalBranch(context),
+    'Data Merger': (context) => PipelineNodeExecutors.executeMerger(context)
+  };
+
+  /**
+   * Resolve the template a node was created from (labels can be renamed by the user)
+   */
+  static getTemplateName(node: PipelineNode): string {
+    const templateName = node.data.metadata?.templateName;
+    return typeof templateName === 'string' && templateName ? templateName : node.data.label;
+  }
+
+  /**
+   * Get the executor for a node, if its template is supported
+   */
+  static getExecutor(node: PipelineNode): NodeExecutor | undefined {
+    return this.EXECUTORS[this.getTemplateName(node)];
+  }
+
+  /**
+   * Get all template names that can be executed
+   */
+  static getSupportedTemplates(): string[] {
+    return Object.keys(this.EXECUTORS);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sources
+  // ---------------------------------------------------------------------------
+
+  private static async executeFileUpload(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const dataSourceId = String(context.config.dataSourceId || '');
+    if (!dataSourceId) {
+      throw new Error('No data source selected');
+    }
+
+    const stored = await DataSourceService.openRecords(dataSourceId);
+    if (!stored) {
+      throw new Error(`Data source ${dataSourceId} not found`);
+    }
+
+    const records: PipelineRecord[] = await RecordStoreService.collectData(stored);
+    context.log('info', `Loaded ${records.length} records from ${stored.catalog.sourceName}`, {
+      dataSourceId,
+      totalRecords: stored.catalog.totalRecords
+    });
+    const classification = await ClassificationService.getDataSourceMarking(dataSourceId);
+    return { data: { records, classification } };
+  }
+
+  private static async executeDatabaseQuery(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const connectionId = String(context.config.connectionId || '');
+    if (!connectionId) {
+      throw new Error('No database connection selected');
+    }
+
+    const connection = await this.loadDatabaseConnection(connectionId);
+    const table = String(context.config.table || '');
+    let query = String(context.config.query || '').trim();
+    if (!query && table) {
+      if (connection.type === 'mongodb') {
+        query = JSON.stringify({ collection: table });
+      } else if (/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/.test(table)) {
+        query = `SELECT * FROM ${table}`;
+      } else {
+        throw new Error(`Invalid table name: ${table}`);
+      }
+    }
+    if (!query) {
+      throw new Error('No query or table configured');
+    }
+    const validationError = validateReadOnlyQuery(query, connection.type);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const connector = createConnector(connection);
+    try {
+      await connector.connect();
+      const result = await connector.executeQuery(query);
+      const records = result.rows.map(row => {
+        const record: PipelineRecord = {};
+        result.columns.forEach((column, index) => {
+          record[column] = row[index];
+        });
+        return record;
+      });
+      context.log('info', `Query returned ${records.length} rows`, { connectionId });
+      return { data: { records } };
+    } finally {
+      await connector.disconnect();
+    }
+  }
+
+  private static async executeRestApi(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const url = String(context.config.url || '');
+    if (!url) {
+      throw new Error('No API URL configured');
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), Number(context.config.timeout) || 30000);
+    try {
+      const response = await fetch(url, {
+        method: String(context.config.method || 'GET'),
+        headers: this.parseJsonConfig<Record<string, string>>(context.config.headers, {}),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      let payload: unknown = await response.json();
+      const dataPath = String(context.config.dataPath || '');
+      if (dataPath) {
+        payload = dataPath.split('.').reduce<unknown>(
+          (value, key) => (value as Record<string, unknown> | undefined)?.[key],
+          payload
+        );
+      }
+
+      const records = this.toRecords(payload);
+      context.log('info', `API returned ${records.length} records`, { url, status: response.status });
+      return { data: { records } };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Transforms
+  // ---------------------------------------------------------------------------
+
+  private static async executeFormatConverter(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const preserveTypes = context.config.preserveTypes !== false;
+    const records = this.getInputRecords(context).map(record => {
+      const converted: PipelineRecord = {};
+      for (const [key, value] of Object.entries(record)) {
+        if (value instanceof Date) {
+          converted[key] = value.toISOString();
+        } else if (!preserveTypes && value !== null && value !== undefined) {
+          converted[key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        } else {
+          converted[key] = value;
+        }
+      }
+      return converted;
+    });
+    return { output: { records } };
+  }
+
+  private static async executeFilter(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const input = this.getInputRecords(context);
+    const conditions = this.parseJsonConfig<Array<RuleCondition | ConditionGroup>>(context.config.conditions, []);
+    const filterExpression = String(context.config.filterExpression || '').trim();
+
+    let records = input;
+    if (conditions.length > 0) {
+      const group: ConditionGroup = {
+        id: `${context.node.id}_conditions`,
+        operator: context.config.operator === 'OR' ? 'OR' : 'AND',
+        conditions
+      };
+      records = input.filter(record => evaluateConditionGroup(group, record));
+    } else if (filterExpression) {
+      const expression = FilterExpression.parse(filterExpression);
+      records = input.filter(record => expression.matches(record));
+    } else {
+      context.log('warn', 'No filter conditions configured, passing all records through');
+    }
+
+    context.log('info', `Kept ${records.length} of ${input.length} records`);
+    return { output: { records } };
+  }
+
+  private static async executeFieldMapper(context: NodeExecutionContext): Promise<NodeOutputs> {
+    let records = this.getInputRecords(context);
+
+    // Apply saved catalog mappings for a data source
+    const catalogMappingId = String(context.config.catalogMappingId || '');
+    if (catalogMappingId) {
+      const mapped = await CatalogMappingService.transformDataToCatalog(catalogMappingId, records);
+      const dropUnmapped = Boolean(context.config.dropUnmapped);
+      records = mapped.map(result => {
+        if (dropUnmapped) return result.catalogData;
+        const unmapped: PipelineRecord = {};
+        for (const field of result.mappingInfo.unmappedFields) {
+          unmapped[field] = result.sourceData[field];
+        }
+        return { ...unmapped, ...result.catalogData };
+      });
+      context.log('info', 'Applied catalog field mappings', { sourceId: catalogMappingId });
+    }
+
+    // Apply custom mappings: { outputField: "inputField" | "{{field1}} {{field2}}" }
+    const mappings = this.parseJsonConfig<Record<string, string>>(context.config.mappings, {});
+    if (Object.keys(mappings).length > 0) {
+      const dropUnmapped = Boolean(context.config.dropUnmapped);
+      records = records.map(record => {
+        const result: PipelineRecord = dropUnmapped ? {} : { ...record };
+        for (const [outputField, source] of Object.entries(mappings)) {
+          if (source.includes('{{')) {
+            result[outputField] = source.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, field: string) => {
+              const value = record[field];
+              return value === null || value === undefined ? '' : String(value);
+            });
+          } else {
+            result[outputField] = record[source];
+            if (!dropUnmapped && source !== outputField) {
+              delete result[source];
+            }
+          }
+        }
+        return result;
+      });
+    }
+
+    return { output: { records } };
+  }
+
+  private static async executeAggregator(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const input = this.getInputRecords(context);
+    const groupBy = this.parseFieldList(context.config.groupBy);
+    const aggregations = this.parseAggregations(context.config.aggregations);
+
+    const groups = new Map<string, PipelineRecord[]>();
+    for (const record of input) {
+      const key = JSON.stringify(groupBy.map(field => record[field] ?? null));
+      const group = groups.get(key);
+      if (group) {
+        group.push(record);
+      } else {
+        groups.set(key, [record]);
+      }
+    }
+
+    const records = Array.from(groups.values()).map(group => {
+      const result: PipelineRecord = {};
+      for (const field of groupBy) {
+        result[field] = group[0][field];
+      }
+      for (const { alias, fn, field } of aggregations) {
+        const values = field === '*'
+          ? group
+          : group.map(record => record[field]).filter(value => value !== null && value !== undefined && value !== '');
+        const numbers = values.map(Number).filter(value => !isNaN(value));
+        switch (fn) {
+          case 'COUNT':
+            result[alias] = values.length;
+            break;
+          case 'SUM':
+            result[alias] = numbers.reduce((sum, value) => sum + value, 0);
+            break;
+          case 'AVG':
+            result[alias] = numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : null;
+            break;
+          case 'MIN':
+            result[alias] = numbers.length > 0 ? numbers.reduce((min, value) => (value < min ? value : min)) : null;
+            break;
+          case 'MAX':
+            result[alias] = numbers.length > 0 ? numbers.reduce((max, value) => (value > max ? value : max)) : null;
+            break;
+        }
+      }
+      return result;
+    });
+
+    context.log('info', `Aggregated ${input.length} records into ${records.length} groups`, { groupBy });
+    return { output: { records } };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Analysis
+  // ---------------------------------------------------------------------------
+
+  private static async executeProfiler(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const input = this.getInputRecords(context);
+    const maxSampleSize = Number(context.config.maxSampleSize) || 0;
+    const sample = maxSampleSize > 0 ? input.slice(0, maxSampleSize) : input;
+
+    const profile = await dataProfilingService.profileDataCatalog(
+      this.buildCatalog(context, sample)
+    );
+    context.log('info', `Profiled ${sample.length} records`, {
+      fieldCount: profile.fields.length,
+      overallQuality: profile.qualityMetrics.overallScore
+    });
+    return { profile: { records: [], report: profile as unknown as Record<string, unknown> } };
+  }
+
+  private static async executeValidator(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const input = this.getInputRecords(context);
+    const ruleRefs = this.parseJsonConfig<Array<string | { id?: string; name?: string; conditions: ConditionGroup }>>(context.config.rules, []);
+
+    const rules: Array<{ id: string; name: string; conditions: ConditionGroup }> = [];
+    for (const ref of ruleRefs) {
+      if (typeof ref === 'string') {
+        const rule = await qualityRulesService.getRule(ref);
+        if (!rule) {
+          throw new Error(`Quality rule ${ref} not found`);
+        }
+        if (rule.type === 'validation') {
+          rules.push({ id: rule.id, name: rule.name, conditions: rule.conditions });
+        }
+      } else if (ref?.conditions) {
+        rules.push({ id: ref.id || `inline_${rules.length}`, name: ref.name || 'Inline rule', conditions: ref.conditions });
+      }
+    }
+
+    const valid: PipelineRecord[] = [];
+    const invalid: PipelineRecord[] = [];
+    const violationsByRule: Record<string, number> = {};
+
+    input.forEach(record => {
+      // A validation rule's conditions describe a violation
+      const violated = rules.filter(rule => evaluateConditionGroup(rule.conditions, record));
+      violated.forEach(rule => {
+        violationsByRule[rule.name] = (violationsByRule[rule.name] || 0) + 1;
+      });
+      if (violated.length > 0) {
+        invalid.push(record);
+      } else {
+        valid.push(record);
+      }
+    });
+
+    if (context.config.strictMode && invalid.length > 0) {
+      throw new Error(`${invalid.length} records failed validation`);
+    }
+
+    context.log('info', `Validation: ${valid.length} valid, ${invalid.length} invalid`, { rules: rules.length });
+    return {
+      valid: { records: valid },
+      invalid: { records: invalid },
+      report: {
+        records: [],
+        report: {
+          totalRecords: input.length,
+          validRecords: valid.length,
+          invalidRecords: invalid.length,
+          rulesEvaluated: rules.map(rule => rule.name),
+          violationsByRule
+        }
+      }
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Privacy
+  // ---------------------------------------------------------------------------
+
+  private static async executePIIDetector(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const input = this.getInputRecords(context);
+    const patterns = await this.resolvePatterns(context.config);
+    if (patterns.length === 0) {
+      throw new Error('No PII patterns configured');
+    }
+
+    const threshold = this.resolveConfidenceThreshold(context.config.confidenceThreshold);
+    const excludeFields = new Set(this.parseFieldList(context.config.excludeFields));
+    const detections: Array<{ recordIndex: number; field: string; patternId: string; patternName: string; matchCount: number }> = [];
+    const byPattern: Record<string, number> = {};
+    const byField: Record<string, number> = {};
+    const recordsWithPII = new Set<number>();
+    let totalMatches = 0;
+
+    input.forEach((record, recordIndex) => {
+      for (const [field, value] of Object.entries(record)) {
+        if (excludeFields.has(field) || typeof value !== 'string' || !value) continue;
+        for (const pattern of patterns) {
+          const matches = patternTestingService.testPattern(value, pattern).matches
+            .filter(match => match.confidence >= threshold);
+          if (matches.length === 0) continue;
+
+          totalMatches += matches.length;
+          recordsWithPII.add(recordIndex);
+          byPattern[pattern.name] = (byPattern[pattern.name] || 0) + matches.length;
+          byField[field] = (byField[field] || 0) + matches.length;
+          if (detections.length < 1000) {
+            detections.push({ recordIndex, field, patternId: pattern.id, patternName: pattern.name, matchCount: matches.length });
+          }
+        }
+      }
+    });
+
+    context.log('info', `Found ${totalMatches} PII matches in ${recordsWithPII.size} records`, { byPattern });
+    return {
+      detected: {
+        records: [],
+        report: {
+          patternIds: patterns.map(pattern => pattern.id),
+          recordsScanned: input.length,
+          recordsWithPII: recordsWithPII.size,
+          totalMatches,
+          byPattern,
+          byField,
+          detections
+        }
+      }
+    };
+  }
+
+  private static async executeRedactor(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const input = this.getInputRecords(context, 'input');
+    const detectedPatternIds = context.inputs.patterns?.report?.patternIds as string[] | undefined;
+    const patterns = await this.resolvePatterns(
+      detectedPatternIds ? { ...context.config, patternIds: detectedPatternIds } : context.config
+    );
+    if (patterns.length === 0) {
+      throw new Error('No redaction patterns configured or detected upstream');
+    }
+
+    const action = String(context.config.action || '');
+    const removeFields = action === 'remove';
+    const excludeFields = new Set(this.parseFieldList(context.config.excludeFields));
+    const redactionsByField: Record<string, number> = {};
+
+    // Nested values are reported by dotted path; removing one removes its whole top-level field
+    const records = input.map(record => {
+      const removed = new Set<string>();
+      const redacted = mapLeaves(record, '', (value, path) => {
+        const field = path.split('.')[0];
+        const text = String(value);
+        if (excludeFields.has(field) || excludeFields.has(path) || !text) return value;
+
+        let result = text;
+        let matchCount = 0;
+        for (const pattern of patterns) {
+          const style = this.resolveRedactionStyle(context.config, pattern);
+          const match = patternTestingService.testPattern(result, pattern, style);
+          if (match.matches.length > 0) {
+            matchCount += match.matches.length;
+            result = PseudonymizationService.isPseudonymStyle(style)
+              ? PseudonymizationService.redact(result, match.matches, style)
+              : match.redactedText;
+          }
+        }
+
+        if (matchCount === 0) return value;
+        redactionsByField[path] = (redactionsByField[path] || 0) + matchCount;
+        if (removeFields) removed.add(field);
+        return result;
+      }) as PipelineRecord;
+
+      removed.forEach(field => delete redacted[field]);
+      return redacted;
+    });
+    await PseudonymizationService.flushVault();
+
+    context.log('info', `Redacted ${Object.values(redactionsByField).reduce((sum, count) => sum + count, 0)} values`, {
+      patterns: patterns.map(pattern => pattern.name),
+      redactionsByField
+    });
+    return { output: { records } };
+  }
+
+  private static async executeSyntheticGenerator(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const input = this.getInputRecords(context);
+    const recordCount = Number(context.config.recordCount) || input.length;
+    const records = SyntheticDataService.generateFromRecords(input, recordCount);
+    context.log('info', `Generated ${records.length} synthetic records from ${input.length} source records`);
+    return { output: { records } };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Outputs
+  // ---------------------------------------------------------------------------
+
+  private static async executeFileExport(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const records = this.getInputRecords(context);
+    const format = String(context.config.format || 'csv');
+    if (!DatasetExportService.isExportFormat(format)) {
+      throw new Error(`Unsupported export format: ${format}`);
+    }
+
+    const classification = this.getInputClassification(context);
+    const exported = await DatasetExportService.exportRecords(records, format, {
+      classification,
+      prettyPrint: Boolean(context.config.prettyPrint),
+      delimiter: String(context.config.delimiter || ','),
+      includeHeaders: context.config.includeHeaders !== false,
+      tableName: String(context.config.tableName || 'export')
+    });
+
+    const baseName = String(context.config.filename || context.config.destination || 'export_{timestamp}')
+      .replace('{timestamp}', new Date().toISOString().replace(/[:.]/g, '-'));
+    const fileName = baseName.endsWith(`.${exported.extension}`) ? baseName : `${baseName}.${exported.extension}`;
+    // Binary formats are compressed already
+    const compress = !exported.binary && (context.config.compression === true || context.config.compression === 'gzip');
+
+    const storageKey = await this.writeArtifact(context, compress ? `${fileName}.gz` : fileName,
+      compress ? gzipSync(exported.content) : exported.content, classification);
+    context.log('info', `Exported ${records.length} records`, { storageKey, format, compressed: compress, classification });
+    return {};
+  }
+
+  private static async executeDatabaseWriter(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const records = this.getInputRecords(context);
+    const connectionId = String(context.config.connectionId || '');
+    const table = String(context.config.table || context.config.tableName || '');
+    if (!connectionId) {
+      throw new Error('No database connection selected');
+    }
+    if (!/^[A-Za-z_][A-Za-z0-9_.]*$/.test(table)) {
+      throw new Error(`Invalid table name: ${table || '(empty)'}`);
+    }
+    if (records.length === 0) {
+      context.log('warn', 'No records to write');
+      return {};
+    }
+
+    const columns = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+    const invalidColumn = columns.find(column => !/^[A-Za-z_][A-Za-z0-9_]*$/.test(column));
+    if (invalidColumn) {
+      throw new Error(`Invalid column name: ${invalidColumn}`);
+    }
+
+    const connection = await this.loadDatabaseConnection(connectionId);
+    const connector = createConnector(connection);
+    const batchSize = Math.max(1, Number(context.config.batchSize) || 1000);
+    let written = 0;
+
+    try {
+      await connector.connect();
+      for (let offset = 0; offset < records.length; offset += batchSize) {
+        const batch = records.slice(offset, offset + batchSize);
+        const params: unknown[] = [];
+        const rows = batch.map(record => {
+          const placeholders = columns.map(column => {
+            const value = record[column];
+            params.push(value !== null && typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : value ?? null);
+            return connection.type === 'postgresql' ? `$${params.length}` : '?';
+          });
+          return `(${placeholders.join(', ')})`;
+        });
+        await connector.executeQuery(`INSERT INTO ${table} (${columns.join(', ')}) VALUES ${rows.join(', ')}`, params);
+        written += batch.length;
+      }
+    } finally {
+      await connector.disconnect();
+    }
+
+    context.log('info', `Wrote ${written} records to ${table}`, { connectionId });
+    return {};
+  }
+
+  private static async executeApiPublisher(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const records = this.getInputRecords(context);
+    const url = String(context.config.url || '');
+    if (!url) {
+      throw new Error('No API URL configured');
+    }
+
+    const batchSize = Math.max(1, Number(context.config.batchSize) || 100);
+    const headers = {
+      'Content-Type': 'application/json',
+      ...this.parseJsonConfig<Record<string, string>>(context.config.headers, {})
+    };
+
+    let batches = 0;
+    for (let offset = 0; offset < records.length; offset += batchSize) {
+      const response = await fetch(url, {
+        method: String(context.config.method || 'POST'),
+        headers,
+        body: JSON.stringify(records.slice(offset, offset + batchSize))
+      });
+      if (!response.ok) {
+        throw new Error(`API publish failed at record ${offset}: ${response.status} ${response.statusText}`);
+      }
+      batches++;
+    }
+
+    context.log('info', `Published ${records.length} records in ${batches} batches`, { url });
+    return {};
+  }
+
+  private static async executeEnvironmentDeploy(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const records = this.getInputRecords(context);
+    const environmentId = String(context.config.environmentId || '');
+    if (!environmentId) {
+      throw new Error('No target environment selected');
+    }
+
+    // Accreditation comes from the configured environment, never from the node config
+    const environment = EnvironmentService.getDeploymentEnvironment(environmentId);
+    if (!environment) {
+      throw new Error(`${environmentId} is not a configured deployment environment`);
+    }
+
+    // The stored markings of the pipeline's data sources count even if a node upstream dropped them
+    const classification = highWaterMark([
+      this.getInputClassification(context),
+      await this.getPipelineSourceMarking(context)
+    ]);
+    const deployment = checkDeployment(classification, environment);
+    if (!deployment.allowed) {
+      throw new Error(deployment.reason);
+    }
+
+    const qualityGates = Array.isArray(context.config.qualityGates) ? context.config.qualityGates as string[] : [];
+    if (qualityGates.includes('schema_validation')) {
+      const fields = Object.keys(records[0] || {}).sort().join(',');
+      const mismatch = records.findIndex(record => Object.keys(record).sort().join(',') !== fields);
+      if (mismatch !== -1) {
+        throw new Error(`Schema validation failed: record ${mismatch} does not match the schema of the first record`);
+      }
+    }
+
+    const storage = StorageService.getInstance();
+    const storageKey = `environments/${environmentId}/deployments/${context.execution.id}.json`;
+    await storage.uploadFile(storageKey, markFileContent(JSON.stringify(records), 'json', classification), {
+      contentType: 'application/json',
+      metadata: {
+        pipelineId: context.pipeline.id,
+        executionId: context.execution.id,
+        deploymentStrategy: String(context.config.deploymentStrategy || ''),
+        ...(classification && { classification })
+      }
+    });
+
+    context.log('info', `Deployed ${records.length} records to environment ${environmentId}`, { storageKey, qualityGates, classification });
+    return {};
+  }
+
+  private static async executeMLTrainingData(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const records = this.getInputRecords(context);
+    const ratio = this.parseJsonConfig<{ train?: number; validation?: number; test?: number }>(
+      context.config.splitRatio, { train: 0.7, validation: 0.2, test: 0.1 }
+    );
+    const format = String(context.config.format || 'jsonl');
+    if (format !== 'jsonl' && format !== 'json') {
+      context.log('warn', `Format ${format} is not supported, writing JSONL instead`);
+    }
+
+    const total = (ratio.train || 0) + (ratio.validation || 0) + (ratio.test || 0) || 1;
+    const trainEnd = Math.round(records.length * (ratio.train || 0) / total);
+    const validationEnd = trainEnd + Math.round(records.length * (ratio.validation || 0) / total);
+    const splits: Record<string, PipelineRecord[]> = {
+      train: records.slice(0, trainEnd),
+      validation: records.slice(trainEnd, validationEnd),
+      test: records.slice(validationEnd)
+    };
+
+    const classification = this.getInputClassification(context);
+    const storageKeys: Record<string, string> = {};
+    for (const [split, splitRecords] of Object.entries(splits)) {
+      const content = splitRecords.map(record => JSON.stringify(record)).join('\n');
+      storageKeys[split] = await this.writeArtifact(context, `ml/${split}.jsonl`,
+        markFileContent(content, 'jsonl', classification), classification);
+    }
+
+    context.log('info', 'Wrote ML training splits', {
+      train: splits.train.length,
+      validation: splits.validation.length,
+      test: splits.test.length,
+      storageKeys
+    });
+    return {};
+  }
+
+  // ---------------------------------------------------------------------------
+  // Control flow
+  // ---------------------------------------------------------------------------
+
+  private static async executeConditionalBranch(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const input = this.getInputRecords(context);
+    const group = this.resolveBranchConditions(context);
+    if (!group) {
+      throw new Error('No branch condition configured');
+    }
+
+    const matched: PipelineRecord[] = [];
+    const unmatched: PipelineRecord[] = [];
+    input.forEach(record => (evaluateConditionGroup(group, record) ? matched : unmatched).push(record));
+
+    context.log('info', `Routed ${matched.length} records to true and ${unmatched.length} to false`);
+    return { true: { records: matched }, false: { records: unmatched } };
+  }
+
+  /**
+   * Branch conditions are a condition group, a list of conditions combined with
+   * conditionLogic, or the legacy single condition/operator/value fields
+   */
+  private static resolveBranchConditions(context: NodeExecutionContext): ConditionGroup | null {
+    const id = `${context.node.id}_conditions`;
+    const parsed = this.parseJsonConfig<ConditionGroup | Array<RuleCondition | ConditionGroup> | null>(
+      context.config.conditions,
+      null
+    );
+
+    if (Array.isArray(parsed)) {
+      if (parsed.length > 0) {
+        return { id, operator: context.config.conditionLogic === 'OR' ? 'OR' : 'AND', conditions: parsed };
+      }
+    } else if (parsed && Array.isArray(parsed.conditions) && parsed.conditions.length > 0) {
+      return parsed;
+    }
+
+    const field = String(context.config.condition || '');
+    if (!field) return null;
+    return {
+      id,
+      operator: 'AND',
+      conditions: [{
+        id: `${id}_legacy`,
+        field,
+        operator: String(context.config.operator || 'equals') as RuleCondition['operator'],
+        value: context.config.value
+      }]
+    };
+  }
+
+  private static async executeMerger(context: NodeExecutionContext): Promise<NodeOutputs> {
+    const strategy = String(context.config.mergeStrategy || 'union');
+    const left = this.getInputRecords(context, 'input1');
+    const right = this.getInputRecords(context, 'input2');
+
+    let records: PipelineRecord[];
+    if (strategy === 'union') {
+      // Any additional ports are unioned after the two declared inputs
+      const extra = Object.entries(context.inputs)
+        .filter(([port]) => port !== 'input1' && port !== 'input2')
+        .flatMap(([, port]) => port.records);
+      records = [...left, ...right, ...extra];
+      if (context.config.alignSchema !== false) {
+        records = this.alignSchema(records);
+      }
+    } else if (JOIN_TYPES[strategy]) {
+      const joinKeys = this.parseFieldList(context.config.joinKeys);
+      if (joinKeys.length === 0) {
+        throw new Error(`Merge strategy "${strategy}" requires at least one join key`);
+      }
+      const rightKeys = this.parseFieldList(context.config.rightJoinKeys);
+      if (rightKeys.length > 0 && rightKeys.length !== joinKeys.length) {
+        throw new Error('Right join keys must match the number of join keys');
+      }
+      records = this.joinRecords(left, right, {
+        type: JOIN_TYPES[strategy],
+        leftKeys: joinKeys,
+        rightKeys: rightKeys.length > 0 ? rightKeys : joinKeys,
+        conflictSuffix: String(context.config.conflictSuffix || '_right')
+      });
+    } else {
+      throw new Error(`Unsupported merge strategy: ${strategy}`);
+    }
+
+    if (context.config.deduplication) {
+      const seen = new Set<string>();
+      records = records.filter(record => {
+        const key = JSON.stringify(record);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    context.log('info', `Merged ${left.length} + ${right.length} records into ${records.length} using ${strategy}`);
+    return { output: { records } };
+  }
+
+  /**
+   * Give every record the same fields, in first-seen order, filling gaps with null
+   */
+  private static alignSchema(records: PipelineRecord[]): PipelineRecord[] {
+    const fields = new Set<string>();
+    records.forEach(record => Object.keys(record).forEach(field => fields.add(field)));
+
+    return records.map(record => {
+      const aligned: PipelineRecord = {};
+      fields.forEach(field => {
+        aligned[field] = record[field] ?? null;
+      });
+      return aligned;
+    });
+  }
+
+  /**
+   * Hash join on the key fields. Right-side fields that clash with left-side
+   * fields (other than the join keys) are renamed with the conflict suffix.
+   */
+  private static joinRecords(
+    left: PipelineRecord[],
+    right: PipelineRecord[],
+    options: { type: JoinType; leftKeys: string[]; rightKeys: string[]; conflictSuffix: string }
+  ): PipelineRecord[] {
+    const { type, leftKeys, rightKeys, conflictSuffix } = options;
+    const keyOf = (record: PipelineRecord, keys: string[]): string | null => {
+      const values = keys.map(key => record[key]);
+      // Null keys never match, as in SQL
+      if (values.some(value => value === undefined || value === null)) return null;
+      return JSON.stringify(values.map(String));
+    };
+
+    const leftFields = new Set<string>();
+    left.forEach(record => Object.keys(record).forEach(field => leftFields.add(field)));
+    const rightFields = new Set<string>();
+    right.forEach(record => Object.keys(record).forEach(field => rightFields.add(field)));
+
+    const rightFieldNames = new Map<string, string>();
+    rightFields.forEach(field => {
+      if (rightKeys.includes(field) && leftKeys[rightKeys.indexOf(field)] === field) return;
+      rightFieldNames.set(field, leftFields.has(field) ? `${field}${conflictSuffix}` : field);
+    });
+
+    const nullLeft: PipelineRecord = {};
+    leftFields.forEach(field => {
+      nullLeft[field] = null;
+    });
+    const nullRight: PipelineRecord = {};
+    rightFieldNames.forEach(name => {
+      nullRight[name] = null;
+    });
+
+    const renameRight = (record: PipelineRecord): PipelineRecord => {
+      const renamed: PipelineRecord = {};
+      rightFieldNames.forEach((name, field) => {
+        renamed[name] = record[field] ?? null;
+      });
+      return renamed;
+    };
+
+    const index = new Map<string, number[]>();
+    right.forEach((record, position) => {
+      const key = keyOf(record, rightKeys);
+      if (key === null) return;
+      const positions = index.get(key) || [];
+      positions.push(position);
+      index.set(key, positions);
+    });
+
+    const matchedRight = new Set<number>();
+    const joined: PipelineRecord[] = [];
+    for (const record of left) {
+      const key = keyOf(record, leftKeys);
+      const matches = key === null ? [] : index.get(key) || [];
+      if (matches.length === 0) {
+        if (type !== 'inner') {
+          joined.push({ ...nullLeft, ...record, ...nullRight });
+        }
+        continue;
+      }
+      for (const position of matches) {
+        matchedRight.add(position);
+        joined.push({ ...nullLeft, ...record, ...renameRight(right[position]) });
+      }
+    }
+
+    if (type === 'full') {
+      right.forEach((record, position) => {
+        if (matchedRight.has(position)) return;
+        const unmatched: PipelineRecord = { ...nullLeft, ...renameRight(record) };
+        // Carry the right-side key values into the shared key columns
+        leftKeys.forEach((leftKey, keyIndex) => {
+          unmatched[leftKey] = record[rightKeys[keyIndex]] ?? null;
+        });
+        joined.push(unmatched);
+      });
+    }
+
+    return joined;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get records from an input port, or from all connected inputs when no port is given
+   */
+  private static getInputRecords(context: NodeExecutionContext, portId?: string): PipelineRecord[] {
+    if (portId) {
+      return context.inputs[portId]?.records || [];
+    }
+    return Object.values(context.inputs).flatMap(port => port.records);
+  }
+
+  /**
+   * High-water mark of the classification markings of all connected inputs
+   */
+  private static getInputClassification(context: NodeExecutionContext): string | undefined {
+    return highWaterMark(Object.values(context.inputs).map(port => port.classification));
+  }
+
+  /**
+   * High-water mark of the stored markings (data source and field annotations) of every data source the pipeline reads
+   */
+  private static async getPipelineSourceMarking(context: NodeExecutionContext): Promise<string | undefined> {
+    const dataSourceIds = new Set<string>();
+    for (const node of context.pipeline.nodes) {
+      const dataSourceId = node.data.config?.dataSourceId;
+      if (typeof dataSourceId === 'string' && dataSourceId) {
+        dataSourceIds.add(dataSourceId);
+      }
+    }
+    return dataSourceIds.size > 0 ? ClassificationService.getCombinedMarking([...dataSourceIds]) : undefined;
+  }
+
+  /**
+   * Node config values edited in the UI may be JSON strings rather than objects
+   */
+  private static parseJsonConfig<T>(value: unknown, fallback: T): T {
+    if (value === undefined || value === null || value === '') return fallback;
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value) as T;
+      } catch {
+        throw new Error(`Invalid JSON in node configuration: ${value.slice(0, 50)}`);
+      }
+    }
+    return value as T;
+  }
+
+  private static parseFieldList(value: unknown): string[] {
+    if (Array.isArray(value)) return value.map(String).filter(Boolean);
+    if (typeof value === 'string') return value.split(',').map(field => field.trim()).filter(Boolean);
+    return [];
+  }
+
+  /**
+   * Accepts either [{ field, function, alias }] or { alias: "SUM(field)" }
+   */
+  private static parseAggregations(value: unknown): Array<{ alias: string; fn: string; field: string }> {
+    const parsed = this.parseJsonConfig<unknown>(value, []);
+    if (Array.isArray(parsed)) {
+      return parsed.map((aggregation: { field?: string; function?: string; alias?: string }) => {
+        const fn = String(aggregation.function || 'COUNT').toUpperCase();
+        const field = aggregation.field || '*';
+        return { alias: aggregation.alias || `${fn.toLowerCase()}_${field === '*' ? 'all' : field}`, fn, field };
+      });
+    }
+    return Object.entries(parsed as Record<string, string>).map(([alias, expression]) => {
+      const match = /^\s*(COUNT|SUM|AVG|MIN|MAX)\s*\(\s*([^)]*?)\s*\)\s*$/i.exec(expression);
+      if (!match) {
+        throw new Error(`Invalid aggregation expression for ${alias}: ${expression}`);
+      }
+      return { alias, fn: match[1].toUpperCase(), field: match[2] || '*' };
+    });
+  }
+
+  private static toRecords(payload: unknown): PipelineRecord[] {
+    if (Array.isArray(payload)) {
+      return payload.map(item => (item !== null && typeof item === 'object' ? item as PipelineRecord : { value: item }));
+    }
+    if (payload !== null && typeof payload === 'object') {
+      // Use the first array property (e.g. { data: [...] }) or wrap the object
+      const firstArray = Object.values(payload as PipelineRecord).find(Array.isArray);
+      return firstArray ? this.toRecords(firstArray) : [payload as PipelineRecord];
+    }
+    return payload === undefined || payload === null ? [] : [{ value: payload }];
+  }
+
+  private static buildCatalog(context: NodeExecutionContext, records: PipelineRecord[]): UnifiedDataCatalog {
+    const unifiedRecords = records.map((data, index) => ({
+      id: `${context.node.id}_record_${index}`,
+      sourceId: context.pipeline.id,
+      sourceName: context.pipeline.name,
+      sourceType: 'pipeline',
+      recordIndex: index,
+      data,
+      metadata: {
+        originalFormat: 'pipeline',
+        extractedAt: new Date().toISOString()
+      }
+    }));
+    const schema = DataTransformationService.analyzeSchema(unifiedRecords);
+    return {
+      catalogId: `catalog_${context.execution.id}_${context.node.id}`,
+      sourceId: context.pipeline.id,
+      sourceName: context.pipeline.name,
+      createdAt: new Date().toISOString(),
+      totalRecords: unifiedRecords.length,
+      schema,
+      records: unifiedRecords,
+      summary: {
+        dataTypes: ['pipeline'],
+        recordCount: unifiedRecords.length,
+        fieldCount: schema.fields.length,
+        sampleSize: unifiedRecords.length
+      }
+    };
+  }
+
+  /**
+   * Resolve pattern library ids (and built-in fallback names) from node config
+   */
+  private static async resolvePatterns(config: Record<string, unknown>): Promise<Pattern[]> {
+    const references = new Set([
+      ...this.parseFieldList(config.patternIds),
+      ...this.parseFieldList(config.patterns)
+    ]);
+    if (references.size === 0) return [];
+
+    const library = await PatternService.getAllPatterns();
+    const patterns: Pattern[] = library.filter(pattern => pattern.isActive && references.has(pattern.id));
+    const resolved = new Set(patterns.map(pattern => pattern.id));
+
+    for (const reference of references) {
+      if (!resolved.has(reference) && BUILT_IN_PATTERNS[reference]) {
+        patterns.push({ ...BUILT_IN_PATTERNS[reference], createdAt: new Date(0) });
+      }
+    }
+    return patterns;
+  }
+
+  private static resolveConfidenceThreshold(value: unknown): number {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string' && value in CONFIDENCE_LEVELS) return CONFIDENCE_LEVELS[value];
+    return CONFIDENCE_LEVELS.medium;
+  }
+
+  private static resolveRedactionStyle(config: Record<string, unknown>, pattern: Pattern): RedactionStyle {
+    const actionStyles: Record<string, RedactionStyle['type']> = {
+      redact: 'full',
+      mask: 'mask',
+      tokenize: 'token',
+      pseudonymize: 'pseudonym',
+      fpe: 'fpe'
+    };
+    const actionType = actionStyles[String(config.action || '')];
+    // Keyed actions chosen in the node panel win over the template's default redactionType
+    const type = actionType === 'pseudonym' || actionType === 'fpe'
+      ? actionType
+      : (String(config.redactionType || '') || actionType || 'full') as RedactionStyle['type'];
+
+    if (type === 'mask') {
+      return { type: 'mask', format: config.maskCharacter === '#' ? '####' : '****' };
+    }
+    if (type === 'partial' || (config.preserveFormat === true && type !== 'token')) {
+      const partial = patternTestingService.getAvailableRedactionStyles(pattern.type).find(style => style.type === 'partial');
+      return partial || { type: 'partial', format: '****' };
+    }
+    if (type === 'token') {
+      return { type: 'token', format: `[${pattern.type}-{index}]` };
+    }
+    if (type === 'pseudonym') {
+      return { type: 'pseudonym', format: `[${pattern.type}-{token}]` };
+    }
+    if (type === 'fpe') {
+      return { type: 'fpe', format: 'format-preserving' };
+    }
+    return { type: 'full', format: '[REDACTED]' };
+  }
+
+  private static async loadDatabaseConnection(connectionId: string): Promise<DatabaseConnection> {
+    const database = await getDatabase();
+    const entity = await database.getRepository(DatabaseConnectionEntity).findOne({ where: { id: connectionId } });
+    if (!entity) {
+      throw new Error(`Database connection ${connectionId} not found`);
+    }
+
+    return {
+      id: entity.id,
+      name: entity.name,
+      type: entity.type,
+      host: entity.host,
+      port: entity.port,
+      database: entity.database,
+      username: entity.username,
+      password: entity.password || undefined,
+      ssl: entity.ssl,
+      sslCert: entity.sslCert || undefined,
+      additionalOptions: entity.additionalOptions ? JSON.parse(entity.additionalOptions) : undefined,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+      status: entity.status
+    };
+  }
+
+  /**
+   * Write an execution artifact under the pipeline's storage prefix
+   */
+  private static async writeArtifact(
+    context: NodeExecutionContext,
+    fileName: string,
+    content: string | Buffer,
+    classification?: string
+  ): Promise<string> {
+    const storage = StorageService.getInstance();
+    const storageKey = `pipelines/${context.pipeline.id}/executions/${context.execution.id}/${fileName}`;
+    await storage.uploadFile(storageKey, content, {
+      contentType: StorageService.getContentType(fileName),
+      metadata: {
+        pipelineId: context.pipeline.id,
+        executionId: context.execution.id,
+        nodeId: context.node.id,
+        ...(classification && { classification })
+      }
+    });
+    return storageKey;
+  }
+}
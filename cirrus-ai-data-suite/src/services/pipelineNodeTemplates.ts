@@ -56,6 +56,7 @@ export class PipelineNodeTemplates {
       icon: 'CircleStackIcon',
       color: '#059669',
       defaultConfig: {
+        connectionId: '', // Saved database connection to query
         query: 'SELECT * FROM table_name LIMIT 100',
         timeout: 30000,
         batchSize: 1000
@@ -81,6 +82,7 @@ export class PipelineNodeTemplates {
         url: '',
         method: 'GET',
         headers: {},
+        dataPath: '', // Dot path to the record array in the response
         timeout: 30000
       },
       inputs: [],
@@ -404,7 +406,7 @@ export class PipelineNodeTemplates {
       type: 'output',
       category: 'file',
       name: 'File Export',
-      description: 'Export data to files (CSV, JSON, Excel)',
+      description: 'Export data to files (CSV, JSON, JSONL, Parquet, Arrow)',
       icon: 'ArrowDownTrayIcon',
       color: '#059669',
       defaultConfig: {
@@ -431,6 +433,7 @@ export class PipelineNodeTemplates {
       icon: 'CircleStackIcon',
       color: '#0891b2',
       defaultConfig: {
+        connectionId: '', // Saved database connection to write to
         table: '',
         mode: 'insert',
         batchSize: 1000
@@ -478,7 +481,7 @@ export class PipelineNodeTemplates {
       icon: 'CloudIcon',
       color: '#059669',
       defaultConfig: {
-        environmentId: '', // Target environment from environments page
+        environmentId: '', // Target environment from DEPLOYMENT_ENVIRONMENTS, whose accreditation is checked against the data's marking
         deploymentStrategy: 'blue_green', // Deployment method
         qualityGates: ['schema_validation'], // Quality checks before deployment
         notificationChannels: [], // Alert channels for deployment status
@@ -533,6 +536,7 @@ export class PipelineNodeTemplates {
       icon: 'ArrowsUpDownIcon',
       color: '#6b7280',
       defaultConfig: {
+        conditions: { id: 'root', operator: 'AND', conditions: [] },
         condition: '',
         operator: 'equals'
       },
@@ -569,6 +573,9 @@ export class PipelineNodeTemplates {
       color: '#6b7280',
       defaultConfig: {
         mergeStrategy: 'union',
+        joinKeys: [],
+        alignSchema: true,
+        conflictSuffix: '_right',
         deduplication: false
       },
       inputs: [
@@ -3,10 +3,16 @@
  * Handles pipeline persistence, loading, and management
  */
 
-import { Pipeline, PipelineExecution, PipelineStatus } from '@/types/pipeline';
+import {
+  Pipeline,
+  PipelineDiff,
+  PipelineExecution,
+  PipelineExecutionPage,
+  PipelineStatus,
+  PipelineVersionSummary
+} from '@/types/pipeline';
 
 const STORAGE_KEY = 'cirrus_pipelines';
-const EXECUTION_STORAGE_KEY = 'cirrus_pipeline_executions';
 
 export class PipelineService {
   
@@ -234,123 +240,110 @@ export class PipelineService {
   }
 
   /**
-   * Execute pipeline
+   * Execute pipeline. The server runs the saved definition, so save changes first.
    */
   static async executePipeline(pipeline: Pipeline): Promise<PipelineExecution> {
     try {
       const response = await fetch(`/api/pipelines/${pipeline.id}/execute`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(pipeline),
+        method: 'POST'
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to execute pipeline: ${response.statusText}`);
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to execute pipeline: ${response.statusText}`);
       }
 
-      const execution = await response.json();
-      
-      // Save execution to local storage
-      this.saveExecutionToLocal(execution);
-      
-      return {
-        ...execution,
-        startedAt: execution.startedAt instanceof Date 
-          ? execution.startedAt 
-          : new Date(execution.startedAt),
-        completedAt: execution.completedAt 
-          ? (execution.completedAt instanceof Date 
-              ? execution.completedAt 
-              : new Date(execution.completedAt))
-          : undefined
-      } as PipelineExecution;
+      return this.ensureExecutionDates(await response.json());
     } catch (error) {
       console.error('Failed to execute pipeline:', error);
-      
-      // Create mock execution for demo purposes
-      const mockExecution: PipelineExecution = {
-        id: `exec_${Date.now()}`,
-        pipelineId: pipeline.id,
-        status: 'running',
-        startedAt: new Date(),
-        triggeredBy: 'manual',
-        logs: [{
-          timestamp: new Date(),
-          level: 'info',
-          message: 'Pipeline execution started',
-          details: {}
-        }],
-        metrics: {
-          totalNodes: pipeline.nodes.length,
-          completedNodes: 0,
-          failedNodes: 0,
-          duration: 0,
-          dataProcessed: 0,
-          recordsProcessed: 0
-        }
-      };
-      
-      this.saveExecutionToLocal(mockExecution);
-      return mockExecution;
+      throw error;
     }
   }
 
   /**
-   * Save execution to local storage
+   * Get a page of a pipeline's past executions, newest first
    */
-  private static saveExecutionToLocal(execution: PipelineExecution): void {
-    try {
-      const existing = this.getAllExecutionsFromLocal();
-      const updated = existing.filter(e => e.id !== execution.id);
-      updated.push(execution);
-      
-      // Keep only last 50 executions
-      if (updated.length > 50) {
-        updated.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
-        updated.splice(50);
-      }
-      
-      localStorage.setItem(EXECUTION_STORAGE_KEY, JSON.stringify(updated));
-    } catch (error) {
-      console.error('Failed to save execution to local storage:', error);
+  static async getExecutionHistory(pipelineId: string, page: number = 1, pageSize: number = 20): Promise<PipelineExecutionPage> {
+    const response = await fetch(`/api/pipelines/${pipelineId}/executions?page=${page}&pageSize=${pageSize}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to load execution history: ${response.statusText}`);
     }
+
+    const result = await response.json();
+    return {
+      ...result,
+      executions: result.executions.map((e: Record<string, unknown>) => this.ensureExecutionDates(e))
+    };
   }
 
   /**
-   * Get all executions from local storage
+   * Get a single execution with its logs and per-node output samples
    */
-  private static getAllExecutionsFromLocal(): PipelineExecution[] {
-    try {
-      const stored = localStorage.getItem(EXECUTION_STORAGE_KEY);
-      if (!stored) return [];
-      
-      const executions = JSON.parse(stored);
-      return executions.map((e: Record<string, unknown>) => ({
-        ...e,
-        startedAt: e.startedAt instanceof Date 
-          ? e.startedAt 
-          : new Date(e.startedAt as string),
-        completedAt: e.completedAt 
-          ? (e.completedAt instanceof Date 
-              ? e.completedAt 
-              : new Date(e.completedAt as string))
-          : undefined
-      })) as PipelineExecution[];
-    } catch (error) {
-      console.error('Failed to load executions from local storage:', error);
-      return [];
+  static async getExecution(pipelineId: string, executionId: string): Promise<PipelineExecution> {
+    const response = await fetch(`/api/pipelines/${pipelineId}/executions/${executionId}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to load execution: ${response.statusText}`);
     }
+
+    return this.ensureExecutionDates(await response.json());
   }
 
   /**
-   * Get executions for a specific pipeline
+   * List a pipeline's saved versions, newest first
    */
-  static getExecutionsForPipeline(pipelineId: string): PipelineExecution[] {
-    return this.getAllExecutionsFromLocal()
-      .filter(e => e.pipelineId === pipelineId)
-      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  static async getVersions(pipelineId: string): Promise<PipelineVersionSummary[]> {
+    const response = await fetch(`/api/pipelines/${pipelineId}/versions`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to load pipeline versions: ${response.statusText}`);
+    }
+
+    const versions = await response.json();
+    return versions.map((version: PipelineVersionSummary) => ({
+      ...version,
+      createdAt: new Date(version.createdAt)
+    }));
+  }
+
+  /**
+   * Get the structural changes between two saved versions
+   */
+  static async getVersionDiff(pipelineId: string, fromVersion: number, toVersion: number): Promise<PipelineDiff> {
+    const response = await fetch(`/api/pipelines/${pipelineId}/versions/diff?from=${fromVersion}&to=${toVersion}`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to compare pipeline versions: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Restore an older version. The restored definition is saved as a new version.
+   */
+  static async restoreVersion(pipelineId: string, version: number): Promise<Pipeline> {
+    const response = await fetch(`/api/pipelines/${pipelineId}/versions/${version}/restore`, {
+      method: 'POST'
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(errorData.error || 'Failed to restore pipeline version');
+    }
+
+    const restored = this.ensureDates(await response.json());
+    this.savePipelineToLocal(restored);
+    return restored;
+  }
+
+  private static ensureExecutionDates(execution: Record<string, unknown>): PipelineExecution {
+    return {
+      ...execution,
+      startedAt: new Date(execution.startedAt as string),
+      completedAt: execution.completedAt ? new Date(execution.completedAt as string) : undefined
+    } as PipelineExecution;
   }
 
   /**
@@ -402,6 +395,8 @@ export class PipelineService {
       errors.push('Pipeline contains circular dependencies or invalid connections');
     }
 
+    this.validateControlNodes(pipeline, errors, warnings);
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -409,6 +404,57 @@ export class PipelineService {
     };
   }
 
+  /**
+   * Check that branch and merger nodes are configured and wired so they can route data
+   */
+  private static validateControlNodes(pipeline: Pipeline, errors: string[], warnings: string[]): void {
+    for (const node of pipeline.nodes) {
+      const templateName = (node.data.metadata?.templateName as string | undefined) || node.data.label;
+      const config = node.data.config || {};
+      const outgoing = pipeline.edges.filter(edge => edge.source === node.id);
+      const incoming = pipeline.edges.filter(edge => edge.target === node.id);
+
+      if (templateName === 'Conditional Branch') {
+        let group = config.conditions as { conditions?: unknown[] } | unknown[] | string | undefined;
+        if (typeof group === 'string') {
+          try {
+            group = JSON.parse(group) as { conditions?: unknown[] } | unknown[];
+          } catch {
+            errors.push(`Branch "${node.data.label}" has conditions that are not valid JSON`);
+            group = undefined;
+          }
+        }
+        const conditionCount = Array.isArray(group) ? group.length : group?.conditions?.length || 0;
+        if (conditionCount === 0 && !config.condition) {
+          errors.push(`Branch "${node.data.label}" has no conditions`);
+        }
+        const connectedPorts = new Set(outgoing.map(edge => edge.sourceHandle || 'true'));
+        const unconnected = ['true', 'false'].filter(port => !connectedPorts.has(port));
+        if (unconnected.length > 0) {
+          warnings.push(`Branch "${node.data.label}" has no connection on its ${unconnected.join(' and ')} output - those records will be dropped`);
+        }
+      }
+
+      if (templateName === 'Data Merger') {
+        const strategy = String(config.mergeStrategy || 'union');
+        if (strategy !== 'union') {
+          const joinKeys = Array.isArray(config.joinKeys)
+            ? config.joinKeys
+            : String(config.joinKeys || '').split(',').filter(key => key.trim());
+          if (joinKeys.length === 0) {
+            errors.push(`Merger "${node.data.label}" needs join keys for ${strategy.replace('_', ' ')}`);
+          }
+          const ports = new Set(incoming.map(edge => edge.targetHandle || 'input1'));
+          if (!ports.has('input1') || !ports.has('input2')) {
+            errors.push(`Merger "${node.data.label}" needs both inputs connected to join`);
+          }
+        } else if (incoming.length < 2) {
+          warnings.push(`Merger "${node.data.label}" has fewer than two inputs connected`);
+        }
+      }
+    }
+  }
+
   /**
    * Simple pipeline flow validation
    */
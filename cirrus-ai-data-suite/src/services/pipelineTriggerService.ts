@@ -0,0 +1,267 @@
+/**
+ * Pipeline Trigger Service
+ * Fires pipeline runs from cron schedules, webhooks and storage file watches
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { Not, In } from 'typeorm';
+import { getDatabase } from '@/database/connection';
+import { PipelineEntity } from '@/entities/PipelineEntity';
+import { PipelineTriggerStateEntity } from '@/entities/PipelineTriggerStateEntity';
+import { Pipeline, PipelineTrigger, TriggerType } from '@/types/pipeline';
+import { CronExpression } from '@/utils/cronExpression';
+import { PipelineExecutionEngine } from './pipelineExecutionEngine';
+import { StorageService } from './storage/storageService';
+import { logger } from '@/utils/logger';
+
+export interface TriggerFireResult {
+  pipelineId: string;
+  pipelineName: string;
+  triggerId: string;
+  triggerType: TriggerType;
+  status: 'fired' | 'skipped' | 'error';
+  executionId?: string;
+  reason?: string;
+}
+
+// Pipelines in these states never fire automatically
+const INACTIVE_STATUSES: Pipeline['status'][] = ['draft', 'paused'];
+
+// The legacy Pipeline.schedule field is checked as a trigger with this id
+const PIPELINE_SCHEDULE_TRIGGER_ID = 'schedule';
+
+const MAX_REPORTED_FILES = 100;
+
+export class PipelineTriggerService {
+  /**
+   * Assign ids and webhook tokens to new triggers and validate their configuration.
+   * Called whenever a pipeline is saved.
+   */
+  static prepareTriggers(triggers: PipelineTrigger[]): PipelineTrigger[] {
+    return triggers.map(trigger => {
+      const prepared: PipelineTrigger = {
+        ...trigger,
+        id: trigger.id || `trigger_${randomBytes(6).toString('hex')}`,
+        config: { ...(trigger.config || {}) }
+      };
+
+      switch (prepared.type) {
+        case 'schedule':
+          // Throws a descriptive error for invalid expressions
+          CronExpression.parse(String(prepared.config.cron || ''));
+          break;
+        case 'webhook':
+          if (!prepared.config.token) {
+            prepared.config.token = `pipeline_${randomBytes(16).toString('hex')}`;
+          }
+          break;
+        case 'file_watch':
+          if (!prepared.config.prefix) {
+            throw new Error('File watch triggers require a storage prefix');
+          }
+          break;
+      }
+
+      return prepared;
+    });
+  }
+
+  /**
+   * Find the pipeline and enabled webhook trigger for a webhook token
+   */
+  static async findWebhookTrigger(token: string): Promise<{ pipeline: Pipeline; trigger: PipelineTrigger } | null> {
+    const database = await getDatabase();
+    const entities = await database.getRepository(PipelineEntity)
+      .createQueryBuilder('pipeline')
+      .where('pipeline.triggers LIKE :token', { token: `%${token}%` })
+      .getMany();
+
+    for (const entity of entities) {
+      const pipeline = PipelineExecutionEngine.entityToPipeline(entity);
+      const trigger = pipeline.triggers.find(candidate =>
+        candidate.type === 'webhook' && candidate.enabled && candidate.config.token === token
+      );
+      if (trigger) {
+        return { pipeline, trigger };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check the shared secret sent with a webhook call. Triggers without a secret accept any call.
+   * Both values are hashed first so the comparison takes the same time whatever their lengths.
+   */
+  static verifyWebhookSecret(trigger: PipelineTrigger, provided: string | null): boolean {
+    const secret = trigger.config.secret as string | undefined;
+    if (!secret) return true;
+    if (provided === null) return false;
+
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(secret), digest(provided));
+  }
+
+  /**
+   * Start a run for a trigger unless the pipeline is already running
+   */
+  static fireTrigger(
+    pipeline: Pipeline,
+    triggerId: string,
+    triggerType: TriggerType,
+    details?: Record<string, unknown>
+  ): TriggerFireResult {
+    const result = { pipelineId: pipeline.id, pipelineName: pipeline.name, triggerId, triggerType };
+
+    if (pipeline.nodes.length === 0) {
+      return { ...result, status: 'skipped', reason: 'Pipeline has no nodes' };
+    }
+    if (PipelineExecutionEngine.isRunning(pipeline.id)) {
+      return { ...result, status: 'skipped', reason: 'Pipeline is already running' };
+    }
+
+    const execution = PipelineExecutionEngine.start(pipeline, triggerType, { triggerId, ...details });
+    logger.info(`Trigger ${triggerId} (${triggerType}) started pipeline ${pipeline.id}`, { executionId: execution.id });
+    return { ...result, status: 'fired', executionId: execution.id };
+  }
+
+  /**
+   * Evaluate the schedule and file watch triggers of all active pipelines.
+   * Meant to be called every minute or so by an external cron service.
+   */
+  static async checkTriggers(now: Date = new Date()): Promise<TriggerFireResult[]> {
+    const database = await getDatabase();
+    const entities = await database.getRepository(PipelineEntity).find({
+      where: { status: Not(In(INACTIVE_STATUSES)) }
+    });
+
+    const results: TriggerFireResult[] = [];
+    for (const entity of entities) {
+      const pipeline = PipelineExecutionEngine.entityToPipeline(entity);
+
+      if (pipeline.schedule?.enabled && pipeline.schedule.cron) {
+        results.push(await this.checkTrigger(pipeline, {
+          id: PIPELINE_SCHEDULE_TRIGGER_ID,
+          type: 'schedule',
+          enabled: true,
+          config: {
+            cron: pipeline.schedule.cron,
+            timezone: pipeline.schedule.timezone,
+            startDate: pipeline.schedule.startDate,
+            endDate: pipeline.schedule.endDate
+          }
+        }, now));
+      }
+
+      for (const trigger of pipeline.triggers) {
+        if (trigger.enabled && (trigger.type === 'schedule' || trigger.type === 'file_watch')) {
+          results.push(await this.checkTrigger(pipeline, trigger, now));
+        }
+      }
+    }
+
+    return results.filter(result => result.status !== 'skipped' || result.reason);
+  }
+
+  private static async checkTrigger(pipeline: Pipeline, trigger: PipelineTrigger, now: Date): Promise<TriggerFireResult> {
+    const result = {
+      pipelineId: pipeline.id,
+      pipelineName: pipeline.name,
+      triggerId: trigger.id,
+      triggerType: trigger.type
+    };
+
+    try {
+      const database = await getDatabase();
+      const repository = database.getRepository(PipelineTriggerStateEntity);
+      const stateId = `${pipeline.id}:${trigger.id}`;
+      const state = await repository.findOne({ where: { id: stateId } });
+
+      // The first check only records a baseline so enabling a trigger doesn't fire for past events
+      if (!state) {
+        await repository.save({
+          id: stateId,
+          pipelineId: pipeline.id,
+          triggerId: trigger.id,
+          triggerType: trigger.type,
+          lastCheckedAt: now
+        });
+        return { ...result, status: 'skipped' };
+      }
+
+      const details = trigger.type === 'schedule'
+        ? this.getScheduleOccurrence(trigger, state.lastCheckedAt, now)
+        : await this.getNewFiles(pipeline, trigger, state.lastCheckedAt, now);
+
+      let fireResult: TriggerFireResult = { ...result, status: 'skipped' };
+      if (details) {
+        fireResult = this.fireTrigger(pipeline, trigger.id, trigger.type, details);
+        if (fireResult.status === 'fired') {
+          state.lastFiredAt = now;
+          state.lastExecutionId = fireResult.executionId;
+        }
+      }
+
+      state.lastCheckedAt = now;
+      await repository.save(state);
+      return fireResult;
+    } catch (error) {
+      logger.error(`Failed to check trigger ${trigger.id} of pipeline ${pipeline.id}:`, error);
+      return { ...result, status: 'error', reason: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Get the cron occurrence since the last check, if any
+   */
+  private static getScheduleOccurrence(trigger: PipelineTrigger, since: Date, now: Date): Record<string, unknown> | null {
+    const { cron, timezone, startDate, endDate } = trigger.config as {
+      cron?: string;
+      timezone?: string;
+      startDate?: string;
+      endDate?: string;
+    };
+
+    if (startDate && now < new Date(startDate)) return null;
+    if (endDate && now > new Date(endDate)) return null;
+
+    const occurrence = CronExpression.parse(String(cron || ''))
+      .getLastOccurrenceBetween(new Date(since), now, timezone || 'UTC');
+    return occurrence ? { cron, timezone: timezone || 'UTC', scheduledFor: occurrence.toISOString() } : null;
+  }
+
+  /**
+   * Get files that landed under the watched prefix since the last check, if any
+   */
+  private static async getNewFiles(
+    pipeline: Pipeline,
+    trigger: PipelineTrigger,
+    since: Date,
+    now: Date
+  ): Promise<Record<string, unknown> | null> {
+    const prefix = String(trigger.config.prefix || '');
+    const pattern = trigger.config.pattern ? this.globToRegExp(String(trigger.config.pattern)) : null;
+    // Never react to this pipeline's own output
+    const ownArtifacts = `pipelines/${pipeline.id}/`;
+
+    const files = await StorageService.getInstance().listFiles(prefix);
+    const newFiles = files.filter(file => {
+      const modified = new Date(file.lastModified);
+      return modified > new Date(since) &&
+        modified <= now &&
+        !file.key.startsWith(ownArtifacts) &&
+        (!pattern || pattern.test(file.key.split('/').pop() || ''));
+    });
+
+    if (newFiles.length === 0) return null;
+    return {
+      prefix,
+      fileCount: newFiles.length,
+      files: newFiles.slice(0, MAX_REPORTED_FILES).map(file => file.key)
+    };
+  }
+
+  private static globToRegExp(glob: string): RegExp {
+    const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${escaped}$`, 'i');
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Pipeline Version Service
+ * Keeps an immutable snapshot of every saved pipeline definition and supports
+ * comparing and restoring them
+ */
+
+import { getDatabase } from '@/database/connection';
+import { PipelineEntity } from '@/entities/PipelineEntity';
+import { PipelineVersionEntity } from '@/entities/PipelineVersionEntity';
+import { Pipeline, PipelineDiff, PipelineVersion, PipelineVersionSummary } from '@/types/pipeline';
+import { diffPipelines } from '@/utils/pipelineDiff';
+import { PipelineExecutionEngine } from './pipelineExecutionEngine';
+import { logger } from '@/utils/logger';
+
+// Concurrent saves can compute the same version number; the later snapshot moves up this many times at most
+const MAX_VERSION_ATTEMPTS = 5;
+
+function isUniqueViolation(error: unknown): boolean {
+  const { code, driverError } = error as { code?: string; driverError?: { code?: string } };
+  return code === '23505' || driverError?.code === '23505';
+}
+
+export class PipelineVersionService {
+  /**
+   * Snapshot a pipeline as its current version. Called after every save.
+   * Snapshots are only ever inserted; when another save already took the version number,
+   * the snapshot gets the next free one and the pipeline is moved up to it.
+   */
+  static async recordVersion(
+    pipeline: Pipeline,
+    createdBy: string = 'current-user',
+    restoredFrom?: number
+  ): Promise<PipelineVersion> {
+    const database = await getDatabase();
+    const repository = database.getRepository(PipelineVersionEntity);
+    let version = pipeline.version;
+
+    for (let attempt = 1; ; attempt++) {
+      const entity = {
+        id: `${pipeline.id}:v${version}`,
+        pipelineId: pipeline.id,
+        version,
+        name: pipeline.name,
+        description: pipeline.description || '',
+        nodes: JSON.stringify(pipeline.nodes || []),
+        edges: JSON.stringify(pipeline.edges || []),
+        triggers: JSON.stringify(pipeline.triggers || []),
+        schedule: pipeline.schedule ? JSON.stringify(pipeline.schedule) : undefined,
+        tags: JSON.stringify(pipeline.tags || []),
+        createdBy,
+        restoredFrom
+      };
+
+      try {
+        await repository.insert(entity);
+      } catch (error) {
+        if (!isUniqueViolation(error) || attempt >= MAX_VERSION_ATTEMPTS) throw error;
+        const latest = await repository.maximum('version', { pipelineId: pipeline.id });
+        version = Math.max(version, latest ?? 0) + 1;
+        continue;
+      }
+
+      if (version !== pipeline.version) {
+        logger.warn(`Version ${pipeline.version} of pipeline ${pipeline.id} was taken by a concurrent save, recorded as ${version}`);
+        // Only when no later save has changed the pipeline since
+        await database.getRepository(PipelineEntity).update({ id: pipeline.id, version: pipeline.version }, { version });
+      }
+      return this.entityToVersion({ ...entity, createdAt: new Date() } as PipelineVersionEntity);
+    }
+  }
+
+  /**
+   * List a pipeline's versions, newest first
+   */
+  static async listVersions(pipelineId: string): Promise<PipelineVersionSummary[]> {
+    const database = await getDatabase();
+    const entities = await database.getRepository(PipelineVersionEntity).find({
+      where: { pipelineId },
+      order: { version: 'DESC' }
+    });
+
+    return entities.map(entity => {
+      const version = this.entityToVersion(entity);
+      return {
+        pipelineId: version.pipelineId,
+        version: version.version,
+        name: version.name,
+        nodeCount: version.nodes.length,
+        edgeCount: version.edges.length,
+        createdAt: version.createdAt,
+        createdBy: version.createdBy,
+        restoredFrom: version.restoredFrom
+      };
+    });
+  }
+
+  /**
+   * Get the full definition of one version
+   */
+  static async getVersion(pipelineId: string, version: number): Promise<PipelineVersion | null> {
+    const database = await getDatabase();
+    const entity = await database.getRepository(PipelineVersionEntity).findOne({
+      where: { pipelineId, version }
+    });
+    return entity ? this.entityToVersion(entity) : null;
+  }
+
+  /**
+   * Structural diff between two versions, or null if either doesn't exist
+   */
+  static async diffVersions(pipelineId: string, fromVersion: number, toVersion: number): Promise<PipelineDiff | null> {
+    const [from, to] = await Promise.all([
+      this.getVersion(pipelineId, fromVersion),
+      this.getVersion(pipelineId, toVersion)
+    ]);
+    if (!from || !to) return null;
+    return diffPipelines(from, to);
+  }
+
+  /**
+   * Find the saved version a pipeline definition corresponds to. Returns null when
+   * the definition has changes that were never saved, e.g. a run from the builder.
+   */
+  static async resolveVersion(pipeline: Pipeline): Promise<number | null> {
+    if (!pipeline.version) return null;
+    const saved = await this.getVersion(pipeline.id, pipeline.version);
+    if (!saved) return null;
+
+    const diff = diffPipelines(saved, pipeline);
+    // Only the definition matters; name or tag edits don't change what runs
+    const definitionChanged = diff.nodes.added.length + diff.nodes.removed.length + diff.nodes.modified.length +
+      diff.edges.added.length + diff.edges.removed.length > 0;
+    return definitionChanged ? null : saved.version;
+  }
+
+  /**
+   * Make an older version current again. The restored definition is saved as a
+   * new version, so history is never rewritten.
+   */
+  static async restoreVersion(pipelineId: string, version: number, restoredBy: string = 'current-user'): Promise<Pipeline | null> {
+    const database = await getDatabase();
+    const repository = database.getRepository(PipelineEntity);
+    const [entity, snapshot] = await Promise.all([
+      repository.findOne({ where: { id: pipelineId } }),
+      this.getVersion(pipelineId, version)
+    ]);
+    if (!entity || !snapshot) return null;
+
+    entity.name = snapshot.name;
+    entity.description = snapshot.description;
+    entity.nodes = JSON.stringify(snapshot.nodes);
+    entity.edges = JSON.stringify(snapshot.edges);
+    entity.triggers = JSON.stringify(snapshot.triggers);
+    entity.schedule = snapshot.schedule ? JSON.stringify(snapshot.schedule) : undefined;
+    entity.tags = JSON.stringify(snapshot.tags);
+    entity.version = (entity.version || 0) + 1;
+    entity.updatedAt = new Date();
+
+    const pipeline = PipelineExecutionEngine.entityToPipeline(await repository.save(entity));
+    pipeline.version = (await this.recordVersion(pipeline, restoredBy, version)).version;
+
+    logger.info(`Restored pipeline ${pipelineId} to version ${version} as version ${pipeline.version}`);
+    return pipeline;
+  }
+
+  /**
+   * Delete all versions of a pipeline
+   */
+  static async deleteVersionsForPipeline(pipelineId: string): Promise<void> {
+    const database = await getDatabase();
+    await database.getRepository(PipelineVersionEntity).delete({ pipelineId });
+  }
+
+  private static entityToVersion(entity: PipelineVersionEntity): PipelineVersion {
+    return {
+      pipelineId: entity.pipelineId,
+      version: entity.version,
+      name: entity.name,
+      description: entity.description || '',
+      nodes: JSON.parse(entity.nodes || '[]'),
+      edges: JSON.parse(entity.edges || '[]'),
+      triggers: entity.triggers ? JSON.parse(entity.triggers) : [],
+      schedule: entity.schedule ? JSON.parse(entity.schedule) : undefined,
+      tags: entity.tags ? JSON.parse(entity.tags) : [],
+      createdAt: entity.createdAt,
+      createdBy: entity.createdBy,
+      restoredFrom: entity.restoredFrom ?? undefined
+    };
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Pseudonymization Service
+ * Keyed, deterministic replacements for sensitive values. The same input and key always give the
+ * same output, so redacted datasets can still be joined on the replaced values.
+ *
+ * - pseudonym: HMAC-SHA256 token, reversible only through the token vault
+ * - fpe: FF1 format-preserving encryption of the digits and letters, reversible with the key
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, hkdfSync, randomBytes, timingSafeEqual } from 'crypto';
+import { In } from 'typeorm';
+import { getDatabase } from '@/database/connection';
+import { PseudonymTokenEntity } from '@/entities/PseudonymTokenEntity';
+import { ff1Decrypt, ff1Encrypt, ff1MinLength } from '@/utils/ff1';
+import { patternTestingService, RedactionStyle } from './patternTestingService';
+import type { Pattern } from './patternService';
+
+export type PseudonymizationMethod = 'pseudonym' | 'fpe';
+
+export interface ReidentifiedValue {
+  value: string;
+  original: string | null; // null when the value is not a known token
+}
+
+interface DerivedKeys {
+  hmac: Buffer;
+  fpe: Buffer;
+  vault: Buffer;
+}
+
+interface TextMatch {
+  startIndex: number;
+  endIndex: number;
+  value: string;
+}
+
+const TOKEN_LENGTH = 16;
+const TOKEN_PATTERN = /\b[0-9a-f]{16}\b/;
+const DIGIT_TWEAK = Buffer.from('digits');
+const LETTER_TWEAK = Buffer.from('letters');
+
+export class PseudonymizationService {
+  private static keyCache = new Map<string, DerivedKeys>();
+  private static pendingVault = new Map<string, string>();
+
+  static isConfigured(): boolean {
+    return !!process.env.PSEUDONYMIZATION_KEY;
+  }
+
+  static isPseudonymStyle(style: RedactionStyle): style is RedactionStyle & { type: PseudonymizationMethod } {
+    return style.type === 'pseudonym' || style.type === 'fpe';
+  }
+
+  /**
+   * Deterministic token for a value. The token replaces {token} in the format; the original is
+   * queued for the vault so it can be re-identified after flushVault().
+   */
+  static pseudonymize(value: string, format: string = '{token}', key?: string): string {
+    const keys = this.getKeys(key);
+    const token = createHmac('sha256', keys.hmac).update(value.trim()).digest('hex').slice(0, TOKEN_LENGTH);
+    if (!this.pendingVault.has(token)) {
+      this.pendingVault.set(token, this.sealValue(value.trim(), keys.vault));
+    }
+    return format.includes('{token}') ? format.replace('{token}', token) : token;
+  }
+
+  /**
+   * Encrypt the digits and the letters of a value in place, keeping length, case and punctuation.
+   * Values with too few digits and letters for FF1 fall back to a pseudonym token.
+   */
+  static encryptPreservingFormat(value: string, key?: string): string {
+    const keys = this.getKeys(key);
+    const result = this.transformPreservingFormat(value, keys.fpe, ff1Encrypt);
+    return result ?? this.pseudonymize(value, '{token}', key);
+  }
+
+  static decryptPreservingFormat(value: string, key?: string): string | null {
+    return this.transformPreservingFormat(value, this.getKeys(key).fpe, ff1Decrypt);
+  }
+
+  /**
+   * Replace matched spans in text with pseudonyms or format-preserving ciphertext
+   */
+  static redact(text: string, matches: TextMatch[], style: RedactionStyle, key?: string): string {
+    const sorted = [...matches].sort((a, b) => b.startIndex - a.startIndex);
+    let redacted = text;
+    for (const match of sorted) {
+      const replacement = style.type === 'fpe'
+        ? this.encryptPreservingFormat(match.value, key)
+        : this.pseudonymize(match.value, style.format, key);
+      redacted = redacted.substring(0, match.startIndex) + replacement + redacted.substring(match.endIndex);
+    }
+    return redacted;
+  }
+
+  /**
+   * Find every pattern in text and replace the matches
+   */
+  static redactWithPatterns(text: string, patterns: Pattern[], style: RedactionStyle, key?: string): { text: string; matchCount: number } {
+    let redacted = text;
+    let matchCount = 0;
+    for (const pattern of patterns) {
+      const result = patternTestingService.testPattern(redacted, pattern, style);
+      if (result.matches.length > 0) {
+        matchCount += result.matches.length;
+        redacted = this.redact(redacted, result.matches, style, key);
+      }
+    }
+    return { text: redacted, matchCount };
+  }
+
+  /**
+   * Persist queued vault entries. Tokens are deterministic, so existing entries are left alone.
+   */
+  static async flushVault(): Promise<number> {
+    if (this.pendingVault.size === 0) return 0;
+
+    const entries = Array.from(this.pendingVault, ([token, encryptedValue]) => ({ token, encryptedValue }));
+    this.pendingVault.clear();
+
+    const database = await getDatabase();
+    await database.getRepository(PseudonymTokenEntity)
+      .createQueryBuilder()
+      .insert()
+      .values(entries)
+      .orIgnore()
+      .execute();
+    return entries.length;
+  }
+
+  /**
+   * Reverse pseudonyms or format-preserving ciphertext. The key must be the pseudonymization key;
+   * when the server has one configured, any other key is rejected.
+   */
+  static async reidentify(values: string[], method: PseudonymizationMethod, key: string): Promise<ReidentifiedValue[]> {
+    this.verifyKey(key);
+    const keys = this.getKeys(key);
+
+    const tokens = values.map(value => value.match(TOKEN_PATTERN)?.[0]).filter((token): token is string => !!token);
+    const vault = new Map<string, string>();
+    if (tokens.length > 0) {
+      const database = await getDatabase();
+      const entries = await database.getRepository(PseudonymTokenEntity).find({ where: { token: In(tokens) } });
+      entries.forEach(entry => vault.set(entry.token, entry.encryptedValue));
+    }
+
+    return values.map(value => {
+      const token = value.match(TOKEN_PATTERN)?.[0];
+      const sealed = token ? vault.get(token) : undefined;
+      if (sealed) {
+        return { value, original: this.openValue(sealed, keys.vault) };
+      }
+      return { value, original: method === 'fpe' ? this.decryptPreservingFormat(value, key) : null };
+    });
+  }
+
+  private static verifyKey(key: string): void {
+    const configured = process.env.PSEUDONYMIZATION_KEY;
+    if (!key) {
+      throw new Error('A pseudonymization key is required');
+    }
+    if (configured) {
+      const expected = createHash('sha256').update(configured).digest();
+      const actual = createHash('sha256').update(key).digest();
+      if (!timingSafeEqual(expected, actual)) {
+        throw new Error('Invalid pseudonymization key');
+      }
+    }
+  }
+
+  private static getKeys(key?: string): DerivedKeys {
+    const master = key || process.env.PSEUDONYMIZATION_KEY;
+    if (!master) {
+      throw new Error('Pseudonymization key not configured. Set PSEUDONYMIZATION_KEY.');
+    }
+
+    const cacheKey = createHash('sha256').update(master).digest('hex');
+    let keys = this.keyCache.get(cacheKey);
+    if (!keys) {
+      const derive = (purpose: string) => Buffer.from(hkdfSync('sha256', master, '', `cirrus-pseudonymization-${purpose}`, 32));
+      keys = { hmac: derive('hmac'), fpe: derive('ff1'), vault: derive('vault') };
+      this.keyCache.set(cacheKey, keys);
+    }
+    return keys;
+  }
+
+  private static transformPreservingFormat(
+    value: string,
+    key: Buffer,
+    transform: typeof ff1Encrypt
+  ): string | null {
+    const chars = value.split('');
+    const digitPositions = chars.flatMap((char, i) => (/[0-9]/.test(char) ? [i] : []));
+    const letterPositions = chars.flatMap((char, i) => (/[A-Za-z]/.test(char) ? [i] : []));
+    let changed = false;
+
+    if (digitPositions.length >= ff1MinLength(10)) {
+      const numerals = transform(key, DIGIT_TWEAK, 10, digitPositions.map(i => Number(chars[i])));
+      digitPositions.forEach((position, i) => { chars[position] = String(numerals[i]); });
+      changed = true;
+    }
+
+    if (letterPositions.length >= ff1MinLength(26)) {
+      const numerals = transform(key, LETTER_TWEAK, 26, letterPositions.map(i => chars[i].toLowerCase().charCodeAt(0) - 97));
+      letterPositions.forEach((position, i) => {
+        const letter = String.fromCharCode(97 + numerals[i]);
+        chars[position] = /[A-Z]/.test(chars[position]) ? letter.toUpperCase() : letter;
+      });
+      changed = true;
+    }
+
+    return changed ? chars.join('') : null;
+  }
+
+  // AES-256-GCM; stored as base64 of iv || auth tag || ciphertext
+  private static sealValue(value: string, key: Buffer): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  private static openValue(sealed: string, key: Buffer): string | null {
+    try {
+      const data = Buffer.from(sealed, 'base64');
+      const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, 12));
+      decipher.setAuthTag(data.subarray(12, 28));
+      return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+    } catch {
+      return null;
+    }
+  }
+}
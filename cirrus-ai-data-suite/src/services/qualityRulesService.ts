@@ -16,6 +16,7 @@ import {
 import { DataTransformationService } from './dataTransformationService';
 import { convertEntityToDataSource } from '@/utils/dataSourceConverter';
 import { logger } from '@/utils/logger';
+import { evaluateConditionGroup } from '@/utils/conditionEvaluator';
 
 class QualityRulesService {
   /**
@@ -425,7 +426,7 @@ class QualityRulesService {
 
     if (!rule.conditions) return violations;
 
-    const conditionMet = this.evaluateConditionGroup(rule.conditions, record);
+    const conditionMet = evaluateConditionGroup(rule.conditions, record);
 
     if (conditionMet && rule.type === 'validation') {
       // For validation rules, meeting the condition means a violation
@@ -444,91 +445,6 @@ class QualityRulesService {
     return violations;
   }
 
-  /**
-   * Evaluate a condition group
-   */
-  private evaluateConditionGroup(group: { conditions: unknown[]; operator?: 'AND' | 'OR' }, record: Record<string, unknown>): boolean {
-    if (!group.conditions || group.conditions.length === 0) return false;
-
-    const results = group.conditions.map((condition: unknown) => {
-      if ((condition as { conditions?: unknown[] }).conditions) {
-        // Nested condition group
-        return this.evaluateConditionGroup(condition as { conditions: unknown[]; operator?: 'AND' | 'OR' }, record);
-      } else {
-        // Single condition
-        return this.evaluateCondition(condition as { field?: string; operator?: string; value?: unknown; values?: unknown[]; caseSensitive?: boolean }, record);
-      }
-    });
-
-    return group.operator === 'AND' 
-      ? results.every(r => r) 
-      : results.some(r => r);
-  }
-
-  /**
-   * Evaluate a single condition
-   */
-  private evaluateCondition(condition: { field?: string; operator?: string; value?: unknown; values?: unknown[]; caseSensitive?: boolean }, record: Record<string, unknown>): boolean {
-    const fieldValue = record[condition.field || ''];
-    const conditionValue = condition.value;
-
-    switch (condition.operator) {
-      case 'equals':
-        return fieldValue === conditionValue;
-      case 'not_equals':
-        return fieldValue !== conditionValue;
-      case 'contains':
-        return String(fieldValue).includes(String(conditionValue));
-      case 'not_contains':
-        return !String(fieldValue).includes(String(conditionValue));
-      case 'starts_with':
-        return String(fieldValue).startsWith(String(conditionValue));
-      case 'ends_with':
-        return String(fieldValue).endsWith(String(conditionValue));
-      case 'regex_match':
-        try {
-          const regex = new RegExp(String(conditionValue), condition.caseSensitive ? '' : 'i');
-          return regex.test(String(fieldValue));
-        } catch {
-          return false;
-        }
-      case 'greater_than':
-        return Number(fieldValue) > Number(conditionValue);
-      case 'less_than':
-        return Number(fieldValue) < Number(conditionValue);
-      case 'greater_or_equal':
-        return Number(fieldValue) >= Number(conditionValue);
-      case 'less_or_equal':
-        return Number(fieldValue) <= Number(conditionValue);
-      case 'between':
-        const [min, max] = condition.values || [0, 0];
-        const numValue = Number(fieldValue);
-        return numValue >= Number(min) && numValue <= Number(max);
-      case 'in_list':
-        return (condition.values || []).includes(fieldValue);
-      case 'not_in_list':
-        return !(condition.values || []).includes(fieldValue);
-      case 'is_null':
-        return fieldValue === null || fieldValue === undefined;
-      case 'is_not_null':
-        return fieldValue !== null && fieldValue !== undefined;
-      case 'is_empty':
-        return fieldValue === '' || fieldValue === null || fieldValue === undefined;
-      case 'is_not_empty':
-        return fieldValue !== '' && fieldValue !== null && fieldValue !== undefined;
-      case 'date_before':
-        return new Date(fieldValue as string | number) < new Date(conditionValue as string | number);
-      case 'date_after':
-        return new Date(fieldValue as string | number) > new Date(conditionValue as string | number);
-      case 'date_between':
-        const [startDate, endDate] = condition.values || ['', ''];
-        const dateValue = new Date(fieldValue as string | number);
-        return dateValue >= new Date(startDate as string | number) && dateValue <= new Date(endDate as string | number);
-      default:
-        return false;
-    }
-  }
-
   /**
    * Execute rule actions
    */
@@ -4,6 +4,7 @@ import { DataSourceService } from './dataSourceService';
 import { PatternService } from './patternService';
 import { CatalogFieldService } from './catalogFieldService';
 import { TableMetadataService } from './tableMetadataService';
+import { RecordStoreService } from './recordStoreService';
 import { FieldAnnotationService } from './fieldAnnotationService';
 import { SourceRelationshipService } from './sourceRelationshipService';
 import { getDatabase } from '@/database/connection';
@@ -264,41 +265,15 @@ export class QueryContextService {
                   try {
                     const dsEntity = await DataSourceService.getDataSourceById(dataSource.id);
                     if (dsEntity?.transformedData) {
-                      const transformedData = JSON.parse(dsEntity.transformedData);
-                      
-                      // Handle UnifiedDataCatalog structure
-                      if (transformedData.records && Array.isArray(transformedData.records)) {
-                        logger.info(`Transformed data is UnifiedDataCatalog with ${transformedData.records.length} records`);
-                        if (transformedData.records.length > 0) {
-                          // Check if records are wrapped in UnifiedDataRecord structure
-                          const firstRecord = transformedData.records[0];
-                          if (firstRecord.data && firstRecord.sourceId) {
-                            // Extract fields from the data property
-                            const actualData = firstRecord.data;
-                            rawColumns = Object.keys(actualData).map(key => ({
-                              name: key,
-                              type: typeof actualData[key] === 'number' ? 'number' : 
-                                    typeof actualData[key] === 'boolean' ? 'boolean' : 'string'
-                            }));
-                          } else {
-                            // Direct record structure
-                            rawColumns = Object.keys(firstRecord).map(key => ({
-                              name: key,
-                              type: typeof firstRecord[key] === 'number' ? 'number' : 
-                                    typeof firstRecord[key] === 'boolean' ? 'boolean' : 'string'
-                            }));
-                          }
-                        }
-                      } else if (Array.isArray(transformedData) && transformedData.length > 0) {
-                        // Direct array of records
-                        const firstRecord = transformedData[0];
-                        if (typeof firstRecord === 'object' && firstRecord !== null) {
-                          rawColumns = Object.keys(firstRecord).map(key => ({
-                            name: key,
-                            type: typeof firstRecord[key] === 'number' ? 'number' : 
-                                  typeof firstRecord[key] === 'boolean' ? 'boolean' : 'string'
-                          }));
-                        }
+                      const transformedData = await RecordStoreService.loadCatalog(dsEntity, { limit: 1 });
+                      const actualData = transformedData?.records[0]?.data;
+                      if (actualData) {
+                        logger.info(`Transformed data is UnifiedDataCatalog with ${transformedData.totalRecords} records`);
+                        rawColumns = Object.keys(actualData).map(key => ({
+                          name: key,
+                          type: typeof actualData[key] === 'number' ? 'number' : 
+                                typeof actualData[key] === 'boolean' ? 'boolean' : 'string'
+                        }));
                       }
                     }
                   } catch {
@@ -3,7 +3,8 @@ import { DataAnalysisService } from './dataAnalysisService';
 import { DataQuery, QueryResult as AnalysisResult } from '@/types/dataAnalysis';
 import { logger } from '@/utils/logger';
 import { v4 as uuidv4 } from 'uuid';
-import { fetchWithRetry } from '@/utils/retryUtils';
+import { LLMGateway } from './llmGateway';
+import { RecordStoreService } from './recordStoreService';
 
 interface QueryResult {
   id: string;
@@ -87,7 +88,7 @@ export class QueryExecutionService {
         userPromptLength: userPrompt.length
       });
       
-      let response = await this.callLLM(systemPrompt, userPrompt);
+      let response = await this.callLLM('query_answer', systemPrompt, userPrompt);
 
       // Check if the response indicates a missing field
       if (response.toLowerCase().includes('no') && response.toLowerCase().includes('field is defined')) {
@@ -139,97 +140,35 @@ export class QueryExecutionService {
   /**
    * Call LLM API to get response
    */
-  private static async callLLM(systemPrompt: string, userPrompt: string): Promise<string> {
+  private static async callLLM(feature: 'query_answer' | 'query_generation', systemPrompt: string, userPrompt: string): Promise<string> {
     try {
-      // Check if we have an API key configured
-      const apiKey = process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY;
-      
-      if (!apiKey) {
+      if (!LLMGateway.isConfigured(feature)) {
         // For query generation, return a mock JSON response
-        if (systemPrompt.includes('data query generator')) {
+        if (feature === 'query_generation') {
           // This will be handled by generateMockDataQuery
           return '{}';
         }
-        // Return a mock response if no API key is configured
+        // Return a mock response if no provider is configured
         return this.generateMockResponse(userPrompt);
       }
 
-      // Use OpenAI API
-      if (process.env.OPENAI_API_KEY) {
-        const response = await fetchWithRetry(
-          'https://api.openai.com/v1/chat/completions',
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
-            },
-            body: JSON.stringify({
-              model: 'gpt-4',
-              messages: [
-                { role: 'system', content: systemPrompt },
-                { role: 'user', content: userPrompt }
-              ],
-              temperature: 0.7,
-              max_tokens: 1000
-            })
-          },
-          {
-            maxRetries: 3,
-            initialDelay: 2000,
-            maxDelay: 60000
-          }
-        );
-
-        const data = await response.json();
-        return data.choices[0].message.content;
-      }
-
-      // Use Anthropic API
-      if (process.env.ANTHROPIC_API_KEY) {
-        try {
-          const response = await fetchWithRetry(
-            'https://api.anthropic.com/v1/messages',
-            {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'x-api-key': process.env.ANTHROPIC_API_KEY,
-                'anthropic-version': '2023-06-01'
-              },
-              body: JSON.stringify({
-                model: 'claude-3-5-sonnet-20241022',  // Updated to latest model
-                max_tokens: 1000,
-                messages: [
-                  { role: 'user', content: `${systemPrompt}\n\n${userPrompt}` }
-                ]
-              })
-            },
-            {
-              maxRetries: 5, // More retries for Anthropic 529 errors
-              initialDelay: 3000, // Longer initial delay
-              maxDelay: 120000, // Up to 2 minute delays
-              backoffMultiplier: 2.5, // More aggressive backoff
-              onRetry: (error, attempt, delay) => {
-                logger.warn(`Anthropic API retry attempt ${attempt} after ${delay}ms. Error: ${error.message}`);
-              }
-            }
-          );
-
-          const data = await response.json();
-          return data.content[0].text;
-        } catch (error) {
-          // Check if it's a 529 error and provide a more helpful message
-          if (error instanceof Error && error.message.includes('529')) {
-            logger.error('Anthropic API is overloaded (529 error). Will use fallback response.');
-            return this.generateMockResponse(userPrompt);
-          }
-          throw error;
+      try {
+        const response = await LLMGateway.complete({
+          feature,
+          systemPrompt,
+          prompt: userPrompt,
+          temperature: 0.7,
+          maxTokens: 1000
+        });
+        return response.content;
+      } catch (error) {
+        // Check if the provider is still overloaded after retries and provide a more helpful message
+        if (error instanceof Error && error.message.includes('529')) {
+          logger.error('LLM provider is overloaded (529 error). Will use fallback response.');
+          return this.generateMockResponse(userPrompt);
         }
+        throw error;
       }
-
-      // Fallback to mock response
-      return this.generateMockResponse(userPrompt);
     } catch (error) {
       logger.error('Failed to call LLM API:', error);
       // Return a helpful error message
@@ -619,7 +558,7 @@ User Question: ${query}
 
 Generate a query to answer this question. For code queries, you MUST use the exact property names from the Sample Data section above (e.g., if the sample shows "patients_with_relationships", use data.patients_with_relationships, NOT data.patients).`;
 
-      const response = await this.callLLM(systemPrompt, userPrompt);
+      const response = await this.callLLM('query_generation', systemPrompt, userPrompt);
       
       logger.info('LLM query generation response:', { 
         responseLength: response.length,
@@ -678,8 +617,8 @@ Generate a query to answer this question. For code queries, you MUST use the exa
         logger.error('Response was:', response);
       }
 
-      // If no API key, generate a mock query based on the context
-      if (!process.env.OPENAI_API_KEY && !process.env.ANTHROPIC_API_KEY) {
+      // If no provider is configured, generate a mock query based on the context
+      if (!LLMGateway.isConfigured('query_generation')) {
         return this.generateMockDataQuery(query, context);
       }
 
@@ -736,22 +675,9 @@ Generate a query to answer this question. For code queries, you MUST use the exa
         const dataSource = await DataSourceService.getDataSourceById(ds.id);
         
         if (dataSource?.transformedData) {
-          const transformedData = JSON.parse(dataSource.transformedData);
-          
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          let sampleRecords: any[] = [];
-          
-          if (Array.isArray(transformedData)) {
-            sampleRecords = transformedData.slice(0, 3);
-          } else if (transformedData.records && Array.isArray(transformedData.records)) {
-            // Extract 2-3 sample records from UnifiedDataCatalog structure
-            sampleRecords = transformedData.records.slice(0, 3).map((record: { data?: Record<string, unknown> }) => {
-              // Extract actual data from UnifiedDataRecord structure
-              return record.data || record;
-            });
-          } else if (transformedData.data && Array.isArray(transformedData.data)) {
-            sampleRecords = transformedData.data.slice(0, 3);
-          }
+          const transformedData = await RecordStoreService.loadCatalog(dataSource, { limit: 3 });
+          // Extract 2-3 sample records from the UnifiedDataRecord structure
+          const sampleRecords = transformedData?.records.slice(0, 3).map(record => record.data) ?? [];
           
           if (sampleRecords.length > 0) {
             
@@ -759,8 +685,8 @@ Generate a query to answer this question. For code queries, you MUST use the exa
             const dataKey = ds.name.replace(/[^a-zA-Z0-9]/g, '_');
             samples[dataKey] = {
               originalName: ds.name,
-              recordCount: transformedData.totalRecords || transformedData.records.length,
-              fields: transformedData.schema?.fields?.map((f: { name: string }) => f.name) || 
+              recordCount: transformedData!.totalRecords || sampleRecords.length,
+              fields: transformedData!.schema?.fields?.map((f: { name: string }) => f.name) || 
                       Object.keys(sampleRecords[0] || {}),
               samples: sampleRecords
             };
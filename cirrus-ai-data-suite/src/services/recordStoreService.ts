@@ -0,0 +1,325 @@
+/**
+ * Record Store Service
+ * Keeps transformed records out of the transformed_data column. Records are written as fixed-size
+ * JSONL segments and transformed_data holds only the catalog header (schema, counts, summary) with
+ * the store version, so reading a page loads the one or two segments it falls in rather than
+ * parsing the whole dataset. Segments live in the database so they survive on hosts whose file
+ * storage is temporary.
+ */
+
+import { randomUUID } from 'crypto';
+import { getDatabase } from '@/database/connection';
+import { DataSourceEntity } from '@/entities/DataSourceEntity';
+import { RecordSegmentEntity } from '@/entities/RecordSegmentEntity';
+import type { RecordStoreInfo, UnifiedDataCatalog, UnifiedDataRecord } from './dataTransformationService';
+import { logger } from '@/utils/logger';
+
+// The fields of a data source or its entity that locate its records
+export interface StoredRecordSource {
+  id: string;
+  name: string;
+  type: string;
+  recordCount?: number;
+  transformedData?: string;
+}
+
+// A data source's catalog without its records, and its records one segment at a time
+export interface StoredRecords {
+  catalog: UnifiedDataCatalog;
+  batches(): AsyncGenerator<UnifiedDataRecord[]>;
+}
+
+export const SEGMENT_SIZE = 5000;
+
+// Headers start with their store location, so they can be recognized without parsing legacy blobs
+const HEADER_PREFIX = '{"recordStore":';
+
+export class RecordStoreService {
+  /**
+   * Write records as a new store version. The data source row is not touched; use saveCatalog to
+   * make the new version current.
+   */
+  static async writeRecords(
+    dataSourceId: string,
+    records: Iterable<UnifiedDataRecord> | AsyncIterable<UnifiedDataRecord>,
+    segmentSize: number = SEGMENT_SIZE
+  ): Promise<RecordStoreInfo> {
+    const db = await getDatabase();
+    const repository = db.getRepository(RecordSegmentEntity);
+    const version = randomUUID();
+    let lines: string[] = [];
+    let segmentCount = 0;
+    let totalRecords = 0;
+
+    const flush = async () => {
+      await repository.insert({
+        dataSourceId,
+        storeVersion: version,
+        segmentIndex: segmentCount++,
+        recordCount: lines.length,
+        content: lines.join('\n')
+      });
+      totalRecords += lines.length;
+      lines = [];
+    };
+
+    try {
+      for await (const record of records) {
+        lines.push(JSON.stringify(record));
+        if (lines.length === segmentSize) {
+          await flush();
+        }
+      }
+      if (lines.length > 0) {
+        await flush();
+      }
+    } catch (error) {
+      // A failed source must not leave a partial version behind
+      await this.deleteVersion(dataSourceId, version);
+      throw error;
+    }
+
+    return { version, segmentSize, segmentCount, totalRecords };
+  }
+
+  /**
+   * Store a catalog's records and make its header the data source's transformed data.
+   * Returns the header JSON, and removes the records it replaces.
+   */
+  static async saveCatalog(dataSourceId: string, catalog: UnifiedDataCatalog): Promise<string> {
+    const recordStore = await this.writeRecords(dataSourceId, catalog.records);
+    return this.commitRecords(dataSourceId, catalog, recordStore);
+  }
+
+  /**
+   * Make a written store version current, with the catalog's schema and summary as its header.
+   * Returns the header JSON, and removes the records it replaces.
+   */
+  static async commitRecords(dataSourceId: string, catalog: UnifiedDataCatalog, recordStore: RecordStoreInfo): Promise<string> {
+    const db = await getDatabase();
+    const repository = db.getRepository(DataSourceEntity);
+    const current = await repository.findOne({ where: { id: dataSourceId } });
+    const previous = this.parseHeader(current?.transformedData)?.recordStore;
+
+    const header = this.createHeader(catalog, recordStore);
+    await repository.update(dataSourceId, { transformedData: header });
+
+    if (previous) {
+      await this.deleteVersion(dataSourceId, previous.version);
+    }
+    logger.info(`Stored ${recordStore.totalRecords} records for ${dataSourceId} in ${recordStore.segmentCount} segments`);
+    return header;
+  }
+
+  /**
+   * Header JSON for a catalog whose records are in the store
+   */
+  static createHeader(catalog: UnifiedDataCatalog, recordStore: RecordStoreInfo): string {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { records, recordStore: _previous, ...header } = catalog;
+    return JSON.stringify({ recordStore, ...header, records: [] });
+  }
+
+  /**
+   * The catalog header, when transformed data points at the record store
+   */
+  static parseHeader(transformedData?: string | null): UnifiedDataCatalog | null {
+    if (!transformedData?.startsWith(HEADER_PREFIX)) {
+      return null;
+    }
+    return JSON.parse(transformedData) as UnifiedDataCatalog;
+  }
+
+  /**
+   * Records [offset, offset + limit) of a store version, reading only the segments they fall in
+   */
+  static async readRecords(
+    dataSourceId: string,
+    store: RecordStoreInfo,
+    offset: number = 0,
+    limit: number = store.totalRecords
+  ): Promise<UnifiedDataRecord[]> {
+    const end = Math.min(store.totalRecords, offset + limit);
+    if (end <= offset) {
+      return [];
+    }
+
+    const first = Math.floor(offset / store.segmentSize);
+    const last = Math.floor((end - 1) / store.segmentSize);
+    const db = await getDatabase();
+    const segments = await db.getRepository(RecordSegmentEntity).find({
+      where: Array.from({ length: last - first + 1 }, (_, i) => ({
+        dataSourceId,
+        storeVersion: store.version,
+        segmentIndex: first + i
+      }))
+    });
+    if (segments.length !== last - first + 1) {
+      throw new Error(`Record store for ${dataSourceId} is missing segments ${first}-${last}`);
+    }
+
+    const records = segments
+      .sort((a, b) => a.segmentIndex - b.segmentIndex)
+      .flatMap(segment => this.parseSegment(segment));
+    const skip = offset - first * store.segmentSize;
+    return records.slice(skip, skip + (end - offset));
+  }
+
+  /**
+   * Every record of a store version, one segment at a time
+   */
+  static async *iterateRecords(dataSourceId: string, store: RecordStoreInfo): AsyncGenerator<UnifiedDataRecord[]> {
+    for (let offset = 0; offset < store.totalRecords; offset += store.segmentSize) {
+      yield await this.readRecords(dataSourceId, store, offset, store.segmentSize);
+    }
+  }
+
+  /**
+   * The data source's catalog header and an iterator over its records, whichever way its transformed
+   * data was saved. Returns null when it has none. Stored records are read one segment at a time;
+   * inline records have to be parsed up front and are handed out in segment-sized batches.
+   */
+  static async openRecords(source: StoredRecordSource): Promise<StoredRecords | null> {
+    const header = this.parseHeader(source.transformedData);
+    if (header?.recordStore) {
+      const store = header.recordStore;
+      return { catalog: header, batches: () => this.iterateRecords(source.id, store) };
+    }
+
+    const catalog = await this.loadCatalog(source);
+    if (!catalog) {
+      return null;
+    }
+    const { records } = catalog;
+    return {
+      catalog: { ...catalog, records: [] },
+      batches: async function* () {
+        for (let offset = 0; offset < records.length; offset += SEGMENT_SIZE) {
+          yield records.slice(offset, offset + SEGMENT_SIZE);
+        }
+      }
+    };
+  }
+
+  /**
+   * The data of every record, for callers that work on the whole dataset in memory
+   */
+  static async collectData(stored: StoredRecords): Promise<Array<Record<string, unknown>>> {
+    const data: Array<Record<string, unknown>> = [];
+    for await (const batch of stored.batches()) {
+      for (const record of batch) data.push(record.data);
+    }
+    return data;
+  }
+
+  /**
+   * The data source's catalog with records [offset, offset + limit), whichever way its transformed
+   * data was saved: a store header, a catalog with inline records, or field-mapped records
+   */
+  static async loadCatalog(
+    source: StoredRecordSource,
+    options: { offset?: number; limit?: number } = {}
+  ): Promise<UnifiedDataCatalog | null> {
+    const { offset = 0, limit } = options;
+    if (!source.transformedData?.trim()) {
+      return null;
+    }
+
+    const header = this.parseHeader(source.transformedData);
+    if (header?.recordStore) {
+      return {
+        ...header,
+        records: await this.readRecords(source.id, header.recordStore, offset, limit ?? header.recordStore.totalRecords)
+      };
+    }
+
+    const parsed = JSON.parse(source.transformedData);
+    const catalog: UnifiedDataCatalog | null = Array.isArray(parsed)
+      ? this.fromMappedRecords(source, parsed)
+      : parsed && typeof parsed === 'object' && Array.isArray(parsed.records) ? parsed : null;
+    if (!catalog) {
+      return null;
+    }
+    return {
+      ...catalog,
+      records: catalog.records.slice(offset, limit === undefined ? undefined : offset + limit)
+    };
+  }
+
+  /**
+   * Wrap records produced by applying field mappings in a catalog
+   */
+  static fromMappedRecords(source: StoredRecordSource, records: Array<Record<string, unknown>>): UnifiedDataCatalog {
+    const fieldAnalysis = new Map<string, { types: Set<string>; examples: unknown[]; hasNull: boolean }>();
+    records.forEach(record => {
+      Object.entries(record).forEach(([name, value]) => {
+        const field = fieldAnalysis.get(name) ?? { types: new Set<string>(), examples: [], hasNull: false };
+        if (value === null || value === undefined) {
+          field.hasNull = true;
+        } else {
+          field.types.add(typeof value);
+          if (field.examples.length < 3) field.examples.push(value);
+        }
+        fieldAnalysis.set(name, field);
+      });
+    });
+
+    const fields = Array.from(fieldAnalysis.entries()).map(([name, info]) => ({
+      name,
+      type: info.types.size === 1 ? Array.from(info.types)[0] : 'mixed',
+      nullable: info.hasNull,
+      examples: info.examples
+    }));
+    const totalRecords = source.recordCount && source.recordCount > 0 ? source.recordCount : records.length;
+    const extractedAt = new Date().toISOString();
+
+    return {
+      catalogId: `field_mapped_${source.id}_${Date.now()}`,
+      sourceId: source.id,
+      sourceName: source.name,
+      createdAt: extractedAt,
+      totalRecords,
+      schema: { fields },
+      records: records.map((data, index) => ({
+        id: `${source.id}_record_${index}`,
+        sourceId: source.id,
+        sourceName: source.name,
+        sourceType: source.type,
+        recordIndex: index,
+        data,
+        metadata: {
+          originalFormat: 'field_mapped',
+          extractedAt,
+          processingInfo: {
+            method: 'field_mapping_transformation'
+          }
+        }
+      })),
+      summary: {
+        dataTypes: [...new Set(fields.map(field => field.type))],
+        recordCount: totalRecords,
+        fieldCount: fields.length,
+        sampleSize: Math.min(records.length, 10)
+      }
+    };
+  }
+
+  /**
+   * Remove every stored record of a data source
+   */
+  static async deleteRecords(dataSourceId: string): Promise<void> {
+    const db = await getDatabase();
+    await db.getRepository(RecordSegmentEntity).delete({ dataSourceId });
+  }
+
+  private static async deleteVersion(dataSourceId: string, storeVersion: string): Promise<void> {
+    const db = await getDatabase();
+    await db.getRepository(RecordSegmentEntity).delete({ dataSourceId, storeVersion });
+  }
+
+  private static parseSegment(segment: RecordSegmentEntity): UnifiedDataRecord[] {
+    return segment.content
+      ? segment.content.split('\n').map(line => JSON.parse(line) as UnifiedDataRecord)
+      : [];
+  }
+}
@@ -0,0 +1,535 @@
+/**
+ * Redaction Job Service
+ * Deterministic bulk redaction of a whole data source. Every record is checked against a set of saved
+ * patterns, the matches are replaced, and the result is saved as a new data source with per-field and
+ * per-pattern counts. An LLM can review the already-redacted records as an optional second pass.
+ * Records are read from and written to the record store one segment at a time.
+ */
+
+import { getDatabase } from '@/database/connection';
+import { RedactionJobEntity } from '@/entities/RedactionJobEntity';
+import { DataSourceService } from './dataSourceService';
+import type { RecordStoreInfo, UnifiedDataCatalog, UnifiedDataRecord } from './dataTransformationService';
+import { RecordStoreService, StoredRecords } from './recordStoreService';
+import { ClassificationService } from './classificationService';
+import { PatternService, Pattern } from './patternService';
+import { patternTestingService, RedactionStyle } from './patternTestingService';
+import { PseudonymizationService } from './pseudonymizationService';
+import { LLMGateway } from './llmGateway';
+import { FieldStatisticsCollector } from '@/utils/fieldStatistics';
+import { mapLeaves } from '@/utils/recordLeaves';
+import { logger } from '@/utils/logger';
+import type { DataSource } from '@/types/discovery';
+import type { CreateRedactionJobRequest, RedactionJobOptions, RedactionReport } from '@/types/redaction';
+
+export interface CompiledRedactionPattern {
+  name: string;
+  regexes: RegExp[];
+  examples: string[]; // Lowercased; matched literally
+  learned: RegExp | null; // Generalized from the examples
+  contextKeywords: string[]; // Lowercased
+}
+
+export interface FieldRedaction {
+  field: string;
+  pattern: string;
+  count: number;
+}
+
+export type Replacer = (value: string, patternName: string) => string;
+
+export interface RedactionSpan {
+  start: number;
+  end: number;
+  pattern: string;
+  order: number; // Position of the pattern in the job's pattern list
+}
+
+export class RedactionJobError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RedactionJobError';
+  }
+}
+
+const BATCH_SIZE = 500;
+const CONTEXT_WINDOW = 100;
+const DEFAULT_STYLE: RedactionStyle = { type: 'full', format: '[REDACTED]' };
+const LLM_PATTERN = 'LLM review';
+
+export class RedactionJobService {
+  /**
+   * Validate the request, save a pending job and start it in the background
+   */
+  static async createJob(request: CreateRedactionJobRequest, createdBy?: string): Promise<RedactionJobEntity> {
+    const style = request.style ?? DEFAULT_STYLE;
+    const llmPass = request.llmPass === true;
+
+    if (!request.patternIds?.length) {
+      throw new RedactionJobError('At least one pattern is required');
+    }
+    if (PseudonymizationService.isPseudonymStyle(style) && !PseudonymizationService.isConfigured()) {
+      throw new RedactionJobError('Pseudonymization key not configured. Set PSEUDONYMIZATION_KEY.', 503);
+    }
+    if (llmPass && !LLMGateway.isConfigured('redaction')) {
+      throw new RedactionJobError('No LLM provider is configured for redaction');
+    }
+
+    const source = await DataSourceService.getDataSourceById(request.dataSourceId);
+    if (!source) {
+      throw new RedactionJobError('Data source not found', 404);
+    }
+
+    const patterns = await Promise.all(request.patternIds.map(id => PatternService.getPatternById(id)));
+    const missing = request.patternIds.filter((_, i) => !patterns[i]);
+    if (missing.length > 0) {
+      throw new RedactionJobError(`Patterns not found: ${missing.join(', ')}`);
+    }
+
+    const options: RedactionJobOptions = {
+      style,
+      llmPass,
+      outputName: request.outputName?.trim() || `${source.name} (redacted)`
+    };
+
+    const db = await getDatabase();
+    const repository = db.getRepository(RedactionJobEntity);
+    const job = await repository.save(repository.create({
+      dataSourceId: source.id,
+      patternIds: request.patternIds,
+      options,
+      status: 'pending',
+      progress: 0,
+      recordsProcessed: 0,
+      totalRecords: 0,
+      createdBy
+    }));
+
+    this.run(job.id, source, patterns as Pattern[], options).catch(error => {
+      logger.error(`Redaction job ${job.id} crashed:`, error);
+    });
+
+    return job;
+  }
+
+  static async getAllJobs(): Promise<RedactionJobEntity[]> {
+    const db = await getDatabase();
+    return db.getRepository(RedactionJobEntity).find({ order: { createdAt: 'DESC' } });
+  }
+
+  static async getJob(id: string): Promise<RedactionJobEntity | null> {
+    const db = await getDatabase();
+    return db.getRepository(RedactionJobEntity).findOne({ where: { id } });
+  }
+
+  static async deleteJob(id: string): Promise<void> {
+    const db = await getDatabase();
+    await db.getRepository(RedactionJobEntity).delete(id);
+  }
+
+  /**
+   * Compile patterns once per job. Regexes and literal examples are always trusted; the regex learned
+   * from the examples is looser, so when a pattern has context keywords it only counts near one.
+   */
+  static compilePatterns(patterns: Pattern[]): CompiledRedactionPattern[] {
+    return patterns.map(pattern => {
+      const sources = [pattern.regex, ...(pattern.regexPatterns ?? [])].filter((source): source is string => !!source);
+      const regexes = sources.flatMap(source => {
+        try {
+          return [new RegExp(source, 'gi')];
+        } catch {
+          logger.warn(`Skipping invalid regex for pattern ${pattern.name}: ${source}`);
+          return [];
+        }
+      });
+
+      const examples = (pattern.examples ?? []).filter(example => typeof example === 'string' && example.trim());
+      const learnedSource = examples.length > 0 ? patternTestingService.learnPatternFromExamples(examples) : null;
+      let learned: RegExp | null = null;
+      if (learnedSource) {
+        try {
+          learned = new RegExp(learnedSource, 'gi');
+        } catch {
+          learned = null;
+        }
+      }
+
+      return {
+        name: pattern.name,
+        regexes,
+        examples: examples.map(example => example.trim().toLowerCase()),
+        learned,
+        contextKeywords: (pattern.contextKeywords ?? []).map(keyword => keyword.toLowerCase()).filter(Boolean)
+      };
+    });
+  }
+
+  /**
+   * Replacement function for a style. Token styles number values across the whole job.
+   */
+  static createReplacer(style: RedactionStyle): Replacer {
+    let tokenIndex = 0;
+    return (value: string) => {
+      if (PseudonymizationService.isPseudonymStyle(style)) {
+        return PseudonymizationService.redact(value, [{ startIndex: 0, endIndex: value.length, value }], style);
+      }
+      if (style.type === 'token') {
+        tokenIndex++;
+      }
+      return patternTestingService.formatReplacement(value, style, tokenIndex);
+    };
+  }
+
+  /**
+   * Redact every string and number in a record's data. Nested fields are reported as dotted paths.
+   */
+  static redactRecord(
+    data: Record<string, unknown>,
+    patterns: CompiledRedactionPattern[],
+    replace: Replacer
+  ): { data: Record<string, unknown>; redactions: FieldRedaction[] } {
+    const redactions: FieldRedaction[] = [];
+
+    const redacted = mapLeaves(data, '', (value, path) => {
+      const text = String(value);
+      const spans = this.findMatches(text, path, patterns);
+      if (spans.length === 0) return value;
+
+      const counts = new Map<string, number>();
+      let result = text;
+      for (const span of [...spans].sort((x, y) => y.start - x.start)) {
+        result = result.substring(0, span.start) + replace(text.substring(span.start, span.end), span.pattern) + result.substring(span.end);
+        counts.set(span.pattern, (counts.get(span.pattern) ?? 0) + 1);
+      }
+      counts.forEach((count, pattern) => redactions.push({ field: path, pattern, count }));
+      return result;
+    });
+
+    return { data: redacted as Record<string, unknown>, redactions };
+  }
+
+  /**
+   * Non-overlapping matches of all patterns in a value. Earlier and longer matches win,
+   * then the pattern listed first. The field name counts as context for context keywords.
+   */
+  static findMatches(text: string, field: string, patterns: CompiledRedactionPattern[]): RedactionSpan[] {
+    const candidates: RedactionSpan[] = [];
+    const lower = text.toLowerCase();
+    const fieldName = field.toLowerCase();
+
+    patterns.forEach((pattern, order) => {
+      const add = (start: number, end: number) => {
+        if (end > start) candidates.push({ start, end, pattern: pattern.name, order });
+      };
+
+      for (const regex of pattern.regexes) {
+        this.forEachMatch(regex, text, add);
+      }
+
+      for (const example of pattern.examples) {
+        let index = lower.indexOf(example);
+        while (index !== -1) {
+          add(index, index + example.length);
+          index = lower.indexOf(example, index + example.length);
+        }
+      }
+
+      if (pattern.learned) {
+        const inContext = (start: number, end: number) =>
+          pattern.contextKeywords.length === 0 ||
+          pattern.contextKeywords.some(keyword =>
+            fieldName.includes(keyword) ||
+            lower.substring(Math.max(0, start - CONTEXT_WINDOW), end + CONTEXT_WINDOW).includes(keyword)
+          );
+        this.forEachMatch(pattern.learned, text, (start, end) => {
+          if (inContext(start, end)) add(start, end);
+        });
+      }
+    });
+
+    candidates.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start) || a.order - b.order);
+    const spans: RedactionSpan[] = [];
+    let lastEnd = -1;
+    for (const candidate of candidates) {
+      if (candidate.start >= lastEnd) {
+        spans.push(candidate);
+        lastEnd = candidate.end;
+      }
+    }
+    return spans;
+  }
+
+  private static forEachMatch(regex: RegExp, text: string, callback: (start: number, end: number) => void): void {
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      callback(match.index, match.index + match[0].length);
+    }
+  }
+
+  private static async run(
+    jobId: string,
+    source: DataSource,
+    patterns: Pattern[],
+    options: RedactionJobOptions
+  ): Promise<void> {
+    const db = await getDatabase();
+    const repository = db.getRepository(RedactionJobEntity);
+    let output: DataSource | null = null;
+
+    try {
+      await repository.update(jobId, { status: 'running' });
+
+      const stored = await DataSourceService.openRecords(source.id);
+      if (!stored) {
+        throw new RedactionJobError('Data source has no records to redact');
+      }
+      const totalRecords = stored.catalog.totalRecords;
+      await repository.update(jobId, { totalRecords });
+
+      const report: RedactionReport = {
+        totalRecords,
+        recordsRedacted: 0,
+        totalRedactions: 0,
+        byField: {},
+        byPattern: {},
+        byFieldAndPattern: {},
+        ...(options.llmPass && { llm: { recordsReviewed: 0, redactions: 0, failures: 0 } })
+      };
+      const collector = new FieldStatisticsCollector();
+
+      output = await this.createOutput(source, options.outputName);
+      const recordStore = await RecordStoreService.writeRecords(
+        output.id,
+        this.redactBatches(stored, patterns, options, report, collector, async recordsProcessed => {
+          await repository.update(jobId, {
+            recordsProcessed,
+            progress: Math.min(95, Math.round((recordsProcessed / Math.max(totalRecords, 1)) * 95))
+          });
+        })
+      );
+      await this.saveOutput(source, output, recordStore, collector, report, jobId);
+
+      await repository.update(jobId, {
+        status: 'completed',
+        progress: 100,
+        recordsProcessed: recordStore.totalRecords,
+        report,
+        outputDataSourceId: output.id,
+        completedAt: new Date()
+      });
+      logger.info(`Redaction job ${jobId} redacted ${report.totalRedactions} values in ${recordStore.totalRecords} records`);
+    } catch (error) {
+      logger.error(`Redaction job ${jobId} failed:`, error);
+      if (output) {
+        // A failed job must not leave a partly redacted data source behind
+        try {
+          await DataSourceService.deleteDataSource(output.id);
+        } catch (cleanupError) {
+          logger.warn(`Failed to remove output of redaction job ${jobId}:`, cleanupError);
+        }
+      }
+      await repository.update(jobId, {
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        completedAt: new Date()
+      });
+    }
+  }
+
+  /**
+   * Redact the stored records one segment at a time, in batches of BATCH_SIZE. Counts go into the
+   * report and the redacted values into the collector; only the current segment is held in memory.
+   */
+  private static async *redactBatches(
+    stored: StoredRecords,
+    patterns: Pattern[],
+    options: RedactionJobOptions,
+    report: RedactionReport,
+    collector: FieldStatisticsCollector,
+    onProgress: (recordsProcessed: number) => Promise<void>
+  ): AsyncGenerator<UnifiedDataRecord> {
+    const compiled = this.compilePatterns(patterns);
+    const replace = this.createReplacer(options.style);
+    let recordsProcessed = 0;
+
+    for await (const segment of stored.batches()) {
+      for (let offset = 0; offset < segment.length; offset += BATCH_SIZE) {
+        const redacted: UnifiedDataRecord[] = [];
+        for (const record of segment.slice(offset, offset + BATCH_SIZE)) {
+          const result = this.redactRecord(record.data, compiled, replace);
+          if (options.llmPass) {
+            await this.reviewWithLLM(result, replace, report);
+          }
+          this.tally(report, result.redactions);
+          collector.observe(result.data);
+          redacted.push({ ...record, data: result.data });
+        }
+
+        if (PseudonymizationService.isPseudonymStyle(options.style)) {
+          await PseudonymizationService.flushVault();
+        }
+        yield* redacted;
+
+        recordsProcessed += redacted.length;
+        await onProgress(recordsProcessed);
+        // Let other requests (including progress polling) run between batches
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    }
+  }
+
+  /**
+   * Ask the redaction LLM for sensitive values the patterns missed, and replace them in place
+   */
+  private static async reviewWithLLM(
+    result: { data: Record<string, unknown>; redactions: FieldRedaction[] },
+    replace: Replacer,
+    report: RedactionReport
+  ): Promise<void> {
+    const llm = report.llm!;
+    const fields = this.stringFields(result.data);
+    if (Object.keys(fields).length === 0) return;
+
+    try {
+      const response = await LLMGateway.complete({
+        feature: 'redaction',
+        systemPrompt: 'You find sensitive information that a pattern-based redaction pass missed.',
+        prompt: `The JSON object below maps field names to values that have already been redacted. ` +
+          `List any remaining personal or sensitive values (names, contact details, addresses, identifiers, account numbers). ` +
+          `Reply with only a JSON array of the exact substrings to redact, or [] if nothing remains.\n\n${JSON.stringify(fields)}`,
+        maxTokens: 1000
+      });
+      llm.recordsReviewed++;
+
+      const found = response.content.match(/\[[\s\S]*\]/);
+      const values = (found ? JSON.parse(found[0]) as unknown[] : [])
+        .filter((value): value is string => typeof value === 'string' && value.trim().length > 0);
+      if (values.length === 0) return;
+
+      result.data = mapLeaves(result.data, '', (value, path) => {
+        if (typeof value !== 'string') return value;
+        let redacted = value;
+        let count = 0;
+        for (const sensitive of values) {
+          const parts = redacted.split(sensitive);
+          if (parts.length > 1) {
+            count += parts.length - 1;
+            redacted = parts.join(replace(sensitive, LLM_PATTERN));
+          }
+        }
+        if (count > 0) {
+          result.redactions.push({ field: path, pattern: LLM_PATTERN, count });
+          llm.redactions += count;
+        }
+        return redacted;
+      }) as Record<string, unknown>;
+    } catch (error) {
+      // A failed review leaves the pattern redaction in place
+      llm.failures++;
+      logger.warn('LLM redaction review failed for a record:', error);
+    }
+  }
+
+  private static stringFields(data: Record<string, unknown>): Record<string, string> {
+    const fields: Record<string, string> = {};
+    mapLeaves(data, '', (value, path) => {
+      if (typeof value === 'string' && value.trim()) {
+        // Array items share a path, so later items are appended to earlier ones
+        fields[path] = fields[path] ? `${fields[path]}\n${value}` : value;
+      }
+      return value;
+    });
+    return fields;
+  }
+
+  private static tally(report: RedactionReport, redactions: FieldRedaction[]): void {
+    if (redactions.length === 0) return;
+
+    report.recordsRedacted++;
+    for (const { field, pattern, count } of redactions) {
+      report.totalRedactions += count;
+      report.byField[field] = (report.byField[field] ?? 0) + count;
+      report.byPattern[pattern] = (report.byPattern[pattern] ?? 0) + count;
+      report.byFieldAndPattern[field] ??= {};
+      report.byFieldAndPattern[field][pattern] = (report.byFieldAndPattern[field][pattern] ?? 0) + count;
+    }
+  }
+
+  /**
+   * The data source the redacted records are written to, with the source's classification.
+   * It holds no files; saveOutput commits its records and describes the redaction.
+   */
+  private static async createOutput(source: DataSource, name: string): Promise<DataSource> {
+    return DataSourceService.createDataSource({
+      name,
+      type: 'json_transformed',
+      connectionStatus: 'connected',
+      configuration: { files: [] },
+      recordCount: 0,
+      tags: ['redacted', 'json', source.type],
+      // Redaction does not lower the marking; reviewers decide that separately
+      classification: await ClassificationService.getDataSourceMarking(source.id)
+    });
+  }
+
+  /**
+   * Make the written records the output's records, with a schema gathered from the redacted values
+   */
+  private static async saveOutput(
+    source: DataSource,
+    output: DataSource,
+    recordStore: RecordStoreInfo,
+    collector: FieldStatisticsCollector,
+    report: RedactionReport,
+    jobId: string
+  ): Promise<void> {
+    const redactedAt = new Date().toISOString();
+    const schema = collector.schema();
+    const catalog: UnifiedDataCatalog = {
+      catalogId: `catalog_${output.id}_${Date.now()}`,
+      sourceId: output.id,
+      sourceName: output.name,
+      createdAt: redactedAt,
+      totalRecords: recordStore.totalRecords,
+      schema,
+      records: [],
+      summary: {
+        dataTypes: ['json'],
+        recordCount: recordStore.totalRecords,
+        fieldCount: schema.fields.length,
+        sampleSize: Math.min(recordStore.totalRecords, 10)
+      },
+      statistics: collector.statistics()
+    };
+    await RecordStoreService.commitRecords(output.id, catalog, recordStore);
+
+    const configuration = {
+      files: [],
+      recordCount: recordStore.totalRecords
+    };
+
+    const metadata = {
+      dataTypes: ['json'],
+      isTransformed: true,
+      originalSource: { id: source.id, name: source.name, type: source.type },
+      transformation: {
+        method: 'pattern_redaction',
+        transformedAt: redactedAt,
+        redactionJobId: jobId,
+        schema,
+        report
+      }
+    };
+
+    await DataSourceService.updateDataSource(output.id, {
+      configuration,
+      metadata,
+      recordCount: recordStore.totalRecords
+    });
+  }
+}
@@ -79,6 +79,8 @@ export class RemediationActionService {
           action.status = 'applied';
           action.appliedAt = new Date();
           action.appliedValue = action.suggestedValue;
+          action.reviewedBy = performedBy;
+          action.reviewedAt = new Date();
           action.updatedAt = new Date();
 
           await actionRepo.save(action);
@@ -177,6 +179,8 @@ export class RemediationActionService {
             ...action.metadata,
             rejectionReason: reason
           };
+          action.reviewedBy = performedBy;
+          action.reviewedAt = new Date();
           action.updatedAt = new Date();
 
           await actionRepo.save(action);
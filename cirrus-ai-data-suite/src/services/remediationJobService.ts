@@ -1,4 +1,4 @@
-import { } from 'typeorm';
+import { Repository, In } from 'typeorm';
 import { 
   RemediationJob, 
   RemediationJobStatus, 
@@ -8,6 +8,7 @@ import {
 } from '@/types/remediation';
 import { RemediationJobEntity } from '@/entities/RemediationJobEntity';
 import { RemediationActionEntity } from '@/entities/RemediationActionEntity';
+import { RemediationHistoryEntity, RemediationEventType } from '@/entities/RemediationHistoryEntity';
 import { FixTemplateEntity } from '@/entities/FixTemplateEntity';
 import { RuleExecutionEntity } from '@/entities/RuleExecutionEntity';
 import { AutoFixEngine, FixResult, FixContext } from './autoFixEngine';
@@ -24,6 +25,7 @@ export class RemediationJobService {
     return {
       jobRepository: db.getRepository(RemediationJobEntity),
       actionRepository: db.getRepository(RemediationActionEntity),
+      historyRepository: db.getRepository(RemediationHistoryEntity),
       templateRepository: db.getRepository(FixTemplateEntity),
       ruleExecutionRepository: db.getRepository(RuleExecutionEntity)
     };
@@ -34,7 +36,7 @@ export class RemediationJobService {
   /**
    * Create a new remediation job from rule execution results
    */
-  async createJob(request: CreateRemediationJobRequest): Promise<RemediationJob> {
+  async createJob(request: CreateRemediationJobRequest, createdBy: string = 'system'): Promise<RemediationJob> {
     const { jobRepository, actionRepository } = await this.getRepositories();
     
     const job = new RemediationJobEntity();
@@ -52,7 +54,7 @@ export class RemediationJobService {
     job.skippedCount = 0;
     job.complexity = 'medium';
     job.riskLevel = 'medium';
-    job.createdBy = 'system';
+    job.createdBy = createdBy;
     job.metadata = {
       configuration: request.configuration || {
         autoApplyThreshold: 0.9
@@ -222,6 +224,41 @@ export class RemediationJobService {
     return this.convertToRemediationJob(savedJob);
   }
 
+  /**
+   * Assign a job's actions to a reviewer, or clear the assignment with null
+   */
+  async assignJob(jobId: string, assignedTo: string | null): Promise<RemediationJob | null> {
+    const { jobRepository } = await this.getRepositories();
+    const job = await jobRepository.findOne({ where: { id: jobId } });
+    if (!job) return null;
+
+    job.assignedTo = assignedTo ?? undefined;
+    job.updatedAt = new Date();
+
+    const savedJob = await jobRepository.save(job);
+    return this.convertToRemediationJob(savedJob);
+  }
+
+  /**
+   * Get the job each action belongs to, keyed by action ID
+   */
+  async getJobsForActions(actionIds: string[]): Promise<Map<string, RemediationJob>> {
+    const { jobRepository, actionRepository } = await this.getRepositories();
+    const actions = await actionRepository.find({ where: { id: In(actionIds) } });
+    const jobIds = [...new Set(actions.map(action => action.jobId))];
+    const jobs = jobIds.length > 0 ? await jobRepository.find({ where: { id: In(jobIds) } }) : [];
+    const jobsById = new Map(jobs.map(job => [job.id, this.convertToRemediationJob(job)]));
+
+    const result = new Map<string, RemediationJob>();
+    for (const action of actions) {
+      const job = jobsById.get(action.jobId);
+      if (job) {
+        result.set(action.id, job);
+      }
+    }
+    return result;
+  }
+
   /**
    * Start a remediation job
    */
@@ -333,8 +370,8 @@ export class RemediationJobService {
   /**
    * Apply a remediation action
    */
-  async applyAction(actionId: string): Promise<RemediationAction | null> {
-    const { actionRepository } = await this.getRepositories();
+  async applyAction(actionId: string, performedBy: string = 'system'): Promise<RemediationAction | null> {
+    const { actionRepository, historyRepository } = await this.getRepositories();
     const action = await actionRepository.findOne({ 
       where: { id: actionId },
       relations: ['job']
@@ -350,9 +387,15 @@ export class RemediationJobService {
       action.status = 'applied';
       action.appliedAt = new Date();
       action.appliedValue = action.suggestedValue;
+      action.reviewedBy = performedBy;
+      action.reviewedAt = new Date();
       action.updatedAt = new Date();
 
       const savedAction = await actionRepository.save(action);
+      await this.recordHistory(historyRepository, savedAction.id, 'approved', 'pending', 'applied', performedBy, {
+        oldValue: action.originalValue,
+        newValue: action.appliedValue
+      });
 
       // Update job progress
       if (action.job) {
@@ -379,8 +422,8 @@ export class RemediationJobService {
   /**
    * Reject a remediation action
    */
-  async rejectAction(actionId: string, reason?: string): Promise<RemediationAction | null> {
-    const { actionRepository } = await this.getRepositories();
+  async rejectAction(actionId: string, reason?: string, performedBy: string = 'system'): Promise<RemediationAction | null> {
+    const { actionRepository, historyRepository } = await this.getRepositories();
     const action = await actionRepository.findOne({ 
       where: { id: actionId },
       relations: ['job']
@@ -395,8 +438,11 @@ export class RemediationJobService {
       ...action.metadata,
       rejectionReason: reason
     };
+    action.reviewedBy = performedBy;
+    action.reviewedAt = new Date();
     action.updatedAt = new Date();
     const savedAction = await actionRepository.save(action);
+    await this.recordHistory(historyRepository, savedAction.id, 'rejected', 'pending', 'rejected', performedBy, { reason });
 
     // Update job progress
     // TEMPORARILY DISABLED: if (action.job) {
@@ -540,6 +586,34 @@ export class RemediationJobService {
 
   // ==================== HELPER METHODS ====================
 
+  /**
+   * Record who changed an action's status in the remediation history
+   */
+  private async recordHistory(
+    historyRepository: Repository<RemediationHistoryEntity>,
+    actionId: string,
+    eventType: RemediationEventType,
+    oldStatus: RemediationActionStatus,
+    newStatus: RemediationActionStatus,
+    performedBy: string,
+    details: { oldValue?: string; newValue?: string; reason?: string } = {}
+  ): Promise<void> {
+    const history = historyRepository.create({
+      id: crypto.randomUUID(),
+      actionId,
+      eventType,
+      oldStatus,
+      newStatus,
+      oldValue: details.oldValue,
+      newValue: details.newValue,
+      performedBy,
+      reason: details.reason,
+      metadata: { source: 'api' },
+      createdAt: new Date()
+    });
+    await historyRepository.save(history);
+  }
+
   /**
    * Apply a fix method to a value
    */
@@ -4,6 +4,9 @@
  */
 
 import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import path from 'path';
 import { StorageProvider, StorageFile, StorageResult, StorageListItem } from './storageInterface';
 
@@ -59,6 +62,30 @@ export class LocalStorageProvider implements StorageProvider {
     }
   }
 
+  async getStream(key: string): Promise<Readable> {
+    const fullPath = this.getFullPath(key);
+    try {
+      await fs.access(fullPath);
+    } catch {
+      throw new Error(`File not found: ${key}`);
+    }
+    return createReadStream(fullPath);
+  }
+
+  async uploadStream(key: string, stream: Readable, contentType?: string): Promise<StorageResult> {
+    const fullPath = this.getFullPath(key);
+    await this.ensureDirectory(path.dirname(fullPath));
+    await pipeline(stream, createWriteStream(fullPath));
+    const stats = await fs.stat(fullPath);
+
+    return {
+      url: `file://${fullPath}`,
+      key,
+      size: stats.size,
+      contentType
+    };
+  }
+
   async getUrl(key: string): Promise<string> {
     // For local storage, we'll return a special URL that the app can handle
     // In production, this would be replaced with actual file serving
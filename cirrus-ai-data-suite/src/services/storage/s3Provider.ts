@@ -11,7 +11,13 @@ import {
   HeadObjectCommand,
   ListObjectsV2Command,
   GetObjectCommandOutput,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
 } from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { StorageProvider, StorageFile, StorageResult, StorageListItem } from './storageInterface';
 
@@ -23,6 +29,9 @@ export interface S3Config {
   endpoint?: string; // For S3-compatible services like MinIO
 }
 
+// S3 parts must be at least 5MB, except the last
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+
 export class S3Provider implements StorageProvider {
   private client: S3Client;
   private bucket: string;
@@ -117,6 +126,86 @@ export class S3Provider implements StorageProvider {
     }
   }
 
+  async getStream(key: string): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!response.Body) {
+        throw new Error(`File not found: ${key}`);
+      }
+      if (response.Body instanceof Readable) {
+        return response.Body;
+      }
+      return Readable.fromWeb(response.Body.transformToWebStream() as WebReadableStream);
+    } catch (error: unknown) {
+      if (error instanceof Error && 
+          ('name' in error && error.name === 'NoSuchKey' || 
+           '$metadata' in error && (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode === 404)) {
+        throw new Error(`File not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Multipart upload that holds one part in memory at a time
+   */
+  async uploadStream(key: string, stream: Readable, contentType?: string): Promise<StorageResult> {
+    const { UploadId } = await this.client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ContentType: contentType,
+    }));
+    const parts: Array<{ ETag?: string; PartNumber: number }> = [];
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+    let size = 0;
+
+    const sendPart = async () => {
+      const PartNumber = parts.length + 1;
+      const { ETag } = await this.client.send(new UploadPartCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId,
+        PartNumber,
+        Body: Buffer.concat(pending),
+      }));
+      parts.push({ ETag, PartNumber });
+      pending = [];
+      pendingBytes = 0;
+    };
+
+    try {
+      for await (const chunk of stream) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        pending.push(buffer);
+        pendingBytes += buffer.length;
+        size += buffer.length;
+        if (pendingBytes >= MULTIPART_PART_SIZE) {
+          await sendPart();
+        }
+      }
+      if (pendingBytes > 0 || parts.length === 0) {
+        await sendPart();
+      }
+      await this.client.send(new CompleteMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId,
+        MultipartUpload: { Parts: parts },
+      }));
+    } catch (error) {
+      await this.client.send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId }));
+      throw error;
+    }
+
+    return {
+      url: await this.getUrl(key),
+      key,
+      size,
+      contentType,
+    };
+  }
+
   async getUrl(key: string, expiresIn: number = 3600): Promise<string> {
     // First check if the object exists
     const exists = await this.exists(key);
@@ -168,6 +257,7 @@ export class S3Provider implements StorageProvider {
               key: object.Key,
               size: object.Size,
               lastModified: object.LastModified,
+              etag: object.ETag,
             });
           }
         }
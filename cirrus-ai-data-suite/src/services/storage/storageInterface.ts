@@ -3,6 +3,8 @@
  * Abstraction layer for file storage across different providers
  */
 
+import type { Readable } from 'stream';
+
 export interface StorageFile {
   key: string;
   content: Buffer | string;
@@ -23,6 +25,7 @@ export interface StorageListItem {
   size: number;
   lastModified: Date;
   contentType?: string;
+  etag?: string; // Changes whenever the content changes, where the provider reports one
 }
 
 export interface StorageProvider {
@@ -36,6 +39,16 @@ export interface StorageProvider {
    */
   get(key: string): Promise<Buffer>;
   
+  /**
+   * Read a file as a stream. Providers that cannot stream leave this out and are buffered instead.
+   */
+  getStream?(key: string): Promise<Readable>;
+
+  /**
+   * Write a file from a stream without holding it in memory
+   */
+  uploadStream?(key: string, stream: Readable, contentType?: string): Promise<StorageResult>;
+  
   /**
    * Get a signed URL for direct access
    */
@@ -8,6 +8,7 @@ import { LocalStorageProvider } from './localStorageProvider';
 import { VercelBlobProvider } from './vercelBlobProvider';
 import { VercelTempProvider } from './vercelTempProvider';
 import { S3Provider } from './s3Provider';
+import { Readable } from 'stream';
 
 export class StorageService {
   private static instance: StorageService;
@@ -160,6 +161,36 @@ export class StorageService {
     return this.provider.get(this.sanitizeKey(key));
   }
 
+  /**
+   * Read a file as a stream. Providers without streaming reads are buffered.
+   */
+  async getFileStream(key: string): Promise<Readable> {
+    const sanitizedKey = this.sanitizeKey(key);
+    if (this.provider.getStream) {
+      return this.provider.getStream(sanitizedKey);
+    }
+    return Readable.from([await this.provider.get(sanitizedKey)]);
+  }
+
+  /**
+   * Write a file from a stream. Providers without streaming writes are buffered.
+   */
+  async uploadFileStream(
+    key: string,
+    stream: Readable,
+    options?: { contentType?: string }
+  ): Promise<StorageResult> {
+    const sanitizedKey = this.sanitizeKey(key);
+    if (this.provider.uploadStream) {
+      return this.provider.uploadStream(sanitizedKey, stream, options?.contentType);
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return this.uploadFile(sanitizedKey, Buffer.concat(chunks), options);
+  }
+
   /**
    * Get a file as string
    */
@@ -5,6 +5,9 @@
  */
 
 import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import path from 'path';
 import { StorageProvider, StorageFile, StorageResult, StorageListItem } from './storageInterface';
 
@@ -61,6 +64,30 @@ export class VercelTempProvider implements StorageProvider {
     }
   }
 
+  async getStream(key: string): Promise<Readable> {
+    const fullPath = this.getFullPath(key);
+    try {
+      await fs.access(fullPath);
+    } catch {
+      throw new Error(`File not found: ${key}`);
+    }
+    return createReadStream(fullPath);
+  }
+
+  async uploadStream(key: string, stream: Readable, contentType?: string): Promise<StorageResult> {
+    const fullPath = this.getFullPath(key);
+    await this.ensureDirectory(path.dirname(fullPath));
+    await pipeline(stream, createWriteStream(fullPath));
+    const stats = await fs.stat(fullPath);
+
+    return {
+      url: `/api/storage/files/${key}`,
+      key,
+      size: stats.size,
+      contentType
+    };
+  }
+
   async getUrl(key: string): Promise<string> {
     // For temp storage, just return the API route
     return `/api/storage/files/${key}`;
@@ -181,19 +181,18 @@ export class StreamingUploadService {
       if (uploadedChunks.length === sessionEntity.totalChunks) {
         sessionEntity.status = 'completed';
         
-        // Combine all chunks into final file
+        // Combine all chunks into final file, one chunk in memory at a time
         try {
-          const chunks: Buffer[] = [];
-          for (let i = 0; i < session.totalChunks; i++) {
-            const chunkData = await storageService.getFile(`${uploadId}/chunk_${i}`);
-            chunks.push(chunkData);
-          }
-          
-          const completeFile = Buffer.concat(chunks);
+          const totalChunks = session.totalChunks;
+          const readChunks = async function* () {
+            for (let i = 0; i < totalChunks; i++) {
+              yield await storageService.getFile(`${uploadId}/chunk_${i}`);
+            }
+          };
           const finalKey = `uploads/${uploadId}/${session.fileName}`;
           
           // Store complete file
-          await storageService.uploadFile(finalKey, completeFile);
+          await storageService.uploadFileStream(finalKey, Readable.from(readChunks()), { contentType: session.mimeType });
           sessionEntity.storageKey = finalKey;
           
           // Clean up chunks
@@ -3,8 +3,13 @@ import { getDatabase } from '@/database/connection';
 import { SyntheticDataset } from '@/entities/SyntheticDataset';
 import { SyntheticDataJob } from '@/entities/SyntheticDataJob';
 import { DataSourceService } from './dataSourceService';
-import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
+import { SyntheticPrivacyService } from './syntheticPrivacyService';
+import { SyntheticQualityService } from './syntheticQualityService';
+import { ClassificationService } from './classificationService';
+import { highWaterMark } from '@/utils/classification';
+import { DatasetExportService, ExportColumn, ExportFormat } from './datasetExportService';
+import { writeFile, mkdir, readFile } from 'fs/promises';
+import { basename, join } from 'path';
 
 export interface SyntheticDataRequest {
   name: string;
@@ -12,7 +17,7 @@ export interface SyntheticDataRequest {
   dataType: string;
   recordCount: number;
   schema: DataSchema;
-  outputFormat: 'json' | 'csv' | 'sql';
+  outputFormat: ExportFormat;
   configuration?: SyntheticDataConfiguration;
   sourceDataId?: string; // Reference to source data for realistic generation
 }
@@ -34,6 +39,7 @@ export interface FieldDefinition {
 }
 
 export interface FieldSourceAnalysis {
+  valueCount?: number; // Non-null values analyzed, used to calibrate differential privacy noise
   sampleValues?: unknown[];
   distinctValues?: unknown[];
   valueDistribution?: Record<string, number>;
@@ -71,6 +77,15 @@ export interface SyntheticDataConfiguration {
     preserveFormat?: boolean;
     preserveLength?: boolean;
   };
+  // Privacy guarantees enforced by generateData
+  kAnonymity?: number;
+  lDiversity?: number;
+  epsilonDifferentialPrivacy?: number;
+  delta?: number;
+  noiseMechanism?: 'laplace' | 'gaussian';
+  quasiIdentifiers?: string[];
+  sensitiveFields?: string[];
+  maxSuppressionRate?: number;
 }
 
 export class SyntheticDataService {
@@ -115,6 +130,8 @@ export class SyntheticDataService {
 
     if (values.length === 0) return analysis;
 
+    analysis.valueCount = values.length;
+
     // Sample values (up to 20 for variety)
     analysis.sampleValues = values.slice(0, 20);
     
@@ -346,16 +363,20 @@ export class SyntheticDataService {
 
       // Create dataset record
       const dataset = repository.create({
+        classification: request.sourceDataId
+          ? await ClassificationService.getDataSourceMarking(request.sourceDataId)
+          : undefined,
         name: request.name,
         description: request.description,
         dataType: request.dataType,
         schema: enhancedSchema as Record<string, unknown>,
         recordCount: request.recordCount,
-        configuration: {
+        // configuration is a getter over the parameters column
+        parameters: JSON.stringify({
           ...request.configuration,
+          outputFormat: request.outputFormat,
           sourceDataId: request.sourceDataId
-        } as Record<string, unknown>,
-        outputFormat: request.outputFormat,
+        }),
         status: 'draft'
       });
 
@@ -412,14 +433,24 @@ export class SyntheticDataService {
         faker.seed(dataset.configuration.seed as number);
       }
 
+      // Privacy settings are checked before any records are generated
+      const privacy = SyntheticPrivacyService.resolveSettings(
+        dataset.configuration as SyntheticDataConfiguration,
+        dataset.recordCount
+      );
+      const privacyReport = privacy ? SyntheticPrivacyService.createReport(privacy) : undefined;
+      const schema = privacy && privacyReport
+        ? SyntheticPrivacyService.privatizeSchema((dataset.schema || {}) as DataSchema, privacy, privacyReport)
+        : (dataset.schema || {}) as DataSchema;
+
       // Generate synthetic data
 
-      const records = [];
+      let records: Record<string, unknown>[] = [];
       for (let i = 0; i < dataset.recordCount; i++) {
         const record: Record<string, unknown> = {};
         
-        for (const [fieldName, fieldDef] of Object.entries(dataset.schema || {})) {
-          const value = this.generateFieldValue(fieldDef as FieldDefinition, fieldName);
+        for (const [fieldName, fieldDef] of Object.entries(schema)) {
+          const value = this.generateFieldValue(fieldDef, fieldName);
           record[fieldName] = value;
         }
         
@@ -434,11 +465,34 @@ export class SyntheticDataService {
         }
       }
 
+      if (privacy && privacyReport) {
+        records = SyntheticPrivacyService.enforceAnonymity(records, schema, privacy, privacyReport);
+        job.privacyReport = privacyReport;
+      }
+
+      // The source may have been marked since the dataset was created
+      const sourceDataId = dataset.configuration?.sourceDataId as string | undefined;
+      if (sourceDataId) {
+        dataset.classification = highWaterMark([
+          dataset.classification,
+          await ClassificationService.getDataSourceMarking(sourceDataId)
+        ]) ?? null;
+      }
 
       // Save to file
       const filePath = await this.saveDataToFile(records, dataset);
       const fileName = filePath.split('/').pop() || `synthetic_${Date.now()}.json`;
       
+      // Compare with the source data so the dataset can be reviewed before release
+      if (sourceDataId) {
+        try {
+          dataset.qualityReport = await SyntheticQualityService.evaluate(sourceDataId, dataset.id, records, job.id) ?? undefined;
+        } catch (reportError) {
+          // A failed report must not fail a generation that already succeeded
+          console.error('Error building synthetic quality report:', reportError);
+        }
+      }
+
       // Update dataset with success
       dataset.status = 'completed';
       // filePath is not a real column, just a getter
@@ -448,7 +502,7 @@ export class SyntheticDataService {
       // Update job with success
       job.status = 'completed';
       job.progress = 100;
-      job.recordsGenerated = dataset.recordCount;
+      job.recordsGenerated = records.length;
       job.outputFile = fileName;
       job.endTime = new Date();
       await jobRepository.save(job);
@@ -470,6 +524,40 @@ export class SyntheticDataService {
     }
   }
 
+  /**
+   * Generate synthetic records directly from in-memory source records
+   * Used by pipeline execution where the input has no dataset entity behind it
+   */
+  static generateFromRecords(sourceRecords: Record<string, unknown>[], recordCount: number): Record<string, unknown>[] {
+    if (sourceRecords.length === 0 || recordCount <= 0) return [];
+
+    const fieldNames = Array.from(new Set(sourceRecords.flatMap(record => Object.keys(record))));
+    const schema: DataSchema = {};
+    for (const fieldName of fieldNames) {
+      const sourceAnalysis = this.analyzeField(fieldName, sourceRecords);
+      const sample = sourceAnalysis.sampleValues?.[0];
+      let type: FieldDefinition['type'] = 'text';
+      if (typeof sample === 'number') {
+        type = 'number';
+      } else if (typeof sample === 'boolean') {
+        type = 'boolean';
+      } else if (typeof sample === 'string' && isNaN(Number(sample)) && !isNaN(Date.parse(sample))) {
+        type = 'date';
+      }
+      schema[fieldName] = { type, sourceAnalysis };
+    }
+
+    const records: Record<string, unknown>[] = [];
+    for (let i = 0; i < recordCount; i++) {
+      const record: Record<string, unknown> = {};
+      for (const [fieldName, fieldDef] of Object.entries(schema)) {
+        record[fieldName] = this.generateFieldValue(fieldDef, fieldName);
+      }
+      records.push(record);
+    }
+    return records;
+  }
+
   /**
    * Generate realistic values based on source data analysis
    */
@@ -834,66 +922,30 @@ export class SyntheticDataService {
     }
   }
 
+  /**
+   * Export columns in schema order; generated values are strings apart from dates, numbers and booleans
+   */
+  private static exportColumns(schema: DataSchema): ExportColumn[] {
+    const types: Partial<Record<FieldDefinition['type'], string>> = { date: 'timestamp', number: 'number', boolean: 'boolean' };
+    return Object.entries(schema || {}).map(([name, field]) => ({ name, type: types[field?.type] ?? 'string' }));
+  }
+
   private static async saveDataToFile(records: Record<string, unknown>[], dataset: SyntheticDataset): Promise<string> {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `${dataset.name}_${timestamp}.${dataset.outputFormat}`;
+    const exported = await DatasetExportService.exportRecords(records, dataset.outputFormat, {
+      columns: this.exportColumns(dataset.schema as DataSchema),
+      classification: dataset.classification,
+      prettyPrint: true,
+      tableName: dataset.name
+    });
+    const filename = `${dataset.name}_${timestamp}.${exported.extension}`;
     
     // Check if we're in a production/serverless environment
     const isProduction = process.env.NODE_ENV === 'production';
     const isVercel = process.env.VERCEL || process.env.VERCEL_ENV;
     
-    let content: string;
-
-    switch (dataset.outputFormat) {
-      case 'json':
-        content = JSON.stringify(records, null, 2);
-        break;
-
-      case 'csv':
-        if (records.length === 0) {
-          content = '';
-        } else {
-          const headers = Object.keys(records[0]);
-          const csvHeaders = headers.join(',');
-          const csvRows = records.map(record => 
-            headers.map(header => {
-              const value = record[header];
-              if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
-                return `"${value.replace(/"/g, '""')}"`;
-              }
-              return value;
-            }).join(',')
-          );
-          content = [csvHeaders, ...csvRows].join('\n');
-        }
-        break;
-
-      case 'sql':
-        if (records.length === 0) {
-          content = '';
-        } else {
-          const tableName = dataset.name.toLowerCase().replace(/[^a-z0-9_]/g, '_');
-          const headers = Object.keys(records[0]);
-          const insertStatements = records.map(record => {
-            const values = headers.map(header => {
-              const value = record[header];
-              if (typeof value === 'string') {
-                return `'${value.replace(/'/g, "''")}'`;
-              }
-              if (value === null || value === undefined) {
-                return 'NULL';
-              }
-              return value;
-            });
-            return `INSERT INTO ${tableName} (${headers.join(', ')}) VALUES (${values.join(', ')});`;
-          });
-          content = insertStatements.join('\n');
-        }
-        break;
-
-      default:
-        throw new Error(`Unsupported output format: ${dataset.outputFormat}`);
-    }
+    // Binary formats are kept base64-encoded in the text column
+    const content = Buffer.isBuffer(exported.content) ? exported.content.toString('base64') : exported.content;
 
     // In production/serverless environments, store data in database instead of filesystem
     if (isProduction || isVercel) {
@@ -908,7 +960,7 @@ export class SyntheticDataService {
       
       // Update the dataset with the generated content
       dataset.generatedContent = content;
-      dataset.generatedContentSize = content.length;
+      dataset.generatedContentSize = Buffer.byteLength(exported.content);
       await repository.save(dataset);
       
       return virtualPath;
@@ -917,11 +969,34 @@ export class SyntheticDataService {
       const dataDir = join(process.cwd(), 'data', 'synthetic');
       await mkdir(dataDir, { recursive: true });
       const filePath = join(dataDir, filename);
-      await writeFile(filePath, content, 'utf8');
+      await writeFile(filePath, exported.content);
       return filePath;
     }
   }
 
+  /**
+   * Read the generated file of a dataset from the database (production) or from the
+   * file named by its latest completed job (development)
+   */
+  static async getGeneratedFile(dataset: SyntheticDataset): Promise<Buffer | null> {
+    if (dataset.generatedContent) {
+      return DatasetExportService.describe(dataset.outputFormat).binary
+        ? Buffer.from(dataset.generatedContent, 'base64')
+        : Buffer.from(dataset.generatedContent, 'utf8');
+    }
+
+    const job = (await this.getJobsForDataset(dataset.id)).find(candidate => candidate.status === 'completed' && candidate.outputFile);
+    if (!job?.outputFile) {
+      return null;
+    }
+    try {
+      return await readFile(join(process.cwd(), 'data', 'synthetic', basename(job.outputFile)));
+    } catch (error) {
+      console.error('Error reading generated file:', error);
+      return null;
+    }
+  }
+
   static async getAllDatasets(): Promise<SyntheticDataset[]> {
     const db = await getDatabase();
     const repository = db.getRepository(SyntheticDataset);
@@ -948,11 +1023,14 @@ export class SyntheticDataService {
     if (updates.description) dataset.description = updates.description;
     if (updates.recordCount) dataset.recordCount = updates.recordCount;
     if (updates.schema) dataset.schema = updates.schema as Record<string, unknown>;
-    // outputFormat is a readonly getter
     if (updates.configuration) {
       // configuration is stored in parameters column as JSON string
       dataset.parameters = JSON.stringify(updates.configuration);
     }
+    // outputFormat is a getter over the parameters column
+    if (updates.outputFormat) {
+      dataset.parameters = JSON.stringify({ ...dataset.configuration, outputFormat: updates.outputFormat });
+    }
     
     // Reset status if configuration changes
     if (updates.schema || updates.recordCount) {
@@ -0,0 +1,513 @@
+import { randomBytes } from 'crypto';
+import type { DataSchema, FieldDefinition, FieldSourceAnalysis, SyntheticDataConfiguration } from './syntheticDataService';
+import { SyntheticPrivacyReport } from '@/types/synthetic';
+
+export interface SyntheticPrivacySettings {
+  kAnonymity?: number;
+  lDiversity?: number;
+  epsilon?: number;
+  delta: number;
+  noiseMechanism: 'laplace' | 'gaussian';
+  quasiIdentifiers?: string[];
+  sensitiveFields?: string[];
+  maxSuppressionRate: number;
+}
+
+type GeneralizationKind = 'number' | 'date' | 'code' | 'category';
+
+export interface QuasiIdentifierHierarchy {
+  field: string;
+  kind: GeneralizationKind;
+  maxLevel: number;
+  bucketWidth: number; // Level 1 width for numeric fields
+}
+
+const DEFAULT_DELTA = 1e-5;
+const DEFAULT_MAX_SUPPRESSION_RATE = 0.05;
+const NUMERIC_LEVELS = 6;
+const DATE_LEVELS = 4;
+const SUPPRESSED = '*';
+
+const QUASI_IDENTIFIER_NAME = /(^|_)(age($|_)|zip|postal|gender|sex($|_)|birth|dob|race($|_)|ethnic|city|state($|_)|county|country|occupation|marital)/i;
+const QUASI_IDENTIFIER_SUBTYPES = ['zipCode', 'city', 'state', 'country'];
+const SENSITIVE_NAME = /(diagnos|condition|disease|medication|treatment|procedure|salary|income|religion|result)/i;
+
+/**
+ * Synthetic Privacy Service
+ * Applies the k-anonymity, l-diversity and differential privacy settings of a
+ * synthetic dataset. Noise is drawn from crypto randomness so a faker seed
+ * cannot be used to replay it.
+ */
+export class SyntheticPrivacyService {
+  /**
+   * Read the privacy settings from a dataset configuration, or null when none are set
+   */
+  static resolveSettings(configuration: SyntheticDataConfiguration | undefined, recordCount: number): SyntheticPrivacySettings | null {
+    if (!configuration) return null;
+
+    const kAnonymity = this.optionalNumber(configuration.kAnonymity);
+    const lDiversity = this.optionalNumber(configuration.lDiversity);
+    const epsilon = this.optionalNumber(configuration.epsilonDifferentialPrivacy);
+    if (kAnonymity === undefined && lDiversity === undefined && epsilon === undefined) return null;
+
+    if (kAnonymity !== undefined && (!Number.isInteger(kAnonymity) || kAnonymity < 1)) {
+      throw new Error('k-anonymity must be a positive integer');
+    }
+    if (lDiversity !== undefined && (!Number.isInteger(lDiversity) || lDiversity < 1)) {
+      throw new Error('l-diversity must be a positive integer');
+    }
+    if (epsilon !== undefined && !(epsilon > 0)) {
+      throw new Error('Differential privacy epsilon must be greater than 0');
+    }
+    if (kAnonymity !== undefined && recordCount < kAnonymity) {
+      throw new Error(`k-anonymity of ${kAnonymity} needs at least ${kAnonymity} records, but only ${recordCount} were requested`);
+    }
+
+    const delta = this.optionalNumber(configuration.delta) ?? DEFAULT_DELTA;
+    if (!(delta > 0 && delta < 1)) {
+      throw new Error('Differential privacy delta must be between 0 and 1');
+    }
+
+    const maxSuppressionRate = this.optionalNumber(configuration.maxSuppressionRate) ?? DEFAULT_MAX_SUPPRESSION_RATE;
+    if (!(maxSuppressionRate >= 0 && maxSuppressionRate < 1)) {
+      throw new Error('Maximum suppression rate must be between 0 and 1');
+    }
+
+    return {
+      kAnonymity,
+      lDiversity,
+      epsilon,
+      delta,
+      noiseMechanism: configuration.noiseMechanism === 'gaussian' ? 'gaussian' : 'laplace',
+      quasiIdentifiers: configuration.quasiIdentifiers,
+      sensitiveFields: configuration.sensitiveFields,
+      maxSuppressionRate
+    };
+  }
+
+  static createReport(settings: SyntheticPrivacySettings): SyntheticPrivacyReport {
+    return {
+      requested: {
+        kAnonymity: settings.kAnonymity,
+        lDiversity: settings.lDiversity,
+        epsilon: settings.epsilon
+      },
+      quasiIdentifiers: [],
+      sensitiveFields: [],
+      generalizationLevels: {},
+      suppressedRecords: 0,
+      warnings: []
+    };
+  }
+
+  /**
+   * Replace the source statistics used for sampling with differentially private ones.
+   * The budget is split evenly across the fields that read source data; sample
+   * values and string patterns cannot be privatized and are dropped, so those
+   * fields fall back to generic generated values.
+   */
+  static privatizeSchema(schema: DataSchema, settings: SyntheticPrivacySettings, report: SyntheticPrivacyReport): DataSchema {
+    if (!settings.epsilon) return schema;
+
+    const privatized: DataSchema = {};
+    const measured = Object.entries(schema).filter(([, field]) => this.isMeasurable(field));
+    const fieldEpsilon = settings.epsilon / Math.max(measured.length, 1);
+    const fieldDelta = settings.delta / Math.max(measured.length, 1);
+    const sourceBoundFields: string[] = [];
+    const uncountedFields: string[] = [];
+    const droppedFields: string[] = [];
+
+    for (const [fieldName, field] of Object.entries(schema)) {
+      if (!field.sourceAnalysis) {
+        privatized[fieldName] = field;
+        continue;
+      }
+
+      const analysis = field.sourceAnalysis;
+      const privateAnalysis: FieldSourceAnalysis = { numericFormat: analysis.numericFormat };
+
+      if (analysis.valueDistribution) {
+        privateAnalysis.valueDistribution = this.privatizeDistribution(
+          analysis.valueDistribution,
+          field.constraints?.options,
+          fieldEpsilon,
+          fieldDelta,
+          settings.noiseMechanism
+        );
+      } else if (analysis.numericStats && field.type === 'number') {
+        const bounded = field.constraints?.min !== undefined && field.constraints?.max !== undefined;
+        if (!bounded) sourceBoundFields.push(fieldName);
+        if (!analysis.valueCount) uncountedFields.push(fieldName);
+
+        privateAnalysis.numericStats = this.privatizeNumericStats(
+          analysis.numericStats,
+          bounded ? field.constraints!.min! : analysis.numericStats.min,
+          bounded ? field.constraints!.max! : analysis.numericStats.max,
+          analysis.valueCount,
+          fieldEpsilon,
+          fieldDelta,
+          settings.noiseMechanism
+        );
+      } else if (analysis.sampleValues || analysis.dateStats) {
+        droppedFields.push(fieldName);
+      }
+
+      privatized[fieldName] = { ...field, sourceAnalysis: privateAnalysis };
+    }
+
+    report.epsilonSpent = measured.length > 0 ? settings.epsilon : 0;
+    report.noiseMechanism = settings.noiseMechanism;
+    // Thresholding categories outside a declared option list also spends delta
+    const thresholded = measured.some(([, field]) => field.sourceAnalysis?.valueDistribution && !field.constraints?.options?.length);
+    if (measured.length > 0 && (settings.noiseMechanism === 'gaussian' || thresholded)) {
+      report.delta = settings.delta;
+    }
+    if (sourceBoundFields.length > 0) {
+      report.warnings.push(
+        `Value ranges for ${sourceBoundFields.join(', ')} come from the source data; set min and max constraints to keep them private`
+      );
+    }
+    if (droppedFields.length > 0) {
+      report.warnings.push(
+        `Source values for ${droppedFields.join(', ')} cannot be released with differential privacy, so generic values were generated`
+      );
+    }
+    if (uncountedFields.length > 0) {
+      report.warnings.push(
+        `Source statistics for ${uncountedFields.join(', ')} predate value counts, so only their ranges were used; re-create the dataset to refresh them`
+      );
+    }
+
+    return privatized;
+  }
+
+  /**
+   * Generalize and suppress quasi-identifiers until every equivalence class has
+   * at least k records and l distinct values of each sensitive field
+   */
+  static enforceAnonymity(
+    records: Record<string, unknown>[],
+    schema: DataSchema,
+    settings: SyntheticPrivacySettings,
+    report: SyntheticPrivacyReport
+  ): Record<string, unknown>[] {
+    const fieldNames = Object.keys(schema);
+    const sensitiveFields = (settings.sensitiveFields ?? fieldNames.filter(name => SENSITIVE_NAME.test(name)))
+      .filter(name => fieldNames.includes(name));
+    const quasiIdentifiers = (settings.quasiIdentifiers ?? fieldNames.filter(name => this.isQuasiIdentifier(name, schema[name])))
+      .filter(name => fieldNames.includes(name) && !sensitiveFields.includes(name));
+
+    report.quasiIdentifiers = quasiIdentifiers;
+    report.sensitiveFields = sensitiveFields;
+
+    const k = settings.kAnonymity ?? 1;
+    let l = settings.lDiversity ?? 1;
+    if (settings.lDiversity !== undefined && settings.lDiversity > 1) {
+      if (sensitiveFields.length === 0) {
+        report.warnings.push('l-diversity was requested but no sensitive fields were found; list them in the configuration');
+      }
+      // Generalization cannot add values the data does not have
+      for (const field of sensitiveFields) {
+        const distinct = new Set(records.map(record => this.valueKey(record[field]))).size;
+        if (distinct < l) {
+          report.warnings.push(`${field} has only ${distinct} distinct values, so l-diversity is capped at ${distinct}`);
+          l = distinct;
+        }
+      }
+    }
+    if (settings.kAnonymity !== undefined && quasiIdentifiers.length === 0) {
+      report.warnings.push('No quasi-identifiers were found; list them in the configuration to generalize them');
+    }
+
+    const hierarchies = quasiIdentifiers.map(field => this.buildHierarchy(field, schema[field], records));
+    const levels: Record<string, number> = Object.fromEntries(quasiIdentifiers.map(field => [field, 0]));
+    const suppressionLimit = Math.floor(records.length * settings.maxSuppressionRate);
+
+    let generalized = this.generalizeRecords(records, hierarchies, levels);
+    let violating = this.findViolations(generalized, quasiIdentifiers, sensitiveFields, k, l);
+
+    while (violating.size > suppressionLimit) {
+      const candidates = hierarchies.filter(hierarchy => levels[hierarchy.field] < hierarchy.maxLevel);
+      if (candidates.length === 0) break;
+
+      // Datafly: generalize the quasi-identifier with the most distinct values first
+      const next = candidates
+        .map(hierarchy => ({
+          hierarchy,
+          distinct: new Set(generalized.map(record => this.valueKey(record[hierarchy.field]))).size
+        }))
+        .sort((a, b) => b.distinct - a.distinct)[0].hierarchy;
+
+      levels[next.field]++;
+      generalized = this.generalizeRecords(records, hierarchies, levels);
+      violating = this.findViolations(generalized, quasiIdentifiers, sensitiveFields, k, l);
+    }
+
+    const anonymized = generalized.filter((_, index) => !violating.has(index));
+    report.generalizationLevels = levels;
+    report.suppressedRecords = violating.size;
+
+    const classes = this.groupByQuasiIdentifiers(anonymized, quasiIdentifiers);
+    report.equivalenceClasses = classes.size;
+    if (classes.size > 0) {
+      // Single passes: spreading one argument per class overflows the call stack on large datasets
+      let achievedK = Infinity;
+      let achievedL = Infinity;
+      for (const group of classes.values()) {
+        achievedK = Math.min(achievedK, group.length);
+        for (const field of sensitiveFields) {
+          achievedL = Math.min(achievedL, new Set(group.map(index => this.valueKey(anonymized[index][field]))).size);
+        }
+      }
+      report.achievedK = achievedK;
+      if (sensitiveFields.length > 0) {
+        report.achievedL = achievedL;
+      }
+    }
+
+    if (settings.kAnonymity !== undefined && (report.achievedK ?? 0) < settings.kAnonymity) {
+      report.warnings.push(`k-anonymity of ${settings.kAnonymity} could not be reached`);
+    }
+    if (violating.size > suppressionLimit) {
+      report.warnings.push(`${violating.size} records were suppressed, above the ${Math.round(settings.maxSuppressionRate * 100)}% suppression limit`);
+    }
+
+    return anonymized;
+  }
+
+  /**
+   * Generalize a single value to the given hierarchy level
+   */
+  static generalizeValue(value: unknown, hierarchy: QuasiIdentifierHierarchy, level: number): unknown {
+    if (level === 0 || value === null || value === undefined) return value;
+    if (level >= hierarchy.maxLevel) return SUPPRESSED;
+
+    switch (hierarchy.kind) {
+      case 'number': {
+        const numeric = Number(value);
+        if (!Number.isFinite(numeric)) return SUPPRESSED;
+        const width = hierarchy.bucketWidth * Math.pow(2, level - 1);
+        const lower = Math.floor(numeric / width) * width;
+        const upper = Number.isInteger(width) ? lower + width - 1 : lower + width;
+        return `${this.formatBound(lower)}-${this.formatBound(upper)}`;
+      }
+      case 'date': {
+        const date = value instanceof Date ? value : new Date(String(value));
+        if (isNaN(date.getTime())) return SUPPRESSED;
+        const year = date.getUTCFullYear();
+        if (level === 1) return `${year}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+        if (level === 2) return String(year);
+        return `${Math.floor(year / 10) * 10}s`;
+      }
+      case 'code': {
+        const code = String(value);
+        const kept = Math.max(code.length - level, 0);
+        return code.slice(0, kept) + SUPPRESSED.repeat(code.length - kept);
+      }
+      default:
+        return SUPPRESSED;
+    }
+  }
+
+  static buildHierarchy(field: string, definition: FieldDefinition | undefined, records: Record<string, unknown>[]): QuasiIdentifierHierarchy {
+    const values = records.map(record => record[field]).filter(value => value !== null && value !== undefined && value !== '');
+
+    if (definition?.type === 'date' || (values.length > 0 && values.every(value => value instanceof Date))) {
+      return { field, kind: 'date', maxLevel: DATE_LEVELS, bucketWidth: 0 };
+    }
+
+    const looksLikeCode = definition?.subtype === 'zipCode' ||
+      (values.length > 0 && values.every(value => typeof value === 'string' && /^\d[\d-]*$/.test(value)));
+    if (looksLikeCode) {
+      const longest = values.reduce<number>((max, value) => Math.max(max, String(value).length), 1);
+      return { field, kind: 'code', maxLevel: longest, bucketWidth: 0 };
+    }
+
+    const numbers = values.map(Number);
+    if (definition?.type === 'number' || (values.length > 0 && numbers.every(Number.isFinite))) {
+      const finite = numbers.filter(Number.isFinite);
+      let min = Infinity;
+      let max = -Infinity;
+      for (const value of finite) {
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      const range = finite.length > 0 ? max - min : 0;
+      const integers = finite.every(Number.isInteger);
+      return { field, kind: 'number', maxLevel: NUMERIC_LEVELS, bucketWidth: this.niceWidth(range / 20, integers) };
+    }
+
+    return { field, kind: 'category', maxLevel: 1, bucketWidth: 0 };
+  }
+
+  /**
+   * Draw noise for a statistic with the given sensitivity and budget
+   */
+  static noise(sensitivity: number, epsilon: number, delta: number, mechanism: 'laplace' | 'gaussian'): number {
+    if (mechanism === 'gaussian') {
+      const sigma = sensitivity * Math.sqrt(2 * Math.log(1.25 / delta)) / epsilon;
+      return sigma * this.standardNormal();
+    }
+    const scale = sensitivity / epsilon;
+    const u = this.uniform() - 0.5;
+    return -scale * Math.sign(u) * Math.log(1 - 2 * Math.abs(u));
+  }
+
+  /**
+   * Noisy histogram. Changing one record moves two counts by one, so the L1
+   * sensitivity is 2 and the L2 sensitivity is sqrt(2). Categories that are not
+   * part of a declared option list are only released above a threshold so a
+   * rare value cannot reveal that one record holds it.
+   */
+  private static privatizeDistribution(
+    distribution: Record<string, number>,
+    options: string[] | undefined,
+    epsilon: number,
+    delta: number,
+    mechanism: 'laplace' | 'gaussian'
+  ): Record<string, number> | undefined {
+    const sensitivity = mechanism === 'gaussian' ? Math.SQRT2 : 2;
+    const categories = options && options.length > 0 ? options : Object.keys(distribution);
+    const threshold = options && options.length > 0
+      ? 0
+      : mechanism === 'gaussian'
+        ? 1 + sensitivity * Math.sqrt(2 * Math.log(1.25 / delta)) / epsilon * Math.sqrt(2 * Math.log(1 / delta))
+        : 1 + (sensitivity / epsilon) * Math.log(1 / (2 * delta));
+
+    const noisy: Record<string, number> = {};
+    for (const category of categories) {
+      const count = (distribution[category] || 0) + this.noise(sensitivity, epsilon, delta, mechanism);
+      if (count > threshold) noisy[category] = count;
+    }
+
+    return Object.keys(noisy).length > 0 ? noisy : undefined;
+  }
+
+  /**
+   * Noisy mean and variance for values clamped to [lower, upper]. Replacing one
+   * of n values moves the mean by at most (upper - lower) / n and the variance
+   * by at most (upper - lower)^2 / n; each statistic gets half the budget.
+   */
+  private static privatizeNumericStats(
+    stats: NonNullable<FieldSourceAnalysis['numericStats']>,
+    lower: number,
+    upper: number,
+    count: number | undefined,
+    epsilon: number,
+    delta: number,
+    mechanism: 'laplace' | 'gaussian'
+  ): FieldSourceAnalysis['numericStats'] {
+    const range = Math.max(upper - lower, 0);
+    const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+    if (!count) {
+      const midpoint = lower + range / 2;
+      return { min: lower, max: upper, mean: midpoint, median: midpoint, stdDev: range / 4 };
+    }
+
+    const mean = clamp(stats.mean + this.noise(range / count, epsilon / 2, delta / 2, mechanism), lower, upper);
+    const variance = clamp(
+      stats.stdDev * stats.stdDev + this.noise(range * range / count, epsilon / 2, delta / 2, mechanism),
+      0,
+      (range / 2) * (range / 2)
+    );
+
+    return { min: lower, max: upper, mean, median: mean, stdDev: Math.sqrt(variance) };
+  }
+
+  private static isMeasurable(field: FieldDefinition): boolean {
+    const analysis = field.sourceAnalysis;
+    if (!analysis) return false;
+    return !!analysis.valueDistribution || (!!analysis.numericStats && field.type === 'number');
+  }
+
+  private static isQuasiIdentifier(name: string, field: FieldDefinition): boolean {
+    if (field.type === 'date') return true;
+    if (field.type === 'address' && field.subtype && QUASI_IDENTIFIER_SUBTYPES.includes(field.subtype)) return true;
+    return QUASI_IDENTIFIER_NAME.test(name);
+  }
+
+  private static generalizeRecords(
+    records: Record<string, unknown>[],
+    hierarchies: QuasiIdentifierHierarchy[],
+    levels: Record<string, number>
+  ): Record<string, unknown>[] {
+    return records.map(record => {
+      const generalized = { ...record };
+      for (const hierarchy of hierarchies) {
+        generalized[hierarchy.field] = this.generalizeValue(record[hierarchy.field], hierarchy, levels[hierarchy.field]);
+      }
+      return generalized;
+    });
+  }
+
+  /**
+   * Indexes of records whose equivalence class is smaller than k or has fewer
+   * than l distinct values of a sensitive field
+   */
+  private static findViolations(
+    records: Record<string, unknown>[],
+    quasiIdentifiers: string[],
+    sensitiveFields: string[],
+    k: number,
+    l: number
+  ): Set<number> {
+    const violating = new Set<number>();
+    for (const group of this.groupByQuasiIdentifiers(records, quasiIdentifiers).values()) {
+      const diverse = l <= 1 || sensitiveFields.every(field =>
+        new Set(group.map(index => this.valueKey(records[index][field]))).size >= l
+      );
+      if (group.length < k || !diverse) {
+        group.forEach(index => violating.add(index));
+      }
+    }
+    return violating;
+  }
+
+  private static groupByQuasiIdentifiers(records: Record<string, unknown>[], quasiIdentifiers: string[]): Map<string, number[]> {
+    const groups = new Map<string, number[]>();
+    records.forEach((record, index) => {
+      const key = JSON.stringify(quasiIdentifiers.map(field => this.valueKey(record[field])));
+      const group = groups.get(key);
+      if (group) {
+        group.push(index);
+      } else {
+        groups.set(key, [index]);
+      }
+    });
+    return groups;
+  }
+
+  private static valueKey(value: unknown): string {
+    if (value instanceof Date) return value.toISOString();
+    return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  }
+
+  /**
+   * Round a bucket width up to 1, 2 or 5 times a power of ten
+   */
+  private static niceWidth(raw: number, integers: boolean): number {
+    if (!(raw > 0)) return 1;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+    const width = [1, 2, 5, 10].map(step => step * magnitude).find(candidate => candidate >= raw) ?? 10 * magnitude;
+    return integers ? Math.max(1, Math.round(width)) : width;
+  }
+
+  private static formatBound(value: number): string {
+    return String(parseFloat(value.toPrecision(12)));
+  }
+
+  private static optionalNumber(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    return Number(value);
+  }
+
+  private static uniform(): number {
+    // 48 random bits, strictly inside (0, 1)
+    return (randomBytes(6).readUIntBE(0, 6) + 0.5) / 2 ** 48;
+  }
+
+  private static standardNormal(): number {
+    return Math.sqrt(-2 * Math.log(this.uniform())) * Math.cos(2 * Math.PI * this.uniform());
+  }
+}
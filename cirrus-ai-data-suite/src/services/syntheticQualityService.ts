@@ -0,0 +1,586 @@
+import { DataSourceService } from './dataSourceService';
+import { dataProfilingService } from './dataProfilingService';
+import {
+  DataQualityMetrics,
+  FieldMetric,
+  CorrelationDrift,
+  DistanceToClosestRecord
+} from '@/types/synthetic';
+
+type DataRecord = Record<string, unknown>;
+
+interface ComparedField {
+  name: string;
+  type: 'numeric' | 'categorical';
+  min: number;
+  max: number;
+  categories: string[]; // Most common source categories; the rest share one bucket
+}
+
+const HISTOGRAM_BINS = 10;
+const MAX_CATEGORIES = 20;
+const OTHER_CATEGORY = '(other)';
+const NUMERIC_SHARE = 0.9;
+const MAX_SOURCE_SAMPLE = 5000;
+const MAX_SYNTHETIC_SAMPLE = 1000;
+const MAX_HOLDOUT = 500;
+
+/**
+ * Synthetic Quality Service
+ * Compares a generated dataset with the source records it was modelled on:
+ * how closely each field's distribution and the relationships between fields
+ * are reproduced, and whether synthetic records sit suspiciously close to
+ * real ones
+ */
+export class SyntheticQualityService {
+  /**
+   * Build the report for a dataset generated from a data source, or null when
+   * the source data is not available
+   */
+  static async evaluate(
+    sourceDataId: string,
+    syntheticDatasetId: string,
+    syntheticRecords: DataRecord[],
+    jobId?: string
+  ): Promise<DataQualityMetrics | null> {
+    const catalog = await DataSourceService.getTransformedData(sourceDataId);
+    if (!catalog || !catalog.records || catalog.records.length === 0) {
+      return null;
+    }
+
+    const report = this.compare(catalog.records.map(record => record.data), syntheticRecords);
+    return { ...report, originalDataset: sourceDataId, syntheticDataset: syntheticDatasetId, jobId };
+  }
+
+  static compare(sourceRecords: DataRecord[], syntheticRecords: DataRecord[]): DataQualityMetrics {
+    const warnings: string[] = [];
+    const fields = this.selectFields(sourceRecords, syntheticRecords, warnings);
+
+    const source = this.sample(sourceRecords, MAX_SOURCE_SAMPLE);
+    const synthetic = this.sample(syntheticRecords, MAX_SOURCE_SAMPLE);
+
+    const fieldLevelMetrics = fields.map(field => this.compareField(field, source, synthetic));
+    const mutualInformationDrift = this.mutualInformationDrift(fields, source, synthetic);
+    fieldLevelMetrics.forEach(metric => {
+      metric.mutualInformation = this.round(mutualInformationDrift.get(metric.fieldName) ?? 0);
+    });
+
+    const correlationDrift = this.correlationDrift(fields.filter(field => field.type === 'numeric'), source, synthetic);
+    const distanceToClosestRecord = this.distanceToClosestRecord(fields, sourceRecords, syntheticRecords, warnings);
+
+    const statisticalSimilarity = fieldLevelMetrics.length > 0
+      ? 1 - this.mean(fieldLevelMetrics.map(metric => metric.distance))
+      : 0;
+    const attributeCorrelation = correlationDrift.fields.length > 1
+      ? 1 - correlationDrift.meanAbsoluteDrift / 2
+      : 1 - this.mean(Array.from(mutualInformationDrift.values()));
+    const privacyRisk = distanceToClosestRecord.sampleSize > 0
+      ? distanceToClosestRecord.closerThanHoldout / distanceToClosestRecord.sampleSize
+      : 0;
+    const reIdentificationRisk = syntheticRecords.length > 0
+      ? distanceToClosestRecord.exactMatches / syntheticRecords.length
+      : 0;
+
+    if (distanceToClosestRecord.exactMatches > 0) {
+      warnings.push(`${distanceToClosestRecord.exactMatches} synthetic records duplicate a source record on every compared field`);
+    }
+    if (privacyRisk > 0.1) {
+      warnings.push(
+        `${Math.round(privacyRisk * 100)}% of sampled synthetic records are closer to a source record than 95% of held-out source records are; the generator may be memorizing rows`
+      );
+    }
+
+    return {
+      originalDataset: '',
+      syntheticDataset: '',
+      generatedAt: new Date().toISOString(),
+      sourceRecordCount: sourceRecords.length,
+      syntheticRecordCount: syntheticRecords.length,
+      metrics: {
+        statisticalSimilarity: this.round(statisticalSimilarity),
+        attributeCorrelation: this.round(attributeCorrelation),
+        dataUtility: this.round((statisticalSimilarity + attributeCorrelation) / 2),
+        privacyRisk: this.round(privacyRisk),
+        reIdentificationRisk: this.round(reIdentificationRisk)
+      },
+      fieldLevelMetrics,
+      correlationDrift,
+      distanceToClosestRecord,
+      warnings
+    };
+  }
+
+  /**
+   * Fields present in both datasets. Identifier-like fields, where almost every
+   * value is unique, are regenerated rather than modelled and are left out.
+   */
+  private static selectFields(sourceRecords: DataRecord[], syntheticRecords: DataRecord[], warnings: string[]): ComparedField[] {
+    const syntheticKeys = new Set(syntheticRecords.flatMap(record => Object.keys(record)));
+    const sourceKeys = Array.from(new Set(sourceRecords.flatMap(record => Object.keys(record))));
+    const identifiers: string[] = [];
+    const generalized: string[] = [];
+    const fields: ComparedField[] = [];
+
+    for (const name of sourceKeys.filter(key => syntheticKeys.has(key))) {
+      const sourceValues = this.presentValues(sourceRecords, name);
+      const syntheticValues = this.presentValues(syntheticRecords, name);
+      if (sourceValues.length === 0) continue;
+
+      const sourceNumbers = sourceValues.map(value => this.toNumber(value)).filter((value): value is number => value !== null);
+      if (sourceNumbers.length >= sourceValues.length * NUMERIC_SHARE) {
+        const syntheticNumbers = syntheticValues.filter(value => this.toNumber(value) !== null);
+        if (syntheticValues.length > 0 && syntheticNumbers.length < syntheticValues.length * NUMERIC_SHARE) {
+          generalized.push(name);
+          continue;
+        }
+        fields.push({
+          name,
+          type: 'numeric',
+          min: sourceNumbers.reduce((min, value) => Math.min(min, value), Infinity),
+          max: sourceNumbers.reduce((max, value) => Math.max(max, value), -Infinity),
+          categories: []
+        });
+        continue;
+      }
+
+      const counts = this.countCategories(sourceValues);
+      if (counts.size > 50 && counts.size > sourceValues.length * 0.5) {
+        identifiers.push(name);
+        continue;
+      }
+      fields.push({
+        name,
+        type: 'categorical',
+        min: 0,
+        max: 0,
+        categories: Array.from(counts.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, MAX_CATEGORIES)
+          .map(([category]) => category)
+      });
+    }
+
+    if (identifiers.length > 0) {
+      warnings.push(`${identifiers.join(', ')} look like identifiers and were not compared`);
+    }
+    if (generalized.length > 0) {
+      warnings.push(`${generalized.join(', ')} are numeric in the source but generalized in the synthetic data and were not compared`);
+    }
+    return fields;
+  }
+
+  private static compareField(field: ComparedField, source: DataRecord[], synthetic: DataRecord[]): FieldMetric {
+    const sourceValues = this.presentValues(source, field.name);
+    const syntheticValues = this.presentValues(synthetic, field.name);
+
+    if (field.type === 'numeric') {
+      const sourceNumbers = sourceValues.map(value => this.toNumber(value)).filter((value): value is number => value !== null);
+      const syntheticNumbers = syntheticValues.map(value => this.toNumber(value)).filter((value): value is number => value !== null);
+      const statistic = this.kolmogorovSmirnov(sourceNumbers, syntheticNumbers);
+
+      return {
+        fieldName: field.name,
+        fieldType: 'numeric',
+        originalDistribution: this.histogram(sourceNumbers, field),
+        syntheticDistribution: this.histogram(syntheticNumbers, field),
+        distance: this.round(statistic),
+        kolmogorovSmirnovTest: this.round(this.kolmogorovSmirnovPValue(statistic, sourceNumbers.length, syntheticNumbers.length)),
+        mutualInformation: 0
+      };
+    }
+
+    const originalDistribution = this.categoryShares(sourceValues, field);
+    const syntheticDistribution = this.categoryShares(syntheticValues, field);
+    const categories = Array.from(new Set([...Object.keys(originalDistribution), ...Object.keys(syntheticDistribution)]));
+    const distance = categories.reduce((sum, category) =>
+      sum + Math.abs((originalDistribution[category] || 0) - (syntheticDistribution[category] || 0)), 0) / 2;
+
+    return {
+      fieldName: field.name,
+      fieldType: 'categorical',
+      originalDistribution,
+      syntheticDistribution,
+      distance: this.round(distance),
+      chiSquareTest: this.round(this.chiSquarePValue(sourceValues, syntheticValues, field)),
+      mutualInformation: 0
+    };
+  }
+
+  /**
+   * Pearson correlation matrices of the numeric fields, computed over records
+   * where both fields have a numeric value
+   */
+  private static correlationDrift(fields: ComparedField[], source: DataRecord[], synthetic: DataRecord[]): CorrelationDrift {
+    const matrix = (records: DataRecord[]) => fields.map((row, i) => fields.map((column, j) => {
+      if (i === j) return 1;
+      const x: number[] = [];
+      const y: number[] = [];
+      for (const record of records) {
+        const a = this.toNumber(record[row.name]);
+        const b = this.toNumber(record[column.name]);
+        if (a !== null && b !== null) {
+          x.push(a);
+          y.push(b);
+        }
+      }
+      return this.round(dataProfilingService.pearsonCorrelation(x, y));
+    }));
+
+    const original = matrix(source);
+    const generated = matrix(synthetic);
+    const drifts: number[] = [];
+    for (let i = 0; i < fields.length; i++) {
+      for (let j = i + 1; j < fields.length; j++) {
+        drifts.push(Math.abs(original[i][j] - generated[i][j]));
+      }
+    }
+
+    return {
+      fields: fields.map(field => field.name),
+      original,
+      synthetic: generated,
+      meanAbsoluteDrift: this.round(this.mean(drifts)),
+      maxAbsoluteDrift: this.round(drifts.length > 0 ? Math.max(...drifts) : 0)
+    };
+  }
+
+  /**
+   * For each field, the mean change in normalized mutual information with
+   * every other field, on values bucketed the same way as the distributions
+   */
+  private static mutualInformationDrift(fields: ComparedField[], source: DataRecord[], synthetic: DataRecord[]): Map<string, number> {
+    const sourceBuckets = fields.map(field => source.map(record => this.bucket(record[field.name], field)));
+    const syntheticBuckets = fields.map(field => synthetic.map(record => this.bucket(record[field.name], field)));
+    const drifts = new Map<string, number[]>(fields.map(field => [field.name, []]));
+
+    for (let i = 0; i < fields.length; i++) {
+      for (let j = i + 1; j < fields.length; j++) {
+        const drift = Math.abs(
+          this.normalizedMutualInformation(sourceBuckets[i], sourceBuckets[j]) -
+          this.normalizedMutualInformation(syntheticBuckets[i], syntheticBuckets[j])
+        );
+        drifts.get(fields[i].name)!.push(drift);
+        drifts.get(fields[j].name)!.push(drift);
+      }
+    }
+
+    return new Map(Array.from(drifts.entries()).map(([name, values]) => [name, this.mean(values)]));
+  }
+
+  /**
+   * Distance to closest record: the Gower distance from each sampled synthetic
+   * record to its nearest source record, against the same distance for source
+   * records held out of the comparison set. Synthetic records that are closer
+   * than nearly all real records are likely memorized.
+   */
+  private static distanceToClosestRecord(
+    fields: ComparedField[],
+    sourceRecords: DataRecord[],
+    syntheticRecords: DataRecord[],
+    warnings: string[]
+  ): DistanceToClosestRecord {
+    const sourceKeys = new Set(sourceRecords.map(record => this.recordKey(record, fields)));
+    const exactMatches = syntheticRecords.filter(record => sourceKeys.has(this.recordKey(record, fields))).length;
+
+    const shuffled = this.sample(sourceRecords, MAX_SOURCE_SAMPLE + MAX_HOLDOUT);
+    const holdoutSize = Math.min(MAX_HOLDOUT, Math.floor(shuffled.length * 0.2));
+    const holdout = shuffled.slice(0, holdoutSize);
+    const reference = shuffled.slice(holdoutSize, holdoutSize + MAX_SOURCE_SAMPLE);
+    const syntheticSample = this.sample(syntheticRecords, MAX_SYNTHETIC_SAMPLE);
+
+    if (fields.length === 0 || reference.length === 0 || holdout.length === 0) {
+      warnings.push('Too few comparable source records to measure distance to closest record');
+      return {
+        sampleSize: 0,
+        holdoutSize: 0,
+        syntheticMedian: 0,
+        holdoutMedian: 0,
+        holdoutFifthPercentile: 0,
+        closerThanHoldout: 0,
+        exactMatches
+      };
+    }
+
+    const closest = (record: DataRecord) =>
+      reference.reduce((best, candidate) => Math.min(best, this.gowerDistance(record, candidate, fields)), Infinity);
+    const syntheticDistances = syntheticSample.map(closest).sort((a, b) => a - b);
+    const holdoutDistances = holdout.map(closest).sort((a, b) => a - b);
+    const fifthPercentile = this.quantile(holdoutDistances, 0.05);
+
+    return {
+      sampleSize: syntheticSample.length,
+      holdoutSize: holdout.length,
+      syntheticMedian: this.round(this.quantile(syntheticDistances, 0.5)),
+      holdoutMedian: this.round(this.quantile(holdoutDistances, 0.5)),
+      holdoutFifthPercentile: this.round(fifthPercentile),
+      closerThanHoldout: syntheticDistances.filter(distance => distance < fifthPercentile).length,
+      exactMatches
+    };
+  }
+
+  private static gowerDistance(a: DataRecord, b: DataRecord, fields: ComparedField[]): number {
+    let total = 0;
+    for (const field of fields) {
+      const left = a[field.name];
+      const right = b[field.name];
+      const leftMissing = left === null || left === undefined || left === '';
+      const rightMissing = right === null || right === undefined || right === '';
+      if (leftMissing || rightMissing) {
+        total += leftMissing === rightMissing ? 0 : 1;
+      } else if (field.type === 'numeric') {
+        const range = field.max - field.min;
+        const difference = Math.abs((this.toNumber(left) ?? 0) - (this.toNumber(right) ?? 0));
+        total += range > 0 ? Math.min(difference / range, 1) : difference === 0 ? 0 : 1;
+      } else {
+        total += String(left) === String(right) ? 0 : 1;
+      }
+    }
+    return total / fields.length;
+  }
+
+  private static histogram(values: number[], field: ComparedField): Record<string, number> {
+    const width = (field.max - field.min) / HISTOGRAM_BINS;
+    const labels = Array.from({ length: HISTOGRAM_BINS }, (_, index) => {
+      const lower = field.min + index * width;
+      return `${this.formatBound(lower)}-${this.formatBound(lower + width)}`;
+    });
+    const counts = new Array(HISTOGRAM_BINS).fill(0);
+    for (const value of values) {
+      counts[this.binIndex(value, field)]++;
+    }
+    return Object.fromEntries(labels.map((label, index) => [label, this.round(values.length > 0 ? counts[index] / values.length : 0)]));
+  }
+
+  private static categoryShares(values: unknown[], field: ComparedField): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const value of values) {
+      const category = this.categoryOf(value, field);
+      counts[category] = (counts[category] || 0) + 1;
+    }
+    return Object.fromEntries(Object.entries(counts).map(([category, count]) => [category, this.round(count / values.length)]));
+  }
+
+  private static bucket(value: unknown, field: ComparedField): string {
+    if (value === null || value === undefined || value === '') return '(missing)';
+    if (field.type === 'categorical') return this.categoryOf(value, field);
+    const numeric = this.toNumber(value);
+    return numeric === null ? '(invalid)' : String(this.binIndex(numeric, field));
+  }
+
+  private static binIndex(value: number, field: ComparedField): number {
+    const range = field.max - field.min;
+    if (range <= 0) return 0;
+    return Math.min(HISTOGRAM_BINS - 1, Math.max(0, Math.floor((value - field.min) / range * HISTOGRAM_BINS)));
+  }
+
+  private static categoryOf(value: unknown, field: ComparedField): string {
+    const category = String(value);
+    return field.categories.includes(category) ? category : OTHER_CATEGORY;
+  }
+
+  /**
+   * Two-sample Kolmogorov-Smirnov statistic: the largest gap between the two
+   * empirical distribution functions
+   */
+  private static kolmogorovSmirnov(a: number[], b: number[]): number {
+    if (a.length === 0 || b.length === 0) return a.length === b.length ? 0 : 1;
+    const x = [...a].sort((p, q) => p - q);
+    const y = [...b].sort((p, q) => p - q);
+    let i = 0;
+    let j = 0;
+    let statistic = 0;
+    while (i < x.length && j < y.length) {
+      const value = Math.min(x[i], y[j]);
+      while (i < x.length && x[i] === value) i++;
+      while (j < y.length && y[j] === value) j++;
+      statistic = Math.max(statistic, Math.abs(i / x.length - j / y.length));
+    }
+    return statistic;
+  }
+
+  /**
+   * Asymptotic p-value of the Kolmogorov distribution
+   */
+  private static kolmogorovSmirnovPValue(statistic: number, n: number, m: number): number {
+    if (n === 0 || m === 0) return 0;
+    const effective = Math.sqrt((n * m) / (n + m));
+    const lambda = (effective + 0.12 + 0.11 / effective) * statistic;
+    if (lambda < 0.2) return 1;
+
+    let sum = 0;
+    for (let k = 1; k <= 100; k++) {
+      const term = Math.exp(-2 * k * k * lambda * lambda);
+      sum += (k % 2 === 1 ? 1 : -1) * term;
+      if (term < 1e-10) break;
+    }
+    return Math.min(1, Math.max(0, 2 * sum));
+  }
+
+  /**
+   * Chi-square goodness of fit of the synthetic categories against the source
+   * shares, smoothed so a category missing on one side does not divide by zero
+   */
+  private static chiSquarePValue(sourceValues: unknown[], syntheticValues: unknown[], field: ComparedField): number {
+    const categories = Array.from(new Set([...field.categories, OTHER_CATEGORY]));
+    if (categories.length < 2 || syntheticValues.length === 0) return 1;
+
+    const sourceCounts = new Map<string, number>();
+    const syntheticCounts = new Map<string, number>();
+    sourceValues.forEach(value => {
+      const category = this.categoryOf(value, field);
+      sourceCounts.set(category, (sourceCounts.get(category) || 0) + 1);
+    });
+    syntheticValues.forEach(value => {
+      const category = this.categoryOf(value, field);
+      syntheticCounts.set(category, (syntheticCounts.get(category) || 0) + 1);
+    });
+
+    const smoothedTotal = sourceValues.length + 0.5 * categories.length;
+    let statistic = 0;
+    for (const category of categories) {
+      const expected = ((sourceCounts.get(category) || 0) + 0.5) / smoothedTotal * syntheticValues.length;
+      const observed = syntheticCounts.get(category) || 0;
+      statistic += (observed - expected) ** 2 / expected;
+    }
+
+    return this.upperIncompleteGamma((categories.length - 1) / 2, statistic / 2);
+  }
+
+  /**
+   * Regularized upper incomplete gamma function Q(a, x), by series expansion
+   * below a + 1 and continued fraction above
+   */
+  private static upperIncompleteGamma(a: number, x: number): number {
+    if (x <= 0) return 1;
+    const logPrefix = -x + a * Math.log(x) - this.logGamma(a);
+
+    if (x < a + 1) {
+      let term = 1 / a;
+      let sum = term;
+      for (let n = 1; n < 500; n++) {
+        term *= x / (a + n);
+        sum += term;
+        if (Math.abs(term) < Math.abs(sum) * 1e-12) break;
+      }
+      return Math.min(1, Math.max(0, 1 - sum * Math.exp(logPrefix)));
+    }
+
+    const tiny = 1e-300;
+    let b = x + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let n = 1; n < 500; n++) {
+      const an = -n * (n - a);
+      b += 2;
+      d = an * d + b;
+      if (Math.abs(d) < tiny) d = tiny;
+      c = b + an / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      d = 1 / d;
+      const delta = d * c;
+      h *= delta;
+      if (Math.abs(delta - 1) < 1e-12) break;
+    }
+    return Math.min(1, Math.max(0, Math.exp(logPrefix) * h));
+  }
+
+  private static logGamma(value: number): number {
+    const coefficients = [
+      76.18009172947146, -86.50532032941677, 24.01409824083091,
+      -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+    ];
+    let y = value;
+    const tmp = value + 5.5 - (value + 0.5) * Math.log(value + 5.5);
+    let series = 1.000000000190015;
+    for (const coefficient of coefficients) {
+      series += coefficient / ++y;
+    }
+    return -tmp + Math.log(2.5066282746310005 * series / value);
+  }
+
+  private static normalizedMutualInformation(x: string[], y: string[]): number {
+    const n = x.length;
+    if (n === 0) return 0;
+
+    const joint = new Map<string, number>();
+    const marginalX = new Map<string, number>();
+    const marginalY = new Map<string, number>();
+    for (let i = 0; i < n; i++) {
+      const key = `${x[i]}\u0000${y[i]}`;
+      joint.set(key, (joint.get(key) || 0) + 1);
+      marginalX.set(x[i], (marginalX.get(x[i]) || 0) + 1);
+      marginalY.set(y[i], (marginalY.get(y[i]) || 0) + 1);
+    }
+
+    const entropy = (counts: Map<string, number>) =>
+      -Array.from(counts.values()).reduce((sum, count) => sum + (count / n) * Math.log(count / n), 0);
+    const entropyX = entropy(marginalX);
+    const entropyY = entropy(marginalY);
+    if (entropyX === 0 || entropyY === 0) return 0;
+
+    let information = 0;
+    for (const [key, count] of joint) {
+      const [a, b] = key.split('\u0000');
+      information += (count / n) * Math.log((count * n) / (marginalX.get(a)! * marginalY.get(b)!));
+    }
+    return Math.min(1, Math.max(0, information / Math.sqrt(entropyX * entropyY)));
+  }
+
+  private static recordKey(record: DataRecord, fields: ComparedField[]): string {
+    return JSON.stringify(fields.map(field => {
+      const value = record[field.name];
+      if (value === null || value === undefined || value === '') return null;
+      return field.type === 'numeric' ? this.toNumber(value) : String(value);
+    }));
+  }
+
+  private static presentValues(records: DataRecord[], field: string): unknown[] {
+    return records.map(record => record[field]).filter(value => value !== null && value !== undefined && value !== '');
+  }
+
+  private static countCategories(values: unknown[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(String(value), (counts.get(String(value)) || 0) + 1));
+    return counts;
+  }
+
+  private static toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'string' && value.trim() !== '') {
+      const numeric = Number(value);
+      return Number.isFinite(numeric) ? numeric : null;
+    }
+    return null;
+  }
+
+  /**
+   * Random sample without replacement, in random order
+   */
+  private static sample<T>(items: T[], size: number): T[] {
+    const copy = [...items];
+    const count = Math.min(size, copy.length);
+    for (let i = 0; i < count; i++) {
+      const j = i + Math.floor(Math.random() * (copy.length - i));
+      [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy.slice(0, count);
+  }
+
+  private static quantile(sorted: number[], q: number): number {
+    if (sorted.length === 0) return 0;
+    return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  }
+
+  private static mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+
+  private static formatBound(value: number): string {
+    return String(parseFloat(value.toPrecision(6)));
+  }
+}
@@ -2,6 +2,18 @@ import { DataSourceTableEntity } from '@/entities/DataSourceTableEntity';
 import { getDatabase } from '@/database/connection';
 import { logger } from '@/utils/logger';
 import { extractFieldsFromData } from '@/utils/fieldExtractor';
+import { RecordStoreService, StoredRecordSource, StoredRecords } from './recordStoreService';
+
+export interface DetectedTable {
+  tableName: string;
+  tableType: string;
+  recordCount: number;
+  schemaInfo: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+  metadata?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
+}
+
+// Column detection looks at this many rows of a table
+const COLUMN_SAMPLE_SIZE = 100;
 
 export class TableMetadataService {
   /**
@@ -128,41 +140,35 @@ export class TableMetadataService {
    * Detect tables in transformed data
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  static async detectTablesInData(transformedData: any): Promise<Array<{
-    tableName: string;
-    tableType: string;
-    recordCount: number;
-    schemaInfo: any; // eslint-disable-line @typescript-eslint/no-explicit-any
-    metadata?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
-  }>> {
-    const tables: Array<{
-      tableName: string;
-      tableType: string;
-      recordCount: number;
-      schemaInfo: any; // eslint-disable-line @typescript-eslint/no-explicit-any
-      metadata?: any; // eslint-disable-line @typescript-eslint/no-explicit-any
-    }> = [];
+  static async detectTablesInData(transformedData: any): Promise<DetectedTable[]> {
+    const tables: DetectedTable[] = [];
     
 
     // Check if data has multiple sheets (Excel-like structure)
     if (transformedData.sheets && Array.isArray(transformedData.sheets)) {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       transformedData.sheets.forEach((sheet: any, index: number) => {
-        // Extract columns from sheet data
+        // Extract columns from sheet data; stored catalogs list typed columns instead of records
         const columns = sheet.records && sheet.records.length > 0
           ? extractFieldsFromData(sheet.records).map(field => ({
               name: field.name,
               type: field.type,
               isPII: field.isPII
             }))
-          : [];
-          
+          : (sheet.columns || []).map((column: { name: string; type: string }) => ({
+              name: column.name,
+              type: column.type,
+              isPII: false
+            }));
+
         tables.push({
           tableName: sheet.name || `Sheet ${index + 1}`,
-          tableType: 'sheet',
-          recordCount: sheet.records?.length || 0,
+          tableType: sheet.type || 'sheet',
+          recordCount: sheet.recordCount ?? sheet.records?.length ?? 0,
           schemaInfo: sheet.schema || null,
-          metadata: { columns }
+          metadata: sheet.recordStart !== undefined
+            ? { columns, recordStart: sheet.recordStart }
+            : { columns }
         });
       });
     }
@@ -191,23 +197,7 @@ export class TableMetadataService {
     // Check for nested relational data
     else if (transformedData.records && Array.isArray(transformedData.records)) {
       // Analyze first few records to detect nested structures
-      const nestedFields = new Set<string>();
-      const sampleRecords = transformedData.records.slice(0, 10);
-      
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      sampleRecords.forEach((record: any) => {
-        // For UnifiedDataRecord format, check the data property
-        const dataToCheck = record.data || record;
-        
-        Object.entries(dataToCheck).forEach(([key, value]) => {
-          if (Array.isArray(value) && value.length > 0) {
-            const firstItem = value[0];
-            if (typeof firstItem === 'object' && firstItem !== null) {
-              nestedFields.add(key);
-            }
-          }
-        });
-      });
+      const nestedFields = this.findNestedFields(transformedData.records);
       
       // Create a table entry for each nested field
       nestedFields.forEach(fieldName => {
@@ -216,23 +206,7 @@ export class TableMetadataService {
           const data = r.data || r;
           return data[fieldName] || [];
         });
-        
-        // Extract columns from nested field data
-        const columns = fieldRecords.length > 0
-          ? extractFieldsFromData(fieldRecords).map(field => ({
-              name: field.name,
-              type: field.type,
-              isPII: field.isPII
-            }))
-          : [];
-        
-        tables.push({
-          tableName: fieldName,
-          tableType: 'nested',
-          recordCount: fieldRecords.length,
-          schemaInfo: null,
-          metadata: { columns }
-        });
+        tables.push(this.nestedTable(fieldName, fieldRecords.length, fieldRecords));
       });
     }
     
@@ -259,7 +233,8 @@ export class TableMetadataService {
       tables.push({
         tableName: 'Main',
         tableType: 'single',
-        recordCount: transformedData.records.length || 0,
+        // Records may be a sample of a stored catalog, so prefer its total
+        recordCount: transformedData.totalRecords || transformedData.records.length || 0,
         schemaInfo: transformedData.schema || null,
         metadata: { columns }
       });
@@ -268,6 +243,69 @@ export class TableMetadataService {
     return tables;
   }
 
+  /**
+   * Detect tables in stored records, reading them one segment at a time. Nested tables are found in
+   * the first records and counted over all of them; their columns come from their first items.
+   */
+  static async detectStoredTables(stored: StoredRecords): Promise<DetectedTable[]> {
+    const { catalog } = stored;
+    if (catalog.sheets?.length) {
+      return this.detectTablesInData(catalog);
+    }
+
+    const nested = new Map<string, { count: number; sample: unknown[] }>();
+    let first = true;
+    for await (const batch of stored.batches()) {
+      if (first) {
+        this.findNestedFields(batch).forEach(field => nested.set(field, { count: 0, sample: [] }));
+        first = false;
+        if (nested.size === 0) break;
+      }
+      for (const record of batch) {
+        nested.forEach((table, field) => {
+          const items = record.data[field];
+          if (!Array.isArray(items)) return;
+          table.count += items.length;
+          if (table.sample.length < COLUMN_SAMPLE_SIZE) {
+            table.sample.push(...items.slice(0, COLUMN_SAMPLE_SIZE - table.sample.length));
+          }
+        });
+      }
+    }
+
+    if (nested.size === 0) {
+      // A single table: its columns come from the catalog schema
+      return this.detectTablesInData(catalog);
+    }
+    return Array.from(nested, ([field, table]) => this.nestedTable(field, table.count, table.sample));
+  }
+
+  /**
+   * Up to limit rows of a table, reading only the stored records they come from
+   */
+  static async sampleTableRecords(
+    source: StoredRecordSource,
+    table: Pick<DataSourceTableEntity, 'tableName' | 'tableType'>,
+    limit: number = COLUMN_SAMPLE_SIZE
+  ): Promise<unknown[]> {
+    const catalog = await RecordStoreService.loadCatalog(source, { limit });
+    if (!catalog) {
+      return [];
+    }
+
+    const sheet = catalog.sheets?.find(candidate => candidate.name === table.tableName);
+    if (sheet) {
+      const rows = await RecordStoreService.loadCatalog(source, { offset: sheet.recordStart, limit: Math.min(limit, sheet.recordCount) });
+      return rows?.records.map(record => record.data) ?? [];
+    }
+    if (table.tableType === 'nested') {
+      return catalog.records
+        .flatMap(record => record.data[table.tableName] ?? [])
+        .slice(0, limit);
+    }
+    return catalog.records.map(record => record.data);
+  }
+
   static async getAllTables(): Promise<DataSourceTableEntity[]> {
     const database = await getDatabase();
     const repository = database.getRepository(DataSourceTableEntity);
@@ -276,4 +314,45 @@ export class TableMetadataService {
       order: { dataSourceId: 'ASC', tableName: 'ASC' }
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Fields of the first records that hold lists of objects
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private static findNestedFields(records: any[]): Set<string> {
+    const nestedFields = new Set<string>();
+    records.slice(0, 10).forEach(record => {
+      // For UnifiedDataRecord format, check the data property
+      const dataToCheck = record.data || record;
+
+      Object.entries(dataToCheck).forEach(([key, value]) => {
+        if (Array.isArray(value) && value.length > 0) {
+          const firstItem = value[0];
+          if (typeof firstItem === 'object' && firstItem !== null) {
+            nestedFields.add(key);
+          }
+        }
+      });
+    });
+    return nestedFields;
+  }
+
+  private static nestedTable(fieldName: string, recordCount: number, fieldRecords: unknown[]): DetectedTable {
+    // Extract columns from nested field data
+    const columns = fieldRecords.length > 0
+      ? extractFieldsFromData(fieldRecords).map(field => ({
+          name: field.name,
+          type: field.type,
+          isPII: field.isPII
+        }))
+      : [];
+
+    return {
+      tableName: fieldName,
+      tableType: 'nested',
+      recordCount,
+      schemaInfo: null,
+      metadata: { columns }
+    };
+  }
+}
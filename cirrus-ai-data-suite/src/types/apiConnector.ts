@@ -1,17 +1,19 @@
 // API connector types and interfaces
 
+export type ApiType = 'rest' | 'graphql' | 'soap' | 'webhook';
 export type ApiAuthType = 'none' | 'api-key' | 'bearer' | 'basic' | 'oauth2';
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 
 export interface ApiConnection {
   id: string;
   name: string;
+  apiType?: ApiType; // Default: rest
   endpoint: string;
   method: HttpMethod;
   authType: ApiAuthType;
   authConfig?: ApiAuthConfig;
   headers?: Record<string, string>;
-  requestBody?: unknown;
+  requestBody?: unknown; // GraphQL connections: { query, variables }
   paginationConfig?: PaginationConfig;
   rateLimit?: number; // requests per minute
   timeout?: number; // milliseconds
@@ -42,14 +44,16 @@ export interface ApiAuthConfig {
   username?: string;
   password?: string;
   
-  // OAuth2
+  // OAuth2: tokens come from tokenUrl via the refresh-token grant when there is a refresh token,
+  // the client-credentials grant otherwise
   clientId?: string;
   clientSecret?: string;
+  clientAuthMethod?: 'basic' | 'body'; // How the client authenticates to the token URL, default HTTP Basic
   tokenUrl?: string;
   scope?: string;
   accessToken?: string;
   refreshToken?: string;
-  expiresAt?: Date;
+  expiresAt?: Date | string; // A string once read back from storage
 }
 
 export interface PaginationConfig {
@@ -65,7 +69,7 @@ export interface PaginationConfig {
   pageSizeParam?: string;
   startPage?: number;
   
-  // Cursor-based pagination
+  // Cursor-based pagination; for GraphQL, the variable that receives pageInfo.endCursor (default: after)
   cursorParam?: string;
   cursorPath?: string; // JSON path to cursor in response
   
@@ -84,6 +88,20 @@ export interface ResponseMapping {
   transformations?: DataTransformation[];
 }
 
+// Request body of GraphQL connections
+export interface GraphQLRequest {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+// A list in the response of a GraphQL query that can be used as ResponseMapping.dataPath
+export interface GraphQLDataPathSuggestion {
+  dataPath: string; // e.g. "data.customers.nodes"
+  typeName: string; // GraphQL type of the records
+  paginated: boolean; // True for Relay connections whose pages the query can follow
+}
+
 export interface DataTransformation {
   type: 'rename' | 'extract' | 'flatten' | 'filter' | 'map';
   config: Record<string, unknown>;
@@ -142,4 +160,5 @@ export interface ApiConnectorOptions {
   timeout?: number;
   rateLimitPerMinute?: number;
   userAgent?: string;
+  onTokenRefresh?: (authConfig: ApiAuthConfig) => Promise<void>; // Called with the new tokens of OAuth2 connections
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+// Authentication and Authorization Types
+
+export type UserRole = 'viewer' | 'analyst' | 'data_steward' | 'admin';
+
+// Roles that can be granted on a single data source
+export type DataSourceRole = Exclude<UserRole, 'admin'>;
+
+export type Permission =
+  | 'data_sources:write'    // create, edit and transform data sources
+  | 'data_sources:delete'
+  | 'data_sources:share'    // grant roles on a data source
+  | 'patterns:write'        // create, edit and delete PII patterns
+  | 'remediation:create'    // create and run remediation jobs
+  | 'remediation:approve'   // apply or reject remediation actions and review assigned jobs
+  | 'pseudonyms:reidentify' // reverse pseudonymized values back to the originals
+  | 'users:manage';
+
+export interface User {
+  id: string;
+  username: string;
+  displayName?: string;
+  role: UserRole;
+  active: boolean;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The identity carried in a session token and forwarded to API routes
+export interface SessionUser {
+  id: string;
+  username: string;
+  displayName?: string;
+}
+
+export interface SessionTokenPayload {
+  sub: string;
+  username: string;
+  name?: string;
+  iat: number;
+  exp: number;
+}
+
+export interface DataSourcePermission {
+  id: string;
+  dataSourceId: string;
+  userId: string;
+  username?: string;
+  role: DataSourceRole;
+  grantedBy: string;
+  createdAt: Date;
+}
+
+// What the signed-in user may do, as returned by GET /api/auth/me
+export interface CurrentUser extends SessionUser {
+  role: UserRole;
+  dataSourceRoles: Record<string, DataSourceRole>;
+}
@@ -0,0 +1,40 @@
+// Classification and dissemination control markings
+
+export type ClassificationLevel =
+  | 'UNCLASSIFIED'
+  | 'CUI'
+  | 'CONFIDENTIAL'
+  | 'SECRET'
+  | 'TOP SECRET'
+  | 'TOP SECRET//SCI';
+
+// Dissemination Control Markings per DoDM 5200.01
+export type DisseminationControl =
+  | 'NOFORN'           // Not Releasable to Foreign Nationals
+  | 'REL TO USA'       // Releasable to USA only
+  | 'REL TO USA, FVEY' // Five Eyes
+  | 'REL TO USA, NATO' // NATO
+  | 'FOUO'             // For Official Use Only
+  | 'LES'              // Law Enforcement Sensitive
+  | 'ORCON'            // Originator Controlled
+  | 'PROPIN'           // Proprietary Information
+  | 'RELIDO'           // Releasable by Information Disclosure Official
+  | 'EXDIS'            // Exclusive Distribution
+  | 'NODIS'            // No Distribution
+  | 'CLOSE HOLD'       // Close Hold
+  | 'TK'               // Talent Keyhole
+  | 'HCS'              // HUMINT Control System
+  | 'SI'               // Special Intelligence
+  | 'GAMMA'            // GAMMA
+  | 'CNWDI';           // Critical Nuclear Weapon Design Information
+
+export interface ClassificationMarking {
+  level: ClassificationLevel;
+  controls: DisseminationControl[];
+}
+
+export interface DeploymentCheck {
+  allowed: boolean;
+  marking?: string;
+  reason?: string;
+}
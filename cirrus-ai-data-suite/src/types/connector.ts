@@ -1,6 +1,6 @@
 // Database connector types and interfaces
 
-export type DatabaseType = 'postgresql' | 'mysql' | 'mongodb' | 'mssql' | 'oracle' | 'db2' | 'snowflake' | 'redshift' | 'bigquery';
+export type DatabaseType = 'postgresql' | 'mysql' | 'mongodb' | 'mssql' | 'sqlite' | 'duckdb' | 'oracle' | 'db2' | 'snowflake' | 'redshift' | 'bigquery';
 
 export interface DatabaseConnection {
   id: string;
@@ -97,6 +97,18 @@ export interface QueryResult {
   executionTime?: number;
 }
 
+// Query against a document database, sent as JSON in place of SQL.
+// Either a find (filter/projection/sort) or an aggregation pipeline.
+export interface MongoQuery {
+  collection: string;
+  filter?: Record<string, unknown>;
+  projection?: Record<string, unknown>;
+  sort?: Record<string, 1 | -1>;
+  pipeline?: Record<string, unknown>[];
+  skip?: number;
+  limit?: number;
+}
+
 export interface DatabaseConnectorOptions {
   maxRowsPreview?: number;
   timeout?: number;
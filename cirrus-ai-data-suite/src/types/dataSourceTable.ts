@@ -21,6 +21,9 @@ export interface DataSourceTableProps {
   onAskAI?: (source: DataSource) => void;
   refreshingSource?: string | null;
   initialExpandedRow?: string | null;
+  // Hide edit and delete actions the signed-in user is not allowed to perform
+  canEdit?: (source: DataSource) => boolean;
+  canDelete?: (source: DataSource) => boolean;
 }
 
 export interface TransformedDataPreviewProps {
@@ -24,6 +24,9 @@ export interface DataSource {
   // Keywords for query routing
   aiKeywords?: string; // JSON string array of keywords
   keywordsGeneratedAt?: Date;
+
+  // Classification marking in banner form, e.g. SECRET//NOFORN
+  classification?: string | null;
 }
 
 export interface FileData {
@@ -31,6 +34,17 @@ export interface FileData {
   type: string;
   size: number;
   content?: string;
+  storageKey?: string;
+  delimiter?: string; // CSV delimiter; detected when absent
+  encoding?: string; // Text encoding, e.g. utf-8, utf-16le, windows-1252; detected when absent
+  contentEncoding?: 'base64'; // Inline content of binary files (Excel, Parquet) until it is stored
+}
+
+// Object of a bucket or directory copied into storage by the last sync
+export interface SyncedObject {
+  version: string; // ETag, or modification time and size when the source has no ETag
+  storageKey: string;
+  size: number;
 }
 
 export interface DataSourceConfig {
@@ -48,20 +62,27 @@ export interface DataSourceConfig {
   description?: string;
   
   // API configs
-  endpoint?: string;
+  endpoint?: string; // Also the endpoint of S3-compatible storage such as MinIO
   apiKey?: string;
   headers?: Record<string, string>;
   
   // Cloud storage configs
+  provider?: 's3' | 'local' | 'azure' | 'gcp';
   bucket?: string;
   region?: string;
   accessKeyId?: string;
   secretAccessKey?: string;
+  prefix?: string; // Folder the matched objects are read from
+  autoSync?: boolean;
+  syncInterval?: number; // Minutes between scheduled syncs
+  lastSyncAt?: string;
+  syncError?: string; // Message of the last failed sync
+  syncedObjects?: Record<string, SyncedObject>; // By object key
   
   // Filesystem configs
   path?: string;
   recursive?: boolean;
-  filePattern?: string;
+  filePattern?: string; // Glob of the objects a cloud source imports, relative to its prefix
   files?: FileData[];
 }
 
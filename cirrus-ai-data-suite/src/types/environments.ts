@@ -1,8 +1,16 @@
+import type { DisseminationControl } from './classification';
+
+// Who can reach an environment: US persons only, or also Five Eyes or NATO partners
+export type EnvironmentAudience = 'USA' | 'FVEY' | 'NATO';
+
 export interface Environment {
   id: string;
   name: string;
   type: 'production' | 'uat' | 'test' | 'development';
   securityLevel: 'top-secret' | 'secret' | 'confidential' | 'unclassified';
+  audience?: EnvironmentAudience;
+  // Handling controls (FOUO, ORCON, SCI compartments, ...) the environment is approved to hold
+  accreditedControls?: DisseminationControl[];
   deploymentTarget: DeploymentTarget;
   dataPolicy: DataPolicy;
   status: 'active' | 'syncing' | 'error' | 'inactive';
@@ -119,11 +119,81 @@ export interface PipelineExecution {
   startedAt: Date;
   completedAt?: Date;
   triggeredBy: TriggerType;
+  pipelineVersion?: number; // saved version that ran; unset when unsaved changes were run
   logs: ExecutionLog[];
   metrics: ExecutionMetrics;
+  outputSamples?: Record<string, NodeOutputSample[]>; // keyed by node id
   error?: string;
 }
 
+export interface PipelineExecutionPage {
+  executions: PipelineExecution[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalPages: number;
+    totalRecords: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+}
+
+// Immutable snapshot of a pipeline definition, created on every save
+export interface PipelineVersion {
+  pipelineId: string;
+  version: number;
+  name: string;
+  description: string;
+  nodes: PipelineNode[];
+  edges: PipelineEdge[];
+  triggers: PipelineTrigger[];
+  schedule?: PipelineSchedule;
+  tags: string[];
+  createdAt: Date;
+  createdBy: string;
+  restoredFrom?: number; // set when the version was created by a rollback
+}
+
+export interface PipelineVersionSummary {
+  pipelineId: string;
+  version: number;
+  name: string;
+  nodeCount: number;
+  edgeCount: number;
+  createdAt: Date;
+  createdBy: string;
+  restoredFrom?: number;
+}
+
+export interface PipelineFieldChange {
+  path: string; // e.g. "config.joinKeys" for nodes, "schedule" for pipeline settings
+  before: unknown;
+  after: unknown;
+}
+
+export interface PipelineNodeChange {
+  nodeId: string;
+  label: string;
+  templateName?: string;
+  changes: PipelineFieldChange[]; // empty for added and removed nodes
+}
+
+export interface PipelineDiff {
+  fromVersion?: number;
+  toVersion?: number;
+  nodes: {
+    added: PipelineNodeChange[];
+    removed: PipelineNodeChange[];
+    modified: PipelineNodeChange[];
+  };
+  edges: {
+    added: PipelineEdge[];
+    removed: PipelineEdge[];
+  };
+  settings: PipelineFieldChange[];
+  hasChanges: boolean;
+}
+
 export type ExecutionStatus = 
   | 'queued'
   | 'running'
@@ -151,6 +221,35 @@ export interface ExecutionMetrics {
     memory: number;
     disk: number;
   };
+  nodeMetrics?: Record<string, NodeExecutionMetrics>; // keyed by node id
+}
+
+export type NodeExecutionStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'skipped';
+
+export interface NodeExecutionMetrics {
+  nodeId: string;
+  label: string;
+  status: NodeExecutionStatus;
+  startedAt?: Date;
+  completedAt?: Date;
+  duration: number; // milliseconds
+  recordsIn: number;
+  recordsOut: number;
+  bytesIn: number;
+  bytesOut: number;
+  error?: string;
+}
+
+export interface NodeOutputSample {
+  port: string;
+  recordCount: number;
+  records: Record<string, unknown>[]; // first few records produced on the port
+  report?: Record<string, unknown>;
 }
 
 // Predefined Node Categories and Templates
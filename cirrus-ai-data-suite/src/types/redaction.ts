@@ -0,0 +1,70 @@
+import type { RedactionStyle } from '@/services/patternTestingService';
+
+export type RedactionJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface RedactionJobOptions {
+  style: RedactionStyle;
+  outputName: string;
+  llmPass: boolean; // Ask the redaction LLM for anything the patterns missed
+}
+
+export interface CreateRedactionJobRequest {
+  dataSourceId: string;
+  patternIds: string[];
+  style?: RedactionStyle;
+  outputName?: string;
+  llmPass?: boolean;
+}
+
+// Redaction counts for a finished job. Fields are dotted paths into the record data.
+export interface RedactionReport {
+  totalRecords: number;
+  recordsRedacted: number;
+  totalRedactions: number;
+  byField: Record<string, number>;
+  byPattern: Record<string, number>;
+  byFieldAndPattern: Record<string, Record<string, number>>;
+  llm?: {
+    recordsReviewed: number;
+    redactions: number;
+    failures: number;
+  };
+}
+
+export type RedactableDocumentType = 'pdf' | 'docx';
+
+export type DocumentRedactionStatus = 'review' | 'redacted';
+
+export type MatchDecision = 'pending' | 'accepted' | 'rejected';
+
+// Where a match was found: a PDF page, or a paragraph in one part of a Word document
+export type DocumentLocation =
+  | { page: number }
+  | { part: string; paragraph: number };
+
+export interface DocumentRedactionMatch {
+  id: string;
+  pattern: string;
+  value: string;
+  location: DocumentLocation;
+  start: number; // Character offsets into the page or paragraph text
+  end: number;
+  context: string; // Surrounding text shown to the reviewer
+  boxes?: Array<{ x: number; y: number; width: number; height: number }>; // PDF user space
+  decision: MatchDecision;
+}
+
+export interface DocumentRedaction {
+  id: string;
+  fileName: string;
+  documentType: RedactableDocumentType;
+  fileSize: number;
+  patternIds: string[];
+  style: RedactionStyle;
+  matches: DocumentRedactionMatch[];
+  status: DocumentRedactionStatus;
+  createdBy?: string;
+  reviewedBy?: string;
+  createdAt: string;
+  redactedAt?: string;
+}
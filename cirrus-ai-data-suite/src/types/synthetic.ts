@@ -1,8 +1,10 @@
+import type { ExportFormat } from '@/services/datasetExportService';
+
 export interface SyntheticDataConfig {
   id: string;
   name: string;
   sourceDataset: string;
-  outputFormat: 'json' | 'csv' | 'parquet' | 'sql';
+  outputFormat: ExportFormat;
   privacyLevel: 'low' | 'medium' | 'high' | 'maximum';
   preserveStatistics: boolean;
   preserveRelationships: boolean;
@@ -18,6 +20,11 @@ export interface GenerationConfig {
   kAnonymity?: number;
   lDiversity?: number;
   epsilonDifferentialPrivacy?: number;
+  delta?: number; // Gaussian noise and category thresholding, default 1e-5
+  noiseMechanism?: 'laplace' | 'gaussian';
+  quasiIdentifiers?: string[]; // Detected from field names and types when omitted
+  sensitiveFields?: string[]; // Detected from field names when omitted
+  maxSuppressionRate?: number; // Share of records that may be dropped, default 0.05
   
   // Data transformation rules
   transformationRules: TransformationRule[];
@@ -48,26 +55,75 @@ export interface SyntheticDataJob {
   recordsGenerated: number;
   errorMessage?: string;
   outputFile?: string;
+  privacyReport?: SyntheticPrivacyReport;
+}
+
+// Privacy guarantees achieved by a generation job
+export interface SyntheticPrivacyReport {
+  requested: {
+    kAnonymity?: number;
+    lDiversity?: number;
+    epsilon?: number;
+  };
+  achievedK?: number;
+  achievedL?: number;
+  epsilonSpent?: number;
+  delta?: number;
+  noiseMechanism?: 'laplace' | 'gaussian';
+  quasiIdentifiers: string[];
+  sensitiveFields: string[];
+  generalizationLevels: Record<string, number>;
+  equivalenceClasses?: number;
+  suppressedRecords: number;
+  warnings: string[];
 }
 
+// Fidelity and privacy comparison of a synthetic dataset with its source data
 export interface DataQualityMetrics {
-  originalDataset: string;
+  originalDataset: string; // Source data source id
   syntheticDataset: string;
+  jobId?: string;
+  generatedAt: string;
+  sourceRecordCount: number;
+  syntheticRecordCount: number;
   metrics: {
-    statisticalSimilarity: number;
-    attributeCorrelation: number;
+    statisticalSimilarity: number; // 1 - mean field distance
+    attributeCorrelation: number; // 1 - mean absolute correlation drift / 2
     dataUtility: number;
-    privacyRisk: number;
-    reIdentificationRisk: number;
+    privacyRisk: number; // Share of synthetic records closer to a source record than held-out source records are
+    reIdentificationRisk: number; // Share of synthetic records that copy a source record
   };
   fieldLevelMetrics: FieldMetric[];
+  correlationDrift: CorrelationDrift;
+  distanceToClosestRecord: DistanceToClosestRecord;
+  warnings: string[];
 }
 
 export interface FieldMetric {
   fieldName: string;
-  originalDistribution: Record<string, unknown>;
+  fieldType: 'numeric' | 'categorical';
+  originalDistribution: Record<string, unknown>; // Share of values per bucket or category
   syntheticDistribution: Record<string, unknown>;
-  kolmogorovSmirnovTest: number;
-  chiSquareTest: number;
-  mutualInformation: number;
+  distance: number; // KS statistic for numeric fields, total variation distance for categorical ones
+  kolmogorovSmirnovTest?: number; // p-value
+  chiSquareTest?: number; // p-value
+  mutualInformation: number; // Mean change in normalized mutual information with the other fields
+}
+
+export interface CorrelationDrift {
+  fields: string[];
+  original: number[][];
+  synthetic: number[][];
+  meanAbsoluteDrift: number;
+  maxAbsoluteDrift: number;
+}
+
+export interface DistanceToClosestRecord {
+  sampleSize: number;
+  holdoutSize: number;
+  syntheticMedian: number; // Median distance from a synthetic record to its closest source record
+  holdoutMedian: number; // Same for held-out source records, the baseline for unseen real data
+  holdoutFifthPercentile: number;
+  closerThanHoldout: number; // Sampled synthetic records within the holdout 5th percentile
+  exactMatches: number;
 }
\ No newline at end of file
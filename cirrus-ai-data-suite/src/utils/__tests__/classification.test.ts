@@ -0,0 +1,114 @@
+import {
+  checkDeployment,
+  highWaterMark,
+  isValidMarking,
+  markFileContent,
+  normalizeMarking,
+  parseMarking
+} from '../classification';
+
+describe('classification markings', () => {
+  describe('parseMarking', () => {
+    it('parses levels and dissemination controls', () => {
+      expect(parseMarking('secret//noforn')).toEqual({ level: 'SECRET', controls: ['NOFORN'] });
+      expect(parseMarking('TOP SECRET//SCI//TK')).toEqual({ level: 'TOP SECRET//SCI', controls: ['TK'] });
+    });
+
+    it('rejects unknown levels and controls', () => {
+      expect(() => parseMarking('RESTRICTED')).toThrow('Unknown classification level');
+      expect(() => parseMarking('SECRET//EYES ONLY')).toThrow('Unknown dissemination control');
+    });
+  });
+
+  describe('normalizeMarking', () => {
+    it('writes controls in canonical order', () => {
+      expect(normalizeMarking('SECRET//ORCON//NOFORN')).toBe('SECRET//NOFORN//ORCON');
+    });
+
+    it('clears empty markings', () => {
+      expect(normalizeMarking('')).toBeNull();
+      expect(normalizeMarking(null)).toBeNull();
+    });
+
+    it('validates markings', () => {
+      expect(isValidMarking(undefined)).toBe(true);
+      expect(isValidMarking('CUI')).toBe(true);
+      expect(isValidMarking('SECRET//BOGUS')).toBe(false);
+      expect(isValidMarking(42)).toBe(false);
+    });
+  });
+
+  describe('highWaterMark', () => {
+    it('keeps the highest level and every control', () => {
+      expect(highWaterMark(['CUI//FOUO', 'SECRET//ORCON', undefined])).toBe('SECRET//FOUO//ORCON');
+    });
+
+    it('drops releasability when any input is NOFORN', () => {
+      expect(highWaterMark(['SECRET//REL TO USA, FVEY', 'CONFIDENTIAL//NOFORN'])).toBe('SECRET//NOFORN');
+    });
+
+    it('narrows conflicting releasability to USA', () => {
+      expect(highWaterMark(['SECRET//REL TO USA, FVEY', 'SECRET//REL TO USA, NATO'])).toBe('SECRET//REL TO USA');
+    });
+
+    it('returns undefined when nothing is marked', () => {
+      expect(highWaterMark([undefined, null, ''])).toBeUndefined();
+    });
+  });
+
+  describe('checkDeployment', () => {
+    it('allows unmarked data anywhere', () => {
+      expect(checkDeployment(undefined, undefined).allowed).toBe(true);
+    });
+
+    it('compares the level with the environment limit', () => {
+      expect(checkDeployment('CUI', { securityLevel: 'unclassified' }).allowed).toBe(true);
+      expect(checkDeployment('SECRET//NOFORN', { securityLevel: 'secret', audience: 'USA' }).allowed).toBe(true);
+      expect(checkDeployment('TOP SECRET//SCI', { securityLevel: 'top-secret' }).allowed).toBe(true);
+
+      const blocked = checkDeployment('SECRET//NOFORN', { securityLevel: 'confidential', audience: 'USA' });
+      expect(blocked.allowed).toBe(false);
+      expect(blocked.reason).toContain('limit CONFIDENTIAL');
+    });
+
+    it('only releases data to environments its releasability covers', () => {
+      expect(checkDeployment('SECRET//REL TO USA, FVEY', { securityLevel: 'secret', audience: 'FVEY' }).allowed).toBe(true);
+      expect(checkDeployment('SECRET//REL TO USA, NATO', { securityLevel: 'secret', audience: 'FVEY' }).allowed).toBe(false);
+
+      const noforn = checkDeployment('SECRET//NOFORN', { securityLevel: 'secret', audience: 'NATO' });
+      expect(noforn.allowed).toBe(false);
+      expect(noforn.reason).toContain('open to NATO partners');
+      expect(checkDeployment('SECRET//NOFORN', { securityLevel: 'secret' }).reason).toContain('without a declared audience');
+    });
+
+    it('requires accreditation for other handling controls', () => {
+      expect(checkDeployment('CUI//FOUO', { securityLevel: 'unclassified', accreditedControls: ['FOUO'] }).allowed).toBe(true);
+
+      const blocked = checkDeployment('SECRET//ORCON//PROPIN', { securityLevel: 'secret', accreditedControls: ['ORCON'] });
+      expect(blocked.allowed).toBe(false);
+      expect(blocked.reason).toContain('accredited for PROPIN');
+    });
+
+    it('only allows unclassified data when the environment level is unknown', () => {
+      expect(checkDeployment('UNCLASSIFIED', undefined).allowed).toBe(true);
+      expect(checkDeployment('CUI', undefined).allowed).toBe(false);
+    });
+  });
+
+  describe('markFileContent', () => {
+    it('leaves unmarked content untouched', () => {
+      expect(markFileContent('[]', 'json', undefined)).toBe('[]');
+    });
+
+    it('adds the marking to JSON exports', () => {
+      expect(JSON.parse(markFileContent('[{"a":1}]', 'json', 'CUI'))).toEqual({ classification: 'CUI', records: [{ a: 1 }] });
+      expect(JSON.parse(markFileContent('{"records":[]}', 'json', 'CUI'))).toEqual({ classification: 'CUI', records: [] });
+    });
+
+    it('adds a header line to line-based exports', () => {
+      expect(markFileContent('a,b', 'csv', 'SECRET')).toBe('# CLASSIFICATION: SECRET\na,b');
+      expect(markFileContent('INSERT 1;', 'sql', 'SECRET')).toBe('-- CLASSIFICATION: SECRET\nINSERT 1;');
+      expect(markFileContent('{"a":1}', 'jsonl', 'SECRET')).toBe('{"classification":"SECRET"}\n{"a":1}');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * @jest-environment node
+ */
+import { decryptCredential, encryptCredential, isEncryptedCredential } from '../credentialEncryption';
+
+describe('credentialEncryption', () => {
+  const env = process.env as Record<string, string | undefined>;
+
+  afterEach(() => {
+    delete env.CREDENTIALS_ENCRYPTION_KEY;
+  });
+
+  it('seals credentials with a fresh nonce and opens them again', () => {
+    env.CREDENTIALS_ENCRYPTION_KEY = 'key-one';
+    const secret = JSON.stringify({ clientSecret: 's3cret' });
+    const first = encryptCredential(secret);
+    const second = encryptCredential(secret);
+
+    expect(isEncryptedCredential(first)).toBe(true);
+    expect(first).not.toContain('s3cret');
+    expect(first).not.toBe(second);
+    expect(decryptCredential(first)).toBe(secret);
+  });
+
+  it('passes through values stored before encryption and rejects other keys', () => {
+    expect(decryptCredential('{"apiKey":"plain"}')).toBe('{"apiKey":"plain"}');
+
+    env.CREDENTIALS_ENCRYPTION_KEY = 'key-one';
+    const sealed = encryptCredential('secret');
+    env.CREDENTIALS_ENCRYPTION_KEY = 'key-two';
+    expect(() => decryptCredential(sealed)).toThrow('check CREDENTIALS_ENCRYPTION_KEY');
+  });
+});
@@ -0,0 +1,72 @@
+import { CronExpression } from '../cronExpression';
+
+describe('CronExpression', () => {
+  describe('parse', () => {
+    it('should accept standard expressions and macros', () => {
+      expect(CronExpression.isValid('*/15 * * * *')).toBe(true);
+      expect(CronExpression.isValid('0 9-17 * * MON-FRI')).toBe(true);
+      expect(CronExpression.isValid('0 0 1 JAN,JUL *')).toBe(true);
+      expect(CronExpression.isValid('@daily')).toBe(true);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => CronExpression.parse('* * * *')).toThrow('5 fields');
+      expect(() => CronExpression.parse('60 * * * *')).toThrow('minute');
+      expect(() => CronExpression.parse('* * * * */0')).toThrow('step');
+      expect(() => CronExpression.parse('0 17-9 * * *')).toThrow('range');
+    });
+  });
+
+  describe('matches', () => {
+    it('should match minute, hour and step fields in UTC', () => {
+      const cron = CronExpression.parse('*/15 9 * * *');
+
+      expect(cron.matches(new Date('2025-03-10T09:30:00Z'))).toBe(true);
+      expect(cron.matches(new Date('2025-03-10T09:31:00Z'))).toBe(false);
+      expect(cron.matches(new Date('2025-03-10T10:30:00Z'))).toBe(false);
+    });
+
+    it('should treat 7 as Sunday', () => {
+      const cron = CronExpression.parse('0 0 * * 7');
+
+      expect(cron.matches(new Date('2025-03-09T00:00:00Z'))).toBe(true); // Sunday
+      expect(cron.matches(new Date('2025-03-10T00:00:00Z'))).toBe(false); // Monday
+    });
+
+    it('should match either day field when both are restricted', () => {
+      const cron = CronExpression.parse('0 0 1 * MON');
+
+      expect(cron.matches(new Date('2025-03-01T00:00:00Z'))).toBe(true); // 1st, a Saturday
+      expect(cron.matches(new Date('2025-03-03T00:00:00Z'))).toBe(true); // Monday
+      expect(cron.matches(new Date('2025-03-04T00:00:00Z'))).toBe(false);
+    });
+
+    it('should evaluate in the given timezone', () => {
+      const cron = CronExpression.parse('0 9 * * *');
+
+      expect(cron.matches(new Date('2025-01-15T14:00:00Z'), 'America/New_York')).toBe(true);
+      expect(cron.matches(new Date('2025-01-15T09:00:00Z'), 'America/New_York')).toBe(false);
+    });
+  });
+
+  describe('getLastOccurrenceBetween', () => {
+    it('should return the latest occurrence in the window', () => {
+      const cron = CronExpression.parse('0 * * * *');
+      const occurrence = cron.getLastOccurrenceBetween(
+        new Date('2025-03-10T08:30:00Z'),
+        new Date('2025-03-10T10:15:00Z')
+      );
+
+      expect(occurrence?.toISOString()).toBe('2025-03-10T10:00:00.000Z');
+    });
+
+    it('should exclude the start of the window', () => {
+      const cron = CronExpression.parse('0 * * * *');
+
+      expect(cron.getLastOccurrenceBetween(
+        new Date('2025-03-10T10:00:00Z'),
+        new Date('2025-03-10T10:45:00Z')
+      )).toBeNull();
+    });
+  });
+});
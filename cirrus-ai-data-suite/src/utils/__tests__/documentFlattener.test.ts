@@ -0,0 +1,47 @@
+import { flattenDocument, flattenDocuments } from '../documentFlattener';
+import { ClusterPatternService } from '@/services/clusterPatternService';
+
+describe('documentFlattener', () => {
+  it('uses the same field paths as relational cluster detection', () => {
+    const document = {
+      name: 'Alice',
+      address: { city: 'Boston', geo: { lat: 42.36 } },
+      phones: ['555-0101', '555-0102'],
+      orders: [{ total: 12 }, { total: 30 }]
+    };
+
+    const paths = Object.keys(flattenDocument(document));
+    const clusterPaths = ClusterPatternService.flattenRelationalData([document]).map(field => field.fieldName);
+    expect(paths).toEqual(clusterPaths);
+    expect(paths).toEqual([
+      'name',
+      'address.city',
+      'address.geo.lat',
+      'phones[0]',
+      'phones[1]',
+      'orders[0].total',
+      'orders[1].total'
+    ]);
+  });
+
+  it('keeps nulls, typed values and class instances as leaves', () => {
+    const createdAt = new Date('2024-05-01T00:00:00Z');
+    const flattened = flattenDocument({ active: true, score: 4.5, deletedAt: null, createdAt, empty: {}, none: [] });
+
+    expect(flattened).toEqual({ active: true, score: 4.5, deletedAt: null, createdAt });
+    expect(flattened.createdAt).toBe(createdAt);
+  });
+
+  it('aligns documents with different fields into shared columns', () => {
+    const result = flattenDocuments([
+      { id: 1, profile: { email: 'a@example.com' } },
+      { id: 2, profile: { phone: '555-0101' } }
+    ]);
+
+    expect(result.columns).toEqual(['id', 'profile.email', 'profile.phone']);
+    expect(result.rows).toEqual([
+      [1, 'a@example.com', null],
+      [2, null, '555-0101']
+    ]);
+  });
+});
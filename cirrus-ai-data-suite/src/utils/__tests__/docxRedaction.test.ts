@@ -0,0 +1,57 @@
+/**
+ * @jest-environment node
+ */
+import JSZip from 'jszip';
+import { extractDocxText, redactDocx } from '../docxRedaction';
+
+const run = (text: string, bold = false) =>
+  `<w:r>${bold ? '<w:rPr><w:b/></w:rPr>' : ''}<w:t xml:space="preserve">${text}</w:t></w:r>`;
+
+async function buildDocx(body: string, header?: string): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', '<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>');
+  zip.file('word/document.xml', `<?xml version="1.0"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`);
+  if (header) {
+    zip.file('word/header1.xml', `<?xml version="1.0"?><w:hdr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">${header}</w:hdr>`);
+  }
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+describe('docxRedaction', () => {
+  it('reads paragraphs across split runs, tabs and parts', async () => {
+    const docx = await buildDocx(
+      `<w:p>${run('Patient SSN ')}${run('123-45', true)}${run('-6789')}</w:p><w:p>${run('Tom &amp; Ann')}<w:r><w:tab/></w:r>${run('ok')}</w:p>`,
+      `<w:p>${run('Confidential')}</w:p>`
+    );
+
+    expect(await extractDocxText(docx)).toEqual([
+      { part: 'word/document.xml', index: 0, text: 'Patient SSN 123-45-6789' },
+      { part: 'word/document.xml', index: 1, text: 'Tom & Ann\tok' },
+      { part: 'word/header1.xml', index: 0, text: 'Confidential' }
+    ]);
+  });
+
+  it('replaces a span split across runs and keeps the formatting of the first run', async () => {
+    const docx = await buildDocx(`<w:p>${run('Patient SSN ')}${run('123-45', true)}${run('-6789')}${run(', email a&lt;b@x.org')}</w:p>`);
+
+    const redacted = await redactDocx(docx, [
+      { part: 'word/document.xml', paragraph: 0, start: 12, end: 23, replacement: '[REDACTED]' },
+      { part: 'word/document.xml', paragraph: 0, start: 31, end: 40, replacement: '<E&1>' }
+    ]);
+
+    expect((await extractDocxText(redacted))[0].text).toBe('Patient SSN [REDACTED], email <E&1>');
+    const xml = await (await JSZip.loadAsync(redacted)).file('word/document.xml')!.async('string');
+    expect(xml).toContain('<w:rPr><w:b/></w:rPr><w:t xml:space="preserve">[REDACTED]</w:t>');
+    expect(xml).toContain('&lt;E&amp;1&gt;');
+    expect(xml).not.toContain('6789');
+  });
+
+  it('also redacts deleted text left behind by tracked changes', async () => {
+    const docx = await buildDocx('<w:p><w:del><w:r><w:delText>old 123-45-6789</w:delText></w:r></w:del>' + run(' new') + '</w:p>');
+
+    const redacted = await redactDocx(docx, [{ part: 'word/document.xml', paragraph: 0, start: 4, end: 15, replacement: '***' }]);
+
+    const xml = await (await JSZip.loadAsync(redacted)).file('word/document.xml')!.async('string');
+    expect(xml).toContain('<w:delText xml:space="preserve">old ***</w:delText>');
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * @jest-environment node
+ */
+import { ff1Decrypt, ff1Encrypt, ff1MinLength } from '../ff1';
+
+const toNumerals = (value: string) => value.split('').map(char => parseInt(char, 36));
+const fromNumerals = (numerals: number[]) => numerals.map(numeral => numeral.toString(36)).join('');
+
+// Sample vectors from NIST SP 800-38G
+const AES_128 = Buffer.from('2B7E151628AED2A6ABF7158809CF4F3C', 'hex');
+const AES_256 = Buffer.from('2B7E151628AED2A6ABF7158809CF4F3CEF4359D8D580AA4F7F036D6F04FC6A94', 'hex');
+
+describe('FF1', () => {
+  it.each([
+    [AES_128, '', 10, '0123456789', '2433477484'],
+    [AES_128, '39383736353433323130', 10, '0123456789', '6124200773'],
+    [AES_128, '3737373770717273373737', 36, '0123456789abcdefghi', 'a9tv40mll9kdu509eum'],
+    [AES_256, '', 10, '0123456789', '6657667009']
+  ])('matches the NIST sample for radix %#', (key, tweak, radix, plaintext, ciphertext) => {
+    const encrypted = ff1Encrypt(key as Buffer, Buffer.from(tweak as string, 'hex'), radix as number, toNumerals(plaintext as string));
+
+    expect(fromNumerals(encrypted)).toBe(ciphertext);
+    expect(fromNumerals(ff1Decrypt(key as Buffer, Buffer.from(tweak as string, 'hex'), radix as number, encrypted))).toBe(plaintext);
+  });
+
+  it('rejects inputs shorter than the minimum domain', () => {
+    expect(ff1MinLength(10)).toBe(6);
+    expect(ff1MinLength(26)).toBe(5);
+    expect(() => ff1Encrypt(AES_128, Buffer.alloc(0), 10, [1, 2, 3])).toThrow('outside the supported range');
+  });
+});
@@ -0,0 +1,35 @@
+import { FilterExpression } from '../filterExpression';
+
+describe('FilterExpression', () => {
+  const record = { age: 34, status: 'active', name: 'Ada Lovelace', tags: ['vip', 'eu'], address: { city: 'London' } };
+
+  it('should evaluate comparisons, logic, arithmetic and whitelisted functions', () => {
+    const matches = (expression: string) => FilterExpression.parse(expression).matches(record);
+
+    expect(matches(`// Example: Keep records where age > 18
+record.age > 18 && record.status === 'active'`)).toBe(true);
+    expect(matches('record.age >= 40 || !(record.status !== "active")')).toBe(true);
+    expect(matches('record.age % 2 === 0 && record.age * 2 - 8 === 60')).toBe(true);
+    expect(matches("record.name.toLowerCase().startsWith('ada') && record['address'].city.length === 6")).toBe(true);
+    expect(matches("record.tags.includes('vip') && ['active', 'pending'].includes(record.status)")).toBe(true);
+    expect(matches('Math.max(record.age, 50) === 50 && Number("34") === record.age')).toBe(true);
+    expect(matches('record.missing ?? false')).toBe(false);
+    expect(matches('record.age > 30 ? record.status === "inactive" : true')).toBe(false);
+  });
+
+  it('should reject anything outside the supported subset', () => {
+    expect(() => FilterExpression.parse("this.constructor.constructor('return process')()")).toThrow('Unknown name "this"');
+    expect(() => FilterExpression.parse("record.constructor.constructor('return process')()")).toThrow('Function "constructor" is not allowed');
+    expect(() => FilterExpression.parse('process.exit(1)')).toThrow('Unknown name "process"');
+    expect(() => FilterExpression.parse('record.age = 5')).toThrow('Unexpected character "="');
+    expect(() => FilterExpression.parse('record.age >')).toThrow('Unexpected end of expression');
+    expect(FilterExpression.isValid('')).toBe(false);
+  });
+
+  it('should not expose prototypes or functions through property access', () => {
+    const matches = (expression: string) => FilterExpression.parse(expression).matches(record);
+
+    expect(matches("record['constructor'] === undefined && record.__proto__ === undefined")).toBe(true);
+    expect(matches("record.name['toString'] === undefined && record.tags.length === 2")).toBe(true);
+  });
+});
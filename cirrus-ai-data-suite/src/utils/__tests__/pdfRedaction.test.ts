@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import { decodePDFRawStream, PDFArray, PDFDocument, PDFRawStream, PDFStream, StandardFonts } from 'pdf-lib';
+import { redactPdf, PdfPageText } from '../pdfRedaction';
+
+const TEXT = 'SSN 123-45-6789 on file';
+const SIZE = 12;
+
+// pdf.js cannot run under jest, so the glyph positions it would report are laid out by hand
+async function buildPdf(): Promise<{ bytes: Uint8Array; page: PdfPageText }> {
+  const document = await PDFDocument.create();
+  const font = await document.embedFont(StandardFonts.Helvetica);
+  document.addPage([300, 200]).drawText(TEXT, { x: 20, y: 100, size: SIZE, font });
+
+  let x = 20;
+  const glyphs = [...TEXT].map(char => {
+    const advance = font.widthOfTextAtSize(char, SIZE);
+    const glyph = { unicode: char, code: char.charCodeAt(0), box: { x, y: 97, width: advance, height: SIZE }, advance };
+    x += advance;
+    return glyph;
+  });
+
+  return {
+    bytes: await document.save(),
+    page: {
+      page: 1,
+      text: TEXT,
+      chars: glyphs.map((_, i) => [0, i]),
+      runs: [{ path: '0', fontSize: SIZE, glyphs, spaceBefore: glyphs.map(() => false) }]
+    }
+  };
+}
+
+// A second page that draws the first through a form XObject, so its text runs are at "f0/..."
+async function buildPdfWithForm(): Promise<{ bytes: Uint8Array; pages: PdfPageText[] }> {
+  const { bytes, page } = await buildPdf();
+  const document = await PDFDocument.load(bytes);
+  const [form] = await document.embedPdf(bytes);
+  document.addPage([300, 200]).drawPage(form);
+
+  return {
+    bytes: await document.save(),
+    pages: [page, { ...page, page: 2, runs: page.runs.map(run => ({ ...run, path: `f0/${run.path}` })) }]
+  };
+}
+
+// Every stream in the file, decompressed
+async function allStreams(bytes: Uint8Array): Promise<string[]> {
+  const document = await PDFDocument.load(bytes);
+  return document.context.enumerateIndirectObjects()
+    .map(([, object]) => object)
+    .filter((object): object is PDFStream => object instanceof PDFStream)
+    .map(stream => Buffer.from(stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents()).toString('latin1').toUpperCase());
+}
+
+async function pageContent(bytes: Uint8Array): Promise<string> {
+  const document = await PDFDocument.load(bytes);
+  const contents = document.getPage(0).node.Contents();
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(ref => document.context.lookup(ref, PDFStream))
+    : [contents!];
+  return streams
+    .map(stream => Buffer.from(stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents()).toString('latin1'))
+    .join('\n');
+}
+
+const hex = (text: string) => Buffer.from(text, 'latin1').toString('hex').toUpperCase();
+
+describe('redactPdf', () => {
+  it('removes the redacted glyphs and keeps the rest of the line in place', async () => {
+    const { bytes, page } = await buildPdf();
+    const start = TEXT.indexOf('123');
+
+    const result = await redactPdf(bytes, [page], [{ page: 1, start, end: start + 11 }]);
+
+    const content = (await pageContent(result.bytes)).toUpperCase();
+    expect(content).not.toContain(hex('123-45-6789'));
+    expect(content).not.toContain(hex('6789'));
+    expect(content).toContain(hex('SSN '));
+    expect(content).toContain(hex(' on file'));
+
+    // The gap left behind is exactly as wide as the removed text
+    const width = page.runs[0].glyphs.slice(start, start + 11).reduce((total, glyph) => total + glyph.advance, 0);
+    const gap = Number(content.match(/<[0-9A-F]+>\s*(-[\d.]+)\s*</)![1]);
+    expect(gap).toBeCloseTo((-width * 1000) / SIZE, 2);
+
+    expect(result.boxes).toHaveLength(1);
+    expect(result.boxes[0]).toMatchObject({ page: 1, x: page.runs[0].glyphs[start].box.x, y: 97, height: SIZE });
+    expect(result.boxes[0].width).toBeCloseTo(width, 3);
+  });
+
+  it('leaves no stream in the file that still holds the redacted text', async () => {
+    const { bytes, pages } = await buildPdfWithForm();
+    const start = TEXT.indexOf('123');
+    expect((await allStreams(bytes)).filter(content => content.includes(hex('123-45-6789'))).length).toBeGreaterThanOrEqual(2);
+
+    const result = await redactPdf(bytes, pages, [
+      { page: 1, start, end: start + 11 },
+      { page: 2, start, end: start + 11 }
+    ]);
+
+    const streams = await allStreams(result.bytes);
+    expect(streams.filter(content => content.includes(hex('123-45-6789')) || content.includes('123-45-6789'))).toEqual([]);
+    expect(streams.filter(content => content.includes(hex(' on file')))).toHaveLength(2);
+    expect(result.boxes.map(box => box.page)).toEqual([1, 2]);
+  });
+
+  it('refuses to rewrite text that does not match the extracted glyphs', async () => {
+    const { bytes, page } = await buildPdf();
+    page.runs[0].glyphs[0].code = 0x58;
+
+    await expect(redactPdf(bytes, [page], [{ page: 1, start: 0, end: 3 }])).rejects.toThrow('does not match');
+  });
+});
@@ -0,0 +1,40 @@
+import { effectiveRole, hasPermission, isDataSourceRole, isUserRole } from '../permissions';
+
+describe('permissions', () => {
+  it('grants permissions by role', () => {
+    expect(hasPermission('viewer', 'data_sources:write')).toBe(false);
+    expect(hasPermission('analyst', 'data_sources:write')).toBe(true);
+    expect(hasPermission('analyst', 'remediation:create')).toBe(true);
+    expect(hasPermission('analyst', 'remediation:approve')).toBe(false);
+    expect(hasPermission('analyst', 'patterns:write')).toBe(false);
+    expect(hasPermission('data_steward', 'remediation:approve')).toBe(true);
+    expect(hasPermission('data_steward', 'data_sources:delete')).toBe(true);
+    expect(hasPermission('data_steward', 'users:manage')).toBe(false);
+    expect(hasPermission('admin', 'users:manage')).toBe(true);
+    expect(hasPermission('admin', 'data_sources:share')).toBe(true);
+  });
+
+  it('raises data source permissions with a grant', () => {
+    expect(hasPermission('viewer', 'remediation:approve', 'data_steward')).toBe(true);
+    expect(hasPermission('viewer', 'data_sources:delete', 'analyst')).toBe(false);
+    expect(hasPermission('analyst', 'data_sources:write', 'viewer')).toBe(true);
+  });
+
+  it('does not let a grant raise global permissions', () => {
+    expect(hasPermission('viewer', 'patterns:write', 'data_steward')).toBe(false);
+    expect(hasPermission('analyst', 'data_sources:share', 'data_steward')).toBe(false);
+  });
+
+  it('uses the more privileged of role and grant', () => {
+    expect(effectiveRole('viewer', 'analyst')).toBe('analyst');
+    expect(effectiveRole('admin', 'viewer')).toBe('admin');
+    expect(effectiveRole('analyst')).toBe('analyst');
+  });
+
+  it('validates role names', () => {
+    expect(isUserRole('admin')).toBe(true);
+    expect(isUserRole('owner')).toBe(false);
+    expect(isDataSourceRole('data_steward')).toBe(true);
+    expect(isDataSourceRole('admin')).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { diffPipelines, stableStringify, PipelineDefinition } from '../pipelineDiff';
+import { PipelineNode } from '@/types/pipeline';
+
+const createNode = (id: string, config: Record<string, unknown> = {}, label = id): PipelineNode => ({
+  id,
+  type: 'transform',
+  position: { x: 0, y: 0 },
+  data: {
+    label,
+    category: 'test',
+    icon: '',
+    color: '',
+    config,
+    inputs: [{ id: 'input', name: 'input', type: 'json', required: true }],
+    outputs: [{ id: 'output', name: 'output', type: 'json' }],
+    metadata: { templateName: 'Data Filter' }
+  }
+});
+
+const createDefinition = (overrides: Partial<PipelineDefinition> = {}): PipelineDefinition => ({
+  name: 'Customers',
+  description: '',
+  nodes: [createNode('source'), createNode('filter', { operator: 'AND', conditions: [] })],
+  edges: [{ id: 'e1', source: 'source', target: 'filter' }],
+  triggers: [],
+  tags: [],
+  ...overrides
+});
+
+describe('pipelineDiff', () => {
+  it('should report no changes for identical definitions', () => {
+    const diff = diffPipelines(createDefinition({ version: 1 }), createDefinition({ version: 2 }));
+
+    expect(diff.hasChanges).toBe(false);
+    expect(diff.fromVersion).toBe(1);
+    expect(diff.toVersion).toBe(2);
+  });
+
+  it('should ignore node positions and config key order', () => {
+    const from = createDefinition();
+    const to = createDefinition({
+      nodes: [
+        { ...createNode('source'), position: { x: 300, y: 120 } },
+        createNode('filter', { conditions: [], operator: 'AND' })
+      ]
+    });
+
+    expect(diffPipelines(from, to).hasChanges).toBe(false);
+  });
+
+  it('should report added, removed and reconfigured nodes', () => {
+    const from = createDefinition();
+    const to = createDefinition({
+      nodes: [createNode('filter', { operator: 'OR', conditions: [] }, 'Adults'), createNode('export')]
+    });
+
+    const diff = diffPipelines(from, to);
+
+    expect(diff.nodes.added.map(node => node.nodeId)).toEqual(['export']);
+    expect(diff.nodes.removed).toEqual([{ nodeId: 'source', label: 'source', templateName: 'Data Filter', changes: [] }]);
+    expect(diff.nodes.modified).toHaveLength(1);
+    expect(diff.nodes.modified[0].changes).toEqual([
+      { path: 'label', before: 'filter', after: 'Adults' },
+      { path: 'config.operator', before: 'AND', after: 'OR' }
+    ]);
+  });
+
+  it('should match edges on their endpoints rather than ids', () => {
+    const from = createDefinition();
+    const to = createDefinition({
+      edges: [
+        { id: 'regenerated', source: 'source', target: 'filter' },
+        { id: 'e2', source: 'filter', target: 'source', sourceHandle: 'false' }
+      ]
+    });
+
+    const diff = diffPipelines(from, to);
+
+    expect(diff.edges.removed).toEqual([]);
+    expect(diff.edges.added.map(edge => edge.id)).toEqual(['e2']);
+  });
+
+  it('should report pipeline setting changes', () => {
+    const from = createDefinition();
+    const to = createDefinition({
+      name: 'Customers (prod)',
+      triggers: [{ id: 't1', type: 'schedule', enabled: true, config: { cron: '@daily' } }]
+    });
+
+    expect(diffPipelines(from, to).settings.map(change => change.path)).toEqual(['name', 'triggers']);
+  });
+
+  it('should serialize objects independently of key order', () => {
+    expect(stableStringify({ b: 1, a: { d: [1, { f: 2, e: 3 }], c: undefined } }))
+      .toBe(stableStringify({ a: { d: [1, { e: 3, f: 2 }] }, b: 1 }));
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import {
+  getInternalRequestToken,
+  getRequestUser,
+  getSessionToken,
+  signSessionToken,
+  isInternalRequest,
+  verifySessionToken,
+  INTERNAL_REQUEST_HEADER,
+  SESSION_COOKIE,
+  USER_ID_HEADER,
+  USERNAME_HEADER
+} from '../session';
+
+// The shared setup mocks next/server; these tests need real requests and responses
+jest.unmock('next/server');
+
+const user = { id: 'user-1', username: 'jane', displayName: 'Jane Doe' };
+const secret = 'test-secret';
+
+describe('session tokens', () => {
+  it('round-trips a signed token', async () => {
+    const token = await signSessionToken(user, { secret });
+
+    expect(token.split('.')).toHaveLength(3);
+    await expect(verifySessionToken(token, { secret })).resolves.toEqual(user);
+  });
+
+  it('rejects tokens signed with another secret or tampered with', async () => {
+    const token = await signSessionToken(user, { secret });
+    const [header, , signature] = token.split('.');
+    const forgedBody = Buffer.from(JSON.stringify({ sub: 'admin', username: 'admin', iat: 0, exp: 9999999999 }))
+      .toString('base64url');
+
+    await expect(verifySessionToken(token, { secret: 'other-secret' })).resolves.toBeNull();
+    await expect(verifySessionToken(`${header}.${forgedBody}.${signature}`, { secret })).resolves.toBeNull();
+    await expect(verifySessionToken('not-a-token', { secret })).resolves.toBeNull();
+  });
+
+  it('rejects expired tokens', async () => {
+    const token = await signSessionToken(user, { secret, ttlSeconds: 60, now: Date.now() - 120_000 });
+
+    await expect(verifySessionToken(token, { secret })).resolves.toBeNull();
+  });
+
+  it('requires AUTH_SECRET in production', async () => {
+    const env = process.env as Record<string, string | undefined>;
+    const { NODE_ENV, AUTH_SECRET } = env;
+    env.NODE_ENV = 'production';
+    delete env.AUTH_SECRET;
+
+    try {
+      await expect(signSessionToken(user)).rejects.toThrow('AUTH_SECRET');
+    } finally {
+      env.NODE_ENV = NODE_ENV;
+      env.AUTH_SECRET = AUTH_SECRET;
+    }
+  });
+});
+
+describe('request helpers', () => {
+  it('reads the token from the cookie or a bearer header', () => {
+    const withCookie = new NextRequest('http://localhost/api/pipelines', {
+      headers: { cookie: `${SESSION_COOKIE}=cookie-token` }
+    });
+    const withBearer = new NextRequest('http://localhost/api/pipelines', {
+      headers: { authorization: 'Bearer bearer-token' }
+    });
+
+    expect(getSessionToken(withCookie)).toBe('cookie-token');
+    expect(getSessionToken(withBearer)).toBe('bearer-token');
+    expect(getSessionToken(new NextRequest('http://localhost/api/pipelines'))).toBeNull();
+  });
+
+  it('reads the user forwarded by the middleware', () => {
+    const request = new Request('http://localhost/api/pipelines', {
+      headers: { [USER_ID_HEADER]: 'user-1', [USERNAME_HEADER]: encodeURIComponent('josé') }
+    });
+
+    expect(getRequestUser(request)).toEqual({ id: 'user-1', username: 'josé', displayName: undefined });
+    expect(getRequestUser(new Request('http://localhost/api/pipelines'))).toBeNull();
+  });
+
+  it('recognizes internal requests by their token only', async () => {
+    const token = await getInternalRequestToken({ secret });
+    const request = (value: string) => new Request('http://localhost/api/api-connections/refresh', {
+      headers: { [INTERNAL_REQUEST_HEADER]: value }
+    });
+
+    expect(token).not.toContain(secret);
+    await expect(isInternalRequest(request(token), { secret })).resolves.toBe(true);
+    await expect(isInternalRequest(request(token), { secret: 'other-secret' })).resolves.toBe(false);
+    await expect(isInternalRequest(request('forged'), { secret })).resolves.toBe(false);
+    await expect(isInternalRequest(new Request('http://localhost/api/api-connections/refresh'), { secret })).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import {
+  CsvParser,
+  IncrementalParser,
+  JsonArrayParser,
+  JsonLinesParser,
+  decodeText,
+  detectDelimiter
+} from '../streamingParsers';
+
+// Feed text in pieces of the given size, so values are split at every possible point
+function parseInPieces<T>(parser: IncrementalParser<T>, text: string, size: number): T[] {
+  const values: T[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    values.push(...parser.push(text.slice(i, i + size)));
+  }
+  return [...values, ...parser.flush()];
+}
+
+async function decodeAll(chunks: Uint8Array[], encoding?: string): Promise<string> {
+  let text = '';
+  for await (const piece of decodeText(chunks, encoding)) {
+    text += piece;
+  }
+  return text;
+}
+
+describe('CsvParser', () => {
+  const csv = 'id,note,amount\r\n1,"line one\nline two",10\r\n\r\n2,"say ""hi"", then go", 20 \n3,plain,30';
+
+  it.each([1, 3, 7, csv.length])('parses quoted newlines, escaped quotes and CRLF in %i-character pieces', size => {
+    expect(parseInPieces(new CsvParser(), csv, size)).toEqual([
+      ['id', 'note', 'amount'],
+      ['1', 'line one\nline two', '10'],
+      ['2', 'say "hi", then go', '20'],
+      ['3', 'plain', '30']
+    ]);
+  });
+
+  it('uses a custom delimiter and rejects an unterminated quote', () => {
+    expect(parseInPieces(new CsvParser({ delimiter: ';' }), 'a;b\n"x,y";2\n', 4)).toEqual([['a', 'b'], ['x,y', '2']]);
+
+    const parser = new CsvParser();
+    parser.push('a,"open');
+    expect(() => parser.flush()).toThrow('quoted field');
+  });
+
+  it('detects the delimiter that splits lines consistently', () => {
+    expect(detectDelimiter('name;city;note\nAnn;Oslo;"a, b"\nBo;Rome;c\n')).toBe(';');
+    expect(detectDelimiter('a\tb\n1\t2\n3\t4\n')).toBe('\t');
+    expect(detectDelimiter('single column\nvalue\n')).toBe(',');
+  });
+});
+
+describe('JsonArrayParser', () => {
+  const json = ' [ {"a": "x]}\\"y", "b": [1, {"c": null}]}, 42, "s,t", true , {"d": {}} ] ';
+
+  it.each([1, 2, 5, json.length])('emits each element as it completes in %i-character pieces', size => {
+    expect(parseInPieces(new JsonArrayParser(), json, size)).toEqual([
+      { a: 'x]}"y', b: [1, { c: null }] },
+      42,
+      's,t',
+      true,
+      { d: {} }
+    ]);
+  });
+
+  it('returns a single top-level object whole and rejects unclosed arrays', () => {
+    expect(parseInPieces(new JsonArrayParser(), '{"a": [1, 2]}', 3)).toEqual([{ a: [1, 2] }]);
+
+    const parser = new JsonArrayParser();
+    parser.push('[{"a": 1},');
+    expect(() => parser.flush()).toThrow('not closed');
+  });
+});
+
+describe('JsonLinesParser', () => {
+  it('parses one value per line and reports the line of invalid JSON', () => {
+    expect(parseInPieces(new JsonLinesParser(), '{"a":1}\n\n{"a":2}\r\n[3]', 4)).toEqual([{ a: 1 }, { a: 2 }, [3]]);
+    expect(() => parseInPieces(new JsonLinesParser(), '{"a":1}\n{oops}\n', 100)).toThrow('line 2');
+  });
+});
+
+describe('decodeText', () => {
+  it('keeps multi-byte characters split across chunks and drops the UTF-8 byte order mark', async () => {
+    const bytes = Buffer.from('﻿naïve café');
+    expect(await decodeAll([bytes.subarray(0, 6), bytes.subarray(6, 13), bytes.subarray(13)])).toBe('naïve café');
+  });
+
+  it('detects UTF-16 from its byte order mark and decodes named encodings', async () => {
+    expect(await decodeAll([Buffer.from('﻿a,b', 'utf16le')])).toBe('a,b');
+    expect(await decodeAll([Buffer.from([0x63, 0x61, 0x66, 0xe9])], 'windows-1252')).toBe('café');
+    await expect(decodeAll([Buffer.from('x')], 'not-an-encoding')).rejects.toThrow('Unsupported encoding');
+  });
+});
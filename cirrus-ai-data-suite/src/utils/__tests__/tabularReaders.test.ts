@@ -0,0 +1,149 @@
+/**
+ * @jest-environment node
+ */
+import JSZip from 'jszip';
+import { detectTabularFormat, excelSerialToDate, readParquet, readWorkbook, TabularTable } from '../tabularReaders';
+
+jest.mock('hyparquet', () => ({
+  parquetMetadataAsync: jest.fn(async () => ({ row_groups: [{ num_rows: BigInt(2) }, { num_rows: BigInt(1) }] })),
+  parquetSchema: jest.fn(() => ({
+    children: [
+      { element: { name: 'id', type: 'INT64' }, children: [] },
+      { element: { name: 'name', type: 'BYTE_ARRAY', logical_type: { type: 'STRING' } }, children: [] },
+      { element: { name: 'createdAt', type: 'INT64', logical_type: { type: 'TIMESTAMP' } }, children: [] },
+      { element: { name: 'tags', converted_type: 'LIST' }, children: [{ element: { name: 'list' }, children: [] }] }
+    ]
+  })),
+  parquetReadObjects: jest.fn(async ({ rowStart }: { rowStart: number }) => (rowStart === 0
+    ? [
+      { id: BigInt(1), name: 'Ann', createdAt: new Date('2024-03-01T10:00:00Z'), tags: ['a'] },
+      { id: BigInt('9007199254740993'), name: 'Bo', createdAt: null, tags: [] }
+    ]
+    : [{ id: BigInt(3), name: 'Cy', createdAt: new Date('2024-03-02T00:00:00Z'), tags: [new Uint8Array([104, 105])] }]))
+}));
+
+async function workbook(): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file('xl/workbook.xml', `<workbook><workbookPr/><sheets>
+    <sheet name="People" sheetId="1" r:id="rId1"/>
+    <sheet name="Q&amp;A" sheetId="2" r:id="rId2"/>
+  </sheets></workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels', `<Relationships>
+    <Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/>
+    <Relationship Id="rId2" Type="worksheet" Target="/xl/worksheets/sheet2.xml"/>
+  </Relationships>`);
+  zip.file('xl/sharedStrings.xml', `<sst>
+    <si><t>Name</t></si>
+    <si><r><t>Jo</t></r><r><t xml:space="preserve">ined</t></r><rPh><t>ジョ</t></rPh></si>
+    <si><t>Ann &amp; Co</t></si>
+  </sst>`);
+  zip.file('xl/styles.xml', `<styleSheet>
+    <numFmts><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/><numFmt numFmtId="165" formatCode="&quot;Day&quot; 0"/></numFmts>
+    <cellXfs count="4"><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="22"/><xf numFmtId="165"/></cellXfs>
+  </styleSheet>`);
+  zip.file('xl/worksheets/sheet1.xml', `<worksheet><sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Active</t></is></c><c r="D1" t="s"><v>0</v></c><c r="F1"><v>7</v></c></row>
+    <row r="2"/>
+    <row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3" s="1"><v>45352</v></c><c r="C3" t="b"><v>1</v></c><c r="D3" s="3"><v>12.5</v></c></row>
+    <row r="4"><c r="A4" t="str"><f>UPPER("bo")</f><v>BO</v></c><c r="B4" s="2"><v>45352.5</v></c><c r="C4" t="e"><v>#N/A</v></c><c r="E4"><v>3</v></c></row>
+  </sheetData></worksheet>`);
+  zip.file('xl/worksheets/sheet2.xml', '<worksheet><sheetData><row r="1"><c t="inlineStr"><is><t>Only header</t></is></c></row></sheetData></worksheet>');
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+async function collect(tables: AsyncGenerator<TabularTable>) {
+  const result = [];
+  for await (const table of tables) {
+    const rows = [];
+    for await (const row of table.rows) rows.push(row);
+    result.push({ ...table, rows });
+  }
+  return result;
+}
+
+describe('readWorkbook', () => {
+  it('reads each worksheet as a table of typed rows under its header', async () => {
+    const [people, second] = await collect(readWorkbook(await workbook()));
+
+    expect(people).toMatchObject({ name: 'People', type: 'sheet', rowCount: 2 });
+    expect(people.columns).toEqual([
+      { name: 'Name', type: 'string' },
+      { name: 'Joined', type: 'date' },
+      { name: 'Active', type: 'boolean' },
+      { name: 'Name (2)', type: 'number' },
+      { name: 'Column E', type: 'number' },
+      { name: '7', type: 'string' }
+    ]);
+    expect(people.rows).toEqual([
+      { Name: 'Ann & Co', Joined: '2024-03-01', Active: true, 'Name (2)': 12.5, 'Column E': null, '7': null },
+      { Name: 'BO', Joined: '2024-03-01T12:00:00.000Z', Active: null, 'Name (2)': null, 'Column E': 3, '7': null }
+    ]);
+    expect(second).toMatchObject({ name: 'Q&A', rowCount: 0, rows: [], columns: [{ name: 'Only header', type: 'string' }] });
+  });
+
+  it('reads sheets with more rows than a function can take arguments, one row at a time', async () => {
+    const zip = new JSZip();
+    zip.file('xl/workbook.xml', '<workbook><sheets><sheet name="Big" r:id="rId1"/></sheets></workbook>');
+    zip.file('xl/_rels/workbook.xml.rels', '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>');
+    const rows = Array.from({ length: 150000 }, (_, i) => `<row><c><v>${i}</v></c></row>`);
+    // The widest row comes last
+    zip.file('xl/worksheets/sheet1.xml', `<worksheet><sheetData>${rows.join('')}<row><c><v>1</v></c><c r="C"><v>2</v></c></row></sheetData></worksheet>`);
+
+    const tables = readWorkbook(await zip.generateAsync({ type: 'uint8array' }));
+    const { value: table } = await tables.next();
+
+    expect(table).toMatchObject({ name: 'Big', rowCount: 150000 });
+    expect(table.columns.map((column: { name: string }) => column.name)).toEqual(['0', 'Column B', 'Column C']);
+    expect(Array.isArray(table.rows)).toBe(false);
+    let count = 0;
+    let last: Record<string, unknown> | undefined;
+    for await (const row of table.rows) {
+      count++;
+      last = row;
+    }
+    expect(count).toBe(150000);
+    expect(last).toEqual({ '0': 1, 'Column B': null, 'Column C': 2 });
+  });
+
+  it('rejects files that are not workbooks', async () => {
+    const zip = new JSZip();
+    zip.file('word/document.xml', '<document/>');
+    await expect(collect(readWorkbook(await zip.generateAsync({ type: 'uint8array' })))).rejects.toThrow('Not an Excel workbook');
+  });
+
+  it('converts date serials in both date systems', () => {
+    expect(excelSerialToDate(1)).toBe('1900-01-01');
+    expect(excelSerialToDate(61)).toBe('1900-03-01');
+    expect(excelSerialToDate(0, true)).toBe('1904-01-01');
+    expect(excelSerialToDate(45352.25)).toBe('2024-03-01T06:00:00.000Z');
+  });
+});
+
+describe('readParquet', () => {
+  it('reads row groups as tables with JSON values and schema column types', async () => {
+    const tables = await collect(readParquet(new Uint8Array(8)));
+
+    expect(tables.map(table => [table.name, table.type, table.rowCount])).toEqual([
+      ['Row group 1', 'row_group', 2],
+      ['Row group 2', 'row_group', 1]
+    ]);
+    expect(tables[0].columns).toEqual([
+      { name: 'id', type: 'integer' },
+      { name: 'name', type: 'string' },
+      { name: 'createdAt', type: 'timestamp' },
+      { name: 'tags', type: 'array' }
+    ]);
+    expect(tables.flatMap(table => table.rows)).toEqual([
+      { id: 1, name: 'Ann', createdAt: '2024-03-01T10:00:00.000Z', tags: ['a'] },
+      { id: '9007199254740993', name: 'Bo', createdAt: null, tags: [] },
+      { id: 3, name: 'Cy', createdAt: '2024-03-02T00:00:00.000Z', tags: ['aGk='] }
+    ]);
+  });
+
+  it('detects formats from the extension or MIME type', () => {
+    expect(detectTabularFormat('Budget.XLSX')).toBe('xlsx');
+    expect(detectTabularFormat('events.parquet')).toBe('parquet');
+    expect(detectTabularFormat('upload', 'application/vnd.apache.parquet')).toBe('parquet');
+    expect(detectTabularFormat('legacy.xls')).toBeNull();
+  });
+});
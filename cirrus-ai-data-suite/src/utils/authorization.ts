@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { AuthService } from '@/services/authService';
+import { PermissionService } from '@/services/permissionService';
+import { Permission } from '@/types/auth';
+import { RemediationJob } from '@/types/remediation';
+import { getRequestUser } from './session';
+
+/**
+ * Check that the caller of an API route has a permission.
+ * Returns the error response to send when they do not, or null when the call may proceed.
+ */
+export async function requirePermission(
+  request: Request,
+  permission: Permission,
+  dataSourceId?: string
+): Promise<NextResponse | null> {
+  const user = getRequestUser(request);
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  if (!(await PermissionService.can(user.id, permission, dataSourceId))) {
+    return NextResponse.json(
+      { error: `You do not have the ${permission} permission${dataSourceId ? ' on this data source' : ''}` },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Check that the caller may review (apply or reject) the actions of a remediation job.
+ * Reviewers need steward rights on the job's data source; once a job is assigned,
+ * only the assignee or an admin may review it.
+ */
+export async function requireRemediationReviewer(
+  request: Request,
+  job: Pick<RemediationJob, 'dataSourceId' | 'assignedTo'>
+): Promise<NextResponse | null> {
+  const denied = await requirePermission(request, 'remediation:approve', job.dataSourceId);
+  if (denied) {
+    return denied;
+  }
+
+  const user = getRequestUser(request)!;
+  if (job.assignedTo && job.assignedTo !== user.username) {
+    const account = await AuthService.getUser(user.id);
+    if (account?.role !== 'admin') {
+      return NextResponse.json(
+        { error: `This remediation job is assigned to ${job.assignedTo}` },
+        { status: 403 }
+      );
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,246 @@
+import type {
+  ClassificationLevel,
+  ClassificationMarking,
+  DeploymentCheck,
+  DisseminationControl
+} from '@/types/classification';
+import type { Environment, EnvironmentAudience } from '@/types/environments';
+
+/**
+ * Classification markings
+ * Markings are stored and exchanged in banner form, e.g. "SECRET//NOFORN".
+ * Shared by the API and the UI so both parse and combine markings the same way.
+ */
+
+// Lowest to highest
+export const CLASSIFICATION_LEVELS: ClassificationLevel[] = [
+  'UNCLASSIFIED',
+  'CUI',
+  'CONFIDENTIAL',
+  'SECRET',
+  'TOP SECRET',
+  'TOP SECRET//SCI'
+];
+
+// Canonical order in which controls are written after the level
+export const DISSEMINATION_CONTROLS: DisseminationControl[] = [
+  'NOFORN',
+  'REL TO USA',
+  'REL TO USA, FVEY',
+  'REL TO USA, NATO',
+  'FOUO',
+  'LES',
+  'ORCON',
+  'PROPIN',
+  'RELIDO',
+  'EXDIS',
+  'NODIS',
+  'CLOSE HOLD',
+  'TK',
+  'HCS',
+  'SI',
+  'GAMMA',
+  'CNWDI'
+];
+
+// Highest level each environment security level is accredited to hold
+export const ENVIRONMENT_MAX_LEVEL: Record<Environment['securityLevel'], ClassificationLevel> = {
+  unclassified: 'CUI',
+  confidential: 'CONFIDENTIAL',
+  secret: 'SECRET',
+  'top-secret': 'TOP SECRET//SCI'
+};
+
+export type MarkedFileFormat = 'json' | 'jsonl' | 'csv' | 'sql';
+
+const RELEASABILITY: DisseminationControl[] = ['REL TO USA', 'REL TO USA, FVEY', 'REL TO USA, NATO'];
+
+// Environment audiences each releasability control allows
+const RELEASED_AUDIENCES: Partial<Record<DisseminationControl, EnvironmentAudience[]>> = {
+  NOFORN: ['USA'],
+  'REL TO USA': ['USA'],
+  'REL TO USA, FVEY': ['USA', 'FVEY'],
+  'REL TO USA, NATO': ['USA', 'NATO']
+};
+
+export type DeploymentEnvironmentPolicy = Pick<Environment, 'securityLevel' | 'audience' | 'accreditedControls'>;
+
+export class ClassificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClassificationError';
+  }
+}
+
+/**
+ * Parse a banner marking such as "TOP SECRET//SCI//NOFORN"
+ */
+export function parseMarking(value: string): ClassificationMarking {
+  const parts = value.split('//').map(part => part.trim().toUpperCase()).filter(Boolean);
+  if (parts.length === 0) {
+    throw new ClassificationError('Classification marking is empty');
+  }
+
+  // SCI is written as part of the level
+  const level = parts[0] === 'TOP SECRET' && parts[1] === 'SCI' ? 'TOP SECRET//SCI' : parts[0];
+  if (!(CLASSIFICATION_LEVELS as string[]).includes(level)) {
+    throw new ClassificationError(`Unknown classification level: ${parts[0]}`);
+  }
+
+  const controls = parts.slice(level === 'TOP SECRET//SCI' ? 2 : 1);
+  const unknown = controls.find(control => !(DISSEMINATION_CONTROLS as string[]).includes(control));
+  if (unknown) {
+    throw new ClassificationError(`Unknown dissemination control: ${unknown}`);
+  }
+
+  return { level: level as ClassificationLevel, controls: controls as DisseminationControl[] };
+}
+
+export function formatMarking(marking: ClassificationMarking): string {
+  const controls = [...new Set(marking.controls)].sort(
+    (a, b) => DISSEMINATION_CONTROLS.indexOf(a) - DISSEMINATION_CONTROLS.indexOf(b)
+  );
+  return [marking.level, ...controls].join('//');
+}
+
+/**
+ * Validate a marking and write it in canonical form. Empty values clear the marking.
+ */
+export function normalizeMarking(value: string | null | undefined): string | null {
+  if (value === null || value === undefined || value.trim() === '') {
+    return null;
+  }
+  return formatMarking(parseMarking(value));
+}
+
+export function isValidMarking(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') {
+    return true;
+  }
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    normalizeMarking(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function compareLevels(a: ClassificationLevel, b: ClassificationLevel): number {
+  return CLASSIFICATION_LEVELS.indexOf(a) - CLASSIFICATION_LEVELS.indexOf(b);
+}
+
+/**
+ * Combine the markings of everything a piece of data was derived from.
+ * The result carries the highest level and every control of the inputs; when
+ * releasability markings conflict the most restrictive one is kept.
+ * Returns undefined when none of the inputs is marked.
+ */
+export function highWaterMark(markings: Array<string | null | undefined>): string | undefined {
+  const parsed = markings.filter((marking): marking is string => !!marking).map(parseMarking);
+  if (parsed.length === 0) {
+    return undefined;
+  }
+
+  const level = parsed.reduce<ClassificationLevel>(
+    (highest, marking) => (compareLevels(marking.level, highest) > 0 ? marking.level : highest),
+    'UNCLASSIFIED'
+  );
+
+  let controls = [...new Set(parsed.flatMap(marking => marking.controls))];
+  const releasability = controls.filter(control => RELEASABILITY.includes(control));
+  if (controls.includes('NOFORN')) {
+    controls = controls.filter(control => !RELEASABILITY.includes(control));
+  } else if (releasability.length > 1) {
+    // Only the release countries every input allows remain, which our vocabulary can express as USA alone
+    controls = [...controls.filter(control => !RELEASABILITY.includes(control)), 'REL TO USA'];
+  }
+
+  return formatMarking({ level, controls });
+}
+
+/**
+ * Check whether data with a marking may be deployed to an environment: its level must be within the
+ * environment's accreditation, its releasability must cover everyone who can reach the environment,
+ * and the environment must be accredited for each of its other controls
+ */
+export function checkDeployment(
+  marking: string | null | undefined,
+  environment: DeploymentEnvironmentPolicy | undefined
+): DeploymentCheck {
+  if (!marking) {
+    return { allowed: true };
+  }
+
+  const { level, controls } = parseMarking(marking);
+  const securityLevel = environment?.securityLevel;
+  if (!securityLevel || !(securityLevel in ENVIRONMENT_MAX_LEVEL)) {
+    return {
+      allowed: level === 'UNCLASSIFIED' && controls.length === 0,
+      marking,
+      reason: level === 'UNCLASSIFIED' && controls.length === 0 ? undefined : `Data marked ${marking} needs a target environment with a known security level`
+    };
+  }
+
+  const maxLevel = ENVIRONMENT_MAX_LEVEL[securityLevel];
+  if (compareLevels(level, maxLevel) > 0) {
+    return {
+      allowed: false,
+      marking,
+      reason: `Data marked ${marking} cannot be deployed to an environment at security level ${securityLevel} (limit ${maxLevel})`
+    };
+  }
+
+  const releasability = controls.filter(control => control in RELEASED_AUDIENCES);
+  const audience = environment.audience;
+  const released = releasability.every(control => audience !== undefined && RELEASED_AUDIENCES[control]!.includes(audience));
+  if (!released) {
+    return {
+      allowed: false,
+      marking,
+      reason: `Data marked ${marking} cannot be deployed to an environment ${audience ? `open to ${audience} partners` : 'without a declared audience'}`
+    };
+  }
+
+  const accredited = environment.accreditedControls ?? [];
+  const missing = controls.filter(control => !releasability.includes(control) && !accredited.includes(control));
+  if (missing.length > 0) {
+    return {
+      allowed: false,
+      marking,
+      reason: `Data marked ${marking} needs an environment accredited for ${missing.join(', ')}`
+    };
+  }
+
+  return { allowed: true, marking };
+}
+
+/**
+ * Put a marking at the top of an exported file.
+ * JSON exports gain a top-level "classification" property (arrays are wrapped as { classification, records }),
+ * JSONL exports start with a marking line, CSV and SQL exports with a comment line.
+ */
+export function markFileContent(content: string, format: MarkedFileFormat, marking: string | null | undefined): string {
+  if (!marking) {
+    return content;
+  }
+
+  switch (format) {
+    case 'json': {
+      const parsed: unknown = JSON.parse(content);
+      const pretty = /^[[{]\s*\n/.test(content) ? 2 : undefined;
+      const marked = Array.isArray(parsed) || parsed === null || typeof parsed !== 'object'
+        ? { classification: marking, records: parsed }
+        : { classification: marking, ...(parsed as Record<string, unknown>) };
+      return JSON.stringify(marked, null, pretty);
+    }
+    case 'jsonl':
+      return `${JSON.stringify({ classification: marking })}\n${content}`;
+    case 'csv':
+      return `# CLASSIFICATION: ${marking}\n${content}`;
+    case 'sql':
+      return `-- CLASSIFICATION: ${marking}\n${content}`;
+  }
+}
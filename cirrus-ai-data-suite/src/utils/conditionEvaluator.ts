@@ -0,0 +1,102 @@
+/**
+ * Condition Evaluator
+ * Evaluates quality-rule style conditions and condition groups against a single record
+ */
+
+import { ConditionGroup, RuleCondition } from '@/types/qualityRules';
+
+type ConditionLike = Partial<Pick<RuleCondition, 'field' | 'value' | 'values' | 'caseSensitive'>> & { operator?: string };
+type ConditionGroupLike = { conditions: unknown[]; operator?: 'AND' | 'OR' };
+
+/**
+ * Check whether an entry of a condition group is itself a nested group
+ */
+export function isConditionGroup(condition: unknown): condition is ConditionGroup {
+  return !!condition && Array.isArray((condition as { conditions?: unknown[] }).conditions);
+}
+
+/**
+ * Evaluate a condition group. Empty groups never match.
+ */
+export function evaluateConditionGroup(group: ConditionGroupLike, record: Record<string, unknown>): boolean {
+  if (!group.conditions || group.conditions.length === 0) return false;
+
+  const results = group.conditions.map((condition: unknown) => {
+    if (isConditionGroup(condition)) {
+      // Nested condition group
+      return evaluateConditionGroup(condition, record);
+    }
+    // Single condition
+    return evaluateCondition(condition as ConditionLike, record);
+  });
+
+  return group.operator === 'AND'
+    ? results.every(r => r)
+    : results.some(r => r);
+}
+
+/**
+ * Evaluate a single condition
+ */
+export function evaluateCondition(condition: ConditionLike, record: Record<string, unknown>): boolean {
+  const fieldValue = record[condition.field || ''];
+  const conditionValue = condition.value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return fieldValue === conditionValue;
+    case 'not_equals':
+      return fieldValue !== conditionValue;
+    case 'contains':
+      return String(fieldValue).includes(String(conditionValue));
+    case 'not_contains':
+      return !String(fieldValue).includes(String(conditionValue));
+    case 'starts_with':
+      return String(fieldValue).startsWith(String(conditionValue));
+    case 'ends_with':
+      return String(fieldValue).endsWith(String(conditionValue));
+    case 'regex_match':
+      try {
+        const regex = new RegExp(String(conditionValue), condition.caseSensitive ? '' : 'i');
+        return regex.test(String(fieldValue));
+      } catch {
+        return false;
+      }
+    case 'greater_than':
+      return Number(fieldValue) > Number(conditionValue);
+    case 'less_than':
+      return Number(fieldValue) < Number(conditionValue);
+    case 'greater_or_equal':
+      return Number(fieldValue) >= Number(conditionValue);
+    case 'less_or_equal':
+      return Number(fieldValue) <= Number(conditionValue);
+    case 'between': {
+      const [min, max] = condition.values || [0, 0];
+      const numValue = Number(fieldValue);
+      return numValue >= Number(min) && numValue <= Number(max);
+    }
+    case 'in_list':
+      return (condition.values || []).includes(fieldValue);
+    case 'not_in_list':
+      return !(condition.values || []).includes(fieldValue);
+    case 'is_null':
+      return fieldValue === null || fieldValue === undefined;
+    case 'is_not_null':
+      return fieldValue !== null && fieldValue !== undefined;
+    case 'is_empty':
+      return fieldValue === '' || fieldValue === null || fieldValue === undefined;
+    case 'is_not_empty':
+      return fieldValue !== '' && fieldValue !== null && fieldValue !== undefined;
+    case 'date_before':
+      return new Date(fieldValue as string | number) < new Date(conditionValue as string | number);
+    case 'date_after':
+      return new Date(fieldValue as string | number) > new Date(conditionValue as string | number);
+    case 'date_between': {
+      const [startDate, endDate] = condition.values || ['', ''];
+      const dateValue = new Date(fieldValue as string | number);
+      return dateValue >= new Date(startDate as string | number) && dateValue <= new Date(endDate as string | number);
+    }
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,42 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+import { getSessionSecret } from '@/utils/session';
+
+/**
+ * Credential encryption
+ * AES-256-GCM sealing of connection secrets stored in the database. The key is derived from
+ * CREDENTIALS_ENCRYPTION_KEY, or from the session secret when that is not set.
+ */
+
+const PREFIX = 'enc:v1:';
+
+function getKey(): Buffer {
+  const master = process.env.CREDENTIALS_ENCRYPTION_KEY || getSessionSecret();
+  return Buffer.from(hkdfSync('sha256', master, '', 'cirrus-credentials', 32));
+}
+
+export function isEncryptedCredential(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function encryptCredential(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+/**
+ * Decrypt a sealed credential. Values stored before encryption was introduced are returned as they are.
+ */
+export function decryptCredential(value: string): string {
+  if (!isEncryptedCredential(value)) return value;
+
+  const data = Buffer.from(value.slice(PREFIX.length), 'base64');
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), data.subarray(0, 12));
+  decipher.setAuthTag(data.subarray(12, 28));
+  try {
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('Stored credentials could not be decrypted; check CREDENTIALS_ENCRYPTION_KEY');
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Cron Expression
+ * Parses standard five-field cron expressions (minute hour day-of-month month day-of-week)
+ * and evaluates them in a given IANA timezone
+ */
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+interface ZonedTime {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+// Scanning is minute by minute, so cap how far back a check may look
+const MAX_SCAN_MINUTES = 7 * 24 * 60;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export class CronExpression {
+  private readonly fields: CronField[];
+
+  private constructor(readonly expression: string, fields: CronField[]) {
+    this.fields = fields;
+  }
+
+  /**
+   * Parse a cron expression. Throws with a descriptive message if it is invalid.
+   */
+  static parse(expression: string): CronExpression {
+    const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+    const parts = normalized.split(/\s+/);
+    if (parts.length !== 5) {
+      throw new Error(`Cron expression must have 5 fields, got ${parts.length}: "${expression}"`);
+    }
+
+    const fields = parts.map((part, index) => this.parseField(part.toUpperCase(), index));
+
+    // Sunday may be written as 0 or 7
+    if (fields[4].values.has(7)) {
+      fields[4].values.add(0);
+      fields[4].values.delete(7);
+    }
+
+    return new CronExpression(expression, fields);
+  }
+
+  /**
+   * Check whether an expression is valid without throwing
+   */
+  static isValid(expression: string): boolean {
+    try {
+      this.parse(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether the expression fires in the minute containing the given instant
+   */
+  matches(date: Date, timezone: string = 'UTC'): boolean {
+    const time = getZonedTime(date, timezone);
+    const [minute, hour, day, month, weekday] = this.fields;
+
+    if (!minute.values.has(time.minute) || !hour.values.has(time.hour) || !month.values.has(time.month)) {
+      return false;
+    }
+
+    // Standard cron semantics: when both day fields are restricted, either may match
+    if (!day.wildcard && !weekday.wildcard) {
+      return day.values.has(time.day) || weekday.values.has(time.weekday);
+    }
+    return day.values.has(time.day) && weekday.values.has(time.weekday);
+  }
+
+  /**
+   * Find the latest minute in (after, until] at which the expression fires
+   */
+  getLastOccurrenceBetween(after: Date, until: Date, timezone: string = 'UTC'): Date | null {
+    const end = Math.floor(until.getTime() / 60000) * 60000;
+    const start = Math.max(after.getTime(), end - MAX_SCAN_MINUTES * 60000);
+
+    for (let time = end; time > start; time -= 60000) {
+      const candidate = new Date(time);
+      if (this.matches(candidate, timezone)) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  private static parseField(part: string, index: number): CronField {
+    const { name, min, max } = FIELD_RANGES[index];
+    const values = new Set<number>();
+
+    for (const item of part.split(',')) {
+      const [rangePart, stepPart] = item.split('/');
+      const step = stepPart === undefined ? 1 : Number(stepPart);
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid step "${stepPart}" in ${name} field`);
+      }
+
+      let start: number;
+      let end: number;
+      if (rangePart === '*') {
+        start = min;
+        end = index === 4 ? 6 : max;
+      } else if (rangePart.includes('-')) {
+        const [from, to] = rangePart.split('-');
+        start = this.parseValue(from, index);
+        end = this.parseValue(to, index);
+      } else {
+        start = this.parseValue(rangePart, index);
+        end = stepPart === undefined ? start : max;
+      }
+
+      if (start > end) {
+        throw new Error(`Invalid range "${rangePart}" in ${name} field`);
+      }
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return { values, wildcard: part === '*' };
+  }
+
+  private static parseValue(value: string, index: number): number {
+    const { name, min, max } = FIELD_RANGES[index];
+    let parsed: number;
+    if (index === 3 && MONTH_NAMES.includes(value)) {
+      parsed = MONTH_NAMES.indexOf(value) + 1;
+    } else if (index === 4 && DAY_NAMES.includes(value)) {
+      parsed = DAY_NAMES.indexOf(value);
+    } else {
+      parsed = Number(value);
+    }
+
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      throw new Error(`Invalid value "${value}" in ${name} field (expected ${min}-${max})`);
+    }
+    return parsed;
+  }
+}
+
+function getZonedTime(date: Date, timezone: string): ZonedTime {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      minute: 'numeric',
+      hour: 'numeric',
+      day: 'numeric',
+      month: 'numeric',
+      weekday: 'short'
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toUpperCase())
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Database File Utilities
+ * Helpers for SQLite and DuckDB databases uploaded as files, shared by the
+ * upload route, the connectors and the Sources → Databases pages.
+ */
+import { DatabaseConnection, DatabaseType } from '@/types/connector';
+
+export type FileDatabaseType = Extract<DatabaseType, 'sqlite' | 'duckdb'>;
+
+// Extensions accepted for upload; the file header decides the actual type
+export const DATABASE_FILE_EXTENSIONS = ['.sqlite', '.sqlite3', '.db', '.db3', '.duckdb', '.ddb'];
+
+const SQLITE_HEADER = 'SQLite format 3\u0000';
+const DUCKDB_MAGIC = 'DUCK';
+const DUCKDB_MAGIC_OFFSET = 8;
+
+export function isDatabaseFileType(type: string): type is FileDatabaseType {
+  return type === 'sqlite' || type === 'duckdb';
+}
+
+/**
+ * Work out whether a file is a SQLite or DuckDB database from its first bytes.
+ * Returns null when the file is neither.
+ */
+export function detectDatabaseFileType(header: Uint8Array): FileDatabaseType | null {
+  const text = String.fromCharCode(...Array.from(header.subarray(0, 16)));
+  if (text.startsWith(SQLITE_HEADER)) {
+    return 'sqlite';
+  }
+  if (text.slice(DUCKDB_MAGIC_OFFSET, DUCKDB_MAGIC_OFFSET + DUCKDB_MAGIC.length) === DUCKDB_MAGIC) {
+    return 'duckdb';
+  }
+  return null;
+}
+
+/**
+ * Where a connection points: the file name for uploaded files, otherwise host:port/database
+ */
+export function describeConnectionLocation(connection: Pick<DatabaseConnection, 'type' | 'host' | 'port' | 'database'>): string {
+  if (isDatabaseFileType(connection.type)) {
+    return connection.database;
+  }
+  return `${connection.host}:${connection.port}/${connection.database}`;
+}
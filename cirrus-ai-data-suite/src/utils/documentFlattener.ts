@@ -0,0 +1,63 @@
+/**
+ * Document Flattener
+ * Flattens nested documents into a single level of field paths, using the same
+ * path notation as ClusterPatternService.flattenRelationalData: nested objects
+ * become `parent.child` and array elements become `field[0]`.
+ */
+
+/**
+ * Only plain objects are descended into; class instances such as Date or BSON
+ * values are kept whole as leaf values
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Flatten one document. Null values are kept so the field still shows up as a
+ * column; empty objects and arrays produce no fields.
+ */
+export function flattenDocument(document: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flattened: Record<string, unknown> = {};
+
+  const visit = (value: unknown, path: string): void => {
+    if (isPlainObject(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, path ? `${path}.${key}` : key);
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${path}[${index}]`));
+    } else if (value !== undefined) {
+      flattened[path] = value;
+    }
+  };
+
+  visit(document, prefix);
+  return flattened;
+}
+
+/**
+ * Flatten documents into rows sharing one column list. Columns are ordered by
+ * first appearance and fields missing from a document are null.
+ */
+export function flattenDocuments(documents: Record<string, unknown>[]): { columns: string[]; rows: unknown[][] } {
+  const flattened = documents.map(document => flattenDocument(document));
+  const columns: string[] = [];
+  const seen = new Set<string>();
+
+  for (const document of flattened) {
+    for (const key of Object.keys(document)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    }
+  }
+
+  return {
+    columns,
+    rows: flattened.map(document => columns.map(column => (column in document ? document[column] : null)))
+  };
+}
@@ -0,0 +1,152 @@
+import JSZip from 'jszip';
+
+/**
+ * DOCX redaction
+ * Word keeps paragraph text in runs (<w:r>) whose text nodes can split a value anywhere, so paragraphs
+ * are read as the concatenation of their text nodes and matched spans are rewritten node by node.
+ * Run formatting is kept; deleted (tracked change) text and field codes are redacted too, since
+ * they are still in the file.
+ */
+
+export interface DocxParagraph {
+  part: string; // Zip entry, e.g. word/document.xml
+  index: number; // Paragraph index within the part
+  text: string;
+}
+
+export interface DocxRedactionArea {
+  part: string;
+  paragraph: number;
+  start: number; // Character offsets into DocxParagraph.text
+  end: number;
+  replacement: string;
+}
+
+interface TextNode {
+  paragraph: number;
+  offset: number; // Offset of the node text within the paragraph text
+  text: string;
+  tag: string;
+  openStart: number;
+  openEnd: number; // End of the opening tag, where the content starts
+  closeStart: number;
+}
+
+const TEXT_PARTS = /^word\/(document|header\d*|footer\d*|footnotes|endnotes|comments)\.xml$/;
+const TOKENS = /<w:(t|delText|instrText)(\s[^>]*)?>([\s\S]*?)<\/w:\1>|<w:tab\/>|<w:br\/>|<\/w:p>/g;
+
+function unescapeXml(value: string): string {
+  return value.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+    const named: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+    if (entity in named) return named[entity];
+    return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function readPart(xml: string): { paragraphs: string[]; nodes: TextNode[] } {
+  const paragraphs: string[] = [''];
+  const nodes: TextNode[] = [];
+
+  for (const match of xml.matchAll(TOKENS)) {
+    const current = paragraphs.length - 1;
+    if (match[0] === '</w:p>') {
+      paragraphs.push('');
+    } else if (match[0] === '<w:tab/>') {
+      paragraphs[current] += '\t';
+    } else if (match[0] === '<w:br/>') {
+      paragraphs[current] += '\n';
+    } else {
+      const text = unescapeXml(match[3]);
+      const openEnd = match.index! + match[0].indexOf('>') + 1;
+      nodes.push({
+        paragraph: current,
+        offset: paragraphs[current].length,
+        text,
+        tag: match[1],
+        openStart: match.index!,
+        openEnd,
+        closeStart: match.index! + match[0].length - `</w:${match[1]}>`.length
+      });
+      paragraphs[current] += text;
+    }
+  }
+
+  return { paragraphs, nodes };
+}
+
+async function textParts(zip: JSZip): Promise<Array<{ name: string; xml: string }>> {
+  const names = Object.keys(zip.files).filter(name => TEXT_PARTS.test(name)).sort();
+  return Promise.all(names.map(async name => ({ name, xml: await zip.file(name)!.async('string') })));
+}
+
+/**
+ * Paragraph text of the body, headers, footers, notes and comments
+ */
+export async function extractDocxText(bytes: Uint8Array): Promise<DocxParagraph[]> {
+  const zip = await JSZip.loadAsync(bytes);
+  if (!zip.file('word/document.xml')) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  const paragraphs: DocxParagraph[] = [];
+  for (const { name, xml } of await textParts(zip)) {
+    readPart(xml).paragraphs.forEach((text, index) => {
+      if (text.trim()) paragraphs.push({ part: name, index, text });
+    });
+  }
+  return paragraphs;
+}
+
+/**
+ * Replace each area's text with its replacement. The replacement goes into the first run of the
+ * span, keeping that run's formatting; the rest of the span is removed from the following runs.
+ */
+export async function redactDocx(bytes: Uint8Array, areas: DocxRedactionArea[]): Promise<Uint8Array> {
+  const zip = await JSZip.loadAsync(bytes);
+
+  for (const { name, xml } of await textParts(zip)) {
+    const partAreas = areas.filter(area => area.part === name);
+    if (partAreas.length === 0) continue;
+
+    const { nodes } = readPart(xml);
+    const edits = new Map<TextNode, Array<{ start: number; end: number; insert: string }>>();
+
+    for (const area of partAreas) {
+      let inserted = false;
+      for (const node of nodes) {
+        if (node.paragraph !== area.paragraph) continue;
+        const start = Math.max(area.start, node.offset) - node.offset;
+        const end = Math.min(area.end, node.offset + node.text.length) - node.offset;
+        if (end <= start) continue;
+        edits.set(node, [...(edits.get(node) ?? []), { start, end, insert: inserted ? '' : area.replacement }]);
+        inserted = true;
+      }
+    }
+
+    let output = '';
+    let copied = 0;
+    for (const node of nodes) {
+      const nodeEdits = edits.get(node);
+      if (!nodeEdits) continue;
+
+      let text = node.text;
+      for (const edit of [...nodeEdits].sort((a, b) => b.start - a.start)) {
+        text = text.slice(0, edit.start) + edit.insert + text.slice(edit.end);
+      }
+
+      let openTag = xml.slice(node.openStart, node.openEnd);
+      if (!/xml:space=/.test(openTag)) {
+        openTag = openTag.replace(/>$/, ' xml:space="preserve">');
+      }
+      output += xml.slice(copied, node.openStart) + openTag + escapeXml(text);
+      copied = node.closeStart;
+    }
+    zip.file(name, output + xml.slice(copied));
+  }
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
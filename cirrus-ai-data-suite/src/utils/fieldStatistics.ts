@@ -0,0 +1,132 @@
+/**
+ * Field statistics gathered one record at a time
+ * Keeps running counts, ranges and a bounded set of distinct values per field, so a schema and
+ * profile can be produced for any number of records without keeping the records.
+ */
+
+export interface FieldStatistics {
+  name: string;
+  count: number; // Records that have the field, including nulls
+  nullCount: number;
+  types: Record<string, number>;
+  distinctCount: number; // Exact unless distinctCapped
+  distinctCapped: boolean;
+  topValues: Array<{ value: string; count: number }>;
+  min?: number;
+  max?: number;
+  mean?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+export interface SchemaField {
+  name: string;
+  type: string;
+  nullable: boolean;
+  examples: unknown[];
+}
+
+interface FieldAccumulator {
+  count: number;
+  nullCount: number;
+  types: Map<string, number>;
+  examples: unknown[];
+  values: Map<string, number>;
+  capped: boolean;
+  min?: number;
+  max?: number;
+  sum: number;
+  numbers: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+export const DISTINCT_VALUE_LIMIT = 1000;
+const EXAMPLE_COUNT = 3;
+const TOP_VALUE_COUNT = 5;
+
+export class FieldStatisticsCollector {
+  private fields = new Map<string, FieldAccumulator>();
+  private records = 0;
+
+  observe(data: Record<string, unknown>): void {
+    this.records++;
+    for (const [name, value] of Object.entries(data)) {
+      let field = this.fields.get(name);
+      if (!field) {
+        field = { count: 0, nullCount: 0, types: new Map(), examples: [], values: new Map(), capped: false, sum: 0, numbers: 0 };
+        this.fields.set(name, field);
+      }
+      field.count++;
+
+      if (value === null || value === undefined) {
+        field.nullCount++;
+        continue;
+      }
+
+      const type = typeof value;
+      field.types.set(type, (field.types.get(type) ?? 0) + 1);
+      if (field.examples.length < EXAMPLE_COUNT) {
+        field.examples.push(value);
+      }
+
+      if (type === 'number' && Number.isFinite(value)) {
+        const number = value as number;
+        field.min = field.min === undefined ? number : Math.min(field.min, number);
+        field.max = field.max === undefined ? number : Math.max(field.max, number);
+        field.sum += number;
+        field.numbers++;
+      } else if (type === 'string') {
+        const length = (value as string).length;
+        field.minLength = field.minLength === undefined ? length : Math.min(field.minLength, length);
+        field.maxLength = field.maxLength === undefined ? length : Math.max(field.maxLength, length);
+      }
+
+      const key = type === 'object' ? JSON.stringify(value) : String(value);
+      const seen = field.values.get(key);
+      if (seen !== undefined) {
+        field.values.set(key, seen + 1);
+      } else if (field.values.size < DISTINCT_VALUE_LIMIT) {
+        field.values.set(key, 1);
+      } else {
+        field.capped = true;
+      }
+    }
+  }
+
+  get recordCount(): number {
+    return this.records;
+  }
+
+  /**
+   * Fields in first-seen order, in the shape of DataTransformationService.analyzeSchema. A field is
+   * nullable when it was null or missing in any record.
+   */
+  schema(): { fields: SchemaField[] } {
+    return {
+      fields: Array.from(this.fields.entries()).map(([name, field]) => ({
+        name,
+        type: field.types.size === 1 ? Array.from(field.types.keys())[0] : 'mixed',
+        nullable: field.nullCount > 0 || field.count < this.records,
+        examples: field.examples
+      }))
+    };
+  }
+
+  statistics(): FieldStatistics[] {
+    return Array.from(this.fields.entries()).map(([name, field]) => ({
+      name,
+      count: field.count,
+      nullCount: field.nullCount,
+      types: Object.fromEntries(field.types),
+      distinctCount: field.values.size,
+      distinctCapped: field.capped,
+      topValues: Array.from(field.values.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_VALUE_COUNT)
+        .map(([value, count]) => ({ value, count })),
+      ...(field.numbers > 0 && { min: field.min, max: field.max, mean: field.sum / field.numbers }),
+      ...(field.minLength !== undefined && { minLength: field.minLength, maxLength: field.maxLength })
+    }));
+  }
+}
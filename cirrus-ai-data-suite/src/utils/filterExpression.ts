@@ -0,0 +1,389 @@
+/**
+ * Filter Expression
+ * Parses and evaluates the record filter expressions of pipeline filter nodes, such as
+ * `record.age > 18 && record.status === 'active'`. Only a whitelisted subset of JavaScript is
+ * understood: literals, `record` field access, comparison, arithmetic and logical operators,
+ * and a few string, array and Math functions. Nothing is ever executed as code.
+ */
+
+type Node =
+  | { type: 'literal'; value: unknown }
+  | { type: 'record' }
+  | { type: 'array'; items: Node[] }
+  | { type: 'member'; object: Node; property: Node }
+  | { type: 'call'; callee: string; receiver?: Node; args: Node[] }
+  | { type: 'unary'; operator: string; operand: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+  | { type: 'conditional'; test: Node; consequent: Node; alternate: Node };
+
+interface Token {
+  kind: 'number' | 'string' | 'name' | 'punct';
+  value: string;
+  position: number;
+}
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7
+};
+
+// Longest first, so "===" is not read as "==" followed by "="
+const PUNCTUATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '[', ']', '.', ',', '?', ':'];
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined };
+
+const STRING_METHODS = new Set(['includes', 'startsWith', 'endsWith', 'toLowerCase', 'toUpperCase', 'trim']);
+const GLOBAL_FUNCTIONS = new Set(['Number', 'String', 'Boolean']);
+const MATH_FUNCTIONS = new Set(['abs', 'round', 'floor', 'ceil', 'min', 'max']);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (source.startsWith('//', index)) {
+      // Line comments, as in the editor's example
+      while (index < source.length && source[index] !== '\n') index++;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[index + 1] || ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(index))!;
+      tokens.push({ kind: 'number', value: match[0], position: index });
+      index += match[0].length;
+    } else if (char === '"' || char === "'") {
+      const start = index;
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\') {
+          const escaped = source[++index];
+          value += ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[escaped] ?? escaped;
+        } else {
+          value += source[index];
+        }
+        index++;
+      }
+      if (index >= source.length) {
+        throw new Error(`Unterminated string at position ${start}`);
+      }
+      index++;
+      tokens.push({ kind: 'string', value, position: start });
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(index))!;
+      tokens.push({ kind: 'name', value: match[0], position: index });
+      index += match[0].length;
+    } else {
+      const punct = PUNCTUATORS.find(candidate => source.startsWith(candidate, index));
+      if (!punct) {
+        throw new Error(`Unexpected character "${char}" at position ${index}`);
+      }
+      tokens.push({ kind: 'punct', value: punct, position: index });
+      index += punct.length;
+    }
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    if (this.tokens.length === 0) {
+      throw new Error('Expression is empty');
+    }
+    const node = this.parseConditional();
+    const extra = this.peek();
+    if (extra) {
+      throw new Error(`Unexpected "${extra.value}" at position ${extra.position}`);
+    }
+    return node;
+  }
+
+  private parseConditional(): Node {
+    const test = this.parseBinary(1);
+    if (!this.accept('?')) return test;
+    const consequent = this.parseConditional();
+    this.expect(':');
+    return { type: 'conditional', test, consequent, alternate: this.parseConditional() };
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const precedence = token?.kind === 'punct' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (!precedence || precedence < minPrecedence) return left;
+      this.index++;
+      const right = this.parseBinary(precedence + 1);
+      left = { type: 'binary', operator: token!.value, left, right };
+    }
+  }
+
+  private parseUnary(): Node {
+    const token = this.peek();
+    if (token?.kind === 'punct' && ['!', '-', '+'].includes(token.value)) {
+      this.index++;
+      return { type: 'unary', operator: token.value, operand: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: Node): Node {
+    for (;;) {
+      if (this.accept('.')) {
+        const name = this.expectName();
+        if (this.peek()?.value === '(') {
+          node = this.parseMethodCall(node, name.value, name.position);
+        } else {
+          node = { type: 'member', object: node, property: { type: 'literal', value: name.value } };
+        }
+      } else if (this.accept('[')) {
+        const property = this.parseConditional();
+        this.expect(']');
+        node = { type: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseMethodCall(receiver: Node, name: string, position: number): Node {
+    const isMath = receiver.type === 'literal' && receiver.value === Math;
+    if (isMath ? !MATH_FUNCTIONS.has(name) : !STRING_METHODS.has(name)) {
+      throw new Error(`Function "${name}" is not allowed (position ${position})`);
+    }
+    const args = this.parseArguments();
+    return isMath ? { type: 'call', callee: `Math.${name}`, args } : { type: 'call', callee: name, receiver, args };
+  }
+
+  private parseArguments(): Node[] {
+    this.expect('(');
+    const args: Node[] = [];
+    if (!this.accept(')')) {
+      do {
+        args.push(this.parseConditional());
+      } while (this.accept(','));
+      this.expect(')');
+    }
+    return args;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new Error('Unexpected end of expression');
+    }
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'name':
+        if (token.value in KEYWORDS) return { type: 'literal', value: KEYWORDS[token.value] };
+        if (token.value === 'record') return { type: 'record' };
+        if (token.value === 'Math' && this.peek()?.value === '.') return { type: 'literal', value: Math };
+        if (GLOBAL_FUNCTIONS.has(token.value) && this.peek()?.value === '(') {
+          return { type: 'call', callee: token.value, args: this.parseArguments() };
+        }
+        throw new Error(`Unknown name "${token.value}" at position ${token.position}; refer to fields as record.field`);
+      case 'punct':
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const items: Node[] = [];
+          if (!this.accept(']')) {
+            do {
+              items.push(this.parseConditional());
+            } while (this.accept(','));
+            this.expect(']');
+          }
+          return { type: 'array', items };
+        }
+    }
+    throw new Error(`Unexpected "${token.value}" at position ${token.position}`);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private accept(punct: string): boolean {
+    const token = this.peek();
+    if (token?.kind === 'punct' && token.value === punct) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(punct: string): void {
+    if (!this.accept(punct)) {
+      const token = this.peek();
+      throw new Error(token ? `Expected "${punct}" at position ${token.position}` : `Expected "${punct}" at end of expression`);
+    }
+  }
+
+  private expectName(): Token {
+    const token = this.tokens[this.index++];
+    if (token?.kind !== 'name') {
+      throw new Error(`Expected a field name${token ? ` at position ${token.position}` : ''}`);
+    }
+    return token;
+  }
+}
+
+/**
+ * Read a property of a value. Only own data properties of records, objects and arrays and the
+ * length of strings are visible, so prototypes and functions can never be reached.
+ */
+function getProperty(object: unknown, property: unknown): unknown {
+  const key = String(property);
+  if (typeof object === 'string') {
+    return key === 'length' ? object.length : undefined;
+  }
+  if (Array.isArray(object) && key === 'length') {
+    return object.length;
+  }
+  if (object === null || typeof object !== 'object' || !Object.prototype.hasOwnProperty.call(object, key)) {
+    return undefined;
+  }
+  const value = (object as Record<string, unknown>)[key];
+  return typeof value === 'function' ? undefined : value;
+}
+
+function toPrimitive(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function callFunction(node: Extract<Node, { type: 'call' }>, args: unknown[], receiver: unknown): unknown {
+  switch (node.callee) {
+    case 'Number':
+      return Number(toPrimitive(args[0]));
+    case 'String':
+      return String(toPrimitive(args[0]));
+    case 'Boolean':
+      return Boolean(args[0]);
+    case 'Math.abs':
+    case 'Math.round':
+    case 'Math.floor':
+    case 'Math.ceil':
+      return Math[node.callee.slice(5) as 'abs' | 'round' | 'floor' | 'ceil'](Number(args[0]));
+    case 'Math.min':
+      return args.reduce<number>((min, value) => Math.min(min, Number(value)), Infinity);
+    case 'Math.max':
+      return args.reduce<number>((max, value) => Math.max(max, Number(value)), -Infinity);
+    case 'includes':
+      return Array.isArray(receiver)
+        ? receiver.some(item => toPrimitive(item) === toPrimitive(args[0]))
+        : String(toPrimitive(receiver) ?? '').includes(String(args[0]));
+    case 'startsWith':
+      return String(toPrimitive(receiver) ?? '').startsWith(String(args[0]));
+    case 'endsWith':
+      return String(toPrimitive(receiver) ?? '').endsWith(String(args[0]));
+    case 'toLowerCase':
+      return String(toPrimitive(receiver) ?? '').toLowerCase();
+    case 'toUpperCase':
+      return String(toPrimitive(receiver) ?? '').toUpperCase();
+    case 'trim':
+      return String(toPrimitive(receiver) ?? '').trim();
+  }
+  throw new Error(`Function "${node.callee}" is not allowed`);
+}
+
+function evaluate(node: Node, record: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'record':
+      return record;
+    case 'array':
+      return node.items.map(item => evaluate(item, record));
+    case 'member':
+      return getProperty(evaluate(node.object, record), evaluate(node.property, record));
+    case 'call':
+      return callFunction(
+        node,
+        node.args.map(arg => evaluate(arg, record)),
+        node.receiver ? evaluate(node.receiver, record) : undefined
+      );
+    case 'conditional':
+      return evaluate(node.test, record) ? evaluate(node.consequent, record) : evaluate(node.alternate, record);
+    case 'unary': {
+      const operand = toPrimitive(evaluate(node.operand, record));
+      if (node.operator === '!') return !operand;
+      return node.operator === '-' ? -Number(operand) : Number(operand);
+    }
+    case 'binary': {
+      const left = toPrimitive(evaluate(node.left, record));
+      // Logical operators short-circuit
+      if (node.operator === '&&') return left ? evaluate(node.right, record) : left;
+      if (node.operator === '||') return left ? left : evaluate(node.right, record);
+      if (node.operator === '??') return left ?? evaluate(node.right, record);
+
+      const right = toPrimitive(evaluate(node.right, record));
+      const a = left as number;
+      const b = right as number;
+      switch (node.operator) {
+        case '===': return left === right;
+        case '!==': return left !== right;
+        case '==': return left == right;
+        case '!=': return left != right;
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '>': return a > b;
+        case '>=': return a >= b;
+        case '+': return typeof left === 'string' || typeof right === 'string' ? `${left}${right}` : a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '%': return a % b;
+      }
+    }
+  }
+  throw new Error('Unsupported expression');
+}
+
+export class FilterExpression {
+  private constructor(readonly expression: string, private readonly root: Node) {}
+
+  /**
+   * Parse a filter expression. Throws with a descriptive message if it is invalid or uses
+   * anything outside the supported subset.
+   */
+  static parse(expression: string): FilterExpression {
+    try {
+      return new FilterExpression(expression, new Parser(tokenize(expression)).parse());
+    } catch (error) {
+      throw new Error(`Invalid filter expression: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  static isValid(expression: string): boolean {
+    try {
+      this.parse(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether a record passes the filter
+   */
+  matches(record: Record<string, unknown>): boolean {
+    return Boolean(evaluate(this.root, record));
+  }
+}
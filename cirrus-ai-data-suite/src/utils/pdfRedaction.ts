@@ -0,0 +1,784 @@
+import { decodePDFRawStream, PDFArray, PDFDict, PDFDocument, PDFName, PDFObject, PDFRawStream, PDFRef, PDFStream, rgb } from 'pdf-lib';
+
+/**
+ * PDF redaction
+ * pdf.js interprets each page and reports every glyph with its character code and position. Redacted
+ * glyphs are then removed from the page content streams with pdf-lib, replaced by an equal displacement
+ * so the rest of the line stays put, and a black box is drawn where they were. The original streams
+ * are then deleted from the file, so the text is gone rather than just covered or left unreferenced.
+ */
+
+export interface PdfBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfGlyph {
+  unicode: string;
+  code: number; // Character code in the font encoding
+  box: PdfBox; // Default user space
+  advance: number; // Text space displacement, excluding horizontal scaling
+}
+
+export interface PdfTextRun {
+  // Form XObject ordinals ("f2") then the text-showing operator ordinal, e.g. "f2/5"
+  path: string;
+  fontSize: number;
+  glyphs: PdfGlyph[];
+  spaceBefore: boolean[]; // A TJ gap wide enough to read as a space precedes the glyph
+}
+
+export interface PdfPageText {
+  page: number; // 1-based
+  text: string;
+  // Run and glyph index behind each character of text; null for inferred spaces and line breaks
+  chars: Array<[number, number] | null>;
+  runs: PdfTextRun[];
+}
+
+export interface PdfRedactionArea {
+  page: number;
+  start: number; // Character offsets into PdfPageText.text
+  end: number;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const TJ_SPACE_THRESHOLD = -200; // Thousandths of an em
+
+function multiply(a: Matrix, b: Matrix): Matrix {
+  return [
+    a[0] * b[0] + a[1] * b[2],
+    a[0] * b[1] + a[1] * b[3],
+    a[2] * b[0] + a[3] * b[2],
+    a[2] * b[1] + a[3] * b[3],
+    a[4] * b[0] + a[5] * b[2] + b[4],
+    a[4] * b[1] + a[5] * b[3] + b[5]
+  ];
+}
+
+function toMatrix(value: unknown): Matrix {
+  if (!value) return [...IDENTITY];
+  const m = value as ArrayLike<number>;
+  return [m[0], m[1], m[2], m[3], m[4], m[5]];
+}
+
+function boundingBox(points: Array<[number, number]>): PdfBox {
+  const xs = points.map(point => point[0]);
+  const ys = points.map(point => point[1]);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function apply(m: Matrix, x: number, y: number): [number, number] {
+  return [x * m[0] + y * m[2] + m[4], x * m[1] + y * m[3] + m[5]];
+}
+
+interface PdfjsGlyph {
+  unicode: string;
+  originalCharCode: number;
+  width: number;
+  isSpace: boolean;
+}
+
+interface PdfjsFont {
+  ascent?: number;
+  descent?: number;
+  fontMatrix?: number[];
+}
+
+interface TextState {
+  ctm: Matrix;
+  fontSize: number;
+  font: PdfjsFont;
+  charSpacing: number;
+  wordSpacing: number;
+  hScale: number;
+  leading: number;
+  rise: number;
+}
+
+async function loadPdfjs() {
+  return import('pdfjs-dist/legacy/build/pdf.mjs');
+}
+
+/**
+ * Text of every page with the position of each glyph
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<PdfPageText[]> {
+  const pdfjs = await loadPdfjs();
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(bytes),
+    disableFontFace: true,
+    fontExtraProperties: true,
+    isEvalSupported: false,
+    verbosity: pdfjs.VerbosityLevel.ERRORS
+  }).promise;
+
+  const names = Object.fromEntries(Object.entries(pdfjs.OPS).map(([name, code]) => [code, name]));
+  const pages: PdfPageText[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const operators = await page.getOperatorList({ annotationMode: pdfjs.AnnotationMode.DISABLE });
+      const runs: PdfTextRun[] = [];
+
+      let state: TextState = {
+        ctm: [...IDENTITY], fontSize: 0, font: {}, charSpacing: 0, wordSpacing: 0, hScale: 1, leading: 0, rise: 0
+      };
+      const stack: TextState[] = [];
+      let textMatrix: Matrix = [...IDENTITY];
+      let lineMatrix: Matrix = [...IDENTITY];
+      // One counter per content stream: [form ordinal, show ordinal]
+      const frames: Array<{ path: string; forms: number; shows: number }> = [{ path: '', forms: 0, shows: 0 }];
+
+      const moveText = (tx: number, ty: number) => {
+        lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+        textMatrix = [...lineMatrix];
+      };
+
+      const showText = (items: Array<PdfjsGlyph | number | null>) => {
+        const frame = frames[frames.length - 1];
+        const run: PdfTextRun = { path: `${frame.path}${frame.shows++}`, fontSize: state.fontSize, glyphs: [], spaceBefore: [] };
+        const widthScale = state.font.fontMatrix?.[0] ?? 0.001;
+        const ascent = state.font.ascent || 0.8;
+        const descent = state.font.descent || -0.2;
+        let gap = 0;
+
+        for (const item of items) {
+          if (item === null) continue;
+          if (typeof item === 'number') {
+            textMatrix = multiply([1, 0, 0, 1, (-item / 1000) * state.fontSize * state.hScale, 0], textMatrix);
+            gap += item;
+            continue;
+          }
+
+          const width = item.width * widthScale;
+          const rendering = multiply(multiply([state.fontSize * state.hScale, 0, 0, state.fontSize, 0, state.rise], textMatrix), state.ctm);
+          const advance = width * state.fontSize + state.charSpacing + (item.isSpace ? state.wordSpacing : 0);
+          run.glyphs.push({
+            unicode: item.unicode,
+            code: item.originalCharCode,
+            box: boundingBox([
+              apply(rendering, 0, descent), apply(rendering, width, descent),
+              apply(rendering, 0, ascent), apply(rendering, width, ascent)
+            ]),
+            advance
+          });
+          run.spaceBefore.push(gap <= TJ_SPACE_THRESHOLD);
+          gap = 0;
+          textMatrix = multiply([1, 0, 0, 1, advance * state.hScale, 0], textMatrix);
+        }
+        runs.push(run);
+      };
+
+      operators.fnArray.forEach((fn, i) => {
+        const args = operators.argsArray[i] as unknown[];
+        switch (names[fn]) {
+          case 'save':
+            stack.push({ ...state, ctm: [...state.ctm] });
+            break;
+          case 'restore':
+            state = stack.pop() ?? state;
+            break;
+          case 'transform':
+            state.ctm = multiply(toMatrix(args[0] && typeof args[0] === 'object' ? args[0] : args), state.ctm);
+            break;
+          case 'beginText':
+            textMatrix = [...IDENTITY];
+            lineMatrix = [...IDENTITY];
+            break;
+          case 'setTextMatrix':
+            textMatrix = toMatrix(args[0] && typeof args[0] === 'object' ? args[0] : args);
+            lineMatrix = [...textMatrix];
+            break;
+          case 'moveText':
+            moveText(args[0] as number, args[1] as number);
+            break;
+          case 'setLeadingMoveText':
+            state.leading = -(args[1] as number);
+            moveText(args[0] as number, args[1] as number);
+            break;
+          case 'nextLine':
+            moveText(0, -state.leading);
+            break;
+          case 'setLeading':
+            state.leading = args[0] as number;
+            break;
+          case 'setCharSpacing':
+            state.charSpacing = args[0] as number;
+            break;
+          case 'setWordSpacing':
+            state.wordSpacing = args[0] as number;
+            break;
+          case 'setHScale':
+            state.hScale = (args[0] as number) / 100;
+            break;
+          case 'setTextRise':
+            state.rise = args[0] as number;
+            break;
+          case 'setFont':
+            state.fontSize = args[1] as number;
+            state.font = page.commonObjs.has(args[0] as string) ? page.commonObjs.get(args[0] as string) as PdfjsFont : {};
+            break;
+          case 'showText':
+          case 'showSpacedText':
+            showText(args[0] as Array<PdfjsGlyph | number | null>);
+            break;
+          case 'paintFormXObjectBegin': {
+            const parent = frames[frames.length - 1];
+            stack.push({ ...state, ctm: [...state.ctm] });
+            state.ctm = multiply(toMatrix(args[0]), state.ctm);
+            frames.push({ path: `${parent.path}f${parent.forms++}/`, forms: 0, shows: 0 });
+            break;
+          }
+          case 'paintFormXObjectEnd':
+            frames.pop();
+            state = stack.pop() ?? state;
+            break;
+        }
+      });
+
+      pages.push({ page: pageNumber, ...assembleText(runs), runs });
+      page.cleanup();
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  return pages;
+}
+
+function assembleText(runs: PdfTextRun[]): { text: string; chars: Array<[number, number] | null> } {
+  let text = '';
+  const chars: Array<[number, number] | null> = [];
+  let previous: PdfBox | null = null;
+
+  const push = (value: string, source: [number, number] | null) => {
+    for (const char of value) {
+      text += char;
+      chars.push(source);
+    }
+  };
+
+  runs.forEach((run, r) => {
+    run.glyphs.forEach((glyph, g) => {
+      if (previous) {
+        const sameLine = Math.abs((previous.y + previous.height / 2) - (glyph.box.y + glyph.box.height / 2)) < Math.max(previous.height, glyph.box.height) / 2;
+        const gap = glyph.box.x - (previous.x + previous.width);
+        if (!sameLine) {
+          push('\n', null);
+        } else if ((run.spaceBefore[g] || (g === 0 && gap > glyph.box.height * 0.15)) && !/\s$/.test(text) && !/^\s/.test(glyph.unicode)) {
+          push(' ', null);
+        }
+      }
+      push(glyph.unicode, [r, g]);
+      previous = glyph.box;
+    });
+  });
+
+  return { text, chars };
+}
+
+/**
+ * Remove the glyphs behind each area from the page content and black out where they were.
+ * Returns the redacted file and the boxes that were drawn.
+ */
+export async function redactPdf(
+  bytes: Uint8Array,
+  pages: PdfPageText[],
+  areas: PdfRedactionArea[]
+): Promise<{ bytes: Uint8Array; boxes: Array<PdfBox & { page: number }> }> {
+  const document = await PDFDocument.load(bytes);
+  const drawn: Array<PdfBox & { page: number }> = [];
+  const replacedForms: ReplacedForm[] = [];
+
+  const byPage = new Map<number, PdfRedactionArea[]>();
+  areas.forEach(area => byPage.set(area.page, [...(byPage.get(area.page) ?? []), area]));
+
+  for (const [pageNumber, pageAreas] of byPage) {
+    const pageText = pages.find(page => page.page === pageNumber);
+    if (!pageText) {
+      throw new Error(`Page ${pageNumber} has no extracted text`);
+    }
+
+    // Glyph indexes to remove, keyed by run path
+    const removals = new Map<string, Set<number>>();
+    const boxes: PdfBox[] = [];
+    for (const area of pageAreas) {
+      for (let i = area.start; i < area.end; i++) {
+        const source = pageText.chars[i];
+        if (!source) continue;
+        const run = pageText.runs[source[0]];
+        if (!removals.has(run.path)) removals.set(run.path, new Set());
+        removals.get(run.path)!.add(source[1]);
+        boxes.push(run.glyphs[source[1]].box);
+      }
+    }
+
+    const runsByPath = new Map(pageText.runs.map(run => [run.path, run]));
+    const page = document.getPage(pageNumber - 1);
+    const { Resources } = page.node.normalizedEntries();
+    const content = readPageContent(document, page.node.Contents());
+    const rewritten = rewriteContent(document, content, Resources, '', removals, runsByPath, replacedForms);
+    const contentRef = document.context.register(document.context.flateStream(Buffer.from(rewritten, 'latin1')));
+    page.node.set(PDFName.of('Contents'), document.context.obj([contentRef]));
+
+    for (const box of mergeBoxes(boxes)) {
+      page.drawRectangle({ x: box.x, y: box.y, width: box.width, height: box.height, color: rgb(0, 0, 0) });
+      drawn.push({ page: pageNumber, ...box });
+    }
+  }
+
+  if (byPage.size > 0) {
+    removeUnusedForms(document, replacedForms);
+    deleteUnreachable(document);
+  }
+
+  return { bytes: await document.save(), boxes: drawn };
+}
+
+/**
+ * Drop the original of each copied form from its XObject dictionary, unless a page that was not
+ * redacted (or another form) still draws it
+ */
+function removeUnusedForms(document: PDFDocument, replacedForms: ReplacedForm[]): void {
+  if (replacedForms.length === 0) return;
+
+  const used = new Map<PDFDict, Set<string>>();
+  const visited = new Map<PDFStream, Set<PDFDict | undefined>>();
+  for (const page of document.getPages()) {
+    const { Resources } = page.node.normalizedEntries();
+    collectFormUse(document, readPageContent(document, page.node.Contents()), Resources, used, visited);
+  }
+
+  for (const { xObjects, name } of replacedForms) {
+    if (!used.get(xObjects)?.has(name)) {
+      xObjects.delete(PDFName.of(name));
+    }
+  }
+}
+
+// Names each XObject dictionary is drawn by, following forms into their own content
+function collectFormUse(
+  document: PDFDocument,
+  content: string,
+  resources: PDFDict | undefined,
+  used: Map<PDFDict, Set<string>>,
+  visited: Map<PDFStream, Set<PDFDict | undefined>>
+): void {
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  if (!xObjects) return;
+
+  for (const operation of parseOperations(content)) {
+    if (operation.operator !== 'Do') continue;
+    const name = operation.operands[0]?.value as string;
+    if (!used.has(xObjects)) used.set(xObjects, new Set());
+    used.get(xObjects)!.add(name);
+
+    const ref = xObjects.get(PDFName.of(name));
+    const form = ref ? document.context.lookup(ref) : undefined;
+    if (!(form instanceof PDFStream) || form.dict.get(PDFName.of('Subtype')) !== PDFName.of('Form')) continue;
+
+    // Forms without resources use their caller's, so each pairing is followed once
+    const formResources = form.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources;
+    if (!visited.has(form)) visited.set(form, new Set());
+    if (visited.get(form)!.has(formResources)) continue;
+    visited.get(form)!.add(formResources);
+    collectFormUse(document, streamContent(form), formResources, used, visited);
+  }
+}
+
+/**
+ * Delete every object the document no longer reaches from its trailer. This takes the replaced page
+ * content and forms out of the saved file, along with anything earlier edits had already orphaned.
+ */
+function deleteUnreachable(document: PDFDocument): void {
+  const { context } = document;
+  const reachable = new Set<PDFRef>();
+  const pending: PDFObject[] = [context.trailerInfo.Root, context.trailerInfo.Info, context.trailerInfo.Encrypt]
+    .filter((object): object is PDFObject => !!object);
+
+  while (pending.length > 0) {
+    const object = pending.pop()!;
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue;
+      reachable.add(object);
+      const target = context.lookup(object);
+      if (target) pending.push(target);
+    } else if (object instanceof PDFDict) {
+      for (const value of object.values()) pending.push(value);
+    } else if (object instanceof PDFArray) {
+      for (const item of object.asArray()) pending.push(item);
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref)) {
+      context.delete(ref);
+    }
+  }
+}
+
+// Neighbouring glyph boxes on the same line become one redaction box
+function mergeBoxes(boxes: PdfBox[]): PdfBox[] {
+  const merged: PdfBox[] = [];
+  const sorted = [...boxes].sort((a, b) => b.y - a.y || a.x - b.x);
+  for (const box of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && Math.abs(last.y - box.y) < Math.max(last.height, box.height) / 2 && box.x <= last.x + last.width + box.height * 0.5) {
+      const right = Math.max(last.x + last.width, box.x + box.width);
+      const top = Math.max(last.y + last.height, box.y + box.height);
+      last.y = Math.min(last.y, box.y);
+      last.width = right - last.x;
+      last.height = top - last.y;
+    } else {
+      merged.push({ ...box });
+    }
+  }
+  return merged;
+}
+
+function streamContent(stream: PDFStream): string {
+  const bytes = stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents();
+  return Buffer.from(bytes).toString('latin1');
+}
+
+function readPageContent(document: PDFDocument, contents: PDFStream | PDFArray | undefined): string {
+  if (!contents) return '';
+  if (contents instanceof PDFArray) {
+    // Page content arrays are one stream split across objects
+    return contents.asArray()
+      .map(ref => document.context.lookup(ref, PDFStream))
+      .map(streamContent)
+      .join('\n');
+  }
+  return streamContent(contents);
+}
+
+interface Token {
+  type: 'number' | 'name' | 'string' | 'keyword' | 'array' | 'dict' | 'other';
+  raw: string;
+  value?: number | string | number[];
+  bytes?: number[];
+  items?: Token[];
+}
+
+interface Operation {
+  operator: string;
+  operands: Token[];
+  start: number;
+  end: number;
+}
+
+const WHITESPACE = new Set(['\0', '\t', '\n', '\f', '\r', ' ']);
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+
+/**
+ * Split a content stream into operations, keeping source offsets so untouched operations are copied as-is
+ */
+function parseOperations(content: string): Operation[] {
+  const operations: Operation[] = [];
+  let position = 0;
+
+  const skipWhitespace = () => {
+    while (position < content.length) {
+      if (WHITESPACE.has(content[position])) {
+        position++;
+      } else if (content[position] === '%') {
+        while (position < content.length && content[position] !== '\n' && content[position] !== '\r') position++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readToken = (): Token | null => {
+    skipWhitespace();
+    if (position >= content.length) return null;
+    const start = position;
+    const char = content[position];
+
+    if (char === '(') {
+      const bytes: number[] = [];
+      let depth = 0;
+      position++;
+      while (position < content.length) {
+        const c = content[position++];
+        if (c === '\\') {
+          const next = content[position++];
+          const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 };
+          if (next in escapes) {
+            bytes.push(escapes[next]);
+          } else if (/[0-7]/.test(next)) {
+            let octal = next;
+            while (octal.length < 3 && /[0-7]/.test(content[position])) octal += content[position++];
+            bytes.push(parseInt(octal, 8) & 0xff);
+          } else if (next === '\r') {
+            if (content[position] === '\n') position++;
+          } else if (next !== '\n') {
+            bytes.push(next.charCodeAt(0));
+          }
+        } else if (c === '(') {
+          depth++;
+          bytes.push(40);
+        } else if (c === ')') {
+          if (depth === 0) break;
+          depth--;
+          bytes.push(41);
+        } else {
+          bytes.push(c.charCodeAt(0));
+        }
+      }
+      return { type: 'string', raw: content.slice(start, position), bytes };
+    }
+
+    if (char === '<' && content[position + 1] === '<') {
+      // Dictionaries only appear as operands we never rewrite; keep them whole
+      let depth = 0;
+      while (position < content.length) {
+        if (content.startsWith('<<', position)) {
+          depth++;
+          position += 2;
+        } else if (content.startsWith('>>', position)) {
+          depth--;
+          position += 2;
+          if (depth === 0) break;
+        } else if (content[position] === '(') {
+          readToken();
+        } else {
+          position++;
+        }
+      }
+      return { type: 'dict', raw: content.slice(start, position) };
+    }
+
+    if (char === '<') {
+      const end = content.indexOf('>', position);
+      position = end === -1 ? content.length : end + 1;
+      let hex = content.slice(start + 1, position - 1).replace(/[^0-9A-Fa-f]/g, '');
+      if (hex.length % 2) hex += '0';
+      const bytes = hex.match(/../g)?.map(pair => parseInt(pair, 16)) ?? [];
+      return { type: 'string', raw: content.slice(start, position), bytes };
+    }
+
+    if (char === '[') {
+      position++;
+      const items: Token[] = [];
+      for (;;) {
+        skipWhitespace();
+        if (position >= content.length) break;
+        if (content[position] === ']') {
+          position++;
+          break;
+        }
+        const item = readToken();
+        if (!item) break;
+        items.push(item);
+      }
+      return { type: 'array', raw: content.slice(start, position), items };
+    }
+
+    if (char === '/') {
+      position++;
+      while (position < content.length && !WHITESPACE.has(content[position]) && !DELIMITERS.has(content[position])) position++;
+      return { type: 'name', raw: content.slice(start, position), value: content.slice(start + 1, position) };
+    }
+
+    if (DELIMITERS.has(char)) {
+      position++;
+      return { type: 'other', raw: char };
+    }
+
+    while (position < content.length && !WHITESPACE.has(content[position]) && !DELIMITERS.has(content[position])) position++;
+    const raw = content.slice(start, position);
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(raw)) {
+      return { type: 'number', raw, value: parseFloat(raw) };
+    }
+    return { type: ['true', 'false', 'null'].includes(raw) ? 'other' : 'keyword', raw };
+  };
+
+  let operands: Token[] = [];
+  let start = -1;
+  for (;;) {
+    skipWhitespace();
+    const tokenStart = position;
+    const token = readToken();
+    if (!token) break;
+    if (start === -1) start = tokenStart;
+
+    if (token.type !== 'keyword') {
+      operands.push(token);
+      continue;
+    }
+
+    if (token.raw === 'BI') {
+      // Inline image data is binary; copy everything up to EI untouched
+      const match = /\sEI(?=[\s]|$)/g;
+      match.lastIndex = content.indexOf('ID', position) + 3;
+      const found = match.exec(content);
+      position = found ? found.index + found[0].length : content.length;
+    }
+
+    operations.push({ operator: token.raw, operands, start, end: position });
+    operands = [];
+    start = -1;
+  }
+
+  return operations;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+function hexString(bytes: number[]): string {
+  return `<${bytes.map(byte => byte.toString(16).padStart(2, '0')).join('')}>`;
+}
+
+/**
+ * Rebuild a text-showing operation without the removed glyphs. Each removed glyph becomes a TJ
+ * displacement of the same width, so the remaining glyphs keep their positions.
+ */
+function rewriteShowOperation(operation: Operation, run: PdfTextRun, removed: Set<number>): string {
+  const stringOperand = operation.operands[operation.operands.length - 1];
+  const elements = stringOperand.type === 'array' ? stringOperand.items ?? [] : [stringOperand];
+
+  const byteCount = elements.reduce((total, element) => total + (element.type === 'string' ? element.bytes!.length : 0), 0);
+  const codeLength = byteCount === run.glyphs.length ? 1 : byteCount === run.glyphs.length * 2 ? 2 : 0;
+  const removeAll = codeLength === 0; // Mixed-length encodings cannot be split safely, so the whole operation goes
+
+  const output: Array<string | number> = [];
+  const pushNumber = (value: number) => {
+    const last = output[output.length - 1];
+    if (typeof last === 'number') output[output.length - 1] = last + value;
+    else output.push(value);
+  };
+  let pending: number[] = [];
+  const flush = () => {
+    if (pending.length > 0) output.push(hexString(pending));
+    pending = [];
+  };
+
+  const displacement = (glyph: PdfGlyph) => (run.fontSize ? (-glyph.advance * 1000) / run.fontSize : 0);
+
+  if (removeAll) {
+    run.glyphs.forEach(glyph => pushNumber(displacement(glyph)));
+    elements.forEach(element => {
+      if (element.type === 'number') pushNumber(element.value as number);
+    });
+  } else {
+    let glyphIndex = 0;
+    for (const element of elements) {
+      if (element.type === 'number') {
+        flush();
+        pushNumber(element.value as number);
+        continue;
+      }
+      if (element.type !== 'string') continue;
+
+      const bytes = element.bytes!;
+      for (let offset = 0; offset < bytes.length; offset += codeLength) {
+        const code = codeLength === 1 ? bytes[offset] : (bytes[offset] << 8) | bytes[offset + 1];
+        const glyph = run.glyphs[glyphIndex];
+        if (!glyph || glyph.code !== code) {
+          throw new Error(`PDF text at ${run.path} does not match the extracted glyphs`);
+        }
+        if (removed.has(glyphIndex)) {
+          flush();
+          pushNumber(displacement(glyph));
+        } else {
+          pending.push(...bytes.slice(offset, offset + codeLength));
+        }
+        glyphIndex++;
+      }
+    }
+    flush();
+  }
+
+  const array = `[${output.map(item => (typeof item === 'number' ? formatNumber(item) : item)).join(' ')}] TJ`;
+  if (operation.operator === "'") {
+    return `T* ${array}`;
+  }
+  if (operation.operator === '"') {
+    return `${operation.operands[0].raw} Tw ${operation.operands[1].raw} Tc T* ${array}`;
+  }
+  return array;
+}
+
+const SHOW_OPERATORS = new Set(['Tj', 'TJ', "'", '"']);
+
+// A form that was copied without the removed glyphs, by its name in an XObject dictionary
+interface ReplacedForm {
+  xObjects: PDFDict;
+  name: string;
+}
+
+/**
+ * Rewrite one content stream, descending into form XObjects that contain removed glyphs.
+ * Forms are copied rather than edited in place, since other pages may share them.
+ */
+function rewriteContent(
+  document: PDFDocument,
+  content: string,
+  resources: PDFDict | undefined,
+  prefix: string,
+  removals: Map<string, Set<number>>,
+  runs: Map<string, PdfTextRun>,
+  replacedForms: ReplacedForm[]
+): string {
+  const operations = parseOperations(content);
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  let shows = 0;
+  let forms = 0;
+  let output = '';
+  let copied = 0;
+
+  const replace = (operation: Operation, replacement: string) => {
+    output += content.slice(copied, operation.start) + replacement;
+    copied = operation.end;
+  };
+
+  for (const operation of operations) {
+    if (SHOW_OPERATORS.has(operation.operator)) {
+      const path = `${prefix}${shows++}`;
+      const removed = removals.get(path);
+      const run = runs.get(path);
+      if (removed && run) {
+        replace(operation, rewriteShowOperation(operation, run, removed));
+      }
+    } else if (operation.operator === 'Do' && xObjects) {
+      const name = operation.operands[0]?.value as string;
+      const ref = xObjects.get(PDFName.of(name));
+      const form = ref ? document.context.lookup(ref) : undefined;
+      if (!(form instanceof PDFStream) || form.dict.get(PDFName.of('Subtype')) !== PDFName.of('Form')) continue;
+
+      const formPrefix = `${prefix}f${forms++}/`;
+      if (![...removals.keys()].some(path => path.startsWith(formPrefix))) continue;
+
+      const formResources = form.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources;
+      const rewritten = rewriteContent(document, streamContent(form), formResources, formPrefix, removals, runs, replacedForms);
+      const copy = form.dict.clone(document.context);
+      copy.delete(PDFName.of('Filter'));
+      copy.delete(PDFName.of('DecodeParms'));
+      copy.delete(PDFName.of('Length'));
+      const copyRef: PDFRef = document.context.register(
+        document.context.flateStream(Buffer.from(rewritten, 'latin1'), Object.fromEntries(copy.entries().map(([key, value]) => [key.asString().slice(1), value])))
+      );
+      let copyName = `${name}R`;
+      while (xObjects.has(PDFName.of(copyName))) copyName += 'R';
+      xObjects.set(PDFName.of(copyName), copyRef);
+      replacedForms.push({ xObjects, name });
+      replace(operation, `/${copyName} Do`);
+    }
+  }
+
+  return output + content.slice(copied);
+}
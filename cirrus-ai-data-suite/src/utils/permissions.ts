@@ -0,0 +1,65 @@
+import type { DataSourceRole, Permission, UserRole } from '@/types/auth';
+
+/**
+ * Role-based access control
+ * Shared by API routes and the UI so both agree on what each role may do.
+ */
+
+export const USER_ROLES: UserRole[] = ['viewer', 'analyst', 'data_steward', 'admin'];
+export const DATA_SOURCE_ROLES: DataSourceRole[] = ['viewer', 'analyst', 'data_steward'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  analyst: 'Analyst',
+  data_steward: 'Data Steward',
+  admin: 'Admin'
+};
+
+const ANALYST_PERMISSIONS: Permission[] = ['data_sources:write', 'remediation:create'];
+const STEWARD_PERMISSIONS: Permission[] = [
+  ...ANALYST_PERMISSIONS,
+  'data_sources:delete',
+  'patterns:write',
+  'remediation:approve'
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: [],
+  analyst: ANALYST_PERMISSIONS,
+  data_steward: STEWARD_PERMISSIONS,
+  admin: [...STEWARD_PERMISSIONS, 'data_sources:share', 'pseudonyms:reidentify', 'users:manage']
+};
+
+// Permissions that a per-data-source grant can raise
+export const DATA_SOURCE_PERMISSIONS: Permission[] = [
+  'data_sources:write',
+  'data_sources:delete',
+  'remediation:create',
+  'remediation:approve'
+];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+export function isDataSourceRole(value: unknown): value is DataSourceRole {
+  return typeof value === 'string' && (DATA_SOURCE_ROLES as string[]).includes(value);
+}
+
+/**
+ * The more privileged of a user's global role and their grant on a data source
+ */
+export function effectiveRole(role: UserRole, dataSourceRole?: DataSourceRole): UserRole {
+  if (!dataSourceRole) {
+    return role;
+  }
+  return USER_ROLES.indexOf(dataSourceRole) > USER_ROLES.indexOf(role) ? dataSourceRole : role;
+}
+
+/**
+ * Check whether a role, optionally raised by a data source grant, has a permission
+ */
+export function hasPermission(role: UserRole, permission: Permission, dataSourceRole?: DataSourceRole): boolean {
+  const resolved = DATA_SOURCE_PERMISSIONS.includes(permission) ? effectiveRole(role, dataSourceRole) : role;
+  return ROLE_PERMISSIONS[resolved].includes(permission);
+}
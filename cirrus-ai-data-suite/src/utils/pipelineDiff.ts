@@ -0,0 +1,117 @@
+/**
+ * Pipeline Diff
+ * Structural comparison of two pipeline definitions: nodes added, removed or
+ * reconfigured, edge changes and pipeline setting changes. Node positions are
+ * layout only and are ignored.
+ */
+
+import {
+  Pipeline,
+  PipelineDiff,
+  PipelineEdge,
+  PipelineFieldChange,
+  PipelineNode,
+  PipelineNodeChange
+} from '@/types/pipeline';
+
+export type PipelineDefinition = Pick<
+  Pipeline,
+  'name' | 'description' | 'nodes' | 'edges' | 'triggers' | 'schedule' | 'tags'
+> & { version?: number };
+
+const SETTING_FIELDS = ['name', 'description', 'triggers', 'schedule', 'tags'] as const;
+
+/**
+ * JSON serialization with sorted object keys, so key order never counts as a change
+ */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined && typeof item !== 'function')
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+}
+
+/**
+ * Edges are matched on their endpoints rather than their generated ids
+ */
+export function getEdgeKey(edge: PipelineEdge): string {
+  return `${edge.source}:${edge.sourceHandle || ''}->${edge.target}:${edge.targetHandle || ''}`;
+}
+
+/**
+ * Compare two pipeline definitions
+ */
+export function diffPipelines(from: PipelineDefinition, to: PipelineDefinition): PipelineDiff {
+  const fromNodes = new Map(from.nodes.map(node => [node.id, node]));
+  const toNodes = new Map(to.nodes.map(node => [node.id, node]));
+
+  const added = to.nodes.filter(node => !fromNodes.has(node.id)).map(node => describeNode(node, []));
+  const removed = from.nodes.filter(node => !toNodes.has(node.id)).map(node => describeNode(node, []));
+  const modified: PipelineNodeChange[] = [];
+  for (const node of to.nodes) {
+    const previous = fromNodes.get(node.id);
+    if (!previous) continue;
+    const changes = diffNode(previous, node);
+    if (changes.length > 0) {
+      modified.push(describeNode(node, changes));
+    }
+  }
+
+  const fromEdges = new Map(from.edges.map(edge => [getEdgeKey(edge), edge]));
+  const toEdges = new Map(to.edges.map(edge => [getEdgeKey(edge), edge]));
+  const addedEdges = to.edges.filter(edge => !fromEdges.has(getEdgeKey(edge)));
+  const removedEdges = from.edges.filter(edge => !toEdges.has(getEdgeKey(edge)));
+
+  const settings: PipelineFieldChange[] = [];
+  for (const field of SETTING_FIELDS) {
+    if (stableStringify(from[field]) !== stableStringify(to[field])) {
+      settings.push({ path: field, before: from[field], after: to[field] });
+    }
+  }
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    nodes: { added, removed, modified },
+    edges: { added: addedEdges, removed: removedEdges },
+    settings,
+    hasChanges: added.length + removed.length + modified.length + addedEdges.length + removedEdges.length + settings.length > 0
+  };
+}
+
+function describeNode(node: PipelineNode, changes: PipelineFieldChange[]): PipelineNodeChange {
+  const templateName = node.data.metadata?.templateName;
+  return {
+    nodeId: node.id,
+    label: node.data.label,
+    templateName: typeof templateName === 'string' ? templateName : undefined,
+    changes
+  };
+}
+
+function diffNode(before: PipelineNode, after: PipelineNode): PipelineFieldChange[] {
+  const changes: PipelineFieldChange[] = [];
+  const compare = (path: string, a: unknown, b: unknown) => {
+    if (stableStringify(a) !== stableStringify(b)) {
+      changes.push({ path, before: a, after: b });
+    }
+  };
+
+  compare('type', before.type, after.type);
+  compare('label', before.data.label, after.data.label);
+
+  // Report configuration changes per key so the diff points at the setting that changed
+  const configKeys = new Set([...Object.keys(before.data.config || {}), ...Object.keys(after.data.config || {})]);
+  for (const key of Array.from(configKeys).sort()) {
+    compare(`config.${key}`, before.data.config?.[key], after.data.config?.[key]);
+  }
+
+  compare('inputs', before.data.inputs, after.data.inputs);
+  compare('outputs', before.data.outputs, after.data.outputs);
+  return changes;
+}
@@ -0,0 +1,28 @@
+/**
+ * Record leaves
+ * Walks the strings and numbers of a record at any depth, so redaction reaches values nested in
+ * objects and arrays (JSON and MongoDB sources) as well as top-level fields.
+ */
+
+/**
+ * Rebuild a value with every string and finite number passed through fn. Nested fields are passed
+ * as dotted paths, and array items share their parent's path so counts roll up per field.
+ */
+export function mapLeaves(
+  value: unknown,
+  path: string,
+  fn: (leaf: string | number, path: string) => unknown
+): unknown {
+  if (typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value))) {
+    return fn(value, path);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapLeaves(item, path, fn));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, mapLeaves(child, path ? `${path}.${key}` : key, fn)])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,208 @@
+import type { NextRequest } from 'next/server';
+import type { SessionTokenPayload, SessionUser } from '@/types/auth';
+
+/**
+ * Session tokens
+ * HS256-signed JWTs built on Web Crypto so they can be verified in middleware (Edge runtime)
+ * as well as in API routes (Node runtime).
+ */
+
+export const SESSION_COOKIE = 'cirrus_session';
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+// Set by the middleware after verifying the session; client-supplied values are stripped
+export const USER_ID_HEADER = 'x-cirrus-user-id';
+export const USERNAME_HEADER = 'x-cirrus-username';
+export const USER_DISPLAY_NAME_HEADER = 'x-cirrus-user-display-name';
+
+// Sent by the server with requests to its own API routes, such as cron jobs triggering a transform
+export const INTERNAL_REQUEST_HEADER = 'x-cirrus-internal-request';
+const INTERNAL_REQUEST_MESSAGE = 'cirrus-internal-request';
+
+const DEVELOPMENT_SECRET = 'cirrus-development-session-secret';
+let warnedAboutSecret = false;
+
+export function getSessionSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) {
+    return secret;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET environment variable is required in production');
+  }
+
+  if (!warnedAboutSecret) {
+    console.warn('AUTH_SECRET is not set, signing sessions with the development secret');
+    warnedAboutSecret = true;
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Sign a session token for a user
+ */
+export async function signSessionToken(
+  user: SessionUser,
+  options: { secret?: string; ttlSeconds?: number; now?: number } = {}
+): Promise<string> {
+  const issuedAt = Math.floor((options.now ?? Date.now()) / 1000);
+  const payload: SessionTokenPayload = {
+    sub: user.id,
+    username: user.username,
+    name: user.displayName,
+    iat: issuedAt,
+    exp: issuedAt + (options.ttlSeconds ?? SESSION_TTL_SECONDS)
+  };
+
+  const encoder = new TextEncoder();
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const key = await importKey(options.secret ?? getSessionSecret());
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${header}.${body}`));
+
+  return `${header}.${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a session token and return its user, or null when it is malformed, forged or expired
+ */
+export async function verifySessionToken(
+  token: string,
+  options: { secret?: string; now?: number } = {}
+): Promise<SessionUser | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const [header, body, signature] = parts;
+    const headerJson = JSON.parse(new TextDecoder().decode(base64UrlDecode(header)));
+    if (headerJson.alg !== 'HS256') {
+      return null;
+    }
+
+    const key = await importKey(options.secret ?? getSessionSecret());
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlDecode(signature),
+      new TextEncoder().encode(`${header}.${body}`)
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(body))) as SessionTokenPayload;
+    const now = Math.floor((options.now ?? Date.now()) / 1000);
+    if (!payload.sub || !payload.username || typeof payload.exp !== 'number' || payload.exp <= now) {
+      return null;
+    }
+
+    return { id: payload.sub, username: payload.username, displayName: payload.name };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Token marking a request the server makes to its own API routes. It is derived from the
+ * session secret, so it does not reveal the secret and changes along with it.
+ */
+export async function getInternalRequestToken(options: { secret?: string } = {}): Promise<string> {
+  const key = await importKey(options.secret ?? getSessionSecret());
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(INTERNAL_REQUEST_MESSAGE));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+/**
+ * Headers for a request from the server to one of its own API routes
+ */
+export async function internalRequestHeaders(): Promise<Record<string, string>> {
+  return {
+    'Content-Type': 'application/json',
+    [INTERNAL_REQUEST_HEADER]: await getInternalRequestToken()
+  };
+}
+
+/**
+ * Whether a request carries a valid internal request token
+ */
+export async function isInternalRequest(request: Request, options: { secret?: string } = {}): Promise<boolean> {
+  const token = request.headers.get(INTERNAL_REQUEST_HEADER);
+  if (!token) {
+    return false;
+  }
+
+  try {
+    // HMAC verification compares in constant time
+    const key = await importKey(options.secret ?? getSessionSecret());
+    return await crypto.subtle.verify('HMAC', key, base64UrlDecode(token), new TextEncoder().encode(INTERNAL_REQUEST_MESSAGE));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the session token from the session cookie or a bearer Authorization header
+ */
+export function getSessionToken(request: NextRequest): string | null {
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value;
+  if (cookie) {
+    return cookie;
+  }
+
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+  return null;
+}
+
+/**
+ * Get the authenticated user of an API request, as verified by the middleware
+ */
+export function getRequestUser(request: Request): SessionUser | null {
+  const id = request.headers.get(USER_ID_HEADER);
+  const username = request.headers.get(USERNAME_HEADER);
+  if (!id || !username) {
+    return null;
+  }
+
+  const displayName = request.headers.get(USER_DISPLAY_NAME_HEADER);
+  return {
+    id,
+    username: decodeURIComponent(username),
+    displayName: displayName ? decodeURIComponent(displayName) : undefined
+  };
+}
+
+/**
+ * Name recorded in createdBy/updatedBy/performedBy columns for a request
+ */
+export function getRequestActor(request: Request, fallback = 'system'): string {
+  return getRequestUser(request)?.username ?? fallback;
+}
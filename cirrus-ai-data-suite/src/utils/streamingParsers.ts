@@ -0,0 +1,314 @@
+/**
+ * Incremental parsers
+ * Parse CSV, JSON arrays and JSON Lines from text that arrives in pieces, so files can be read from a
+ * stream without holding them in memory. Each parser takes text with push(), returns the rows or
+ * values it completed, and returns the rest from flush() at the end of the input.
+ */
+
+export interface IncrementalParser<T> {
+  push(text: string): T[];
+  flush(): T[];
+}
+
+export interface CsvOptions {
+  delimiter?: string;
+  quote?: string;
+}
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const WHITESPACE = /\s/;
+
+/**
+ * RFC 4180 CSV: quoted fields may contain delimiters, doubled quotes and line breaks, and rows end
+ * with LF or CRLF. Unquoted fields are trimmed and blank lines are skipped.
+ */
+export class CsvParser implements IncrementalParser<string[]> {
+  private readonly delimiter: string;
+  private readonly quote: string;
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  private quoteSeen = false; // A quote inside a quoted field: either an escape or the closing quote
+  private fieldQuoted = false;
+  private skipLineFeed = false;
+
+  constructor(options: CsvOptions = {}) {
+    this.delimiter = options.delimiter ?? ',';
+    this.quote = options.quote ?? '"';
+  }
+
+  push(text: string): string[][] {
+    const rows: string[][] = [];
+
+    for (const char of text) {
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.quoteSeen) {
+          this.quoteSeen = false;
+          if (char === this.quote) {
+            this.field += char;
+            continue;
+          }
+          this.inQuotes = false;
+        } else if (char === this.quote) {
+          this.quoteSeen = true;
+          continue;
+        } else {
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === this.quote && !this.fieldQuoted && this.field.trim() === '') {
+        this.inQuotes = true;
+        this.fieldQuoted = true;
+        this.field = '';
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.skipLineFeed = char === '\r';
+        this.endRow(rows);
+      } else {
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+
+  flush(): string[][] {
+    if (this.inQuotes && !this.quoteSeen) {
+      throw new Error('CSV ends inside a quoted field');
+    }
+    this.inQuotes = false;
+    this.quoteSeen = false;
+    const rows: string[][] = [];
+    this.endRow(rows);
+    return rows;
+  }
+
+  private endField(): void {
+    this.row.push(this.fieldQuoted ? this.field : this.field.trim());
+    this.field = '';
+    this.fieldQuoted = false;
+  }
+
+  private endRow(rows: string[][]): void {
+    this.endField();
+    const blank = this.row.length === 1 && this.row[0] === '';
+    if (!blank) {
+      rows.push(this.row);
+    }
+    this.row = [];
+  }
+}
+
+/**
+ * The candidate delimiter that splits the sample's first lines into the same number of fields most
+ * consistently, ignoring delimiters inside quotes
+ */
+export function detectDelimiter(sample: string, quote: string = '"'): string {
+  const lines = sample.split(/\r?\n/).filter(line => line.trim()).slice(0, 20);
+  // The last line may be cut off mid-row
+  if (lines.length > 1) lines.pop();
+  if (lines.length === 0) return ',';
+
+  const count = (line: string, delimiter: string) => {
+    let total = 0;
+    let quoted = false;
+    for (const char of line) {
+      if (char === quote) quoted = !quoted;
+      else if (char === delimiter && !quoted) total++;
+    }
+    return total;
+  };
+
+  let best = { delimiter: ',', consistent: 0, fields: 0 };
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const fields = count(lines[0], delimiter);
+    if (fields === 0) continue;
+    const consistent = lines.filter(line => count(line, delimiter) === fields).length;
+    if (consistent > best.consistent || (consistent === best.consistent && fields > best.fields)) {
+      best = { delimiter, consistent, fields };
+    }
+  }
+  return best.delimiter;
+}
+
+/**
+ * One JSON value per line; blank lines are skipped
+ */
+export class JsonLinesParser implements IncrementalParser<unknown> {
+  private partial = '';
+  private line = 0;
+
+  push(text: string): unknown[] {
+    const lines = (this.partial + text).split('\n');
+    this.partial = lines.pop() ?? '';
+    return lines.flatMap(line => this.parseLine(line));
+  }
+
+  flush(): unknown[] {
+    const rest = this.partial;
+    this.partial = '';
+    return this.parseLine(rest);
+  }
+
+  private parseLine(line: string): unknown[] {
+    this.line++;
+    if (!line.trim()) return [];
+    try {
+      return [JSON.parse(line)];
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${this.line}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+/**
+ * The elements of a top-level JSON array, each parsed as soon as it is complete. A document that is
+ * a single object is returned whole from flush(), since it has no elements to stream.
+ */
+export class JsonArrayParser implements IncrementalParser<unknown> {
+  private state: 'start' | 'array' | 'object' | 'end' = 'start';
+  private element = '';
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+
+  push(text: string): unknown[] {
+    const values: unknown[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.state === 'object') {
+        this.element += text.slice(i);
+        break;
+      }
+      if (this.state === 'start') {
+        if (WHITESPACE.test(char)) continue;
+        if (char === '[') {
+          this.state = 'array';
+        } else if (char === '{') {
+          this.state = 'object';
+          this.element = char;
+        } else {
+          throw new Error('JSON must be an array or an object');
+        }
+        continue;
+      }
+      if (this.state === 'end') {
+        if (!WHITESPACE.test(char)) throw new Error('Unexpected content after the JSON array');
+        continue;
+      }
+
+      if (this.inString) {
+        this.element += char;
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.depth === 0) this.emit(values);
+        }
+        continue;
+      }
+
+      if (this.depth === 0) {
+        if (this.element === '') {
+          // Between elements
+          if (WHITESPACE.test(char) || char === ',') continue;
+          if (char === ']') {
+            this.state = 'end';
+            continue;
+          }
+        } else if (char === ',' || char === ']' || WHITESPACE.test(char)) {
+          // End of a number or literal
+          this.emit(values);
+          if (char === ']') this.state = 'end';
+          continue;
+        }
+      }
+
+      this.element += char;
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (this.depth === 0) this.emit(values);
+      }
+    }
+
+    return values;
+  }
+
+  flush(): unknown[] {
+    if (this.state === 'object') {
+      const document = this.element;
+      this.element = '';
+      this.state = 'end';
+      return [JSON.parse(document)];
+    }
+    if (this.state === 'array') {
+      throw new Error('JSON array is not closed');
+    }
+    return [];
+  }
+
+  private emit(values: unknown[]): void {
+    values.push(JSON.parse(this.element));
+    this.element = '';
+  }
+}
+
+/**
+ * Decode bytes to text as they arrive. Without an encoding, a UTF-16 byte order mark selects
+ * UTF-16 and anything else is read as UTF-8. Byte order marks are not part of the text.
+ */
+export async function* decodeText(
+  chunks: AsyncIterable<Uint8Array | string> | Iterable<Uint8Array | string>,
+  encoding?: string
+): AsyncGenerator<string> {
+  let decoder: TextDecoder | null = null;
+
+  for await (const chunk of chunks) {
+    const bytes = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    if (!decoder) {
+      const label = encoding
+        ?? (bytes[0] === 0xff && bytes[1] === 0xfe ? 'utf-16le'
+          : bytes[0] === 0xfe && bytes[1] === 0xff ? 'utf-16be'
+            : 'utf-8');
+      try {
+        decoder = new TextDecoder(label);
+      } catch {
+        throw new Error(`Unsupported encoding: ${label}`);
+      }
+    }
+    const text = decoder.decode(bytes, { stream: true });
+    if (text) yield text;
+  }
+
+  const rest = decoder?.decode() ?? '';
+  if (rest) yield rest;
+}
+
+/**
+ * Feed text chunks through a parser, yielding values as they complete
+ */
+export async function* parseIncrementally<T>(
+  chunks: AsyncIterable<string>,
+  parser: IncrementalParser<T>
+): AsyncGenerator<T> {
+  for await (const chunk of chunks) {
+    yield* parser.push(chunk);
+  }
+  yield* parser.flush();
+}
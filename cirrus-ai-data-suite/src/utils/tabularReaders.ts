@@ -0,0 +1,350 @@
+import JSZip from 'jszip';
+
+/**
+ * Tabular file readers
+ * Excel workbooks and Parquet files read into tables of typed rows. Each worksheet is a table, and
+ * so is each Parquet row group; the rows of both are only decoded when they are iterated. Values are
+ * converted to JSON: dates become ISO strings, 64-bit integers numbers (or strings when too large
+ * to be exact) and binary values base64.
+ */
+
+export type TabularFormat = 'xlsx' | 'parquet';
+
+export interface TabularColumn {
+  name: string;
+  type: string; // string, number, integer, boolean, date, timestamp, json, array, object, binary or mixed
+}
+
+export interface TabularTable {
+  name: string;
+  type: 'sheet' | 'row_group';
+  columns: TabularColumn[];
+  rowCount: number;
+  rows: Iterable<Record<string, unknown>> | AsyncIterable<Record<string, unknown>>;
+}
+
+type CellKind = 'string' | 'number' | 'boolean' | 'date';
+
+const TABULAR_EXTENSIONS: Record<string, TabularFormat> = {
+  xlsx: 'xlsx',
+  parquet: 'parquet'
+};
+
+const TABULAR_MIME_TYPES: Record<string, TabularFormat> = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.apache.parquet': 'parquet',
+  'application/x-parquet': 'parquet'
+};
+
+interface Cell {
+  value: unknown;
+  kind: CellKind;
+}
+
+// Built-in number formats that display dates or times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+const DAYS_TO_UNIX_EPOCH = 25569; // 1899-12-30 to 1970-01-01
+const DAYS_1904_OFFSET = 1462; // 1899-12-30 to 1904-01-01
+const MS_PER_DAY = 86400000;
+
+function unescapeXml(value: string): string {
+  return value.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+    const named: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+    if (entity in named) return named[entity];
+    return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`));
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+// Text of an <si> or <is> element: its runs, without phonetic guides
+function richText(xml: string): string {
+  const text = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return Array.from(text.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => unescapeXml(match[1])).join('');
+}
+
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '')) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function columnLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function isDateFormat(code: string): boolean {
+  // Ignore literal text, escapes, colors/conditions and padding, which may contain d, m, y, h or s
+  const pattern = code.replace(/"[^"]*"|\\.|\[[^\]]*\]|[_*]./g, '');
+  return /[dmyhs]/i.test(pattern);
+}
+
+/**
+ * An Excel date serial as an ISO date, or date and time when it has a time part
+ */
+export function excelSerialToDate(serial: number, date1904 = false): string {
+  // The 1900 system counts a February 29 1900 that never happened, so serials before it are a day off
+  const days = date1904 ? serial + DAYS_1904_OFFSET : serial < 60 ? serial + 1 : serial;
+  const iso = new Date(Math.round((days - DAYS_TO_UNIX_EPOCH) * MS_PER_DAY)).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso;
+}
+
+async function readXml(zip: JSZip, path: string): Promise<string | null> {
+  const file = zip.file(path);
+  return file ? file.async('string') : null;
+}
+
+function uniqueHeaders(cells: Array<Cell | undefined>, width: number): string[] {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, index) => {
+    const label = cells[index]?.value;
+    const base = label === null || label === undefined || String(label).trim() === ''
+      ? `Column ${columnLetters(index)}`
+      : String(label).trim();
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+}
+
+// The non-empty rows of a worksheet, with each cell at its column index
+function* sheetRows(
+  xml: string,
+  readCell: (attributes: string, content: string) => Cell | undefined
+): Generator<Array<Cell | undefined>> {
+  for (const row of xml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const cells: Array<Cell | undefined> = [];
+    let next = 0;
+    for (const cell of (row[1] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cell[1], 'r');
+      const index = reference ? columnIndex(reference) : next;
+      next = index + 1;
+      cells[index] = readCell(cell[1], cell[2] ?? '');
+    }
+    if (cells.some(cell => cell !== undefined)) yield cells;
+  }
+}
+
+/**
+ * The worksheets of an Excel workbook, in workbook order. The first non-empty row of each sheet is
+ * its header; empty rows are skipped and empty cells are null. Cells with a date number format are
+ * read as dates, and a column's type is the type of its cells, or mixed. Each sheet is scanned once
+ * for its width and types, then its rows are parsed again one at a time as they are iterated.
+ */
+export async function* readWorkbook(bytes: Uint8Array): AsyncGenerator<TabularTable> {
+  const zip = await JSZip.loadAsync(bytes);
+  const workbook = await readXml(zip, 'xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Not an Excel workbook: xl/workbook.xml is missing');
+  }
+
+  const date1904 = /<workbookPr\b[^>]*\bdate1904="(1|true)"/.test(workbook);
+  const relationships = new Map<string, string>();
+  for (const match of (await readXml(zip, 'xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\b([^>]*)>/g)) {
+    const id = attribute(match[1], 'Id');
+    const target = attribute(match[1], 'Target');
+    if (id && target) {
+      relationships.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    }
+  }
+
+  const sharedStrings = Array.from(
+    (await readXml(zip, 'xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+    match => richText(match[1])
+  );
+
+  const styles = await readXml(zip, 'xl/styles.xml') ?? '';
+  const customFormats = new Map<number, string>();
+  for (const match of styles.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    customFormats.set(Number(attribute(match[1], 'numFmtId')), attribute(match[1], 'formatCode') ?? '');
+  }
+  const cellFormats = styles.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? '';
+  const dateStyles = Array.from(cellFormats.matchAll(/<xf\b([^>]*)\/?>/g), match => {
+    const formatId = Number(attribute(match[1], 'numFmtId') ?? 0);
+    return customFormats.has(formatId) ? isDateFormat(customFormats.get(formatId)!) : DATE_FORMAT_IDS.has(formatId);
+  });
+
+  const readCell = (attributes: string, content: string): Cell | undefined => {
+    const type = attribute(attributes, 't') ?? 'n';
+    const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+    if (type === 'inlineStr') {
+      return { value: richText(content.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? ''), kind: 'string' };
+    }
+    if (raw === undefined || type === 'e') {
+      return undefined; // Empty, or an error value such as #N/A
+    }
+    if (type === 's') return { value: sharedStrings[Number(raw)] ?? '', kind: 'string' };
+    if (type === 'str') return { value: unescapeXml(raw), kind: 'string' };
+    if (type === 'b') return { value: raw === '1' || raw === 'true', kind: 'boolean' };
+    if (type === 'd') return { value: unescapeXml(raw), kind: 'date' };
+
+    const number = Number(raw);
+    if (dateStyles[Number(attribute(attributes, 's') ?? 0)]) {
+      return { value: excelSerialToDate(number, date1904), kind: 'date' };
+    }
+    return { value: number, kind: 'number' };
+  };
+
+  for (const [position, match] of Array.from(workbook.matchAll(/<sheet\b([^>]*)\/?>/g)).entries()) {
+    const name = attribute(match[1], 'name') ?? `Sheet ${position + 1}`;
+    const path = relationships.get(attribute(match[1], 'r:id') ?? '');
+    const xml = path ? await readXml(zip, path) : null;
+    if (!xml) continue;
+
+    // Sizing pass: the width, row count and cell types, without keeping any rows
+    let headerCells: Array<Cell | undefined> | undefined;
+    let width = 0;
+    let rowCount = 0;
+    const kinds: Array<Set<CellKind>> = [];
+    for (const cells of sheetRows(xml, readCell)) {
+      if (cells.length > width) width = cells.length;
+      if (!headerCells) {
+        headerCells = cells;
+        continue;
+      }
+      rowCount++;
+      cells.forEach((cell, index) => {
+        if (cell) (kinds[index] ??= new Set()).add(cell.kind);
+      });
+    }
+
+    const headers = uniqueHeaders(headerCells ?? [], width);
+    yield {
+      name,
+      type: 'sheet',
+      columns: headers.map((header, index) => {
+        const types = kinds[index] ?? new Set<CellKind>();
+        return { name: header, type: types.size === 1 ? [...types][0] : types.size === 0 ? 'string' : 'mixed' };
+      }),
+      rowCount,
+      // Rows are parsed again as they are iterated, so a sheet is never held as records
+      rows: (function* () {
+        let first = true;
+        for (const cells of sheetRows(xml, readCell)) {
+          if (first) {
+            first = false;
+            continue;
+          }
+          const record: Record<string, unknown> = {};
+          headers.forEach((header, index) => {
+            record[header] = cells[index]?.value ?? null;
+          });
+          yield record;
+        }
+      })()
+    };
+  }
+}
+
+interface ParquetSchemaNode {
+  children: ParquetSchemaNode[];
+  element: {
+    name: string;
+    type?: string;
+    converted_type?: string;
+    logical_type?: { type: string };
+  };
+}
+
+function parquetColumnType({ element, children }: ParquetSchemaNode): string {
+  const logical = element.logical_type?.type ?? element.converted_type;
+  switch (logical) {
+    case 'STRING': case 'UTF8': case 'ENUM': case 'UUID': return 'string';
+    case 'DATE': return 'date';
+    case 'TIMESTAMP': case 'TIMESTAMP_MILLIS': case 'TIMESTAMP_MICROS': return 'timestamp';
+    case 'DECIMAL': case 'FLOAT16': return 'number';
+    case 'JSON': case 'BSON': return 'json';
+    case 'LIST': return 'array';
+    case 'MAP': return 'object';
+  }
+  if (logical?.startsWith('INT') || logical?.startsWith('UINT_')) return 'integer';
+  if (children.length > 0) return 'object';
+
+  switch (element.type) {
+    case 'BOOLEAN': return 'boolean';
+    case 'INT32': case 'INT64': return 'integer';
+    case 'INT96': return 'timestamp';
+    case 'FLOAT': case 'DOUBLE': return 'number';
+    case 'FIXED_LEN_BYTE_ARRAY': return 'binary';
+    default: return 'string';
+  }
+}
+
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    const number = Number(value);
+    return Number.isSafeInteger(number) ? number : value.toString();
+  }
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toJsonValue(item)]));
+  }
+  return value;
+}
+
+/**
+ * The row groups of a Parquet file. Only the footer is read up front; each row group's rows are
+ * decoded when its rows are iterated. Snappy and uncompressed column chunks are supported.
+ */
+export async function* readParquet(bytes: Uint8Array): AsyncGenerator<TabularTable> {
+  // hyparquet is an ES module, so it is loaded when a Parquet file is first read
+  const { parquetMetadataAsync, parquetReadObjects, parquetSchema } = await import('hyparquet');
+  const file = {
+    byteLength: bytes.byteLength,
+    slice: (start: number, end?: number) =>
+      bytes.buffer.slice(bytes.byteOffset + start, bytes.byteOffset + (end ?? bytes.byteLength)) as ArrayBuffer
+  };
+
+  const metadata = await parquetMetadataAsync(file);
+  const columns = (parquetSchema(metadata).children as ParquetSchemaNode[]).map(node => ({
+    name: node.element.name,
+    type: parquetColumnType(node)
+  }));
+
+  let rowStart = 0;
+  for (const [index, rowGroup] of metadata.row_groups.entries()) {
+    const start = rowStart;
+    const rowCount = Number(rowGroup.num_rows);
+    rowStart += rowCount;
+
+    yield {
+      name: `Row group ${index + 1}`,
+      type: 'row_group',
+      columns,
+      rowCount,
+      rows: (async function* () {
+        const rows = await parquetReadObjects({ file, metadata, rowStart: start, rowEnd: start + rowCount });
+        for (const row of rows) {
+          yield toJsonValue(row) as Record<string, unknown>;
+        }
+      })()
+    };
+  }
+}
+
+/**
+ * Whether a file is an Excel workbook or Parquet file, from its extension or else its MIME type
+ */
+export function detectTabularFormat(name: string, type?: string): TabularFormat | null {
+  const extension = name.toLowerCase().split('.').pop() ?? '';
+  return TABULAR_EXTENSIONS[extension] ?? (type ? TABULAR_MIME_TYPES[type] : undefined) ?? null;
+}
+
+/**
+ * The tables of an Excel workbook or Parquet file
+ */
+export function readTables(bytes: Uint8Array, format: TabularFormat): AsyncGenerator<TabularTable> {
+  return format === 'xlsx' ? readWorkbook(bytes) : readParquet(bytes);
+}